@@ -12,6 +12,7 @@ import { registerRoutes } from './routes/index.js';
 import { errorHandler } from './plugins/error-handler.js';
 import { sentryPlugin } from './plugins/sentry.js';
 import authPlugin from './plugins/auth.js';
+import permissionsPlugin from './plugins/permissions.js';
 import requestContextPlugin from './plugins/request-context.js';
 import rateLimitPlugin from './plugins/rate-limit.js';
 import { rlsContextPlugin, subdomainResolverPlugin } from './middleware/index.js';
@@ -55,7 +56,7 @@ export async function buildApp(): Promise<App> {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-ID'],
     exposedHeaders: ['X-Request-ID', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'],
     maxAge: 86400, // 24 hours
   });
@@ -108,6 +109,9 @@ export async function buildApp(): Promise<App> {
   // Register auth plugin (adds authenticate and optionalAuth decorators)
   await app.register(authPlugin);
 
+  // Register permissions plugin (adds requirePermission decorator for role-based authorization)
+  await app.register(permissionsPlugin);
+
   // Register RLS context middleware (sets PostgreSQL session variables for row-level security)
   await app.register(rlsContextPlugin, {
     excludeRoutes: ['/health', '/ready'],
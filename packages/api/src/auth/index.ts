@@ -7,3 +7,4 @@
 export * from './sso-types.js';
 export * from './sso-service.js';
 export * from './strategies/index.js';
+export * from './login-session.js';
@@ -0,0 +1,73 @@
+/**
+ * Login Session
+ *
+ * Issues the access and refresh tokens that complete a password login, either
+ * directly from /auth/login or after the MFA challenge.
+ */
+
+import {
+  createOrganizationId,
+  createUserId,
+  type LoginResponse,
+} from '@argus/shared';
+import {
+  getUserRepository,
+  getUserOrganizationRepository,
+  getRefreshTokenRepository,
+  type User,
+} from '../repositories/index.js';
+import { signAccessToken } from '../utils/jwt.js';
+
+/** Client details recorded on the refresh token */
+export interface LoginClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Records the login and issues tokens with the user's organization context
+ */
+export async function createLoginSession(user: User, client: LoginClient): Promise<LoginResponse> {
+  const userRepo = getUserRepository();
+  const userOrgRepo = getUserOrganizationRepository();
+  const refreshTokenRepo = getRefreshTokenRepository();
+
+  // Update last login timestamp
+  const userId = createUserId(user.id);
+  await userRepo.updateLastLogin(userId);
+
+  // Build organization context (ADR-002)
+  // Get all accessible organizations for the user
+  const userOrgs = await userOrgRepo.getUserOrganizations(userId);
+  const accessibleOrganizationIds = userOrgs.map((membership) =>
+    createOrganizationId(membership.organizationId)
+  );
+
+  // Create organization context for JWT
+  const organizationContext = {
+    rootOrganizationId: createOrganizationId(user.rootOrganizationId),
+    currentOrganizationId: createOrganizationId(user.primaryOrganizationId),
+    accessibleOrganizationIds,
+  };
+
+  // Generate tokens with organization context
+  const { token: refreshToken, record } = await refreshTokenRepo.create(userId, client);
+  const accessToken = signAccessToken(userId, user.email, organizationContext, undefined, record.familyId);
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresIn: 900, // 15 minutes in seconds
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      status: user.status,
+      emailVerifiedAt: user.emailVerifiedAt?.toISOString() ?? null,
+      lastLoginAt: new Date().toISOString(), // Use current time since we just updated it
+      createdAt: user.createdAt.toISOString(),
+      updatedAt: user.updatedAt.toISOString(),
+    },
+  };
+}
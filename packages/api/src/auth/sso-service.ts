@@ -17,6 +17,7 @@ import { eq, and } from 'drizzle-orm';
 import type { SsoProfile, SsoAuthResult } from './sso-types.js';
 import type { UserId } from '@argus/shared';
 import { auditService } from '../services/audit.service.js';
+import { getSsoMappingService, profileClaims } from '../services/sso-mapping.service.js';
 
 /**
  * SSO Service class
@@ -59,6 +60,12 @@ class SsoService {
     });
 
     if (existingIdentity) {
+      // Suspended accounts (e.g. deactivated through SCIM) cannot sign in
+      if (existingIdentity.user.status !== 'active' || existingIdentity.user.deletedAt) {
+        await this.logInactiveLogin(existingIdentity.userId, profile, provider.type);
+        throw new Error('User account is not active');
+      }
+
       // Update existing identity with latest profile
       await this.updateIdentityProfile(existingIdentity.id, profile);
 
@@ -68,6 +75,8 @@ class SsoService {
         .set({ lastLoginAt: new Date() })
         .where(eq(users.id, existingIdentity.userId));
 
+      await this.applyMappings(existingIdentity.userId, profile);
+
       await auditService.logAuth('sso_login', {
         userId: existingIdentity.userId as UserId,
         userEmail: profile.email,
@@ -97,6 +106,11 @@ class SsoService {
       });
 
       if (existingUser) {
+        if (existingUser.status !== 'active' || existingUser.deletedAt) {
+          await this.logInactiveLogin(existingUser.id, profile, provider.type);
+          throw new Error('User account is not active');
+        }
+
         // Link identity to existing user
         await this.createIdentity(existingUser.id, profile);
 
@@ -106,6 +120,8 @@ class SsoService {
           .set({ lastLoginAt: new Date() })
           .where(eq(users.id, existingUser.id));
 
+        await this.applyMappings(existingUser.id, profile);
+
         await auditService.logAuth('sso_login_linked', {
           userId: existingUser.id as UserId,
           userEmail: profile.email,
@@ -141,6 +157,8 @@ class SsoService {
 
     const newUser = await this.createUserFromProfile(profile, provider.organizationId);
 
+    await this.applyMappings(newUser.id, profile);
+
     await auditService.logAuth('sso_register', {
       userId: newUser.id as UserId,
       userEmail: profile.email,
@@ -158,6 +176,30 @@ class SsoService {
     };
   }
 
+  /**
+   * Re-evaluates the provider's mapping rules so that IdP group and claim
+   * changes are reflected in memberships, groups and roles
+   */
+  private async applyMappings(userId: string, profile: SsoProfile): Promise<void> {
+    await getSsoMappingService().applyMappings(profile.providerId, userId as UserId, profileClaims(profile));
+  }
+
+  /**
+   * Records a rejected sign-in to an inactive account
+   */
+  private async logInactiveLogin(userId: string, profile: SsoProfile, providerType: string): Promise<void> {
+    await auditService.logAuth('sso_login', {
+      userId: userId as UserId,
+      userEmail: profile.email,
+      outcome: 'failure',
+      details: {
+        providerId: profile.providerId,
+        providerType,
+        reason: 'account_inactive',
+      },
+    });
+  }
+
   /**
    * Creates a new user from SSO profile
    * ADR-002: Users must have organization context
@@ -0,0 +1,44 @@
+-- Migration: Threshold Rule Evaluation State
+-- Description: Persist per-asset threshold rule state so hysteresis, debounce and cooldown survive restarts
+-- Date: 2026-10-19
+-- References: IoT_Platform_Architecture_Design.md Section 4.3.5 (Event Engine Worker)
+
+-- ============================================================
+-- THRESHOLD_RULE_STATES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS threshold_rule_states (
+  rule_id UUID NOT NULL REFERENCES threshold_rules(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  level TEXT NOT NULL DEFAULT 'normal'
+    CHECK (level IN ('normal', 'warning', 'critical')),
+  pending_level TEXT CHECK (pending_level IN ('warning', 'critical')),
+  pending_since TIMESTAMPTZ,
+  alert_level TEXT CHECK (alert_level IN ('warning', 'critical')),
+  last_breached_at TIMESTAMPTZ,
+
+  last_value NUMERIC,
+  last_evaluated_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (rule_id, asset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_threshold_rule_states_tenant ON threshold_rule_states(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_threshold_rule_states_asset ON threshold_rule_states(asset_id);
+
+COMMENT ON TABLE threshold_rule_states IS 'Per-asset evaluation state for threshold rules (current level, pending escalation, alert episode)';
+COMMENT ON COLUMN threshold_rule_states.pending_level IS 'Escalation waiting for debounce_seconds to elapse';
+COMMENT ON COLUMN threshold_rule_states.alert_level IS 'Highest level alerted in the current episode; NULL when not alerting';
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================
+
+ALTER TABLE threshold_rule_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY threshold_rule_states_tenant_isolation ON threshold_rule_states
+  FOR ALL
+  USING (tenant_id = current_setting('app.current_tenant_id', TRUE)::UUID);
@@ -0,0 +1,28 @@
+-- Migration: Gateway Demultiplexing
+-- Description: Allow partial gateway transactions and make logical identifiers unique per gateway
+-- Date: 2026-10-19
+-- References: Gateway_Complex_Telemetry_Architecture.md Section 3.4 (Transaction Coordinator)
+
+-- ============================================================
+-- TELEMETRY_TRANSACTIONS STATUS
+-- ============================================================
+
+-- 'partial': some logical devices in the message could not be resolved
+ALTER TABLE telemetry_transactions
+  DROP CONSTRAINT IF EXISTS telemetry_transactions_status_check;
+
+ALTER TABLE telemetry_transactions
+  ADD CONSTRAINT telemetry_transactions_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'partial', 'failed'));
+
+COMMENT ON COLUMN telemetry_transactions.status IS 'pending -> completed (all logical devices stored), partial (some unresolved) or failed';
+
+-- ============================================================
+-- CHILD DEVICE LOOKUP
+-- ============================================================
+
+-- One live child per logical identifier under a gateway; also guards
+-- concurrent auto-provisioning
+CREATE UNIQUE INDEX IF NOT EXISTS idx_devices_parent_logical_id
+  ON devices(parent_device_id, logical_identifier)
+  WHERE deleted_at IS NULL AND logical_identifier IS NOT NULL;
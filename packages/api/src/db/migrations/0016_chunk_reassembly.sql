@@ -0,0 +1,19 @@
+-- Migration: Chunk Reassembly
+-- Description: Scope chunk identity to the sending device so correlation IDs from different devices cannot collide
+-- Date: 2026-10-19
+-- References: Gateway_Complex_Telemetry_Architecture.md Section 3.2 (Chunk Reassembly)
+
+-- ============================================================
+-- TELEMETRY_CHUNKS UNIQUENESS
+-- ============================================================
+
+-- Devices generate correlation IDs independently (often small counters),
+-- so (correlation_id, sequence_number) alone is not unique
+ALTER TABLE telemetry_chunks
+  DROP CONSTRAINT IF EXISTS telemetry_chunks_unique_sequence;
+
+ALTER TABLE telemetry_chunks
+  ADD CONSTRAINT telemetry_chunks_unique_sequence
+    UNIQUE (tenant_id, device_id, correlation_id, sequence_number);
+
+COMMENT ON COLUMN telemetry_chunks.expires_at IS 'Incomplete chunk sets are dropped after this time (device type chunking_config.ttl, default 60 seconds)';
@@ -0,0 +1,54 @@
+-- Migration: Device Commands
+-- Description: Cloud-to-device commands with a delivery status lifecycle
+-- Date: 2026-10-19
+-- References: packages/iot-bridge/src/commands (downlink relay)
+
+-- ============================================================
+-- DEVICE_COMMANDS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS device_commands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+
+  command TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  data TEXT,
+  f_port INTEGER CHECK (f_port BETWEEN 1 AND 223),
+  transport TEXT NOT NULL CHECK (transport IN ('mqtt', 'chirpstack')),
+  require_ack BOOLEAN NOT NULL DEFAULT FALSE,
+
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'delivered', 'acked', 'failed', 'expired')),
+  error TEXT,
+  response JSONB,
+
+  expires_at TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  acked_at TIMESTAMPTZ,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_commands_device ON device_commands(device_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_device_commands_tenant ON device_commands(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_device_commands_open ON device_commands(expires_at)
+  WHERE status IN ('queued', 'sent', 'delivered');
+
+COMMENT ON TABLE device_commands IS 'Commands queued for devices and their delivery status (queued → sent → delivered → acked, or failed/expired)';
+COMMENT ON COLUMN device_commands.data IS 'Raw downlink bytes (base64) for ChirpStack; NULL sends payload for codec encoding';
+COMMENT ON COLUMN device_commands.require_ack IS 'Command completes only when acknowledged by the device (confirmed downlink for LoRaWAN)';
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================
+
+ALTER TABLE device_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY device_commands_tenant_isolation ON device_commands
+  FOR ALL
+  USING (tenant_id = current_setting('app.current_tenant_id', TRUE)::UUID);
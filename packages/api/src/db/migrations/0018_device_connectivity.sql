@@ -0,0 +1,22 @@
+-- Migration: Device Connectivity Watchdog
+-- Description: Per-device-type expected reporting interval for deriving online/offline status from last_seen_at
+-- Date: 2026-10-19
+-- References: phase-7-iot-meta-model.md Section 5.2 (Device Types)
+
+-- ============================================================
+-- DEVICE_TYPES CONNECTIVITY CONFIG
+-- ============================================================
+
+ALTER TABLE device_types
+  ADD COLUMN IF NOT EXISTS connectivity_config JSONB;
+
+COMMENT ON COLUMN device_types.connectivity_config IS 'Connectivity watchdog settings: { expectedIntervalSeconds, offlineAfterIntervals, errorAfterIntervals }. NULL uses the platform default';
+
+-- ============================================================
+-- DEVICES WATCHDOG INDEX
+-- ============================================================
+
+-- The watchdog scans devices whose status it manages
+CREATE INDEX IF NOT EXISTS idx_devices_connectivity
+  ON devices (status, last_seen_at)
+  WHERE deleted_at IS NULL AND status IN ('active', 'offline', 'error');
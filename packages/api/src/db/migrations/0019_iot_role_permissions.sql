@@ -0,0 +1,51 @@
+-- Migration: IoT Role Permissions
+-- Description: Grant the Member and Viewer system roles access to IoT resources now that routes enforce role permissions
+-- Date: 2026-10-19
+-- References: 0003_user_groups_and_roles.sql (system roles)
+
+-- ============================================================
+-- MEMBER: create / read / update IoT entities, read types
+-- ============================================================
+
+UPDATE roles
+SET permissions = jsonb_set(
+      COALESCE(permissions, '{"resources": []}'::jsonb),
+      '{resources}',
+      COALESCE(permissions->'resources', '[]'::jsonb) || '[
+        {"resource": "devices", "actions": ["create", "read", "update"]},
+        {"resource": "assets", "actions": ["create", "read", "update"]},
+        {"resource": "spaces", "actions": ["create", "read", "update"]},
+        {"resource": "persons", "actions": ["create", "read", "update"]},
+        {"resource": "activities", "actions": ["create", "read", "update"]},
+        {"resource": "types", "actions": ["read"]}
+      ]'::jsonb
+    ),
+    updated_at = NOW()
+WHERE is_system = true
+  AND organization_id IS NULL
+  AND name = 'Member'
+  AND NOT COALESCE(permissions->'resources', '[]'::jsonb) @> '[{"resource": "devices"}]'::jsonb;
+
+-- ============================================================
+-- VIEWER: read IoT entities and types
+-- ============================================================
+
+UPDATE roles
+SET permissions = jsonb_set(
+      COALESCE(permissions, '{"resources": []}'::jsonb),
+      '{resources}',
+      COALESCE(permissions->'resources', '[]'::jsonb) || '[
+        {"resource": "devices", "actions": ["read"]},
+        {"resource": "assets", "actions": ["read"]},
+        {"resource": "spaces", "actions": ["read"]},
+        {"resource": "persons", "actions": ["read"]},
+        {"resource": "activities", "actions": ["read"]},
+        {"resource": "types", "actions": ["read"]}
+      ]'::jsonb
+    ),
+    updated_at = NOW()
+WHERE is_system = true
+  AND organization_id IS NULL
+  AND name = 'Viewer'
+  AND NOT COALESCE(permissions->'resources', '[]'::jsonb) @> '[{"resource": "devices"}]'::jsonb;
+
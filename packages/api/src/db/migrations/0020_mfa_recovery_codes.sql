@@ -0,0 +1,21 @@
+-- Migration: MFA Recovery Codes
+-- Description: One-time recovery codes for TOTP multi-factor authentication
+-- Date: 2026-10-19
+-- References: users.mfa_enabled / users.mfa_secret (0002_multi_org_hierarchy.sql)
+
+-- ============================================================
+-- MFA_RECOVERY_CODES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+COMMENT ON TABLE mfa_recovery_codes IS 'One-time MFA recovery codes (SHA-256 hashes)';
+COMMENT ON COLUMN mfa_recovery_codes.used_at IS 'Set when the code was used to sign in; used codes cannot be reused';
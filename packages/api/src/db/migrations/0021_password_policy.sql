@@ -0,0 +1,37 @@
+-- Migration: Password Policy and Account Lockout
+-- Description: Password history, password age and failed login tracking for the platform password policy
+-- Date: 2026-10-19
+-- References: platform_settings security.password_* / security.max_failed_login_attempts keys
+
+-- ============================================================
+-- USERS: password age and lockout state
+-- ============================================================
+
+-- Existing passwords start their expiry period when the policy is introduced
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.password_changed_at IS 'When the password was last set (password expiration policy)';
+COMMENT ON COLUMN users.failed_login_attempts IS 'Consecutive failed logins since the last success or lockout';
+COMMENT ON COLUMN users.locked_until IS 'Logins are rejected until this time after too many failed attempts';
+
+-- ============================================================
+-- PASSWORD_HISTORY TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_created ON password_history(user_id, created_at DESC);
+
+-- Seed history with current passwords so the reuse policy covers them
+INSERT INTO password_history (user_id, password_hash)
+SELECT id, password_hash FROM users WHERE password_hash IS NOT NULL AND deleted_at IS NULL;
+
+COMMENT ON TABLE password_history IS 'Hashes of previous passwords (password reuse policy)';
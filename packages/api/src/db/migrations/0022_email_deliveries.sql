@@ -0,0 +1,36 @@
+-- Migration: Email Deliveries
+-- Description: Outbound mail queue and delivery log for the mail service
+-- Date: 2026-10-19
+-- References: platform_settings email.* keys (Mail Server tab)
+
+-- ============================================================
+-- EMAIL_DELIVERIES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+  template VARCHAR(50) NOT NULL,
+  to_address VARCHAR(255) NOT NULL,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT email_deliveries_status_check CHECK (status IN ('queued', 'sending', 'sent', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_due ON email_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_created ON email_deliveries(created_at DESC);
+
+COMMENT ON TABLE email_deliveries IS 'Outbound email queue and delivery log';
+COMMENT ON COLUMN email_deliveries.next_attempt_at IS 'When a queued message is next due to be sent (retry backoff)';
+COMMENT ON COLUMN email_deliveries.message_id IS 'SMTP Message-ID of the accepted message';
+
@@ -0,0 +1,33 @@
+-- Migration: Organization API Keys
+-- Description: Hashed, scoped API keys for machine-to-machine access (X-API-Key header)
+-- Date: 2026-10-19
+-- References: organization_profiles.limits.maxApiKeys, organizations.settings.features.apiAccess
+
+-- ============================================================
+-- API_KEYS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  key_prefix VARCHAR(32) NOT NULL,
+  key_hash VARCHAR(64) NOT NULL UNIQUE,
+  permissions JSONB NOT NULL DEFAULT '[]',
+  allowed_ips JSONB NOT NULL DEFAULT '[]',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip VARCHAR(45),
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_organization ON api_keys(organization_id);
+
+COMMENT ON TABLE api_keys IS 'Organization API keys; a key acts for its creator within its permission subset';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 of the full key (the key is shown once at creation)';
+COMMENT ON COLUMN api_keys.allowed_ips IS 'IP addresses / CIDR ranges the key may be used from; empty allows any';
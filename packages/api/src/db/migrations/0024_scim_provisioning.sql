@@ -0,0 +1,33 @@
+-- Migration: SCIM 2.0 Provisioning
+-- Description: Per identity provider SCIM bearer tokens, SCIM-provisioned identity links and external IDs for provisioned groups
+-- Date: 2026-10-19
+-- References: /scim/v2 (RFC 7643 / RFC 7644), user_identities, user_groups, user_role_assignments.source = 'sso'
+
+-- ============================================================
+-- IDENTITY_PROVIDERS: SCIM bearer token
+-- ============================================================
+
+ALTER TABLE identity_providers
+  ADD COLUMN IF NOT EXISTS scim_token_hash VARCHAR(64) UNIQUE,
+  ADD COLUMN IF NOT EXISTS scim_token_created_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN identity_providers.scim_token_hash IS 'SHA-256 of the SCIM bearer token (shown once when generated); null disables SCIM';
+COMMENT ON COLUMN identity_providers.scim_token_created_at IS 'When the current SCIM token was generated';
+
+-- ============================================================
+-- USER_IDENTITIES: SCIM provisioned links
+-- ============================================================
+
+ALTER TABLE user_identities
+  ADD COLUMN IF NOT EXISTS provisioned_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN user_identities.provisioned_at IS 'When SCIM provisioning linked the user (external_id is the SCIM externalId); null for links made at sign-in';
+
+-- ============================================================
+-- USER_GROUPS: identity provider group ID
+-- ============================================================
+
+ALTER TABLE user_groups
+  ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+
+COMMENT ON COLUMN user_groups.external_id IS 'Group ID in the identity provider directory (SCIM externalId)';
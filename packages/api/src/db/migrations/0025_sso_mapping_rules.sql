@@ -0,0 +1,47 @@
+-- Migration: SSO Mapping Rules
+-- Description: Per identity provider rules mapping IdP claims, SAML attributes and groups to organizations, user groups and roles
+-- Date: 2026-10-19
+-- References: identity_providers, user_organizations, user_group_memberships, user_role_assignments.source = 'sso'
+
+-- ============================================================
+-- SSO_MAPPING_RULES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS sso_mapping_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_id UUID NOT NULL REFERENCES identity_providers(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  claim VARCHAR(255) NOT NULL,
+  operator VARCHAR(20) NOT NULL,
+  value VARCHAR(500),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  organization_role organization_role NOT NULL DEFAULT 'member',
+  group_id UUID REFERENCES user_groups(id) ON DELETE CASCADE,
+  role_id UUID REFERENCES roles(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_mapping_rules_provider ON sso_mapping_rules(provider_id);
+
+COMMENT ON TABLE sso_mapping_rules IS 'Rules granting organization membership, user groups and roles to SSO users whose claims match';
+COMMENT ON COLUMN sso_mapping_rules.claim IS 'OIDC claim or SAML attribute name; dots address nested claims';
+COMMENT ON COLUMN sso_mapping_rules.operator IS 'equals, contains, starts_with, ends_with, matches (regular expression) or exists';
+
+-- ============================================================
+-- SSO_MAPPING_GRANTS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS sso_mapping_grants (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES identity_providers(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  target_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, provider_id, kind, organization_id, target_id)
+);
+
+COMMENT ON TABLE sso_mapping_grants IS 'Memberships, group memberships and roles created by mapping rules; only these are removed when the rules stop matching';
+COMMENT ON COLUMN sso_mapping_grants.kind IS 'membership (target_id = organization_id), group (target_id = user group) or role (target_id = role)';
@@ -0,0 +1,50 @@
+-- Migration: Impersonation Approvals and Activity
+-- Description: Owner approval of impersonation requests, read-only impersonation and a per-session log of API calls
+-- Date: 2026-10-19
+-- References: impersonation_sessions, organizations.settings.features.impersonationApprovalRequired
+
+-- ============================================================
+-- IMPERSONATION REQUEST STATUSES
+-- ============================================================
+
+-- pending: waiting for an organization owner; approved: may be started by the requester;
+-- denied: rejected by an owner. Requests past expires_at become expired.
+ALTER TYPE impersonation_status ADD VALUE IF NOT EXISTS 'pending';
+ALTER TYPE impersonation_status ADD VALUE IF NOT EXISTS 'approved';
+ALTER TYPE impersonation_status ADD VALUE IF NOT EXISTS 'denied';
+
+-- ============================================================
+-- IMPERSONATION_SESSIONS COLUMNS
+-- ============================================================
+
+ALTER TABLE impersonation_sessions
+  ADD COLUMN IF NOT EXISTS read_only BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS requested_duration_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS decision_note TEXT;
+
+COMMENT ON COLUMN impersonation_sessions.read_only IS 'Mutating API calls (anything but GET, HEAD and OPTIONS) are rejected';
+COMMENT ON COLUMN impersonation_sessions.requested_duration_minutes IS 'Session length of an approval request, applied when the session starts';
+COMMENT ON COLUMN impersonation_sessions.expires_at IS 'Session end for active sessions; deadline for approving or starting a request';
+
+-- ============================================================
+-- IMPERSONATION_ACTIVITY TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS impersonation_activity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES impersonation_sessions(id) ON DELETE CASCADE,
+  method VARCHAR(10) NOT NULL,
+  path VARCHAR(2000) NOT NULL,
+  route VARCHAR(500),
+  status_code INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_activity_session ON impersonation_activity(session_id, created_at);
+
+COMMENT ON TABLE impersonation_activity IS 'Every API call made with an impersonation token';
+COMMENT ON COLUMN impersonation_activity.path IS 'Request path without the query string';
+COMMENT ON COLUMN impersonation_activity.route IS 'Matched route pattern, e.g. /api/v1/assets/:id';
@@ -0,0 +1,63 @@
+-- Migration: Entity Relationships
+-- Description: Let entity_edges connect rows of the Phase 7 base type tables (assets, devices, spaces, persons, activities)
+-- Date: 2026-10-19
+-- References: entity_edges, 0006_phase7_base_types.sql
+
+-- ============================================================
+-- ENTITY_EDGES FOREIGN KEYS
+-- ============================================================
+
+-- Edges reference rows of the base type tables, not the generic entities
+-- table, so the existence and tenant of both ends are checked by the API.
+ALTER TABLE entity_edges DROP CONSTRAINT IF EXISTS entity_edges_source_entity_id_entities_id_fk;
+ALTER TABLE entity_edges DROP CONSTRAINT IF EXISTS entity_edges_target_entity_id_entities_id_fk;
+
+COMMENT ON COLUMN entity_edges.source_entity_id IS 'Row of the table of source_entity_type (assets, devices, spaces, persons or activities)';
+COMMENT ON COLUMN entity_edges.target_entity_id IS 'Row of the table of target_entity_type (assets, devices, spaces, persons or activities)';
+
+CREATE INDEX IF NOT EXISTS idx_edges_tenant_source ON entity_edges(tenant_id, source_entity_id);
+CREATE INDEX IF NOT EXISTS idx_edges_tenant_target ON entity_edges(tenant_id, target_entity_id);
+
+-- ============================================================
+-- CASCADE ON HARD DELETE
+-- ============================================================
+
+-- Replaces the dropped ON DELETE CASCADE foreign keys
+CREATE OR REPLACE FUNCTION delete_entity_edges()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM entity_edges
+  WHERE source_entity_id = OLD.id OR target_entity_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_assets_delete_edges ON assets;
+CREATE TRIGGER trg_assets_delete_edges
+  AFTER DELETE ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_entity_edges();
+
+DROP TRIGGER IF EXISTS trg_devices_delete_edges ON devices;
+CREATE TRIGGER trg_devices_delete_edges
+  AFTER DELETE ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_entity_edges();
+
+DROP TRIGGER IF EXISTS trg_spaces_delete_edges ON spaces;
+CREATE TRIGGER trg_spaces_delete_edges
+  AFTER DELETE ON spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_entity_edges();
+
+DROP TRIGGER IF EXISTS trg_persons_delete_edges ON persons;
+CREATE TRIGGER trg_persons_delete_edges
+  AFTER DELETE ON persons
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_entity_edges();
+
+DROP TRIGGER IF EXISTS trg_activities_delete_edges ON activities;
+CREATE TRIGGER trg_activities_delete_edges
+  AFTER DELETE ON activities
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_entity_edges();
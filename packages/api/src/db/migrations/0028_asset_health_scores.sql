@@ -0,0 +1,39 @@
+-- Migration: Asset Health Scores
+-- Description: History of asset health scores computed from the asset type health algorithm
+-- Date: 2026-10-19
+-- References: Asset_Type_Profile_Architecture.md Section 2.3 (Health Algorithm)
+
+-- ============================================================
+-- ASSET_HEALTH_SCORES TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS asset_health_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+
+  score NUMERIC(5, 2) NOT NULL CHECK (score >= 0 AND score <= 100),
+  factors JSONB NOT NULL DEFAULT '[]',
+  trigger TEXT NOT NULL CHECK (trigger IN ('telemetry', 'children')),
+
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_health_scores_asset_time ON asset_health_scores(asset_id, computed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_asset_health_scores_tenant ON asset_health_scores(tenant_id);
+
+COMMENT ON TABLE asset_health_scores IS 'History of asset health scores; a row is written when the score changes';
+COMMENT ON COLUMN asset_health_scores.factors IS 'Contributions to the score: [{ type, impact, reason, details }]';
+COMMENT ON COLUMN asset_health_scores.trigger IS 'What caused the recomputation: telemetry (readings or threshold alerts) or children (a child asset score changed)';
+
+COMMENT ON COLUMN asset_types.health_algorithm IS 'Health score algorithm: { algorithmType, baseScore, rules: [{ metric, weight, thresholds: [{ above, below, deduct, reason }] }], openEvents, staleness, children }';
+
+-- ============================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================
+
+ALTER TABLE asset_health_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY asset_health_scores_tenant_isolation ON asset_health_scores
+  FOR ALL
+  USING (tenant_id = current_setting('app.current_tenant_id', TRUE)::UUID);
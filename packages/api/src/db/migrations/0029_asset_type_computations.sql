@@ -0,0 +1,50 @@
+-- Migration: Asset Type Computations
+-- Description: Record versioned asset type telemetry profiles (derived metrics, windowed aggregations, child roll-ups)
+-- Date: 2026-10-19
+-- References: Asset_Type_Profile_Architecture.md Sections 2.2, 2.6 and 5.1
+
+-- ============================================================
+-- ASSET_TYPE_PROFILE_VERSIONS TABLE
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS asset_type_profile_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  asset_type_id UUID NOT NULL REFERENCES asset_types(id) ON DELETE CASCADE,
+
+  version TEXT NOT NULL,
+  profile JSONB NOT NULL,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS asset_type_profile_versions_type_version_unique
+  ON asset_type_profile_versions(asset_type_id, version);
+CREATE INDEX IF NOT EXISTS idx_asset_type_profile_versions_org ON asset_type_profile_versions(organization_id);
+
+COMMENT ON TABLE asset_type_profile_versions IS 'Telemetry profile of an asset type as of each telemetry_config_version';
+COMMENT ON COLUMN asset_type_profile_versions.profile IS '{ metricDefinitions, transformationEngine, aggregationRules, healthAlgorithm }';
+
+ALTER TABLE asset_type_profile_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY asset_type_profile_versions_org_isolation ON asset_type_profile_versions
+  FOR ALL
+  USING (organization_id = current_setting('app.current_organization_id', TRUE)::uuid);
+
+-- ============================================================
+-- ASSET_TYPES PROFILE COLUMNS
+-- ============================================================
+
+COMMENT ON COLUMN asset_types.transformation_engine IS 'Derived metrics: { derivedMetrics: [{ target, formula }], staleAfterSeconds }';
+COMMENT ON COLUMN asset_types.aggregation_rules IS 'Windowed aggregations and child roll-ups: { windows: [{ target, source, aggregation, window }], rollups: [{ target, source, aggregation }], staleAfterSeconds }';
+COMMENT ON COLUMN asset_types.telemetry_config_version IS 'Bumped on every telemetry profile change; computed telemetry records the version in metadata.configVersion';
+
+-- ============================================================
+-- TELEMETRY_HISTORY LOOKUP FOR COMPUTED METRICS
+-- ============================================================
+
+-- Latest value per metric of an entity (inputs of derived metrics, roll-ups
+-- and the last materialized window)
+CREATE INDEX IF NOT EXISTS idx_telemetry_history_entity_metric_time
+  ON telemetry_history (entity_id, metric_key, timestamp DESC);
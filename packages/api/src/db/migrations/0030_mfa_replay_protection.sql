@@ -0,0 +1,13 @@
+-- Migration: MFA Replay Protection
+-- Description: Remember the TOTP time step of the last accepted code so codes cannot be reused
+-- Date: 2026-10-19
+-- References: users.mfa_secret (0002_multi_org_hierarchy.sql)
+
+-- ============================================================
+-- USERS: last accepted TOTP step
+-- ============================================================
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS mfa_last_used_step INTEGER;
+
+COMMENT ON COLUMN users.mfa_last_used_step IS 'TOTP time step of the last accepted code; codes for this or earlier steps are rejected';
@@ -0,0 +1,16 @@
+-- Migration: Telemetry Raw Source Message
+-- Description: Record the stream message ID of each raw message so redeliveries are detected even when a message produced no metrics
+-- Date: 2026-10-19
+-- References: telemetry_raw (0012_iot_foundation.sql)
+
+-- ============================================================
+-- TELEMETRY_RAW: source message ID
+-- ============================================================
+
+ALTER TABLE telemetry_raw
+  ADD COLUMN IF NOT EXISTS source_message_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_telemetry_raw_source_message ON telemetry_raw(source_message_id)
+  WHERE source_message_id IS NOT NULL;
+
+COMMENT ON COLUMN telemetry_raw.source_message_id IS 'Stream message ID (stream:sequence); used to skip redelivered messages that were already committed';
@@ -0,0 +1,42 @@
+-- Migration: Telemetry Role Permissions
+-- Description: Grant the Member and Viewer system roles access to telemetry and threshold rules now that those routes enforce role permissions
+-- Date: 2026-10-19
+-- References: 0019_iot_role_permissions.sql
+
+-- ============================================================
+-- MEMBER: read telemetry, create / read / update threshold rules
+-- ============================================================
+
+UPDATE roles
+SET permissions = jsonb_set(
+      COALESCE(permissions, '{"resources": []}'::jsonb),
+      '{resources}',
+      COALESCE(permissions->'resources', '[]'::jsonb) || '[
+        {"resource": "telemetry", "actions": ["read"]},
+        {"resource": "threshold_rules", "actions": ["create", "read", "update"]}
+      ]'::jsonb
+    ),
+    updated_at = NOW()
+WHERE is_system = true
+  AND organization_id IS NULL
+  AND name = 'Member'
+  AND NOT COALESCE(permissions->'resources', '[]'::jsonb) @> '[{"resource": "telemetry"}]'::jsonb;
+
+-- ============================================================
+-- VIEWER: read telemetry and threshold rules
+-- ============================================================
+
+UPDATE roles
+SET permissions = jsonb_set(
+      COALESCE(permissions, '{"resources": []}'::jsonb),
+      '{resources}',
+      COALESCE(permissions->'resources', '[]'::jsonb) || '[
+        {"resource": "telemetry", "actions": ["read"]},
+        {"resource": "threshold_rules", "actions": ["read"]}
+      ]'::jsonb
+    ),
+    updated_at = NOW()
+WHERE is_system = true
+  AND organization_id IS NULL
+  AND name = 'Viewer'
+  AND NOT COALESCE(permissions->'resources', '[]'::jsonb) @> '[{"resource": "telemetry"}]'::jsonb;
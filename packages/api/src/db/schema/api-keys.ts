@@ -0,0 +1,64 @@
+/**
+ * API keys table
+ * Organization API keys for machine-to-machine access
+ */
+
+import { pgTable, uuid, varchar, text, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+import { users } from './users.js';
+
+/** Resource actions granted to a key (same shape as role permissions) */
+export interface ApiKeyPermission {
+  resource: string;
+  actions: ('create' | 'read' | 'update' | 'delete')[];
+}
+
+/**
+ * API keys table
+ * - Keys are stored as SHA-256 hashes; the secret is shown once at creation
+ * - key_prefix identifies a key in lists and logs
+ * - A key acts for the user who created it, limited to its permissions
+ * - Revoked keys are kept for the audit trail
+ */
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    description: text('description'),
+
+    // Credentials
+    keyPrefix: varchar('key_prefix', { length: 32 }).notNull(),
+    keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
+
+    // Scope
+    permissions: jsonb('permissions').$type<ApiKeyPermission[]>().notNull().default([]),
+    // IP addresses / CIDR ranges; empty allows any address
+    allowedIps: jsonb('allowed_ips').$type<string[]>().notNull().default([]),
+
+    // Lifecycle
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    lastUsedIp: varchar('last_used_ip', { length: 45 }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+    revokedBy: uuid('revoked_by').references(() => users.id, { onDelete: 'set null' }),
+
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_api_keys_organization').on(table.organizationId),
+  ]
+);
+
+// Infer types from schema
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
@@ -0,0 +1,51 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  jsonb,
+  numeric,
+  index,
+} from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+import { assets } from './assets.js';
+
+/**
+ * Asset Health Scores - History of computed asset health scores
+ *
+ * One row per change of an asset's health score, with the factors that
+ * produced it. The current score is denormalized on assets.health_score.
+ *
+ * @see Asset_Type_Profile_Architecture.md Section 2.3 (Health Algorithm)
+ */
+export const assetHealthScores = pgTable(
+  'asset_health_scores',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    assetId: uuid('asset_id')
+      .notNull()
+      .references(() => assets.id, { onDelete: 'cascade' }),
+
+    score: numeric('score', { precision: 5, scale: 2 }).notNull(),
+    // HealthFactor[] explaining the score
+    factors: jsonb('factors').notNull().default([]),
+    // What caused the recomputation: telemetry | children
+    trigger: text('trigger').notNull(),
+
+    computedAt: timestamp('computed_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // History per asset, newest first
+    index('idx_asset_health_scores_asset_time').on(table.assetId, table.computedAt.desc()),
+    // Tenant isolation
+    index('idx_asset_health_scores_tenant').on(table.tenantId),
+  ]
+);
+
+export type AssetHealthScore = typeof assetHealthScores.$inferSelect;
+export type NewAssetHealthScore = typeof assetHealthScores.$inferInsert;
@@ -0,0 +1,56 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+import { assetTypes } from './asset-types.js';
+import { users } from './users.js';
+
+/**
+ * Asset Type Profile Versions - Recorded telemetry profiles of asset types
+ *
+ * Every change of an asset type's telemetry profile (metric definitions,
+ * derived metrics, aggregation rules, health algorithm) bumps
+ * asset_types.telemetry_config_version and records the resulting profile
+ * here. Computed telemetry carries the version it was computed with.
+ *
+ * @see Asset_Type_Profile_Architecture.md Section 5.1 (Profile version history)
+ */
+export const assetTypeProfileVersions = pgTable(
+  'asset_type_profile_versions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    assetTypeId: uuid('asset_type_id')
+      .notNull()
+      .references(() => assetTypes.id, { onDelete: 'cascade' }),
+
+    version: text('version').notNull(),
+    // { metricDefinitions, transformationEngine, aggregationRules, healthAlgorithm }
+    profile: jsonb('profile').notNull(),
+
+    createdBy: uuid('created_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('asset_type_profile_versions_type_version_unique').on(
+      table.assetTypeId,
+      table.version
+    ),
+    index('idx_asset_type_profile_versions_org').on(table.organizationId),
+  ]
+);
+
+export type AssetTypeProfileVersion = typeof assetTypeProfileVersions.$inferSelect;
+export type NewAssetTypeProfileVersion = typeof assetTypeProfileVersions.$inferInsert;
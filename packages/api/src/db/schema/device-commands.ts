@@ -0,0 +1,75 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  jsonb,
+  index,
+  integer,
+  boolean,
+} from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+import { devices } from './devices.js';
+import { users } from './users.js';
+
+/**
+ * Device Commands - Cloud-to-device commands and their delivery status
+ *
+ * Queued through the API, relayed by the IoT bridge to the device (MQTT
+ * devices/{id}/commands or ChirpStack downlink) and updated from the
+ * bridge's status reports (sent, txack, device acks).
+ */
+export const deviceCommands = pgTable(
+  'device_commands',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    deviceId: uuid('device_id')
+      .notNull()
+      .references(() => devices.id, { onDelete: 'cascade' }),
+
+    // Command
+    command: text('command').notNull(),
+    payload: jsonb('payload').notNull().default({}),
+    // Raw downlink bytes (base64) for ChirpStack
+    data: text('data'),
+    fPort: integer('f_port'),
+    // mqtt | chirpstack
+    transport: text('transport').notNull(),
+    requireAck: boolean('require_ack').notNull().default(false),
+
+    // Status: queued | sent | delivered | acked | failed | expired
+    status: text('status').notNull().default('queued'),
+    error: text('error'),
+    response: jsonb('response'),
+
+    // Lifecycle timestamps
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+    ackedAt: timestamp('acked_at', { withTimezone: true }),
+
+    createdBy: uuid('created_by').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Command history per device
+    index('idx_device_commands_device').on(table.deviceId, table.createdAt),
+    // Tenant isolation
+    index('idx_device_commands_tenant').on(table.tenantId),
+    // Expiry sweep over open commands
+    index('idx_device_commands_open').on(table.expiresAt),
+  ]
+);
+
+export type DeviceCommand = typeof deviceCommands.$inferSelect;
+export type NewDeviceCommand = typeof deviceCommands.$inferInsert;
@@ -46,6 +46,9 @@ export const deviceTypes = pgTable(
     chunkingConfig: jsonb('chunking_config'),
     transformationRules: jsonb('transformation_rules'),
 
+    // Connectivity watchdog (expected reporting interval)
+    connectivityConfig: jsonb('connectivity_config'),
+
     // Hierarchical support
     parentTypeId: uuid('parent_type_id').references((): any => deviceTypes.id, {
       onDelete: 'set null',
@@ -98,6 +98,7 @@ export const devices = pgTable(
     index('idx_devices_role').on(table.deviceRole),
     index('idx_devices_protocol').on(table.protocol),
     // Note: GIN index for JSONB and GIST for geometry are created in migration
+    // Note: partial unique index on (parent_device_id, logical_identifier) is created in migration 0015
   ]
 );
 
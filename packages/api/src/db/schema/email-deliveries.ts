@@ -0,0 +1,60 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  varchar,
+  timestamp,
+  index,
+  integer,
+} from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+
+/**
+ * Email Deliveries - Outbound mail queue and delivery log
+ *
+ * Messages are rendered when queued and sent by the mail queue worker. Failed
+ * sends are retried with backoff until max_attempts, then marked failed.
+ */
+export const emailDeliveries = pgTable(
+  'email_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // Organization whose branding was used (null for platform mail)
+    organizationId: uuid('organization_id').references(() => organizations.id, {
+      onDelete: 'set null',
+    }),
+
+    // Message
+    template: varchar('template', { length: 50 }).notNull(),
+    toAddress: varchar('to_address', { length: 255 }).notNull(),
+    subject: text('subject').notNull(),
+    htmlBody: text('html_body').notNull(),
+    textBody: text('text_body').notNull(),
+
+    // Status: queued | sending | sent | failed
+    status: varchar('status', { length: 20 }).notNull().default('queued'),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(5),
+    nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).defaultNow(),
+    lastError: text('last_error'),
+    // SMTP Message-ID of the accepted message
+    messageId: text('message_id'),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Worker polling for due messages
+    index('idx_email_deliveries_due').on(table.status, table.nextAttemptAt),
+    // Delivery log, newest first
+    index('idx_email_deliveries_created').on(table.createdAt),
+  ]
+);
+
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type NewEmailDelivery = typeof emailDeliveries.$inferInsert;
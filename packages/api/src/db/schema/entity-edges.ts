@@ -7,13 +7,15 @@ import {
 } from 'drizzle-orm/pg-core';
 import { baseTypeEnum, relationshipTypeEnum } from './enums.js';
 import { organizations } from './organizations.js';
-import { entities } from './entities.js';
 
 /**
  * Entity Edges - Typed relationships between entities
  *
  * Relationships are typed edges connecting entities in a graph model.
  * This enables powerful graph traversals and relationship-based queries.
+ * Source and target are rows of the base type tables (assets, devices,
+ * spaces, persons, activities) named by their entity type; edges are removed
+ * when either row is deleted.
  *
  * @see META_MODEL_SPECIFICATION.md Section 5
  */
@@ -26,15 +28,11 @@ export const entityEdges = pgTable(
       .references(() => organizations.id, { onDelete: 'cascade' }),
 
     // Source entity
-    sourceEntityId: uuid('source_entity_id')
-      .notNull()
-      .references(() => entities.id, { onDelete: 'cascade' }),
+    sourceEntityId: uuid('source_entity_id').notNull(),
     sourceEntityType: baseTypeEnum('source_entity_type').notNull(),
 
     // Target entity
-    targetEntityId: uuid('target_entity_id')
-      .notNull()
-      .references(() => entities.id, { onDelete: 'cascade' }),
+    targetEntityId: uuid('target_entity_id').notNull(),
     targetEntityType: baseTypeEnum('target_entity_type').notNull(),
 
     // Relationship
@@ -68,6 +66,8 @@ export const entityEdges = pgTable(
       table.targetEntityId,
       table.relationshipType
     ),
+    index('idx_edges_tenant_source').on(table.tenantId, table.sourceEntityId),
+    index('idx_edges_tenant_target').on(table.tenantId, table.targetEntityId),
   ]
 );
 
@@ -85,6 +85,10 @@ export const identityProviders = pgTable(
     autoCreateUsers: boolean('auto_create_users').notNull().default(false),
     autoLinkUsers: boolean('auto_link_users').notNull().default(true),
 
+    // SCIM provisioning (SHA-256 of the bearer token; null = SCIM disabled)
+    scimTokenHash: varchar('scim_token_hash', { length: 64 }).unique(),
+    scimTokenCreatedAt: timestamp('scim_token_created_at', { withTimezone: true }),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
@@ -5,6 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import {
+  impersonationActivity,
   impersonationSessions,
   impersonationStatusEnum,
   type ImpersonationSession,
@@ -33,10 +34,29 @@ describe('Impersonation Sessions Schema', () => {
       expect(columns).toContain('ipAddress');
       expect(columns).toContain('userAgent');
 
+      // Approval and read-only mode
+      expect(columns).toContain('readOnly');
+      expect(columns).toContain('requestedDurationMinutes');
+      expect(columns).toContain('decidedBy');
+      expect(columns).toContain('decidedAt');
+      expect(columns).toContain('decisionNote');
+
       // Audit timestamps
       expect(columns).toContain('createdAt');
       expect(columns).toContain('updatedAt');
     });
+
+    it('should have all required fields for impersonation_activity', () => {
+      const columns = Object.keys(impersonationActivity);
+
+      expect(columns).toContain('sessionId');
+      expect(columns).toContain('method');
+      expect(columns).toContain('path');
+      expect(columns).toContain('route');
+      expect(columns).toContain('statusCode');
+      expect(columns).toContain('durationMs');
+      expect(columns).toContain('createdAt');
+    });
   });
 
   describe('Status Enum', () => {
@@ -48,6 +68,14 @@ describe('Impersonation Sessions Schema', () => {
       expect(statusValues).toContain('expired');
       expect(statusValues).toContain('revoked');
     });
+
+    it('should have approval request status values', () => {
+      const statusValues = impersonationStatusEnum.enumValues;
+
+      expect(statusValues).toContain('pending');
+      expect(statusValues).toContain('approved');
+      expect(statusValues).toContain('denied');
+    });
   });
 });
 
@@ -173,6 +201,11 @@ describe('Impersonation Session Types', () => {
         startedAt: startTime,
         endedAt: endTime,
         expiresAt: new Date(startTime.getTime() + 60 * 60 * 1000),
+        readOnly: false,
+        requestedDurationMinutes: null,
+        decidedBy: null,
+        decidedAt: null,
+        decisionNote: null,
         ipAddress: '192.168.1.1',
         userAgent: 'Test Agent',
         createdAt: startTime,
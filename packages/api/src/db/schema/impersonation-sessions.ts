@@ -1,6 +1,8 @@
 /**
  * Impersonation sessions table for tracking admin impersonation of users
  * Allows support/admin staff to temporarily access user accounts
+ * Organizations may require owner approval before a session starts; every
+ * API call made during a session is recorded in impersonation_activity.
  */
 
 import {
@@ -9,6 +11,8 @@ import {
   varchar,
   timestamp,
   text,
+  boolean,
+  integer,
   index,
   pgEnum,
 } from 'drizzle-orm/pg-core';
@@ -17,12 +21,17 @@ import { organizations } from './organizations.js';
 
 /**
  * Impersonation session status enum
+ * pending, approved and denied are approval requests that have not become a
+ * session (yet)
  */
 export const impersonationStatusEnum = pgEnum('impersonation_status', [
   'active',
   'ended',
   'expired',
   'revoked',
+  'pending',
+  'approved',
+  'denied',
 ]);
 
 /**
@@ -53,7 +62,16 @@ export const impersonationSessions = pgTable(
       .notNull()
       .defaultNow(),
     endedAt: timestamp('ended_at', { withTimezone: true }),
+    // Session end; for requests, the deadline for approving or starting them
     expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    // Read-only sessions cannot call mutating endpoints
+    readOnly: boolean('read_only').notNull().default(false),
+    // Session length of an approval request, applied when the session starts
+    requestedDurationMinutes: integer('requested_duration_minutes'),
+    // Organization owner who approved or denied the request
+    decidedBy: uuid('decided_by').references(() => users.id, { onDelete: 'set null' }),
+    decidedAt: timestamp('decided_at', { withTimezone: true }),
+    decisionNote: text('decision_note'),
     // Client information
     ipAddress: varchar('ip_address', { length: 45 }),
     userAgent: varchar('user_agent', { length: 500 }),
@@ -74,6 +92,36 @@ export const impersonationSessions = pgTable(
   ]
 );
 
+/**
+ * Impersonation activity table
+ * One row per API call made with an impersonation token
+ */
+export const impersonationActivity = pgTable(
+  'impersonation_activity',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    sessionId: uuid('session_id')
+      .notNull()
+      .references(() => impersonationSessions.id, { onDelete: 'cascade' }),
+    method: varchar('method', { length: 10 }).notNull(),
+    // Request path without the query string
+    path: varchar('path', { length: 2000 }).notNull(),
+    // Matched route pattern, e.g. /api/v1/assets/:id
+    route: varchar('route', { length: 500 }),
+    statusCode: integer('status_code').notNull(),
+    durationMs: integer('duration_ms').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_impersonation_activity_session').on(table.sessionId, table.createdAt),
+  ]
+);
+
 // Infer types from schema
 export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
 export type NewImpersonationSession = typeof impersonationSessions.$inferInsert;
+export type ImpersonationSessionStatus = (typeof impersonationStatusEnum.enumValues)[number];
+export type ImpersonationActivity = typeof impersonationActivity.$inferSelect;
+export type NewImpersonationActivity = typeof impersonationActivity.$inferInsert;
@@ -12,6 +12,8 @@ export * from './enums.js';
 export * from './users.js';
 export * from './refresh-tokens.js';
 export * from './password-reset-tokens.js';
+export * from './mfa-recovery-codes.js';
+export * from './password-history.js';
 export * from './organizations.js';
 export * from './user-organizations.js';
 export * from './organization-invitations.js';
@@ -24,11 +26,14 @@ export * from './audit-logs.js';
 export * from './identity-providers.js';
 export * from './user-identities.js';
 export * from './platform-settings.js';
+export * from './email-deliveries.js';
+export * from './api-keys.js';
 
 // Organization profiles and RBAC
 export * from './organization-profiles.js';
 export * from './user-groups.js';
 export * from './roles.js';
+export * from './sso-mapping-rules.js';
 
 // Security features
 export * from './impersonation-sessions.js';
@@ -39,6 +44,7 @@ export * from './system-settings.js';
 // Phase 7: IoT Meta-Model - Type Definitions
 export * from './device-types.js';
 export * from './asset-types.js';
+export * from './asset-type-profile-versions.js';
 export * from './person-types.js';
 export * from './activity-types.js';
 export * from './space-types.js';
@@ -56,6 +62,9 @@ export * from './telemetry-raw.js';
 export * from './telemetry-chunks.js';
 export * from './telemetry-transactions.js';
 export * from './threshold-rules.js';
+export * from './threshold-rule-states.js';
+export * from './asset-health-scores.js';
+export * from './device-commands.js';
 
 // Relations (must be last to avoid circular deps)
 export * from './relations.js';
@@ -0,0 +1,35 @@
+/**
+ * MFA recovery codes table
+ * Stores one-time codes for signing in without the authenticator app
+ */
+
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.js';
+
+/**
+ * MFA recovery codes table
+ * - Codes are stored as SHA-256 hashes
+ * - A code is marked used when it completes a login
+ * - All codes are replaced when a new set is generated
+ */
+export const mfaRecoveryCodes = pgTable(
+  'mfa_recovery_codes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(),
+    usedAt: timestamp('used_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_mfa_recovery_codes_user_id').on(table.userId),
+  ]
+);
+
+// Infer types from schema
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+export type NewMfaRecoveryCode = typeof mfaRecoveryCodes.$inferInsert;
@@ -125,6 +125,7 @@ export interface QuotaOverrides {
   maxDevices?: number;
   maxAssets?: number;
   maxChildOrganizations?: number;
+  maxApiKeys?: number;
   dataRetentionDays?: number;
   storageGb?: number;
 }
@@ -143,6 +144,7 @@ export interface OrganizationSettings {
     crossOrgSharing?: boolean; // Allow sharing assets with other orgs
     allowWhiteLabeling?: boolean; // Allow org to customize branding
     allowImpersonation?: boolean; // Allow platform admins to impersonate users
+    impersonationApprovalRequired?: boolean; // An owner must approve each impersonation request
   };
   capabilities?: {
     maxUsers?: number;
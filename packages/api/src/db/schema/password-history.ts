@@ -0,0 +1,34 @@
+/**
+ * Password history table
+ * Stores hashes of previously set passwords to block reuse
+ */
+
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { users } from './users.js';
+
+/**
+ * Password history table
+ * - One row per password set (registration, reset, change)
+ * - Hashes use the same Argon2id format as users.password_hash
+ * - Rows older than the longest supported reuse window are pruned
+ */
+export const passwordHistory = pgTable(
+  'password_history',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_password_history_user_created').on(table.userId, table.createdAt),
+  ]
+);
+
+// Infer types from schema
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type NewPasswordHistoryEntry = typeof passwordHistory.$inferInsert;
@@ -89,6 +89,18 @@ export const PLATFORM_SETTING_KEYS = {
   PASSWORD_REQUIRE_UPPERCASE: 'security.password_require_uppercase',
   PASSWORD_REQUIRE_NUMBER: 'security.password_require_number',
   PASSWORD_REQUIRE_SPECIAL: 'security.password_require_special',
+  PASSWORD_MAX_LENGTH: 'security.password_max_length',
+  PASSWORD_MIN_UPPERCASE: 'security.password_min_uppercase',
+  PASSWORD_MIN_LOWERCASE: 'security.password_min_lowercase',
+  PASSWORD_MIN_DIGITS: 'security.password_min_digits',
+  PASSWORD_MIN_SPECIAL_CHARS: 'security.password_min_special_chars',
+  PASSWORD_ALLOW_WHITESPACE: 'security.password_allow_whitespace',
+  PASSWORD_EXPIRATION_DAYS: 'security.password_expiration_days',
+  PASSWORD_REUSE_FREQUENCY_DAYS: 'security.password_reuse_frequency_days',
+  FORCE_RESET_IF_INVALID: 'security.force_reset_if_invalid',
+  MAX_FAILED_LOGIN_ATTEMPTS: 'security.max_failed_login_attempts',
+  LOCKOUT_DURATION_MINUTES: 'security.lockout_duration_minutes',
+  LOCKOUT_NOTIFICATION_EMAIL: 'security.lockout_notification_email',
   SESSION_TIMEOUT_MINUTES: 'security.session_timeout_minutes',
   MFA_ENABLED: 'security.mfa_enabled',
 
@@ -101,6 +113,12 @@ export const PLATFORM_SETTING_KEYS = {
   SOCIAL_LOGIN_ENABLED: 'features.social_login_enabled',
 
   // Email
+  EMAIL_SMTP_HOST: 'email.smtp_host',
+  EMAIL_SMTP_PORT: 'email.smtp_port',
+  EMAIL_SMTP_USERNAME: 'email.smtp_username',
+  EMAIL_SMTP_PASSWORD: 'email.smtp_password',
+  EMAIL_SMTP_SECURE: 'email.smtp_secure',
+  EMAIL_SMTP_TLS: 'email.smtp_tls',
   EMAIL_FROM_ADDRESS: 'email.from_address',
   EMAIL_FROM_NAME: 'email.from_name',
 } as const;
@@ -0,0 +1,116 @@
+/**
+ * SSO mapping rules
+ *
+ * Rules attached to an identity provider that map IdP claims, SAML attributes
+ * and group names to organization memberships, user groups and roles. They
+ * are re-evaluated on every SSO login.
+ */
+
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  boolean,
+  index,
+  primaryKey,
+} from 'drizzle-orm/pg-core';
+import { users } from './users.js';
+import { organizations } from './organizations.js';
+import { identityProviders } from './identity-providers.js';
+import { userGroups } from './user-groups.js';
+import { roles } from './roles.js';
+import { organizationRoleEnum } from './enums.js';
+
+/** How a rule's value is compared with the claim's values */
+export type SsoMappingRuleOperator =
+  | 'equals'
+  | 'contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches'
+  | 'exists';
+
+/** What a mapping grant created */
+export type SsoMappingGrantKind = 'membership' | 'group' | 'role';
+
+/**
+ * Mapping rules table
+ * - A rule matches when the claim has a value satisfying operator/value
+ * - A matching rule grants membership in organization_id with
+ *   organization_role, plus the optional group and role in that organization
+ */
+export const ssoMappingRules = pgTable(
+  'sso_mapping_rules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    providerId: uuid('provider_id')
+      .notNull()
+      .references(() => identityProviders.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+
+    // Condition
+    claim: varchar('claim', { length: 255 }).notNull(),
+    operator: varchar('operator', { length: 20 }).$type<SsoMappingRuleOperator>().notNull(),
+    value: varchar('value', { length: 500 }),
+
+    // Grants
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    organizationRole: organizationRoleEnum('organization_role').notNull().default('member'),
+    groupId: uuid('group_id').references(() => userGroups.id, { onDelete: 'cascade' }),
+    roleId: uuid('role_id').references(() => roles.id, { onDelete: 'cascade' }),
+
+    enabled: boolean('enabled').notNull().default(true),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('idx_sso_mapping_rules_provider').on(table.providerId),
+  ]
+);
+
+/**
+ * Mapping grants table
+ *
+ * Records the memberships, group memberships and roles that mapping rules
+ * created, so that only those are removed when the rules stop matching.
+ * Access the user already had from elsewhere is never recorded here.
+ */
+export const ssoMappingGrants = pgTable(
+  'sso_mapping_grants',
+  {
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    providerId: uuid('provider_id')
+      .notNull()
+      .references(() => identityProviders.id, { onDelete: 'cascade' }),
+    kind: varchar('kind', { length: 20 }).$type<SsoMappingGrantKind>().notNull(),
+    organizationId: uuid('organization_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+    // Organization (membership), user group (group) or role (role) ID
+    targetId: uuid('target_id').notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.userId, table.providerId, table.kind, table.organizationId, table.targetId],
+    }),
+  ]
+);
+
+// Infer types from schema
+export type SsoMappingRule = typeof ssoMappingRules.$inferSelect;
+export type NewSsoMappingRule = typeof ssoMappingRules.$inferInsert;
+export type SsoMappingGrant = typeof ssoMappingGrants.$inferSelect;
+export type NewSsoMappingGrant = typeof ssoMappingGrants.$inferInsert;
@@ -44,8 +44,11 @@ export const telemetryChunks = pgTable(
     expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
   },
   (table) => [
-    // Unique constraint for correlation + sequence
+    // One row per chunk; correlation IDs are only unique per device
+    // (migration 0016 replaced the original correlation + sequence constraint)
     unique('telemetry_chunks_unique_sequence').on(
+      table.tenantId,
+      table.deviceId,
       table.correlationId,
       table.sequenceNumber
     ),
@@ -49,6 +49,8 @@ export const telemetryRaw = pgTable(
     ingestionSource: text('ingestion_source').notNull().default('mqtt'),
     mqttTopic: text('mqtt_topic'),
     clientId: text('client_id'),
+    // Stream message ID, to detect redelivered messages
+    sourceMessageId: text('source_message_id'),
 
     // Audit (immutable - no updatedAt)
     createdAt: timestamp('created_at', { withTimezone: true })
@@ -67,6 +69,8 @@ export const telemetryRaw = pgTable(
     index('idx_telemetry_raw_correlation').on(table.correlationId),
     // Ingestion source filtering
     index('idx_telemetry_raw_source').on(table.ingestionSource),
+    // Redelivery detection
+    index('idx_telemetry_raw_source_message').on(table.sourceMessageId),
     // Time-series retention policy (TimescaleDB)
     index('idx_telemetry_raw_created').on(table.createdAt.desc()),
   ]
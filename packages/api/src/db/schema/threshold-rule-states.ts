@@ -0,0 +1,63 @@
+import {
+  pgTable,
+  uuid,
+  text,
+  timestamp,
+  numeric,
+  index,
+  primaryKey,
+} from 'drizzle-orm/pg-core';
+import { organizations } from './organizations.js';
+import { thresholdRules } from './threshold-rules.js';
+import { assets } from './assets.js';
+
+/**
+ * Threshold Rule States - Per-asset evaluation state for threshold rules
+ *
+ * Persists the current alert level, pending (debounced) escalation and last
+ * breach time for each rule/asset pair so hysteresis, debounce and cooldown
+ * survive worker restarts.
+ *
+ * @see IoT_Platform_Architecture_Design.md Section 4.3.5 (Event Engine Worker)
+ */
+export const thresholdRuleStates = pgTable(
+  'threshold_rule_states',
+  {
+    ruleId: uuid('rule_id')
+      .notNull()
+      .references(() => thresholdRules.id, { onDelete: 'cascade' }),
+    assetId: uuid('asset_id')
+      .notNull()
+      .references(() => assets.id, { onDelete: 'cascade' }),
+    tenantId: uuid('tenant_id')
+      .notNull()
+      .references(() => organizations.id, { onDelete: 'cascade' }),
+
+    // Current (debounced) level: normal | warning | critical
+    level: text('level').notNull().default('normal'),
+
+    // Escalation waiting for debounce_seconds to elapse
+    pendingLevel: text('pending_level'),
+    pendingSince: timestamp('pending_since', { withTimezone: true }),
+
+    // Highest level alerted in the current episode (null when not alerting)
+    alertLevel: text('alert_level'),
+    lastBreachedAt: timestamp('last_breached_at', { withTimezone: true }),
+
+    lastValue: numeric('last_value'),
+    lastEvaluatedAt: timestamp('last_evaluated_at', { withTimezone: true }),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.ruleId, table.assetId] }),
+    // Tenant isolation
+    index('idx_threshold_rule_states_tenant').on(table.tenantId),
+    // Asset lookups (open alerts per asset)
+    index('idx_threshold_rule_states_asset').on(table.assetId),
+  ]
+);
+
+export type ThresholdRuleState = typeof thresholdRuleStates.$inferSelect;
+export type NewThresholdRuleState = typeof thresholdRuleStates.$inferInsert;
@@ -35,6 +35,9 @@ export const userGroups = pgTable(
     name: varchar('name', { length: 100 }).notNull(),
     description: varchar('description', { length: 500 }),
 
+    // Group ID in the identity provider directory (SCIM provisioned groups)
+    externalId: varchar('external_id', { length: 255 }),
+
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -61,6 +61,9 @@ export const userIdentities = pgTable(
     refreshToken: varchar('refresh_token', { length: 2000 }),
     tokenExpiresAt: timestamp('token_expires_at', { withTimezone: true }),
 
+    // Set when SCIM provisioning created the link (externalId is the SCIM externalId)
+    provisionedAt: timestamp('provisioned_at', { withTimezone: true }),
+
     // Timestamps
     lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true })
@@ -7,6 +7,7 @@ import {
   pgEnum,
   uniqueIndex,
   boolean,
+  integer,
 } from 'drizzle-orm/pg-core';
 import { organizations } from './organizations.js';
 
@@ -39,6 +40,10 @@ export const users = pgTable(
 
     // Password hash (null for SSO-only users)
     passwordHash: varchar('password_hash', { length: 255 }),
+    // When the password was last set (password expiry policy)
+    passwordChangedAt: timestamp('password_changed_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
 
     firstName: varchar('first_name', { length: 100 }),
     lastName: varchar('last_name', { length: 100 }),
@@ -64,9 +69,15 @@ export const users = pgTable(
     lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
     deletedAt: timestamp('deleted_at', { withTimezone: true }),
 
+    // Account lockout (failed login attempts since the last success or lock)
+    failedLoginAttempts: integer('failed_login_attempts').notNull().default(0),
+    lockedUntil: timestamp('locked_until', { withTimezone: true }),
+
     // MFA settings
     mfaEnabled: boolean('mfa_enabled').notNull().default(false),
     mfaSecret: varchar('mfa_secret', { length: 255 }),
+    // TOTP time step of the last accepted code (replay protection)
+    mfaLastUsedStep: integer('mfa_last_used_step'),
 
     createdAt: timestamp('created_at', { withTimezone: true })
       .notNull()
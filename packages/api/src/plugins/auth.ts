@@ -1,12 +1,27 @@
 /**
  * Authentication plugin for JWT verification
- * Adds a preHandler hook that verifies access tokens
+ * Adds a preHandler hook that verifies access tokens, or organization API
+ * keys sent in the X-API-Key header
+ *
+ * API keys are denied by default: they only reach routes that declare the
+ * permission they need (config.apiKeyAccess, set by the permissions plugin
+ * for routes guarded by requirePermission), so a key never gets more than its
+ * own permission subset.
+ *
+ * Impersonation tokens only work while their session is active; read-only
+ * sessions are limited to safe methods, and every call made with an
+ * impersonation token is recorded against its session.
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
-import { Errors, type UserId, type OrganizationId } from '@argus/shared';
+import { Errors, type UserId, type OrganizationId, type ResourcePermission } from '@argus/shared';
 import { verifyAccessToken, type DecodedAccessToken, type OrganizationContext } from '../utils/index.js';
+import { getApiKeyService } from '../services/api-key.service.js';
+import { impersonationService } from '../services/impersonation.service.js';
+
+/** Methods a read-only impersonation session may use */
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
 
 /** Authenticated user data attached to request */
 export interface AuthUser {
@@ -24,6 +39,30 @@ export interface AuthUser {
    * Equivalent to organizationContext?.currentOrganizationId
    */
   organizationId?: OrganizationId;
+
+  /**
+   * Session (refresh token family) the access token belongs to
+   */
+  sessionId?: string;
+
+  /**
+   * Set when the request authenticated with an API key
+   * The user is the key's creator; the key's permissions further limit access
+   */
+  apiKey?: {
+    id: string;
+    permissions: ResourcePermission[];
+  };
+
+  /**
+   * Set when the request uses an impersonation token
+   * The user is the impersonated user
+   */
+  impersonation?: {
+    sessionId: string;
+    impersonatorId: UserId;
+    readOnly: boolean;
+  };
 }
 
 /** Extend FastifyRequest to include user */
@@ -31,6 +70,11 @@ declare module 'fastify' {
   interface FastifyRequest {
     user?: AuthUser;
   }
+
+  interface FastifyContextConfig {
+    /** Whether API keys may call the route */
+    apiKeyAccess?: boolean;
+  }
 }
 
 /**
@@ -44,6 +88,70 @@ function extractBearerToken(request: FastifyRequest): string | null {
   return authHeader.slice(7);
 }
 
+/**
+ * Extracts the API key from the X-API-Key header
+ */
+function extractApiKey(request: FastifyRequest): string | null {
+  const header = request.headers['x-api-key'];
+  return typeof header === 'string' && header.length > 0 ? header : null;
+}
+
+/**
+ * Resolves an API key to the identity it acts for
+ */
+async function authenticateApiKey(request: FastifyRequest, key: string): Promise<AuthUser | null> {
+  const principal = await getApiKeyService().authenticate(key, request.ip ?? null);
+  if (!principal) {
+    return null;
+  }
+
+  const { apiKey, user, organization } = principal;
+  const organizationId = apiKey.organizationId as OrganizationId;
+  return {
+    id: user.id as UserId,
+    email: user.email,
+    organizationContext: {
+      rootOrganizationId: (organization.rootOrganizationId ?? organization.id) as OrganizationId,
+      currentOrganizationId: organizationId,
+      accessibleOrganizationIds: [organizationId],
+    },
+    organizationId,
+    apiKey: { id: apiKey.id, permissions: apiKey.permissions },
+  };
+}
+
+/**
+ * Attaches the user of a verified access token to the request. Impersonation
+ * tokens must belong to a live session, and read-only sessions may only use
+ * safe methods.
+ */
+async function attachTokenUser(request: FastifyRequest, decoded: DecodedAccessToken): Promise<void> {
+  request.user = {
+    id: decoded.sub,
+    email: decoded.email,
+    organizationContext: decoded.org,
+    organizationId: decoded.org?.currentOrganizationId,
+    sessionId: decoded.sid,
+  };
+
+  if (decoded.impersonation) {
+    const session = await impersonationService.findLiveSession(decoded.impersonation.sessionId);
+    if (!session) {
+      request.user = undefined;
+      throw Errors.unauthorized('Impersonation session has ended');
+    }
+
+    request.user.impersonation = {
+      sessionId: session.id,
+      impersonatorId: session.impersonatorId as UserId,
+      readOnly: session.readOnly,
+    };
+    if (session.readOnly && !READ_ONLY_METHODS.has(request.method)) {
+      throw Errors.forbidden('This impersonation session is read-only');
+    }
+  }
+}
+
 /**
  * Auth plugin that adds authentication helpers
  */
@@ -58,6 +166,18 @@ async function authPlugin(app: FastifyInstance): Promise<void> {
       const token = extractBearerToken(request);
 
       if (!token) {
+        const apiKey = extractApiKey(request);
+        if (apiKey) {
+          const user = await authenticateApiKey(request, apiKey);
+          if (!user) {
+            throw Errors.unauthorized('Invalid API key');
+          }
+          if (!request.routeOptions.config.apiKeyAccess) {
+            throw Errors.forbidden('API keys cannot be used for this route');
+          }
+          request.user = user;
+          return;
+        }
         throw Errors.unauthorized('Missing access token');
       }
 
@@ -67,17 +187,47 @@ async function authPlugin(app: FastifyInstance): Promise<void> {
       }
 
       // Attach user to request with organization context
-      request.user = {
-        id: decoded.sub,
-        email: decoded.email,
-        organizationContext: decoded.org,
-        organizationId: decoded.org?.currentOrganizationId,
-      };
+      await attachTokenUser(request, decoded);
     }
   );
 
+  /**
+   * Rejects API key requests on routes that mint tokens or manage the
+   * signed-in user's identity. Use after authenticate.
+   */
+  app.decorate('rejectApiKey', async function (request: FastifyRequest) {
+    if (request.user?.apiKey) {
+      throw Errors.forbidden('API keys cannot be used for this route');
+    }
+  });
+
+  /**
+   * Records every API call made with an impersonation token, including
+   * rejected ones, against the impersonation session
+   */
+  app.addHook('onResponse', async (request, reply) => {
+    const impersonation = request.user?.impersonation;
+    if (!impersonation) {
+      return;
+    }
+
+    try {
+      await impersonationService.recordActivity({
+        sessionId: impersonation.sessionId,
+        method: request.method,
+        path: request.url.split('?')[0].slice(0, 2000),
+        route: request.routeOptions.url ?? null,
+        statusCode: reply.statusCode,
+        durationMs: Math.round(reply.elapsedTime),
+      });
+    } catch (err) {
+      request.log.error({ err, sessionId: impersonation.sessionId }, 'Failed to record impersonation activity');
+    }
+  });
+
   /**
    * Optional authentication - attaches user if token is valid, but doesn't fail
+   * Impersonation tokens are checked as in authenticate.
    */
   app.decorate(
     'optionalAuth',
@@ -87,12 +237,7 @@ async function authPlugin(app: FastifyInstance): Promise<void> {
       if (token) {
         const decoded = verifyAccessToken(token);
         if (decoded) {
-          request.user = {
-            id: decoded.sub,
-            email: decoded.email,
-            organizationContext: decoded.org,
-            organizationId: decoded.org?.currentOrganizationId,
-          };
+          await attachTokenUser(request, decoded);
         }
       }
     }
@@ -104,6 +249,7 @@ declare module 'fastify' {
   interface FastifyInstance {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     optionalAuth: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    rejectApiKey: (request: FastifyRequest) => Promise<void>;
   }
 }
 
@@ -4,6 +4,7 @@
  */
 
 import { FastifyInstance, FastifyError } from 'fastify';
+import fp from 'fastify-plugin';
 import {
   AppError,
   ErrorCode,
@@ -13,7 +14,7 @@ import {
 } from '@argus/shared';
 import { z } from 'zod';
 
-export async function errorHandler(app: FastifyInstance): Promise<void> {
+async function errorHandlerPlugin(app: FastifyInstance): Promise<void> {
   app.setErrorHandler((error: FastifyError, request, reply) => {
     const requestId = request.id;
 
@@ -106,3 +107,11 @@ export async function errorHandler(app: FastifyInstance): Promise<void> {
     return reply.status(404).send(response);
   });
 }
+
+/**
+ * Not encapsulated, so the handlers apply to every route of the app
+ */
+export const errorHandler = fp(errorHandlerPlugin, {
+  name: 'error-handler',
+  fastify: '5.x',
+});
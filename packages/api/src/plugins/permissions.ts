@@ -0,0 +1,78 @@
+/**
+ * Permissions plugin for role-based route authorization
+ * Adds a requirePermission decorator that builds preHandlers checking the
+ * user's effective role permissions in the current organization (and, for
+ * API key requests, the key's own permissions)
+ *
+ * Routes guarded by requirePermission are the only ones API keys may call:
+ * an onRoute hook marks them with config.apiKeyAccess (see plugins/auth.ts).
+ */
+
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { Errors, type PermissionAction } from '@argus/shared';
+import { getPermissionService } from '../services/permission.service.js';
+import { isApiKeyActionAllowed } from '../services/api-key.service.js';
+
+/**
+ * Permissions plugin
+ */
+async function permissionsPlugin(app: FastifyInstance): Promise<void> {
+  /** preHandlers built by requirePermission */
+  const permissionChecks = new WeakSet<object>();
+
+  /**
+   * Lets API keys call routes that declare a permission; the key's
+   * permissions are checked by that preHandler
+   */
+  app.addHook('onRoute', (routeOptions) => {
+    const preHandlers = [routeOptions.preHandler ?? []].flat();
+    if (preHandlers.some((preHandler) => permissionChecks.has(preHandler))) {
+      routeOptions.config = { ...routeOptions.config, apiKeyAccess: true };
+    }
+  });
+
+  /**
+   * Builds a preHandler requiring a permission, e.g.
+   * { preHandler: app.requirePermission('devices', 'update') }
+   * Runs after authentication (route preHandlers follow addHook preHandlers)
+   */
+  app.decorate('requirePermission', function (resource: string, action: PermissionAction) {
+    const check = async function (request: FastifyRequest) {
+      const user = request.user;
+      if (!user) {
+        throw Errors.unauthorized('Authentication required');
+      }
+      if (!user.organizationId) {
+        throw Errors.forbidden('No organization context');
+      }
+
+      if (user.apiKey && !isApiKeyActionAllowed(user.apiKey.permissions, resource, action)) {
+        throw Errors.forbidden(`API key lacks permission: ${action} ${resource}`);
+      }
+
+      const allowed = await getPermissionService().hasPermission(user.id, user.organizationId, resource, action);
+      if (!allowed) {
+        throw Errors.forbidden(`Missing permission: ${action} ${resource}`);
+      }
+    };
+    permissionChecks.add(check);
+    return check;
+  });
+}
+
+/** Extend FastifyInstance to include the permission decorator */
+declare module 'fastify' {
+  interface FastifyInstance {
+    requirePermission: (
+      resource: string,
+      action: PermissionAction
+    ) => (request: FastifyRequest) => Promise<void>;
+  }
+}
+
+export default fp(permissionsPlugin, {
+  name: 'permissions',
+  fastify: '5.x',
+  dependencies: ['auth'],
+});
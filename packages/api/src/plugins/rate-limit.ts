@@ -13,7 +13,7 @@ import rateLimit from '@fastify/rate-limit';
 interface RateLimitConfig {
   /** Global rate limit (requests per window) */
   global: number;
-  /** Auth endpoints (login, register) - stricter limits */
+  /** Auth endpoints (login, register, MFA challenge) - stricter limits */
   auth: number;
   /** Password reset - very strict */
   passwordReset: number;
@@ -36,7 +36,11 @@ function getMaxRequests(request: FastifyRequest, config: RateLimitConfig): numbe
   const url = request.url;
 
   // Stricter limits for authentication endpoints
-  if (url.includes('/auth/login') || url.includes('/auth/register')) {
+  if (
+    url.includes('/auth/login') ||
+    url.includes('/auth/register') ||
+    url.includes('/auth/mfa/challenge')
+  ) {
     return config.auth;
   }
 
@@ -12,6 +12,7 @@ import {
   getPageSize,
   getExecutor,
   withTransaction,
+  customAttributeConditions,
 } from './base.repository.js';
 import { activities, activityTypes } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -111,6 +112,46 @@ export class ActivityRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds activities by custom attribute values within a tenant, optionally of
+   * one activity type
+   */
+  async findByAttributes(
+    organizationId: OrganizationId,
+    attributes: Record<string, string>,
+    options?: PaginationOptions & { activityTypeId?: string },
+    trx?: Transaction
+  ): Promise<PaginatedResult<Activity>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const whereClause = and(
+      eq(activities.organizationId, organizationId),
+      options?.activityTypeId ? eq(activities.activityTypeId, options.activityTypeId) : undefined,
+      isNull(activities.deletedAt),
+      ...customAttributeConditions(activities.customAttributes, attributes)
+    );
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(activities)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(activities)
+      .where(whereClause)
+      .orderBy(activities.createdAt)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
   /**
    * Finds activities by status within a tenant
    */
@@ -0,0 +1,151 @@
+/**
+ * API key repository
+ * Provides data access for organization API keys
+ */
+
+import { eq, and, or, isNull, gt, sql, desc } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import { apiKeys } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { OrganizationId, UserId } from '@argus/shared';
+import crypto from 'crypto';
+
+// Infer types from Drizzle schema
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
+/** Every key starts with this marker, followed by the display prefix */
+export const API_KEY_MARKER = 'argus_';
+
+/**
+ * Generates a new API key
+ * Format: argus_<8-char id>_<secret>; the part before the secret is the
+ * key prefix shown in lists
+ */
+export function generateApiKey(): { key: string; keyPrefix: string } {
+  const id = crypto.randomBytes(6).toString('base64url');
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const keyPrefix = `${API_KEY_MARKER}${id}`;
+  return { key: `${keyPrefix}_${secret}`, keyPrefix };
+}
+
+/**
+ * Hashes an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export class ApiKeyRepository {
+  /**
+   * Creates a key record (keyPrefix and keyHash from generateApiKey/hashApiKey)
+   */
+  async create(data: NewApiKey, trx?: Transaction): Promise<ApiKey> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(apiKeys).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds a key by ID within an organization
+   */
+  async findById(id: string, organizationId: OrganizationId, trx?: Transaction): Promise<ApiKey | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.organizationId, organizationId)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds a key by the hash of its full value (including revoked and expired keys)
+   */
+  async findByHash(keyHash: string, trx?: Transaction): Promise<ApiKey | null> {
+    const executor = getExecutor(trx);
+    const result = await executor.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Lists an organization's keys, newest first
+   */
+  async findByOrganization(organizationId: OrganizationId, trx?: Transaction): Promise<ApiKey[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.organizationId, organizationId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  /**
+   * Counts keys that are neither revoked nor expired
+   */
+  async countActive(organizationId: OrganizationId, now: Date = new Date(), trx?: Transaction): Promise<number> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(apiKeys)
+      .where(
+        and(
+          eq(apiKeys.organizationId, organizationId),
+          isNull(apiKeys.revokedAt),
+          or(isNull(apiKeys.expiresAt), gt(apiKeys.expiresAt, now))
+        )
+      );
+    return Number(result[0]?.count ?? 0);
+  }
+
+  /**
+   * Replaces a key's secret, keeping its name, scope and expiry
+   */
+  async updateSecret(
+    id: string,
+    secret: { keyPrefix: string; keyHash: string },
+    trx?: Transaction
+  ): Promise<ApiKey | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(apiKeys)
+      .set({ ...secret, updatedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Records a successful authentication
+   */
+  async recordUsage(id: string, usedAt: Date, ipAddress: string | null, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor
+      .update(apiKeys)
+      .set({ lastUsedAt: usedAt, lastUsedIp: ipAddress })
+      .where(eq(apiKeys.id, id));
+  }
+
+  /**
+   * Revokes a key; returns null if it was already revoked
+   */
+  async revoke(id: string, revokedBy: UserId, trx?: Transaction): Promise<ApiKey | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(apiKeys)
+      .set({ revokedAt: new Date(), revokedBy, updatedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+      .returning();
+    return result[0] ?? null;
+  }
+}
+
+// Singleton instance
+let apiKeyRepository: ApiKeyRepository | null = null;
+
+export function getApiKeyRepository(): ApiKeyRepository {
+  if (!apiKeyRepository) {
+    apiKeyRepository = new ApiKeyRepository();
+  }
+  return apiKeyRepository;
+}
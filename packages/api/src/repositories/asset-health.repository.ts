@@ -0,0 +1,216 @@
+/**
+ * Asset health repository
+ * Provides data access for the inputs of the health engine (asset type health
+ * algorithm, open threshold alerts, child asset scores) and for stored scores
+ */
+
+import { eq, and, sql, isNull, isNotNull, gte, lte, desc } from 'drizzle-orm';
+import { getExecutor, withTransaction } from './base.repository.js';
+import {
+  assets,
+  assetTypes,
+  assetHealthScores,
+  thresholdRules,
+  thresholdRuleStates,
+  type AssetHealthScore,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { HealthFactor, HealthTrigger } from '@argus/shared';
+
+/** An asset with the health algorithm of its type */
+export interface HealthTarget {
+  id: string;
+  tenantId: string;
+  parentAssetId: string | null;
+  lastTelemetryAt: Date | null;
+  healthScore: string | null;
+  healthScoreUpdatedAt: Date | null;
+  healthAlgorithm: unknown;
+}
+
+/** A threshold rule currently alerting for an asset */
+export interface OpenAlert {
+  ruleId: string;
+  ruleName: string;
+  level: string;
+}
+
+/** Stored score of a child asset */
+export interface ChildScore {
+  id: string;
+  name: string;
+  healthScore: string | null;
+}
+
+export interface SaveHealthScoreInput {
+  tenantId: string;
+  assetId: string;
+  score: number;
+  factors: HealthFactor[];
+  trigger: HealthTrigger;
+  computedAt: Date;
+  computedBy: string;
+}
+
+export class AssetHealthRepository {
+  /**
+   * Finds a non-deleted asset with its type's health algorithm
+   */
+  async findTarget(tenantId: string, assetId: string): Promise<HealthTarget | null> {
+    const result = await getExecutor()
+      .select({
+        id: assets.id,
+        tenantId: assets.organizationId,
+        parentAssetId: assets.parentAssetId,
+        lastTelemetryAt: assets.lastTelemetryAt,
+        healthScore: assets.healthScore,
+        healthScoreUpdatedAt: assets.healthScoreUpdatedAt,
+        healthAlgorithm: assetTypes.healthAlgorithm,
+      })
+      .from(assets)
+      .innerJoin(assetTypes, eq(assetTypes.id, assets.assetTypeId))
+      .where(
+        and(
+          eq(assets.id, assetId),
+          eq(assets.organizationId, tenantId),
+          isNull(assets.deletedAt)
+        )
+      )
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds the threshold rules currently alerting for an asset
+   */
+  async findOpenAlerts(tenantId: string, assetId: string): Promise<OpenAlert[]> {
+    const rows = await this.withTenant(tenantId, (trx) =>
+      trx
+        .select({
+          ruleId: thresholdRuleStates.ruleId,
+          ruleName: thresholdRules.name,
+          level: thresholdRuleStates.alertLevel,
+        })
+        .from(thresholdRuleStates)
+        .innerJoin(thresholdRules, eq(thresholdRules.id, thresholdRuleStates.ruleId))
+        .where(
+          and(
+            eq(thresholdRuleStates.tenantId, tenantId),
+            eq(thresholdRuleStates.assetId, assetId),
+            isNotNull(thresholdRuleStates.alertLevel)
+          )
+        )
+        .orderBy(thresholdRules.name)
+    );
+    return rows.map((row) => ({ ...row, level: row.level! }));
+  }
+
+  /**
+   * Finds the non-deleted children of an asset with their stored scores
+   */
+  async findChildScores(tenantId: string, assetId: string): Promise<ChildScore[]> {
+    return getExecutor()
+      .select({ id: assets.id, name: assets.name, healthScore: assets.healthScore })
+      .from(assets)
+      .where(
+        and(
+          eq(assets.organizationId, tenantId),
+          eq(assets.parentAssetId, assetId),
+          isNull(assets.deletedAt)
+        )
+      )
+      .orderBy(assets.name);
+  }
+
+  /**
+   * Stores a computed score on the asset; a history row is written only when
+   * the score differs from the stored one. Returns whether the score changed.
+   */
+  async saveScore(input: SaveHealthScoreInput): Promise<boolean> {
+    const score = input.score.toFixed(2);
+
+    return this.withTenant(input.tenantId, async (trx) => {
+      const [current] = await trx
+        .select({ healthScore: assets.healthScore })
+        .from(assets)
+        .where(eq(assets.id, input.assetId))
+        .for('update');
+      if (!current) return false;
+
+      await trx
+        .update(assets)
+        .set({
+          healthScore: score,
+          healthScoreUpdatedAt: input.computedAt,
+          healthScoreComputedBy: input.computedBy,
+        })
+        .where(eq(assets.id, input.assetId));
+
+      const changed = current.healthScore === null || Number(current.healthScore) !== Number(score);
+      if (changed) {
+        await trx.insert(assetHealthScores).values({
+          tenantId: input.tenantId,
+          assetId: input.assetId,
+          score,
+          factors: input.factors,
+          trigger: input.trigger,
+          computedAt: input.computedAt,
+        });
+      }
+      return changed;
+    });
+  }
+
+  /**
+   * Finds stored scores of an asset in a time range, newest first
+   */
+  async findHistory(
+    tenantId: string,
+    assetId: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<AssetHealthScore[]> {
+    return this.withTenant(tenantId, (trx) =>
+      trx
+        .select()
+        .from(assetHealthScores)
+        .where(
+          and(
+            eq(assetHealthScores.tenantId, tenantId),
+            eq(assetHealthScores.assetId, assetId),
+            gte(assetHealthScores.computedAt, from),
+            lte(assetHealthScores.computedAt, to)
+          )
+        )
+        .orderBy(desc(assetHealthScores.computedAt))
+        .limit(limit)
+    );
+  }
+
+  /**
+   * Runs queries in a transaction with the tenant context the RLS policies of
+   * threshold_rule_states and asset_health_scores expect
+   */
+  private async withTenant<T>(
+    tenantId: string,
+    fn: (trx: Transaction) => Promise<T>
+  ): Promise<T> {
+    return withTransaction(async (trx) => {
+      await trx.execute(
+        sql`SELECT set_config('app.current_tenant_id', ${tenantId}, true)`
+      );
+      return fn(trx);
+    });
+  }
+}
+
+// Singleton instance
+let assetHealthRepository: AssetHealthRepository | null = null;
+
+export function getAssetHealthRepository(): AssetHealthRepository {
+  if (!assetHealthRepository) {
+    assetHealthRepository = new AssetHealthRepository();
+  }
+  return assetHealthRepository;
+}
@@ -0,0 +1,59 @@
+/**
+ * Asset type profile version repository
+ * Provides data access for the recorded telemetry profiles of asset types
+ * (asset_type_profile_versions)
+ */
+
+import { eq, and, desc } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import {
+  assetTypeProfileVersions,
+  type AssetTypeProfileVersion,
+  type NewAssetTypeProfileVersion,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { OrganizationId } from '@argus/shared';
+
+export type { AssetTypeProfileVersion, NewAssetTypeProfileVersion };
+
+export class AssetTypeProfileVersionRepository {
+  /**
+   * Records a profile version
+   */
+  async create(data: NewAssetTypeProfileVersion, trx?: Transaction): Promise<AssetTypeProfileVersion> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(assetTypeProfileVersions).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds the recorded profile versions of an asset type, newest first
+   */
+  async findByAssetType(
+    assetTypeId: string,
+    organizationId: OrganizationId,
+    trx?: Transaction
+  ): Promise<AssetTypeProfileVersion[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(assetTypeProfileVersions)
+      .where(
+        and(
+          eq(assetTypeProfileVersions.assetTypeId, assetTypeId),
+          eq(assetTypeProfileVersions.organizationId, organizationId)
+        )
+      )
+      .orderBy(desc(assetTypeProfileVersions.createdAt));
+  }
+}
+
+// Singleton instance
+let assetTypeProfileVersionRepository: AssetTypeProfileVersionRepository | null = null;
+
+export function getAssetTypeProfileVersionRepository(): AssetTypeProfileVersionRepository {
+  if (!assetTypeProfileVersionRepository) {
+    assetTypeProfileVersionRepository = new AssetTypeProfileVersionRepository();
+  }
+  return assetTypeProfileVersionRepository;
+}
@@ -12,6 +12,7 @@ import {
   getPageSize,
   getExecutor,
   withTransaction,
+  customAttributeConditions,
 } from './base.repository.js';
 import { assets, assetTypes } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -100,6 +101,46 @@ export class AssetRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds assets by custom attribute values within a tenant, optionally of
+   * one asset type
+   */
+  async findByAttributes(
+    organizationId: OrganizationId,
+    attributes: Record<string, string>,
+    options?: PaginationOptions & { assetTypeId?: string },
+    trx?: Transaction
+  ): Promise<PaginatedResult<Asset>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const whereClause = and(
+      eq(assets.organizationId, organizationId),
+      options?.assetTypeId ? eq(assets.assetTypeId, options.assetTypeId) : undefined,
+      isNull(assets.deletedAt),
+      ...customAttributeConditions(assets.customAttributes, attributes)
+    );
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(assets)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(assets)
+      .where(whereClause)
+      .orderBy(assets.createdAt)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
   /**
    * Finds assets by asset type within a tenant
    */
@@ -211,6 +252,32 @@ export class AssetRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds the IDs of an asset and all of its descendants within a tenant
+   */
+  async findSubtreeIds(
+    organizationId: OrganizationId,
+    rootAssetId: string,
+    trx?: Transaction
+  ): Promise<string[]> {
+    const executor = getExecutor(trx);
+    const rows = await executor.execute(sql`
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM assets
+        WHERE id = ${rootAssetId}
+          AND organization_id = ${organizationId}
+          AND deleted_at IS NULL
+        UNION
+        SELECT a.id FROM assets a
+        JOIN subtree s ON a.parent_asset_id = s.id
+        WHERE a.organization_id = ${organizationId}
+          AND a.deleted_at IS NULL
+      )
+      SELECT id FROM subtree
+    `);
+    return (rows as unknown as Array<{ id: string }>).map((row) => row.id);
+  }
+
   /**
    * Finds root-level assets (no parent) within a tenant
    */
@@ -3,6 +3,8 @@
  * Provides helper functions and types for consistent repository patterns
  */
 
+import { sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
 import { db, Transaction } from '../db/index.js';
 
 export interface PaginationOptions {
@@ -80,3 +82,16 @@ export async function withTransaction<T>(
 ): Promise<T> {
   return db.transaction(fn);
 }
+
+/**
+ * Builds conditions matching custom attributes by their text value
+ * (?attr.floor=3 matches both {"floor": 3} and {"floor": "3"})
+ */
+export function customAttributeConditions(
+  column: AnyPgColumn,
+  filters: Record<string, string>
+): SQL[] {
+  return Object.entries(filters).map(
+    ([key, value]) => sql`${column} ->> ${key} = ${value}`
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * Custom attribute repository
+ * Provides data access for the inputs of custom attribute validation (property
+ * mappings of the type_definitions registry) and for scanning the custom
+ * attributes of entities of a type
+ */
+
+import { eq, and, gt, inArray, isNull } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import {
+  assets,
+  devices,
+  spaces,
+  persons,
+  activities,
+  typeDefinitions,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { BaseType, OrganizationId } from '@argus/shared';
+import type { TypeKind } from './type-definition.repository.js';
+
+/** Custom attributes of an entity */
+export interface EntityAttributes {
+  id: string;
+  name: string;
+  typeId: string;
+  customAttributes: unknown;
+}
+
+/** Entity table and type column of each type kind */
+const ENTITY_TABLES = {
+  asset: { table: assets, typeColumn: assets.assetTypeId },
+  device: { table: devices, typeColumn: devices.deviceTypeId },
+  space: { table: spaces, typeColumn: spaces.spaceTypeId },
+  person: { table: persons, typeColumn: persons.personTypeId },
+  activity: { table: activities, typeColumn: activities.activityTypeId },
+} as const;
+
+/** Base type of the type_definitions registry entries of each type kind */
+const BASE_TYPES: Record<TypeKind, BaseType> = {
+  asset: 'Asset',
+  device: 'Device',
+  space: 'Space',
+  person: 'Person',
+  activity: 'Activity',
+};
+
+export class CustomAttributeRepository {
+  /**
+   * Finds the property mappings registered for types of a kind, by type name
+   */
+  async findPropertyMappings(
+    organizationId: OrganizationId,
+    kind: TypeKind,
+    typeNames: string[],
+    trx?: Transaction
+  ): Promise<Map<string, unknown>> {
+    if (typeNames.length === 0) return new Map();
+
+    const executor = getExecutor(trx);
+    const rows = await executor
+      .select({ name: typeDefinitions.name, propertyMappings: typeDefinitions.propertyMappings })
+      .from(typeDefinitions)
+      .where(
+        and(
+          eq(typeDefinitions.tenantId, organizationId),
+          eq(typeDefinitions.inheritsFrom, BASE_TYPES[kind]),
+          inArray(typeDefinitions.name, typeNames)
+        )
+      );
+    return new Map(rows.map((row) => [row.name, row.propertyMappings]));
+  }
+
+  /**
+   * Finds the custom attributes of non-deleted entities of a type, ordered by
+   * ID after `afterId` (keyset pagination)
+   */
+  async findEntityAttributes(
+    kind: TypeKind,
+    organizationId: OrganizationId,
+    typeId: string,
+    afterId: string | null,
+    limit: number,
+    trx?: Transaction
+  ): Promise<EntityAttributes[]> {
+    const { table, typeColumn } = ENTITY_TABLES[kind];
+    const executor = getExecutor(trx);
+    return executor
+      .select({
+        id: table.id,
+        name: table.name,
+        typeId: typeColumn,
+        customAttributes: table.customAttributes,
+      })
+      .from(table)
+      .where(
+        and(
+          eq(table.organizationId, organizationId),
+          eq(typeColumn, typeId),
+          isNull(table.deletedAt),
+          afterId ? gt(table.id, afterId) : undefined
+        )
+      )
+      .orderBy(table.id)
+      .limit(limit);
+  }
+}
+
+// Singleton instance
+let customAttributeRepository: CustomAttributeRepository | null = null;
+
+export function getCustomAttributeRepository(): CustomAttributeRepository {
+  if (!customAttributeRepository) {
+    customAttributeRepository = new CustomAttributeRepository();
+  }
+  return customAttributeRepository;
+}
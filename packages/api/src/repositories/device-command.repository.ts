@@ -0,0 +1,159 @@
+/**
+ * Device command repository
+ * Provides data access for cloud-to-device commands and their status lifecycle
+ */
+
+import { eq, and, or, sql, inArray, lte, desc } from 'drizzle-orm';
+import {
+  PaginatedResult,
+  PaginationOptions,
+  buildPaginatedResult,
+  calculateOffset,
+  getPageSize,
+  getExecutor,
+} from './base.repository.js';
+import {
+  deviceCommands,
+  type DeviceCommand,
+  type NewDeviceCommand,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { DeviceCommandStatus, OrganizationId } from '@argus/shared';
+
+export interface DeviceCommandFilters {
+  status?: DeviceCommandStatus;
+}
+
+/** Fields written together with a status change */
+export type DeviceCommandStatusUpdate = Partial<
+  Pick<DeviceCommand, 'error' | 'response' | 'sentAt' | 'deliveredAt' | 'ackedAt'>
+>;
+
+export class DeviceCommandRepository {
+  /**
+   * Creates a new command
+   */
+  async create(data: NewDeviceCommand, trx?: Transaction): Promise<DeviceCommand> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(deviceCommands).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds a command by ID within a tenant
+   */
+  async findById(
+    id: string,
+    tenantId: OrganizationId,
+    trx?: Transaction
+  ): Promise<DeviceCommand | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(deviceCommands)
+      .where(and(eq(deviceCommands.id, id), eq(deviceCommands.tenantId, tenantId)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds the commands of a device, newest first
+   */
+  async findByDevice(
+    tenantId: OrganizationId,
+    deviceId: string,
+    filters: DeviceCommandFilters = {},
+    options?: PaginationOptions,
+    trx?: Transaction
+  ): Promise<PaginatedResult<DeviceCommand>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const conditions = [
+      eq(deviceCommands.tenantId, tenantId),
+      eq(deviceCommands.deviceId, deviceId),
+    ];
+    if (filters.status) {
+      conditions.push(eq(deviceCommands.status, filters.status));
+    }
+    const whereClause = and(...conditions);
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(deviceCommands)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(deviceCommands)
+      .where(whereClause)
+      .orderBy(desc(deviceCommands.createdAt))
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
+  /**
+   * Moves a command to a new status if it is currently in one of `from`
+   *
+   * Status reports are matched by command ID only (they come from the IoT
+   * bridge, outside any tenant context).
+   *
+   * @returns The updated command, or null if the command does not exist or
+   *   is in a status that cannot move to `status`
+   */
+  async transition(
+    id: string,
+    from: DeviceCommandStatus[],
+    status: DeviceCommandStatus,
+    update: DeviceCommandStatusUpdate = {},
+    trx?: Transaction
+  ): Promise<DeviceCommand | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(deviceCommands)
+      .set({ ...update, status, updatedAt: new Date() })
+      .where(and(eq(deviceCommands.id, id), inArray(deviceCommands.status, from)))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Expires open commands whose TTL has passed: queued commands, and sent or
+   * delivered commands still waiting for an acknowledgement
+   */
+  async expireDue(now: Date, trx?: Transaction): Promise<DeviceCommand[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .update(deviceCommands)
+      .set({ status: 'expired', error: 'Command expired before completion', updatedAt: now })
+      .where(
+        and(
+          lte(deviceCommands.expiresAt, now),
+          or(
+            eq(deviceCommands.status, 'queued'),
+            and(
+              eq(deviceCommands.requireAck, true),
+              inArray(deviceCommands.status, ['sent', 'delivered'])
+            )
+          )
+        )
+      )
+      .returning();
+  }
+}
+
+// Singleton instance
+let deviceCommandRepository: DeviceCommandRepository | null = null;
+
+export function getDeviceCommandRepository(): DeviceCommandRepository {
+  if (!deviceCommandRepository) {
+    deviceCommandRepository = new DeviceCommandRepository();
+  }
+  return deviceCommandRepository;
+}
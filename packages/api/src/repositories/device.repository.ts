@@ -3,7 +3,7 @@
  * Provides data access for devices with multi-tenant isolation
  */
 
-import { eq, and, sql, inArray, ilike, isNull } from 'drizzle-orm';
+import { eq, and, sql, inArray, ilike, isNull, asc } from 'drizzle-orm';
 import {
   PaginatedResult,
   PaginationOptions,
@@ -12,6 +12,7 @@ import {
   getPageSize,
   getExecutor,
   withTransaction,
+  customAttributeConditions,
 } from './base.repository.js';
 import { devices, deviceTypes } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -22,6 +23,20 @@ export type Device = typeof devices.$inferSelect;
 export type NewDevice = typeof devices.$inferInsert;
 export type DeviceStatus = 'active' | 'inactive' | 'maintenance' | 'offline' | 'error';
 
+/** Statuses the connectivity watchdog derives; inactive / maintenance are set by users */
+export const CONNECTIVITY_MANAGED_STATUSES: DeviceStatus[] = ['active', 'offline', 'error'];
+
+/** Device fields the connectivity watchdog evaluates */
+export interface ConnectivityCandidate {
+  id: string;
+  organizationId: string;
+  status: DeviceStatus;
+  lastSeenAt: Date | null;
+  createdAt: Date;
+  /** device_types.connectivity_config */
+  connectivityConfig: unknown;
+}
+
 export class DeviceRepository {
   /**
    * Creates a new device
@@ -100,6 +115,46 @@ export class DeviceRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds devices by custom attribute values within a tenant, optionally of
+   * one device type
+   */
+  async findByAttributes(
+    organizationId: OrganizationId,
+    attributes: Record<string, string>,
+    options?: PaginationOptions & { deviceTypeId?: string },
+    trx?: Transaction
+  ): Promise<PaginatedResult<Device>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const whereClause = and(
+      eq(devices.organizationId, organizationId),
+      options?.deviceTypeId ? eq(devices.deviceTypeId, options.deviceTypeId) : undefined,
+      isNull(devices.deletedAt),
+      ...customAttributeConditions(devices.customAttributes, attributes)
+    );
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(devices)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(devices)
+      .where(whereClause)
+      .orderBy(devices.createdAt)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
   /**
    * Finds devices by device type within a tenant
    */
@@ -364,6 +419,155 @@ export class DeviceRepository {
     return this.update(id, organizationId, { lastSeenAt: new Date() }, trx);
   }
 
+  /**
+   * Finds devices across all tenants whose status is managed by the
+   * connectivity watchdog, with their device type's connectivity config
+   */
+  async findConnectivityCandidates(trx?: Transaction): Promise<ConnectivityCandidate[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select({
+        id: devices.id,
+        organizationId: devices.organizationId,
+        status: devices.status,
+        lastSeenAt: devices.lastSeenAt,
+        createdAt: devices.createdAt,
+        connectivityConfig: deviceTypes.connectivityConfig,
+      })
+      .from(devices)
+      .leftJoin(deviceTypes, eq(devices.deviceTypeId, deviceTypes.id))
+      .where(
+        and(inArray(devices.status, CONNECTIVITY_MANAGED_STATUSES), isNull(devices.deletedAt))
+      );
+  }
+
+  /**
+   * Changes a device's status if it is still `from`
+   * Used by the connectivity watchdog, outside any tenant context
+   *
+   * @returns The updated device, or null if the status changed concurrently
+   */
+  async transitionStatus(
+    id: string,
+    from: DeviceStatus,
+    to: DeviceStatus,
+    trx?: Transaction
+  ): Promise<Device | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(devices)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(devices.id, id), eq(devices.status, from), isNull(devices.deletedAt)))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Counts devices within a tenant by status, plus devices never seen
+   */
+  async countByStatus(
+    organizationId: OrganizationId,
+    trx?: Transaction
+  ): Promise<{ byStatus: Partial<Record<DeviceStatus, number>>; neverSeen: number }> {
+    const executor = getExecutor(trx);
+    const rows = await executor
+      .select({
+        status: devices.status,
+        count: sql<number>`count(*)`,
+        neverSeen: sql<number>`count(*) filter (where ${devices.lastSeenAt} is null)`,
+      })
+      .from(devices)
+      .where(and(eq(devices.organizationId, organizationId), isNull(devices.deletedAt)))
+      .groupBy(devices.status);
+
+    const byStatus: Partial<Record<DeviceStatus, number>> = {};
+    let neverSeen = 0;
+    for (const row of rows) {
+      byStatus[row.status] = Number(row.count);
+      neverSeen += Number(row.neverSeen);
+    }
+    return { byStatus, neverSeen };
+  }
+
+  /**
+   * Finds the watchdog-managed devices of a tenant that have been silent the
+   * longest (devices never seen count from their creation)
+   */
+  async findLongestSilent(
+    organizationId: OrganizationId,
+    limit: number,
+    trx?: Transaction
+  ): Promise<Device[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(devices)
+      .where(
+        and(
+          eq(devices.organizationId, organizationId),
+          inArray(devices.status, CONNECTIVITY_MANAGED_STATUSES),
+          isNull(devices.deletedAt)
+        )
+      )
+      .orderBy(asc(sql`coalesce(${devices.lastSeenAt}, ${devices.createdAt})`))
+      .limit(limit);
+  }
+
+  /**
+   * Finds child devices of a gateway by their logical identifiers
+   */
+  async findChildrenByLogicalIds(
+    organizationId: OrganizationId,
+    parentDeviceId: string,
+    logicalIds: string[],
+    trx?: Transaction
+  ): Promise<Device[]> {
+    if (logicalIds.length === 0) return [];
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(devices)
+      .where(
+        and(
+          eq(devices.organizationId, organizationId),
+          eq(devices.parentDeviceId, parentDeviceId),
+          inArray(devices.logicalIdentifier, logicalIds),
+          isNull(devices.deletedAt)
+        )
+      );
+  }
+
+  /**
+   * Creates child devices under a gateway, skipping logical identifiers that
+   * already exist (e.g. provisioned concurrently)
+   */
+  async provisionChildren(
+    organizationId: OrganizationId,
+    parentDeviceId: string,
+    deviceTypeId: string,
+    children: Array<{ logicalIdentifier: string; name: string }>,
+    trx?: Transaction
+  ): Promise<Device[]> {
+    if (children.length === 0) return [];
+    const executor = getExecutor(trx);
+    return executor
+      .insert(devices)
+      .values(
+        children.map((child) => ({
+          organizationId,
+          deviceTypeId,
+          parentDeviceId,
+          logicalIdentifier: child.logicalIdentifier,
+          name: child.name,
+          status: 'active' as const,
+          deviceRole: 'endpoint',
+          customAttributes: { autoProvisioned: true },
+        }))
+      )
+      .onConflictDoNothing()
+      .returning();
+  }
+
   /**
    * Executes operations within a transaction
    */
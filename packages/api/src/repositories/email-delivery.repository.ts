@@ -0,0 +1,198 @@
+/**
+ * Email delivery repository
+ * Provides data access for the outbound mail queue and delivery log
+ */
+
+import { eq, and, sql, lte, desc } from 'drizzle-orm';
+import {
+  PaginatedResult,
+  PaginationOptions,
+  buildPaginatedResult,
+  calculateOffset,
+  getPageSize,
+  getExecutor,
+} from './base.repository.js';
+import { emailDeliveries } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { EmailDeliveryStatus, EmailTemplate } from '@argus/shared';
+
+// Infer types from Drizzle schema
+export type EmailDelivery = typeof emailDeliveries.$inferSelect;
+export type NewEmailDelivery = typeof emailDeliveries.$inferInsert;
+
+export interface EmailDeliveryFilters {
+  status?: EmailDeliveryStatus;
+  template?: EmailTemplate;
+}
+
+export class EmailDeliveryRepository {
+  /**
+   * Queues a rendered message
+   */
+  async create(data: NewEmailDelivery, trx?: Transaction): Promise<EmailDelivery> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(emailDeliveries).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds a delivery by ID
+   */
+  async findById(id: string, trx?: Transaction): Promise<EmailDelivery | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(emailDeliveries)
+      .where(eq(emailDeliveries.id, id))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Lists deliveries, newest first
+   */
+  async list(
+    filters: EmailDeliveryFilters = {},
+    options?: PaginationOptions,
+    trx?: Transaction
+  ): Promise<PaginatedResult<EmailDelivery>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const conditions = [];
+    if (filters.status) {
+      conditions.push(eq(emailDeliveries.status, filters.status));
+    }
+    if (filters.template) {
+      conditions.push(eq(emailDeliveries.template, filters.template));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(emailDeliveries)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(emailDeliveries)
+      .where(whereClause)
+      .orderBy(desc(emailDeliveries.createdAt))
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
+  /**
+   * Claims up to `limit` queued messages that are due and marks them sending
+   *
+   * Rows locked by another worker are skipped, so several workers can poll the
+   * same queue without sending a message twice.
+   */
+  async claimDue(now: Date, limit: number, trx?: Transaction): Promise<EmailDelivery[]> {
+    const executor = getExecutor(trx);
+    const due = executor
+      .select({ id: emailDeliveries.id })
+      .from(emailDeliveries)
+      .where(and(eq(emailDeliveries.status, 'queued'), lte(emailDeliveries.nextAttemptAt, now)))
+      .orderBy(emailDeliveries.nextAttemptAt)
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return executor
+      .update(emailDeliveries)
+      .set({
+        status: 'sending',
+        attempts: sql`${emailDeliveries.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(sql`${emailDeliveries.id} IN ${due}`)
+      .returning();
+  }
+
+  /**
+   * Records an accepted message
+   */
+  async markSent(id: string, messageId: string | null, sentAt: Date, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor
+      .update(emailDeliveries)
+      .set({
+        status: 'sent',
+        messageId,
+        sentAt,
+        nextAttemptAt: null,
+        lastError: null,
+        updatedAt: sentAt,
+      })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  /**
+   * Records a failed attempt: requeues the message for `retryAt`, or marks it
+   * failed when no retry is left (retryAt null)
+   */
+  async markAttemptFailed(
+    id: string,
+    error: string,
+    retryAt: Date | null,
+    trx?: Transaction
+  ): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor
+      .update(emailDeliveries)
+      .set({
+        status: retryAt ? 'queued' : 'failed',
+        nextAttemptAt: retryAt,
+        lastError: error,
+        updatedAt: new Date(),
+      })
+      .where(eq(emailDeliveries.id, id));
+  }
+
+  /**
+   * Requeues messages left in sending by a worker that stopped mid-send
+   */
+  async requeueStale(olderThan: Date, trx?: Transaction): Promise<number> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(emailDeliveries)
+      .set({ status: 'queued', nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(emailDeliveries.status, 'sending'), lte(emailDeliveries.updatedAt, olderThan)))
+      .returning({ id: emailDeliveries.id });
+    return result.length;
+  }
+
+  /**
+   * Queues a failed message for another round of attempts
+   */
+  async retry(id: string, trx?: Transaction): Promise<EmailDelivery | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(emailDeliveries)
+      .set({
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(emailDeliveries.id, id), eq(emailDeliveries.status, 'failed')))
+      .returning();
+    return result[0] ?? null;
+  }
+}
+
+// Singleton instance
+let emailDeliveryRepository: EmailDeliveryRepository | null = null;
+
+export function getEmailDeliveryRepository(): EmailDeliveryRepository {
+  if (!emailDeliveryRepository) {
+    emailDeliveryRepository = new EmailDeliveryRepository();
+  }
+  return emailDeliveryRepository;
+}
@@ -659,6 +659,7 @@ function createMockGroup(overrides?: Partial<UserGroup>): UserGroup {
     organizationId: 'org-1',
     name: 'Developers',
     description: 'Development team',
+    externalId: null,
     createdAt: new Date(),
     updatedAt: new Date(),
     createdBy: 'user-1',
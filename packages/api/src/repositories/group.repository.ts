@@ -102,6 +102,7 @@ export class GroupRepository {
         organizationId: userGroups.organizationId,
         name: userGroups.name,
         description: userGroups.description,
+        externalId: userGroups.externalId,
         createdAt: userGroups.createdAt,
         updatedAt: userGroups.updatedAt,
         createdBy: userGroups.createdBy,
@@ -287,6 +288,7 @@ export class GroupRepository {
         organizationId: userGroups.organizationId,
         name: userGroups.name,
         description: userGroups.description,
+        externalId: userGroups.externalId,
         createdAt: userGroups.createdAt,
         updatedAt: userGroups.updatedAt,
         createdBy: userGroups.createdBy,
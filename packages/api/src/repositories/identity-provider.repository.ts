@@ -15,7 +15,9 @@ import {
 } from './base.repository.js';
 import {
   identityProviders,
+  organizations,
   userIdentities,
+  type OrganizationSettings,
   type ProviderConfig,
 } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -29,6 +31,16 @@ export interface IdentityProviderWithStats extends IdentityProvider {
   linkedUsersCount: number;
 }
 
+/** An organization's identity provider with the organization's SSO settings */
+export interface IdentityProviderWithOrganization {
+  provider: IdentityProvider;
+  organization: {
+    id: string;
+    rootOrganizationId: string | null;
+    settings: OrganizationSettings | null;
+  };
+}
+
 export class IdentityProviderRepository {
   /**
    * Creates a new identity provider
@@ -165,6 +177,41 @@ export class IdentityProviderRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds enabled organization providers whose allowed domains include the
+   * email domain within one root organization's tree, nearest the root
+   * organization first
+   */
+  async findByEmailDomain(
+    domain: string,
+    rootOrganizationId: OrganizationId,
+    trx?: Transaction
+  ): Promise<IdentityProviderWithOrganization[]> {
+    const executor = getExecutor(trx);
+    const conditions = [
+      eq(identityProviders.enabled, true),
+      sql`EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(${identityProviders.allowedDomains}) AS allowed(domain)
+        WHERE lower(allowed.domain) = ${domain.toLowerCase()}
+      )`,
+      or(eq(organizations.id, rootOrganizationId), eq(organizations.rootOrganizationId, rootOrganizationId))!,
+    ];
+
+    return executor
+      .select({
+        provider: identityProviders,
+        organization: {
+          id: organizations.id,
+          rootOrganizationId: organizations.rootOrganizationId,
+          settings: organizations.settings,
+        },
+      })
+      .from(identityProviders)
+      .innerJoin(organizations, eq(identityProviders.organizationId, organizations.id))
+      .where(and(...conditions))
+      .orderBy(organizations.depth, identityProviders.name);
+  }
+
   /**
    * Updates an identity provider by ID
    */
@@ -1,9 +1,10 @@
 /**
  * Impersonation repository for data access
- * Manages impersonation session tracking for admin users
+ * Manages impersonation session tracking for admin users, approval requests
+ * and the per-session log of API calls
  */
 
-import { eq, and, sql, desc, inArray } from 'drizzle-orm';
+import { eq, and, or, sql, desc, asc, inArray } from 'drizzle-orm';
 import {
   PaginatedResult,
   PaginationOptions,
@@ -14,8 +15,11 @@ import {
   withTransaction,
 } from './base.repository.js';
 import {
+  impersonationActivity,
   impersonationSessions,
+  userOrganizations,
   users,
+  type ImpersonationSessionStatus,
 } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
 import { type UserId, type OrganizationId } from '@argus/shared';
@@ -23,6 +27,9 @@ import { type UserId, type OrganizationId } from '@argus/shared';
 // Infer types from Drizzle schema
 export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
 export type NewImpersonationSession = typeof impersonationSessions.$inferInsert;
+export type ImpersonationActivity = typeof impersonationActivity.$inferSelect;
+export type NewImpersonationActivity = typeof impersonationActivity.$inferInsert;
+export type { ImpersonationSessionStatus };
 
 export interface ImpersonationSessionWithUsers extends ImpersonationSession {
   impersonator: {
@@ -266,28 +273,42 @@ export class ImpersonationRepository {
 
   /**
    * Gets impersonation history for an organization
+   * Includes sessions scoped to the organization and sessions targeting its
+   * members, optionally limited to some statuses
    */
   async findByOrganization(
     organizationId: OrganizationId,
-    options?: PaginationOptions,
+    options?: PaginationOptions & { statuses?: ImpersonationSessionStatus[] },
     trx?: Transaction
   ): Promise<PaginatedResult<ImpersonationSessionWithUsers>> {
     const executor = getExecutor(trx);
     const pageSize = getPageSize(options);
     const offset = calculateOffset(options);
 
+    const members = executor
+      .select({ userId: userOrganizations.userId })
+      .from(userOrganizations)
+      .where(eq(userOrganizations.organizationId, organizationId));
+    const condition = and(
+      or(
+        eq(impersonationSessions.organizationId, organizationId),
+        inArray(impersonationSessions.targetUserId, members)
+      ),
+      options?.statuses?.length ? inArray(impersonationSessions.status, options.statuses) : undefined
+    );
+
     // Get total count
     const countResult = await executor
       .select({ count: sql<number>`count(*)` })
       .from(impersonationSessions)
-      .where(eq(impersonationSessions.organizationId, organizationId));
+      .where(condition);
     const totalCount = Number(countResult[0]?.count ?? 0);
 
     // Get sessions
     const sessions = await executor
       .select()
       .from(impersonationSessions)
-      .where(eq(impersonationSessions.organizationId, organizationId))
+      .where(condition)
       .orderBy(desc(impersonationSessions.startedAt))
       .limit(pageSize)
       .offset(offset);
@@ -346,6 +367,31 @@ export class ImpersonationRepository {
     return result[0] ?? null;
   }
 
+  /**
+   * Moves a session or request from one status to another
+   * Only updates the row if it still has the expected status, so concurrent
+   * decisions cannot both succeed.
+   */
+  async updateStatus(
+    id: string,
+    expectedStatus: ImpersonationSessionStatus,
+    data: Partial<Omit<NewImpersonationSession, 'id' | 'impersonatorId' | 'targetUserId' | 'createdAt'>>,
+    trx?: Transaction
+  ): Promise<ImpersonationSession | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(impersonationSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(impersonationSessions.id, id),
+          eq(impersonationSessions.status, expectedStatus)
+        )
+      )
+      .returning();
+    return result[0] ?? null;
+  }
+
   /**
    * Ends all active sessions for an impersonator
    */
@@ -372,7 +418,8 @@ export class ImpersonationRepository {
   }
 
   /**
-   * Expires all sessions that have passed their expiration time
+   * Expires all sessions and open approval requests that have passed their
+   * expiration time
    */
   async expireOldSessions(trx?: Transaction): Promise<number> {
     const executor = getExecutor(trx);
@@ -386,7 +433,7 @@ export class ImpersonationRepository {
       })
       .where(
         and(
-          eq(impersonationSessions.status, 'active'),
+          inArray(impersonationSessions.status, ['active', 'pending', 'approved']),
           sql`${impersonationSessions.expiresAt} < ${now}`
         )
       )
@@ -394,6 +441,62 @@ export class ImpersonationRepository {
     return result.length;
   }
 
+  /**
+   * Records an API call made during an impersonation session
+   */
+  async recordActivity(data: NewImpersonationActivity, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor.insert(impersonationActivity).values(data);
+  }
+
+  /**
+   * Gets the API calls made during a session, oldest first
+   */
+  async findActivity(
+    sessionId: string,
+    options?: PaginationOptions,
+    trx?: Transaction
+  ): Promise<PaginatedResult<ImpersonationActivity>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(impersonationActivity)
+      .where(eq(impersonationActivity.sessionId, sessionId));
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    const data = await executor
+      .select()
+      .from(impersonationActivity)
+      .where(eq(impersonationActivity.sessionId, sessionId))
+      .orderBy(asc(impersonationActivity.createdAt))
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
+  /**
+   * Counts the recorded API calls of each session
+   */
+  async countActivity(sessionIds: string[], trx?: Transaction): Promise<Map<string, number>> {
+    if (sessionIds.length === 0) {
+      return new Map();
+    }
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({
+        sessionId: impersonationActivity.sessionId,
+        count: sql<number>`count(*)`,
+      })
+      .from(impersonationActivity)
+      .where(inArray(impersonationActivity.sessionId, sessionIds))
+      .groupBy(impersonationActivity.sessionId);
+    return new Map(result.map((row) => [row.sessionId, Number(row.count)]));
+  }
+
   /**
    * Executes operations within a transaction
    */
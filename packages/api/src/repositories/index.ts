@@ -8,6 +8,8 @@ export * from './entity.repository.js';
 export * from './user.repository.js';
 export * from './refresh-token.repository.js';
 export * from './password-reset-token.repository.js';
+export * from './mfa-recovery-code.repository.js';
+export * from './password-history.repository.js';
 export * from './organization.repository.js';
 export * from './user-organization.repository.js';
 export * from './invitation.repository.js';
@@ -20,6 +22,10 @@ export * from './identity-provider.repository.js';
 export * from './impersonation.repository.js';
 export * from './platform-settings.repository.js';
 export * from './system-admin.repository.js';
+export * from './email-delivery.repository.js';
+export * from './api-key.repository.js';
+export * from './scim.repository.js';
+export * from './sso-mapping.repository.js';
 
 // Phase 7: IoT Meta-Model repositories
 export * from './device.repository.js';
@@ -28,3 +34,13 @@ export * from './person.repository.js';
 export * from './activity.repository.js';
 export * from './space.repository.js';
 export * from './type-definition.repository.js';
+export * from './asset-type-profile-version.repository.js';
+export * from './custom-attribute.repository.js';
+export * from './relationship.repository.js';
+
+// IoT Platform: Telemetry pipeline repositories
+export * from './telemetry.repository.js';
+export * from './threshold-rule.repository.js';
+export * from './asset-health.repository.js';
+export * from './system-event.repository.js';
+export * from './device-command.repository.js';
@@ -0,0 +1,124 @@
+/**
+ * MFA recovery code repository
+ */
+
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { getExecutor, withTransaction } from './base.repository.js';
+import { mfaRecoveryCodes } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import { type UserId } from '@argus/shared';
+import crypto from 'crypto';
+
+// Infer types from Drizzle schema
+export type MfaRecoveryCode = typeof mfaRecoveryCodes.$inferSelect;
+
+/** Codes per generated set */
+export const RECOVERY_CODE_COUNT = 10;
+
+// Crockford-style alphabet without easily confused characters (0/O, 1/I/L)
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generates a recovery code in XXXXX-XXXXX format (~49 bits of entropy)
+ */
+export function generateRecoveryCode(): string {
+  const chars = Array.from(
+    { length: 10 },
+    () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  ).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Hashes a recovery code for storage
+ * Case, spaces and dashes are ignored so codes can be typed loosely
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+export class MfaRecoveryCodeRepository {
+  /**
+   * Replaces a user's recovery codes with a new set
+   * Returns the raw codes (shown to the user once)
+   */
+  async replaceAll(userId: UserId, trx?: Transaction): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    const run = async (executor: Transaction) => {
+      await executor.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+      await executor
+        .insert(mfaRecoveryCodes)
+        .values(codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })));
+    };
+
+    if (trx) {
+      await run(trx);
+    } else {
+      await withTransaction(run);
+    }
+    return codes;
+  }
+
+  /**
+   * Marks an unused code as used
+   * Returns false if the code doesn't exist or was already used
+   */
+  async consume(userId: UserId, code: string, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(mfaRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(mfaRecoveryCodes.userId, userId),
+          eq(mfaRecoveryCodes.codeHash, hashRecoveryCode(code)),
+          isNull(mfaRecoveryCodes.usedAt)
+        )
+      )
+      .returning({ id: mfaRecoveryCodes.id });
+    return result.length > 0;
+  }
+
+  /**
+   * Counts a user's unused codes
+   */
+  async countRemaining(userId: UserId, trx?: Transaction): Promise<number> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mfaRecoveryCodes)
+      .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+    return result[0]?.count ?? 0;
+  }
+
+  /**
+   * Deletes all of a user's codes
+   */
+  async deleteAll(userId: UserId, trx?: Transaction): Promise<number> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .delete(mfaRecoveryCodes)
+      .where(eq(mfaRecoveryCodes.userId, userId))
+      .returning({ id: mfaRecoveryCodes.id });
+    return result.length;
+  }
+
+  /**
+   * Executes operations within a transaction
+   */
+  async withTransaction<T>(fn: (trx: Transaction) => Promise<T>): Promise<T> {
+    return withTransaction(fn);
+  }
+}
+
+// Singleton instance
+let mfaRecoveryCodeRepository: MfaRecoveryCodeRepository | null = null;
+
+export function getMfaRecoveryCodeRepository(): MfaRecoveryCodeRepository {
+  if (!mfaRecoveryCodeRepository) {
+    mfaRecoveryCodeRepository = new MfaRecoveryCodeRepository();
+  }
+  return mfaRecoveryCodeRepository;
+}
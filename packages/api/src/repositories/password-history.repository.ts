@@ -0,0 +1,52 @@
+/**
+ * Password history repository
+ */
+
+import { eq, and, gte, lt, desc } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import { passwordHistory } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import { type UserId } from '@argus/shared';
+
+// Infer types from Drizzle schema
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+
+/** History is kept for the longest reuse window the policy allows */
+export const PASSWORD_HISTORY_RETENTION_DAYS = 365;
+
+export class PasswordHistoryRepository {
+  /**
+   * Records a newly set password and prunes entries past retention
+   */
+  async add(userId: UserId, passwordHash: string, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor.insert(passwordHistory).values({ userId, passwordHash });
+
+    const cutoff = new Date(Date.now() - PASSWORD_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await executor
+      .delete(passwordHistory)
+      .where(and(eq(passwordHistory.userId, userId), lt(passwordHistory.createdAt, cutoff)));
+  }
+
+  /**
+   * Finds passwords set since a point in time, newest first
+   */
+  async findSince(userId: UserId, since: Date, trx?: Transaction): Promise<PasswordHistoryEntry[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(passwordHistory)
+      .where(and(eq(passwordHistory.userId, userId), gte(passwordHistory.createdAt, since)))
+      .orderBy(desc(passwordHistory.createdAt));
+  }
+}
+
+// Singleton instance
+let passwordHistoryRepository: PasswordHistoryRepository | null = null;
+
+export function getPasswordHistoryRepository(): PasswordHistoryRepository {
+  if (!passwordHistoryRepository) {
+    passwordHistoryRepository = new PasswordHistoryRepository();
+  }
+  return passwordHistoryRepository;
+}
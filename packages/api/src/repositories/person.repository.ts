@@ -12,6 +12,7 @@ import {
   getPageSize,
   getExecutor,
   withTransaction,
+  customAttributeConditions,
 } from './base.repository.js';
 import { persons, personTypes } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -122,6 +123,46 @@ export class PersonRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds persons by custom attribute values within a tenant, optionally of
+   * one person type
+   */
+  async findByAttributes(
+    organizationId: OrganizationId,
+    attributes: Record<string, string>,
+    options?: PaginationOptions & { personTypeId?: string },
+    trx?: Transaction
+  ): Promise<PaginatedResult<Person>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const whereClause = and(
+      eq(persons.organizationId, organizationId),
+      options?.personTypeId ? eq(persons.personTypeId, options.personTypeId) : undefined,
+      isNull(persons.deletedAt),
+      ...customAttributeConditions(persons.customAttributes, attributes)
+    );
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(persons)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(persons)
+      .where(whereClause)
+      .orderBy(persons.name)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
   /**
    * Finds persons by person type within a tenant
    */
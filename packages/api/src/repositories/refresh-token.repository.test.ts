@@ -6,6 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RefreshTokenRepository, generateRefreshToken, hashRefreshToken, type RefreshToken } from './refresh-token.repository.js';
 import * as baseRepository from './base.repository.js';
 import { refreshTokens } from '../db/schema/index.js';
+import type { UserId } from '@argus/shared';
 
 const mockExecutor = {
   insert: vi.fn(),
@@ -241,6 +242,57 @@ describe('RefreshTokenRepository', () => {
     });
   });
 
+  describe('revokeUserSession', () => {
+    it('should revoke the user session', async () => {
+      const result = await repository.revokeUserSession('user-1' as UserId, 'family-1');
+
+      expect(result).toBe(true);
+      expect(mockExecutor.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeOtherUserSessions', () => {
+    it('should count revoked sessions rather than tokens', async () => {
+      mockExecutor.update.mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            returning: vi.fn().mockResolvedValue([
+              { familyId: 'family-2' },
+              { familyId: 'family-2' },
+              { familyId: 'family-3' },
+            ]),
+          }),
+        }),
+      });
+
+      const result = await repository.revokeOtherUserSessions('user-1' as UserId, 'family-1');
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('getFamilyStartTimes', () => {
+    it('should map each family to its first token time', async () => {
+      const startedAt = new Date('2026-03-01T09:00:00Z');
+      mockExecutor.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            groupBy: vi.fn().mockResolvedValue([{ familyId: 'family-1', startedAt }]),
+          }),
+        }),
+      });
+
+      const result = await repository.getFamilyStartTimes(['family-1']);
+      expect(result.get('family-1')).toEqual(startedAt);
+    });
+
+    it('should not query without families', async () => {
+      const result = await repository.getFamilyStartTimes([]);
+
+      expect(result.size).toBe(0);
+      expect(mockExecutor.select).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getActiveSessions', () => {
     it('should get all active sessions for user', async () => {
       const result = await repository.getActiveSessions('user-1');
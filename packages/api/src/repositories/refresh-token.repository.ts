@@ -2,7 +2,7 @@
  * Refresh token repository for token rotation
  */
 
-import { eq, and, lt, isNull, sql } from 'drizzle-orm';
+import { eq, and, lt, ne, inArray, isNull, sql } from 'drizzle-orm';
 import {
   getExecutor,
   withTransaction,
@@ -201,6 +201,76 @@ export class RefreshTokenRepository {
     return result.length;
   }
 
+  /**
+   * Revokes one session (token family) of a user
+   * Returns false if the user has no such active session
+   */
+  async revokeUserSession(userId: UserId, familyId: string, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(refreshTokens)
+      .set({
+        isRevoked: true,
+        revokedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(refreshTokens.userId, userId),
+          eq(refreshTokens.familyId, familyId),
+          eq(refreshTokens.isRevoked, false)
+        )
+      )
+      .returning({ id: refreshTokens.id });
+    return result.length > 0;
+  }
+
+  /**
+   * Revokes every session of a user except one (sign out other devices)
+   */
+  async revokeOtherUserSessions(
+    userId: UserId,
+    keepFamilyId: string,
+    trx?: Transaction
+  ): Promise<number> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(refreshTokens)
+      .set({
+        isRevoked: true,
+        revokedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(refreshTokens.userId, userId),
+          ne(refreshTokens.familyId, keepFamilyId),
+          eq(refreshTokens.isRevoked, false)
+        )
+      )
+      .returning({ familyId: refreshTokens.familyId });
+    return new Set(result.map((row) => row.familyId)).size;
+  }
+
+  /**
+   * Gets when each token family was created (the first token's creation time)
+   */
+  async getFamilyStartTimes(
+    familyIds: string[],
+    trx?: Transaction
+  ): Promise<Map<string, Date>> {
+    if (familyIds.length === 0) return new Map();
+
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({
+        familyId: refreshTokens.familyId,
+        startedAt: sql<Date>`min(${refreshTokens.createdAt})`.mapWith(refreshTokens.createdAt),
+      })
+      .from(refreshTokens)
+      .where(inArray(refreshTokens.familyId, familyIds))
+      .groupBy(refreshTokens.familyId);
+    return new Map(result.map((row) => [row.familyId, row.startedAt]));
+  }
+
   /**
    * Gets all active sessions for a user
    */
@@ -0,0 +1,197 @@
+/**
+ * Relationship repository
+ * Provides data access for typed, time-bounded edges between assets, devices,
+ * spaces, persons and activities (entity_edges)
+ */
+
+import { eq, and, or, sql, inArray, isNull, lte, gt, lt } from 'drizzle-orm';
+import { getExecutor, withTransaction } from './base.repository.js';
+import {
+  entityEdges,
+  assets,
+  devices,
+  spaces,
+  persons,
+  activities,
+  type EntityEdge,
+  type NewEntityEdge,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { BaseType, OrganizationId, RelationshipDirection, RelationshipType } from '@argus/shared';
+
+export type { EntityEdge, NewEntityEdge };
+
+/** Which edges of a set of entities to load */
+export interface EdgeQuery {
+  entityIds: string[];
+  direction: RelationshipDirection;
+  relationshipTypes?: RelationshipType[];
+  /** Only edges valid at this time; all edges when omitted */
+  asOf?: Date;
+}
+
+/** An entity of one of the base type tables */
+export interface EntitySummary {
+  id: string;
+  name: string;
+}
+
+/** Base type tables edges can point into */
+const ENTITY_TABLES = {
+  Asset: assets,
+  Device: devices,
+  Space: spaces,
+  Person: persons,
+  Activity: activities,
+} as const;
+
+export class RelationshipRepository {
+  /**
+   * Creates a new edge
+   */
+  async create(data: NewEntityEdge, trx?: Transaction): Promise<EntityEdge> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(entityEdges).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds an edge by ID within a tenant
+   */
+  async findById(id: string, tenantId: OrganizationId, trx?: Transaction): Promise<EntityEdge | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(entityEdges)
+      .where(and(eq(entityEdges.id, id), eq(entityEdges.tenantId, tenantId)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Updates an edge's metadata or validity within a tenant
+   */
+  async update(
+    id: string,
+    tenantId: OrganizationId,
+    data: Partial<Pick<NewEntityEdge, 'metadata' | 'validFrom' | 'validUntil'>>,
+    trx?: Transaction
+  ): Promise<EntityEdge | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(entityEdges)
+      .set(data)
+      .where(and(eq(entityEdges.id, id), eq(entityEdges.tenantId, tenantId)))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Deletes an edge within a tenant
+   */
+  async delete(id: string, tenantId: OrganizationId, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .delete(entityEdges)
+      .where(and(eq(entityEdges.id, id), eq(entityEdges.tenantId, tenantId)))
+      .returning({ id: entityEdges.id });
+    return result.length > 0;
+  }
+
+  /**
+   * Finds the edges leaving and/or entering any of the given entities
+   */
+  async findEdges(tenantId: OrganizationId, query: EdgeQuery, trx?: Transaction): Promise<EntityEdge[]> {
+    if (query.entityIds.length === 0) return [];
+    const executor = getExecutor(trx);
+
+    const outgoing = inArray(entityEdges.sourceEntityId, query.entityIds);
+    const incoming = inArray(entityEdges.targetEntityId, query.entityIds);
+    const direction =
+      query.direction === 'outgoing' ? outgoing : query.direction === 'incoming' ? incoming : or(outgoing, incoming);
+
+    return executor
+      .select()
+      .from(entityEdges)
+      .where(
+        and(
+          eq(entityEdges.tenantId, tenantId),
+          direction,
+          query.relationshipTypes?.length ? inArray(entityEdges.relationshipType, query.relationshipTypes) : undefined,
+          query.asOf
+            ? and(
+                or(isNull(entityEdges.validFrom), lte(entityEdges.validFrom, query.asOf)),
+                or(isNull(entityEdges.validUntil), gt(entityEdges.validUntil, query.asOf))
+              )
+            : undefined
+        )
+      )
+      .orderBy(entityEdges.createdAt);
+  }
+
+  /**
+   * Finds an edge of the given type leaving the source whose validity
+   * overlaps [validFrom, validUntil) (null bounds are open-ended)
+   */
+  async findOverlapping(
+    tenantId: OrganizationId,
+    sourceEntityId: string,
+    relationshipType: RelationshipType,
+    validFrom: Date | null,
+    validUntil: Date | null,
+    excludeId?: string,
+    trx?: Transaction
+  ): Promise<EntityEdge | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(entityEdges)
+      .where(
+        and(
+          eq(entityEdges.tenantId, tenantId),
+          eq(entityEdges.sourceEntityId, sourceEntityId),
+          eq(entityEdges.relationshipType, relationshipType),
+          excludeId ? sql`${entityEdges.id} <> ${excludeId}` : undefined,
+          validUntil ? or(isNull(entityEdges.validFrom), lt(entityEdges.validFrom, validUntil)) : undefined,
+          validFrom ? or(isNull(entityEdges.validUntil), gt(entityEdges.validUntil, validFrom)) : undefined
+        )
+      )
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds entities of a base type within a tenant, skipping deleted ones
+   */
+  async findEntities(
+    tenantId: OrganizationId,
+    baseType: BaseType,
+    ids: string[],
+    trx?: Transaction
+  ): Promise<EntitySummary[]> {
+    if (ids.length === 0) return [];
+    const executor = getExecutor(trx);
+    const table = ENTITY_TABLES[baseType];
+    return executor
+      .select({ id: table.id, name: table.name })
+      .from(table)
+      .where(and(eq(table.organizationId, tenantId), inArray(table.id, ids), isNull(table.deletedAt)));
+  }
+
+  /**
+   * Executes operations within a transaction
+   */
+  async withTransaction<T>(fn: (trx: Transaction) => Promise<T>): Promise<T> {
+    return withTransaction(fn);
+  }
+}
+
+// Singleton instance
+let relationshipRepository: RelationshipRepository | null = null;
+
+export function getRelationshipRepository(): RelationshipRepository {
+  if (!relationshipRepository) {
+    relationshipRepository = new RelationshipRepository();
+  }
+  return relationshipRepository;
+}
@@ -42,6 +42,17 @@ export interface UserRoleAssignmentWithRole {
   expiresAt: Date | null;
 }
 
+/** A role that applies to a user in an organization (see findEffectiveGrants) */
+export interface EffectiveRoleGrant {
+  roleId: string;
+  roleName: string;
+  permissions: RolePermissions | null;
+  source: RoleSource | 'membership';
+  /** Organization the role is assigned in */
+  organizationId: string;
+  scope: RoleScope;
+}
+
 export class RoleRepository {
   /**
    * Creates a new role
@@ -372,6 +383,86 @@ export class RoleRepository {
     return result;
   }
 
+  // ===========================================
+  // Permission Evaluation
+  // ===========================================
+
+  /**
+   * Finds every role that applies to a user in an organization:
+   * - the system role matching each organization membership role (owner → Owner, ...)
+   * - direct role assignments
+   * - roles assigned to the user's groups
+   *
+   * An assignment in organization A applies to organization C when A = C, or
+   * with scope 'children' when C is a descendant of A, or with scope 'tree'
+   * when A and C share a root. Membership roles are limited to 'children' so
+   * an owner of a child organization gains nothing over its parent.
+   * Expired memberships and assignments are ignored.
+   */
+  async findEffectiveGrants(
+    userId: UserId,
+    organizationId: OrganizationId,
+    trx?: Transaction
+  ): Promise<EffectiveRoleGrant[]> {
+    const executor = getExecutor(trx);
+    const rows = await executor.execute(sql`
+      WITH target AS (
+        SELECT id, path, COALESCE(root_organization_id, id) AS root_id
+        FROM organizations
+        WHERE id = ${organizationId}
+      ),
+      grants AS (
+        SELECT r.id AS role_id, r.name AS role_name, r.permissions, 'membership' AS source,
+               uo.organization_id,
+               CASE WHEN r.default_scope = 'tree' THEN 'children' ELSE r.default_scope::text END AS scope
+        FROM user_organizations uo
+        JOIN roles r ON r.is_system AND r.organization_id IS NULL AND lower(r.name) = uo.role::text
+        WHERE uo.user_id = ${userId}
+          AND (uo.expires_at IS NULL OR uo.expires_at > NOW())
+        UNION ALL
+        SELECT r.id, r.name, r.permissions, ura.source::text, ura.organization_id,
+               COALESCE(ura.scope, r.default_scope)::text
+        FROM user_role_assignments ura
+        JOIN roles r ON r.id = ura.role_id
+        WHERE ura.user_id = ${userId}
+          AND (ura.expires_at IS NULL OR ura.expires_at > NOW())
+        UNION ALL
+        SELECT r.id, r.name, r.permissions, 'group', g.organization_id,
+               COALESCE(gra.scope, r.default_scope)::text
+        FROM user_group_memberships m
+        JOIN user_groups g ON g.id = m.group_id
+        JOIN group_role_assignments gra ON gra.group_id = g.id
+        JOIN roles r ON r.id = gra.role_id
+        WHERE m.user_id = ${userId}
+      )
+      SELECT g.role_id, g.role_name, g.permissions, g.source, g.organization_id, g.scope
+      FROM grants g
+      JOIN organizations o ON o.id = g.organization_id
+      CROSS JOIN target t
+      WHERE o.id = t.id
+         OR (g.scope = 'children' AND t.path <@ o.path)
+         OR (g.scope = 'tree' AND COALESCE(o.root_organization_id, o.id) = t.root_id)
+    `);
+
+    return (
+      rows as unknown as Array<{
+        role_id: string;
+        role_name: string;
+        permissions: RolePermissions | null;
+        source: EffectiveRoleGrant['source'];
+        organization_id: string;
+        scope: RoleScope;
+      }>
+    ).map((row) => ({
+      roleId: row.role_id,
+      roleName: row.role_name,
+      permissions: row.permissions,
+      source: row.source,
+      organizationId: row.organization_id,
+      scope: row.scope,
+    }));
+  }
+
   /**
    * Executes operations within a transaction
    */
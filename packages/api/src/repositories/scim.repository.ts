@@ -0,0 +1,312 @@
+/**
+ * SCIM repository
+ * Data access for SCIM provisioning: token lookup, an organization's users
+ * with their SCIM externalId, group memberships and SSO-provisioned roles
+ */
+
+import { eq, and, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import {
+  identityProviders,
+  roles,
+  userGroupMemberships,
+  userGroups,
+  userIdentities,
+  userOrganizations,
+  userRoleAssignments,
+  users,
+} from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { OrganizationId, UserId } from '@argus/shared';
+import crypto from 'crypto';
+import type { IdentityProvider } from './identity-provider.repository.js';
+import type { UserGroup } from './group.repository.js';
+import type { User } from './user.repository.js';
+
+/** Every SCIM token starts with this marker */
+export const SCIM_TOKEN_MARKER = 'scim_';
+
+/**
+ * Generates a new SCIM bearer token
+ */
+export function generateScimToken(): string {
+  return `${SCIM_TOKEN_MARKER}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Hashes a SCIM token for storage and lookup
+ */
+export function hashScimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Condition matching users with a provisioned identity link to a provider.
+ * Users provisioned without an externalId are linked under their own ID.
+ */
+function provisionedBy(providerId: string) {
+  return and(
+    eq(userIdentities.userId, users.id),
+    eq(userIdentities.providerId, providerId),
+    isNotNull(userIdentities.provisionedAt)
+  );
+}
+
+/** Organization member with the SCIM externalId set by the provider */
+export interface ScimUserRecord {
+  user: User;
+  externalId: string | null;
+}
+
+/** Group membership row */
+export interface ScimGroupMembership {
+  groupId: string;
+  groupName: string;
+  userId: string;
+  email: string;
+}
+
+/** SSO-provisioned role assignment row */
+export interface ScimRoleAssignment {
+  userId: string;
+  roleName: string;
+}
+
+export class ScimRepository {
+  /**
+   * Finds the identity provider owning a SCIM token hash
+   */
+  async findProviderByTokenHash(tokenHash: string, trx?: Transaction): Promise<IdentityProvider | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(identityProviders)
+      .where(eq(identityProviders.scimTokenHash, tokenHash))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Lists the organization's members provisioned by a provider (excluding
+   * deleted users), oldest member first
+   */
+  async listUsers(
+    organizationId: OrganizationId,
+    providerId: string,
+    userId?: UserId,
+    trx?: Transaction
+  ): Promise<ScimUserRecord[]> {
+    const executor = getExecutor(trx);
+    const conditions = [eq(userOrganizations.organizationId, organizationId), isNull(users.deletedAt)];
+    if (userId) {
+      conditions.push(eq(users.id, userId));
+    }
+
+    return executor
+      .select({
+        user: users,
+        externalId: sql<string | null>`NULLIF(${userIdentities.externalId}, ${users.id}::text)`,
+      })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .innerJoin(userIdentities, provisionedBy(providerId))
+      .where(and(...conditions))
+      .orderBy(userOrganizations.joinedAt, users.id);
+  }
+
+  /**
+   * Finds a member of an organization provisioned by a provider
+   */
+  async findUser(
+    organizationId: OrganizationId,
+    providerId: string,
+    userId: UserId,
+    trx?: Transaction
+  ): Promise<ScimUserRecord | null> {
+    const result = await this.listUsers(organizationId, providerId, userId, trx);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds a user by email within a root organization, including deleted users
+   */
+  async findUserByEmail(rootOrganizationId: OrganizationId, email: string, trx?: Transaction): Promise<User | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(users)
+      .where(and(eq(users.rootOrganizationId, rootOrganizationId), eq(users.email, email.toLowerCase())))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Whether a user has any identity link (sign-in or provisioned) to a provider
+   */
+  async hasIdentity(providerId: string, userId: UserId, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ id: userIdentities.id })
+      .from(userIdentities)
+      .where(and(eq(userIdentities.providerId, providerId), eq(userIdentities.userId, userId)))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  /**
+   * Finds the user linked to an external ID of a provider
+   */
+  async findUserIdByExternalId(providerId: string, externalId: string, trx?: Transaction): Promise<string | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(and(eq(userIdentities.providerId, providerId), eq(userIdentities.externalId, externalId)))
+      .limit(1);
+    return result[0]?.userId ?? null;
+  }
+
+  /**
+   * Sets the SCIM externalId of a user's provisioned link, creating the link
+   * if needed; without an externalId the link uses the user's ID.
+   * A sign-in link with the same external ID is adopted rather than duplicated.
+   */
+  async setExternalId(
+    providerId: string,
+    userId: UserId,
+    scimExternalId: string | null,
+    email: string,
+    trx?: Transaction
+  ): Promise<void> {
+    const executor = getExecutor(trx);
+    const externalId = scimExternalId ?? userId;
+    const provisioned = and(
+      eq(userIdentities.providerId, providerId),
+      eq(userIdentities.userId, userId),
+      isNotNull(userIdentities.provisionedAt)
+    );
+
+    const existing = await executor
+      .select({ id: userIdentities.id, externalId: userIdentities.externalId })
+      .from(userIdentities)
+      .where(provisioned)
+      .limit(1);
+    if (existing[0]?.externalId === externalId) {
+      return;
+    }
+    if (existing[0]) {
+      await executor.delete(userIdentities).where(eq(userIdentities.id, existing[0].id));
+    }
+
+    await executor
+      .insert(userIdentities)
+      .values({ userId, providerId, externalId, email, provisionedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [userIdentities.providerId, userIdentities.externalId],
+        set: { provisionedAt: new Date(), updatedAt: new Date() },
+      });
+  }
+
+  /**
+   * Lists an organization's groups by name
+   */
+  async listGroups(organizationId: OrganizationId, trx?: Transaction): Promise<UserGroup[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(userGroups)
+      .where(eq(userGroups.organizationId, organizationId))
+      .orderBy(userGroups.name);
+  }
+
+  /**
+   * Group memberships of a provider's provisioned users within an
+   * organization, optionally for one user or group
+   */
+  async findGroupMemberships(
+    organizationId: OrganizationId,
+    providerId: string,
+    filter: { userId?: UserId; groupId?: string } = {},
+    trx?: Transaction
+  ): Promise<ScimGroupMembership[]> {
+    const executor = getExecutor(trx);
+    const conditions = [eq(userGroups.organizationId, organizationId)];
+    if (filter.userId) {
+      conditions.push(eq(userGroupMemberships.userId, filter.userId));
+    }
+    if (filter.groupId) {
+      conditions.push(eq(userGroupMemberships.groupId, filter.groupId));
+    }
+
+    return executor
+      .select({
+        groupId: userGroupMemberships.groupId,
+        groupName: userGroups.name,
+        userId: userGroupMemberships.userId,
+        email: users.email,
+      })
+      .from(userGroupMemberships)
+      .innerJoin(userGroups, eq(userGroupMemberships.groupId, userGroups.id))
+      .innerJoin(users, eq(userGroupMemberships.userId, users.id))
+      .innerJoin(userIdentities, provisionedBy(providerId))
+      .where(and(...conditions))
+      .orderBy(users.email);
+  }
+
+  /**
+   * SSO-provisioned role assignments within an organization, optionally for one user
+   */
+  async findSsoRoleAssignments(
+    organizationId: OrganizationId,
+    userId?: UserId,
+    trx?: Transaction
+  ): Promise<ScimRoleAssignment[]> {
+    const executor = getExecutor(trx);
+    const conditions = [
+      eq(userRoleAssignments.organizationId, organizationId),
+      eq(userRoleAssignments.source, 'sso'),
+    ];
+    if (userId) {
+      conditions.push(eq(userRoleAssignments.userId, userId));
+    }
+
+    return executor
+      .select({ userId: userRoleAssignments.userId, roleName: roles.name })
+      .from(userRoleAssignments)
+      .innerJoin(roles, eq(userRoleAssignments.roleId, roles.id))
+      .where(and(...conditions))
+      .orderBy(roles.name);
+  }
+
+  /**
+   * Which of the given users are members of an organization provisioned by a provider
+   */
+  async findMemberIds(
+    organizationId: OrganizationId,
+    providerId: string,
+    userIds: string[],
+    trx?: Transaction
+  ): Promise<Set<string>> {
+    if (userIds.length === 0) {
+      return new Set();
+    }
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ userId: userOrganizations.userId })
+      .from(userOrganizations)
+      .innerJoin(users, eq(userOrganizations.userId, users.id))
+      .innerJoin(userIdentities, provisionedBy(providerId))
+      .where(and(eq(userOrganizations.organizationId, organizationId), inArray(userOrganizations.userId, userIds)));
+    return new Set(result.map((row) => row.userId));
+  }
+}
+
+// Singleton instance
+let scimRepository: ScimRepository | null = null;
+
+export function getScimRepository(): ScimRepository {
+  if (!scimRepository) {
+    scimRepository = new ScimRepository();
+  }
+  return scimRepository;
+}
@@ -12,6 +12,7 @@ import {
   getPageSize,
   getExecutor,
   withTransaction,
+  customAttributeConditions,
 } from './base.repository.js';
 import { spaces, spaceTypes } from '../db/schema/index.js';
 import { Transaction } from '../db/index.js';
@@ -99,6 +100,46 @@ export class SpaceRepository {
     return buildPaginatedResult(data, totalCount, options);
   }
 
+  /**
+   * Finds spaces by custom attribute values within a tenant, optionally of
+   * one space type
+   */
+  async findByAttributes(
+    organizationId: OrganizationId,
+    attributes: Record<string, string>,
+    options?: PaginationOptions & { spaceTypeId?: string },
+    trx?: Transaction
+  ): Promise<PaginatedResult<Space>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const whereClause = and(
+      eq(spaces.organizationId, organizationId),
+      options?.spaceTypeId ? eq(spaces.spaceTypeId, options.spaceTypeId) : undefined,
+      isNull(spaces.deletedAt),
+      ...customAttributeConditions(spaces.customAttributes, attributes)
+    );
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(spaces)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(spaces)
+      .where(whereClause)
+      .orderBy(spaces.name)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
   /**
    * Finds spaces by space type within a tenant
    */
@@ -0,0 +1,153 @@
+/**
+ * SSO mapping repository for data access
+ * Manages identity provider mapping rules and the grants they created
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import { getExecutor, withTransaction } from './base.repository.js';
+import { ssoMappingRules, ssoMappingGrants } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import { type UserId } from '@argus/shared';
+
+// Infer types from Drizzle schema
+export type SsoMappingRule = typeof ssoMappingRules.$inferSelect;
+export type NewSsoMappingRule = typeof ssoMappingRules.$inferInsert;
+export type SsoMappingGrant = typeof ssoMappingGrants.$inferSelect;
+export type NewSsoMappingGrant = typeof ssoMappingGrants.$inferInsert;
+
+export class SsoMappingRepository {
+  /**
+   * Creates a new mapping rule
+   */
+  async create(data: NewSsoMappingRule, trx?: Transaction): Promise<SsoMappingRule> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(ssoMappingRules).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds a mapping rule by ID
+   */
+  async findById(id: string, trx?: Transaction): Promise<SsoMappingRule | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(ssoMappingRules)
+      .where(eq(ssoMappingRules.id, id))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds a provider's mapping rules in creation order
+   */
+  async findByProvider(
+    providerId: string,
+    options?: { enabledOnly?: boolean },
+    trx?: Transaction
+  ): Promise<SsoMappingRule[]> {
+    const executor = getExecutor(trx);
+    const conditions = [eq(ssoMappingRules.providerId, providerId)];
+    if (options?.enabledOnly) {
+      conditions.push(eq(ssoMappingRules.enabled, true));
+    }
+    return executor
+      .select()
+      .from(ssoMappingRules)
+      .where(and(...conditions))
+      .orderBy(asc(ssoMappingRules.createdAt));
+  }
+
+  /**
+   * Updates a mapping rule by ID
+   */
+  async update(
+    id: string,
+    data: Partial<Omit<NewSsoMappingRule, 'id' | 'providerId' | 'createdAt'>>,
+    trx?: Transaction
+  ): Promise<SsoMappingRule | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(ssoMappingRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(ssoMappingRules.id, id))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Deletes a mapping rule by ID
+   * Its grants are removed at the user's next login
+   */
+  async delete(id: string, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .delete(ssoMappingRules)
+      .where(eq(ssoMappingRules.id, id))
+      .returning({ id: ssoMappingRules.id });
+    return result.length > 0;
+  }
+
+  // ===========================================
+  // Grants
+  // ===========================================
+
+  /**
+   * Gets what a provider's mapping rules have granted a user
+   */
+  async findGrants(userId: UserId, providerId: string, trx?: Transaction): Promise<SsoMappingGrant[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(ssoMappingGrants)
+      .where(and(eq(ssoMappingGrants.userId, userId), eq(ssoMappingGrants.providerId, providerId)));
+  }
+
+  /**
+   * Records a membership, group membership or role created by mapping rules
+   */
+  async addGrant(data: NewSsoMappingGrant, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor.insert(ssoMappingGrants).values(data).onConflictDoNothing();
+  }
+
+  /**
+   * Forgets a grant (after the access itself was removed)
+   */
+  async removeGrant(
+    grant: Pick<SsoMappingGrant, 'userId' | 'providerId' | 'kind' | 'organizationId' | 'targetId'>,
+    trx?: Transaction
+  ): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .delete(ssoMappingGrants)
+      .where(
+        and(
+          eq(ssoMappingGrants.userId, grant.userId),
+          eq(ssoMappingGrants.providerId, grant.providerId),
+          eq(ssoMappingGrants.kind, grant.kind),
+          eq(ssoMappingGrants.organizationId, grant.organizationId),
+          eq(ssoMappingGrants.targetId, grant.targetId)
+        )
+      )
+      .returning({ userId: ssoMappingGrants.userId });
+    return result.length > 0;
+  }
+
+  /**
+   * Executes operations within a transaction
+   */
+  async withTransaction<T>(fn: (trx: Transaction) => Promise<T>): Promise<T> {
+    return withTransaction(fn);
+  }
+}
+
+// Singleton instance
+let ssoMappingRepository: SsoMappingRepository | null = null;
+
+export function getSsoMappingRepository(): SsoMappingRepository {
+  if (!ssoMappingRepository) {
+    ssoMappingRepository = new SsoMappingRepository();
+  }
+  return ssoMappingRepository;
+}
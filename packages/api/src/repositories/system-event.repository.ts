@@ -0,0 +1,49 @@
+/**
+ * System event repository
+ * Appends events to the system_events log consumed by event subscribers
+ */
+
+import { and, eq, desc } from 'drizzle-orm';
+import { getExecutor } from './base.repository.js';
+import { systemEvents, type SystemEvent, type NewSystemEvent } from '../db/schema/index.js';
+import { Transaction } from '../db/index.js';
+import type { OrganizationId } from '@argus/shared';
+
+export class SystemEventRepository {
+  /**
+   * Appends an event
+   */
+  async create(data: NewSystemEvent, trx?: Transaction): Promise<SystemEvent> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(systemEvents).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds the most recent events for an entity within a tenant
+   */
+  async findByEntity(
+    tenantId: OrganizationId,
+    entityId: string,
+    limit = 50,
+    trx?: Transaction
+  ): Promise<SystemEvent[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(systemEvents)
+      .where(and(eq(systemEvents.tenantId, tenantId), eq(systemEvents.entityId, entityId)))
+      .orderBy(desc(systemEvents.createdAt))
+      .limit(limit);
+  }
+}
+
+// Singleton instance
+let systemEventRepository: SystemEventRepository | null = null;
+
+export function getSystemEventRepository(): SystemEventRepository {
+  if (!systemEventRepository) {
+    systemEventRepository = new SystemEventRepository();
+  }
+  return systemEventRepository;
+}
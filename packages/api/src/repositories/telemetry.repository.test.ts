@@ -0,0 +1,148 @@
+/**
+ * Unit tests for TelemetryRepository
+ * Tests device lookup, duplicate detection and transactional ingestion
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TelemetryRepository, type IngestionBatch } from './telemetry.repository.js';
+
+// Mock the database
+const mockExecutor = {
+  insert: vi.fn(),
+  select: vi.fn(),
+  update: vi.fn(),
+  execute: vi.fn(),
+};
+
+// Mock the base repository utilities
+vi.mock('./base.repository.js', async () => {
+  const actual = await vi.importActual('./base.repository.js');
+  return {
+    ...actual,
+    getExecutor: vi.fn(() => mockExecutor),
+    withTransaction: vi.fn((fn) => fn(mockExecutor)),
+  };
+});
+
+function createBatch(overrides?: Partial<IngestionBatch>): IngestionBatch {
+  return {
+    tenantId: 'org-1',
+    deviceId: 'device-1',
+    observedAt: new Date('2026-03-01T12:00:00Z'),
+    raw: { payload: { temperature: 21 } },
+    history: [
+      {
+        entityId: 'device-1',
+        entityType: 'device',
+        metricKey: 'temperature',
+        value: '21',
+        timestamp: new Date('2026-03-01T12:00:00Z'),
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('TelemetryRepository', () => {
+  let repository: TelemetryRepository;
+  let insertValues: ReturnType<typeof vi.fn>;
+  let updateSet: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new TelemetryRepository();
+
+    insertValues = vi.fn().mockReturnValue({
+      returning: vi.fn().mockResolvedValue([{ id: 'raw-1' }]),
+    });
+    mockExecutor.insert.mockReturnValue({ values: insertValues });
+
+    updateSet = vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([{ id: 'asset-1', assetTypeId: 'asset-type-1' }]),
+      }),
+    });
+    mockExecutor.update.mockReturnValue({ set: updateSet });
+
+    mockExecutor.select.mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          limit: vi.fn().mockResolvedValue([
+            { id: 'device-1', organizationId: 'org-1', deviceTypeId: 'type-1', status: 'active' },
+          ]),
+        }),
+      }),
+    });
+
+    mockExecutor.execute.mockResolvedValue(undefined);
+  });
+
+  describe('findIngestionDevice', () => {
+    it('should return the device with its organization', async () => {
+      const result = await repository.findIngestionDevice('device-1');
+      expect(result).toEqual({
+        id: 'device-1',
+        organizationId: 'org-1',
+        deviceTypeId: 'type-1',
+        status: 'active',
+      });
+    });
+
+    it('should return null when device does not exist', async () => {
+      mockExecutor.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([]),
+          }),
+        }),
+      });
+
+      const result = await repository.findIngestionDevice('missing');
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('hasSourceMessage', () => {
+    it('should return true when history rows exist for the message', async () => {
+      expect(await repository.hasSourceMessage('TELEMETRY:42')).toBe(true);
+    });
+  });
+
+  describe('ingest', () => {
+    it('should set tenant context and write raw and history rows', async () => {
+      const result = await repository.ingest(createBatch());
+
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockExecutor.insert).toHaveBeenCalledTimes(2);
+      expect(insertValues.mock.calls[0][0]).toMatchObject({
+        tenantId: 'org-1',
+        deviceId: 'device-1',
+        payload: { temperature: 21 },
+      });
+      expect(insertValues.mock.calls[1][0]).toEqual([
+        expect.objectContaining({ tenantId: 'org-1', metricKey: 'temperature' }),
+      ]);
+      expect(result).toEqual({
+        rawId: 'raw-1',
+        historyCount: 1,
+        assetsUpdated: 1,
+        assets: [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      });
+    });
+
+    it('should update device last seen and monitored assets', async () => {
+      await repository.ingest(createBatch());
+
+      expect(mockExecutor.update).toHaveBeenCalledTimes(2);
+      expect(updateSet.mock.calls[0][0]).toHaveProperty('lastSeenAt');
+      expect(updateSet.mock.calls[1][0]).toHaveProperty('lastTelemetryAt');
+    });
+
+    it('should skip the history insert when there are no metrics', async () => {
+      const result = await repository.ingest(createBatch({ history: [] }));
+
+      expect(mockExecutor.insert).toHaveBeenCalledTimes(1);
+      expect(result.historyCount).toBe(0);
+    });
+  });
+});
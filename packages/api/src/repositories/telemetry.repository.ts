@@ -0,0 +1,715 @@
+/**
+ * Telemetry repository for the ingestion pipeline and telemetry queries
+ * Persists raw messages and per-metric history rows, keeps the device/asset
+ * "last seen" timestamps current, tracks gateway fan-out in
+ * telemetry_transactions, buffers chunked messages in telemetry_chunks,
+ * stores computed asset metrics, and reads history back for the API
+ */
+
+import { eq, and, or, sql, isNull, isNotNull, inArray, gt, gte, lte, asc, desc } from 'drizzle-orm';
+import { getExecutor, withTransaction } from './base.repository.js';
+import {
+  devices,
+  assets,
+  assetTypes,
+  entityEdges,
+  telemetryRaw,
+  telemetryTransactions,
+  telemetryChunks,
+  type NewTelemetryRaw,
+  type TelemetryChunk,
+  type NewTelemetryChunk,
+} from '../db/schema/index.js';
+// Imported directly: the schema index also re-exports the legacy telemetry.ts table
+import {
+  telemetryHistory,
+  type TelemetryHistory,
+  type NewTelemetryHistory,
+} from '../db/schema/telemetry-history.js';
+import { Transaction } from '../db/index.js';
+
+/** Device data required to attribute an incoming message */
+export interface IngestionDevice {
+  id: string;
+  organizationId: string;
+  deviceTypeId: string;
+  status: string;
+  deviceRole: string;
+}
+
+/** A single decoded message ready to be written in one transaction */
+export interface IngestionBatch {
+  tenantId: string;
+  deviceId: string;
+  raw: Omit<NewTelemetryRaw, 'tenantId' | 'deviceId'>;
+  history: Omit<NewTelemetryHistory, 'tenantId'>[];
+  /** Timestamp used for last_seen_at / last_telemetry_at */
+  observedAt: Date;
+}
+
+/** Asset monitored by the ingesting device */
+export interface MonitoredAsset {
+  id: string;
+  assetTypeId: string;
+}
+
+/** Binding of the ingesting device to an asset, for telemetry attribution */
+export interface AssetBinding {
+  /** ID of the asset -MONITORED_BY-> device edge */
+  bindingId: string;
+  assetId: string;
+  /** Edge metadata (metricMappings) */
+  metadata: unknown;
+  /** The asset type's metric_definitions */
+  metricDefinitions: unknown;
+}
+
+export interface IngestionResult {
+  rawId: string;
+  historyCount: number;
+  assetsUpdated: number;
+  /** Assets whose last_telemetry_at was touched, for downstream evaluation */
+  assets: MonitoredAsset[];
+}
+
+/** An asset with the computation settings of its type */
+export interface ComputationTarget {
+  id: string;
+  tenantId: string;
+  assetTypeId: string;
+  parentAssetId: string | null;
+  metricDefinitions: unknown;
+  transformationEngine: unknown;
+  aggregationRules: unknown;
+  telemetryConfigVersion: string | null;
+}
+
+/** telemetry_transactions.status values */
+export type TelemetryTransactionStatus = 'pending' | 'processing' | 'completed' | 'partial' | 'failed';
+
+/** History for one child device of a gateway message */
+export interface GatewayChildBatch {
+  deviceId: string;
+  observedAt: Date;
+  history: Omit<NewTelemetryHistory, 'tenantId'>[];
+}
+
+/** A demultiplexed gateway message written in one transaction */
+export interface GatewayIngestionBatch {
+  tenantId: string;
+  gatewayDeviceId: string;
+  transactionId: string;
+  /** Logical devices found in the message, including unresolved ones */
+  totalLogicalDevices: number;
+  raw: Omit<NewTelemetryRaw, 'tenantId' | 'deviceId'>;
+  /** Gateway-level readings (e.g. the gateway's own battery) */
+  history: Omit<NewTelemetryHistory, 'tenantId'>[];
+  observedAt: Date;
+  children: GatewayChildBatch[];
+}
+
+export interface GatewayIngestionResult {
+  rawId: string;
+  historyCount: number;
+  status: TelemetryTransactionStatus;
+  /** Assets monitored by each child, for downstream evaluation */
+  children: Array<{ deviceId: string; assets: MonitoredAsset[] }>;
+}
+
+export interface StoredChunkResult {
+  /** False when the chunk had already been stored (redelivery or resend) */
+  stored: boolean;
+  /** Every chunk received so far for the correlation ID, in sequence order */
+  chunks: TelemetryChunk[];
+}
+
+/** An incomplete chunk set dropped after its expiry */
+export interface ExpiredChunkSet {
+  tenantId: string;
+  deviceId: string;
+  correlationId: string;
+  totalChunks: number;
+  sequenceNumbers: number[];
+}
+
+/** Bucket widths supported by aggregate queries */
+export type TelemetryBucketInterval = '1m' | '5m' | '1h' | '1d';
+
+/** Aggregate functions supported by aggregate queries */
+export type TelemetryAggregateFunction = 'avg' | 'min' | 'max' | 'sum' | 'count' | 'last';
+
+/** Position after which a range query continues */
+export interface TelemetryRangeCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface TelemetryBucketRow {
+  bucket: Date;
+  value: number | null;
+  count: number;
+}
+
+// Fixed SQL fragments so GROUP BY matches the selected expression exactly
+const BUCKET_INTERVALS: Record<TelemetryBucketInterval, string> = {
+  '1m': '1 minute',
+  '5m': '5 minutes',
+  '1h': '1 hour',
+  '1d': '1 day',
+};
+
+const AGGREGATE_EXPRESSIONS: Record<TelemetryAggregateFunction, string> = {
+  avg: 'avg(value)',
+  min: 'min(value)',
+  max: 'max(value)',
+  sum: 'sum(value)',
+  count: 'count(value)',
+  last: '(array_agg(value ORDER BY timestamp DESC))[1]',
+};
+
+export class TelemetryRepository {
+  /**
+   * Finds a device by ID regardless of tenant
+   * Used by background workers that run outside of a request context
+   */
+  async findIngestionDevice(
+    deviceId: string,
+    trx?: Transaction
+  ): Promise<IngestionDevice | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({
+        id: devices.id,
+        organizationId: devices.organizationId,
+        deviceTypeId: devices.deviceTypeId,
+        status: devices.status,
+        deviceRole: devices.deviceRole,
+      })
+      .from(devices)
+      .where(and(eq(devices.id, deviceId), isNull(devices.deletedAt)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Checks whether a message has already been ingested
+   * Used to make redelivered JetStream messages idempotent
+   */
+  async hasSourceMessage(
+    sourceMessageId: string,
+    trx?: Transaction
+  ): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select({ count: sql<number>`1` })
+      .from(telemetryRaw)
+      .where(eq(telemetryRaw.sourceMessageId, sourceMessageId))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  /**
+   * Writes a raw message, its history rows and the last-seen timestamps
+   * atomically. Nothing is visible until the transaction commits.
+   */
+  async ingest(batch: IngestionBatch): Promise<IngestionResult> {
+    return withTransaction(async (trx) => {
+      // Tenant context for the telemetry RLS policies
+      await trx.execute(
+        sql`SELECT set_config('app.current_tenant_id', ${batch.tenantId}, true)`
+      );
+
+      const [raw] = await trx
+        .insert(telemetryRaw)
+        .values({ ...batch.raw, tenantId: batch.tenantId, deviceId: batch.deviceId })
+        .returning({ id: telemetryRaw.id });
+
+      if (batch.history.length > 0) {
+        await trx
+          .insert(telemetryHistory)
+          .values(batch.history.map((row) => ({ ...row, tenantId: batch.tenantId })));
+      }
+
+      await this.touchDevice(batch.deviceId, batch.observedAt, trx);
+
+      const monitoredAssets = await this.touchMonitoredAssets(
+        batch.deviceId,
+        batch.observedAt,
+        trx
+      );
+
+      return {
+        rawId: raw.id,
+        historyCount: batch.history.length,
+        assetsUpdated: monitoredAssets.length,
+        assets: monitoredAssets,
+      };
+    });
+  }
+
+  /**
+   * Starts (or restarts, on redelivery) tracking of a gateway message
+   * fanning out to logical devices
+   */
+  async beginTransaction(
+    tenantId: string,
+    correlationId: string,
+    gatewayDeviceId: string,
+    totalLogicalDevices: number,
+    metadata: Record<string, unknown> = {}
+  ): Promise<string> {
+    return this.withTenant(tenantId, async (trx) => {
+      const values = {
+        status: 'pending' as const,
+        totalLogicalDevices,
+        processedDevices: 0,
+        startedAt: new Date(),
+        completedAt: null,
+        errorMessage: null,
+        metadata,
+      };
+      const [row] = await trx
+        .insert(telemetryTransactions)
+        .values({ ...values, tenantId, correlationId, gatewayDeviceId })
+        .onConflictDoUpdate({ target: telemetryTransactions.correlationId, set: values })
+        .returning({ id: telemetryTransactions.id });
+      return row.id;
+    });
+  }
+
+  /**
+   * Marks a gateway transaction as failed
+   */
+  async failTransaction(tenantId: string, transactionId: string, errorMessage: string): Promise<void> {
+    await this.withTenant(tenantId, (trx) =>
+      trx
+        .update(telemetryTransactions)
+        .set({ status: 'failed', errorMessage, completedAt: new Date() })
+        .where(eq(telemetryTransactions.id, transactionId))
+    );
+  }
+
+  /**
+   * Writes a demultiplexed gateway message atomically: the raw message,
+   * gateway and per-child history, last-seen timestamps and the final
+   * transaction status (completed / partial / failed)
+   */
+  async ingestGateway(batch: GatewayIngestionBatch): Promise<GatewayIngestionResult> {
+    return withTransaction(async (trx) => {
+      await trx.execute(
+        sql`SELECT set_config('app.current_tenant_id', ${batch.tenantId}, true)`
+      );
+
+      const [raw] = await trx
+        .insert(telemetryRaw)
+        .values({ ...batch.raw, tenantId: batch.tenantId, deviceId: batch.gatewayDeviceId })
+        .returning({ id: telemetryRaw.id });
+
+      const history = [...batch.history, ...batch.children.flatMap((child) => child.history)];
+      if (history.length > 0) {
+        await trx
+          .insert(telemetryHistory)
+          .values(history.map((row) => ({ ...row, tenantId: batch.tenantId })));
+      }
+
+      await this.touchDevice(batch.gatewayDeviceId, batch.observedAt, trx);
+      const children: GatewayIngestionResult['children'] = [];
+      for (const child of batch.children) {
+        await this.touchDevice(child.deviceId, child.observedAt, trx);
+        children.push({
+          deviceId: child.deviceId,
+          assets: await this.touchMonitoredAssets(child.deviceId, child.observedAt, trx),
+        });
+      }
+
+      const processed = batch.children.length;
+      const status: TelemetryTransactionStatus =
+        processed >= batch.totalLogicalDevices ? 'completed' : processed > 0 ? 'partial' : 'failed';
+      await trx
+        .update(telemetryTransactions)
+        .set({
+          status,
+          processedDevices: processed,
+          completedAt: new Date(),
+          errorMessage:
+            status === 'completed'
+              ? null
+              : `${batch.totalLogicalDevices - processed} of ${batch.totalLogicalDevices} logical devices could not be resolved`,
+        })
+        .where(eq(telemetryTransactions.id, batch.transactionId));
+
+      return { rawId: raw.id, historyCount: history.length, status, children };
+    });
+  }
+
+  /**
+   * Stores one chunk of a multi-part message and returns all chunks
+   * received so far for the same device and correlation ID
+   */
+  async storeChunk(chunk: NewTelemetryChunk): Promise<StoredChunkResult> {
+    return this.withTenant(chunk.tenantId, async (trx) => {
+      const inserted = await trx
+        .insert(telemetryChunks)
+        .values(chunk)
+        .onConflictDoNothing()
+        .returning({ id: telemetryChunks.id });
+
+      const chunks = await trx
+        .select()
+        .from(telemetryChunks)
+        .where(
+          and(
+            eq(telemetryChunks.tenantId, chunk.tenantId),
+            eq(telemetryChunks.deviceId, chunk.deviceId),
+            eq(telemetryChunks.correlationId, chunk.correlationId)
+          )
+        )
+        .orderBy(asc(telemetryChunks.sequenceNumber));
+
+      return { stored: inserted.length > 0, chunks };
+    });
+  }
+
+  /**
+   * Deletes the chunks of a reassembled message
+   */
+  async deleteChunks(tenantId: string, deviceId: string, correlationId: string): Promise<number> {
+    const deleted = await this.withTenant(tenantId, (trx) =>
+      trx
+        .delete(telemetryChunks)
+        .where(
+          and(
+            eq(telemetryChunks.tenantId, tenantId),
+            eq(telemetryChunks.deviceId, deviceId),
+            eq(telemetryChunks.correlationId, correlationId)
+          )
+        )
+        .returning({ id: telemetryChunks.id })
+    );
+    return deleted.length;
+  }
+
+  /**
+   * Deletes chunk sets whose oldest chunk expired, across all tenants
+   * (background sweep)
+   */
+  async deleteExpiredChunks(now: Date, trx?: Transaction): Promise<ExpiredChunkSet[]> {
+    const executor = getExecutor(trx);
+    const rows = await executor
+      .delete(telemetryChunks)
+      .where(
+        sql`(${telemetryChunks.tenantId}, ${telemetryChunks.deviceId}, ${telemetryChunks.correlationId}) IN (
+          SELECT tenant_id, device_id, correlation_id FROM telemetry_chunks
+          WHERE expires_at < ${now}
+        )`
+      )
+      .returning({
+        tenantId: telemetryChunks.tenantId,
+        deviceId: telemetryChunks.deviceId,
+        correlationId: telemetryChunks.correlationId,
+        totalChunks: telemetryChunks.totalChunks,
+        sequenceNumber: telemetryChunks.sequenceNumber,
+      });
+
+    const sets = new Map<string, ExpiredChunkSet>();
+    for (const row of rows) {
+      const key = `${row.tenantId}:${row.deviceId}:${row.correlationId}`;
+      let set = sets.get(key);
+      if (!set) {
+        set = {
+          tenantId: row.tenantId,
+          deviceId: row.deviceId,
+          correlationId: row.correlationId,
+          totalChunks: row.totalChunks,
+          sequenceNumbers: [],
+        };
+        sets.set(key, set);
+      }
+      set.sequenceNumbers.push(row.sequenceNumber);
+    }
+    for (const set of sets.values()) {
+      set.sequenceNumbers.sort((a, b) => a - b);
+    }
+    return [...sets.values()];
+  }
+
+  /**
+   * Finds the most recent reading per metric for an entity
+   */
+  async findLatest(
+    tenantId: string,
+    entityId: string,
+    metricKeys?: string[]
+  ): Promise<TelemetryHistory[]> {
+    if (metricKeys && metricKeys.length === 0) return [];
+
+    return this.withTenant(tenantId, (trx) =>
+      trx
+        .selectDistinctOn([telemetryHistory.metricKey])
+        .from(telemetryHistory)
+        .where(
+          and(
+            eq(telemetryHistory.tenantId, tenantId),
+            eq(telemetryHistory.entityId, entityId),
+            metricKeys ? inArray(telemetryHistory.metricKey, metricKeys) : undefined
+          )
+        )
+        .orderBy(telemetryHistory.metricKey, desc(telemetryHistory.timestamp))
+    );
+  }
+
+  /**
+   * Finds readings for one metric in a time range, oldest first.
+   * Continues after `cursor` when given (keyset pagination on timestamp, id).
+   */
+  async findRange(
+    tenantId: string,
+    entityId: string,
+    metricKey: string,
+    from: Date,
+    to: Date,
+    limit: number,
+    cursor?: TelemetryRangeCursor
+  ): Promise<TelemetryHistory[]> {
+    return this.withTenant(tenantId, (trx) =>
+      trx
+        .select()
+        .from(telemetryHistory)
+        .where(
+          and(
+            eq(telemetryHistory.tenantId, tenantId),
+            eq(telemetryHistory.entityId, entityId),
+            eq(telemetryHistory.metricKey, metricKey),
+            gte(telemetryHistory.timestamp, from),
+            lte(telemetryHistory.timestamp, to),
+            cursor
+              ? or(
+                  gt(telemetryHistory.timestamp, cursor.timestamp),
+                  and(
+                    eq(telemetryHistory.timestamp, cursor.timestamp),
+                    gt(telemetryHistory.id, cursor.id)
+                  )
+                )
+              : undefined
+          )
+        )
+        .orderBy(asc(telemetryHistory.timestamp), asc(telemetryHistory.id))
+        .limit(limit)
+    );
+  }
+
+  /**
+   * Aggregates numeric readings of one metric across entities into
+   * fixed-width time buckets
+   */
+  async aggregate(
+    tenantId: string,
+    entityIds: string[],
+    metricKey: string,
+    from: Date,
+    to: Date,
+    interval: TelemetryBucketInterval,
+    aggregation: TelemetryAggregateFunction
+  ): Promise<TelemetryBucketRow[]> {
+    if (entityIds.length === 0) return [];
+
+    const bucket = sql<Date>`date_bin(interval '${sql.raw(BUCKET_INTERVALS[interval])}', ${telemetryHistory.timestamp}, timestamptz '2000-01-01')`;
+
+    const rows = await this.withTenant(tenantId, (trx) =>
+      trx
+        .select({
+          bucket,
+          value: sql<string | null>`${sql.raw(AGGREGATE_EXPRESSIONS[aggregation])}`,
+          count: sql<number>`count(*)`,
+        })
+        .from(telemetryHistory)
+        .where(
+          and(
+            eq(telemetryHistory.tenantId, tenantId),
+            inArray(telemetryHistory.entityId, entityIds),
+            eq(telemetryHistory.metricKey, metricKey),
+            isNotNull(telemetryHistory.value),
+            gte(telemetryHistory.timestamp, from),
+            lte(telemetryHistory.timestamp, to)
+          )
+        )
+        .groupBy(bucket)
+        .orderBy(bucket)
+    );
+
+    return rows.map((row) => ({
+      bucket: new Date(row.bucket),
+      value: row.value === null ? null : Number(row.value),
+      count: Number(row.count),
+    }));
+  }
+
+  /**
+   * Finds the assets a device is bound to at a point in time, with their
+   * asset type's metric definitions
+   */
+  async findAssetBindings(deviceId: string, at: Date, trx?: Transaction): Promise<AssetBinding[]> {
+    const executor = getExecutor(trx);
+    return executor
+      .select({
+        bindingId: entityEdges.id,
+        assetId: assets.id,
+        metadata: entityEdges.metadata,
+        metricDefinitions: assetTypes.metricDefinitions,
+      })
+      .from(entityEdges)
+      .innerJoin(
+        assets,
+        and(eq(assets.id, entityEdges.sourceEntityId), eq(assets.organizationId, entityEdges.tenantId))
+      )
+      .innerJoin(assetTypes, eq(assetTypes.id, assets.assetTypeId))
+      .where(
+        and(
+          eq(entityEdges.targetEntityId, deviceId),
+          eq(entityEdges.relationshipType, 'MONITORED_BY'),
+          eq(entityEdges.sourceEntityType, 'Asset'),
+          or(isNull(entityEdges.validFrom), lte(entityEdges.validFrom, at)),
+          or(isNull(entityEdges.validUntil), gt(entityEdges.validUntil, at)),
+          isNull(assets.deletedAt)
+        )
+      );
+  }
+
+  /**
+   * Finds a non-deleted asset with its type's metric definitions,
+   * transformation engine and aggregation rules
+   */
+  async findComputationTarget(tenantId: string, assetId: string): Promise<ComputationTarget | null> {
+    const result = await getExecutor()
+      .select({
+        id: assets.id,
+        tenantId: assets.organizationId,
+        assetTypeId: assets.assetTypeId,
+        parentAssetId: assets.parentAssetId,
+        metricDefinitions: assetTypes.metricDefinitions,
+        transformationEngine: assetTypes.transformationEngine,
+        aggregationRules: assetTypes.aggregationRules,
+        telemetryConfigVersion: assetTypes.telemetryConfigVersion,
+      })
+      .from(assets)
+      .innerJoin(assetTypes, eq(assetTypes.id, assets.assetTypeId))
+      .where(and(eq(assets.id, assetId), eq(assets.organizationId, tenantId), isNull(assets.deletedAt)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds the IDs of the non-deleted children of an asset
+   */
+  async findChildAssetIds(tenantId: string, assetId: string): Promise<string[]> {
+    const rows = await getExecutor()
+      .select({ id: assets.id })
+      .from(assets)
+      .where(
+        and(eq(assets.organizationId, tenantId), eq(assets.parentAssetId, assetId), isNull(assets.deletedAt))
+      );
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Finds the most recent reading per entity and metric for several entities
+   */
+  async findLatestForEntities(
+    tenantId: string,
+    entityIds: string[],
+    metricKeys: string[]
+  ): Promise<TelemetryHistory[]> {
+    if (entityIds.length === 0 || metricKeys.length === 0) return [];
+
+    return this.withTenant(tenantId, (trx) =>
+      trx
+        .selectDistinctOn([telemetryHistory.entityId, telemetryHistory.metricKey])
+        .from(telemetryHistory)
+        .where(
+          and(
+            eq(telemetryHistory.tenantId, tenantId),
+            inArray(telemetryHistory.entityId, entityIds),
+            inArray(telemetryHistory.metricKey, metricKeys)
+          )
+        )
+        .orderBy(telemetryHistory.entityId, telemetryHistory.metricKey, desc(telemetryHistory.timestamp))
+    );
+  }
+
+  /**
+   * Stores computed history rows (derived metrics, windows, roll-ups)
+   */
+  async insertComputed(tenantId: string, rows: Omit<NewTelemetryHistory, 'tenantId'>[]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    await this.withTenant(tenantId, (trx) =>
+      trx.insert(telemetryHistory).values(rows.map((row) => ({ ...row, tenantId })))
+    );
+    return rows.length;
+  }
+
+  /**
+   * Runs queries in a transaction with the tenant context the telemetry RLS
+   * policies expect
+   */
+  private async withTenant<T>(
+    tenantId: string,
+    fn: (trx: Transaction) => Promise<T>
+  ): Promise<T> {
+    return withTransaction(async (trx) => {
+      await trx.execute(
+        sql`SELECT set_config('app.current_tenant_id', ${tenantId}, true)`
+      );
+      return fn(trx);
+    });
+  }
+
+  /**
+   * Updates last_seen_at, never moving it backwards for late or replayed messages
+   */
+  private async touchDevice(deviceId: string, observedAt: Date, trx: Transaction): Promise<void> {
+    await trx
+      .update(devices)
+      .set({
+        lastSeenAt: sql`GREATEST(COALESCE(${devices.lastSeenAt}, ${observedAt}), ${observedAt})`,
+      })
+      .where(eq(devices.id, deviceId));
+  }
+
+  /**
+   * Updates last_telemetry_at on assets monitored by the device
+   * (asset -MONITORED_BY-> device edges valid at the observation time)
+   */
+  private async touchMonitoredAssets(
+    deviceId: string,
+    observedAt: Date,
+    trx: Transaction
+  ): Promise<MonitoredAsset[]> {
+    const result = await trx
+      .update(assets)
+      .set({
+        lastTelemetryAt: sql`GREATEST(COALESCE(${assets.lastTelemetryAt}, ${observedAt}), ${observedAt})`,
+      })
+      .where(
+        sql`${assets.id} IN (
+          SELECT source_entity_id FROM entity_edges
+          WHERE target_entity_id = ${deviceId}
+            AND relationship_type = 'MONITORED_BY'
+            AND (valid_from IS NULL OR valid_from <= ${observedAt})
+            AND (valid_until IS NULL OR valid_until > ${observedAt})
+        )`
+      )
+      .returning({ id: assets.id, assetTypeId: assets.assetTypeId });
+    return result;
+  }
+}
+
+// Singleton instance
+let telemetryRepository: TelemetryRepository | null = null;
+
+export function getTelemetryRepository(): TelemetryRepository {
+  if (!telemetryRepository) {
+    telemetryRepository = new TelemetryRepository();
+  }
+  return telemetryRepository;
+}
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for ThresholdRuleRepository
+ * Tests rule CRUD, state persistence and replay reading attribution
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ThresholdRuleRepository } from './threshold-rule.repository.js';
+import type { OrganizationId } from '@argus/shared';
+
+// Mock the database
+const mockExecutor = {
+  insert: vi.fn(),
+  select: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  execute: vi.fn(),
+};
+
+// Mock the base repository utilities
+vi.mock('./base.repository.js', async () => {
+  const actual = await vi.importActual('./base.repository.js');
+  return {
+    ...actual,
+    getExecutor: vi.fn(() => mockExecutor),
+    withTransaction: vi.fn((fn) => fn(mockExecutor)),
+  };
+});
+
+const ORG_ID = 'org-1' as OrganizationId;
+
+describe('ThresholdRuleRepository', () => {
+  let repository: ThresholdRuleRepository;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = new ThresholdRuleRepository();
+  });
+
+  describe('create', () => {
+    it('should insert and return the rule', async () => {
+      const rule = { id: 'rule-1', name: 'High temperature' };
+      mockExecutor.insert.mockReturnValue({
+        values: vi.fn().mockReturnValue({
+          returning: vi.fn().mockResolvedValue([rule]),
+        }),
+      });
+
+      const result = await repository.create({
+        tenantId: ORG_ID,
+        name: 'High temperature',
+        metricKey: 'temperature',
+        condition: { operator: 'gt' },
+        eventType: 'TEMPERATURE_HIGH',
+        eventSeverity: 'major',
+      });
+
+      expect(result).toEqual(rule);
+    });
+  });
+
+  describe('findById', () => {
+    it('should return null when the rule does not exist', async () => {
+      mockExecutor.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({
+            limit: vi.fn().mockResolvedValue([]),
+          }),
+        }),
+      });
+
+      expect(await repository.findById('missing', ORG_ID)).toBeNull();
+    });
+  });
+
+  describe('findApplicable', () => {
+    it('should not query when there are no metrics', async () => {
+      const result = await repository.findApplicable(
+        ORG_ID,
+        { id: 'asset-1', assetTypeId: 'type-1' },
+        []
+      );
+
+      expect(result).toEqual([]);
+      expect(mockExecutor.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveState', () => {
+    it('should upsert on the rule/asset key', async () => {
+      const onConflictDoUpdate = vi.fn().mockResolvedValue(undefined);
+      const values = vi.fn().mockReturnValue({ onConflictDoUpdate });
+      mockExecutor.insert.mockReturnValue({ values });
+
+      await repository.saveState({
+        ruleId: 'rule-1',
+        assetId: 'asset-1',
+        tenantId: ORG_ID,
+        level: 'warning',
+        alertLevel: 'warning',
+      });
+
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ ruleId: 'rule-1', assetId: 'asset-1', level: 'warning' })
+      );
+      expect(onConflictDoUpdate.mock.calls[0][0].set).toMatchObject({
+        level: 'warning',
+        alertLevel: 'warning',
+        pendingLevel: null,
+      });
+    });
+  });
+
+  describe('findReplayReadings', () => {
+    it('should attribute device readings to monitoring assets within the link window', async () => {
+      const links = [
+        {
+          assetId: 'asset-1',
+          deviceId: 'device-1',
+          validFrom: new Date('2026-03-01T00:00:00Z'),
+          validUntil: new Date('2026-03-02T00:00:00Z'),
+        },
+      ];
+      const history = [
+        { entityId: 'asset-1', value: '10', timestamp: new Date('2026-03-01T01:00:00Z') },
+        { entityId: 'device-1', value: '20', timestamp: new Date('2026-03-01T02:00:00Z') },
+        { entityId: 'device-1', value: '30', timestamp: new Date('2026-03-03T00:00:00Z') },
+      ];
+
+      mockExecutor.execute.mockResolvedValue(undefined);
+      mockExecutor.select
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockResolvedValue(links),
+          }),
+        })
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockReturnValue({
+              orderBy: vi.fn().mockReturnValue({
+                limit: vi.fn().mockResolvedValue(history),
+              }),
+            }),
+          }),
+        });
+
+      const readings = await repository.findReplayReadings(
+        ORG_ID,
+        ['asset-1'],
+        'temperature',
+        new Date('2026-03-01T00:00:00Z'),
+        new Date('2026-03-04T00:00:00Z'),
+        100
+      );
+
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(readings).toEqual([
+        { assetId: 'asset-1', value: 10, timestamp: history[0].timestamp },
+        { assetId: 'asset-1', value: 20, timestamp: history[1].timestamp },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Threshold rule repository
+ * Provides data access for threshold rules, their per-asset evaluation state
+ * and the historical readings used by dry runs
+ */
+
+import { eq, and, or, sql, inArray, isNull, isNotNull, gte, lte, asc } from 'drizzle-orm';
+import {
+  PaginatedResult,
+  PaginationOptions,
+  buildPaginatedResult,
+  calculateOffset,
+  getPageSize,
+  getExecutor,
+  withTransaction,
+} from './base.repository.js';
+import {
+  thresholdRules,
+  thresholdRuleStates,
+  assets,
+  entityEdges,
+  type ThresholdRule,
+  type NewThresholdRule,
+  type ThresholdRuleState,
+  type NewThresholdRuleState,
+} from '../db/schema/index.js';
+// Imported directly: the schema index also re-exports the legacy telemetry.ts table
+import { telemetryHistory } from '../db/schema/telemetry-history.js';
+import { Transaction } from '../db/index.js';
+import type { OrganizationId } from '@argus/shared';
+
+export interface ThresholdRuleFilters {
+  assetTypeId?: string;
+  metricKey?: string;
+  isActive?: boolean;
+}
+
+/** Asset a rule can apply to */
+export interface ThresholdRuleAsset {
+  id: string;
+  assetTypeId: string;
+}
+
+/** A historical numeric reading attributed to an asset */
+export interface ReplayReading {
+  assetId: string;
+  value: number;
+  timestamp: Date;
+}
+
+export class ThresholdRuleRepository {
+  /**
+   * Creates a new threshold rule
+   */
+  async create(data: NewThresholdRule, trx?: Transaction): Promise<ThresholdRule> {
+    const executor = getExecutor(trx);
+    const result = await executor.insert(thresholdRules).values(data).returning();
+    return result[0];
+  }
+
+  /**
+   * Finds a rule by ID within a tenant
+   */
+  async findById(
+    id: string,
+    tenantId: OrganizationId,
+    trx?: Transaction
+  ): Promise<ThresholdRule | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(thresholdRules)
+      .where(and(eq(thresholdRules.id, id), eq(thresholdRules.tenantId, tenantId)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds a rule by name within a tenant
+   */
+  async findByName(
+    tenantId: OrganizationId,
+    name: string,
+    trx?: Transaction
+  ): Promise<ThresholdRule | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .select()
+      .from(thresholdRules)
+      .where(and(eq(thresholdRules.tenantId, tenantId), eq(thresholdRules.name, name)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  /**
+   * Finds all rules within a tenant with optional filters and pagination
+   */
+  async findAllInTenant(
+    tenantId: OrganizationId,
+    filters: ThresholdRuleFilters = {},
+    options?: PaginationOptions,
+    trx?: Transaction
+  ): Promise<PaginatedResult<ThresholdRule>> {
+    const executor = getExecutor(trx);
+    const pageSize = getPageSize(options);
+    const offset = calculateOffset(options);
+
+    const conditions = [eq(thresholdRules.tenantId, tenantId)];
+    if (filters.assetTypeId) {
+      conditions.push(eq(thresholdRules.assetTypeId, filters.assetTypeId));
+    }
+    if (filters.metricKey) {
+      conditions.push(eq(thresholdRules.metricKey, filters.metricKey));
+    }
+    if (filters.isActive !== undefined) {
+      conditions.push(eq(thresholdRules.isActive, filters.isActive));
+    }
+    const whereClause = and(...conditions);
+
+    // Get total count
+    const countResult = await executor
+      .select({ count: sql<number>`count(*)` })
+      .from(thresholdRules)
+      .where(whereClause);
+    const totalCount = Number(countResult[0]?.count ?? 0);
+
+    // Get data
+    const data = await executor
+      .select()
+      .from(thresholdRules)
+      .where(whereClause)
+      .orderBy(thresholdRules.name)
+      .limit(pageSize)
+      .offset(offset);
+
+    return buildPaginatedResult(data, totalCount, options);
+  }
+
+  /**
+   * Finds active rules that apply to an asset (by asset type or explicit
+   * asset list) for any of the given metrics
+   */
+  async findApplicable(
+    tenantId: string,
+    asset: ThresholdRuleAsset,
+    metricKeys: string[],
+    trx?: Transaction
+  ): Promise<ThresholdRule[]> {
+    if (metricKeys.length === 0) return [];
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(thresholdRules)
+      .where(
+        and(
+          eq(thresholdRules.tenantId, tenantId),
+          eq(thresholdRules.isActive, true),
+          inArray(thresholdRules.metricKey, metricKeys),
+          sql`(${thresholdRules.assetTypeId} = ${asset.assetTypeId} OR ${asset.id} = ANY(${thresholdRules.specificAssetIds}))`
+        )
+      );
+  }
+
+  /**
+   * Updates a rule by ID within a tenant
+   */
+  async update(
+    id: string,
+    tenantId: OrganizationId,
+    data: Partial<NewThresholdRule>,
+    trx?: Transaction
+  ): Promise<ThresholdRule | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(thresholdRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(thresholdRules.id, id), eq(thresholdRules.tenantId, tenantId)))
+      .returning();
+    return result[0] ?? null;
+  }
+
+  /**
+   * Deletes a rule by ID within a tenant (evaluation state cascades)
+   */
+  async delete(id: string, tenantId: OrganizationId, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .delete(thresholdRules)
+      .where(and(eq(thresholdRules.id, id), eq(thresholdRules.tenantId, tenantId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Loads the evaluation state of the given rules for one asset
+   */
+  async findStates(
+    ruleIds: string[],
+    assetId: string,
+    trx?: Transaction
+  ): Promise<ThresholdRuleState[]> {
+    if (ruleIds.length === 0) return [];
+    const executor = getExecutor(trx);
+    return executor
+      .select()
+      .from(thresholdRuleStates)
+      .where(
+        and(
+          inArray(thresholdRuleStates.ruleId, ruleIds),
+          eq(thresholdRuleStates.assetId, assetId)
+        )
+      );
+  }
+
+  /**
+   * Inserts or replaces the evaluation state of a rule for an asset
+   */
+  async saveState(state: NewThresholdRuleState, trx?: Transaction): Promise<void> {
+    const executor = getExecutor(trx);
+    await executor
+      .insert(thresholdRuleStates)
+      .values(state)
+      .onConflictDoUpdate({
+        target: [thresholdRuleStates.ruleId, thresholdRuleStates.assetId],
+        set: {
+          level: state.level,
+          pendingLevel: state.pendingLevel ?? null,
+          pendingSince: state.pendingSince ?? null,
+          alertLevel: state.alertLevel ?? null,
+          lastBreachedAt: state.lastBreachedAt ?? null,
+          lastValue: state.lastValue ?? null,
+          lastEvaluatedAt: state.lastEvaluatedAt ?? null,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Resolves the assets a rule scope covers within a tenant
+   */
+  async findAssetsInScope(
+    tenantId: OrganizationId,
+    scope: { assetTypeId?: string | null; specificAssetIds?: string[] | null },
+    limit: number,
+    trx?: Transaction
+  ): Promise<ThresholdRuleAsset[]> {
+    const executor = getExecutor(trx);
+    const scopeConditions = [];
+    if (scope.assetTypeId) {
+      scopeConditions.push(eq(assets.assetTypeId, scope.assetTypeId));
+    }
+    if (scope.specificAssetIds && scope.specificAssetIds.length > 0) {
+      scopeConditions.push(inArray(assets.id, scope.specificAssetIds));
+    }
+    if (scopeConditions.length === 0) return [];
+
+    return executor
+      .select({ id: assets.id, assetTypeId: assets.assetTypeId })
+      .from(assets)
+      .where(
+        and(
+          eq(assets.organizationId, tenantId),
+          isNull(assets.deletedAt),
+          or(...scopeConditions)
+        )
+      )
+      .orderBy(assets.name)
+      .limit(limit);
+  }
+
+  /**
+   * Loads numeric history for a metric, attributed to assets. Includes rows
+   * recorded against the asset itself and against devices monitoring it
+   * (asset -MONITORED_BY-> device edges valid at the reading time).
+   */
+  async findReplayReadings(
+    tenantId: OrganizationId,
+    assetIds: string[],
+    metricKey: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<ReplayReading[]> {
+    if (assetIds.length === 0) return [];
+
+    return withTransaction(async (trx) => {
+      // Tenant context for the telemetry RLS policies
+      await trx.execute(
+        sql`SELECT set_config('app.current_tenant_id', ${tenantId}, true)`
+      );
+
+      const links = await trx
+        .select({
+          assetId: entityEdges.sourceEntityId,
+          deviceId: entityEdges.targetEntityId,
+          validFrom: entityEdges.validFrom,
+          validUntil: entityEdges.validUntil,
+        })
+        .from(entityEdges)
+        .where(
+          and(
+            inArray(entityEdges.sourceEntityId, assetIds),
+            eq(entityEdges.relationshipType, 'MONITORED_BY')
+          )
+        );
+
+      const entityIds = [...new Set([...assetIds, ...links.map((link) => link.deviceId)])];
+
+      const rows = await trx
+        .select({
+          entityId: telemetryHistory.entityId,
+          value: telemetryHistory.value,
+          timestamp: telemetryHistory.timestamp,
+        })
+        .from(telemetryHistory)
+        .where(
+          and(
+            eq(telemetryHistory.tenantId, tenantId),
+            inArray(telemetryHistory.entityId, entityIds),
+            eq(telemetryHistory.metricKey, metricKey),
+            isNotNull(telemetryHistory.value),
+            gte(telemetryHistory.timestamp, from),
+            lte(telemetryHistory.timestamp, to)
+          )
+        )
+        .orderBy(asc(telemetryHistory.timestamp))
+        .limit(limit);
+
+      const readings: ReplayReading[] = [];
+      for (const row of rows) {
+        const value = Number(row.value);
+        if (assetIds.includes(row.entityId)) {
+          readings.push({ assetId: row.entityId, value, timestamp: row.timestamp });
+        }
+        for (const link of links) {
+          if (
+            link.deviceId === row.entityId &&
+            (!link.validFrom || link.validFrom <= row.timestamp) &&
+            (!link.validUntil || link.validUntil > row.timestamp)
+          ) {
+            readings.push({ assetId: link.assetId, value, timestamp: row.timestamp });
+          }
+        }
+      }
+      return readings;
+    });
+  }
+}
+
+// Singleton instance
+let thresholdRuleRepository: ThresholdRuleRepository | null = null;
+
+export function getThresholdRuleRepository(): ThresholdRuleRepository {
+  if (!thresholdRuleRepository) {
+    thresholdRuleRepository = new ThresholdRuleRepository();
+  }
+  return thresholdRuleRepository;
+}
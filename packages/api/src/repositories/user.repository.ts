@@ -2,7 +2,7 @@
  * User repository for user data access
  */
 
-import { eq, and, sql, isNull } from 'drizzle-orm';
+import { eq, and, or, lt, sql, isNull } from 'drizzle-orm';
 import {
   PaginatedResult,
   PaginationOptions,
@@ -154,8 +154,23 @@ export class UserRepository {
     return result[0] ?? null;
   }
 
+  /**
+   * Changes a user's email
+   * Callers check that the email is unused within the root organization
+   */
+  async updateEmail(id: UserId, email: string, trx?: Transaction): Promise<User | null> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(users)
+      .set({ email: email.toLowerCase(), updatedAt: new Date() })
+      .where(and(eq(users.id, id), isNull(users.deletedAt)))
+      .returning();
+    return result[0] ?? null;
+  }
+
   /**
    * Updates password hash
+   * Restarts the password age and clears any lockout
    */
   async updatePassword(
     id: UserId,
@@ -163,9 +178,16 @@ export class UserRepository {
     trx?: Transaction
   ): Promise<boolean> {
     const executor = getExecutor(trx);
+    const now = new Date();
     const result = await executor
       .update(users)
-      .set({ passwordHash, updatedAt: new Date() })
+      .set({
+        passwordHash,
+        passwordChangedAt: now,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        updatedAt: now,
+      })
       .where(and(eq(users.id, id), isNull(users.deletedAt)))
       .returning({ id: users.id });
     return result.length > 0;
@@ -184,6 +206,67 @@ export class UserRepository {
     return result.length > 0;
   }
 
+  /**
+   * Counts a failed login and locks the account once maxAttempts is reached
+   * The counter restarts when the account is locked. Returns the lock expiry if
+   * this attempt locked the account.
+   */
+  async recordFailedLogin(
+    id: UserId,
+    maxAttempts: number,
+    lockoutMinutes: number,
+    trx?: Transaction
+  ): Promise<Date | null> {
+    const executor = getExecutor(trx);
+    const reachesLimit = sql`${users.failedLoginAttempts} + 1 >= ${maxAttempts}`;
+    const result = await executor
+      .update(users)
+      .set({
+        failedLoginAttempts: sql`CASE WHEN ${reachesLimit} THEN 0 ELSE ${users.failedLoginAttempts} + 1 END`,
+        lockedUntil: sql`CASE WHEN ${reachesLimit} THEN now() + make_interval(mins => ${lockoutMinutes}) ELSE ${users.lockedUntil} END`,
+      })
+      .where(eq(users.id, id))
+      .returning({ failedLoginAttempts: users.failedLoginAttempts, lockedUntil: users.lockedUntil });
+
+    const row = result[0];
+    // Locked by this attempt: counter restarted and the lock is in the future
+    return row && row.failedLoginAttempts === 0 && row.lockedUntil && row.lockedUntil > new Date()
+      ? row.lockedUntil
+      : null;
+  }
+
+  /**
+   * Clears failed login attempts after a successful login
+   */
+  async resetFailedLogins(id: UserId, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, id))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  /**
+   * Records the TOTP time step of an accepted code unless that step (or a
+   * later one) was already used. Returns false for a replayed code.
+   */
+  async claimMfaStep(id: UserId, step: number, trx?: Transaction): Promise<boolean> {
+    const executor = getExecutor(trx);
+    const result = await executor
+      .update(users)
+      .set({ mfaLastUsedStep: step })
+      .where(
+        and(
+          eq(users.id, id),
+          or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
   /**
    * Marks email as verified
    */
@@ -0,0 +1,197 @@
+/**
+ * Dead-Letter Admin API Routes
+ *
+ * List, inspect, replay and discard telemetry the IoT bridge could not deliver
+ * (e.g. replay unmapped messages once the device mapping is fixed).
+ * Restricted to super admins - dead letters span all tenants.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  AppError,
+  deadLetterDetailSchema,
+  deadLetterListQuerySchema,
+  deadLetterListResponseSchema,
+  replayDeadLettersResponseSchema,
+  replayDeadLettersSchema,
+  apiErrorResponseSchema,
+  Errors,
+} from '@argus/shared';
+import { getSystemAdminRepository } from '../../repositories/system-admin.repository.js';
+import { getDeadLetterService } from '../../services/dead-letter.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+const paramsSchema = z.object({
+  seq: z.coerce.number().int().positive(),
+});
+
+export async function deadLetterRoutes(app: FastifyInstance): Promise<void> {
+  const systemAdminRepo = getSystemAdminRepository();
+  const deadLetterService = getDeadLetterService();
+
+  // All dead-letter routes require a super admin
+  app.addHook('preHandler', app.authenticate);
+  app.addHook('preHandler', async (request) => {
+    if (!(await systemAdminRepo.isSuperAdmin(request.user!.id))) {
+      throw Errors.forbidden('Super admin privileges required');
+    }
+  });
+
+  /** Runs a dead-letter stream operation, reporting NATS failures as 503 */
+  async function withStream<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      app.log.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Dead-letter stream operation failed'
+      );
+      throw Errors.serviceUnavailable('NATS');
+    }
+  }
+
+  // GET /admin/dead-letters - List dead letters
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/',
+    {
+      schema: {
+        querystring: deadLetterListQuerySchema,
+        response: {
+          200: deadLetterListResponseSchema,
+          403: apiErrorResponseSchema,
+          503: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => withStream(() => deadLetterService.list(request.query))
+  );
+
+  // GET /admin/dead-letters/:seq - Get a dead letter with its payload
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:seq',
+    {
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: deadLetterDetailSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          503: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { seq } = request.params;
+      const deadLetter = await withStream(() => deadLetterService.get(seq));
+      if (!deadLetter) {
+        throw Errors.notFound('Dead letter', String(seq));
+      }
+      return deadLetter;
+    }
+  );
+
+  // POST /admin/dead-letters/replay - Replay dead letters in bulk
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/replay',
+    {
+      schema: {
+        body: replayDeadLettersSchema,
+        response: {
+          200: replayDeadLettersResponseSchema,
+          403: apiErrorResponseSchema,
+          503: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const result = await withStream(() => deadLetterService.replayMany(request.body));
+
+      await auditService.log({
+        category: 'system',
+        userId: request.user!.id,
+        action: 'dead_letter.replayed',
+        resourceType: 'dead_letter',
+        details: {
+          reason: request.body.reason ?? null,
+          replayed: result.replayed,
+          skipped: result.skipped.length,
+        },
+      });
+
+      return result;
+    }
+  );
+
+  // POST /admin/dead-letters/:seq/replay - Replay a dead letter
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:seq/replay',
+    {
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: replayDeadLettersResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          503: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { seq } = request.params;
+      const outcome = await withStream(() => deadLetterService.replay(seq));
+      if (outcome === 'not_found') {
+        throw Errors.notFound('Dead letter', String(seq));
+      }
+      if (outcome === 'not_replayable') {
+        throw Errors.badRequest('Dead letter cannot be replayed (payload truncated or origin unknown)');
+      }
+
+      await auditService.log({
+        category: 'system',
+        userId: request.user!.id,
+        action: 'dead_letter.replayed',
+        resourceType: 'dead_letter',
+        resourceId: String(seq),
+      });
+
+      return { replayed: [seq], skipped: [] };
+    }
+  );
+
+  // DELETE /admin/dead-letters/:seq - Discard a dead letter
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:seq',
+    {
+      schema: {
+        params: paramsSchema,
+        response: {
+          204: z.undefined(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          503: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { seq } = request.params;
+      const deleted = await withStream(() => deadLetterService.delete(seq));
+      if (!deleted) {
+        throw Errors.notFound('Dead letter', String(seq));
+      }
+
+      await auditService.log({
+        category: 'system',
+        userId: request.user!.id,
+        action: 'dead_letter.deleted',
+        resourceType: 'dead_letter',
+        resourceId: String(seq),
+      });
+
+      return reply.status(204).send();
+    }
+  );
+}
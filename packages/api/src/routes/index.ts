@@ -5,6 +5,7 @@
 
 import { FastifyInstance } from 'fastify';
 import { registerV1Routes } from './v1/index.js';
+import { scimRoutes } from './scim.js';
 
 export async function registerRoutes(app: FastifyInstance): Promise<void> {
   // Register v1 API routes under /api/v1
@@ -15,6 +16,9 @@ export async function registerRoutes(app: FastifyInstance): Promise<void> {
     { prefix: '/api/v1' }
   );
 
+  // SCIM 2.0 provisioning for identity providers (own auth and error format)
+  await app.register(scimRoutes, { prefix: '/scim/v2' });
+
   // Future versions can be added here:
   // await app.register(registerV2Routes, { prefix: '/api/v2' });
 }
@@ -0,0 +1,413 @@
+/**
+ * SCIM 2.0 provisioning routes (RFC 7644)
+ * Identity providers manage an organization's users and groups with the
+ * provider's SCIM bearer token (see POST .../sso-connections/:id/scim-token).
+ * Requests and responses use application/scim+json; errors use the SCIM
+ * error format instead of the API's.
+ */
+
+import { FastifyError, FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  isAppError,
+  SCIM_SCHEMAS,
+  scimErrorResponseSchema,
+  scimGroupInputSchema,
+  scimGroupListResponseSchema,
+  scimGroupSchema,
+  scimListQuerySchema,
+  scimPatchRequestSchema,
+  scimUserInputSchema,
+  scimUserListResponseSchema,
+  scimUserSchema,
+  type ScimErrorResponse,
+  type ScimErrorType,
+} from '@argus/shared';
+import { excludesMembers, getScimService, type ScimContext } from '../services/scim.service.js';
+import { ScimError } from '../utils/scim.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    scim?: ScimContext;
+  }
+}
+
+const SCIM_CONTENT_TYPE = 'application/scim+json; charset=utf-8';
+
+const errorResponses = {
+  400: scimErrorResponseSchema,
+  401: scimErrorResponseSchema,
+  404: scimErrorResponseSchema,
+  409: scimErrorResponseSchema,
+};
+
+const idParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const serviceProviderConfigSchema = z.object({
+  schemas: z.array(z.string()),
+  patch: z.object({ supported: z.boolean() }),
+  bulk: z.object({ supported: z.boolean(), maxOperations: z.number(), maxPayloadSize: z.number() }),
+  filter: z.object({ supported: z.boolean(), maxResults: z.number() }),
+  changePassword: z.object({ supported: z.boolean() }),
+  sort: z.object({ supported: z.boolean() }),
+  etag: z.object({ supported: z.boolean() }),
+  authenticationSchemes: z.array(
+    z.object({
+      type: z.string(),
+      name: z.string(),
+      description: z.string(),
+      primary: z.boolean(),
+    })
+  ),
+});
+
+function toScimError(status: number, detail: string, scimType?: ScimErrorType): ScimErrorResponse {
+  return {
+    schemas: [SCIM_SCHEMAS.error],
+    status: String(status),
+    ...(scimType ? { scimType } : {}),
+    detail,
+  };
+}
+
+export async function scimRoutes(app: FastifyInstance): Promise<void> {
+  const scimService = getScimService();
+
+  app.addContentTypeParser(
+    'application/scim+json',
+    { parseAs: 'string' },
+    app.getDefaultJsonParser('error', 'error')
+  );
+
+  app.setErrorHandler((error: FastifyError, request, reply) => {
+    if (error instanceof ScimError) {
+      request.log.warn({ err: error, requestId: request.id }, 'SCIM error');
+      return reply.status(error.status).send(toScimError(error.status, error.message, error.scimType));
+    }
+
+    if (isAppError(error)) {
+      request.log.warn({ err: error, requestId: request.id }, 'Operational error');
+      const scimType = error.statusCode === 409 ? 'uniqueness' : undefined;
+      return reply.status(error.statusCode).send(toScimError(error.statusCode, error.message, scimType));
+    }
+
+    if (error.validation) {
+      return reply.status(400).send(toScimError(400, error.message, 'invalidValue'));
+    }
+
+    if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500) {
+      // Malformed JSON bodies and unsupported content types
+      const scimType = error.statusCode === 400 ? 'invalidSyntax' : undefined;
+      return reply.status(error.statusCode).send(toScimError(error.statusCode, error.message, scimType));
+    }
+
+    request.log.error({ err: error, requestId: request.id }, 'Unexpected error');
+    return reply.status(500).send(toScimError(500, 'An internal error occurred'));
+  });
+
+  app.setNotFoundHandler((request, reply) => {
+    return reply.status(404).send(toScimError(404, `Endpoint ${request.method} ${request.url} not found`));
+  });
+
+  // Every SCIM request carries the identity provider's bearer token
+  app.addHook('onRequest', async (request) => {
+    const header = request.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice(7).trim() : null;
+    const context = token ? await scimService.authenticate(token) : null;
+    if (!context) {
+      throw new ScimError(401, 'Invalid or missing SCIM bearer token');
+    }
+    request.scim = context;
+  });
+
+  app.addHook('onSend', async (_request, reply, payload) => {
+    if (payload !== undefined && payload !== null && payload !== '') {
+      reply.header('content-type', SCIM_CONTENT_TYPE);
+    }
+    return payload;
+  });
+
+  // GET /scim/v2/ServiceProviderConfig - Supported SCIM features
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/ServiceProviderConfig',
+    {
+      schema: {
+        response: {
+          200: serviceProviderConfigSchema,
+          401: scimErrorResponseSchema,
+        },
+      },
+    },
+    async () => ({
+      schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: 1000 },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer token',
+          description: 'SCIM token generated for the identity provider',
+          primary: true,
+        },
+      ],
+    })
+  );
+
+  // ===========================================
+  // Users
+  // ===========================================
+
+  // GET /scim/v2/Users - List users, optionally filtered
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/Users',
+    {
+      schema: {
+        querystring: scimListQuerySchema,
+        response: {
+          200: scimUserListResponseSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => scimService.listUsers(request.scim!, request.query)
+  );
+
+  // POST /scim/v2/Users - Provision a user
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/Users',
+    {
+      schema: {
+        body: scimUserInputSchema,
+        response: {
+          201: scimUserSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await scimService.createUser(request.scim!, request.body);
+      return reply.status(201).send(user);
+    }
+  );
+
+  // GET /scim/v2/Users/:id - Get a user
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/Users/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        response: {
+          200: scimUserSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const user = await scimService.getUser(request.scim!, request.params.id);
+      if (!user) {
+        throw new ScimError(404, `User ${request.params.id} not found`);
+      }
+      return user;
+    }
+  );
+
+  // PUT /scim/v2/Users/:id - Replace a user
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/Users/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        body: scimUserInputSchema,
+        response: {
+          200: scimUserSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const user = await scimService.replaceUser(request.scim!, request.params.id, request.body);
+      if (!user) {
+        throw new ScimError(404, `User ${request.params.id} not found`);
+      }
+      return user;
+    }
+  );
+
+  // PATCH /scim/v2/Users/:id - Modify a user (e.g. active=false to deactivate)
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/Users/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        body: scimPatchRequestSchema,
+        response: {
+          200: scimUserSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const user = await scimService.patchUser(request.scim!, request.params.id, request.body.Operations);
+      if (!user) {
+        throw new ScimError(404, `User ${request.params.id} not found`);
+      }
+      return user;
+    }
+  );
+
+  // DELETE /scim/v2/Users/:id - Deprovision a user
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/Users/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        response: {
+          204: z.null(),
+          ...errorResponses,
+        },
+      },
+    },
+    async (request, reply) => {
+      const deleted = await scimService.deleteUser(request.scim!, request.params.id);
+      if (!deleted) {
+        throw new ScimError(404, `User ${request.params.id} not found`);
+      }
+      return reply.status(204).send(null);
+    }
+  );
+
+  // ===========================================
+  // Groups
+  // ===========================================
+
+  // GET /scim/v2/Groups - List groups, optionally filtered
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/Groups',
+    {
+      schema: {
+        querystring: scimListQuerySchema,
+        response: {
+          200: scimGroupListResponseSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => scimService.listGroups(request.scim!, request.query)
+  );
+
+  // POST /scim/v2/Groups - Create a group
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/Groups',
+    {
+      schema: {
+        body: scimGroupInputSchema,
+        response: {
+          201: scimGroupSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request, reply) => {
+      const group = await scimService.createGroup(request.scim!, request.body);
+      return reply.status(201).send(group);
+    }
+  );
+
+  // GET /scim/v2/Groups/:id - Get a group
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/Groups/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        querystring: scimListQuerySchema.pick({ excludedAttributes: true }),
+        response: {
+          200: scimGroupSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const group = await scimService.getGroup(request.scim!, request.params.id);
+      if (!group) {
+        throw new ScimError(404, `Group ${request.params.id} not found`);
+      }
+      if (excludesMembers(request.query.excludedAttributes)) {
+        const { members: _members, ...rest } = group;
+        return rest;
+      }
+      return group;
+    }
+  );
+
+  // PUT /scim/v2/Groups/:id - Replace a group
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/Groups/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        body: scimGroupInputSchema,
+        response: {
+          200: scimGroupSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const group = await scimService.replaceGroup(request.scim!, request.params.id, request.body);
+      if (!group) {
+        throw new ScimError(404, `Group ${request.params.id} not found`);
+      }
+      return group;
+    }
+  );
+
+  // PATCH /scim/v2/Groups/:id - Modify a group (rename, add or remove members)
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/Groups/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        body: scimPatchRequestSchema,
+        response: {
+          200: scimGroupSchema,
+          ...errorResponses,
+        },
+      },
+    },
+    async (request) => {
+      const group = await scimService.patchGroup(request.scim!, request.params.id, request.body.Operations);
+      if (!group) {
+        throw new ScimError(404, `Group ${request.params.id} not found`);
+      }
+      return group;
+    }
+  );
+
+  // DELETE /scim/v2/Groups/:id - Delete a group
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/Groups/:id',
+    {
+      schema: {
+        params: idParamsSchema,
+        response: {
+          204: z.null(),
+          ...errorResponses,
+        },
+      },
+    },
+    async (request, reply) => {
+      const deleted = await scimService.deleteGroup(request.scim!, request.params.id);
+      if (!deleted) {
+        throw new ScimError(404, `Group ${request.params.id} not found`);
+      }
+      return reply.status(204).send(null);
+    }
+  );
+}
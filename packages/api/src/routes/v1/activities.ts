@@ -1,6 +1,6 @@
 /**
  * Activity routes - CRUD operations for work items and workflows
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -13,15 +13,52 @@ import {
   activityResponseSchema,
   activityListResponseSchema,
   activityQuerySchema,
+  apiErrorResponseSchema,
   Errors,
+  createUserId,
   type OrganizationId,
   type UserId,
 } from '@argus/shared';
-import { getActivityRepository } from '../../repositories/index.js';
+import {
+  getActivityRepository,
+  getUserRepository,
+  type Activity,
+} from '../../repositories/index.js';
 import { auditService } from '../../services/audit.service.js';
+import { getMailService } from '../../services/mail.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeFilters,
+} from '../../services/custom-attribute.service.js';
 
 export async function activityRoutes(app: FastifyInstance): Promise<void> {
   const activityRepo = getActivityRepository();
+  const userRepo = getUserRepository();
+  const mailService = getMailService();
+  const attributeService = getCustomAttributeService();
+
+  /**
+   * Emails the user an activity was just assigned to (not self-assignments)
+   */
+  async function notifyAssignee(activity: Activity, assignedBy: UserId): Promise<void> {
+    if (!activity.assignedToUserId || activity.assignedToUserId === assignedBy) return;
+
+    const assignee = await userRepo.findById(createUserId(activity.assignedToUserId));
+    if (!assignee || assignee.status !== 'active') return;
+
+    const assigner = await userRepo.findById(assignedBy);
+    await mailService.sendActivityAssigned({
+      to: assignee.email,
+      organizationId: activity.organizationId as OrganizationId,
+      activityId: activity.id,
+      activityName: activity.name,
+      priority: activity.priority,
+      dueAt: activity.dueAt,
+      assignedBy: assigner
+        ? [assigner.firstName, assigner.lastName].filter(Boolean).join(' ') || assigner.email
+        : null,
+    });
+  }
 
   // All activity routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -30,10 +67,12 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
+      preHandler: app.requirePermission('activities', 'read'),
       schema: {
         querystring: activityQuerySchema,
         response: {
           200: activityListResponseSchema,
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -53,9 +92,29 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
       } = request.query;
       const organizationId = request.user!.organizationId as OrganizationId;
 
+      const { filters: attributes, errors: filterErrors } = findAttributeFilters(request.query, [
+        'pendingApproval',
+        'status',
+        'priority',
+        'assignedToUserId',
+        'initiatorUserId',
+        'targetType',
+        'targetId',
+        'search',
+      ]);
+      if (filterErrors.length > 0) {
+        throw Errors.badRequest('Invalid attribute filter', filterErrors);
+      }
+
       let result;
 
-      if (pendingApproval) {
+      if (Object.keys(attributes).length > 0) {
+        result = await activityRepo.findByAttributes(
+          organizationId,
+          attributes,
+          { page, pageSize, activityTypeId }
+        );
+      } else if (pendingApproval) {
         result = await activityRepo.findPendingApproval(
           organizationId,
           { page, pageSize }
@@ -159,6 +218,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/my-tasks',
     {
+      preHandler: app.requirePermission('activities', 'read'),
       schema: {
         querystring: z.object({
           page: z.coerce.number().int().min(1).default(1),
@@ -236,6 +296,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id',
     {
+      preHandler: app.requirePermission('activities', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -303,6 +364,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id/children',
     {
+      preHandler: app.requirePermission('activities', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -384,18 +446,12 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/',
     {
+      preHandler: app.requirePermission('activities', 'create'),
       schema: {
         body: createActivitySchema,
         response: {
           201: activityResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -431,6 +487,16 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
+      const attributes = await attributeService.validate(
+        'activity',
+        activityTypeId,
+        organizationId,
+        customAttributes
+      );
+      if (attributes.errors.length > 0) {
+        throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+      }
+
       const activity = await activityRepo.create({
         organizationId,
         activityTypeId,
@@ -458,7 +524,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
         checklistResults: null,
         ownerOrganizationId: organizationId,
         assigneeOrganizationId: null,
-        customAttributes,
+        customAttributes: attributes.attributes,
         createdBy: userId,
       });
 
@@ -473,6 +539,8 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
         details: { name: activity.name, targetType, targetId },
       });
 
+      await notifyAssignee(activity, userId);
+
       return reply.status(201).send({
         id: activity.id,
         organizationId: activity.organizationId,
@@ -513,6 +581,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id',
     {
+      preHandler: app.requirePermission('activities', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -520,6 +589,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
         body: updateActivitySchema,
         response: {
           200: activityResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -537,13 +607,27 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
       const userId = request.user!.id;
 
       // Check if activity exists
-      const exists = await activityRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await activityRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Activity', id);
       }
 
       const updateData: any = { ...request.body };
 
+      // Validate custom attributes against the (new) activity type's schema
+      if (request.body.customAttributes !== undefined || request.body.activityTypeId !== undefined) {
+        const attributes = await attributeService.validate(
+          'activity',
+          request.body.activityTypeId ?? existing.activityTypeId,
+          organizationId,
+          request.body.customAttributes ?? (existing.customAttributes as Record<string, unknown>)
+        );
+        if (attributes.errors.length > 0) {
+          throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+        }
+        updateData.customAttributes = attributes.attributes;
+      }
+
       // Convert datetime strings to Date objects
       if (request.body.dueAt) {
         updateData.dueAt = new Date(request.body.dueAt);
@@ -579,6 +663,10 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
         details: { changes: Object.keys(request.body) },
       });
 
+      if (activity && activity.assignedToUserId !== existing.assignedToUserId) {
+        await notifyAssignee(activity, userId);
+      }
+
       return {
         id: activity!.id,
         organizationId: activity!.organizationId,
@@ -619,6 +707,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/:id/approve',
     {
+      preHandler: app.requirePermission('activities', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -718,6 +807,7 @@ export async function activityRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:id',
     {
+      preHandler: app.requirePermission('activities', 'delete'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
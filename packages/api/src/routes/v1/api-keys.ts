@@ -0,0 +1,265 @@
+/**
+ * Organization API key routes
+ *
+ * Admins and owners manage their organization's keys. The key itself is only
+ * returned by create and rotate. Keys cannot be used to manage keys.
+ */
+
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  apiKeyListResponseSchema,
+  apiKeySecretResponseSchema,
+  createApiKeySchema,
+  createOrganizationId,
+  apiErrorResponseSchema,
+  Errors,
+  type ApiKeyResponse,
+  type OrganizationId,
+} from '@argus/shared';
+import {
+  getApiKeyRepository,
+  getOrganizationRepository,
+  getUserOrganizationRepository,
+  type ApiKey,
+} from '../../repositories/index.js';
+import { getApiKeyService, getApiKeyStatus } from '../../services/api-key.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+const orgParamsSchema = z.object({
+  orgId: z.string().uuid(),
+});
+
+const keyParamsSchema = orgParamsSchema.extend({
+  id: z.string().uuid(),
+});
+
+function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+  return {
+    id: apiKey.id,
+    organizationId: apiKey.organizationId,
+    name: apiKey.name,
+    description: apiKey.description,
+    keyPrefix: apiKey.keyPrefix,
+    permissions: apiKey.permissions,
+    allowedIps: apiKey.allowedIps,
+    status: getApiKeyStatus(apiKey),
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: apiKey.lastUsedIp,
+    createdBy: apiKey.createdBy,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    createdAt: apiKey.createdAt.toISOString(),
+    updatedAt: apiKey.updatedAt.toISOString(),
+  };
+}
+
+export async function apiKeyRoutes(app: FastifyInstance): Promise<void> {
+  const apiKeyRepo = getApiKeyRepository();
+  const orgRepo = getOrganizationRepository();
+  const memberRepo = getUserOrganizationRepository();
+  const apiKeyService = getApiKeyService();
+
+  /**
+   * Requires an interactive admin or owner of the organization
+   */
+  async function requireKeyAdmin(request: FastifyRequest, orgId: OrganizationId): Promise<void> {
+    if (request.user!.apiKey) {
+      throw Errors.forbidden('API keys cannot manage API keys');
+    }
+    const isAdmin = await memberRepo.hasRoleOrHigher(request.user!.id, orgId, 'admin');
+    if (!isAdmin) {
+      throw Errors.forbidden('Only admins and owners can manage API keys');
+    }
+  }
+
+  /**
+   * Loads a key of the organization
+   */
+  async function getKey(orgId: OrganizationId, id: string): Promise<ApiKey> {
+    const apiKey = await apiKeyRepo.findById(id, orgId);
+    if (!apiKey) {
+      throw Errors.notFound('API key', id);
+    }
+    return apiKey;
+  }
+
+  // GET /organizations/:orgId/api-keys - List keys and usage against the limit
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/organizations/:orgId/api-keys',
+    {
+      preHandler: app.authenticate,
+      schema: {
+        params: orgParamsSchema,
+        response: {
+          200: apiKeyListResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireKeyAdmin(request, orgId);
+
+      const org = await orgRepo.findById(orgId);
+      if (!org) {
+        throw Errors.notFound('Organization');
+      }
+
+      const [apiKeys, usage] = await Promise.all([
+        apiKeyRepo.findByOrganization(orgId),
+        apiKeyService.getUsage(org),
+      ]);
+      return { data: apiKeys.map(toApiKeyResponse), usage };
+    }
+  );
+
+  // POST /organizations/:orgId/api-keys - Create a key (the key is returned once)
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/organizations/:orgId/api-keys',
+    {
+      preHandler: app.authenticate,
+      schema: {
+        params: orgParamsSchema,
+        body: createApiKeySchema,
+        response: {
+          201: apiKeySecretResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireKeyAdmin(request, orgId);
+
+      const org = await orgRepo.findById(orgId);
+      if (!org) {
+        throw Errors.notFound('Organization');
+      }
+      if (!(await apiKeyService.isApiAccessEnabled(org))) {
+        throw Errors.forbidden('API access is not enabled for this organization');
+      }
+
+      if (request.body.expiresAt && new Date(request.body.expiresAt) <= new Date()) {
+        throw Errors.badRequest('Expiry must be in the future');
+      }
+
+      const usage = await apiKeyService.getUsage(org);
+      if (usage.limit !== null && usage.active >= usage.limit) {
+        throw Errors.conflict(`This organization has reached its limit of ${usage.limit} API keys`);
+      }
+
+      const excess = await apiKeyService.findExcessPermissions(request.user!.id, orgId, request.body.permissions);
+      if (excess.length > 0) {
+        throw Errors.forbidden(`A key cannot have permissions you do not hold: ${excess.join(', ')}`);
+      }
+
+      const { apiKey, key } = await apiKeyService.create(orgId, request.user!.id, request.body);
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'api_key_created',
+        userId: request.user!.id,
+        organizationId: orgId,
+        resourceType: 'api_key',
+        resourceId: apiKey.id,
+        details: {
+          name: apiKey.name,
+          keyPrefix: apiKey.keyPrefix,
+          permissions: apiKey.permissions,
+          allowedIps: apiKey.allowedIps,
+          expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+        },
+      });
+
+      return reply.status(201).send({ apiKey: toApiKeyResponse(apiKey), key });
+    }
+  );
+
+  // POST /organizations/:orgId/api-keys/:id/rotate - Replace a key's secret
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/organizations/:orgId/api-keys/:id/rotate',
+    {
+      preHandler: app.authenticate,
+      schema: {
+        params: keyParamsSchema,
+        response: {
+          200: apiKeySecretResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireKeyAdmin(request, orgId);
+
+      const existing = await getKey(orgId, request.params.id);
+      const result = getApiKeyStatus(existing) === 'revoked' ? null : await apiKeyService.rotate(existing);
+      if (!result) {
+        throw Errors.conflict('A revoked API key cannot be rotated');
+      }
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'api_key_rotated',
+        userId: request.user!.id,
+        organizationId: orgId,
+        resourceType: 'api_key',
+        resourceId: existing.id,
+        details: {
+          name: existing.name,
+          previousKeyPrefix: existing.keyPrefix,
+          keyPrefix: result.apiKey.keyPrefix,
+        },
+      });
+
+      return { apiKey: toApiKeyResponse(result.apiKey), key: result.key };
+    }
+  );
+
+  // DELETE /organizations/:orgId/api-keys/:id - Revoke a key
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/organizations/:orgId/api-keys/:id',
+    {
+      preHandler: app.authenticate,
+      schema: {
+        params: keyParamsSchema,
+        response: {
+          204: z.null(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireKeyAdmin(request, orgId);
+
+      const existing = await getKey(orgId, request.params.id);
+      const revoked = await apiKeyRepo.revoke(existing.id, request.user!.id);
+      if (!revoked) {
+        throw Errors.conflict('API key is already revoked');
+      }
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'api_key_revoked',
+        userId: request.user!.id,
+        organizationId: orgId,
+        resourceType: 'api_key',
+        resourceId: existing.id,
+        details: { name: existing.name, keyPrefix: existing.keyPrefix },
+      });
+
+      return reply.status(204).send(null);
+    }
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Asset type profile routes - view/update the telemetry profile of an asset
+ * type (the metrics its assets track, the metrics computed from them and how
+ * their health is scored) and list its recorded versions
+ * All routes require authentication and the matching role permission
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  assetTypeProfileResponseSchema,
+  assetTypeProfileVersionListResponseSchema,
+  updateAssetTypeProfileSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type OrganizationId,
+} from '@argus/shared';
+import { getTypeDefinitionRepository } from '../../repositories/type-definition.repository.js';
+import type { AssetType } from '../../db/schema/index.js';
+import { auditService } from '../../services/audit.service.js';
+import {
+  getAssetTypeProfileService,
+  toAssetTypeProfileResponse,
+} from '../../services/asset-type-profile.service.js';
+
+const paramsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function assetTypeProfileRoutes(app: FastifyInstance): Promise<void> {
+  const typeRepo = getTypeDefinitionRepository();
+  const profileService = getAssetTypeProfileService();
+
+  // All profile routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  async function findAssetType(organizationId: OrganizationId, id: string): Promise<AssetType> {
+    const type = (await typeRepo.findById('asset', id, organizationId)) as AssetType | null;
+    if (!type) {
+      throw Errors.notFound('asset type', id);
+    }
+    return type;
+  }
+
+  // GET /types/asset/:id/profile - Get the telemetry profile
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/profile',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: assetTypeProfileResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const type = await findAssetType(organizationId, request.params.id);
+      return toAssetTypeProfileResponse(type);
+    }
+  );
+
+  // PUT /types/asset/:id/profile - Update the telemetry profile
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/:id/profile',
+    {
+      preHandler: app.requirePermission('types', 'update'),
+      schema: {
+        params: paramsSchema,
+        body: updateAssetTypeProfileSchema,
+        response: {
+          200: assetTypeProfileResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const existing = await findAssetType(organizationId, id);
+      if (existing.isSystem) {
+        throw Errors.forbidden('Cannot modify system type definitions');
+      }
+
+      const profileErrors = profileService.findProfileErrors(existing, request.body);
+      if (profileErrors.length > 0) {
+        throw Errors.badRequest('Invalid telemetry profile', profileErrors);
+      }
+
+      const type = await profileService.updateProfile(organizationId, existing, request.body, userId);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'asset_type.profile_updated',
+        resourceType: 'asset_type',
+        resourceId: id,
+        details: { changes: Object.keys(request.body), version: type.telemetryConfigVersion },
+      });
+
+      return toAssetTypeProfileResponse(type);
+    }
+  );
+
+  // GET /types/asset/:id/profile/versions - List recorded profile versions
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/profile/versions',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: assetTypeProfileVersionListResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      await findAssetType(organizationId, request.params.id);
+      return { data: await profileService.listVersions(organizationId, request.params.id) };
+    }
+  );
+}
@@ -1,6 +1,6 @@
 /**
  * Asset routes - CRUD operations for physical/logical assets
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -13,15 +13,35 @@ import {
   assetListResponseSchema,
   assetQuerySchema,
   nearbyAssetsQuerySchema,
+  createAssetDeviceBindingSchema,
+  deviceBindingQuerySchema,
+  deviceBindingResponseSchema,
+  deviceBindingListResponseSchema,
+  assetHealthResponseSchema,
+  assetHealthHistoryQuerySchema,
+  assetHealthHistoryResponseSchema,
+  apiErrorResponseSchema,
   Errors,
   type OrganizationId,
 } from '@argus/shared';
 import { getAssetRepository } from '../../repositories/index.js';
 import { auditService } from '../../services/audit.service.js';
+import {
+  getDeviceBindingService,
+  toDeviceBindingResponse,
+} from '../../services/device-binding.service.js';
+import { getAssetHealthService } from '../../services/asset-health.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeFilters,
+} from '../../services/custom-attribute.service.js';
 import { sql } from 'drizzle-orm';
 
 export async function assetRoutes(app: FastifyInstance): Promise<void> {
   const assetRepo = getAssetRepository();
+  const bindingService = getDeviceBindingService();
+  const healthService = getAssetHealthService();
+  const attributeService = getCustomAttributeService();
 
   // All asset routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -30,10 +50,12 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
+      preHandler: app.requirePermission('assets', 'read'),
       schema: {
         querystring: assetQuerySchema,
         response: {
           200: assetListResponseSchema,
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -41,9 +63,25 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
       const { page, pageSize, status, assetTypeId, parentAssetId, rootOnly, search } = request.query;
       const organizationId = request.user!.organizationId as OrganizationId;
 
+      const { filters: attributes, errors: filterErrors } = findAttributeFilters(request.query, [
+        'status',
+        'parentAssetId',
+        'rootOnly',
+        'search',
+      ]);
+      if (filterErrors.length > 0) {
+        throw Errors.badRequest('Invalid attribute filter', filterErrors);
+      }
+
       let result;
 
-      if (status) {
+      if (Object.keys(attributes).length > 0) {
+        result = await assetRepo.findByAttributes(
+          organizationId,
+          attributes,
+          { page, pageSize, assetTypeId }
+        );
+      } else if (status) {
         result = await assetRepo.findByStatus(
           organizationId,
           status,
@@ -125,6 +163,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/nearby',
     {
+      preHandler: app.requirePermission('assets', 'read'),
       schema: {
         querystring: nearbyAssetsQuerySchema,
         response: {
@@ -184,6 +223,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id',
     {
+      preHandler: app.requirePermission('assets', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -242,6 +282,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id/children',
     {
+      preHandler: app.requirePermission('assets', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -314,18 +355,12 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/',
     {
+      preHandler: app.requirePermission('assets', 'create'),
       schema: {
         body: createAssetSchema,
         response: {
           201: assetResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -366,6 +401,16 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
+      const attributes = await attributeService.validate(
+        'asset',
+        assetTypeId,
+        organizationId,
+        customAttributes
+      );
+      if (attributes.errors.length > 0) {
+        throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+      }
+
       const asset = await assetRepo.create({
         organizationId,
         assetTypeId,
@@ -381,7 +426,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
           ? `SRID=4326;POINT(${geolocation.lng} ${geolocation.lat})`
           : null,
         lastLocationUpdate: geolocation ? new Date() : null,
-        customAttributes,
+        customAttributes: attributes.attributes,
         createdBy: userId,
       });
 
@@ -427,6 +472,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id',
     {
+      preHandler: app.requirePermission('assets', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -434,6 +480,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
         body: updateAssetSchema,
         response: {
           200: assetResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -451,8 +498,8 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
       const userId = request.user!.id;
 
       // Check if asset exists
-      const exists = await assetRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await assetRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Asset', id);
       }
 
@@ -474,6 +521,20 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
 
       const updateData: any = { ...request.body };
 
+      // Validate custom attributes against the (new) asset type's schema
+      if (request.body.customAttributes !== undefined || request.body.assetTypeId !== undefined) {
+        const attributes = await attributeService.validate(
+          'asset',
+          request.body.assetTypeId ?? existing.assetTypeId,
+          organizationId,
+          request.body.customAttributes ?? (existing.customAttributes as Record<string, unknown>)
+        );
+        if (attributes.errors.length > 0) {
+          throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+        }
+        updateData.customAttributes = attributes.attributes;
+      }
+
       // Handle geolocation update
       if (request.body.geolocation) {
         const { lat, lng } = request.body.geolocation;
@@ -533,6 +594,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id/location',
     {
+      preHandler: app.requirePermission('assets', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -567,8 +629,8 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
       const organizationId = request.user!.organizationId as OrganizationId;
 
       // Check if asset exists
-      const exists = await assetRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await assetRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Asset', id);
       }
 
@@ -586,6 +648,7 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:id',
     {
+      preHandler: app.requirePermission('assets', 'delete'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -630,4 +693,193 @@ export async function assetRoutes(app: FastifyInstance): Promise<void> {
       return reply.status(204).send();
     }
   );
+
+  // GET /assets/:id/devices - Devices bound to an asset
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/devices',
+    {
+      preHandler: app.requirePermission('assets', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: deviceBindingQuerySchema,
+        response: {
+          200: deviceBindingListResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const { asOf, history } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const bindings = await bindingService.listAssetDevices(organizationId, id, {
+        asOf: asOf ? new Date(asOf) : undefined,
+        history,
+      });
+      if (!bindings) {
+        throw Errors.notFound('Asset', id);
+      }
+
+      const now = new Date();
+      return { data: bindings.map((binding) => toDeviceBindingResponse(binding, now)) };
+    }
+  );
+
+  // POST /assets/:id/devices - Bind a device to an asset
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:id/devices',
+    {
+      preHandler: app.requirePermission('assets', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: createAssetDeviceBindingSchema,
+        response: {
+          201: deviceBindingResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      if (!(await assetRepo.exists(id, organizationId))) {
+        throw Errors.notFound('Asset', id);
+      }
+
+      const input = { ...request.body, entityType: 'Asset' as const, entityId: id };
+      const error = await bindingService.findBindError(organizationId, input);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      const binding = await bindingService.bind(organizationId, input);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'asset.device_bound',
+        resourceType: 'asset',
+        resourceId: id,
+        details: { bindingId: binding.edge.id, deviceId: input.deviceId },
+      });
+
+      return reply.status(201).send(toDeviceBindingResponse(binding));
+    }
+  );
+
+  // DELETE /assets/:id/devices/:bindingId - End a device binding (kept for past readings)
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id/devices/:bindingId',
+    {
+      preHandler: app.requirePermission('assets', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          bindingId: z.string().uuid(),
+        }),
+        response: {
+          204: z.undefined(),
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, bindingId } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const binding = await bindingService.findBinding(organizationId, bindingId);
+      if (!binding || binding.sourceEntityId !== id) {
+        throw Errors.notFound('Device binding', bindingId);
+      }
+
+      const error = bindingService.findUnbindError(binding);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      await bindingService.unbind(binding);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'asset.device_unbound',
+        resourceType: 'asset',
+        resourceId: id,
+        details: { bindingId, deviceId: binding.targetEntityId },
+      });
+
+      return reply.status(204).send();
+    }
+  );
+
+  // GET /assets/:id/health - Current health score with its contributing factors
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/health',
+    {
+      preHandler: app.requirePermission('assets', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: assetHealthResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const health = await healthService.getHealth(organizationId, id);
+      if (!health) {
+        throw Errors.notFound('Asset', id);
+      }
+      return health;
+    }
+  );
+
+  // GET /assets/:id/health/history - Stored health scores, newest first
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/health/history',
+    {
+      preHandler: app.requirePermission('assets', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: assetHealthHistoryQuerySchema,
+        response: {
+          200: assetHealthHistoryResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const { from, to, limit } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      if (!(await assetRepo.exists(id, organizationId))) {
+        throw Errors.notFound('Asset', id);
+      }
+
+      const data = await healthService.getHistory(organizationId, id, new Date(from), new Date(to), limit);
+      return { data };
+    }
+  );
 }
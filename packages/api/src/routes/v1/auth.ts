@@ -9,7 +9,10 @@ import { z } from 'zod';
 import {
   createUserSchema,
   userResponseSchema,
-  passwordSchema,
+  loginResponseSchema,
+  mfaChallengeResponseSchema,
+  passwordResetRequiredResponseSchema,
+  passwordRequirementsResponseSchema,
   Errors,
 } from '@argus/shared';
 import {
@@ -24,7 +27,25 @@ import {
   hashPassword,
   verifyPassword,
   signAccessToken,
+  signMfaChallengeToken,
+  MFA_CHALLENGE_EXPIRY_SECONDS,
 } from '../../utils/index.js';
+import { createLoginSession } from '../../auth/login-session.js';
+import { getMfaService } from '../../services/mfa.service.js';
+import {
+  accountLockedMessage,
+  getPasswordPolicyService,
+} from '../../services/password-policy.service.js';
+import { getMailService } from '../../services/mail.service.js';
+import { getSsoDiscoveryService } from '../../services/sso-discovery.service.js';
+
+/**
+ * Validation error listing every password policy violation
+ */
+function passwordPolicyError(violations: string[]) {
+  return Errors.validationError(violations.map((message) => ({ path: 'password', message })));
+}
+
 import { createUserId, createOrganizationId } from '@argus/shared';
 
 export async function authRoutes(app: FastifyInstance): Promise<void> {
@@ -32,6 +53,10 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
   const userOrgRepo = getUserOrganizationRepository();
   const refreshTokenRepo = getRefreshTokenRepository();
   const passwordResetRepo = getPasswordResetTokenRepository();
+  const mfaService = getMfaService();
+  const passwordPolicyService = getPasswordPolicyService();
+  const mailService = getMailService();
+  const ssoDiscoveryService = getSsoDiscoveryService();
 
   // POST /auth/register - Create a new user account
   // ADR-002: Users must belong to a root organization
@@ -40,6 +65,8 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
     {
       schema: {
         body: createUserSchema.extend({
+          // Checked against the configured password policy below
+          password: z.string().min(1, 'Password is required'),
           // Organization context from subdomain or explicit parameter
           organizationId: z.string().uuid().optional(),
         }),
@@ -77,6 +104,12 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.conflict('User with this email already exists');
       }
 
+      // Enforce the platform password policy
+      const violations = await passwordPolicyService.validateNewPassword(password);
+      if (violations.length > 0) {
+        throw passwordPolicyError(violations);
+      }
+
       // Hash password with Argon2id
       const passwordHash = await hashPassword(password);
 
@@ -91,6 +124,8 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
         primaryOrganizationId: orgId,
       });
 
+      await passwordPolicyService.recordInitialPassword(createUserId(user.id), passwordHash);
+
       // Add user to organization as a member
       // This creates the user_organizations entry needed for membership checks
       await userOrgRepo.addMember({
@@ -124,12 +159,11 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
           password: z.string().min(1, 'Password is required'),
         }),
         response: {
-          200: z.object({
-            accessToken: z.string(),
-            refreshToken: z.string(),
-            expiresIn: z.number(),
-            user: userResponseSchema,
-          }),
+          200: z.union([
+            loginResponseSchema,
+            mfaChallengeResponseSchema,
+            passwordResetRequiredResponseSchema,
+          ]),
           401: z.object({
             success: z.literal(false),
             error: z.object({
@@ -160,53 +194,73 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.unauthorized('Please use SSO to sign in');
       }
 
-      // Verify password
+      // Reject logins while the account is locked
+      const lockedUntil = passwordPolicyService.getLockedUntil(user);
+      if (lockedUntil) {
+        throw Errors.unauthorized(accountLockedMessage(lockedUntil));
+      }
+
+      // Verify password, counting failures towards the lockout limit
+      const policy = await passwordPolicyService.getPolicy();
       const isValid = await verifyPassword(user.passwordHash, password);
       if (!isValid) {
-        throw Errors.unauthorized('Invalid email or password');
+        const lockedNow = await passwordPolicyService.recordFailedLogin(user, policy);
+        throw Errors.unauthorized(
+          lockedNow ? accountLockedMessage(lockedNow) : 'Invalid email or password'
+        );
       }
 
-      // Update last login timestamp
-      const userId = createUserId(user.id);
-      await userRepo.updateLastLogin(userId);
+      // Organizations requiring SSO reject passwords for their email domains
+      // (owners keep password login as a break-glass account)
+      const requiredProvider = await ssoDiscoveryService.findRequiredProvider(user);
+      if (requiredProvider) {
+        throw Errors.unauthorized(
+          `Your organization requires single sign-on. Please sign in with ${requiredProvider.displayName ?? requiredProvider.name}`
+        );
+      }
+      // With MFA, failed attempts are only cleared once the second factor
+      // succeeds, so logging in again doesn't reset second factor failures
+      if (!user.mfaEnabled) {
+        await passwordPolicyService.recordSuccessfulLogin(user);
+      }
 
-      // Build organization context (ADR-002)
-      // Get all accessible organizations for the user
-      const userOrgs = await userOrgRepo.getUserOrganizations(userId);
-      const accessibleOrganizationIds = userOrgs.map((membership) =>
-        createOrganizationId(membership.organizationId)
-      );
+      // Expired (or, if enforced, non-compliant) passwords must be changed first
+      // With MFA enabled, the reset token is only issued once the second
+      // factor is verified (POST /auth/mfa/challenge/verify)
+      const resetReason = passwordPolicyService.getResetReason(user, password, policy);
+      const userId = createUserId(user.id);
+      if (user.mfaEnabled) {
+        return {
+          mfaRequired: true,
+          mfaEnrollmentRequired: false,
+          challengeToken: signMfaChallengeToken(userId, user.email, 'verify', resetReason ?? undefined),
+          expiresIn: MFA_CHALLENGE_EXPIRY_SECONDS,
+        };
+      }
+      if (resetReason) {
+        const { token } = await passwordResetRepo.create(userId);
+        return {
+          passwordResetRequired: true as const,
+          reason: resetReason,
+          resetToken: token,
+        };
+      }
 
-      // Create organization context for JWT
-      const organizationContext = {
-        rootOrganizationId: createOrganizationId(user.rootOrganizationId),
-        currentOrganizationId: createOrganizationId(user.primaryOrganizationId),
-        accessibleOrganizationIds,
-      };
+      // Second factor: users who must have MFA but haven't set it up enrol
+      // before any tokens are issued
+      if (await mfaService.isRequired(user)) {
+        return {
+          mfaRequired: false,
+          mfaEnrollmentRequired: true,
+          challengeToken: signMfaChallengeToken(userId, user.email, 'enroll'),
+          expiresIn: MFA_CHALLENGE_EXPIRY_SECONDS,
+        };
+      }
 
-      // Generate tokens with organization context
-      const accessToken = signAccessToken(userId, user.email, organizationContext);
-      const { token: refreshToken } = await refreshTokenRepo.create(userId, {
+      return createLoginSession(user, {
         userAgent: request.headers['user-agent'] ?? undefined,
         ipAddress: request.ip,
       });
-
-      return {
-        accessToken,
-        refreshToken,
-        expiresIn: 900, // 15 minutes in seconds
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          status: user.status,
-          emailVerifiedAt: user.emailVerifiedAt?.toISOString() ?? null,
-          lastLoginAt: new Date().toISOString(), // Use current time since we just updated it
-          createdAt: user.createdAt.toISOString(),
-          updatedAt: user.updatedAt.toISOString(),
-        },
-      };
     }
   );
 
@@ -268,7 +322,7 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
       }
 
       // Rotate the refresh token (revoke old, create new in same family)
-      const { token: newRefreshToken } = await refreshTokenRepo.rotate(
+      const { token: newRefreshToken, record } = await refreshTokenRepo.rotate(
         existingToken,
         {
           userAgent: request.headers['user-agent'] ?? undefined,
@@ -289,7 +343,13 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
       };
 
       // Generate new access token with organization context
-      const accessToken = signAccessToken(userId, user.email, organizationContext);
+      const accessToken = signAccessToken(
+        userId,
+        user.email,
+        organizationContext,
+        undefined,
+        record.familyId
+      );
 
       return {
         accessToken,
@@ -331,7 +391,7 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/logout-all',
     {
-      preHandler: app.authenticate,
+      preHandler: [app.authenticate, app.rejectApiKey],
       schema: {
         response: {
           200: z.object({
@@ -381,10 +441,16 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
 
       if (user && user.status === 'active') {
         const userId = createUserId(user.id);
-        const { token } = await passwordResetRepo.create(userId);
+        const { token, record } = await passwordResetRepo.create(userId);
+
+        await mailService.sendPasswordReset({
+          to: user.email,
+          organizationId: createOrganizationId(user.primaryOrganizationId),
+          token,
+          expiresAt: record.expiresAt,
+        });
 
-        // In production, this would send an email
-        // For development/testing, return the token
+        // For development/testing, also return the token
         const isDev = process.env.NODE_ENV !== 'production';
 
         if (isDev) {
@@ -408,7 +474,8 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
       schema: {
         body: z.object({
           token: z.string().min(1, 'Reset token is required'),
-          password: passwordSchema,
+          // Checked against the configured password policy below
+          password: z.string().min(1, 'Password is required'),
         }),
         response: {
           200: z.object({
@@ -444,9 +511,14 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.badRequest('Invalid or expired reset token');
       }
 
-      // Hash new password and update
-      const passwordHash = await hashPassword(password);
-      await userRepo.updatePassword(userId, passwordHash);
+      // Enforce the password policy, including the reuse window
+      const violations = await passwordPolicyService.validateNewPassword(password, userId);
+      if (violations.length > 0) {
+        throw passwordPolicyError(violations);
+      }
+
+      // Hash new password and update (also clears any lockout)
+      await passwordPolicyService.setPassword(userId, password);
 
       // Mark token as used
       await passwordResetRepo.markUsed(resetToken.id);
@@ -460,11 +532,35 @@ export async function authRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  // GET /auth/password-policy - Password requirements for registration and reset forms
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/password-policy',
+    {
+      schema: {
+        response: {
+          200: passwordRequirementsResponseSchema,
+        },
+      },
+    },
+    async () => {
+      const policy = await passwordPolicyService.getPolicy();
+      return {
+        minLength: policy.minLength,
+        maxLength: policy.maxLength,
+        minUppercase: policy.minUppercase,
+        minLowercase: policy.minLowercase,
+        minDigits: policy.minDigits,
+        minSpecialChars: policy.minSpecialChars,
+        allowWhitespace: policy.allowWhitespace,
+      };
+    }
+  );
+
   // GET /auth/organizations - Get current user's organizations
   app.withTypeProvider<ZodTypeProvider>().get(
     '/organizations',
     {
-      preHandler: app.authenticate,
+      preHandler: [app.authenticate, app.rejectApiKey],
       schema: {
         response: {
           200: z.object({
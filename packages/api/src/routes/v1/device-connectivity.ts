@@ -0,0 +1,113 @@
+/**
+ * Device type connectivity routes - view/update the expected reporting interval
+ * the connectivity watchdog uses to derive device status
+ * All routes require authentication and the matching role permission
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  connectivityConfigResponseSchema,
+  updateConnectivityConfigSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type OrganizationId,
+} from '@argus/shared';
+import { getTypeDefinitionRepository } from '../../repositories/type-definition.repository.js';
+import type { DeviceType } from '../../db/schema/index.js';
+import { getDeviceConnectivityService } from '../../services/device-connectivity.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+const paramsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function deviceConnectivityRoutes(app: FastifyInstance): Promise<void> {
+  const typeRepo = getTypeDefinitionRepository();
+  const connectivityService = getDeviceConnectivityService();
+
+  // All connectivity routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  function toConnectivityResponse(type: DeviceType) {
+    return {
+      connectivityConfig: type.connectivityConfig
+        ? connectivityService.getEffectiveConfig(type.connectivityConfig)
+        : null,
+      effectiveConfig: connectivityService.getEffectiveConfig(type.connectivityConfig),
+    };
+  }
+
+  async function findDeviceType(organizationId: OrganizationId, id: string): Promise<DeviceType> {
+    const type = (await typeRepo.findById('device', id, organizationId)) as DeviceType | null;
+    if (!type) {
+      throw Errors.notFound('device type', id);
+    }
+    return type;
+  }
+
+  // GET /types/device/:id/connectivity - Get the connectivity config
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/connectivity',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: connectivityConfigResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const type = await findDeviceType(organizationId, request.params.id);
+      return toConnectivityResponse(type);
+    }
+  );
+
+  // PUT /types/device/:id/connectivity - Update the connectivity config
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/:id/connectivity',
+    {
+      preHandler: app.requirePermission('types', 'update'),
+      schema: {
+        params: paramsSchema,
+        body: updateConnectivityConfigSchema,
+        response: {
+          200: connectivityConfigResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const existing = await findDeviceType(organizationId, id);
+      if (existing.isSystem) {
+        throw Errors.forbidden('Cannot modify system type definitions');
+      }
+
+      const type = (await typeRepo.update('device', id, organizationId, {
+        connectivityConfig: request.body.connectivityConfig,
+      })) as DeviceType;
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'device_type.connectivity_updated',
+        resourceType: 'device_type',
+        resourceId: id,
+        details: { connectivityConfig: request.body.connectivityConfig },
+      });
+
+      return toConnectivityResponse(type);
+    }
+  );
+}
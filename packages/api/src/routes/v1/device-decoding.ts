@@ -0,0 +1,182 @@
+/**
+ * Device type decoding routes - view/update a device type's decoding profile
+ * and decode sample payloads with it
+ * All routes require authentication and the matching role permission
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  decodingProfileSchema,
+  updateDecodingProfileSchema,
+  testDecodeSchema,
+  testDecodeResponseSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type OrganizationId,
+} from '@argus/shared';
+import { getTypeDefinitionRepository } from '../../repositories/type-definition.repository.js';
+import type { DeviceType } from '../../db/schema/index.js';
+import { getDeviceDecodingService } from '../../services/device-decoding.service.js';
+import { compileDecodingProfile } from '../../workers/payload-decoder.js';
+import { auditService } from '../../services/audit.service.js';
+
+const paramsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+function toDecodingProfileResponse(type: DeviceType) {
+  return decodingProfileSchema.parse({
+    protocolAdapter: type.protocolAdapter,
+    messageSchema: type.messageSchema ?? null,
+    extractionRules: type.extractionRules ?? null,
+    transformationRules: type.transformationRules ?? null,
+    demuxStrategy: type.demuxStrategy ?? null,
+    chunkingConfig: type.chunkingConfig ?? null,
+  });
+}
+
+export async function deviceDecodingRoutes(app: FastifyInstance): Promise<void> {
+  const typeRepo = getTypeDefinitionRepository();
+  const decodingService = getDeviceDecodingService();
+
+  // All decoding routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  async function findDeviceType(organizationId: OrganizationId, id: string): Promise<DeviceType> {
+    const type = (await typeRepo.findById('device', id, organizationId)) as DeviceType | null;
+    if (!type) {
+      throw Errors.notFound('device type', id);
+    }
+    return type;
+  }
+
+  // GET /types/device/:id/decoding - Get the decoding profile
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/decoding',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: paramsSchema,
+        response: {
+          200: decodingProfileSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const type = await findDeviceType(organizationId, request.params.id);
+      return toDecodingProfileResponse(type);
+    }
+  );
+
+  // PUT /types/device/:id/decoding - Update the decoding profile
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/:id/decoding',
+    {
+      preHandler: app.requirePermission('types', 'update'),
+      schema: {
+        params: paramsSchema,
+        body: updateDecodingProfileSchema,
+        response: {
+          200: decodingProfileSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const existing = await findDeviceType(organizationId, id);
+      if (existing.isSystem) {
+        throw Errors.forbidden('Cannot modify system type definitions');
+      }
+
+      // Reject profiles that would not compile (bad paths, expressions, conversions)
+      const compiled = compileDecodingProfile({
+        messageSchema: existing.messageSchema,
+        extractionRules: existing.extractionRules,
+        transformationRules: existing.transformationRules,
+        demuxStrategy: existing.demuxStrategy,
+        chunkingConfig: existing.chunkingConfig,
+        ...request.body,
+      });
+      if (compiled.errors.length > 0) {
+        throw Errors.badRequest(
+          'Invalid decoding profile',
+          compiled.errors.map((error) => ({
+            path: error.metricKey ?? error.path ?? error.stage,
+            message: error.message,
+          }))
+        );
+      }
+
+      const childDeviceTypeId = request.body.demuxStrategy?.childDeviceTypeId;
+      if (childDeviceTypeId && !(await typeRepo.exists('device', childDeviceTypeId, organizationId))) {
+        throw Errors.badRequest('Invalid decoding profile', [
+          { path: 'demuxStrategy.childDeviceTypeId', message: 'Device type not found' },
+        ]);
+      }
+
+      const type = (await typeRepo.update('device', id, organizationId, request.body)) as DeviceType;
+      decodingService.invalidate(id);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'device_type.decoding_updated',
+        resourceType: 'device_type',
+        resourceId: id,
+        details: { changes: Object.keys(request.body) },
+      });
+
+      return toDecodingProfileResponse(type);
+    }
+  );
+
+  // POST /types/device/:id/test-decode - Decode a sample payload
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:id/test-decode',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: paramsSchema,
+        body: testDecodeSchema,
+        response: {
+          200: testDecodeResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const result = await decodingService.testDecode(
+        organizationId,
+        id,
+        request.body.payload,
+        request.body.profile
+      );
+      if (!result) {
+        throw Errors.notFound('device type', id);
+      }
+
+      return {
+        deviceTypeId: id,
+        valid: result.valid,
+        metrics: result.readings,
+        errors: result.errors,
+        children: result.children,
+      };
+    }
+  );
+}
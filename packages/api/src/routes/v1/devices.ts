@@ -1,6 +1,6 @@
 /**
  * Device routes - CRUD operations for IoT devices
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -12,14 +12,70 @@ import {
   deviceResponseSchema,
   deviceListResponseSchema,
   deviceQuerySchema,
+  createDeviceCommandSchema,
+  deviceCommandResponseSchema,
+  deviceCommandListResponseSchema,
+  deviceCommandQuerySchema,
+  connectivitySummaryQuerySchema,
+  connectivitySummaryResponseSchema,
+  createDeviceBindingSchema,
+  deviceBindingQuerySchema,
+  deviceBindingResponseSchema,
+  deviceBindingListResponseSchema,
+  apiErrorResponseSchema,
   Errors,
   type OrganizationId,
+  type DeviceCommandStatus,
+  type DeviceCommandTransport,
 } from '@argus/shared';
-import { getDeviceRepository } from '../../repositories/index.js';
+import { getDeviceRepository, getDeviceCommandRepository } from '../../repositories/index.js';
+import type { DeviceCommand } from '../../db/schema/index.js';
 import { auditService } from '../../services/audit.service.js';
+import {
+  commandTransportFor,
+  getDeviceCommandService,
+} from '../../services/device-command.service.js';
+import { getDeviceConnectivityService } from '../../services/device-connectivity.service.js';
+import {
+  getDeviceBindingService,
+  toDeviceBindingResponse,
+} from '../../services/device-binding.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeFilters,
+} from '../../services/custom-attribute.service.js';
+
+function toDeviceCommandResponse(command: DeviceCommand) {
+  return {
+    id: command.id,
+    organizationId: command.tenantId,
+    deviceId: command.deviceId,
+    command: command.command,
+    payload: command.payload as Record<string, unknown>,
+    data: command.data,
+    fPort: command.fPort,
+    transport: command.transport as DeviceCommandTransport,
+    requireAck: command.requireAck,
+    status: command.status as DeviceCommandStatus,
+    error: command.error,
+    response: command.response as Record<string, unknown> | null,
+    expiresAt: command.expiresAt.toISOString(),
+    sentAt: command.sentAt?.toISOString() ?? null,
+    deliveredAt: command.deliveredAt?.toISOString() ?? null,
+    ackedAt: command.ackedAt?.toISOString() ?? null,
+    createdBy: command.createdBy,
+    createdAt: command.createdAt.toISOString(),
+    updatedAt: command.updatedAt.toISOString(),
+  };
+}
 
 export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   const deviceRepo = getDeviceRepository();
+  const commandRepo = getDeviceCommandRepository();
+  const commandService = getDeviceCommandService();
+  const connectivityService = getDeviceConnectivityService();
+  const bindingService = getDeviceBindingService();
+  const attributeService = getCustomAttributeService();
 
   // All device routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -28,10 +84,12 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
+      preHandler: app.requirePermission('devices', 'read'),
       schema: {
         querystring: deviceQuerySchema,
         response: {
           200: deviceListResponseSchema,
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -39,9 +97,23 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
       const { page, pageSize, status, deviceTypeId, search } = request.query;
       const organizationId = request.user!.organizationId as OrganizationId;
 
+      const { filters: attributes, errors: filterErrors } = findAttributeFilters(request.query, [
+        'status',
+        'search',
+      ]);
+      if (filterErrors.length > 0) {
+        throw Errors.badRequest('Invalid attribute filter', filterErrors);
+      }
+
       let result;
 
-      if (status) {
+      if (Object.keys(attributes).length > 0) {
+        result = await deviceRepo.findByAttributes(
+          organizationId,
+          attributes,
+          { page, pageSize, deviceTypeId }
+        );
+      } else if (status) {
         result = await deviceRepo.findByStatus(
           organizationId,
           status,
@@ -109,10 +181,29 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  // GET /devices/connectivity-summary - Device counts by status and longest-silent devices
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/connectivity-summary',
+    {
+      preHandler: app.requirePermission('devices', 'read'),
+      schema: {
+        querystring: connectivitySummaryQuerySchema,
+        response: {
+          200: connectivitySummaryResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      return connectivityService.getSummary(organizationId, request.query.limit);
+    }
+  );
+
   // GET /devices/:id - Get a specific device
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id',
     {
+      preHandler: app.requirePermission('devices', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -172,18 +263,12 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/',
     {
+      preHandler: app.requirePermission('devices', 'create'),
       schema: {
         body: createDeviceSchema,
         response: {
           201: deviceResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -228,6 +313,16 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
+      const attributes = await attributeService.validate(
+        'device',
+        deviceTypeId,
+        organizationId,
+        customAttributes
+      );
+      if (attributes.errors.length > 0) {
+        throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+      }
+
       const device = await deviceRepo.create({
         organizationId,
         deviceTypeId,
@@ -243,7 +338,7 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
         geolocation: geolocation
           ? `SRID=4326;POINT(${geolocation.lng} ${geolocation.lat})`
           : null,
-        customAttributes,
+        customAttributes: attributes.attributes,
         createdBy: userId,
       });
 
@@ -290,6 +385,7 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id',
     {
+      preHandler: app.requirePermission('devices', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -297,6 +393,7 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
         body: updateDeviceSchema,
         response: {
           200: deviceResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -314,13 +411,27 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
       const userId = request.user!.id;
 
       // Check if device exists
-      const exists = await deviceRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await deviceRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Device', id);
       }
 
       const updateData: any = { ...request.body };
 
+      // Validate custom attributes against the (new) device type's schema
+      if (request.body.customAttributes !== undefined || request.body.deviceTypeId !== undefined) {
+        const attributes = await attributeService.validate(
+          'device',
+          request.body.deviceTypeId ?? existing.deviceTypeId,
+          organizationId,
+          request.body.customAttributes ?? (existing.customAttributes as Record<string, unknown>)
+        );
+        if (attributes.errors.length > 0) {
+          throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+        }
+        updateData.customAttributes = attributes.attributes;
+      }
+
       // Handle geolocation update
       if (request.body.geolocation) {
         const { lat, lng } = request.body.geolocation;
@@ -372,6 +483,7 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:id',
     {
+      preHandler: app.requirePermission('devices', 'delete'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -421,6 +533,7 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/:id/heartbeat',
     {
+      preHandler: app.requirePermission('devices', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -459,4 +572,265 @@ export async function deviceRoutes(app: FastifyInstance): Promise<void> {
       };
     }
   );
+
+  // POST /devices/:id/commands - Queue a command for delivery to the device
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:id/commands',
+    {
+      preHandler: app.requirePermission('devices', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: createDeviceCommandSchema,
+        response: {
+          202: deviceCommandResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const device = await deviceRepo.findById(id, organizationId);
+      if (!device) {
+        throw Errors.notFound('Device', id);
+      }
+
+      if (commandTransportFor(device) === 'chirpstack') {
+        if (!device.logicalIdentifier) {
+          throw Errors.badRequest('LoRaWAN device has no DevEUI (logicalIdentifier) to send downlinks to');
+        }
+        if (request.body.fPort === undefined) {
+          throw Errors.badRequest('fPort is required for LoRaWAN devices');
+        }
+      }
+
+      const command = await commandService.queue(device, request.body, userId);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'device.command_queued',
+        resourceType: 'device',
+        resourceId: id,
+        details: {
+          commandId: command.id,
+          command: command.command,
+          transport: command.transport,
+          requireAck: command.requireAck,
+          status: command.status,
+          ...(command.error ? { error: command.error } : {}),
+        },
+      });
+
+      return reply.status(202).send(toDeviceCommandResponse(command));
+    }
+  );
+
+  // GET /devices/:id/commands - List the commands sent to a device
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/commands',
+    {
+      preHandler: app.requirePermission('devices', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: deviceCommandQuerySchema,
+        response: {
+          200: deviceCommandListResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const { page, pageSize, status } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const exists = await deviceRepo.exists(id, organizationId);
+      if (!exists) {
+        throw Errors.notFound('Device', id);
+      }
+
+      const result = await commandRepo.findByDevice(
+        organizationId,
+        id,
+        { status },
+        { page, pageSize }
+      );
+
+      return {
+        data: result.data.map(toDeviceCommandResponse),
+        pagination: result.pagination,
+      };
+    }
+  );
+
+  // GET /devices/:id/commands/:commandId - Get a command and its status
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/commands/:commandId',
+    {
+      preHandler: app.requirePermission('devices', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          commandId: z.string().uuid(),
+        }),
+        response: {
+          200: deviceCommandResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id, commandId } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const command = await commandRepo.findById(commandId, organizationId);
+      if (!command || command.deviceId !== id) {
+        throw Errors.notFound('Device command', commandId);
+      }
+
+      return toDeviceCommandResponse(command);
+    }
+  );
+
+  // GET /devices/:id/bindings - Assets and spaces a device is bound to
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/bindings',
+    {
+      preHandler: app.requirePermission('devices', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        querystring: deviceBindingQuerySchema,
+        response: {
+          200: deviceBindingListResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const { asOf, history } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const bindings = await bindingService.listDeviceBindings(organizationId, id, {
+        asOf: asOf ? new Date(asOf) : undefined,
+        history,
+      });
+      if (!bindings) {
+        throw Errors.notFound('Device', id);
+      }
+
+      const now = new Date();
+      return { data: bindings.map((binding) => toDeviceBindingResponse(binding, now)) };
+    }
+  );
+
+  // POST /devices/:id/bindings - Bind a device to an asset or space
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:id/bindings',
+    {
+      preHandler: app.requirePermission('devices', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: createDeviceBindingSchema,
+        response: {
+          201: deviceBindingResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      if (!(await deviceRepo.exists(id, organizationId))) {
+        throw Errors.notFound('Device', id);
+      }
+
+      const input = { ...request.body, deviceId: id };
+      const error = await bindingService.findBindError(organizationId, input);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      const binding = await bindingService.bind(organizationId, input);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'device.bound',
+        resourceType: 'device',
+        resourceId: id,
+        details: { bindingId: binding.edge.id, entityType: input.entityType, entityId: input.entityId },
+      });
+
+      return reply.status(201).send(toDeviceBindingResponse(binding));
+    }
+  );
+
+  // DELETE /devices/:id/bindings/:bindingId - End a binding (kept for past readings)
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id/bindings/:bindingId',
+    {
+      preHandler: app.requirePermission('devices', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          bindingId: z.string().uuid(),
+        }),
+        response: {
+          204: z.undefined(),
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, bindingId } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const binding = await bindingService.findBinding(organizationId, bindingId);
+      if (!binding || binding.targetEntityId !== id) {
+        throw Errors.notFound('Device binding', bindingId);
+      }
+
+      const error = bindingService.findUnbindError(binding);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      await bindingService.unbind(binding);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'device.unbound',
+        resourceType: 'device',
+        resourceId: id,
+        details: { bindingId, entityType: binding.sourceEntityType, entityId: binding.sourceEntityId },
+      });
+
+      return reply.status(204).send();
+    }
+  );
 }
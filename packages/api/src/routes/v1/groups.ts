@@ -25,12 +25,14 @@ import {
   getUserRepository,
   getUserOrganizationRepository,
 } from '../../repositories/index.js';
+import { getPermissionService } from '../../services/permission.service.js';
 
 export async function groupRoutes(app: FastifyInstance): Promise<void> {
   const groupRepo = getGroupRepository();
   const orgRepo = getOrganizationRepository();
   const userRepo = getUserRepository();
   const memberRepo = getUserOrganizationRepository();
+  const permissionService = getPermissionService();
 
   // All group routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -317,6 +319,8 @@ export async function groupRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('Group', id);
       }
 
+      await permissionService.invalidate();
+
       return reply.status(204).send(null);
     }
   );
@@ -454,6 +458,8 @@ export async function groupRoutes(app: FastifyInstance): Promise<void> {
         addedBy: request.user!.id,
       });
 
+      await permissionService.invalidate();
+
       return reply.status(201).send({
         userId: membership.userId,
         email: targetUser.email,
@@ -523,6 +529,8 @@ export async function groupRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('GroupMember', targetUserIdStr);
       }
 
+      await permissionService.invalidate();
+
       return reply.status(204).send(null);
     }
   );
@@ -1,6 +1,7 @@
 /**
  * Impersonation Routes
- * Admin endpoints for user impersonation functionality
+ * Admin endpoints for user impersonation functionality, and organization
+ * endpoints for approving requests and reviewing who accessed member accounts
  */
 
 import { FastifyInstance } from 'fastify';
@@ -11,9 +12,15 @@ import {
   createUserId,
   createOrganizationId,
   apiErrorResponseSchema,
+  type OrganizationId,
+  type UserId,
 } from '@argus/shared';
 import { impersonationService } from '../../services/impersonation.service.js';
-import { getImpersonationRepository } from '../../repositories/index.js';
+import {
+  getImpersonationRepository,
+  getUserOrganizationRepository,
+  type ImpersonationSessionWithUsers,
+} from '../../repositories/index.js';
 
 // Response schemas
 const userInfoSchema = z.object({
@@ -29,31 +36,109 @@ const impersonationSessionResponseSchema = z.object({
   target: userInfoSchema,
   organizationId: z.string().uuid().nullable(),
   reason: z.string(),
-  status: z.enum(['active', 'ended', 'expired', 'revoked']),
+  status: z.enum(['active', 'ended', 'expired', 'revoked', 'pending', 'approved', 'denied']),
+  readOnly: z.boolean(),
+  requestedDurationMinutes: z.number().nullable(),
+  decidedBy: z.string().uuid().nullable(),
+  decidedAt: z.string().nullable(),
+  decisionNote: z.string().nullable(),
   startedAt: z.string(),
   endedAt: z.string().nullable(),
   expiresAt: z.string(),
 });
 
+const paginationResponseSchema = z.object({
+  page: z.number(),
+  pageSize: z.number(),
+  totalCount: z.number(),
+  totalPages: z.number(),
+  hasNext: z.boolean(),
+  hasPrevious: z.boolean(),
+});
+
 const impersonationListResponseSchema = z.object({
   data: z.array(impersonationSessionResponseSchema),
-  pagination: z.object({
-    page: z.number(),
-    pageSize: z.number(),
-    totalCount: z.number(),
-    totalPages: z.number(),
-    hasNext: z.boolean(),
-    hasPrevious: z.boolean(),
-  }),
+  pagination: paginationResponseSchema,
+});
+
+const accessReportResponseSchema = z.object({
+  data: z.array(impersonationSessionResponseSchema.extend({ activityCount: z.number() })),
+  pagination: paginationResponseSchema,
+});
+
+const activityListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z.string().uuid(),
+      method: z.string(),
+      path: z.string(),
+      route: z.string().nullable(),
+      statusCode: z.number(),
+      durationMs: z.number(),
+      createdAt: z.string(),
+    })
+  ),
+  pagination: paginationResponseSchema,
+});
+
+const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+const organizationRequestParamsSchema = z.object({
+  orgId: z.string().uuid(),
+  id: z.string().uuid(),
+});
+
+function toSessionResponse(session: ImpersonationSessionWithUsers) {
+  return {
+    id: session.id,
+    impersonator: session.impersonator,
+    target: session.target,
+    organizationId: session.organizationId,
+    reason: session.reason,
+    status: session.status,
+    readOnly: session.readOnly,
+    requestedDurationMinutes: session.requestedDurationMinutes,
+    decidedBy: session.decidedBy,
+    decidedAt: session.decidedAt?.toISOString() ?? null,
+    decisionNote: session.decisionNote,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt?.toISOString() ?? null,
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
 export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
   const impersonationRepo = getImpersonationRepository();
+  const memberRepo = getUserOrganizationRepository();
 
-  // All routes require authentication
+  // All routes require a signed-in user (not an API key)
   app.addHook('preHandler', app.authenticate);
+  app.addHook('preHandler', app.rejectApiKey);
+
+  /**
+   * Checks that the user is an owner of the organization (approvals) or an
+   * admin or owner (access report). Approvals need an actual owner
+   * membership: super admins do not count as owners.
+   */
+  async function requireOrganizationRole(userId: UserId, orgId: OrganizationId, role: 'owner' | 'admin') {
+    const hasPermission =
+      role === 'owner'
+        ? (await memberRepo.findMembership(userId, orgId))?.role === 'owner'
+        : await memberRepo.hasRoleOrHigher(userId, orgId, role);
+    if (!hasPermission) {
+      throw Errors.forbidden(
+        role === 'owner'
+          ? 'Only owners can decide on impersonation requests'
+          : 'Only admins and owners can view impersonation activity'
+      );
+    }
+  }
 
   // POST /admin/impersonate/start - Start impersonation session
+  // Pass requestId to start an approved request
   app.withTypeProvider<ZodTypeProvider>().post(
     '/admin/impersonate/start',
     {
@@ -63,12 +148,15 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
           organizationId: z.string().uuid().optional(),
           reason: z.string().min(10, 'Reason must be at least 10 characters').max(500),
           durationMinutes: z.number().int().min(5).max(480).optional().default(60),
+          readOnly: z.boolean().optional().default(false),
+          requestId: z.string().uuid().optional(),
         }),
         response: {
           200: z.object({
             sessionId: z.string().uuid(),
             accessToken: z.string(),
             expiresAt: z.string(),
+            readOnly: z.boolean(),
             targetUser: userInfoSchema,
           }),
           400: apiErrorResponseSchema,
@@ -78,7 +166,7 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
       },
     },
     async (request) => {
-      const { targetUserId, organizationId, reason, durationMinutes } = request.body;
+      const { targetUserId, organizationId, reason, durationMinutes, readOnly, requestId } = request.body;
 
       try {
         const result = await impersonationService.startImpersonation({
@@ -87,6 +175,8 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
           organizationId: organizationId ? createOrganizationId(organizationId) : undefined,
           reason,
           durationMs: durationMinutes * 60 * 1000,
+          readOnly,
+          requestId,
           ipAddress: request.ip,
           userAgent: request.headers['user-agent'],
         });
@@ -95,8 +185,73 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
           sessionId: result.sessionId,
           accessToken: result.accessToken,
           expiresAt: result.expiresAt.toISOString(),
+          readOnly: result.readOnly,
           targetUser: result.targetUser,
         };
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes('permission') || error.message.includes('requires owner approval')) {
+            throw Errors.forbidden(error.message);
+          }
+          if (error.message.includes('request not found')) {
+            throw Errors.notFound('ImpersonationRequest', requestId!);
+          }
+          if (error.message.includes('not found')) {
+            throw Errors.notFound('User', targetUserId);
+          }
+          throw Errors.badRequest(error.message);
+        }
+        throw error;
+      }
+    }
+  );
+
+  // POST /admin/impersonate/requests - Request owner approval to impersonate a user
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/admin/impersonate/requests',
+    {
+      schema: {
+        body: z.object({
+          targetUserId: z.string().uuid(),
+          organizationId: z.string().uuid().optional(),
+          reason: z.string().min(10, 'Reason must be at least 10 characters').max(500),
+          durationMinutes: z.number().int().min(5).max(480).optional().default(60),
+          readOnly: z.boolean().optional().default(false),
+        }),
+        response: {
+          201: z.object({
+            requestId: z.string().uuid(),
+            status: z.literal('pending'),
+            organizationId: z.string().uuid(),
+            expiresAt: z.string(),
+          }),
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { targetUserId, organizationId, reason, durationMinutes, readOnly } = request.body;
+
+      try {
+        const result = await impersonationService.requestImpersonation({
+          impersonatorId: request.user!.id,
+          targetUserId: createUserId(targetUserId),
+          organizationId: organizationId ? createOrganizationId(organizationId) : undefined,
+          reason,
+          durationMs: durationMinutes * 60 * 1000,
+          readOnly,
+          ipAddress: request.ip,
+          userAgent: request.headers['user-agent'],
+        });
+
+        return reply.status(201).send({
+          requestId: result.id,
+          status: 'pending' as const,
+          organizationId: result.organizationId!,
+          expiresAt: result.expiresAt.toISOString(),
+        });
       } catch (error) {
         if (error instanceof Error) {
           if (error.message.includes('permission')) {
@@ -259,17 +414,7 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
       });
 
       return {
-        data: result.data.map((session) => ({
-          id: session.id,
-          impersonator: session.impersonator,
-          target: session.target,
-          organizationId: session.organizationId,
-          reason: session.reason,
-          status: session.status,
-          startedAt: session.startedAt.toISOString(),
-          endedAt: session.endedAt?.toISOString() ?? null,
-          expiresAt: session.expiresAt.toISOString(),
-        })),
+        data: result.data.map(toSessionResponse),
         pagination: result.pagination,
       };
     }
@@ -304,17 +449,7 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
       });
 
       return {
-        data: result.data.map((session) => ({
-          id: session.id,
-          impersonator: session.impersonator,
-          target: session.target,
-          organizationId: session.organizationId,
-          reason: session.reason,
-          status: session.status,
-          startedAt: session.startedAt.toISOString(),
-          endedAt: session.endedAt?.toISOString() ?? null,
-          expiresAt: session.expiresAt.toISOString(),
-        })),
+        data: result.data.map(toSessionResponse),
         pagination: result.pagination,
       };
     }
@@ -380,4 +515,150 @@ export async function impersonationRoutes(app: FastifyInstance): Promise<void> {
       return { canImpersonate };
     }
   );
+
+  // GET /organizations/:orgId/impersonation-requests - List approval requests (owners)
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/organizations/:orgId/impersonation-requests',
+    {
+      schema: {
+        params: z.object({ orgId: z.string().uuid() }),
+        querystring: paginationQuerySchema.extend({
+          status: z.enum(['pending', 'approved', 'denied']).optional(),
+        }),
+        response: {
+          200: impersonationListResponseSchema,
+          403: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireOrganizationRole(request.user!.id, orgId, 'owner');
+
+      const result = await impersonationService.getRequests(orgId, request.query);
+
+      return {
+        data: result.data.map(toSessionResponse),
+        pagination: result.pagination,
+      };
+    }
+  );
+
+  // POST /organizations/:orgId/impersonation-requests/:id/approve - Approve a request (owners)
+  // POST /organizations/:orgId/impersonation-requests/:id/deny - Deny a request (owners)
+  for (const decision of ['approve', 'deny'] as const) {
+    app.withTypeProvider<ZodTypeProvider>().post(
+      `/organizations/:orgId/impersonation-requests/:id/${decision}`,
+      {
+        schema: {
+          params: organizationRequestParamsSchema,
+          body: z.object({
+            note: z.string().max(500).optional(),
+          }).nullish(),
+          response: {
+            200: z.object({
+              success: z.literal(true),
+              message: z.string(),
+            }),
+            400: apiErrorResponseSchema,
+            403: apiErrorResponseSchema,
+            404: apiErrorResponseSchema,
+          },
+        },
+      },
+      async (request) => {
+        const orgId = createOrganizationId(request.params.orgId);
+        await requireOrganizationRole(request.user!.id, orgId, 'owner');
+
+        try {
+          await impersonationService.decideRequest(
+            request.params.id,
+            orgId,
+            request.user!.id,
+            decision === 'approve' ? 'approved' : 'denied',
+            request.body?.note
+          );
+          return {
+            success: true as const,
+            message: decision === 'approve' ? 'Impersonation request approved' : 'Impersonation request denied',
+          };
+        } catch (error) {
+          if (error instanceof Error) {
+            if (error.message.includes('not found')) {
+              throw Errors.notFound('ImpersonationRequest', request.params.id);
+            }
+            throw Errors.badRequest(error.message);
+          }
+          throw error;
+        }
+      }
+    );
+  }
+
+  // GET /organizations/:orgId/impersonation-sessions - Who accessed member accounts (admins)
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/organizations/:orgId/impersonation-sessions',
+    {
+      schema: {
+        params: z.object({ orgId: z.string().uuid() }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: accessReportResponseSchema,
+          403: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireOrganizationRole(request.user!.id, orgId, 'admin');
+
+      const result = await impersonationService.getAccessReport(orgId, request.query);
+
+      return {
+        data: result.data.map((session) => ({
+          ...toSessionResponse(session),
+          activityCount: session.activityCount,
+        })),
+        pagination: result.pagination,
+      };
+    }
+  );
+
+  // GET /organizations/:orgId/impersonation-sessions/:id/activity - API calls made in a session (admins)
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/organizations/:orgId/impersonation-sessions/:id/activity',
+    {
+      schema: {
+        params: organizationRequestParamsSchema,
+        querystring: paginationQuerySchema,
+        response: {
+          200: activityListResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      await requireOrganizationRole(request.user!.id, orgId, 'admin');
+
+      const result = await impersonationService.getSessionActivity(orgId, request.params.id, request.query);
+      if (!result) {
+        throw Errors.notFound('ImpersonationSession', request.params.id);
+      }
+
+      return {
+        data: result.data.map((activity) => ({
+          id: activity.id,
+          method: activity.method,
+          path: activity.path,
+          route: activity.route,
+          statusCode: activity.statusCode,
+          durationMs: activity.durationMs,
+          createdAt: activity.createdAt.toISOString(),
+        })),
+        pagination: result.pagination,
+      };
+    }
+  );
 }
@@ -7,27 +7,38 @@ import { FastifyInstance } from 'fastify';
 import { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { userRoutes } from './users.js';
+import { meRoutes } from './me.js';
 import { authRoutes } from './auth.js';
+import { mfaRoutes } from './mfa.js';
 import { ssoRoutes } from './sso.js';
 import { socialAuthRoutes } from './social-auth.js';
 import { tenantSwitchRoutes } from './tenant-switch.js';
 import { organizationRoutes } from './organizations.js';
 import { invitationRoutes } from './invitations.js';
+import { apiKeyRoutes } from './api-keys.js';
 import { dashboardRoutes } from './dashboard.js';
 import { auditLogRoutes } from './audit-logs.js';
 import { organizationProfileRoutes } from './organization-profiles.js';
 import { groupRoutes } from './groups.js';
 import { roleRoutes } from './roles.js';
 import { ssoConnectionRoutes } from './sso-connections.js';
+import { ssoMappingRuleRoutes } from './sso-mapping-rules.js';
 import { impersonationRoutes } from './impersonation.js';
 import { platformSettingsRoutes } from './platform-settings.js';
 import { systemSettingsRoutes } from '../admin/system-settings.js';
+import { deadLetterRoutes } from '../admin/dead-letters.js';
 import { deviceRoutes } from './devices.js';
 import { assetRoutes } from './assets.js';
 import { spaceRoutes } from './spaces.js';
 import { personRoutes } from './persons.js';
 import { activityRoutes } from './activities.js';
 import { typeManagementRoutes } from './types.js';
+import { relationshipRoutes } from './relationships.js';
+import { thresholdRuleRoutes } from './threshold-rules.js';
+import { telemetryRoutes } from './telemetry.js';
+import { deviceDecodingRoutes } from './device-decoding.js';
+import { deviceConnectivityRoutes } from './device-connectivity.js';
+import { assetTypeProfileRoutes } from './asset-type-profiles.js';
 
 export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   // Version info endpoint
@@ -49,8 +60,9 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
     })
   );
 
-  // Auth routes (email/password + social login)
+  // Auth routes (email/password + MFA + social login)
   await app.register(authRoutes, { prefix: '/auth' });
+  await app.register(mfaRoutes, { prefix: '/auth/mfa' });
   await app.register(socialAuthRoutes, { prefix: '/auth' });
   await app.register(tenantSwitchRoutes, { prefix: '/auth' });
 
@@ -60,12 +72,18 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   // User routes
   await app.register(userRoutes, { prefix: '/users' });
 
+  // Current user routes (effective permissions)
+  await app.register(meRoutes, { prefix: '/me' });
+
   // Organization routes
   await app.register(organizationRoutes, { prefix: '/organizations' });
 
   // Invitation routes (no prefix, routes include full paths)
   await app.register(invitationRoutes);
 
+  // Organization API key routes (no prefix, routes include full paths)
+  await app.register(apiKeyRoutes);
+
   // Dashboard routes (stats and metrics)
   await app.register(dashboardRoutes, { prefix: '/dashboard' });
 
@@ -84,6 +102,9 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   // SSO connection management routes (no prefix, routes include full paths with /organizations/:orgId)
   await app.register(ssoConnectionRoutes);
 
+  // SSO mapping rule routes (claims and IdP groups to memberships, groups and roles)
+  await app.register(ssoMappingRuleRoutes);
+
   // Impersonation routes (admin functionality)
   await app.register(impersonationRoutes);
 
@@ -93,6 +114,9 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   // System settings routes (system admin only)
   await app.register(systemSettingsRoutes, { prefix: '/admin/system-settings' });
 
+  // IoT bridge dead-letter queue (super admin only)
+  await app.register(deadLetterRoutes, { prefix: '/admin/dead-letters' });
+
   // Phase 7: IoT Meta-Model routes
   await app.register(deviceRoutes, { prefix: '/devices' });
   await app.register(assetRoutes, { prefix: '/assets' });
@@ -100,4 +124,12 @@ export async function registerV1Routes(app: FastifyInstance): Promise<void> {
   await app.register(personRoutes, { prefix: '/persons' });
   await app.register(activityRoutes, { prefix: '/activities' });
   await app.register(typeManagementRoutes, { prefix: '/types' });
+  await app.register(relationshipRoutes, { prefix: '/relationships' });
+
+  // IoT Platform: Telemetry pipeline routes
+  await app.register(thresholdRuleRoutes, { prefix: '/threshold-rules' });
+  await app.register(telemetryRoutes, { prefix: '/telemetry' });
+  await app.register(deviceDecodingRoutes, { prefix: '/types/device' });
+  await app.register(deviceConnectivityRoutes, { prefix: '/types/device' });
+  await app.register(assetTypeProfileRoutes, { prefix: '/types/asset' });
 }
@@ -13,6 +13,7 @@ import {
   Errors,
   createOrganizationId,
   createInvitationId,
+  createUserId,
 } from '@argus/shared';
 import {
   getInvitationRepository,
@@ -21,12 +22,16 @@ import {
   getUserOrganizationRepository,
   getUserRepository,
 } from '../../repositories/index.js';
+import { getPermissionService } from '../../services/permission.service.js';
+import { getMailService } from '../../services/mail.service.js';
 
 export async function invitationRoutes(app: FastifyInstance): Promise<void> {
   const invitationRepo = getInvitationRepository();
   const orgRepo = getOrganizationRepository();
   const memberRepo = getUserOrganizationRepository();
   const userRepo = getUserRepository();
+  const permissionService = getPermissionService();
+  const mailService = getMailService();
 
   // GET /organizations/:orgId/invitations - List invitations for an organization
   app.withTypeProvider<ZodTypeProvider>().get(
@@ -170,6 +175,19 @@ export async function invitationRoutes(app: FastifyInstance): Promise<void> {
         invitedBy: request.user!.id,
       });
 
+      const inviter = await userRepo.findById(createUserId(request.user!.id));
+      await mailService.sendInvitation({
+        to: invitation.email,
+        organizationId: orgId,
+        organizationName: org.name,
+        inviterName: inviter
+          ? [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') || inviter.email
+          : request.user!.email,
+        role: invitation.role,
+        token,
+        expiresAt: invitation.expiresAt,
+      });
+
       const isDev = process.env.NODE_ENV !== 'production';
 
       return reply.status(201).send({
@@ -184,7 +202,7 @@ export async function invitationRoutes(app: FastifyInstance): Promise<void> {
           expiresAt: invitation.expiresAt.toISOString(),
           createdAt: invitation.createdAt.toISOString(),
         },
-        // In production, this would be sent via email
+        // For development/testing, also return the token
         ...(isDev && { token }),
       });
     }
@@ -369,6 +387,8 @@ export async function invitationRoutes(app: FastifyInstance): Promise<void> {
         );
       });
 
+      await permissionService.invalidate();
+
       return {
         message: 'Successfully joined the organization',
         organizationId: invitation.organizationId,
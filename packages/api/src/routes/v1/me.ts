@@ -0,0 +1,123 @@
+/**
+ * Current user routes
+ * All routes require authentication
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  effectivePermissionsResponseSchema,
+  revokeSessionsResponseSchema,
+  sessionListResponseSchema,
+  apiErrorResponseSchema,
+  Errors,
+} from '@argus/shared';
+import { getPermissionService } from '../../services/permission.service.js';
+import { getSessionService } from '../../services/session.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+export async function meRoutes(app: FastifyInstance): Promise<void> {
+  const permissionService = getPermissionService();
+  const sessionService = getSessionService();
+
+  // All routes require a signed-in user (not an API key)
+  app.addHook('preHandler', app.authenticate);
+  app.addHook('preHandler', app.rejectApiKey);
+
+  // GET /me/permissions - Effective role permissions in the current organization
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/permissions',
+    {
+      schema: {
+        response: {
+          200: effectivePermissionsResponseSchema,
+          403: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id, organizationId } = request.user!;
+      if (!organizationId) {
+        throw Errors.forbidden('No organization context');
+      }
+      return permissionService.getEffectivePermissions(id, organizationId);
+    }
+  );
+  // GET /me/sessions - Active sign-in sessions, marking the current one
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/sessions',
+    {
+      schema: {
+        response: {
+          200: sessionListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id, sessionId } = request.user!;
+      return { data: await sessionService.listSessions(id, sessionId) };
+    }
+  );
+
+  // DELETE /me/sessions - Sign out every other session
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/sessions',
+    {
+      schema: {
+        response: {
+          200: revokeSessionsResponseSchema,
+          400: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id, email, sessionId } = request.user!;
+      if (!sessionId) {
+        throw Errors.badRequest('The current session is unknown; sign in again to manage sessions');
+      }
+
+      const revokedCount = await sessionService.revokeOtherSessions(id, sessionId);
+      await auditService.logAuth('sessions_revoked', {
+        userId: id,
+        userEmail: email,
+        outcome: 'success',
+        details: { scope: 'others', revokedCount },
+      });
+      return { revokedCount };
+    }
+  );
+
+  // DELETE /me/sessions/:sessionId - Sign out one session
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/sessions/:sessionId',
+    {
+      schema: {
+        params: z.object({
+          sessionId: z.string().uuid(),
+        }),
+        response: {
+          204: z.null(),
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, email } = request.user!;
+      const { sessionId } = request.params;
+
+      const revoked = await sessionService.revokeSession(id, sessionId);
+      if (!revoked) {
+        throw Errors.notFound('Session', sessionId);
+      }
+
+      await auditService.logAuth('session_revoked', {
+        userId: id,
+        userEmail: email,
+        outcome: 'success',
+        details: { sessionId, current: sessionId === request.user!.sessionId },
+      });
+      return reply.status(204).send(null);
+    }
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * MFA routes - TOTP enrolment, the login challenge and recovery codes
+ *
+ * /auth/login returns a challenge token instead of tokens for users with MFA
+ * (or whose organization requires it); the /challenge routes accept that token
+ * and complete the login. Failed challenge codes count towards the account
+ * lockout. The remaining routes manage MFA for the signed-in user.
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  loginResponseSchema,
+  passwordResetRequiredResponseSchema,
+  mfaChallengeVerifySchema,
+  mfaChallengeEnrollSchema,
+  mfaChallengeConfirmSchema,
+  mfaCodeRequestSchema,
+  mfaCredentialSchema,
+  mfaEnrollmentResponseSchema,
+  mfaEnrollmentLoginResponseSchema,
+  mfaRecoveryCodesResponseSchema,
+  mfaStatusResponseSchema,
+  createUserId,
+  apiErrorResponseSchema,
+  Errors,
+} from '@argus/shared';
+import {
+  getUserRepository,
+  getPasswordResetTokenRepository,
+  type User,
+} from '../../repositories/index.js';
+import { verifyMfaChallengeToken, type MfaChallengeTokenPayload } from '../../utils/index.js';
+import { createLoginSession } from '../../auth/login-session.js';
+import { getMfaService } from '../../services/mfa.service.js';
+import {
+  accountLockedMessage,
+  getPasswordPolicyService,
+} from '../../services/password-policy.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+export async function mfaRoutes(app: FastifyInstance): Promise<void> {
+  const userRepo = getUserRepository();
+  const mfaService = getMfaService();
+  const passwordPolicyService = getPasswordPolicyService();
+  const passwordResetRepo = getPasswordResetTokenRepository();
+
+  /**
+   * Resolves the user of a challenge token issued for the given purpose
+   */
+  async function getChallengeUser(
+    challengeToken: string,
+    purpose: MfaChallengeTokenPayload['purpose']
+  ): Promise<{ user: User; challenge: MfaChallengeTokenPayload }> {
+    const challenge = verifyMfaChallengeToken(challengeToken);
+    if (!challenge || challenge.purpose !== purpose) {
+      throw Errors.unauthorized('Invalid or expired MFA challenge');
+    }
+
+    const user = await userRepo.findById(createUserId(challenge.sub));
+    if (!user || user.status !== 'active') {
+      throw Errors.unauthorized('Account is not active');
+    }
+    return { user, challenge };
+  }
+
+  /**
+   * Loads the signed-in user
+   */
+  async function getCurrentUser(userId: string): Promise<User> {
+    const user = await userRepo.findById(createUserId(userId));
+    if (!user) {
+      throw Errors.notFound('User', userId);
+    }
+    return user;
+  }
+
+  // POST /auth/mfa/challenge/verify - Complete a login with a TOTP or recovery code
+  // Users whose password must be changed get a reset token instead of a session
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/challenge/verify',
+    {
+      schema: {
+        body: mfaChallengeVerifySchema,
+        response: {
+          200: z.union([loginResponseSchema, passwordResetRequiredResponseSchema]),
+          401: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { challengeToken, code, recoveryCode } = request.body;
+      const { user, challenge } = await getChallengeUser(challengeToken, 'verify');
+      const userId = createUserId(user.id);
+
+      // Failed codes count towards the same lockout as failed passwords
+      const lockedUntil = passwordPolicyService.getLockedUntil(user);
+      if (lockedUntil) {
+        throw Errors.unauthorized(accountLockedMessage(lockedUntil));
+      }
+
+      const method = await mfaService.verify(user, { code, recoveryCode });
+      if (!method) {
+        await auditService.logAuth('mfa_verify', {
+          userId,
+          userEmail: user.email,
+          outcome: 'failure',
+          details: { method: recoveryCode !== undefined ? 'recovery_code' : 'totp' },
+        });
+        const lockedNow = await passwordPolicyService.recordFailedLogin(
+          user,
+          await passwordPolicyService.getPolicy()
+        );
+        throw Errors.unauthorized(
+          lockedNow ? accountLockedMessage(lockedNow) : 'Invalid verification code'
+        );
+      }
+      await passwordPolicyService.recordSuccessfulLogin(user);
+
+      await auditService.logAuth('mfa_verify', {
+        userId,
+        userEmail: user.email,
+        details: { method },
+      });
+
+      if (challenge.passwordResetReason) {
+        const { token } = await passwordResetRepo.create(userId);
+        return {
+          passwordResetRequired: true as const,
+          reason: challenge.passwordResetReason,
+          resetToken: token,
+        };
+      }
+
+      return createLoginSession(user, {
+        userAgent: request.headers['user-agent'] ?? undefined,
+        ipAddress: request.ip,
+      });
+    }
+  );
+
+  // POST /auth/mfa/challenge/enroll - Start required enrolment during login
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/challenge/enroll',
+    {
+      schema: {
+        body: mfaChallengeEnrollSchema,
+        response: {
+          200: mfaEnrollmentResponseSchema,
+          401: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { user } = await getChallengeUser(request.body.challengeToken, 'enroll');
+
+      const enrollment = await mfaService.beginEnrollment(user);
+      if (!enrollment) {
+        throw Errors.conflict('MFA is already enabled');
+      }
+      return enrollment;
+    }
+  );
+
+  // POST /auth/mfa/challenge/confirm - Finish required enrolment and complete the login
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/challenge/confirm',
+    {
+      schema: {
+        body: mfaChallengeConfirmSchema,
+        response: {
+          200: mfaEnrollmentLoginResponseSchema,
+          400: apiErrorResponseSchema,
+          401: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { challengeToken, code } = request.body;
+      const { user } = await getChallengeUser(challengeToken, 'enroll');
+
+      const recoveryCodes = await mfaService.confirmEnrollment(user, code);
+      if (!recoveryCodes) {
+        throw Errors.badRequest('Invalid verification code or no enrolment in progress');
+      }
+
+      await auditService.logAuth('mfa_enrolled', {
+        userId: createUserId(user.id),
+        userEmail: user.email,
+        details: { duringLogin: true },
+      });
+
+      const session = await createLoginSession(user, {
+        userAgent: request.headers['user-agent'] ?? undefined,
+        ipAddress: request.ip,
+      });
+      return { ...session, recoveryCodes };
+    }
+  );
+
+  // GET /auth/mfa/status - Current user's MFA state
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/status',
+    {
+      preHandler: [app.authenticate, app.rejectApiKey],
+      schema: {
+        response: {
+          200: mfaStatusResponseSchema,
+          401: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const user = await getCurrentUser(request.user!.id);
+      return mfaService.getStatus(user);
+    }
+  );
+
+  // POST /auth/mfa/enroll - Start enrolment (returns the secret and otpauth URI)
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/enroll',
+    {
+      preHandler: [app.authenticate, app.rejectApiKey],
+      schema: {
+        response: {
+          200: mfaEnrollmentResponseSchema,
+          401: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const user = await getCurrentUser(request.user!.id);
+
+      const enrollment = await mfaService.beginEnrollment(user);
+      if (!enrollment) {
+        throw Errors.conflict('MFA is already enabled');
+      }
+      return enrollment;
+    }
+  );
+
+  // POST /auth/mfa/enroll/confirm - Verify the first code and enable MFA
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/enroll/confirm',
+    {
+      preHandler: [app.authenticate, app.rejectApiKey],
+      schema: {
+        body: mfaCodeRequestSchema,
+        response: {
+          200: mfaRecoveryCodesResponseSchema,
+          400: apiErrorResponseSchema,
+          401: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const user = await getCurrentUser(request.user!.id);
+
+      const recoveryCodes = await mfaService.confirmEnrollment(user, request.body.code);
+      if (!recoveryCodes) {
+        throw Errors.badRequest('Invalid verification code or no enrolment in progress');
+      }
+
+      await auditService.logAuth('mfa_enrolled', {
+        userId: createUserId(user.id),
+        userEmail: user.email,
+      });
+
+      return { recoveryCodes };
+    }
+  );
+
+  // POST /auth/mfa/recovery-codes - Replace recovery codes (requires a current code)
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/recovery-codes',
+    {
+      preHandler: [app.authenticate, app.rejectApiKey],
+      schema: {
+        body: mfaCodeRequestSchema,
+        response: {
+          200: mfaRecoveryCodesResponseSchema,
+          400: apiErrorResponseSchema,
+          401: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const user = await getCurrentUser(request.user!.id);
+      if (!user.mfaEnabled) {
+        throw Errors.badRequest('MFA is not enabled');
+      }
+
+      const method = await mfaService.verify(user, { code: request.body.code });
+      if (!method) {
+        throw Errors.badRequest('Invalid verification code');
+      }
+
+      const userId = createUserId(user.id);
+      const recoveryCodes = await mfaService.regenerateRecoveryCodes(userId);
+      await auditService.logAuth('mfa_recovery_codes_regenerated', {
+        userId,
+        userEmail: user.email,
+      });
+
+      return { recoveryCodes };
+    }
+  );
+
+  // POST /auth/mfa/disable - Turn MFA off (requires a current or recovery code)
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/disable',
+    {
+      preHandler: [app.authenticate, app.rejectApiKey],
+      schema: {
+        body: mfaCredentialSchema,
+        response: {
+          204: z.null(),
+          400: apiErrorResponseSchema,
+          401: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await getCurrentUser(request.user!.id);
+      if (!user.mfaEnabled) {
+        throw Errors.badRequest('MFA is not enabled');
+      }
+      if (await mfaService.isRequired(user)) {
+        throw Errors.forbidden('Your organization requires multi-factor authentication');
+      }
+
+      const method = await mfaService.verify(user, request.body);
+      if (!method) {
+        throw Errors.badRequest('Invalid verification code');
+      }
+
+      const userId = createUserId(user.id);
+      await mfaService.disable(userId);
+      await auditService.logAuth('mfa_disabled', {
+        userId,
+        userEmail: user.email,
+        details: { method },
+      });
+
+      return reply.status(204).send(null);
+    }
+  );
+}
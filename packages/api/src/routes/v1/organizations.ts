@@ -23,9 +23,13 @@ import {
   memberResponseSchema,
   organizationRoleSchema,
   userResponseSchema,
+  sessionListResponseSchema,
+  revokeSessionsResponseSchema,
   Errors,
   createOrganizationId,
   createUserId,
+  type OrganizationId,
+  type UserId,
   type UserStatus,
 } from '@argus/shared';
 import {
@@ -36,6 +40,8 @@ import {
   getSystemAdminRepository,
 } from '../../repositories/index.js';
 import { auditService } from '../../services/audit.service.js';
+import { getPermissionService } from '../../services/permission.service.js';
+import { getSessionService } from '../../services/session.service.js';
 import { hashPassword, generateRandomPassword } from '../../utils/password.js';
 
 export async function organizationRoutes(app: FastifyInstance): Promise<void> {
@@ -44,6 +50,8 @@ export async function organizationRoutes(app: FastifyInstance): Promise<void> {
   const userRepo = getUserRepository();
   const brandingRepo = getBrandingRepository();
   const systemAdminRepo = getSystemAdminRepository();
+  const permissionService = getPermissionService();
+  const sessionService = getSessionService();
 
   // ===========================================
   // Public Routes (no authentication required)
@@ -678,6 +686,8 @@ export async function organizationRoutes(app: FastifyInstance): Promise<void> {
         invitedBy: request.user!.id,
       });
 
+      await permissionService.invalidate();
+
       return reply.status(201).send({
         userId: membership.userId,
         organizationId: membership.organizationId,
@@ -740,6 +750,8 @@ export async function organizationRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('Membership');
       }
 
+      await permissionService.invalidate();
+
       return {
         userId: membership.userId,
         organizationId: membership.organizationId,
@@ -819,6 +831,174 @@ export async function organizationRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('Membership');
       }
 
+      await permissionService.invalidate();
+
+      return reply.status(204).send(null);
+    }
+  );
+
+  // ===========================================
+  // Member Session Routes
+  // ===========================================
+
+  /**
+   * Requires an admin or owner of the organization, and a target who is a member
+   */
+  async function requireMemberSessionAdmin(
+    currentUserId: UserId,
+    orgId: OrganizationId,
+    targetUserId: UserId
+  ): Promise<void> {
+    const isAdmin = await memberRepo.hasRoleOrHigher(currentUserId, orgId, 'admin');
+    if (!isAdmin) {
+      throw Errors.forbidden('Only admins and owners can manage member sessions');
+    }
+    const membership = await memberRepo.findMembership(targetUserId, orgId);
+    if (!membership) {
+      throw Errors.notFound('Membership');
+    }
+  }
+
+  // GET /organizations/:id/members/:userId/sessions - List a member's active sessions
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id/members/:userId/sessions',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          userId: z.string().uuid(),
+        }),
+        response: {
+          200: sessionListResponseSchema,
+          403: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+          404: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.id);
+      const targetUserId = createUserId(request.params.userId);
+      await requireMemberSessionAdmin(request.user!.id, orgId, targetUserId);
+
+      const currentSessionId = targetUserId === request.user!.id ? request.user!.sessionId : undefined;
+      return { data: await sessionService.listSessions(targetUserId, currentSessionId) };
+    }
+  );
+
+  // DELETE /organizations/:id/members/:userId/sessions - Sign a member out everywhere
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id/members/:userId/sessions',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          userId: z.string().uuid(),
+        }),
+        response: {
+          200: revokeSessionsResponseSchema,
+          403: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+          404: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.id);
+      const targetUserId = createUserId(request.params.userId);
+      await requireMemberSessionAdmin(request.user!.id, orgId, targetUserId);
+
+      const revokedCount = await sessionService.revokeAllSessions(targetUserId);
+      await auditService.log({
+        category: 'user_management',
+        action: 'sessions_revoked',
+        organizationId: orgId,
+        resourceType: 'user',
+        resourceId: targetUserId,
+        details: { scope: 'all', revokedCount },
+      });
+
+      return { revokedCount };
+    }
+  );
+
+  // DELETE /organizations/:id/members/:userId/sessions/:sessionId - Revoke one of a member's sessions
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id/members/:userId/sessions/:sessionId',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+          userId: z.string().uuid(),
+          sessionId: z.string().uuid(),
+        }),
+        response: {
+          204: z.null(),
+          403: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+          404: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.id);
+      const targetUserId = createUserId(request.params.userId);
+      const { sessionId } = request.params;
+      await requireMemberSessionAdmin(request.user!.id, orgId, targetUserId);
+
+      const revoked = await sessionService.revokeSession(targetUserId, sessionId);
+      if (!revoked) {
+        throw Errors.notFound('Session', sessionId);
+      }
+
+      await auditService.log({
+        category: 'user_management',
+        action: 'session_revoked',
+        organizationId: orgId,
+        resourceType: 'user',
+        resourceId: targetUserId,
+        details: { sessionId },
+      });
+
       return reply.status(204).send(null);
     }
   );
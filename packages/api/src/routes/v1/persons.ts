@@ -1,6 +1,6 @@
 /**
  * Person routes - CRUD operations for individuals in the organization
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -12,16 +12,22 @@ import {
   personResponseSchema,
   personListResponseSchema,
   personQuerySchema,
+  apiErrorResponseSchema,
   Errors,
   type OrganizationId,
   type UserId,
 } from '@argus/shared';
 import { getPersonRepository, getUserRepository } from '../../repositories/index.js';
 import { auditService } from '../../services/audit.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeFilters,
+} from '../../services/custom-attribute.service.js';
 
 export async function personRoutes(app: FastifyInstance): Promise<void> {
   const personRepo = getPersonRepository();
   const userRepo = getUserRepository();
+  const attributeService = getCustomAttributeService();
 
   // All person routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -30,10 +36,12 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
+      preHandler: app.requirePermission('persons', 'read'),
       schema: {
         querystring: personQuerySchema,
         response: {
           200: personListResponseSchema,
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -41,9 +49,23 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
       const { page, pageSize, personTypeId, department, search } = request.query;
       const organizationId = request.user!.organizationId as OrganizationId;
 
+      const { filters: attributes, errors: filterErrors } = findAttributeFilters(request.query, [
+        'department',
+        'search',
+      ]);
+      if (filterErrors.length > 0) {
+        throw Errors.badRequest('Invalid attribute filter', filterErrors);
+      }
+
       let result;
 
-      if (personTypeId) {
+      if (Object.keys(attributes).length > 0) {
+        result = await personRepo.findByAttributes(
+          organizationId,
+          attributes,
+          { page, pageSize, personTypeId }
+        );
+      } else if (personTypeId) {
         result = await personRepo.findByPersonType(
           organizationId,
           personTypeId,
@@ -106,6 +128,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/by-user/:userId',
     {
+      preHandler: app.requirePermission('persons', 'read'),
       schema: {
         params: z.object({
           userId: z.string().uuid(),
@@ -156,6 +179,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/nearby',
     {
+      preHandler: app.requirePermission('persons', 'read'),
       schema: {
         querystring: z.object({
           lat: z.coerce.number().min(-90).max(90),
@@ -205,6 +229,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id',
     {
+      preHandler: app.requirePermission('persons', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -255,18 +280,12 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/',
     {
+      preHandler: app.requirePermission('persons', 'create'),
       schema: {
         body: createPersonSchema,
         response: {
           201: personResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -305,6 +324,16 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
+      const attributes = await attributeService.validate(
+        'person',
+        personTypeId,
+        organizationId,
+        customAttributes
+      );
+      if (attributes.errors.length > 0) {
+        throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+      }
+
       const person = await personRepo.create({
         organizationId,
         personTypeId,
@@ -314,7 +343,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
         phone: phone ?? null,
         title: title ?? null,
         department: department ?? null,
-        customAttributes,
+        customAttributes: attributes.attributes,
         createdBy: currentUserId,
       });
 
@@ -352,6 +381,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id',
     {
+      preHandler: app.requirePermission('persons', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -359,6 +389,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
         body: updatePersonSchema,
         response: {
           200: personResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -376,8 +407,8 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
       const userId = request.user!.id;
 
       // Check if person exists
-      const exists = await personRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await personRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Person', id);
       }
 
@@ -392,7 +423,23 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
-      const person = await personRepo.update(id, organizationId, request.body);
+      const updateData: any = { ...request.body };
+
+      // Validate custom attributes against the (new) person type's schema
+      if (request.body.customAttributes !== undefined || request.body.personTypeId !== undefined) {
+        const attributes = await attributeService.validate(
+          'person',
+          request.body.personTypeId ?? existing.personTypeId,
+          organizationId,
+          request.body.customAttributes ?? (existing.customAttributes as Record<string, unknown>)
+        );
+        if (attributes.errors.length > 0) {
+          throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+        }
+        updateData.customAttributes = attributes.attributes;
+      }
+
+      const person = await personRepo.update(id, organizationId, updateData);
 
       // Audit log
       await auditService.log({
@@ -428,6 +475,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id/location',
     {
+      preHandler: app.requirePermission('persons', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -497,6 +545,7 @@ export async function personRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:id',
     {
+      preHandler: app.requirePermission('persons', 'delete'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
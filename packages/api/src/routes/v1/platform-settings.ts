@@ -9,7 +9,17 @@ import { type FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { platformSettingsRepository } from '../../repositories/platform-settings.repository.js';
 import { systemAdminRepository } from '../../repositories/system-admin.repository.js';
-import { type UserId } from '@argus/shared';
+import { getEmailDeliveryRepository, type EmailDelivery } from '../../repositories/email-delivery.repository.js';
+import { getMailService } from '../../services/mail.service.js';
+import {
+  emailDeliveryListResponseSchema,
+  emailDeliveryQuerySchema,
+  emailDeliveryResponseSchema,
+  sendTestEmailResponseSchema,
+  sendTestEmailSchema,
+  type EmailDeliveryResponse,
+  type UserId,
+} from '@argus/shared';
 
 // Schemas
 const settingSchema = z.object({
@@ -72,7 +82,29 @@ async function requireSuperAdmin(userId: UserId): Promise<void> {
   }
 }
 
+function formatEmailDelivery(delivery: EmailDelivery): EmailDeliveryResponse {
+  return {
+    id: delivery.id,
+    organizationId: delivery.organizationId,
+    template: delivery.template as EmailDeliveryResponse['template'],
+    toAddress: delivery.toAddress,
+    subject: delivery.subject,
+    status: delivery.status as EmailDeliveryResponse['status'],
+    attempts: delivery.attempts,
+    maxAttempts: delivery.maxAttempts,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    lastError: delivery.lastError,
+    messageId: delivery.messageId,
+    sentAt: delivery.sentAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+    updatedAt: delivery.updatedAt.toISOString(),
+  };
+}
+
 export const platformSettingsRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  const emailDeliveryRepo = getEmailDeliveryRepository();
+  const mailService = getMailService();
+
   // Require authentication for all platform settings routes
   fastify.addHook('preHandler', fastify.authenticate);
 
@@ -277,4 +309,89 @@ export const platformSettingsRoutes: FastifyPluginAsyncZod = async (fastify) =>
       };
     }
   );
+
+  // POST /platform/email/test - Send a test email with the current mail server settings
+  fastify.post(
+    '/platform/email/test',
+    {
+      schema: {
+        tags: ['Platform'],
+        summary: 'Send a test email using the configured mail server',
+        body: sendTestEmailSchema,
+        response: {
+          200: sendTestEmailResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      await requireSuperAdmin(request.user!.id);
+
+      return mailService.sendTest(request.body.to, request.user!.email);
+    }
+  );
+
+  // GET /platform/email/deliveries - Outbound email delivery log
+  fastify.get(
+    '/platform/email/deliveries',
+    {
+      schema: {
+        tags: ['Platform'],
+        summary: 'List outbound email deliveries',
+        querystring: emailDeliveryQuerySchema,
+        response: {
+          200: emailDeliveryListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      await requireSuperAdmin(request.user!.id);
+
+      const { page, pageSize, status, template } = request.query;
+      const result = await emailDeliveryRepo.list({ status, template }, { page, pageSize });
+
+      return {
+        data: result.data.map(formatEmailDelivery),
+        pagination: result.pagination,
+      };
+    }
+  );
+
+  // POST /platform/email/deliveries/:id/retry - Queue a failed email again
+  fastify.post(
+    '/platform/email/deliveries/:id/retry',
+    {
+      schema: {
+        tags: ['Platform'],
+        summary: 'Retry a failed email delivery',
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: emailDeliveryResponseSchema,
+          404: z.object({
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+            }),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      await requireSuperAdmin(request.user!.id);
+
+      const delivery = await emailDeliveryRepo.retry(request.params.id);
+
+      if (!delivery) {
+        return reply.status(404).send({
+          error: {
+            code: 'EMAIL_DELIVERY_NOT_FOUND',
+            message: `No failed email delivery '${request.params.id}'`,
+          },
+        });
+      }
+
+      return formatEmailDelivery(delivery);
+    }
+  );
 };
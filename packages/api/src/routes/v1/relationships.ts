@@ -0,0 +1,353 @@
+/**
+ * Relationship routes - typed edges between assets, devices, spaces, persons
+ * and activities, neighbour queries and multi-hop traversals
+ * Creating, changing or deleting an edge requires update permission on the
+ * resources at both ends; queries only see entities the user can read.
+ */
+
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createRelationshipSchema,
+  updateRelationshipSchema,
+  relationshipResponseSchema,
+  relationshipNeighborsQuerySchema,
+  relationshipNeighborsResponseSchema,
+  relationshipTraversalQuerySchema,
+  relationshipTraversalResponseSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type BaseType,
+  type OrganizationId,
+  type PermissionAction,
+  type RelationshipResponse,
+} from '@argus/shared';
+import type { EntityEdge } from '../../repositories/index.js';
+import { getRelationshipService } from '../../services/relationship.service.js';
+import { getPermissionService } from '../../services/permission.service.js';
+import { isApiKeyActionAllowed } from '../../services/api-key.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+/** Role permission resource of each base type */
+const ENTITY_RESOURCES: Record<BaseType, string> = {
+  Asset: 'assets',
+  Device: 'devices',
+  Space: 'spaces',
+  Person: 'persons',
+  Activity: 'activities',
+};
+
+const BASE_TYPES = Object.keys(ENTITY_RESOURCES) as BaseType[];
+
+function toRelationshipResponse(edge: EntityEdge): RelationshipResponse {
+  return {
+    id: edge.id,
+    organizationId: edge.tenantId,
+    sourceEntityType: edge.sourceEntityType,
+    sourceEntityId: edge.sourceEntityId,
+    relationshipType: edge.relationshipType,
+    targetEntityType: edge.targetEntityType,
+    targetEntityId: edge.targetEntityId,
+    metadata: (edge.metadata as Record<string, unknown> | null) ?? null,
+    validFrom: edge.validFrom?.toISOString() ?? null,
+    validUntil: edge.validUntil?.toISOString() ?? null,
+    createdAt: edge.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Checks a role permission on an entity type's resource, as
+ * app.requirePermission does for fixed resources
+ */
+async function canAccess(request: FastifyRequest, entityType: BaseType, action: PermissionAction): Promise<boolean> {
+  const user = request.user!;
+  const resource = ENTITY_RESOURCES[entityType];
+  if (user.apiKey && !isApiKeyActionAllowed(user.apiKey.permissions, resource, action)) {
+    return false;
+  }
+  return getPermissionService().hasPermission(user.id, user.organizationId as OrganizationId, resource, action);
+}
+
+async function requireAccess(request: FastifyRequest, entityTypes: BaseType[], action: PermissionAction): Promise<void> {
+  for (const entityType of new Set(entityTypes)) {
+    if (!(await canAccess(request, entityType, action))) {
+      throw Errors.forbidden(`Missing permission: ${action} ${ENTITY_RESOURCES[entityType]}`);
+    }
+  }
+}
+
+/** Base types whose entities the user can read */
+async function findReadableTypes(request: FastifyRequest): Promise<BaseType[]> {
+  const readable: BaseType[] = [];
+  for (const entityType of BASE_TYPES) {
+    if (await canAccess(request, entityType, 'read')) {
+      readable.push(entityType);
+    }
+  }
+  return readable;
+}
+
+export async function relationshipRoutes(app: FastifyInstance): Promise<void> {
+  const relationshipService = getRelationshipService();
+
+  // All relationship routes require authentication and an organization context
+  app.addHook('preHandler', app.authenticate);
+  app.addHook('preHandler', async (request) => {
+    if (!request.user?.organizationId) {
+      throw Errors.forbidden('No organization context');
+    }
+  });
+
+  // API keys may call these routes: canAccess checks the key's permissions
+  app.addHook('onRoute', (routeOptions) => {
+    routeOptions.config = { ...routeOptions.config, apiKeyAccess: true };
+  });
+
+  /**
+   * Loads an edge of the current organization after checking update
+   * permission on both ends
+   */
+  async function getManagedRelationship(request: FastifyRequest, id: string): Promise<EntityEdge> {
+    const organizationId = request.user!.organizationId as OrganizationId;
+    const edge = await relationshipService.findRelationship(organizationId, id);
+    if (!edge) {
+      throw Errors.notFound('Relationship', id);
+    }
+    await requireAccess(request, [edge.sourceEntityType, edge.targetEntityType], 'update');
+    return edge;
+  }
+
+  // POST /relationships - Create a relationship
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/',
+    {
+      schema: {
+        body: createRelationshipSchema,
+        response: {
+          201: relationshipResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const { sourceEntityType, targetEntityType } = request.body;
+      await requireAccess(request, [sourceEntityType, targetEntityType], 'update');
+
+      const error = await relationshipService.findCreateError(organizationId, request.body);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      const edge = await relationshipService.createRelationship(organizationId, request.body);
+
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId: request.user!.id,
+        action: 'relationship.created',
+        resourceType: 'relationship',
+        resourceId: edge.id,
+        details: {
+          relationshipType: edge.relationshipType,
+          sourceEntityId: edge.sourceEntityId,
+          targetEntityId: edge.targetEntityId,
+        },
+      });
+
+      return reply.status(201).send(toRelationshipResponse(edge));
+    }
+  );
+
+  // GET /relationships/neighbors - Entities directly related to an entity
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/neighbors',
+    {
+      schema: {
+        querystring: relationshipNeighborsQuerySchema,
+        response: {
+          200: relationshipNeighborsResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const { entityType, entityId, direction, relationshipTypes, asOf } = request.query;
+      await requireAccess(request, [entityType], 'read');
+
+      const neighbors = await relationshipService.getNeighbors(organizationId, {
+        entityType,
+        entityId,
+        direction,
+        relationshipTypes,
+        asOf: asOf ? new Date(asOf) : undefined,
+        entityTypes: await findReadableTypes(request),
+      });
+      if (!neighbors) {
+        throw Errors.notFound(entityType, entityId);
+      }
+
+      return {
+        data: neighbors.map((neighbor) => ({
+          direction: neighbor.direction,
+          relationship: toRelationshipResponse(neighbor.relationship),
+          entity: neighbor.entity,
+        })),
+      };
+    }
+  );
+
+  // GET /relationships/traverse - Entities reachable within maxDepth hops
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/traverse',
+    {
+      schema: {
+        querystring: relationshipTraversalQuerySchema,
+        response: {
+          200: relationshipTraversalResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const { entityType, entityId, direction, relationshipTypes, asOf, maxDepth, limit } = request.query;
+      await requireAccess(request, [entityType], 'read');
+
+      const result = await relationshipService.traverse(organizationId, {
+        entityType,
+        entityId,
+        direction,
+        relationshipTypes,
+        asOf: asOf ? new Date(asOf) : undefined,
+        entityTypes: await findReadableTypes(request),
+        maxDepth,
+        limit,
+      });
+      if (!result) {
+        throw Errors.notFound(entityType, entityId);
+      }
+
+      return {
+        ...result,
+        relationships: result.relationships.map(toRelationshipResponse),
+      };
+    }
+  );
+
+  // GET /relationships/:id - Get a relationship
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: relationshipResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const edge = await relationshipService.findRelationship(organizationId, request.params.id);
+      if (!edge) {
+        throw Errors.notFound('Relationship', request.params.id);
+      }
+      await requireAccess(request, [edge.sourceEntityType, edge.targetEntityType], 'read');
+
+      return toRelationshipResponse(edge);
+    }
+  );
+
+  // PATCH /relationships/:id - Update metadata or validity (set validUntil to end a relationship)
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateRelationshipSchema,
+        response: {
+          200: relationshipResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const edge = await getManagedRelationship(request, request.params.id);
+
+      const error = await relationshipService.findUpdateError(edge, request.body);
+      if (error) {
+        throw Errors.badRequest(error);
+      }
+
+      const updated = await relationshipService.updateRelationship(edge, request.body);
+      if (!updated) {
+        throw Errors.notFound('Relationship', request.params.id);
+      }
+
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId: request.user!.id,
+        action: 'relationship.updated',
+        resourceType: 'relationship',
+        resourceId: edge.id,
+        details: { changes: Object.keys(request.body) },
+      });
+
+      return toRelationshipResponse(updated);
+    }
+  );
+
+  // DELETE /relationships/:id - Delete a relationship and its history
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          204: z.undefined(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const edge = await getManagedRelationship(request, request.params.id);
+
+      await relationshipService.deleteRelationship(edge);
+
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId: request.user!.id,
+        action: 'relationship.deleted',
+        resourceType: 'relationship',
+        resourceId: edge.id,
+        details: {
+          relationshipType: edge.relationshipType,
+          sourceEntityId: edge.sourceEntityId,
+          targetEntityId: edge.targetEntityId,
+        },
+      });
+
+      return reply.status(204).send();
+    }
+  );
+}
@@ -29,6 +29,7 @@ import {
   getUserOrganizationRepository,
   getGroupRepository,
 } from '../../repositories/index.js';
+import { getPermissionService } from '../../services/permission.service.js';
 
 export async function roleRoutes(app: FastifyInstance): Promise<void> {
   const roleRepo = getRoleRepository();
@@ -36,6 +37,7 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
   const userRepo = getUserRepository();
   const memberRepo = getUserOrganizationRepository();
   const groupRepo = getGroupRepository();
+  const permissionService = getPermissionService();
 
   // All role routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -324,6 +326,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('Role', id);
       }
 
+      await permissionService.invalidate();
+
       return {
         id: role.id,
         name: role.name,
@@ -390,6 +394,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('Role', id);
       }
 
+      await permissionService.invalidate();
+
       return reply.status(204).send(null);
     }
   );
@@ -529,6 +535,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         expiresAt: expiresAt ? new Date(expiresAt) : undefined,
       });
 
+      await permissionService.invalidate();
+
       return reply.status(201).send({
         userId: assignment.userId,
         roleId: assignment.roleId,
@@ -592,6 +600,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('RoleAssignment');
       }
 
+      await permissionService.invalidate();
+
       return reply.status(204).send(null);
     }
   );
@@ -675,6 +685,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         assignedBy: request.user!.id,
       });
 
+      await permissionService.invalidate();
+
       return reply.status(201).send({
         groupId: assignment.groupId,
         roleId: assignment.roleId,
@@ -741,6 +753,8 @@ export async function roleRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('RoleAssignment');
       }
 
+      await permissionService.invalidate();
+
       return reply.status(204).send(null);
     }
   );
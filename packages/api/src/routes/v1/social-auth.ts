@@ -255,11 +255,17 @@ export async function socialAuthRoutes(app: FastifyInstance): Promise<void> {
         };
 
         // Generate tokens with organization context
-        const accessToken = signAccessToken(userId, user.email, organizationContext);
-        const { token: refreshToken } = await refreshTokenRepo.create(userId, {
+        const { token: refreshToken, record } = await refreshTokenRepo.create(userId, {
           userAgent: request.headers['user-agent'],
           ipAddress: request.ip,
         });
+        const accessToken = signAccessToken(
+          userId,
+          user.email,
+          organizationContext,
+          undefined,
+          record.familyId
+        );
 
         // Redirect with tokens in URL fragment to the auth callback handler
         const returnUrl = stateData.returnUrl || '/auth/callback';
@@ -487,11 +493,17 @@ export async function socialAuthRoutes(app: FastifyInstance): Promise<void> {
         };
 
         // Generate tokens with organization context
-        const accessToken = signAccessToken(userId, user.email, organizationContext);
-        const { token: refreshToken } = await refreshTokenRepo.create(userId, {
+        const { token: refreshToken, record } = await refreshTokenRepo.create(userId, {
           userAgent: request.headers['user-agent'],
           ipAddress: request.ip,
         });
+        const accessToken = signAccessToken(
+          userId,
+          user.email,
+          organizationContext,
+          undefined,
+          record.familyId
+        );
 
         // Redirect with tokens in URL fragment to the auth callback handler
         const returnUrl = stateData.returnUrl || '/auth/callback';
@@ -1,6 +1,6 @@
 /**
  * Space routes - CRUD operations for hierarchical locations
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -14,14 +14,20 @@ import {
   spaceQuerySchema,
   nearbySpacesQuerySchema,
   pointInSpaceQuerySchema,
+  apiErrorResponseSchema,
   Errors,
   type OrganizationId,
 } from '@argus/shared';
 import { getSpaceRepository } from '../../repositories/index.js';
 import { auditService } from '../../services/audit.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeFilters,
+} from '../../services/custom-attribute.service.js';
 
 export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   const spaceRepo = getSpaceRepository();
+  const attributeService = getCustomAttributeService();
 
   // All space routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -30,10 +36,12 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
+      preHandler: app.requirePermission('spaces', 'read'),
       schema: {
         querystring: spaceQuerySchema,
         response: {
           200: spaceListResponseSchema,
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -41,9 +49,25 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
       const { page, pageSize, spaceTypeId, parentSpaceId, floorLevel, rootOnly, search } = request.query;
       const organizationId = request.user!.organizationId as OrganizationId;
 
+      const { filters: attributes, errors: filterErrors } = findAttributeFilters(request.query, [
+        'parentSpaceId',
+        'floorLevel',
+        'rootOnly',
+        'search',
+      ]);
+      if (filterErrors.length > 0) {
+        throw Errors.badRequest('Invalid attribute filter', filterErrors);
+      }
+
       let result;
 
-      if (spaceTypeId) {
+      if (Object.keys(attributes).length > 0) {
+        result = await spaceRepo.findByAttributes(
+          organizationId,
+          attributes,
+          { page, pageSize, spaceTypeId }
+        );
+      } else if (spaceTypeId) {
         result = await spaceRepo.findBySpaceType(
           organizationId,
           spaceTypeId,
@@ -127,6 +151,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/nearby',
     {
+      preHandler: app.requirePermission('spaces', 'read'),
       schema: {
         querystring: nearbySpacesQuerySchema,
         response: {
@@ -188,6 +213,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/containing',
     {
+      preHandler: app.requirePermission('spaces', 'read'),
       schema: {
         querystring: pointInSpaceQuerySchema,
         response: {
@@ -247,6 +273,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id',
     {
+      preHandler: app.requirePermission('spaces', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -307,6 +334,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:id/children',
     {
+      preHandler: app.requirePermission('spaces', 'read'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -381,18 +409,12 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/',
     {
+      preHandler: app.requirePermission('spaces', 'create'),
       schema: {
         body: createSpaceSchema,
         response: {
           201: spaceResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -434,6 +456,16 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
         }
       }
 
+      const attributes = await attributeService.validate(
+        'space',
+        spaceTypeId,
+        organizationId,
+        customAttributes
+      );
+      if (attributes.errors.length > 0) {
+        throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+      }
+
       const space = await spaceRepo.create({
         organizationId,
         spaceTypeId,
@@ -451,7 +483,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
           ? JSON.stringify(geofence) // Store as GeoJSON
           : null,
         isActive,
-        customAttributes,
+        customAttributes: attributes.attributes,
         createdBy: userId,
       });
 
@@ -499,6 +531,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:id',
     {
+      preHandler: app.requirePermission('spaces', 'update'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
@@ -506,6 +539,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
         body: updateSpaceSchema,
         response: {
           200: spaceResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -523,8 +557,8 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
       const userId = request.user!.id;
 
       // Check if space exists
-      const exists = await spaceRepo.exists(id, organizationId);
-      if (!exists) {
+      const existing = await spaceRepo.findById(id, organizationId);
+      if (!existing) {
         throw Errors.notFound('Space', id);
       }
 
@@ -546,6 +580,20 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
 
       const updateData: any = { ...request.body };
 
+      // Validate custom attributes against the (new) space type's schema
+      if (request.body.customAttributes !== undefined || request.body.spaceTypeId !== undefined) {
+        const attributes = await attributeService.validate(
+          'space',
+          request.body.spaceTypeId ?? existing.spaceTypeId,
+          organizationId,
+          request.body.customAttributes ?? (existing.customAttributes as Record<string, unknown>)
+        );
+        if (attributes.errors.length > 0) {
+          throw Errors.badRequest('Invalid custom attributes', attributes.errors);
+        }
+        updateData.customAttributes = attributes.attributes;
+      }
+
       // Handle geolocation update
       if (request.body.geolocation) {
         const { lat, lng } = request.body.geolocation;
@@ -612,6 +660,7 @@ export async function spaceRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:id',
     {
+      preHandler: app.requirePermission('spaces', 'delete'),
       schema: {
         params: z.object({
           id: z.string().uuid(),
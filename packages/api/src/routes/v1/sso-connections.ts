@@ -9,12 +9,15 @@ import { z } from 'zod';
 import {
   Errors,
   createOrganizationId,
+  scimTokenResponseSchema,
 } from '@argus/shared';
 import {
   getIdentityProviderRepository,
   getOrganizationRepository,
   getUserOrganizationRepository,
 } from '../../repositories/index.js';
+import { getScimService } from '../../services/scim.service.js';
+import { auditService } from '../../services/audit.service.js';
 
 // Identity provider type enum for validation
 const identityProviderTypeSchema = z.enum([
@@ -88,6 +91,8 @@ const ssoConnectionResponseSchema = z.object({
   enabled: z.boolean(),
   autoCreateUsers: z.boolean(),
   autoLinkUsers: z.boolean(),
+  scimEnabled: z.boolean(),
+  scimTokenCreatedAt: z.string().nullable(),
   linkedUsersCount: z.number(),
   createdAt: z.string(),
   updatedAt: z.string(),
@@ -118,6 +123,7 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
   const providerRepo = getIdentityProviderRepository();
   const orgRepo = getOrganizationRepository();
   const memberRepo = getUserOrganizationRepository();
+  const scimService = getScimService();
 
   // All routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -177,6 +183,8 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
           enabled: provider.enabled,
           autoCreateUsers: provider.autoCreateUsers,
           autoLinkUsers: provider.autoLinkUsers,
+          scimEnabled: provider.scimTokenHash !== null,
+          scimTokenCreatedAt: provider.scimTokenCreatedAt?.toISOString() ?? null,
           linkedUsersCount: provider.linkedUsersCount,
           createdAt: provider.createdAt.toISOString(),
           updatedAt: provider.updatedAt.toISOString(),
@@ -238,6 +246,8 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
         enabled: provider.enabled,
         autoCreateUsers: provider.autoCreateUsers,
         autoLinkUsers: provider.autoLinkUsers,
+        scimEnabled: provider.scimTokenHash !== null,
+        scimTokenCreatedAt: provider.scimTokenCreatedAt?.toISOString() ?? null,
         linkedUsersCount: provider.linkedUsersCount,
         createdAt: provider.createdAt.toISOString(),
         updatedAt: provider.updatedAt.toISOString(),
@@ -306,6 +316,8 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
         enabled: provider.enabled,
         autoCreateUsers: provider.autoCreateUsers,
         autoLinkUsers: provider.autoLinkUsers,
+        scimEnabled: provider.scimTokenHash !== null,
+        scimTokenCreatedAt: provider.scimTokenCreatedAt?.toISOString() ?? null,
         linkedUsersCount: 0,
         createdAt: provider.createdAt.toISOString(),
         updatedAt: provider.updatedAt.toISOString(),
@@ -379,6 +391,8 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
         enabled: provider.enabled,
         autoCreateUsers: provider.autoCreateUsers,
         autoLinkUsers: provider.autoLinkUsers,
+        scimEnabled: provider.scimTokenHash !== null,
+        scimTokenCreatedAt: provider.scimTokenCreatedAt?.toISOString() ?? null,
         linkedUsersCount,
         createdAt: provider.createdAt.toISOString(),
         updatedAt: provider.updatedAt.toISOString(),
@@ -447,6 +461,104 @@ export async function ssoConnectionRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  // POST /organizations/:orgId/sso-connections/:id/scim-token - Generate SCIM token
+  // Replaces any previous token; the token is only returned here
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/organizations/:orgId/sso-connections/:id/scim-token',
+    {
+      schema: {
+        params: z.object({
+          orgId: z.string().uuid(),
+          id: z.string().uuid(),
+        }),
+        response: {
+          201: scimTokenResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const { id } = request.params;
+
+      // Check if user is admin or owner
+      const hasPermission = await memberRepo.hasRoleOrHigher(request.user!.id, orgId, 'admin');
+      if (!hasPermission) {
+        throw Errors.forbidden('Only admins and owners can manage SCIM provisioning');
+      }
+
+      // SCIM provisions into the provider's organization, so global providers are excluded
+      const provider = await providerRepo.findById(id);
+      if (!provider || provider.organizationId !== orgId) {
+        throw Errors.notFound('SSO Connection', id);
+      }
+
+      const result = await scimService.generateToken(id);
+      if (!result) {
+        throw Errors.notFound('SSO Connection', id);
+      }
+
+      await auditService.log({
+        category: 'organization_management',
+        action: provider.scimTokenHash ? 'scim_token_rotated' : 'scim_token_generated',
+        organizationId: orgId,
+        resourceType: 'identity_provider',
+        resourceId: id,
+      });
+
+      return reply.status(201).send({
+        token: result.token,
+        createdAt: result.createdAt.toISOString(),
+      });
+    }
+  );
+
+  // DELETE /organizations/:orgId/sso-connections/:id/scim-token - Revoke SCIM token
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/organizations/:orgId/sso-connections/:id/scim-token',
+    {
+      schema: {
+        params: z.object({
+          orgId: z.string().uuid(),
+          id: z.string().uuid(),
+        }),
+        response: {
+          204: z.null(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const { id } = request.params;
+
+      // Check if user is admin or owner
+      const hasPermission = await memberRepo.hasRoleOrHigher(request.user!.id, orgId, 'admin');
+      if (!hasPermission) {
+        throw Errors.forbidden('Only admins and owners can manage SCIM provisioning');
+      }
+
+      const provider = await providerRepo.findById(id);
+      if (!provider || provider.organizationId !== orgId || !provider.scimTokenHash) {
+        throw Errors.notFound('SCIM token', id);
+      }
+
+      await scimService.revokeToken(id);
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'scim_token_revoked',
+        organizationId: orgId,
+        resourceType: 'identity_provider',
+        resourceId: id,
+      });
+
+      return reply.status(204).send(null);
+    }
+  );
+
   // POST /organizations/:orgId/sso-connections/:id/test - Test SSO connection
   app.withTypeProvider<ZodTypeProvider>().post(
     '/organizations/:orgId/sso-connections/:id/test',
@@ -0,0 +1,268 @@
+/**
+ * SSO Mapping Rule Routes
+ * Rules that map an SSO connection's claims, SAML attributes and groups to
+ * organization memberships, user groups and roles, applied at every login
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  apiErrorResponseSchema,
+  Errors,
+  createOrganizationId,
+  createSsoMappingRuleSchema,
+  ssoMappingRuleListResponseSchema,
+  ssoMappingRuleResponseSchema,
+  ssoMappingTestResultSchema,
+  testSsoMappingSchema,
+  updateSsoMappingRuleSchema,
+  type OrganizationId,
+  type SsoMappingRuleResponse,
+  type UserId,
+} from '@argus/shared';
+import {
+  getIdentityProviderRepository,
+  getUserOrganizationRepository,
+  type IdentityProvider,
+  type SsoMappingRule,
+} from '../../repositories/index.js';
+import { getSsoMappingService } from '../../services/sso-mapping.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+const connectionParamsSchema = z.object({
+  orgId: z.string().uuid(),
+  id: z.string().uuid(),
+});
+
+const ruleParamsSchema = connectionParamsSchema.extend({
+  ruleId: z.string().uuid(),
+});
+
+function toRuleResponse(rule: SsoMappingRule): SsoMappingRuleResponse {
+  return {
+    id: rule.id,
+    providerId: rule.providerId,
+    name: rule.name,
+    claim: rule.claim,
+    operator: rule.operator,
+    value: rule.value,
+    organizationId: rule.organizationId,
+    organizationRole: rule.organizationRole === 'owner' ? 'admin' : rule.organizationRole,
+    groupId: rule.groupId,
+    roleId: rule.roleId,
+    enabled: rule.enabled,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+export async function ssoMappingRuleRoutes(app: FastifyInstance): Promise<void> {
+  const providerRepo = getIdentityProviderRepository();
+  const memberRepo = getUserOrganizationRepository();
+  const mappingService = getSsoMappingService();
+
+  // All routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  /**
+   * Loads an SSO connection owned by the organization after checking that the
+   * user is an admin or owner there (global connections have no rules)
+   */
+  async function getManagedProvider(userId: UserId, orgId: OrganizationId, id: string): Promise<IdentityProvider> {
+    const hasPermission = await memberRepo.hasRoleOrHigher(userId, orgId, 'admin');
+    if (!hasPermission) {
+      throw Errors.forbidden('Only admins and owners can manage SSO mapping rules');
+    }
+
+    const provider = await providerRepo.findById(id);
+    if (!provider || provider.organizationId !== orgId) {
+      throw Errors.notFound('SSO Connection', id);
+    }
+    return provider;
+  }
+
+  // GET /organizations/:orgId/sso-connections/:id/mapping-rules - List mapping rules
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/organizations/:orgId/sso-connections/:id/mapping-rules',
+    {
+      schema: {
+        params: connectionParamsSchema,
+        response: {
+          200: ssoMappingRuleListResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const provider = await getManagedProvider(request.user!.id, orgId, request.params.id);
+
+      const rules = await mappingService.listRules(provider.id);
+      return { data: rules.map(toRuleResponse) };
+    }
+  );
+
+  // POST /organizations/:orgId/sso-connections/:id/mapping-rules - Create mapping rule
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/organizations/:orgId/sso-connections/:id/mapping-rules',
+    {
+      schema: {
+        params: connectionParamsSchema,
+        body: createSsoMappingRuleSchema,
+        response: {
+          201: ssoMappingRuleResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const provider = await getManagedProvider(request.user!.id, orgId, request.params.id);
+
+      const targetError = await mappingService.findTargetError(provider, {
+        organizationId: request.body.organizationId ?? orgId,
+        groupId: request.body.groupId,
+        roleId: request.body.roleId,
+      });
+      if (targetError) {
+        throw Errors.badRequest(targetError);
+      }
+
+      const rule = await mappingService.createRule(provider, request.body);
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'sso_mapping_rule_created',
+        organizationId: orgId,
+        resourceType: 'identity_provider',
+        resourceId: provider.id,
+        details: { ruleId: rule.id, name: rule.name },
+      });
+
+      return reply.status(201).send(toRuleResponse(rule));
+    }
+  );
+
+  // POST /organizations/:orgId/sso-connections/:id/mapping-rules/test - Test mapping rules
+  // Shows what a login with the sample profile would be granted; changes nothing
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/organizations/:orgId/sso-connections/:id/mapping-rules/test',
+    {
+      schema: {
+        params: connectionParamsSchema,
+        body: testSsoMappingSchema,
+        response: {
+          200: ssoMappingTestResultSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const provider = await getManagedProvider(request.user!.id, orgId, request.params.id);
+
+      const { email, claims } = request.body;
+      return mappingService.testMappings(provider.id, email ? { ...claims, email } : claims);
+    }
+  );
+
+  // PATCH /organizations/:orgId/sso-connections/:id/mapping-rules/:ruleId - Update mapping rule
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/organizations/:orgId/sso-connections/:id/mapping-rules/:ruleId',
+    {
+      schema: {
+        params: ruleParamsSchema,
+        body: updateSsoMappingRuleSchema,
+        response: {
+          200: ssoMappingRuleResponseSchema,
+          400: apiErrorResponseSchema,
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const provider = await getManagedProvider(request.user!.id, orgId, request.params.id);
+
+      const rule = await mappingService.findRule(provider.id, request.params.ruleId);
+      if (!rule) {
+        throw Errors.notFound('SSO mapping rule', request.params.ruleId);
+      }
+
+      const operator = request.body.operator ?? rule.operator;
+      const value = request.body.value !== undefined ? request.body.value : rule.value;
+      if (operator !== 'exists' && !value) {
+        throw Errors.badRequest(`A value is required for the ${operator} operator`);
+      }
+
+      const targetError = await mappingService.findTargetError(provider, {
+        organizationId: request.body.organizationId ?? rule.organizationId,
+        groupId: request.body.groupId !== undefined ? request.body.groupId : rule.groupId,
+        roleId: request.body.roleId !== undefined ? request.body.roleId : rule.roleId,
+      });
+      if (targetError) {
+        throw Errors.badRequest(targetError);
+      }
+
+      const updated = await mappingService.updateRule(rule, request.body);
+      if (!updated) {
+        throw Errors.notFound('SSO mapping rule', request.params.ruleId);
+      }
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'sso_mapping_rule_updated',
+        organizationId: orgId,
+        resourceType: 'identity_provider',
+        resourceId: provider.id,
+        details: { ruleId: rule.id, changes: Object.keys(request.body) },
+      });
+
+      return toRuleResponse(updated);
+    }
+  );
+
+  // DELETE /organizations/:orgId/sso-connections/:id/mapping-rules/:ruleId - Delete mapping rule
+  // What the rule granted is removed at each user's next login
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/organizations/:orgId/sso-connections/:id/mapping-rules/:ruleId',
+    {
+      schema: {
+        params: ruleParamsSchema,
+        response: {
+          204: z.null(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const orgId = createOrganizationId(request.params.orgId);
+      const provider = await getManagedProvider(request.user!.id, orgId, request.params.id);
+
+      const rule = await mappingService.findRule(provider.id, request.params.ruleId);
+      if (!rule) {
+        throw Errors.notFound('SSO mapping rule', request.params.ruleId);
+      }
+
+      await mappingService.deleteRule(rule.id);
+
+      await auditService.log({
+        category: 'organization_management',
+        action: 'sso_mapping_rule_deleted',
+        organizationId: orgId,
+        resourceType: 'identity_provider',
+        resourceId: provider.id,
+        details: { ruleId: rule.id, name: rule.name },
+      });
+
+      return reply.status(204).send(null);
+    }
+  );
+}
@@ -26,6 +26,7 @@ import type {
   SamlConfig,
 } from '../../db/schema/identity-providers.js';
 import { getRefreshTokenRepository } from '../../repositories/index.js';
+import { getSsoDiscoveryService } from '../../services/sso-discovery.service.js';
 import { signAccessToken } from '../../utils/index.js';
 
 // State storage (use Redis in production)
@@ -49,6 +50,7 @@ function getAndClearState(state: string): SsoSessionState | undefined {
 
 export async function ssoRoutes(app: FastifyInstance): Promise<void> {
   const refreshTokenRepo = getRefreshTokenRepository();
+  const ssoDiscoveryService = getSsoDiscoveryService();
 
   // Helper to generate tokens after SSO auth
   async function generateTokens(
@@ -57,14 +59,20 @@ export async function ssoRoutes(app: FastifyInstance): Promise<void> {
   ) {
     const result = await ssoService.authenticateWithProfile(profile);
 
-    const accessToken = signAccessToken(result.user.id, result.user.email);
-    const { token: refreshToken } = await refreshTokenRepo.create(
+    const { token: refreshToken, record } = await refreshTokenRepo.create(
       result.user.id,
       {
         userAgent: request.headers['user-agent'],
         ipAddress: request.ip,
       }
     );
+    const accessToken = signAccessToken(
+      result.user.id,
+      result.user.email,
+      undefined,
+      undefined,
+      record.familyId
+    );
 
     return {
       accessToken,
@@ -110,6 +118,44 @@ export async function ssoRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  // POST /sso/discover - Home-realm discovery for the login page
+  // Uses the root organization resolved from the subdomain, when there is one
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/discover',
+    {
+      schema: {
+        body: z.object({
+          email: z.string().email().transform((e) => e.toLowerCase().trim()),
+        }),
+        response: {
+          200: z.object({
+            method: z.enum(['password', 'sso']),
+            ssoRequired: z.boolean(),
+            providers: z.array(
+              z.object({
+                id: z.string(),
+                type: z.string(),
+                name: z.string(),
+                displayName: z.string().nullable(),
+                authorizeUrl: z.string(),
+              })
+            ),
+          }),
+        },
+      },
+    },
+    async (request) => {
+      const result = await ssoDiscoveryService.discover(request.body.email, request.rootOrganizationId);
+      return {
+        ...result,
+        providers: result.providers.map((provider) => ({
+          ...provider,
+          authorizeUrl: `/api/v1/sso/${provider.id}/authorize`,
+        })),
+      };
+    }
+  );
+
   // GET /sso/:providerId/authorize - Initiate SSO flow
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:providerId/authorize',
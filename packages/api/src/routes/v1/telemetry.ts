@@ -0,0 +1,163 @@
+/**
+ * Telemetry routes - latest values, raw range queries and bucketed aggregates
+ * for devices and assets
+ * All routes require authentication
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  telemetryEntityParamsSchema,
+  telemetryLatestQuerySchema,
+  telemetryLatestResponseSchema,
+  telemetryRangeQuerySchema,
+  telemetryRangeResponseSchema,
+  telemetryAggregateQuerySchema,
+  telemetryAggregateResponseSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type OrganizationId,
+} from '@argus/shared';
+import {
+  getTelemetryQueryService,
+  decodeTelemetryCursor,
+  TELEMETRY_INTERVAL_MS,
+  MAX_TELEMETRY_BUCKETS,
+} from '../../services/telemetry-query.service.js';
+
+export async function telemetryRoutes(app: FastifyInstance): Promise<void> {
+  const telemetryService = getTelemetryQueryService();
+
+  // All telemetry routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  /**
+   * Ensures the entity is a device or asset in the organization
+   */
+  async function requireEntity(organizationId: OrganizationId, entityId: string) {
+    const entityType = await telemetryService.resolveEntityType(organizationId, entityId);
+    if (!entityType) {
+      throw Errors.notFound('Entity', entityId);
+    }
+    return entityType;
+  }
+
+  // GET /telemetry/:entityId/latest - Latest value per metric
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:entityId/latest',
+    {
+      preHandler: app.requirePermission('telemetry', 'read'),
+      schema: {
+        params: telemetryEntityParamsSchema,
+        querystring: telemetryLatestQuerySchema,
+        response: {
+          200: telemetryLatestResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { entityId } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      await requireEntity(organizationId, entityId);
+      const data = await telemetryService.getLatest(
+        organizationId,
+        entityId,
+        request.query.metricKeys
+      );
+
+      return { entityId, data };
+    }
+  );
+
+  // GET /telemetry/:entityId/history - Raw readings for one metric
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:entityId/history',
+    {
+      preHandler: app.requirePermission('telemetry', 'read'),
+      schema: {
+        params: telemetryEntityParamsSchema,
+        querystring: telemetryRangeQuerySchema,
+        response: {
+          200: telemetryRangeResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { entityId } = request.params;
+      const { metricKey, from, to, limit, cursor } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const position = cursor ? decodeTelemetryCursor(cursor) : undefined;
+      if (position === null) {
+        throw Errors.badRequest('Invalid cursor');
+      }
+
+      await requireEntity(organizationId, entityId);
+      const result = await telemetryService.getRange(
+        organizationId,
+        entityId,
+        metricKey,
+        new Date(from),
+        new Date(to),
+        limit,
+        position
+      );
+
+      return { entityId, ...result };
+    }
+  );
+
+  // GET /telemetry/:entityId/aggregate - Bucketed aggregate for an entity or asset subtree
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:entityId/aggregate',
+    {
+      preHandler: app.requirePermission('telemetry', 'read'),
+      schema: {
+        params: telemetryEntityParamsSchema,
+        querystring: telemetryAggregateQuerySchema,
+        response: {
+          200: telemetryAggregateResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { entityId } = request.params;
+      const { metricKey, from, to, interval, aggregation, scope } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const fromDate = new Date(from);
+      const toDate = new Date(to);
+      const bucketCount = (toDate.getTime() - fromDate.getTime()) / TELEMETRY_INTERVAL_MS[interval];
+      if (bucketCount > MAX_TELEMETRY_BUCKETS) {
+        throw Errors.badRequest(
+          `Time range spans more than ${MAX_TELEMETRY_BUCKETS} ${interval} buckets; use a wider interval`
+        );
+      }
+
+      const entityType = await requireEntity(organizationId, entityId);
+      if (scope === 'subtree' && entityType !== 'asset') {
+        throw Errors.badRequest('Subtree scope is only supported for assets');
+      }
+
+      const result = await telemetryService.getAggregate(
+        organizationId,
+        entityId,
+        scope,
+        metricKey,
+        fromDate,
+        toDate,
+        interval,
+        aggregation
+      );
+
+      return { entityId, metricKey, interval, aggregation, scope, ...result };
+    }
+  );
+}
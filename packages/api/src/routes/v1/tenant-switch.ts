@@ -28,11 +28,12 @@ export async function tenantSwitchRoutes(app: FastifyInstance): Promise<void> {
    * with updated currentOrganizationId.
    *
    * Users can switch to any organization they have access to within their root organization.
+   * Impersonation tokens cannot be switched.
    */
   app.withTypeProvider<ZodTypeProvider>().post(
     '/switch-organization',
     {
-      preHandler: app.authenticate,
+      preHandler: [app.authenticate, app.rejectApiKey],
       schema: {
         body: z.object({
           // Can switch by organization ID or org code
@@ -87,6 +88,11 @@ export async function tenantSwitchRoutes(app: FastifyInstance): Promise<void> {
       const { organizationId, orgCode } = request.body;
       const userId = createUserId(request.user!.id);
 
+      // A switched token would not be tied to the impersonation session
+      if (request.user!.impersonation) {
+        throw Errors.forbidden('Impersonation sessions cannot switch organizations');
+      }
+
       // Get user to access root organization
       const user = await userRepo.findById(userId);
       if (!user) {
@@ -160,7 +166,13 @@ export async function tenantSwitchRoutes(app: FastifyInstance): Promise<void> {
       };
 
       // Issue new access token with updated context
-      const accessToken = signAccessToken(userId, user.email, organizationContext);
+      const accessToken = signAccessToken(
+        userId,
+        user.email,
+        organizationContext,
+        undefined,
+        request.user!.sessionId
+      );
 
       return {
         accessToken,
@@ -184,7 +196,7 @@ export async function tenantSwitchRoutes(app: FastifyInstance): Promise<void> {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/current-organization',
     {
-      preHandler: app.authenticate,
+      preHandler: [app.authenticate, app.rejectApiKey],
       schema: {
         response: {
           200: z.object({
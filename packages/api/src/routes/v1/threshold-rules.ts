@@ -0,0 +1,342 @@
+/**
+ * Threshold rule routes - CRUD for alerting rules plus dry-run replay
+ * All routes require authentication
+ */
+
+import { FastifyInstance } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  createThresholdRuleSchema,
+  updateThresholdRuleSchema,
+  thresholdRuleResponseSchema,
+  thresholdRuleListResponseSchema,
+  thresholdRuleQuerySchema,
+  thresholdRuleDryRunSchema,
+  thresholdRuleDryRunResponseSchema,
+  thresholdConditionSchema,
+  apiErrorResponseSchema,
+  Errors,
+  type OrganizationId,
+  type ThresholdActivityConfig,
+} from '@argus/shared';
+import {
+  getThresholdRuleRepository,
+  getTypeDefinitionRepository,
+} from '../../repositories/index.js';
+import type { ThresholdRule } from '../../db/schema/index.js';
+import { getThresholdEngineService } from '../../services/threshold-engine.service.js';
+import { auditService } from '../../services/audit.service.js';
+
+function toThresholdRuleResponse(rule: ThresholdRule) {
+  return {
+    id: rule.id,
+    organizationId: rule.tenantId,
+    name: rule.name,
+    description: rule.description,
+    assetTypeId: rule.assetTypeId,
+    specificAssetIds: rule.specificAssetIds,
+    metricKey: rule.metricKey,
+    condition: thresholdConditionSchema.parse(rule.condition),
+    warningThreshold: rule.warningThreshold === null ? null : Number(rule.warningThreshold),
+    criticalThreshold: rule.criticalThreshold === null ? null : Number(rule.criticalThreshold),
+    hysteresis: Number(rule.hysteresis ?? 0),
+    debounceSeconds: rule.debounceSeconds ?? 0,
+    cooldownSeconds: rule.cooldownSeconds ?? 0,
+    eventType: rule.eventType,
+    eventSeverity: rule.eventSeverity,
+    eventPriority: rule.eventPriority ?? 3,
+    messageTemplate: rule.messageTemplate,
+    isActive: rule.isActive ?? true,
+    createdBy: rule.createdBy,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+function toNumeric(value: number | null | undefined): string | null | undefined {
+  if (value === undefined) return undefined;
+  return value === null ? null : String(value);
+}
+
+export async function thresholdRuleRoutes(app: FastifyInstance): Promise<void> {
+  const ruleRepo = getThresholdRuleRepository();
+  const typeRepo = getTypeDefinitionRepository();
+  const engine = getThresholdEngineService();
+
+  // All threshold rule routes require authentication
+  app.addHook('preHandler', app.authenticate);
+
+  /**
+   * Ensures referenced asset and activity types belong to the organization
+   */
+  async function validateReferences(
+    organizationId: OrganizationId,
+    assetTypeId: string | null | undefined,
+    activity: ThresholdActivityConfig | undefined
+  ): Promise<void> {
+    if (assetTypeId && !(await typeRepo.exists('asset', assetTypeId, organizationId))) {
+      throw Errors.badRequest(`Asset type not found: ${assetTypeId}`);
+    }
+    if (
+      activity &&
+      !(await typeRepo.exists('activity', activity.activityTypeId, organizationId))
+    ) {
+      throw Errors.badRequest(`Activity type not found: ${activity.activityTypeId}`);
+    }
+  }
+
+  // GET /threshold-rules - List rules in current organization
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'read'),
+      schema: {
+        querystring: thresholdRuleQuerySchema,
+        response: {
+          200: thresholdRuleListResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { page, pageSize, assetTypeId, metricKey, isActive } = request.query;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const result = await ruleRepo.findAllInTenant(
+        organizationId,
+        { assetTypeId, metricKey, isActive },
+        { page, pageSize }
+      );
+
+      return {
+        data: result.data.map(toThresholdRuleResponse),
+        pagination: result.pagination,
+      };
+    }
+  );
+
+  // GET /threshold-rules/:id - Get a specific rule
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/:id',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'read'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          200: thresholdRuleResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      const rule = await ruleRepo.findById(id, organizationId);
+      if (!rule) {
+        throw Errors.notFound('Threshold rule', id);
+      }
+
+      return toThresholdRuleResponse(rule);
+    }
+  );
+
+  // POST /threshold-rules - Create a rule
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'create'),
+      schema: {
+        body: createThresholdRuleSchema,
+        response: {
+          201: thresholdRuleResponseSchema,
+          400: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+      const body = request.body;
+
+      if (await ruleRepo.findByName(organizationId, body.name)) {
+        throw Errors.conflict('Threshold rule with this name already exists');
+      }
+      await validateReferences(organizationId, body.assetTypeId, body.condition.activity);
+
+      const rule = await ruleRepo.create({
+        tenantId: organizationId,
+        name: body.name,
+        description: body.description ?? null,
+        assetTypeId: body.assetTypeId ?? null,
+        specificAssetIds: body.specificAssetIds ?? null,
+        metricKey: body.metricKey,
+        condition: body.condition,
+        warningThreshold: toNumeric(body.warningThreshold ?? null),
+        criticalThreshold: toNumeric(body.criticalThreshold ?? null),
+        hysteresis: String(body.hysteresis),
+        debounceSeconds: body.debounceSeconds,
+        cooldownSeconds: body.cooldownSeconds,
+        eventType: body.eventType,
+        eventSeverity: body.eventSeverity,
+        eventPriority: body.eventPriority,
+        messageTemplate: body.messageTemplate ?? null,
+        isActive: body.isActive,
+        createdBy: userId,
+      });
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'threshold_rule.created',
+        resourceType: 'threshold_rule',
+        resourceId: rule.id,
+        details: { name: rule.name, metricKey: rule.metricKey },
+      });
+
+      return reply.status(201).send(toThresholdRuleResponse(rule));
+    }
+  );
+
+  // PATCH /threshold-rules/:id - Update a rule
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/:id',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'update'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        body: updateThresholdRuleSchema,
+        response: {
+          200: thresholdRuleResponseSchema,
+          400: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+          409: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+      const body = request.body;
+
+      const existing = await ruleRepo.findById(id, organizationId);
+      if (!existing) {
+        throw Errors.notFound('Threshold rule', id);
+      }
+
+      if (body.name && body.name !== existing.name) {
+        if (await ruleRepo.findByName(organizationId, body.name)) {
+          throw Errors.conflict('Threshold rule with this name already exists');
+        }
+      }
+      await validateReferences(organizationId, body.assetTypeId, body.condition?.activity);
+
+      // The merged rule must still have a scope and at least one threshold
+      const assetTypeId = body.assetTypeId !== undefined ? body.assetTypeId : existing.assetTypeId;
+      const specificAssetIds =
+        body.specificAssetIds !== undefined ? body.specificAssetIds : existing.specificAssetIds;
+      if (!assetTypeId && (specificAssetIds?.length ?? 0) === 0) {
+        throw Errors.badRequest('Either assetTypeId or specificAssetIds is required');
+      }
+      const warningThreshold =
+        body.warningThreshold !== undefined ? body.warningThreshold : existing.warningThreshold;
+      const criticalThreshold =
+        body.criticalThreshold !== undefined ? body.criticalThreshold : existing.criticalThreshold;
+      if (warningThreshold === null && criticalThreshold === null) {
+        throw Errors.badRequest('At least one of warningThreshold or criticalThreshold is required');
+      }
+
+      const rule = await ruleRepo.update(id, organizationId, {
+        ...body,
+        warningThreshold: toNumeric(body.warningThreshold),
+        criticalThreshold: toNumeric(body.criticalThreshold),
+        hysteresis: body.hysteresis === undefined ? undefined : String(body.hysteresis),
+      });
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'threshold_rule.updated',
+        resourceType: 'threshold_rule',
+        resourceId: id,
+        details: { changes: Object.keys(body) },
+      });
+
+      return toThresholdRuleResponse(rule!);
+    }
+  );
+
+  // DELETE /threshold-rules/:id - Delete a rule
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'delete'),
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          204: z.undefined(),
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const userId = request.user!.id;
+
+      const rule = await ruleRepo.findById(id, organizationId);
+      if (!rule) {
+        throw Errors.notFound('Threshold rule', id);
+      }
+
+      await ruleRepo.delete(id, organizationId);
+
+      // Audit log
+      await auditService.log({
+        organizationId,
+        category: 'data_modification',
+        userId,
+        action: 'threshold_rule.deleted',
+        resourceType: 'threshold_rule',
+        resourceId: id,
+        details: { name: rule.name },
+      });
+
+      return reply.status(204).send();
+    }
+  );
+
+  // POST /threshold-rules/dry-run - Replay historical telemetry against a draft rule
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/dry-run',
+    {
+      preHandler: app.requirePermission('threshold_rules', 'create'),
+      schema: {
+        body: thresholdRuleDryRunSchema,
+        response: {
+          200: thresholdRuleDryRunResponseSchema,
+          400: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request) => {
+      const organizationId = request.user!.organizationId as OrganizationId;
+
+      await validateReferences(organizationId, request.body.rule.assetTypeId, undefined);
+
+      return engine.dryRun(organizationId, request.body);
+    }
+  );
+}
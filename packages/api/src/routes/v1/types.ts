@@ -1,7 +1,7 @@
 /**
  * Type management routes - CRUD operations for all type definitions
  * Handles device_types, asset_types, person_types, activity_types, space_types
- * All routes require authentication
+ * All routes require authentication and the matching role permission
  */
 
 import { FastifyInstance } from 'fastify';
@@ -13,6 +13,9 @@ import {
   typeResponseSchema,
   typeListResponseSchema,
   typeQuerySchema,
+  attributeSchemaCheckSchema,
+  attributeSchemaCheckResponseSchema,
+  apiErrorResponseSchema,
   Errors,
   type OrganizationId,
 } from '@argus/shared';
@@ -21,9 +24,14 @@ import {
   type TypeKind,
 } from '../../repositories/type-definition.repository.js';
 import { auditService } from '../../services/audit.service.js';
+import {
+  getCustomAttributeService,
+  findAttributeSchemaErrors,
+} from '../../services/custom-attribute.service.js';
 
 export async function typeManagementRoutes(app: FastifyInstance): Promise<void> {
   const typeRepo = getTypeDefinitionRepository();
+  const attributeService = getCustomAttributeService();
 
   // All type routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -35,6 +43,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:kind',
     {
+      preHandler: app.requirePermission('types', 'read'),
       schema: {
         params: z.object({
           kind: typeKindSchema,
@@ -122,6 +131,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
   app.withTypeProvider<ZodTypeProvider>().get(
     '/:kind/:id',
     {
+      preHandler: app.requirePermission('types', 'read'),
       schema: {
         params: z.object({
           kind: typeKindSchema,
@@ -177,6 +187,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
   app.withTypeProvider<ZodTypeProvider>().post(
     '/:kind',
     {
+      preHandler: app.requirePermission('types', 'create'),
       schema: {
         params: z.object({
           kind: typeKindSchema,
@@ -184,14 +195,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
         body: createTypeSchema,
         response: {
           201: typeResponseSchema,
-          400: z.object({
-            success: z.literal(false),
-            error: z.object({
-              code: z.string(),
-              message: z.string(),
-              timestamp: z.string(),
-            }),
-          }),
+          400: apiErrorResponseSchema,
         },
       },
     },
@@ -211,6 +215,13 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
         parentTypeId,
       } = request.body;
 
+      if (attributeSchema) {
+        const errors = findAttributeSchemaErrors(attributeSchema);
+        if (errors.length > 0) {
+          throw Errors.badRequest('Invalid attribute schema', errors);
+        }
+      }
+
       // Check if name is unique within organization
       const existing = await typeRepo.findByName(
         kind as TypeKind,
@@ -281,6 +292,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/:kind/:id',
     {
+      preHandler: app.requirePermission('types', 'update'),
       schema: {
         params: z.object({
           kind: typeKindSchema,
@@ -289,6 +301,7 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
         body: updateTypeSchema,
         response: {
           200: typeResponseSchema,
+          400: apiErrorResponseSchema,
           404: z.object({
             success: z.literal(false),
             error: z.object({
@@ -320,6 +333,13 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
         throw Errors.forbidden('Cannot modify system type definitions');
       }
 
+      if (request.body.attributeSchema) {
+        const errors = findAttributeSchemaErrors(request.body.attributeSchema);
+        if (errors.length > 0) {
+          throw Errors.badRequest('Invalid attribute schema', errors);
+        }
+      }
+
       // Check if name is unique (if changed)
       if (request.body.name && request.body.name !== existing.name) {
         const nameExists = await typeRepo.findByName(
@@ -386,10 +406,58 @@ export async function typeManagementRoutes(app: FastifyInstance): Promise<void>
     }
   );
 
+  // POST /types/:kind/:id/attribute-schema/check - Report entities violating an attribute schema
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/:kind/:id/attribute-schema/check',
+    {
+      preHandler: app.requirePermission('types', 'read'),
+      schema: {
+        params: z.object({
+          kind: typeKindSchema,
+          id: z.string().uuid(),
+        }),
+        body: attributeSchemaCheckSchema,
+        response: {
+          200: attributeSchemaCheckResponseSchema,
+          400: apiErrorResponseSchema,
+          404: z.object({
+            success: z.literal(false),
+            error: z.object({
+              code: z.string(),
+              message: z.string(),
+              timestamp: z.string(),
+            }),
+          }),
+        },
+      },
+    },
+    async (request) => {
+      const { kind, id } = request.params;
+      const organizationId = request.user!.organizationId as OrganizationId;
+      const { attributeSchema } = request.body;
+
+      const exists = await typeRepo.exists(kind as TypeKind, id, organizationId);
+      if (!exists) {
+        throw Errors.notFound(`${kind} type`, id);
+      }
+
+      if (attributeSchema) {
+        const errors = findAttributeSchemaErrors(attributeSchema);
+        if (errors.length > 0) {
+          throw Errors.badRequest('Invalid attribute schema', errors);
+        }
+      }
+
+      // Checks the stored schema when none is given
+      return attributeService.checkSchema(kind as TypeKind, id, organizationId, attributeSchema);
+    }
+  );
+
   // DELETE /types/:kind/:id - Delete a type definition
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/:kind/:id',
     {
+      preHandler: app.requirePermission('types', 'delete'),
       schema: {
         params: z.object({
           kind: typeKindSchema,
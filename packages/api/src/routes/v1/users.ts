@@ -11,19 +11,26 @@ import {
   updateUserSchema,
   userResponseSchema,
   userListResponseSchema,
+  apiErrorResponseSchema,
   Errors,
   createUserId,
+  createOrganizationId,
 } from '@argus/shared';
 import {
   getUserRepository,
   getUserOrganizationRepository,
   getSystemAdminRepository,
 } from '../../repositories/index.js';
+import { getMfaService } from '../../services/mfa.service.js';
+import { getSessionService } from '../../services/session.service.js';
+import { auditService } from '../../services/audit.service.js';
 
 export async function userRoutes(app: FastifyInstance): Promise<void> {
   const userRepo = getUserRepository();
   const memberRepo = getUserOrganizationRepository();
   const systemAdminRepo = getSystemAdminRepository();
+  const mfaService = getMfaService();
+  const sessionService = getSessionService();
 
   // All user routes require authentication
   app.addHook('preHandler', app.authenticate);
@@ -168,6 +175,16 @@ export async function userRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('User', request.params.id);
       }
 
+      // Suspended, deactivated or deleted users are signed out everywhere
+      if (request.body.status && request.body.status !== 'active') {
+        const revokedCount = await sessionService.revokeAllSessions(userId);
+        await auditService.logUserManagement('sessions_revoked', user.id, {
+          reason: 'status_changed',
+          status: user.status,
+          revokedCount,
+        });
+      }
+
       return {
         id: user.id,
         email: user.email,
@@ -211,6 +228,54 @@ export async function userRoutes(app: FastifyInstance): Promise<void> {
         throw Errors.notFound('User', request.params.id);
       }
 
+      await sessionService.revokeAllSessions(userId);
+
+      return reply.status(204).send(null);
+    }
+  );
+
+  // DELETE /users/:id/mfa - Reset a user's MFA (lost authenticator)
+  // Super admins, or admins/owners of the user's primary organization whose
+  // role there is at least the user's (admins cannot reset owners)
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/:id/mfa',
+    {
+      schema: {
+        params: z.object({
+          id: z.string().uuid(),
+        }),
+        response: {
+          204: z.null(),
+          403: apiErrorResponseSchema,
+          404: apiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = createUserId(request.params.id);
+      const user = await userRepo.findById(userId);
+
+      if (!user) {
+        throw Errors.notFound('User', request.params.id);
+      }
+
+      // hasRoleOrHigher also allows super admins; only they can reset a super admin
+      const organizationId = createOrganizationId(user.primaryOrganizationId);
+      const membership = await memberRepo.findMembership(userId, organizationId);
+      const canReset =
+        (await memberRepo.hasRoleOrHigher(request.user!.id, organizationId, 'admin')) &&
+        (!membership || (await memberRepo.hasRoleOrHigher(request.user!.id, organizationId, membership.role))) &&
+        (!(await systemAdminRepo.isSuperAdmin(userId)) || (await systemAdminRepo.isSuperAdmin(request.user!.id)));
+      if (!canReset) {
+        throw Errors.forbidden('Only organization admins can reset MFA, and not for users with a higher role');
+      }
+
+      await mfaService.disable(userId);
+      await auditService.logUserManagement('mfa_reset', user.id, {
+        email: user.email,
+        wasEnabled: user.mfaEnabled,
+      });
+
       return reply.status(204).send(null);
     }
   );
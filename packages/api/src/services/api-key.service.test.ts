@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the API key service
+ * Tests key authentication, IP allowlists, limits and permission scoping
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ApiKeyService,
+  getApiKeyStatus,
+  isApiKeyActionAllowed,
+  isIpAllowed,
+} from './api-key.service.js';
+import { generateApiKey, hashApiKey } from '../repositories/api-key.repository.js';
+import type { OrganizationId, UserId } from '@argus/shared';
+import type {
+  ApiKeyRepository,
+  OrganizationProfileRepository,
+  OrganizationRepository,
+  UserRepository,
+} from '../repositories/index.js';
+import type { PermissionService } from './permission.service.js';
+
+const ORG_ID = '9b2f1c1e-7d4a-4c8e-9f3b-2a1d5e6f7a8b' as OrganizationId;
+const USER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7' as UserId;
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+describe('isIpAllowed', () => {
+  it('should allow any address when the list is empty', () => {
+    expect(isIpAllowed([], '203.0.113.7')).toBe(true);
+    expect(isIpAllowed([], null)).toBe(true);
+  });
+
+  it('should match addresses and CIDR ranges', () => {
+    const allowed = ['198.51.100.10', '203.0.113.0/24', '2001:db8::/32'];
+
+    expect(isIpAllowed(allowed, '198.51.100.10')).toBe(true);
+    expect(isIpAllowed(allowed, '203.0.113.200')).toBe(true);
+    expect(isIpAllowed(allowed, '::ffff:203.0.113.5')).toBe(true);
+    expect(isIpAllowed(allowed, '2001:db8:1::1')).toBe(true);
+    expect(isIpAllowed(allowed, '198.51.100.11')).toBe(false);
+    expect(isIpAllowed(allowed, null)).toBe(false);
+  });
+});
+
+describe('getApiKeyStatus', () => {
+  it('should derive the status from revocation and expiry', () => {
+    expect(getApiKeyStatus({ revokedAt: null, expiresAt: null }, NOW)).toBe('active');
+    expect(getApiKeyStatus({ revokedAt: null, expiresAt: NOW }, NOW)).toBe('expired');
+    expect(getApiKeyStatus({ revokedAt: NOW, expiresAt: null }, NOW)).toBe('revoked');
+  });
+});
+
+describe('isApiKeyActionAllowed', () => {
+  it('should only allow the key permissions', () => {
+    const permissions = [{ resource: 'devices', actions: ['read' as const] }];
+
+    expect(isApiKeyActionAllowed(permissions, 'devices', 'read')).toBe(true);
+    expect(isApiKeyActionAllowed(permissions, 'devices', 'update')).toBe(false);
+    expect(isApiKeyActionAllowed(permissions, 'assets', 'read')).toBe(false);
+    expect(isApiKeyActionAllowed([{ resource: '*', actions: ['read'] }], 'assets', 'read')).toBe(true);
+  });
+});
+
+describe('generateApiKey', () => {
+  it('should prefix the key with its display prefix', () => {
+    const { key, keyPrefix } = generateApiKey();
+
+    expect(keyPrefix).toMatch(/^argus_[\w-]{8}$/);
+    expect(key.startsWith(`${keyPrefix}_`)).toBe(true);
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('ApiKeyService', () => {
+  const { key } = generateApiKey();
+
+  let apiKeyRepo: {
+    findByHash: ReturnType<typeof vi.fn>;
+    countActive: ReturnType<typeof vi.fn>;
+    recordUsage: ReturnType<typeof vi.fn>;
+  };
+  let orgRepo: { findById: ReturnType<typeof vi.fn> };
+  let profileRepo: { findById: ReturnType<typeof vi.fn> };
+  let userRepo: { findById: ReturnType<typeof vi.fn> };
+  let permissionService: { getEffectivePermissions: ReturnType<typeof vi.fn> };
+  let service: ApiKeyService;
+
+  function storedKey(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'k1',
+      organizationId: ORG_ID,
+      keyHash: hashApiKey(key),
+      permissions: [{ resource: 'devices', actions: ['read'] }],
+      allowedIps: [],
+      expiresAt: null,
+      revokedAt: null,
+      lastUsedAt: null,
+      createdBy: USER_ID,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    apiKeyRepo = {
+      findByHash: vi.fn().mockResolvedValue(storedKey()),
+      countActive: vi.fn().mockResolvedValue(2),
+      recordUsage: vi.fn(),
+    };
+    orgRepo = {
+      findById: vi.fn().mockResolvedValue({
+        id: ORG_ID,
+        isActive: true,
+        profileId: 'p1',
+        settings: {},
+        quotaOverrides: null,
+      }),
+    };
+    profileRepo = {
+      findById: vi.fn().mockResolvedValue({ capabilities: { apiAccess: true }, limits: { maxApiKeys: 5 } }),
+    };
+    userRepo = { findById: vi.fn().mockResolvedValue({ id: USER_ID, status: 'active' }) };
+    permissionService = {
+      getEffectivePermissions: vi.fn().mockResolvedValue({
+        isSuperAdmin: false,
+        permissions: { devices: ['read', 'update'] },
+      }),
+    };
+    service = new ApiKeyService(
+      apiKeyRepo as unknown as ApiKeyRepository,
+      orgRepo as unknown as OrganizationRepository,
+      profileRepo as unknown as OrganizationProfileRepository,
+      userRepo as unknown as UserRepository,
+      permissionService as unknown as PermissionService,
+      () => NOW
+    );
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a valid key and record its use', async () => {
+      const principal = await service.authenticate(key, '203.0.113.7');
+
+      expect(principal?.apiKey.id).toBe('k1');
+      expect(principal?.user.id).toBe(USER_ID);
+      expect(apiKeyRepo.findByHash).toHaveBeenCalledWith(hashApiKey(key));
+      expect(apiKeyRepo.recordUsage).toHaveBeenCalledWith('k1', NOW, '203.0.113.7');
+    });
+
+    it('should only record use once a minute', async () => {
+      apiKeyRepo.findByHash.mockResolvedValue(storedKey({ lastUsedAt: new Date(NOW.getTime() - 30000) }));
+
+      expect(await service.authenticate(key, '203.0.113.7')).not.toBeNull();
+      expect(apiKeyRepo.recordUsage).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked and expired keys', async () => {
+      expect(await service.authenticate('not-a-key', null)).toBeNull();
+      expect(apiKeyRepo.findByHash).not.toHaveBeenCalled();
+
+      apiKeyRepo.findByHash.mockResolvedValueOnce(null);
+      expect(await service.authenticate(key, null)).toBeNull();
+
+      apiKeyRepo.findByHash.mockResolvedValueOnce(storedKey({ revokedAt: NOW }));
+      expect(await service.authenticate(key, null)).toBeNull();
+
+      apiKeyRepo.findByHash.mockResolvedValueOnce(storedKey({ expiresAt: NOW }));
+      expect(await service.authenticate(key, null)).toBeNull();
+    });
+
+    it('should reject requests from addresses outside the allowlist', async () => {
+      apiKeyRepo.findByHash.mockResolvedValue(storedKey({ allowedIps: ['198.51.100.0/24'] }));
+
+      expect(await service.authenticate(key, '203.0.113.7')).toBeNull();
+      expect(await service.authenticate(key, '198.51.100.20')).not.toBeNull();
+    });
+
+    it('should reject keys of inactive creators or organizations without API access', async () => {
+      userRepo.findById.mockResolvedValueOnce({ id: USER_ID, status: 'suspended' });
+      expect(await service.authenticate(key, null)).toBeNull();
+
+      orgRepo.findById.mockResolvedValueOnce({
+        id: ORG_ID,
+        isActive: true,
+        profileId: 'p1',
+        settings: { features: { apiAccess: false } },
+      });
+      expect(await service.authenticate(key, null)).toBeNull();
+      expect(apiKeyRepo.recordUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isApiAccessEnabled', () => {
+    it('should prefer the organization setting over the profile capability', async () => {
+      expect(await service.isApiAccessEnabled({ settings: {}, profileId: 'p1' })).toBe(true);
+      expect(
+        await service.isApiAccessEnabled({ settings: { features: { apiAccess: false } }, profileId: 'p1' })
+      ).toBe(false);
+      expect(await service.isApiAccessEnabled({ settings: null, profileId: null })).toBe(false);
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should use the quota override, then the profile limit', async () => {
+      expect(await service.getUsage({ id: ORG_ID, quotaOverrides: null, profileId: 'p1' })).toEqual({
+        active: 2,
+        limit: 5,
+      });
+      expect(
+        await service.getUsage({ id: ORG_ID, quotaOverrides: { maxApiKeys: 10 }, profileId: 'p1' })
+      ).toEqual({ active: 2, limit: 10 });
+      expect(
+        await service.getUsage({ id: ORG_ID, quotaOverrides: { maxApiKeys: -1 }, profileId: 'p1' })
+      ).toEqual({ active: 2, limit: null });
+      expect(apiKeyRepo.countActive).toHaveBeenCalledWith(ORG_ID, NOW);
+    });
+  });
+
+  describe('findExcessPermissions', () => {
+    it('should list requested actions the creator does not hold', async () => {
+      expect(
+        await service.findExcessPermissions(USER_ID, ORG_ID, [
+          { resource: 'devices', actions: ['read', 'delete'] },
+          { resource: 'assets', actions: ['read'] },
+        ])
+      ).toEqual(['delete devices', 'read assets']);
+      expect(
+        await service.findExcessPermissions(USER_ID, ORG_ID, [{ resource: 'devices', actions: ['update'] }])
+      ).toEqual([]);
+    });
+  });
+});
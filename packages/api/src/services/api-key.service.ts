@@ -0,0 +1,255 @@
+/**
+ * API Key Service
+ *
+ * Organization API keys for machine-to-machine access. A key is sent in the
+ * X-API-Key header (see plugins/auth.ts) and acts for the user who created
+ * it, in the key's organization, limited to the key's own permissions:
+ * requests need both the creator's role permission and the key's.
+ *
+ * A key authenticates only while it is unrevoked and unexpired, the request
+ * comes from an allowed address, the creator's account is active and the
+ * organization has API access (settings.features.apiAccess, else the
+ * profile's apiAccess capability).
+ *
+ * Keys are stored as SHA-256 hashes and shown once, on creation or rotation.
+ */
+
+import { BlockList, isIPv4, isIPv6 } from 'node:net';
+import type {
+  ApiKeyStatus,
+  CreateApiKeyInput,
+  OrganizationId,
+  PermissionAction,
+  ResourcePermission,
+  UserId,
+} from '@argus/shared';
+import {
+  generateApiKey,
+  getApiKeyRepository,
+  hashApiKey,
+  API_KEY_MARKER,
+  type ApiKey,
+  type ApiKeyRepository,
+} from '../repositories/api-key.repository.js';
+import {
+  getOrganizationRepository,
+  type Organization,
+  type OrganizationRepository,
+} from '../repositories/organization.repository.js';
+import {
+  getOrganizationProfileRepository,
+  type OrganizationProfileRepository,
+} from '../repositories/organization-profile.repository.js';
+import {
+  getUserRepository,
+  type User,
+  type UserRepository,
+} from '../repositories/user.repository.js';
+import {
+  getPermissionService,
+  isActionAllowed,
+  type PermissionService,
+} from './permission.service.js';
+
+/** Last-used tracking is written at most this often per key */
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+
+/** A key that passed authentication */
+export interface ApiKeyPrincipal {
+  apiKey: ApiKey;
+  user: User;
+  organization: Organization;
+}
+
+/** Active keys against the organization's limit (null = unlimited) */
+export interface ApiKeyUsage {
+  active: number;
+  limit: number | null;
+}
+
+/**
+ * Key state derived from revocation and expiry
+ */
+export function getApiKeyStatus(
+  apiKey: Pick<ApiKey, 'revokedAt' | 'expiresAt'>,
+  now: Date = new Date()
+): ApiKeyStatus {
+  if (apiKey.revokedAt) return 'revoked';
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Whether an address is in a key's allowlist (an empty list allows any address)
+ * Entries are addresses or CIDR ranges; IPv4-mapped IPv6 addresses match IPv4 entries
+ */
+export function isIpAllowed(allowedIps: string[], ipAddress: string | null): boolean {
+  if (allowedIps.length === 0) return true;
+  if (!ipAddress) return false;
+
+  const address = ipAddress.startsWith('::ffff:') && isIPv4(ipAddress.slice(7)) ? ipAddress.slice(7) : ipAddress;
+  const type = isIPv4(address) ? 'ipv4' : isIPv6(address) ? 'ipv6' : null;
+  if (!type) return false;
+
+  const list = new BlockList();
+  for (const entry of allowedIps) {
+    const [network, bits] = entry.split('/');
+    const entryType = isIPv4(network) ? 'ipv4' : isIPv6(network) ? 'ipv6' : null;
+    if (!entryType) continue;
+    if (bits === undefined) {
+      list.addAddress(network, entryType);
+    } else {
+      list.addSubnet(network, Number(bits), entryType);
+    }
+  }
+  return list.check(address, type);
+}
+
+/**
+ * Whether a key's permissions allow an action on a resource
+ */
+export function isApiKeyActionAllowed(
+  permissions: ResourcePermission[],
+  resource: string,
+  action: PermissionAction
+): boolean {
+  return isActionAllowed(
+    {
+      isSuperAdmin: false,
+      permissions: Object.fromEntries(permissions.map((entry) => [entry.resource, entry.actions])),
+    },
+    resource,
+    action
+  );
+}
+
+/**
+ * API Key Service class
+ */
+export class ApiKeyService {
+  constructor(
+    private apiKeyRepo: ApiKeyRepository = getApiKeyRepository(),
+    private orgRepo: OrganizationRepository = getOrganizationRepository(),
+    private profileRepo: OrganizationProfileRepository = getOrganizationProfileRepository(),
+    private userRepo: UserRepository = getUserRepository(),
+    private permissionService: PermissionService = getPermissionService(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Resolves an X-API-Key header value
+   * Returns null for unknown, revoked, expired or disallowed keys
+   */
+  async authenticate(key: string, ipAddress: string | null): Promise<ApiKeyPrincipal | null> {
+    if (!key.startsWith(API_KEY_MARKER)) return null;
+
+    const apiKey = await this.apiKeyRepo.findByHash(hashApiKey(key));
+    if (!apiKey || !apiKey.createdBy) return null;
+
+    const now = this.now();
+    if (getApiKeyStatus(apiKey, now) !== 'active') return null;
+    if (!isIpAllowed(apiKey.allowedIps, ipAddress)) return null;
+
+    const [user, organization] = await Promise.all([
+      this.userRepo.findById(apiKey.createdBy as UserId),
+      this.orgRepo.findById(apiKey.organizationId as OrganizationId),
+    ]);
+    if (!user || user.status !== 'active') return null;
+    if (!organization || !organization.isActive) return null;
+    if (!(await this.isApiAccessEnabled(organization))) return null;
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= USAGE_WRITE_INTERVAL_MS) {
+      await this.apiKeyRepo.recordUsage(apiKey.id, now, ipAddress);
+    }
+
+    return { apiKey, user, organization };
+  }
+
+  /**
+   * Whether the organization may use API keys
+   * The organization's own feature flag wins over its profile's capability
+   */
+  async isApiAccessEnabled(organization: Pick<Organization, 'settings' | 'profileId'>): Promise<boolean> {
+    const override = organization.settings?.features?.apiAccess;
+    if (override !== undefined) return override;
+    if (!organization.profileId) return false;
+
+    const profile = await this.profileRepo.findById(organization.profileId);
+    return profile?.capabilities?.apiAccess ?? false;
+  }
+
+  /**
+   * Active key count and the organization's maxApiKeys
+   * (quota override, else profile limit; negative means unlimited)
+   */
+  async getUsage(organization: Pick<Organization, 'id' | 'quotaOverrides' | 'profileId'>): Promise<ApiKeyUsage> {
+    let limit = organization.quotaOverrides?.maxApiKeys;
+    if (limit === undefined && organization.profileId) {
+      const profile = await this.profileRepo.findById(organization.profileId);
+      limit = profile?.limits?.maxApiKeys;
+    }
+
+    const active = await this.apiKeyRepo.countActive(organization.id as OrganizationId, this.now());
+    return { active, limit: limit === undefined || limit < 0 ? null : limit };
+  }
+
+  /**
+   * Requested permissions the user does not hold in the organization,
+   * as "action resource" strings (empty when the key's scope is allowed)
+   */
+  async findExcessPermissions(
+    userId: UserId,
+    organizationId: OrganizationId,
+    requested: ResourcePermission[]
+  ): Promise<string[]> {
+    const effective = await this.permissionService.getEffectivePermissions(userId, organizationId);
+    return requested.flatMap((entry) =>
+      entry.actions
+        .filter((action) => !isActionAllowed(effective, entry.resource, action))
+        .map((action) => `${action} ${entry.resource}`)
+    );
+  }
+
+  /**
+   * Creates a key; returns the record and the key, which is not stored
+   */
+  async create(
+    organizationId: OrganizationId,
+    createdBy: UserId,
+    input: CreateApiKeyInput
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const { key, keyPrefix } = generateApiKey();
+    const apiKey = await this.apiKeyRepo.create({
+      organizationId,
+      name: input.name,
+      description: input.description ?? null,
+      keyPrefix,
+      keyHash: hashApiKey(key),
+      permissions: input.permissions,
+      allowedIps: input.allowedIps,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+      createdBy,
+    });
+    return { apiKey, key };
+  }
+
+  /**
+   * Issues a new secret for a key; the old one stops working immediately
+   * Returns null if the key is revoked
+   */
+  async rotate(apiKey: ApiKey): Promise<{ apiKey: ApiKey; key: string } | null> {
+    const { key, keyPrefix } = generateApiKey();
+    const rotated = await this.apiKeyRepo.updateSecret(apiKey.id, { keyPrefix, keyHash: hashApiKey(key) });
+    return rotated ? { apiKey: rotated, key } : null;
+  }
+}
+
+// Singleton instance
+let apiKeyService: ApiKeyService | null = null;
+
+export function getApiKeyService(): ApiKeyService {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService();
+  }
+  return apiKeyService;
+}
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for the asset health service
+ * Tests health algorithm evaluation, score storage and roll-up to parents
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import {
+  AssetHealthService,
+  evaluateHealth,
+  readHealthAlgorithm,
+  type HealthInputs,
+} from './asset-health.service.js';
+import type { AssetHealthRepository, HealthTarget } from '../repositories/asset-health.repository.js';
+import type { TelemetryRepository } from '../repositories/telemetry.repository.js';
+
+const ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d' as OrganizationId;
+const ASSET_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const PARENT_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const CHILD_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+const RULE_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const PUMP_ALGORITHM = readHealthAlgorithm({
+  rules: [
+    {
+      metric: 'motor_temperature',
+      thresholds: [
+        { above: 90, deduct: 40, reason: 'Critical temperature' },
+        { above: 75, deduct: 20 },
+      ],
+    },
+    { metric: 'vibration_level', weight: 0.5, thresholds: [{ above: 7, deduct: 30 }] },
+  ],
+})!;
+
+function createInputs(overrides: Partial<HealthInputs> = {}): HealthInputs {
+  return {
+    readings: new Map([
+      ['motor_temperature', { value: 80, timestamp: NOW }],
+      ['vibration_level', { value: 8, timestamp: NOW }],
+    ]),
+    openAlerts: [],
+    lastTelemetryAt: NOW,
+    children: [],
+    ...overrides,
+  };
+}
+
+function createTarget(overrides: Partial<HealthTarget> = {}): HealthTarget {
+  return {
+    id: ASSET_ID,
+    tenantId: ORG_ID,
+    parentAssetId: null,
+    lastTelemetryAt: NOW,
+    healthScore: null,
+    healthScoreUpdatedAt: null,
+    healthAlgorithm: { rules: [{ metric: 'motor_temperature', thresholds: [{ above: 75, deduct: 20 }] }] },
+    ...overrides,
+  };
+}
+
+describe('readHealthAlgorithm', () => {
+  it('should apply defaults', () => {
+    expect(readHealthAlgorithm({})).toEqual({ algorithmType: 'weighted_deductions', baseScore: 100, rules: [] });
+  });
+
+  it('should return null for malformed algorithms', () => {
+    expect(readHealthAlgorithm(null)).toBeNull();
+    expect(readHealthAlgorithm({ rules: [{ metric: 'temp', thresholds: [{ deduct: 10 }] }] })).toBeNull();
+  });
+});
+
+describe('evaluateHealth', () => {
+  it('should apply the first matching band of each rule, weighted', () => {
+    const evaluation = evaluateHealth(PUMP_ALGORITHM, createInputs(), NOW);
+
+    expect(evaluation.score).toBe(65);
+    expect(evaluation.factors).toEqual([
+      expect.objectContaining({ type: 'metric', impact: -20, reason: 'motor_temperature above 75' }),
+      expect.objectContaining({ type: 'metric', impact: -15, reason: 'vibration_level above 7' }),
+    ]);
+  });
+
+  it('should explain metrics that are within range or have no reading', () => {
+    const evaluation = evaluateHealth(
+      PUMP_ALGORITHM,
+      createInputs({ readings: new Map([['motor_temperature', { value: 95, timestamp: NOW }]]) }),
+      NOW
+    );
+
+    expect(evaluation.score).toBe(60);
+    expect(evaluation.factors.map((factor) => [factor.impact, factor.reason])).toEqual([
+      [-40, 'Critical temperature'],
+      [0, 'No numeric reading for vibration_level'],
+    ]);
+  });
+
+  it('should deduct for open threshold alerts up to maxDeduct', () => {
+    const algorithm = readHealthAlgorithm({ openEvents: { critical: 30, warning: 5, maxDeduct: 50 } })!;
+    const openAlerts = [
+      { ruleId: RULE_ID, ruleName: 'Overheat', level: 'critical' },
+      { ruleId: RULE_ID, ruleName: 'Overpressure', level: 'critical' },
+      { ruleId: RULE_ID, ruleName: 'Vibration', level: 'warning' },
+    ];
+
+    const evaluation = evaluateHealth(algorithm, createInputs({ openAlerts }), NOW);
+
+    expect(evaluation.score).toBe(50);
+    expect(evaluation.factors[0]).toMatchObject({
+      type: 'open_events',
+      impact: -50,
+      details: { critical: 2, warning: 1 },
+    });
+  });
+
+  it('should decay the score once telemetry is stale', () => {
+    const algorithm = readHealthAlgorithm({ staleness: { afterSeconds: 3600, deductPerHour: 10, maxDeduct: 40 } })!;
+
+    const fresh = evaluateHealth(algorithm, createInputs({ lastTelemetryAt: new Date('2026-03-01T11:30:00Z') }), NOW);
+    const stale = evaluateHealth(algorithm, createInputs({ lastTelemetryAt: new Date('2026-03-01T08:30:00Z') }), NOW);
+    const silent = evaluateHealth(algorithm, createInputs({ lastTelemetryAt: null }), NOW);
+
+    expect(fresh).toEqual({ score: 100, factors: [] });
+    expect(stale.score).toBe(75);
+    expect(stale.factors[0]).toMatchObject({ type: 'staleness', reason: 'No telemetry for 12600 seconds' });
+    expect(silent.score).toBe(60);
+  });
+
+  it('should blend in the child asset scores', () => {
+    const algorithm = readHealthAlgorithm({ children: { aggregation: 'min', weight: 0.5 } })!;
+    const children = [
+      { id: CHILD_ID, name: 'Pump A', healthScore: '40.00' },
+      { id: ASSET_ID, name: 'Pump B', healthScore: '90.00' },
+      { id: PARENT_ID, name: 'Pump C', healthScore: null },
+    ];
+
+    const evaluation = evaluateHealth(algorithm, createInputs({ children }), NOW);
+
+    expect(evaluation.score).toBe(70);
+    expect(evaluation.factors[0]).toMatchObject({
+      type: 'children',
+      impact: -30,
+      reason: 'Lowest child asset score is 40',
+    });
+    expect(evaluation.factors[0].details.children).toHaveLength(2);
+  });
+
+  it('should keep the score between 0 and 100', () => {
+    const algorithm = readHealthAlgorithm({
+      baseScore: 50,
+      rules: [{ metric: 'motor_temperature', weight: 3, thresholds: [{ above: 0, deduct: 40 }] }],
+    })!;
+
+    expect(evaluateHealth(algorithm, createInputs(), NOW).score).toBe(0);
+  });
+});
+
+describe('AssetHealthService', () => {
+  let healthRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let telemetryRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: AssetHealthService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    healthRepo = {
+      findTarget: vi.fn().mockResolvedValue(createTarget()),
+      findOpenAlerts: vi.fn().mockResolvedValue([]),
+      findChildScores: vi.fn().mockResolvedValue([]),
+      saveScore: vi.fn().mockResolvedValue(true),
+      findHistory: vi.fn().mockResolvedValue([]),
+    };
+    telemetryRepo = {
+      findLatest: vi
+        .fn()
+        .mockResolvedValue([{ metricKey: 'motor_temperature', value: '80', quality: 'good', timestamp: NOW }]),
+    };
+    service = new AssetHealthService(
+      healthRepo as unknown as AssetHealthRepository,
+      telemetryRepo as unknown as TelemetryRepository
+    );
+  });
+
+  describe('getHealth', () => {
+    it('should evaluate the asset and report the stored score', async () => {
+      healthRepo.findTarget.mockResolvedValue(
+        createTarget({ healthScore: '90.00', healthScoreUpdatedAt: new Date('2026-03-01T11:00:00Z') })
+      );
+
+      const health = await service.getHealth(ORG_ID, ASSET_ID, NOW);
+
+      expect(telemetryRepo.findLatest).toHaveBeenCalledWith(ORG_ID, ASSET_ID, ['motor_temperature']);
+      expect(health).toMatchObject({
+        assetId: ASSET_ID,
+        score: 80,
+        baseScore: 100,
+        evaluatedAt: NOW.toISOString(),
+        storedScore: 90,
+        storedAt: '2026-03-01T11:00:00.000Z',
+      });
+      expect(healthRepo.saveScore).not.toHaveBeenCalled();
+    });
+
+    it('should report no score when the asset type has no health algorithm', async () => {
+      healthRepo.findTarget.mockResolvedValue(createTarget({ healthAlgorithm: null }));
+
+      expect(await service.getHealth(ORG_ID, ASSET_ID, NOW)).toMatchObject({ score: null, factors: [] });
+    });
+
+    it('should return null for an unknown asset', async () => {
+      healthRepo.findTarget.mockResolvedValue(null);
+
+      expect(await service.getHealth(ORG_ID, ASSET_ID, NOW)).toBeNull();
+    });
+
+    it('should ignore readings of bad quality', async () => {
+      telemetryRepo.findLatest.mockResolvedValue([
+        { metricKey: 'motor_temperature', value: '80', quality: 'bad', timestamp: NOW },
+      ]);
+
+      expect((await service.getHealth(ORG_ID, ASSET_ID, NOW))!.score).toBe(100);
+    });
+  });
+
+  describe('recompute', () => {
+    it('should store the score and roll a change up to the parent', async () => {
+      healthRepo.findTarget.mockImplementation(async (_tenantId, assetId: string) =>
+        assetId === ASSET_ID
+          ? createTarget({ parentAssetId: PARENT_ID })
+          : createTarget({ id: PARENT_ID, healthAlgorithm: { children: { weight: 1 } } })
+      );
+      healthRepo.findChildScores.mockResolvedValue([{ id: ASSET_ID, name: 'Pump', healthScore: '80.00' }]);
+
+      const results = await service.recompute(ORG_ID, [ASSET_ID], NOW);
+
+      expect(results).toEqual([
+        { assetId: ASSET_ID, score: 80, changed: true, trigger: 'telemetry' },
+        { assetId: PARENT_ID, score: 80, changed: true, trigger: 'children' },
+      ]);
+      expect(healthRepo.saveScore).toHaveBeenCalledWith(
+        expect.objectContaining({ tenantId: ORG_ID, assetId: ASSET_ID, score: 80, computedAt: NOW })
+      );
+    });
+
+    it('should not roll up an unchanged score', async () => {
+      healthRepo.findTarget.mockResolvedValue(createTarget({ parentAssetId: PARENT_ID }));
+      healthRepo.saveScore.mockResolvedValue(false);
+
+      const results = await service.recompute(ORG_ID, [ASSET_ID], NOW);
+
+      expect(results).toHaveLength(1);
+      expect(healthRepo.findTarget).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip assets whose type has no health algorithm', async () => {
+      healthRepo.findTarget.mockResolvedValue(createTarget({ healthAlgorithm: null }));
+
+      expect(await service.recompute(ORG_ID, [ASSET_ID], NOW)).toEqual([]);
+      expect(healthRepo.saveScore).not.toHaveBeenCalled();
+    });
+  });
+});
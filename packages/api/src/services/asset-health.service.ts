@@ -0,0 +1,359 @@
+/**
+ * Asset Health Service
+ *
+ * Computes 0-100 asset health scores from the asset type's health algorithm
+ * (asset_types.health_algorithm, weighted_deductions):
+ * - metric rules: the latest reading of each rule metric is matched against
+ *   the rule's threshold bands; the first matching band deducts
+ *   `deduct * weight`
+ * - open events: threshold rules currently alerting for the asset deduct per
+ *   critical / warning alert, up to maxDeduct
+ * - staleness: once the asset has reported no telemetry for afterSeconds, the
+ *   score decays by deductPerHour, up to maxDeduct
+ * - children: the min or avg of the stored scores of child assets
+ *   (parentAssetId) is blended in with the configured weight
+ *
+ * Scores are recomputed after each telemetry message, once threshold rules
+ * have run so new alerts count (see health.processor.ts). A changed score is
+ * kept in asset_health_scores and recomputes the parent asset; roll-up stops
+ * at a parent whose type has no health algorithm.
+ */
+
+import {
+  healthAlgorithmSchema,
+  type AssetHealthResponse,
+  type AssetHealthScoreResponse,
+  type HealthAlgorithm,
+  type HealthFactor,
+  type HealthThreshold,
+  type HealthTrigger,
+  type OrganizationId,
+} from '@argus/shared';
+import {
+  getAssetHealthRepository,
+  type AssetHealthRepository,
+  type ChildScore,
+  type HealthTarget,
+  type OpenAlert,
+} from '../repositories/asset-health.repository.js';
+import {
+  getTelemetryRepository,
+  type TelemetryRepository,
+} from '../repositories/telemetry.repository.js';
+
+/** Stored as assets.health_score_computed_by */
+export const HEALTH_ENGINE_ID = 'health-engine';
+
+/** Upper bound on parent levels a changed score is rolled up through */
+export const MAX_ROLLUP_DEPTH = 16;
+
+/** Latest reading of a rule metric */
+export interface HealthReading {
+  value: number | null;
+  timestamp: Date;
+}
+
+export interface HealthInputs {
+  readings: Map<string, HealthReading>;
+  openAlerts: OpenAlert[];
+  lastTelemetryAt: Date | null;
+  children: ChildScore[];
+}
+
+export interface HealthEvaluation {
+  score: number;
+  factors: HealthFactor[];
+}
+
+/** Result of recomputing one asset */
+export interface HealthRecomputation {
+  assetId: string;
+  score: number;
+  changed: boolean;
+  trigger: HealthTrigger;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+/**
+ * Reads a stored health algorithm; algorithms that do not match the schema
+ * compute no score
+ */
+export function readHealthAlgorithm(stored: unknown): HealthAlgorithm | null {
+  const parsed = healthAlgorithmSchema.safeParse(stored);
+  return parsed.success ? parsed.data : null;
+}
+
+function matchesBand(band: HealthThreshold, value: number): boolean {
+  return (band.above === undefined || value > band.above) && (band.below === undefined || value < band.below);
+}
+
+function describeBand(metric: string, band: HealthThreshold): string {
+  if (band.reason) return band.reason;
+  if (band.above !== undefined && band.below !== undefined) {
+    return `${metric} between ${band.above} and ${band.below}`;
+  }
+  return band.above !== undefined ? `${metric} above ${band.above}` : `${metric} below ${band.below}`;
+}
+
+function evaluateRules(algorithm: HealthAlgorithm, readings: Map<string, HealthReading>): HealthFactor[] {
+  return algorithm.rules.map((rule) => {
+    const reading = readings.get(rule.metric);
+    if (!reading || reading.value === null || !Number.isFinite(reading.value)) {
+      return {
+        type: 'metric',
+        impact: 0,
+        reason: `No numeric reading for ${rule.metric}`,
+        details: { metric: rule.metric, weight: rule.weight },
+      };
+    }
+
+    const details = {
+      metric: rule.metric,
+      value: reading.value,
+      timestamp: reading.timestamp.toISOString(),
+      weight: rule.weight,
+    };
+    const band = rule.thresholds.find((threshold) => matchesBand(threshold, reading.value!));
+    if (!band) {
+      return { type: 'metric', impact: 0, reason: `${rule.metric} is within range`, details };
+    }
+    return {
+      type: 'metric',
+      impact: -round(band.deduct * rule.weight),
+      reason: describeBand(rule.metric, band),
+      details: { ...details, above: band.above, below: band.below, deduct: band.deduct },
+    };
+  });
+}
+
+function evaluateOpenEvents(algorithm: HealthAlgorithm, openAlerts: OpenAlert[]): HealthFactor | null {
+  const config = algorithm.openEvents;
+  if (!config || openAlerts.length === 0) return null;
+
+  const critical = openAlerts.filter((alert) => alert.level === 'critical').length;
+  const warning = openAlerts.length - critical;
+  const deduction = Math.min(config.maxDeduct, critical * config.critical + warning * config.warning);
+  return {
+    type: 'open_events',
+    impact: -round(deduction),
+    reason: `${critical} critical and ${warning} warning threshold alerts open`,
+    details: {
+      critical,
+      warning,
+      alerts: openAlerts.map((alert) => ({ ruleId: alert.ruleId, ruleName: alert.ruleName, level: alert.level })),
+    },
+  };
+}
+
+function evaluateStaleness(
+  algorithm: HealthAlgorithm,
+  lastTelemetryAt: Date | null,
+  now: Date
+): HealthFactor | null {
+  const config = algorithm.staleness;
+  if (!config) return null;
+
+  if (!lastTelemetryAt) {
+    return {
+      type: 'staleness',
+      impact: -config.maxDeduct,
+      reason: 'No telemetry received',
+      details: { lastTelemetryAt: null },
+    };
+  }
+
+  const silentSeconds = Math.max(0, (now.getTime() - lastTelemetryAt.getTime()) / 1000);
+  if (silentSeconds <= config.afterSeconds) return null;
+
+  const hoursStale = (silentSeconds - config.afterSeconds) / 3600;
+  return {
+    type: 'staleness',
+    impact: -round(Math.min(config.maxDeduct, hoursStale * config.deductPerHour)),
+    reason: `No telemetry for ${Math.floor(silentSeconds)} seconds`,
+    details: { lastTelemetryAt: lastTelemetryAt.toISOString(), silentSeconds: Math.floor(silentSeconds) },
+  };
+}
+
+function evaluateChildren(
+  algorithm: HealthAlgorithm,
+  children: ChildScore[],
+  ownScore: number
+): HealthFactor | null {
+  const config = algorithm.children;
+  const scored = children.filter((child) => child.healthScore !== null);
+  if (!config || scored.length === 0) return null;
+
+  const scores = scored.map((child) => Number(child.healthScore));
+  const childScore =
+    config.aggregation === 'min'
+      ? Math.min(...scores)
+      : scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const blended = ownScore * (1 - config.weight) + childScore * config.weight;
+  return {
+    type: 'children',
+    impact: round(blended - ownScore),
+    reason: `${config.aggregation === 'min' ? 'Lowest' : 'Average'} child asset score is ${round(childScore)}`,
+    details: {
+      aggregation: config.aggregation,
+      weight: config.weight,
+      childScore: round(childScore),
+      children: scored.map((child) => ({ assetId: child.id, name: child.name, score: Number(child.healthScore) })),
+    },
+  };
+}
+
+/**
+ * Evaluates a health algorithm. Pure: returns the score and every factor
+ * that contributed to it, in application order.
+ */
+export function evaluateHealth(algorithm: HealthAlgorithm, inputs: HealthInputs, now: Date): HealthEvaluation {
+  const factors: HealthFactor[] = evaluateRules(algorithm, inputs.readings);
+  const openEvents = evaluateOpenEvents(algorithm, inputs.openAlerts);
+  if (openEvents) factors.push(openEvents);
+  const staleness = evaluateStaleness(algorithm, inputs.lastTelemetryAt, now);
+  if (staleness) factors.push(staleness);
+
+  const ownScore = clampScore(factors.reduce((score, factor) => score + factor.impact, algorithm.baseScore));
+  const children = evaluateChildren(algorithm, inputs.children, ownScore);
+  if (children) factors.push(children);
+
+  return { score: round(clampScore(ownScore + (children?.impact ?? 0))), factors };
+}
+
+/**
+ * Asset Health Service class
+ */
+export class AssetHealthService {
+  constructor(
+    private readonly healthRepo: AssetHealthRepository = getAssetHealthRepository(),
+    private readonly telemetryRepo: TelemetryRepository = getTelemetryRepository()
+  ) {}
+
+  /**
+   * Evaluates the current health of an asset without storing it
+   * Returns null if the asset does not exist in the tenant.
+   */
+  async getHealth(
+    tenantId: OrganizationId,
+    assetId: string,
+    now: Date = new Date()
+  ): Promise<AssetHealthResponse | null> {
+    const target = await this.healthRepo.findTarget(tenantId, assetId);
+    if (!target) return null;
+
+    const algorithm = readHealthAlgorithm(target.healthAlgorithm);
+    const evaluation = algorithm ? await this.evaluateTarget(target, algorithm, now) : null;
+    return {
+      assetId,
+      score: evaluation?.score ?? null,
+      baseScore: algorithm?.baseScore ?? null,
+      evaluatedAt: now.toISOString(),
+      factors: evaluation?.factors ?? [],
+      storedScore: target.healthScore === null ? null : Number(target.healthScore),
+      storedAt: target.healthScoreUpdatedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Lists stored scores of an asset, newest first
+   */
+  async getHistory(
+    tenantId: OrganizationId,
+    assetId: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<AssetHealthScoreResponse[]> {
+    const rows = await this.healthRepo.findHistory(tenantId, assetId, from, to, limit);
+    return rows.map((row) => ({
+      score: Number(row.score),
+      factors: row.factors as HealthFactor[],
+      trigger: row.trigger as HealthTrigger,
+      computedAt: row.computedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Recomputes and stores the scores of assets, rolling changed scores up
+   * through their parents. Assets whose type has no health algorithm are
+   * skipped.
+   */
+  async recompute(tenantId: string, assetIds: string[], now: Date = new Date()): Promise<HealthRecomputation[]> {
+    const results: HealthRecomputation[] = [];
+    let pending = [...new Set(assetIds)];
+    let trigger: HealthTrigger = 'telemetry';
+
+    for (let depth = 0; pending.length > 0 && depth <= MAX_ROLLUP_DEPTH; depth++) {
+      const parents = new Set<string>();
+
+      for (const assetId of pending) {
+        const target = await this.healthRepo.findTarget(tenantId, assetId);
+        const algorithm = target ? readHealthAlgorithm(target.healthAlgorithm) : null;
+        if (!target || !algorithm) continue;
+
+        const evaluation = await this.evaluateTarget(target, algorithm, now);
+        const changed = await this.healthRepo.saveScore({
+          tenantId,
+          assetId,
+          score: evaluation.score,
+          factors: evaluation.factors,
+          trigger,
+          computedAt: now,
+          computedBy: HEALTH_ENGINE_ID,
+        });
+        results.push({ assetId, score: evaluation.score, changed, trigger });
+
+        if (changed && target.parentAssetId) {
+          parents.add(target.parentAssetId);
+        }
+      }
+
+      pending = [...parents];
+      trigger = 'children';
+    }
+
+    return results;
+  }
+
+  private async evaluateTarget(
+    target: HealthTarget,
+    algorithm: HealthAlgorithm,
+    now: Date
+  ): Promise<HealthEvaluation> {
+    const metricKeys = [...new Set(algorithm.rules.map((rule) => rule.metric))];
+    const [latest, openAlerts, children] = await Promise.all([
+      this.telemetryRepo.findLatest(target.tenantId, target.id, metricKeys),
+      algorithm.openEvents ? this.healthRepo.findOpenAlerts(target.tenantId, target.id) : [],
+      algorithm.children ? this.healthRepo.findChildScores(target.tenantId, target.id) : [],
+    ]);
+
+    const readings = new Map<string, HealthReading>(
+      latest
+        .filter((row) => row.quality !== 'bad')
+        .map((row) => [row.metricKey, { value: row.value === null ? null : Number(row.value), timestamp: row.timestamp }])
+    );
+
+    return evaluateHealth(
+      algorithm,
+      { readings, openAlerts, lastTelemetryAt: target.lastTelemetryAt, children },
+      now
+    );
+  }
+}
+
+// Singleton instance
+let assetHealthService: AssetHealthService | null = null;
+
+export function getAssetHealthService(): AssetHealthService {
+  if (!assetHealthService) {
+    assetHealthService = new AssetHealthService();
+  }
+  return assetHealthService;
+}
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the asset type profile service
+ * Tests profile validation, version bumps and recorded versions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import {
+  AssetTypeProfileService,
+  nextTelemetryConfigVersion,
+  toAssetTypeProfileResponse,
+} from './asset-type-profile.service.js';
+import type { TypeDefinitionRepository } from '../repositories/type-definition.repository.js';
+import type { AssetTypeProfileVersionRepository } from '../repositories/asset-type-profile-version.repository.js';
+import type { AssetType } from '../db/schema/index.js';
+
+const ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d' as OrganizationId;
+const TYPE_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const USER_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+
+const METRIC_DEFINITIONS = {
+  metrics: [
+    { key: 'voltage', dataType: 'numeric', unit: 'V' },
+    { key: 'current', dataType: 'numeric', unit: 'A' },
+    { key: 'power', dataType: 'numeric', unit: 'W' },
+  ],
+};
+
+function createType(overrides: Partial<AssetType> = {}): AssetType {
+  return {
+    id: TYPE_ID,
+    organizationId: ORG_ID,
+    name: 'Pump',
+    isSystem: false,
+    metricDefinitions: METRIC_DEFINITIONS,
+    transformationEngine: null,
+    aggregationRules: null,
+    healthAlgorithm: null,
+    telemetryConfigVersion: '1.0.0',
+    telemetryConfigUpdatedAt: null,
+    telemetryConfigUpdatedBy: null,
+    ...overrides,
+  } as AssetType;
+}
+
+describe('nextTelemetryConfigVersion', () => {
+  it('should bump the minor version', () => {
+    expect(nextTelemetryConfigVersion('1.0.0')).toBe('1.1.0');
+    expect(nextTelemetryConfigVersion('2.9.3')).toBe('2.10.0');
+  });
+
+  it('should restart from the initial version', () => {
+    expect(nextTelemetryConfigVersion(null)).toBe('1.1.0');
+    expect(nextTelemetryConfigVersion('v2')).toBe('1.1.0');
+  });
+});
+
+describe('toAssetTypeProfileResponse', () => {
+  it('should report invalid stored settings as unset', () => {
+    const response = toAssetTypeProfileResponse(
+      createType({ aggregationRules: { windows: 'hourly' }, telemetryConfigVersion: null })
+    );
+
+    expect(response).toMatchObject({ aggregationRules: null, version: '1.0.0', updatedAt: null });
+  });
+});
+
+describe('AssetTypeProfileService', () => {
+  let typeRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let versionRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: AssetTypeProfileService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    typeRepo = {
+      update: vi.fn().mockImplementation(async (_kind, _id, _orgId, data) => createType(data)),
+      withTransaction: vi.fn().mockImplementation(async (fn) => fn('trx')),
+    };
+    versionRepo = {
+      create: vi.fn().mockImplementation(async (data) => data),
+      findByAssetType: vi.fn().mockResolvedValue([]),
+    };
+    service = new AssetTypeProfileService(
+      typeRepo as unknown as TypeDefinitionRepository,
+      versionRepo as unknown as AssetTypeProfileVersionRepository
+    );
+  });
+
+  describe('findProfileErrors', () => {
+    it('should validate formulas against the stored metric definitions', () => {
+      const errors = service.findProfileErrors(createType(), {
+        transformationEngine: {
+          derivedMetrics: [{ target: 'power', formula: 'voltage * amps' }],
+          staleAfterSeconds: 900,
+        },
+      });
+
+      expect(errors).toEqual([
+        {
+          path: 'transformationEngine.derivedMetrics[0].formula',
+          message: 'Metric "amps" is not defined by the asset type',
+        },
+      ]);
+    });
+
+    it('should validate stored computations against updated metric definitions', () => {
+      const type = createType({
+        transformationEngine: { derivedMetrics: [{ target: 'power', formula: 'voltage * current' }] },
+      });
+
+      expect(service.findProfileErrors(type, {})).toEqual([]);
+      expect(
+        service.findProfileErrors(type, { metricDefinitions: { metrics: [{ key: 'voltage', dataType: 'numeric' }] } })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should bump the version and record the resulting profile', async () => {
+      const input = { healthAlgorithm: null };
+
+      const updated = await service.updateProfile(ORG_ID, createType({ telemetryConfigVersion: '1.3.0' }), input, USER_ID);
+
+      expect(typeRepo.update).toHaveBeenCalledWith(
+        'asset',
+        TYPE_ID,
+        ORG_ID,
+        expect.objectContaining({ healthAlgorithm: null, telemetryConfigVersion: '1.4.0', telemetryConfigUpdatedBy: USER_ID }),
+        'trx'
+      );
+      expect(versionRepo.create).toHaveBeenCalledWith(
+        {
+          organizationId: ORG_ID,
+          assetTypeId: TYPE_ID,
+          version: '1.4.0',
+          profile: expect.objectContaining({ metricDefinitions: METRIC_DEFINITIONS, healthAlgorithm: null }),
+          createdBy: USER_ID,
+        },
+        'trx'
+      );
+      expect(updated.telemetryConfigVersion).toBe('1.4.0');
+    });
+  });
+
+  describe('listVersions', () => {
+    it('should map recorded versions', async () => {
+      const createdAt = new Date('2026-03-01T12:00:00Z');
+      versionRepo.findByAssetType.mockResolvedValue([
+        { version: '1.1.0', profile: { metricDefinitions: null }, createdBy: USER_ID, createdAt },
+      ]);
+
+      expect(await service.listVersions(ORG_ID, TYPE_ID)).toEqual([
+        {
+          version: '1.1.0',
+          profile: { metricDefinitions: null },
+          createdBy: USER_ID,
+          createdAt: '2026-03-01T12:00:00.000Z',
+        },
+      ]);
+      expect(versionRepo.findByAssetType).toHaveBeenCalledWith(TYPE_ID, ORG_ID);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Asset Type Profile Service
+ *
+ * Manages the telemetry profile of asset types: metric definitions, derived
+ * metrics, aggregation rules and health algorithm. Every change is validated
+ * as a whole (see compileComputationProfile), bumps the type's
+ * telemetry_config_version and records the resulting profile in
+ * asset_type_profile_versions, so computed telemetry can be traced back to
+ * the profile it was computed with.
+ */
+
+import {
+  assetTypeProfileSchema,
+  type AssetTypeProfile,
+  type AssetTypeProfileResponse,
+  type AssetTypeProfileVersionResponse,
+  type OrganizationId,
+  type UpdateAssetTypeProfileInput,
+} from '@argus/shared';
+import {
+  getTypeDefinitionRepository,
+  type TypeDefinitionRepository,
+} from '../repositories/type-definition.repository.js';
+import {
+  getAssetTypeProfileVersionRepository,
+  type AssetTypeProfileVersionRepository,
+} from '../repositories/asset-type-profile-version.repository.js';
+import type { AssetType } from '../db/schema/index.js';
+import { compileComputationProfile, type ComputationProfileError } from './telemetry-computation.service.js';
+
+/** telemetry_config_version of asset types whose profile was never changed */
+export const INITIAL_TELEMETRY_CONFIG_VERSION = '1.0.0';
+
+/**
+ * Version following a telemetry config version: the minor version is bumped
+ * ('1.0.0' -> '1.1.0'). Versions not in major.minor.patch form restart from
+ * the initial version.
+ */
+export function nextTelemetryConfigVersion(current: string | null): string {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(current ?? INITIAL_TELEMETRY_CONFIG_VERSION);
+  if (!match) return nextTelemetryConfigVersion(INITIAL_TELEMETRY_CONFIG_VERSION);
+  return `${match[1]}.${Number(match[2]) + 1}.0`;
+}
+
+/**
+ * Reads the stored profile of an asset type; settings stored before
+ * validation existed are reported as unset
+ */
+export function readAssetTypeProfile(type: AssetType): AssetTypeProfile {
+  const { shape } = assetTypeProfileSchema;
+  const metricDefinitions = shape.metricDefinitions.safeParse(type.metricDefinitions ?? null);
+  const transformationEngine = shape.transformationEngine.safeParse(type.transformationEngine ?? null);
+  const aggregationRules = shape.aggregationRules.safeParse(type.aggregationRules ?? null);
+  const healthAlgorithm = shape.healthAlgorithm.safeParse(type.healthAlgorithm ?? null);
+  return {
+    metricDefinitions: metricDefinitions.success ? metricDefinitions.data : null,
+    transformationEngine: transformationEngine.success ? transformationEngine.data : null,
+    aggregationRules: aggregationRules.success ? aggregationRules.data : null,
+    healthAlgorithm: healthAlgorithm.success ? healthAlgorithm.data : null,
+  };
+}
+
+/**
+ * Maps an asset type to its profile response
+ */
+export function toAssetTypeProfileResponse(type: AssetType): AssetTypeProfileResponse {
+  return {
+    ...readAssetTypeProfile(type),
+    version: type.telemetryConfigVersion ?? INITIAL_TELEMETRY_CONFIG_VERSION,
+    updatedAt: type.telemetryConfigUpdatedAt?.toISOString() ?? null,
+  };
+}
+
+export class AssetTypeProfileService {
+  constructor(
+    private readonly typeRepo: TypeDefinitionRepository = getTypeDefinitionRepository(),
+    private readonly versionRepo: AssetTypeProfileVersionRepository = getAssetTypeProfileVersionRepository()
+  ) {}
+
+  /**
+   * Validates a profile update against the rest of the stored profile:
+   * computed metrics must be numeric metric definitions and formulas must
+   * compile. Returns the problems found (empty when valid).
+   */
+  findProfileErrors(type: AssetType, input: UpdateAssetTypeProfileInput): ComputationProfileError[] {
+    const profile = { ...readAssetTypeProfile(type), ...input };
+    return compileComputationProfile(profile).errors;
+  }
+
+  /**
+   * Updates the profile of an asset type, bumping its telemetry config
+   * version and recording the resulting profile
+   */
+  async updateProfile(
+    organizationId: OrganizationId,
+    type: AssetType,
+    input: UpdateAssetTypeProfileInput,
+    userId: string
+  ): Promise<AssetType> {
+    return this.typeRepo.withTransaction(async (trx) => {
+      const updated = (await this.typeRepo.update(
+        'asset',
+        type.id,
+        organizationId,
+        {
+          ...input,
+          telemetryConfigVersion: nextTelemetryConfigVersion(type.telemetryConfigVersion),
+          telemetryConfigUpdatedAt: new Date(),
+          telemetryConfigUpdatedBy: userId,
+        },
+        trx
+      )) as AssetType;
+
+      await this.versionRepo.create(
+        {
+          organizationId,
+          assetTypeId: type.id,
+          version: updated.telemetryConfigVersion!,
+          profile: readAssetTypeProfile(updated),
+          createdBy: userId,
+        },
+        trx
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * Lists the recorded profile versions of an asset type, newest first
+   */
+  async listVersions(
+    organizationId: OrganizationId,
+    assetTypeId: string
+  ): Promise<AssetTypeProfileVersionResponse[]> {
+    const versions = await this.versionRepo.findByAssetType(assetTypeId, organizationId);
+    return versions.map((version) => ({
+      version: version.version,
+      profile: version.profile as AssetTypeProfile,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt.toISOString(),
+    }));
+  }
+}
+
+// Singleton instance
+let assetTypeProfileService: AssetTypeProfileService | null = null;
+
+export function getAssetTypeProfileService(): AssetTypeProfileService {
+  if (!assetTypeProfileService) {
+    assetTypeProfileService = new AssetTypeProfileService();
+  }
+  return assetTypeProfileService;
+}
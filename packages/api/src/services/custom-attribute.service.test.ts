@@ -0,0 +1,225 @@
+/**
+ * Unit tests for the custom attribute service
+ * Tests schema inheritance, property mappings, defaults, strict schemas,
+ * attribute filters and schema checks against existing entities
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import {
+  CustomAttributeService,
+  findAttributeFilters,
+  findAttributeSchemaErrors,
+  mergeAttributeSchemas,
+  propertyMappingsToSchema,
+} from './custom-attribute.service.js';
+import type { TypeDefinitionRepository } from '../repositories/type-definition.repository.js';
+import type { CustomAttributeRepository } from '../repositories/custom-attribute.repository.js';
+
+const ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d' as OrganizationId;
+const PARENT_TYPE_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const TYPE_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const ROOM_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+const HALL_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+
+const TYPES = {
+  [PARENT_TYPE_ID]: {
+    id: PARENT_TYPE_ID,
+    name: 'Building Area',
+    parentTypeId: null,
+    attributeSchema: {
+      type: 'object',
+      properties: { floor: { type: 'integer', default: 0 }, zone: { type: 'string' } },
+      required: ['zone'],
+    },
+  },
+  [TYPE_ID]: {
+    id: TYPE_ID,
+    name: 'Room',
+    parentTypeId: PARENT_TYPE_ID,
+    attributeSchema: {
+      type: 'object',
+      properties: { zone: { enum: ['north', 'south'] }, seats: { type: 'integer', minimum: 1 } },
+      additionalProperties: false,
+    },
+  },
+};
+
+describe('findAttributeSchemaErrors', () => {
+  it('should require an object schema', () => {
+    expect(findAttributeSchemaErrors({ type: 'object', properties: {} })).toEqual([]);
+    expect(findAttributeSchemaErrors({ type: 'string' })).toEqual([
+      { path: 'attributeSchema.type', message: 'Attribute schemas must describe an object' },
+    ]);
+    expect(findAttributeSchemaErrors({ type: 'object', allOf: [] })).toEqual([
+      { path: 'attributeSchema.allOf', message: 'Unsupported keyword "allOf"' },
+    ]);
+  });
+});
+
+describe('propertyMappingsToSchema', () => {
+  it('should translate property mappings', () => {
+    expect(
+      propertyMappingsToSchema([
+        { key: 'installedOn', dataType: 'date', required: true },
+        { key: 'rating', dataType: 'string', enumValues: ['A', 'B'], default: 'A' },
+      ])
+    ).toEqual({
+      type: 'object',
+      properties: {
+        installedOn: { type: 'string', format: 'date' },
+        rating: { type: 'string', enum: ['A', 'B'], default: 'A' },
+      },
+      required: ['installedOn'],
+    });
+  });
+
+  it('should ignore missing and malformed mappings', () => {
+    expect(propertyMappingsToSchema(null)).toBeNull();
+    expect(propertyMappingsToSchema([])).toBeNull();
+    expect(propertyMappingsToSchema([{ key: 'x', dataType: 'decimal' }])).toBeNull();
+  });
+});
+
+describe('mergeAttributeSchemas', () => {
+  it('should let subtypes override properties and accumulate required properties', () => {
+    expect(
+      mergeAttributeSchemas([
+        { properties: { a: { type: 'string' } }, required: ['a'], additionalProperties: false },
+        { properties: { a: { type: 'integer' }, b: { type: 'boolean' } }, required: ['b'], additionalProperties: true },
+      ])
+    ).toEqual({
+      type: 'object',
+      properties: { a: { type: 'integer' }, b: { type: 'boolean' } },
+      required: ['a', 'b'],
+      additionalProperties: true,
+    });
+  });
+});
+
+describe('findAttributeFilters', () => {
+  it('should read attr. query parameters', () => {
+    expect(findAttributeFilters({ page: 1, 'attr.floor': '3', 'attr.zone': 'north' })).toEqual({
+      filters: { floor: '3', zone: 'north' },
+      errors: [],
+    });
+  });
+
+  it('should reject invalid names and repeated parameters', () => {
+    expect(findAttributeFilters({ 'attr.a b': '1', 'attr.floor': ['1', '2'] }).errors).toEqual([
+      { path: 'attr.a b', message: 'Invalid attribute name' },
+      { path: 'attr.floor', message: 'Attribute filters take a single value' },
+    ]);
+  });
+
+  it('should reject other filters combined with attribute filters', () => {
+    const query = { 'attr.floor': '3', status: 'active', rootOnly: false };
+
+    expect(findAttributeFilters(query, ['status', 'rootOnly']).errors).toEqual([
+      { path: 'status', message: 'Cannot be combined with attribute filters' },
+    ]);
+    expect(findAttributeFilters({ status: 'active' }, ['status']).errors).toEqual([]);
+  });
+});
+
+describe('CustomAttributeService', () => {
+  let typeRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let attributeRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: CustomAttributeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    typeRepo = {
+      findById: vi.fn().mockImplementation(async (_kind, id) => TYPES[id as keyof typeof TYPES] ?? null),
+      findChildren: vi.fn().mockImplementation(async (_kind, _orgId, parentId) => ({
+        data: Object.values(TYPES).filter((type) => type.parentTypeId === parentId),
+        pagination: { hasNext: false },
+      })),
+    };
+    attributeRepo = {
+      findPropertyMappings: vi.fn().mockResolvedValue(new Map()),
+      findEntityAttributes: vi.fn().mockResolvedValue([]),
+    };
+    service = new CustomAttributeService(
+      typeRepo as unknown as TypeDefinitionRepository,
+      attributeRepo as unknown as CustomAttributeRepository
+    );
+  });
+
+  describe('validate', () => {
+    it('should apply inherited defaults', async () => {
+      const result = await service.validate('space', TYPE_ID, ORG_ID, { zone: 'north' });
+
+      expect(result).toEqual({ attributes: { zone: 'north', floor: 0 }, errors: [] });
+    });
+
+    it('should validate against the merged schema of the type chain', async () => {
+      const result = await service.validate('space', TYPE_ID, ORG_ID, { zone: 'east', seats: 0, colour: 'red' });
+
+      expect(result.errors).toEqual([
+        { path: 'customAttributes.zone', message: 'Must be one of "north", "south"' },
+        { path: 'customAttributes.seats', message: 'Must be at least 1' },
+        { path: 'customAttributes.colour', message: 'Unknown property' },
+      ]);
+    });
+
+    it('should include property mappings registered for the types', async () => {
+      attributeRepo.findPropertyMappings.mockResolvedValue(
+        new Map([['Room', [{ key: 'seats', dataType: 'integer', required: true }]]])
+      );
+
+      const result = await service.validate('space', TYPE_ID, ORG_ID, { zone: 'south' });
+
+      expect(attributeRepo.findPropertyMappings).toHaveBeenCalledWith(ORG_ID, 'space', ['Building Area', 'Room']);
+      expect(result.errors).toEqual([{ path: 'customAttributes.seats', message: 'Required' }]);
+    });
+
+    it('should accept any attributes of types without a schema', async () => {
+      typeRepo.findById.mockResolvedValue({ id: HALL_ID, name: 'Hall', parentTypeId: null, attributeSchema: null });
+
+      expect(await service.validate('space', HALL_ID, ORG_ID, { anything: true })).toEqual({
+        attributes: { anything: true },
+        errors: [],
+      });
+    });
+  });
+
+  describe('checkSchema', () => {
+    it('should report entities of the type and its subtypes violating a changed schema', async () => {
+      attributeRepo.findEntityAttributes.mockImplementation(async (_kind, _orgId, typeId, afterId) => {
+        if (afterId) return [];
+        return typeId === PARENT_TYPE_ID
+          ? [{ id: HALL_ID, name: 'Lobby', typeId, customAttributes: { zone: 'east' } }]
+          : [{ id: ROOM_ID, name: 'Room 1', typeId, customAttributes: { zone: 'east' } }];
+      });
+
+      const result = await service.checkSchema('space', PARENT_TYPE_ID, ORG_ID, {
+        type: 'object',
+        properties: { zone: { type: 'string' }, wing: { type: 'string' } },
+        required: ['wing'],
+      });
+
+      expect(result).toEqual({
+        checked: 2,
+        truncated: false,
+        violations: [
+          {
+            entityId: HALL_ID,
+            name: 'Lobby',
+            typeId: PARENT_TYPE_ID,
+            errors: [{ path: 'customAttributes.wing', message: 'Required' }],
+          },
+          {
+            entityId: ROOM_ID,
+            name: 'Room 1',
+            typeId: TYPE_ID,
+            errors: [
+              { path: 'customAttributes.zone', message: 'Must be one of "north", "south"' },
+              { path: 'customAttributes.wing', message: 'Required' },
+            ],
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Custom Attribute Service
+ *
+ * Validates the customAttributes of assets, devices, spaces, persons and
+ * activities against the attribute schema of their type. The effective schema
+ * of a type merges, from the root of its parentTypeId chain down to the type
+ * itself, the property mappings registered for each type in type_definitions
+ * (matched by base type and name) and each type's attributeSchema (JSON
+ * Schema, see utils/json-schema.ts). Properties of subtypes override those of
+ * their parents; required properties accumulate; the nearest
+ * additionalProperties setting applies, so `additionalProperties: false`
+ * makes a schema strict.
+ *
+ * Validation applies property defaults. Changed schemas can be checked
+ * against the attributes of existing entities before they are saved.
+ */
+
+import {
+  ATTRIBUTE_FILTER_PREFIX,
+  MAX_ATTRIBUTE_FILTERS,
+  attributeKeySchema,
+  propertyMappingsSchema,
+  type AttributeSchemaCheckResponse,
+  type AttributeViolation,
+  type OrganizationId,
+  type PropertyMapping,
+} from '@argus/shared';
+import {
+  getTypeDefinitionRepository,
+  type TypeDefinition,
+  type TypeDefinitionRepository,
+  type TypeKind,
+} from '../repositories/type-definition.repository.js';
+import {
+  getCustomAttributeRepository,
+  type CustomAttributeRepository,
+} from '../repositories/custom-attribute.repository.js';
+import {
+  findSchemaErrors,
+  validateJsonSchema,
+  type JsonSchema,
+  type JsonSchemaError,
+} from '../utils/json-schema.js';
+
+/** Upper bound on parent types followed when resolving a schema */
+export const MAX_TYPE_DEPTH = 16;
+
+/** Entities checked per query when checking a schema */
+export const ATTRIBUTE_CHECK_BATCH_SIZE = 500;
+
+/** Upper bound on entities checked per schema check */
+export const MAX_CHECKED_ENTITIES = 10000;
+
+export interface AttributeValidation {
+  /** The attributes with defaults applied */
+  attributes: Record<string, unknown>;
+  errors: JsonSchemaError[];
+}
+
+/** Custom attribute filters of a list request */
+export interface AttributeFilters {
+  filters: Record<string, string>;
+  errors: JsonSchemaError[];
+}
+
+/** Replaces the stored attribute schema of one type while resolving */
+interface SchemaOverride {
+  typeId: string;
+  attributeSchema: JsonSchema | null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks an attribute schema before it is stored: it must be a valid schema
+ * describing an object
+ */
+export function findAttributeSchemaErrors(schema: unknown): JsonSchemaError[] {
+  const errors = findSchemaErrors(schema, 'attributeSchema');
+  if (errors.length === 0 && (schema as JsonSchema).type !== undefined && (schema as JsonSchema).type !== 'object') {
+    errors.push({ path: 'attributeSchema.type', message: 'Attribute schemas must describe an object' });
+  }
+  return errors;
+}
+
+function toPropertySchema(mapping: PropertyMapping): JsonSchema {
+  const schema: JsonSchema =
+    mapping.dataType === 'date' || mapping.dataType === 'date-time'
+      ? { type: 'string', format: mapping.dataType }
+      : { type: mapping.dataType };
+  if (mapping.enumValues) schema.enum = mapping.enumValues;
+  if (mapping.default !== undefined) schema.default = mapping.default;
+  if (mapping.description) schema.description = mapping.description;
+  return schema;
+}
+
+/**
+ * Translates the property mappings of a type_definitions entry into an
+ * attribute schema; null when there are none or they are malformed
+ */
+export function propertyMappingsToSchema(stored: unknown): JsonSchema | null {
+  const parsed = propertyMappingsSchema.safeParse(stored);
+  if (!parsed.success || parsed.data.length === 0) return null;
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: Object.fromEntries(parsed.data.map((mapping) => [mapping.key, toPropertySchema(mapping)])),
+    required: parsed.data.filter((mapping) => mapping.required).map((mapping) => mapping.key),
+  };
+  return findSchemaErrors(schema).length === 0 ? schema : null;
+}
+
+/**
+ * Merges attribute schemas, most general first, into one object schema
+ */
+export function mergeAttributeSchemas(schemas: JsonSchema[]): JsonSchema {
+  const properties: Record<string, unknown> = {};
+  const required = new Set<string>();
+  let additionalProperties: unknown;
+
+  for (const schema of schemas) {
+    if (isPlainObject(schema.properties)) Object.assign(properties, schema.properties);
+    if (Array.isArray(schema.required)) schema.required.forEach((key) => required.add(key as string));
+    if (schema.additionalProperties !== undefined) additionalProperties = schema.additionalProperties;
+  }
+
+  const merged: JsonSchema = { type: 'object', properties, required: [...required] };
+  if (additionalProperties !== undefined) merged.additionalProperties = additionalProperties;
+  return merged;
+}
+
+/**
+ * Reads attr.<name>=<value> parameters of a list query
+ * `exclusive` names the query's other filters that attribute filters cannot
+ * be combined with; using one together with an attribute filter is an error.
+ */
+export function findAttributeFilters(query: Record<string, unknown>, exclusive: string[] = []): AttributeFilters {
+  const filters: Record<string, string> = {};
+  const errors: JsonSchemaError[] = [];
+
+  for (const [param, value] of Object.entries(query)) {
+    if (!param.startsWith(ATTRIBUTE_FILTER_PREFIX)) continue;
+
+    const key = param.slice(ATTRIBUTE_FILTER_PREFIX.length);
+    if (!attributeKeySchema.safeParse(key).success) {
+      errors.push({ path: param, message: 'Invalid attribute name' });
+    } else if (typeof value !== 'string') {
+      errors.push({ path: param, message: 'Attribute filters take a single value' });
+    } else {
+      filters[key] = value;
+    }
+  }
+
+  if (Object.keys(filters).length > MAX_ATTRIBUTE_FILTERS) {
+    errors.push({ path: ATTRIBUTE_FILTER_PREFIX, message: `At most ${MAX_ATTRIBUTE_FILTERS} attribute filters are allowed` });
+  }
+  if (Object.keys(filters).length > 0) {
+    for (const param of exclusive) {
+      if (query[param] !== undefined && query[param] !== false) {
+        errors.push({ path: param, message: 'Cannot be combined with attribute filters' });
+      }
+    }
+  }
+  return { filters, errors };
+}
+
+export class CustomAttributeService {
+  constructor(
+    private readonly typeRepo: TypeDefinitionRepository = getTypeDefinitionRepository(),
+    private readonly attributeRepo: CustomAttributeRepository = getCustomAttributeRepository()
+  ) {}
+
+  /**
+   * Resolves the effective attribute schema of a type
+   * Returns null when neither the type nor its ancestors define attributes.
+   */
+  async resolveSchema(
+    kind: TypeKind,
+    typeId: string,
+    organizationId: OrganizationId,
+    override?: SchemaOverride
+  ): Promise<JsonSchema | null> {
+    const chain = await this.findTypeChain(kind, typeId, organizationId);
+    const mappings = await this.attributeRepo.findPropertyMappings(
+      organizationId,
+      kind,
+      chain.map((type) => type.name)
+    );
+
+    const schemas: JsonSchema[] = [];
+    for (const type of chain) {
+      const mapped = propertyMappingsToSchema(mappings.get(type.name));
+      if (mapped) schemas.push(mapped);
+
+      const attributeSchema = override?.typeId === type.id ? override.attributeSchema : type.attributeSchema;
+      // Schemas stored before validation existed are ignored
+      if (attributeSchema != null && findAttributeSchemaErrors(attributeSchema).length === 0) {
+        schemas.push(attributeSchema as JsonSchema);
+      }
+    }
+    return schemas.length > 0 ? mergeAttributeSchemas(schemas) : null;
+  }
+
+  /**
+   * Validates custom attributes against the schema of their type, applying
+   * defaults
+   */
+  async validate(
+    kind: TypeKind,
+    typeId: string,
+    organizationId: OrganizationId,
+    attributes: Record<string, unknown>
+  ): Promise<AttributeValidation> {
+    const schema = await this.resolveSchema(kind, typeId, organizationId);
+    if (!schema) return { attributes, errors: [] };
+    return this.applySchema(schema, attributes);
+  }
+
+  /**
+   * Reports the entities of a type and its subtypes whose custom attributes
+   * do not match the type's attribute schema, or the given replacement schema
+   * (null removes the type's own schema). Stops after MAX_CHECKED_ENTITIES.
+   */
+  async checkSchema(
+    kind: TypeKind,
+    typeId: string,
+    organizationId: OrganizationId,
+    attributeSchema?: JsonSchema | null
+  ): Promise<AttributeSchemaCheckResponse> {
+    const override = attributeSchema === undefined ? undefined : { typeId, attributeSchema };
+    const violations: AttributeViolation[] = [];
+    let checked = 0;
+
+    for (const checkedTypeId of await this.findTypeTree(kind, typeId, organizationId)) {
+      const schema = await this.resolveSchema(kind, checkedTypeId, organizationId, override);
+      let afterId: string | null = null;
+
+      while (checked < MAX_CHECKED_ENTITIES) {
+        const entities = await this.attributeRepo.findEntityAttributes(
+          kind,
+          organizationId,
+          checkedTypeId,
+          afterId,
+          Math.min(ATTRIBUTE_CHECK_BATCH_SIZE, MAX_CHECKED_ENTITIES - checked)
+        );
+        if (entities.length === 0) break;
+
+        for (const entity of entities) {
+          const attributes = isPlainObject(entity.customAttributes) ? entity.customAttributes : {};
+          const errors = schema ? this.applySchema(schema, attributes).errors : [];
+          if (errors.length > 0) {
+            violations.push({ entityId: entity.id, name: entity.name, typeId: entity.typeId, errors });
+          }
+        }
+        checked += entities.length;
+        afterId = entities[entities.length - 1].id;
+      }
+
+      if (checked >= MAX_CHECKED_ENTITIES) {
+        return { checked, truncated: true, violations };
+      }
+    }
+
+    return { checked, truncated: false, violations };
+  }
+
+  private applySchema(schema: JsonSchema, attributes: Record<string, unknown>): AttributeValidation {
+    const result = validateJsonSchema(schema, attributes);
+    return {
+      attributes: result.value as Record<string, unknown>,
+      errors: result.errors.map((error) => ({
+        path: error.path ? `customAttributes.${error.path}` : 'customAttributes',
+        message: error.message,
+      })),
+    };
+  }
+
+  /**
+   * Finds a type and its ancestors, root first. Stops at unknown or
+   * repeated types.
+   */
+  private async findTypeChain(
+    kind: TypeKind,
+    typeId: string,
+    organizationId: OrganizationId
+  ): Promise<TypeDefinition[]> {
+    const chain: TypeDefinition[] = [];
+    let nextId: string | null = typeId;
+
+    while (nextId && chain.length < MAX_TYPE_DEPTH && !chain.some((type) => type.id === nextId)) {
+      const type: TypeDefinition | null = await this.typeRepo.findById(kind, nextId, organizationId);
+      if (!type) break;
+      chain.push(type);
+      nextId = type.parentTypeId;
+    }
+    return chain.reverse();
+  }
+
+  /**
+   * Finds a type and its descendants, MAX_TYPE_DEPTH levels deep
+   */
+  private async findTypeTree(kind: TypeKind, typeId: string, organizationId: OrganizationId): Promise<string[]> {
+    const found = [typeId];
+    let level = [typeId];
+
+    for (let depth = 0; level.length > 0 && depth < MAX_TYPE_DEPTH; depth++) {
+      const next: string[] = [];
+      for (const parentId of level) {
+        for (let page = 1; ; page++) {
+          const children = await this.typeRepo.findChildren(kind, organizationId, parentId, { page, pageSize: 100 });
+          next.push(...children.data.map((child) => child.id).filter((id) => !found.includes(id)));
+          if (!children.pagination.hasNext) break;
+        }
+      }
+      found.push(...next);
+      level = next;
+    }
+    return found;
+  }
+}
+
+// Singleton instance
+let customAttributeService: CustomAttributeService | null = null;
+
+export function getCustomAttributeService(): CustomAttributeService {
+  if (!customAttributeService) {
+    customAttributeService = new CustomAttributeService();
+  }
+  return customAttributeService;
+}
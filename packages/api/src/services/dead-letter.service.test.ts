@@ -0,0 +1,110 @@
+/**
+ * Dead-letter service tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeadLetterService, type DeadLetterStore, type StoredDeadLetter } from './dead-letter.service.js';
+
+function stored(seq: number, reason: string, headers: Record<string, string> = {}): StoredDeadLetter {
+  return {
+    seq,
+    subject: `dlq.telemetry.${reason}`,
+    data: new TextEncoder().encode('{"temperature":21}'),
+    headers: { 'dlq-reason': reason, 'dlq-error': 'rejected', 'dead-lettered-at': '2026-03-01T12:00:00.000Z', ...headers },
+    time: new Date('2026-03-01T12:00:00Z'),
+  };
+}
+
+describe('DeadLetterService', () => {
+  let messages: StoredDeadLetter[];
+  let store: {
+    next: ReturnType<typeof vi.fn>;
+    get: ReturnType<typeof vi.fn>;
+    countBySubject: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+    publish: ReturnType<typeof vi.fn>;
+  };
+  let service: DeadLetterService;
+
+  beforeEach(() => {
+    messages = [
+      stored(3, 'unmapped', { 'mqtt-topic': 'application/a/device/0102/event/up', identifiers: '0102' }),
+      stored(7, 'invalid', { 'mqtt-topic': 'devices/x/telemetry' }),
+      stored(9, 'unmapped', { 'mqtt-topic': 'application/a/device/0304/event/up', 'dlq-truncated': '70000' }),
+      stored(12, 'publish_failed', { 'nats-subject': 'telemetry.raw.d1' }),
+    ];
+    const matches = (msg: StoredDeadLetter, subject: string) =>
+      subject.endsWith('.>') ? msg.subject.startsWith(subject.slice(0, -1)) : msg.subject === subject;
+    store = {
+      next: vi.fn(async (seq: number, subject: string) => messages.find((m) => m.seq >= seq && matches(m, subject)) ?? null),
+      get: vi.fn(async (seq: number) => messages.find((m) => m.seq === seq) ?? null),
+      countBySubject: vi.fn().mockResolvedValue({ 'dlq.telemetry.unmapped': 2, 'dlq.telemetry.invalid': 1 }),
+      remove: vi.fn(async (seq: number) => {
+        const before = messages.length;
+        messages = messages.filter((m) => m.seq !== seq);
+        return messages.length < before;
+      }),
+      publish: vi.fn().mockResolvedValue(undefined),
+    };
+    service = new DeadLetterService(store as unknown as DeadLetterStore, 'dlq.telemetry', 'telemetry');
+  });
+
+  describe('list', () => {
+    it('should page through dead letters by sequence', async () => {
+      const page = await service.list({ after: 0, limit: 2 });
+
+      expect(page.data.map((d) => d.seq)).toEqual([3, 7]);
+      expect(page.nextCursor).toBe(7);
+      expect(page.counts).toEqual({ unmapped: 2, invalid: 1 });
+
+      const next = await service.list({ after: 7, limit: 2 });
+      expect(next.data.map((d) => d.seq)).toEqual([9, 12]);
+    });
+
+    it('should filter by reason and describe each dead letter', async () => {
+      const page = await service.list({ reason: 'unmapped', after: 0, limit: 25 });
+
+      expect(page.nextCursor).toBeNull();
+      expect(page.data).toEqual([
+        expect.objectContaining({ seq: 3, identifiers: ['0102'], truncated: false, replayable: true }),
+        expect.objectContaining({ seq: 9, size: 70000, truncated: true, replayable: false }),
+      ]);
+    });
+  });
+
+  describe('get', () => {
+    it('should return the payload as base64 and text', async () => {
+      const deadLetter = await service.get(3);
+
+      expect(deadLetter?.payloadText).toBe('{"temperature":21}');
+      expect(Buffer.from(deadLetter!.payload, 'base64').toString()).toBe('{"temperature":21}');
+      expect(await service.get(4)).toBeNull();
+    });
+  });
+
+  describe('replay', () => {
+    it('should hand the dead letter to the bridge and remove it', async () => {
+      expect(await service.replay(3)).toBe('replayed');
+
+      expect(store.publish).toHaveBeenCalledWith(
+        'telemetry.replay',
+        expect.any(Uint8Array),
+        expect.objectContaining({ 'mqtt-topic': 'application/a/device/0102/event/up', 'dlq-seq': '3' }),
+        'dlq-replay-3'
+      );
+      expect(store.remove).toHaveBeenCalledWith(3);
+    });
+
+    it('should refuse truncated and missing dead letters', async () => {
+      expect(await service.replay(9)).toBe('not_replayable');
+      expect(await service.replay(4)).toBe('not_found');
+      expect(store.publish).not.toHaveBeenCalled();
+    });
+
+    it('should replay the oldest dead letters of a reason in bulk', async () => {
+      const result = await service.replayMany({ reason: 'unmapped', limit: 100 });
+
+      expect(result).toEqual({ replayed: [3], skipped: [{ seq: 9, reason: 'not_replayable' }] });
+    });
+  });
+});
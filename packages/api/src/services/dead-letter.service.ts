@@ -0,0 +1,317 @@
+/**
+ * Dead-Letter Service
+ *
+ * Browses and replays the messages the IoT bridge dead-lettered on the
+ * TELEMETRY_DLQ stream ({dlqPrefix}.{reason}, see DeadLetterReason).
+ *
+ * Dead letters are read with JetStream direct get, so browsing creates no
+ * consumers. Replaying publishes the dead letter to {prefix}.replay, where the
+ * bridge republishes publish failures and runs rejected MQTT messages through
+ * its protocol adapters again (reloading device mappings first for unmapped
+ * ones), then removes it from the stream. Messages rejected again are
+ * dead-lettered again under a new sequence.
+ */
+
+import {
+  connect,
+  headers as createHeaders,
+  type JetStreamClient,
+  type JetStreamManager,
+  type NatsConnection,
+  type StoredMsg,
+} from 'nats';
+import {
+  deadLetterReasonSchema,
+  type DeadLetter,
+  type DeadLetterDetail,
+  type DeadLetterListQuery,
+  type DeadLetterListResponse,
+  type DeadLetterReason,
+  type ReplayDeadLettersInput,
+  type ReplayDeadLettersResponse,
+} from '@argus/shared';
+
+/** A message stored on the dead-letter stream */
+export interface StoredDeadLetter {
+  seq: number;
+  subject: string;
+  data: Uint8Array;
+  headers: Record<string, string>;
+  time: Date;
+}
+
+/** Access to the dead-letter stream */
+export interface DeadLetterStore {
+  /** First message at or after `seq` matching `subject` (may contain wildcards) */
+  next(seq: number, subject: string): Promise<StoredDeadLetter | null>;
+  get(seq: number): Promise<StoredDeadLetter | null>;
+  /** Message counts per subject matching `subject` */
+  countBySubject(subject: string): Promise<Record<string, number>>;
+  remove(seq: number): Promise<boolean>;
+  /** Publish to the telemetry stream */
+  publish(subject: string, data: Uint8Array, headers: Record<string, string>, msgId: string): Promise<void>;
+}
+
+/** JetStream direct get - implemented by the manager but missing from the nats.js typings */
+type DirectGetManager = JetStreamManager & {
+  direct: { getMessage(stream: string, query: { seq: number; next_by_subj?: string }): Promise<StoredMsg> };
+};
+
+export type ReplayOutcome = 'replayed' | 'not_found' | 'not_replayable';
+
+function isNotFound(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '404';
+}
+
+/**
+ * NATS JetStream dead-letter store (connects lazily)
+ */
+export class NatsDeadLetterStore implements DeadLetterStore {
+  private connection: Promise<{ nc: NatsConnection; js: JetStreamClient; jsm: DirectGetManager }> | null = null;
+
+  constructor(
+    private servers: string[],
+    private streamName: string
+  ) {}
+
+  async next(seq: number, subject: string): Promise<StoredDeadLetter | null> {
+    const { jsm } = await this.connect();
+    try {
+      const msg = await jsm.direct.getMessage(this.streamName, { seq, next_by_subj: subject });
+      return this.toStored(msg);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async get(seq: number): Promise<StoredDeadLetter | null> {
+    const { jsm } = await this.connect();
+    try {
+      const msg = await jsm.direct.getMessage(this.streamName, { seq });
+      return this.toStored(msg);
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async countBySubject(subject: string): Promise<Record<string, number>> {
+    const { jsm } = await this.connect();
+    const info = await jsm.streams.info(this.streamName, { subjects_filter: subject });
+    return info.state.subjects ?? {};
+  }
+
+  async remove(seq: number): Promise<boolean> {
+    const { jsm } = await this.connect();
+    try {
+      return await jsm.streams.deleteMessage(this.streamName, seq);
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async publish(subject: string, data: Uint8Array, headers: Record<string, string>, msgId: string): Promise<void> {
+    const { js } = await this.connect();
+    const hdrs = createHeaders();
+    for (const [key, value] of Object.entries(headers)) {
+      hdrs.append(key, value);
+    }
+    await js.publish(subject, data, { headers: hdrs, msgID: msgId });
+  }
+
+  async close(): Promise<void> {
+    if (!this.connection) return;
+    const { nc } = await this.connection;
+    this.connection = null;
+    await nc.drain();
+  }
+
+  private toStored(msg: StoredMsg): StoredDeadLetter {
+    const headers: Record<string, string> = {};
+    for (const key of msg.header?.keys() ?? []) {
+      headers[key] = msg.header.get(key);
+    }
+    return { seq: msg.seq, subject: msg.subject, data: msg.data, headers, time: msg.time };
+  }
+
+  private connect(): Promise<{ nc: NatsConnection; js: JetStreamClient; jsm: DirectGetManager }> {
+    if (!this.connection) {
+      this.connection = connect({ servers: this.servers, maxReconnectAttempts: -1 })
+        .then(async (nc) => ({ nc, js: nc.jetstream(), jsm: (await nc.jetstreamManager()) as DirectGetManager }))
+        .catch((error) => {
+          this.connection = null;
+          throw error;
+        });
+    }
+    return this.connection;
+  }
+}
+
+/**
+ * Dead-Letter Service class
+ */
+export class DeadLetterService {
+  constructor(
+    private store: DeadLetterStore = new NatsDeadLetterStore(
+      process.env.NATS_SERVERS?.split(',').map((s) => s.trim()) ?? ['nats://localhost:4222'],
+      process.env.NATS_DLQ_STREAM ?? 'TELEMETRY_DLQ'
+    ),
+    private dlqPrefix: string = process.env.NATS_DLQ_SUBJECT_PREFIX ?? 'dlq.telemetry',
+    private subjectPrefix: string = process.env.NATS_SUBJECT_PREFIX ?? 'telemetry'
+  ) {}
+
+  /**
+   * Lists dead letters oldest first, paginated by stream sequence
+   */
+  async list(query: DeadLetterListQuery): Promise<DeadLetterListResponse> {
+    const subject = query.reason ? `${this.dlqPrefix}.${query.reason}` : `${this.dlqPrefix}.>`;
+    const data: DeadLetter[] = [];
+
+    let seq = query.after + 1;
+    while (data.length < query.limit) {
+      const msg = await this.store.next(seq, subject);
+      if (!msg) break;
+      data.push(this.toDeadLetter(msg));
+      seq = msg.seq + 1;
+    }
+
+    return {
+      data,
+      nextCursor: data.length === query.limit ? data[data.length - 1].seq : null,
+      counts: await this.getCounts(),
+    };
+  }
+
+  /**
+   * Dead letter with its payload, or null if it does not exist (or was replayed)
+   */
+  async get(seq: number): Promise<DeadLetterDetail | null> {
+    const msg = await this.findDeadLetter(seq);
+    if (!msg) return null;
+
+    let payloadText: string | null;
+    try {
+      payloadText = new TextDecoder('utf-8', { fatal: true }).decode(msg.data);
+    } catch {
+      payloadText = null;
+    }
+
+    return {
+      ...this.toDeadLetter(msg),
+      payload: Buffer.from(msg.data).toString('base64'),
+      payloadText,
+      headers: msg.headers,
+    };
+  }
+
+  /**
+   * Hands a dead letter back to the bridge and removes it from the stream
+   */
+  async replay(seq: number): Promise<ReplayOutcome> {
+    const msg = await this.findDeadLetter(seq);
+    if (!msg) return 'not_found';
+    if (!this.toDeadLetter(msg).replayable) return 'not_replayable';
+
+    await this.store.publish(
+      `${this.subjectPrefix}.replay`,
+      msg.data,
+      { ...msg.headers, 'dlq-seq': seq.toString() },
+      // Deduplicates a replay retried after the removal below failed
+      `dlq-replay-${seq}`
+    );
+    await this.store.remove(seq);
+    return 'replayed';
+  }
+
+  /**
+   * Replays the given dead letters, or the oldest ones (of a reason)
+   */
+  async replayMany(input: ReplayDeadLettersInput): Promise<ReplayDeadLettersResponse> {
+    let seqs = input.seqs;
+    if (!seqs) {
+      const subject = input.reason ? `${this.dlqPrefix}.${input.reason}` : `${this.dlqPrefix}.>`;
+      seqs = [];
+      let seq = 1;
+      while (seqs.length < input.limit) {
+        const msg = await this.store.next(seq, subject);
+        if (!msg) break;
+        seqs.push(msg.seq);
+        seq = msg.seq + 1;
+      }
+    }
+
+    const result: ReplayDeadLettersResponse = { replayed: [], skipped: [] };
+    for (const seq of seqs) {
+      const outcome = await this.replay(seq);
+      if (outcome === 'replayed') {
+        result.replayed.push(seq);
+      } else {
+        result.skipped.push({ seq, reason: outcome });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Discards a dead letter
+   */
+  async delete(seq: number): Promise<boolean> {
+    const msg = await this.findDeadLetter(seq);
+    if (!msg) return false;
+    return this.store.remove(seq);
+  }
+
+  private async getCounts(): Promise<Record<string, number>> {
+    const bySubject = await this.store.countBySubject(`${this.dlqPrefix}.>`);
+    const counts: Record<string, number> = {};
+    for (const [subject, count] of Object.entries(bySubject)) {
+      const reason = subject.slice(this.dlqPrefix.length + 1);
+      counts[reason] = (counts[reason] ?? 0) + count;
+    }
+    return counts;
+  }
+
+  private async findDeadLetter(seq: number): Promise<StoredDeadLetter | null> {
+    const msg = await this.store.get(seq);
+    return msg && msg.subject.startsWith(`${this.dlqPrefix}.`) ? msg : null;
+  }
+
+  private toDeadLetter(msg: StoredDeadLetter): DeadLetter {
+    const headers = msg.headers;
+    const parsedReason = deadLetterReasonSchema.safeParse(
+      headers['dlq-reason'] ?? msg.subject.slice(this.dlqPrefix.length + 1)
+    );
+    const reason: DeadLetterReason = parsedReason.success ? parsedReason.data : 'invalid';
+    const truncated = headers['dlq-truncated'] !== undefined;
+    const mqttTopic = headers['mqtt-topic'] ?? null;
+    const natsSubject = headers['nats-subject'] ?? null;
+
+    return {
+      seq: msg.seq,
+      reason,
+      error: headers['dlq-error'] ?? '',
+      mqttTopic,
+      natsSubject,
+      deviceId: headers['device-id'] ?? null,
+      adapter: headers['adapter'] ?? null,
+      identifiers: headers['identifiers'] ? headers['identifiers'].split(',') : [],
+      receivedAt: headers['received-at'] ?? null,
+      deadLetteredAt: headers['dead-lettered-at'] ?? msg.time.toISOString(),
+      size: truncated ? Number(headers['dlq-truncated']) : msg.data.length,
+      truncated,
+      replayable: !truncated && (mqttTopic !== null || natsSubject !== null),
+    };
+  }
+}
+
+// Singleton instance
+let deadLetterService: DeadLetterService | null = null;
+
+export function getDeadLetterService(): DeadLetterService {
+  if (!deadLetterService) {
+    deadLetterService = new DeadLetterService();
+  }
+  return deadLetterService;
+}
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for the device binding service
+ * Tests binding validation, ending bindings and the binding response
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import { DeviceBindingService, toDeviceBindingResponse } from './device-binding.service.js';
+import type { RelationshipService } from './relationship.service.js';
+import type { EntityEdge, RelationshipRepository } from '../repositories/relationship.repository.js';
+import type { AssetRepository } from '../repositories/asset.repository.js';
+import type { TypeDefinitionRepository } from '../repositories/type-definition.repository.js';
+
+const ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d' as OrganizationId;
+const ASSET_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const SPACE_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const DEVICE_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+const ASSET_TYPE_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+const BINDING_ID = '6f7a8b9c-0d1e-4f2a-9b4c-5d6e7f8a9b0c';
+
+function createEdge(overrides: Partial<EntityEdge> = {}): EntityEdge {
+  return {
+    id: BINDING_ID,
+    tenantId: ORG_ID,
+    sourceEntityId: ASSET_ID,
+    sourceEntityType: 'Asset',
+    targetEntityId: DEVICE_ID,
+    targetEntityType: 'Device',
+    relationshipType: 'MONITORED_BY',
+    metadata: null,
+    validFrom: null,
+    validUntil: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  } as EntityEdge;
+}
+
+describe('toDeviceBindingResponse', () => {
+  it('should report whether the binding is in effect', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    const edge = createEdge({
+      metadata: { metricMappings: { temp: 'motor_temperature' } },
+      validUntil: new Date('2026-02-01T00:00:00Z'),
+    });
+
+    expect(toDeviceBindingResponse({ edge, deviceName: 'Sensor', entityName: 'Pump' }, now)).toEqual({
+      id: BINDING_ID,
+      deviceId: DEVICE_ID,
+      deviceName: 'Sensor',
+      entityType: 'Asset',
+      entityId: ASSET_ID,
+      entityName: 'Pump',
+      metricMappings: { temp: 'motor_temperature' },
+      validFrom: null,
+      validUntil: '2026-02-01T00:00:00.000Z',
+      active: false,
+      createdAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+});
+
+describe('DeviceBindingService', () => {
+  let relationshipRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let relationshipService: Record<string, ReturnType<typeof vi.fn>>;
+  let assetRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let typeRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: DeviceBindingService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    relationshipRepo = {
+      findById: vi.fn().mockResolvedValue(createEdge()),
+      findEdges: vi.fn().mockResolvedValue([]),
+      findEntities: vi
+        .fn()
+        .mockImplementation(async (_tenantId, baseType: string, ids: string[]) =>
+          ids.map((id) => ({ id, name: `${baseType} ${id.slice(0, 4)}` }))
+        ),
+    };
+    relationshipService = {
+      findCreateError: vi.fn().mockResolvedValue(null),
+      createRelationship: vi.fn().mockResolvedValue(createEdge()),
+      updateRelationship: vi.fn().mockImplementation(async (edge, input) =>
+        createEdge({ ...edge, validUntil: new Date(input.validUntil) })
+      ),
+      deleteRelationship: vi.fn().mockResolvedValue(true),
+    };
+    assetRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ASSET_ID, assetTypeId: ASSET_TYPE_ID }),
+    };
+    typeRepo = {
+      findById: vi.fn().mockResolvedValue({
+        id: ASSET_TYPE_ID,
+        metricDefinitions: { metrics: [{ key: 'motor_temperature', unit: 'celsius' }] },
+      }),
+    };
+    service = new DeviceBindingService(
+      relationshipRepo as unknown as RelationshipRepository,
+      relationshipService as unknown as RelationshipService,
+      assetRepo as unknown as AssetRepository,
+      typeRepo as unknown as TypeDefinitionRepository
+    );
+  });
+
+  describe('findBindError', () => {
+    const input = { deviceId: DEVICE_ID, entityType: 'Asset' as const, entityId: ASSET_ID };
+
+    it('should validate the binding as an asset MONITORED_BY device relationship', async () => {
+      expect(await service.findBindError(ORG_ID, { ...input, validFrom: '2026-03-01T00:00:00Z' })).toBeNull();
+
+      expect(relationshipService.findCreateError).toHaveBeenCalledWith(ORG_ID, {
+        sourceEntityType: 'Asset',
+        sourceEntityId: ASSET_ID,
+        relationshipType: 'MONITORED_BY',
+        targetEntityType: 'Device',
+        targetEntityId: DEVICE_ID,
+        validFrom: '2026-03-01T00:00:00Z',
+        validUntil: undefined,
+      });
+    });
+
+    it('should reject a binding overlapping an existing binding of the same device', async () => {
+      relationshipRepo.findEdges.mockResolvedValue([
+        createEdge({ validFrom: new Date('2026-01-01T00:00:00Z'), validUntil: new Date('2026-04-01T00:00:00Z') }),
+      ]);
+
+      expect(await service.findBindError(ORG_ID, { ...input, validFrom: '2026-03-01T00:00:00Z' })).toBe(
+        `The device is already bound to this asset during this period (${BINDING_ID})`
+      );
+      expect(await service.findBindError(ORG_ID, { ...input, validFrom: '2026-04-01T00:00:00Z' })).toBeNull();
+    });
+
+    it('should only allow mappings to metrics the asset type defines', async () => {
+      expect(
+        await service.findBindError(ORG_ID, { ...input, metricMappings: { temp: 'motor_temperature' } })
+      ).toBeNull();
+      expect(await service.findBindError(ORG_ID, { ...input, metricMappings: { temp: 'oil_temperature' } })).toBe(
+        'Metric "oil_temperature" is not defined by the asset type'
+      );
+    });
+
+    it('should reject metric mappings on space bindings', async () => {
+      expect(
+        await service.findBindError(ORG_ID, {
+          ...input,
+          entityType: 'Space',
+          entityId: SPACE_ID,
+          metricMappings: { temp: 'air_temperature' },
+        })
+      ).toBe('Metric mappings only apply to asset bindings');
+    });
+  });
+
+  describe('listDeviceBindings', () => {
+    it('should return null for an unknown device', async () => {
+      relationshipRepo.findEntities.mockResolvedValue([]);
+
+      expect(await service.listDeviceBindings(ORG_ID, DEVICE_ID, { history: false })).toBeNull();
+    });
+
+    it('should list all bindings when history is requested', async () => {
+      relationshipRepo.findEdges.mockResolvedValue([
+        createEdge(),
+        createEdge({ id: BINDING_ID.replace('6f', '7f'), sourceEntityId: SPACE_ID, sourceEntityType: 'Space' }),
+      ]);
+
+      const bindings = await service.listDeviceBindings(ORG_ID, DEVICE_ID, { history: true });
+
+      expect(relationshipRepo.findEdges).toHaveBeenCalledWith(ORG_ID, {
+        entityIds: [DEVICE_ID],
+        direction: 'incoming',
+        relationshipTypes: ['MONITORED_BY'],
+        asOf: undefined,
+      });
+      expect(bindings!.map((binding) => [binding.edge.sourceEntityType, binding.entityName])).toEqual([
+        ['Asset', 'Asset 2b3c'],
+        ['Space', 'Space 3c4d'],
+      ]);
+    });
+  });
+
+  describe('unbind', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+
+    it('should end a current binding and keep it', async () => {
+      const ended = await service.unbind(createEdge(), now);
+
+      expect(relationshipService.updateRelationship).toHaveBeenCalledWith(expect.objectContaining({ id: BINDING_ID }), {
+        validUntil: now.toISOString(),
+      });
+      expect(ended!.validUntil).toEqual(now);
+    });
+
+    it('should delete a binding that has not started yet', async () => {
+      const result = await service.unbind(createEdge({ validFrom: new Date('2026-05-01T00:00:00Z') }), now);
+
+      expect(result).toBeNull();
+      expect(relationshipService.deleteRelationship).toHaveBeenCalled();
+    });
+
+    it('should refuse to end a binding twice', () => {
+      expect(service.findUnbindError(createEdge({ validUntil: new Date('2026-02-01T00:00:00Z') }), now)).toBe(
+        'The binding has already ended'
+      );
+    });
+  });
+});
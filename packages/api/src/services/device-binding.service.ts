@@ -0,0 +1,284 @@
+/**
+ * Device Binding Service
+ *
+ * Binds devices to the assets and spaces they instrument. A binding is an
+ * asset/space -MONITORED_BY-> device relationship with an effective time
+ * range; unbinding sets validUntil rather than deleting the edge, so readings
+ * taken before a sensor swap stay attributable to the right asset.
+ *
+ * Readings of a device bound to an asset are copied onto the asset at
+ * ingestion under the asset type's metric definitions; metricMappings on the
+ * binding rename device metric keys that differ (see telemetry-attribution.ts).
+ */
+
+import type {
+  BindingEntityType,
+  BindingMetricMappings,
+  DeviceBindingResponse,
+  OrganizationId,
+} from '@argus/shared';
+import {
+  getRelationshipRepository,
+  type EntityEdge,
+  type RelationshipRepository,
+} from '../repositories/relationship.repository.js';
+import { getAssetRepository, type AssetRepository } from '../repositories/asset.repository.js';
+import {
+  getTypeDefinitionRepository,
+  type TypeDefinitionRepository,
+} from '../repositories/type-definition.repository.js';
+import { getRelationshipService, type RelationshipService } from './relationship.service.js';
+import { readMetricDefinitions, readMetricMappings } from '../workers/telemetry-attribution.js';
+
+export interface BindInput {
+  deviceId: string;
+  entityType: BindingEntityType;
+  entityId: string;
+  metricMappings?: BindingMetricMappings;
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface BindingQuery {
+  /** Bindings in effect at this time; defaults to now */
+  asOf?: Date;
+  /** All bindings regardless of time */
+  history: boolean;
+}
+
+/** A binding with the names of both ends */
+export interface DeviceBinding {
+  edge: EntityEdge;
+  deviceName: string | null;
+  entityName: string | null;
+}
+
+/**
+ * Whether [fromA, untilA) and [fromB, untilB) overlap (null bounds are open-ended)
+ */
+function overlaps(fromA: Date | null, untilA: Date | null, fromB: Date | null, untilB: Date | null): boolean {
+  return (!untilA || !fromB || fromB < untilA) && (!untilB || !fromA || fromA < untilB);
+}
+
+function isBindingEdge(edge: EntityEdge): boolean {
+  return (
+    edge.relationshipType === 'MONITORED_BY' &&
+    edge.targetEntityType === 'Device' &&
+    (edge.sourceEntityType === 'Asset' || edge.sourceEntityType === 'Space')
+  );
+}
+
+/**
+ * Maps a binding to its API response
+ */
+export function toDeviceBindingResponse(binding: DeviceBinding, now: Date = new Date()): DeviceBindingResponse {
+  const { edge } = binding;
+  return {
+    id: edge.id,
+    deviceId: edge.targetEntityId,
+    deviceName: binding.deviceName,
+    entityType: edge.sourceEntityType as BindingEntityType,
+    entityId: edge.sourceEntityId,
+    entityName: binding.entityName,
+    metricMappings: readMetricMappings(edge.metadata),
+    validFrom: edge.validFrom?.toISOString() ?? null,
+    validUntil: edge.validUntil?.toISOString() ?? null,
+    active: (!edge.validFrom || edge.validFrom <= now) && (!edge.validUntil || edge.validUntil > now),
+    createdAt: edge.createdAt.toISOString(),
+  };
+}
+
+export class DeviceBindingService {
+  constructor(
+    private readonly relationshipRepo: RelationshipRepository = getRelationshipRepository(),
+    private readonly relationshipService: RelationshipService = getRelationshipService(),
+    private readonly assetRepo: AssetRepository = getAssetRepository(),
+    private readonly typeRepo: TypeDefinitionRepository = getTypeDefinitionRepository()
+  ) {}
+
+  /**
+   * Lists the devices bound to an asset
+   * Returns null if the asset does not exist in the tenant.
+   */
+  async listAssetDevices(
+    tenantId: OrganizationId,
+    assetId: string,
+    query: BindingQuery
+  ): Promise<DeviceBinding[] | null> {
+    return this.listBindings(tenantId, 'Asset', assetId, 'outgoing', query);
+  }
+
+  /**
+   * Lists the assets and spaces a device is bound to
+   * Returns null if the device does not exist in the tenant.
+   */
+  async listDeviceBindings(
+    tenantId: OrganizationId,
+    deviceId: string,
+    query: BindingQuery
+  ): Promise<DeviceBinding[] | null> {
+    return this.listBindings(tenantId, 'Device', deviceId, 'incoming', query);
+  }
+
+  /**
+   * Finds a binding within a tenant
+   */
+  async findBinding(tenantId: OrganizationId, id: string): Promise<EntityEdge | null> {
+    const edge = await this.relationshipRepo.findById(id, tenantId);
+    return edge && isBindingEdge(edge) ? edge : null;
+  }
+
+  /**
+   * Checks that a binding is allowed
+   * Returns an error message or null
+   */
+  async findBindError(tenantId: OrganizationId, input: BindInput): Promise<string | null> {
+    const relationshipError = await this.relationshipService.findCreateError(tenantId, {
+      sourceEntityType: input.entityType,
+      sourceEntityId: input.entityId,
+      relationshipType: 'MONITORED_BY',
+      targetEntityType: 'Device',
+      targetEntityId: input.deviceId,
+      validFrom: input.validFrom,
+      validUntil: input.validUntil,
+    });
+    if (relationshipError) {
+      return relationshipError;
+    }
+
+    const validFrom = input.validFrom ? new Date(input.validFrom) : null;
+    const validUntil = input.validUntil ? new Date(input.validUntil) : null;
+    const existing = await this.relationshipRepo.findEdges(tenantId, {
+      entityIds: [input.entityId],
+      direction: 'outgoing',
+      relationshipTypes: ['MONITORED_BY'],
+    });
+    const overlapping = existing.find(
+      (edge) =>
+        edge.targetEntityId === input.deviceId &&
+        overlaps(edge.validFrom, edge.validUntil, validFrom, validUntil)
+    );
+    if (overlapping) {
+      return `The device is already bound to this ${input.entityType.toLowerCase()} during this period (${overlapping.id})`;
+    }
+
+    return this.findMappingError(tenantId, input);
+  }
+
+  /**
+   * Creates a binding (validate with findBindError first)
+   */
+  async bind(tenantId: OrganizationId, input: BindInput): Promise<DeviceBinding> {
+    const edge = await this.relationshipService.createRelationship(tenantId, {
+      sourceEntityType: input.entityType,
+      sourceEntityId: input.entityId,
+      relationshipType: 'MONITORED_BY',
+      targetEntityType: 'Device',
+      targetEntityId: input.deviceId,
+      metadata: input.metricMappings ? { metricMappings: input.metricMappings } : undefined,
+      validFrom: input.validFrom,
+      validUntil: input.validUntil,
+    });
+    const [binding] = await this.withNames(tenantId, [edge]);
+    return binding;
+  }
+
+  /**
+   * Checks that a binding can be ended
+   * Returns an error message or null
+   */
+  findUnbindError(edge: EntityEdge, at: Date = new Date()): string | null {
+    if (edge.validUntil && edge.validUntil <= at) {
+      return 'The binding has already ended';
+    }
+    return null;
+  }
+
+  /**
+   * Ends a binding now, keeping it for past readings
+   * A binding that has not started yet is deleted instead; returns null then.
+   */
+  async unbind(edge: EntityEdge, at: Date = new Date()): Promise<EntityEdge | null> {
+    if (edge.validFrom && edge.validFrom > at) {
+      await this.relationshipService.deleteRelationship(edge);
+      return null;
+    }
+    return this.relationshipService.updateRelationship(edge, { validUntil: at.toISOString() });
+  }
+
+  private async listBindings(
+    tenantId: OrganizationId,
+    entityType: 'Asset' | 'Device',
+    entityId: string,
+    direction: 'outgoing' | 'incoming',
+    query: BindingQuery
+  ): Promise<DeviceBinding[] | null> {
+    const [entity] = await this.relationshipRepo.findEntities(tenantId, entityType, [entityId]);
+    if (!entity) {
+      return null;
+    }
+
+    const edges = await this.relationshipRepo.findEdges(tenantId, {
+      entityIds: [entityId],
+      direction,
+      relationshipTypes: ['MONITORED_BY'],
+      asOf: query.history ? undefined : (query.asOf ?? new Date()),
+    });
+    return this.withNames(tenantId, edges.filter(isBindingEdge));
+  }
+
+  /**
+   * Checks that metric mappings rename device metrics to metrics the asset
+   * type defines
+   */
+  private async findMappingError(tenantId: OrganizationId, input: BindInput): Promise<string | null> {
+    const targets = Object.values(input.metricMappings ?? {});
+    if (targets.length === 0) {
+      return null;
+    }
+    if (input.entityType !== 'Asset') {
+      return 'Metric mappings only apply to asset bindings';
+    }
+
+    const asset = await this.assetRepo.findById(input.entityId, tenantId);
+    const assetType = asset ? await this.typeRepo.findById('asset', asset.assetTypeId, tenantId) : null;
+    const definitions = readMetricDefinitions(
+      assetType && 'metricDefinitions' in assetType ? assetType.metricDefinitions : null
+    );
+    const undefinedMetric = targets.find((metricKey) => !definitions.has(metricKey));
+    return undefinedMetric ? `Metric "${undefinedMetric}" is not defined by the asset type` : null;
+  }
+
+  /**
+   * Looks up the device and entity names of bindings
+   */
+  private async withNames(tenantId: OrganizationId, edges: EntityEdge[]): Promise<DeviceBinding[]> {
+    const deviceIds = [...new Set(edges.map((edge) => edge.targetEntityId))];
+    const assetIds = edges.filter((edge) => edge.sourceEntityType === 'Asset').map((edge) => edge.sourceEntityId);
+    const spaceIds = edges.filter((edge) => edge.sourceEntityType === 'Space').map((edge) => edge.sourceEntityId);
+
+    const [devices, assets, spaces] = await Promise.all([
+      this.relationshipRepo.findEntities(tenantId, 'Device', deviceIds),
+      this.relationshipRepo.findEntities(tenantId, 'Asset', [...new Set(assetIds)]),
+      this.relationshipRepo.findEntities(tenantId, 'Space', [...new Set(spaceIds)]),
+    ]);
+    const deviceNames = new Map(devices.map((device) => [device.id, device.name]));
+    const entityNames = new Map([...assets, ...spaces].map((entity) => [entity.id, entity.name]));
+
+    return edges.map((edge) => ({
+      edge,
+      deviceName: deviceNames.get(edge.targetEntityId) ?? null,
+      entityName: entityNames.get(edge.sourceEntityId) ?? null,
+    }));
+  }
+}
+
+// Singleton instance
+let deviceBindingService: DeviceBindingService | null = null;
+
+export function getDeviceBindingService(): DeviceBindingService {
+  if (!deviceBindingService) {
+    deviceBindingService = new DeviceBindingService();
+  }
+  return deviceBindingService;
+}
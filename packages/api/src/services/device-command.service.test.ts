@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the device command service
+ * Tests transport selection, publishing and status transitions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CreateDeviceCommandInput } from '@argus/shared';
+import { DeviceCommandService, type CommandDevice, type CommandPublisher } from './device-command.service.js';
+import type { DeviceCommandRepository } from '../repositories/device-command.repository.js';
+import type { DeviceCommand } from '../db/schema/index.js';
+
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const COMMAND_ID = '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const DIRECT_DEVICE: CommandDevice = {
+  id: DEVICE_ID,
+  organizationId: ORG_ID,
+  protocol: 'mqtt',
+  logicalIdentifier: null,
+  networkMetadata: {},
+};
+
+const LORA_DEVICE: CommandDevice = {
+  ...DIRECT_DEVICE,
+  protocol: 'lorawan',
+  logicalIdentifier: '70B3D57ED0000001',
+  networkMetadata: { applicationId: 'app-1' },
+};
+
+function input(overrides: Partial<CreateDeviceCommandInput> = {}): CreateDeviceCommandInput {
+  return { command: 'reboot', payload: { delay: 5 }, ttl: 60, requireAck: false, ...overrides };
+}
+
+describe('DeviceCommandService', () => {
+  let repo: {
+    create: ReturnType<typeof vi.fn>;
+    findById: ReturnType<typeof vi.fn>;
+    transition: ReturnType<typeof vi.fn>;
+    expireDue: ReturnType<typeof vi.fn>;
+  };
+  let publisher: { publish: ReturnType<typeof vi.fn> };
+  let service: DeviceCommandService;
+
+  beforeEach(() => {
+    repo = {
+      create: vi.fn(async (data) => ({
+        id: COMMAND_ID,
+        status: 'queued',
+        error: null,
+        response: null,
+        ...data,
+      }) as DeviceCommand),
+      findById: vi.fn(),
+      transition: vi.fn(async (id, _from, status, update) => ({ id, status, ...update })),
+      expireDue: vi.fn().mockResolvedValue([]),
+    };
+    publisher = { publish: vi.fn().mockResolvedValue(undefined) };
+    service = new DeviceCommandService(
+      repo as unknown as DeviceCommandRepository,
+      publisher as unknown as CommandPublisher,
+      'telemetry',
+      () => NOW
+    );
+  });
+
+  it('should persist and publish MQTT commands for direct devices', async () => {
+    const command = await service.queue(DIRECT_DEVICE, input(), 'user-1');
+
+    expect(command.status).toBe('queued');
+    expect(repo.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: ORG_ID,
+        deviceId: DEVICE_ID,
+        transport: 'mqtt',
+        expiresAt: new Date('2026-03-01T12:01:00Z'),
+        createdBy: 'user-1',
+      })
+    );
+    expect(publisher.publish).toHaveBeenCalledWith(
+      `telemetry.commands.down.${DEVICE_ID}`,
+      {
+        commandId: COMMAND_ID,
+        deviceId: DEVICE_ID,
+        tenantId: ORG_ID,
+        command: 'reboot',
+        payload: { delay: 5 },
+        transport: 'mqtt',
+        requireAck: false,
+        expiresAt: '2026-03-01T12:01:00.000Z',
+      },
+      { 'command-id': COMMAND_ID, 'device-id': DEVICE_ID }
+    );
+  });
+
+  it('should publish ChirpStack downlinks for LoRaWAN devices', async () => {
+    await service.queue(LORA_DEVICE, input({ fPort: 10, data: 'AQI=', requireAck: true }), null);
+
+    expect(publisher.publish.mock.calls[0][1]).toMatchObject({
+      transport: 'chirpstack',
+      devEui: '70b3d57ed0000001',
+      applicationId: 'app-1',
+      fPort: 10,
+      data: 'AQI=',
+      requireAck: true,
+    });
+  });
+
+  it('should mark the command failed when it cannot be published', async () => {
+    publisher.publish.mockRejectedValueOnce(new Error('CONNECTION_REFUSED'));
+
+    const command = await service.queue(DIRECT_DEVICE, input(), null);
+
+    expect(command.status).toBe('failed');
+    expect(repo.transition).toHaveBeenCalledWith(COMMAND_ID, ['queued'], 'failed', {
+      error: 'Failed to publish command: CONNECTION_REFUSED',
+    });
+  });
+
+  it('should only move commands forward through the lifecycle', async () => {
+    const timestamp = '2026-03-01T12:00:05Z';
+
+    await service.applyStatusEvent({ commandId: COMMAND_ID, deviceId: DEVICE_ID, status: 'delivered', timestamp });
+    expect(repo.transition).toHaveBeenLastCalledWith(COMMAND_ID, ['queued', 'sent'], 'delivered', {
+      deliveredAt: new Date(timestamp),
+    });
+
+    await service.applyStatusEvent({
+      commandId: COMMAND_ID,
+      deviceId: DEVICE_ID,
+      status: 'acked',
+      response: { rebooted: true },
+      timestamp,
+    });
+    expect(repo.transition).toHaveBeenLastCalledWith(
+      COMMAND_ID,
+      ['queued', 'sent', 'delivered'],
+      'acked',
+      { ackedAt: new Date(timestamp), response: { rebooted: true } }
+    );
+
+    repo.transition.mockResolvedValueOnce(null);
+    const stale = await service.applyStatusEvent({ commandId: COMMAND_ID, deviceId: DEVICE_ID, status: 'sent', timestamp });
+    expect(stale).toBeNull();
+    expect(repo.transition).toHaveBeenLastCalledWith(COMMAND_ID, ['queued'], 'sent', {
+      sentAt: new Date(timestamp),
+    });
+  });
+
+  it('should expire due commands at the current time', async () => {
+    await service.expireDue();
+    expect(repo.expireDue).toHaveBeenCalledWith(NOW);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Device Command Service
+ *
+ * Queues cloud-to-device commands and tracks their status lifecycle:
+ *
+ *   queued → sent → delivered → acked
+ *      ↘       ↘        ↘
+ *       failed / expired
+ *
+ * Commands are persisted, then published to JetStream on
+ * {prefix}.commands.down.{deviceId}. The IoT bridge relays them to the device
+ * (MQTT devices/{id}/commands, or a ChirpStack downlink for LoRaWAN devices)
+ * and reports progress on {prefix}.commands.status.{deviceId}, which the
+ * command status worker applies through applyStatusEvent().
+ */
+
+import { connect, headers as createHeaders, type JetStreamClient, type NatsConnection } from 'nats';
+import type {
+  CreateDeviceCommandInput,
+  DeviceCommandStatus,
+  DeviceCommandStatusEvent,
+  DeviceCommandTransport,
+  OrganizationId,
+} from '@argus/shared';
+import {
+  getDeviceCommandRepository,
+  type DeviceCommandRepository,
+  type DeviceCommandStatusUpdate,
+} from '../repositories/device-command.repository.js';
+import type { Device, DeviceCommand } from '../db/schema/index.js';
+
+/** Publishes command messages to the bridge */
+export interface CommandPublisher {
+  publish(subject: string, body: unknown, headers?: Record<string, string>): Promise<void>;
+}
+
+/** Message published on {prefix}.commands.down.{deviceId} */
+export interface DownlinkCommandMessage {
+  commandId: string;
+  deviceId: string;
+  tenantId: string;
+  command: string;
+  payload: Record<string, unknown>;
+  transport: DeviceCommandTransport;
+  requireAck: boolean;
+  expiresAt: string;
+  /** ChirpStack only */
+  devEui?: string;
+  applicationId?: string;
+  fPort?: number;
+  data?: string;
+}
+
+/** Device fields needed to route a command */
+export type CommandDevice = Pick<
+  Device,
+  'id' | 'organizationId' | 'protocol' | 'logicalIdentifier' | 'networkMetadata'
+>;
+
+/** Statuses a command may move to each status from */
+const STATUS_PREDECESSORS: Record<Exclude<DeviceCommandStatus, 'queued'>, DeviceCommandStatus[]> = {
+  sent: ['queued'],
+  delivered: ['queued', 'sent'],
+  acked: ['queued', 'sent', 'delivered'],
+  failed: ['queued', 'sent', 'delivered'],
+  expired: ['queued', 'sent', 'delivered'],
+};
+
+/**
+ * Picks how a command reaches a device: LoRaWAN devices through ChirpStack,
+ * everything else over MQTT
+ */
+export function commandTransportFor(device: Pick<Device, 'protocol'>): DeviceCommandTransport {
+  return device.protocol === 'lorawan' ? 'chirpstack' : 'mqtt';
+}
+
+/**
+ * Builds the message the bridge relays to the device
+ */
+export function toDownlinkMessage(
+  command: DeviceCommand,
+  device: CommandDevice
+): DownlinkCommandMessage {
+  const message: DownlinkCommandMessage = {
+    commandId: command.id,
+    deviceId: command.deviceId,
+    tenantId: command.tenantId,
+    command: command.command,
+    payload: command.payload as Record<string, unknown>,
+    transport: command.transport as DeviceCommandTransport,
+    requireAck: command.requireAck,
+    expiresAt: command.expiresAt.toISOString(),
+  };
+
+  if (message.transport === 'chirpstack') {
+    const network = (device.networkMetadata ?? {}) as Record<string, unknown>;
+    message.devEui = device.logicalIdentifier?.toLowerCase();
+    // Otherwise the bridge uses the application of the device's last uplink
+    if (typeof network.applicationId === 'string') {
+      message.applicationId = network.applicationId;
+    }
+    message.fPort = command.fPort ?? undefined;
+    message.data = command.data ?? undefined;
+  }
+
+  return message;
+}
+
+/**
+ * Publishes command messages to JetStream (the stream shared with the IoT bridge)
+ */
+export class NatsCommandPublisher implements CommandPublisher {
+  private connection: Promise<{ nc: NatsConnection; js: JetStreamClient }> | null = null;
+
+  constructor(private servers: string[]) {}
+
+  async publish(subject: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    const { js } = await this.connect();
+    const hdrs = createHeaders();
+    for (const [key, value] of Object.entries(headers)) {
+      hdrs.append(key, value);
+    }
+    await js.publish(subject, new TextEncoder().encode(JSON.stringify(body)), {
+      headers: hdrs,
+      // Deduplicate retried publishes of the same command
+      msgID: headers['command-id'],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.connection) return;
+    const { nc } = await this.connection;
+    this.connection = null;
+    await nc.drain();
+  }
+
+  private connect(): Promise<{ nc: NatsConnection; js: JetStreamClient }> {
+    if (!this.connection) {
+      this.connection = connect({ servers: this.servers, maxReconnectAttempts: -1 })
+        .then((nc) => ({ nc, js: nc.jetstream() }))
+        .catch((error) => {
+          this.connection = null;
+          throw error;
+        });
+    }
+    return this.connection;
+  }
+}
+
+/**
+ * Device Command Service class
+ */
+export class DeviceCommandService {
+  constructor(
+    private commandRepo: DeviceCommandRepository = getDeviceCommandRepository(),
+    private publisher: CommandPublisher = new NatsCommandPublisher(
+      process.env.NATS_SERVERS?.split(',').map((s) => s.trim()) ?? ['nats://localhost:4222']
+    ),
+    private subjectPrefix: string = process.env.NATS_SUBJECT_PREFIX ?? 'telemetry',
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Persists a command and publishes it to the bridge
+   *
+   * A command that cannot be published is returned with status 'failed'.
+   */
+  async queue(
+    device: CommandDevice,
+    input: CreateDeviceCommandInput,
+    userId: string | null
+  ): Promise<DeviceCommand> {
+    const command = await this.commandRepo.create({
+      tenantId: device.organizationId,
+      deviceId: device.id,
+      command: input.command,
+      payload: input.payload,
+      data: input.data ?? null,
+      fPort: input.fPort ?? null,
+      transport: commandTransportFor(device),
+      requireAck: input.requireAck,
+      expiresAt: new Date(this.now().getTime() + input.ttl * 1000),
+      createdBy: userId,
+    });
+
+    try {
+      await this.publisher.publish(
+        `${this.subjectPrefix}.commands.down.${device.id}`,
+        toDownlinkMessage(command, device),
+        { 'command-id': command.id, 'device-id': device.id }
+      );
+    } catch (error) {
+      const failed = await this.commandRepo.transition(command.id, ['queued'], 'failed', {
+        error: `Failed to publish command: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return failed ?? command;
+    }
+
+    return command;
+  }
+
+  async getCommand(id: string, tenantId: OrganizationId): Promise<DeviceCommand | null> {
+    return this.commandRepo.findById(id, tenantId);
+  }
+
+  /**
+   * Applies a status report from the bridge
+   *
+   * @returns The updated command, or null if it is unknown or the report is
+   *   stale (e.g. 'sent' arriving after 'acked', or any report after expiry)
+   */
+  async applyStatusEvent(event: DeviceCommandStatusEvent): Promise<DeviceCommand | null> {
+    const at = new Date(event.timestamp);
+    const update: DeviceCommandStatusUpdate = {};
+    switch (event.status) {
+      case 'sent':
+        update.sentAt = at;
+        break;
+      case 'delivered':
+        update.deliveredAt = at;
+        break;
+      case 'acked':
+        update.ackedAt = at;
+        break;
+    }
+    if (event.error !== undefined) update.error = event.error;
+    if (event.response !== undefined) update.response = event.response;
+
+    return this.commandRepo.transition(
+      event.commandId,
+      STATUS_PREDECESSORS[event.status],
+      event.status,
+      update
+    );
+  }
+
+  /**
+   * Expires open commands whose TTL has passed
+   */
+  async expireDue(): Promise<DeviceCommand[]> {
+    return this.commandRepo.expireDue(this.now());
+  }
+}
+
+// Singleton instance
+let deviceCommandService: DeviceCommandService | null = null;
+
+export function getDeviceCommandService(): DeviceCommandService {
+  if (!deviceCommandService) {
+    deviceCommandService = new DeviceCommandService();
+  }
+  return deviceCommandService;
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the device connectivity service
+ * Tests status derivation, sweep transitions with system events, and the summary
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockTrx = {
+  execute: vi.fn(),
+};
+
+vi.mock('../repositories/base.repository.js', async () => {
+  const actual = await vi.importActual('../repositories/base.repository.js');
+  return {
+    ...actual,
+    withTransaction: vi.fn((fn) => fn(mockTrx)),
+  };
+});
+
+const {
+  DeviceConnectivityService,
+  DEFAULT_CONNECTIVITY_CONFIG,
+  deriveConnectivityStatus,
+  resolveConnectivityConfig,
+} = await import('./device-connectivity.service.js');
+import type { OrganizationId } from '@argus/shared';
+import type { DeviceRepository, SystemEventRepository } from '../repositories/index.js';
+
+const ORG_ID = '00000000-0000-0000-0000-000000000010' as OrganizationId;
+const NOW = new Date('2026-03-01T12:00:00Z');
+const CONFIG = { expectedIntervalSeconds: 60, offlineAfterIntervals: 3, errorAfterIntervals: 10 };
+
+function minutesAgo(minutes: number): Date {
+  return new Date(NOW.getTime() - minutes * 60000);
+}
+
+describe('deriveConnectivityStatus', () => {
+  const created = minutesAgo(1000);
+
+  it('should derive status from missed reporting intervals', () => {
+    const device = { status: 'active' as const, createdAt: created };
+    expect(deriveConnectivityStatus({ ...device, lastSeenAt: minutesAgo(2) }, CONFIG, NOW)).toBe('active');
+    expect(deriveConnectivityStatus({ ...device, lastSeenAt: minutesAgo(3) }, CONFIG, NOW)).toBe('offline');
+    expect(deriveConnectivityStatus({ ...device, lastSeenAt: minutesAgo(10) }, CONFIG, NOW)).toBe('error');
+  });
+
+  it('should bring reporting devices back online', () => {
+    expect(
+      deriveConnectivityStatus({ status: 'error', lastSeenAt: minutesAgo(0), createdAt: created }, CONFIG, NOW)
+    ).toBe('active');
+  });
+
+  it('should measure devices never seen from their creation', () => {
+    expect(deriveConnectivityStatus({ status: 'active', lastSeenAt: null, createdAt: minutesAgo(1) }, CONFIG, NOW)).toBe(
+      'active'
+    );
+    expect(deriveConnectivityStatus({ status: 'active', lastSeenAt: null, createdAt: minutesAgo(5) }, CONFIG, NOW)).toBe(
+      'offline'
+    );
+  });
+});
+
+describe('resolveConnectivityConfig', () => {
+  it('should apply defaults and fall back for missing or invalid configs', () => {
+    expect(resolveConnectivityConfig({ expectedIntervalSeconds: 300 })).toEqual({
+      expectedIntervalSeconds: 300,
+      offlineAfterIntervals: 3,
+      errorAfterIntervals: 24,
+    });
+    expect(resolveConnectivityConfig(null)).toBe(DEFAULT_CONNECTIVITY_CONFIG);
+    expect(resolveConnectivityConfig({ expectedIntervalSeconds: 1 })).toBe(DEFAULT_CONNECTIVITY_CONFIG);
+  });
+});
+
+describe('DeviceConnectivityService', () => {
+  let deviceRepo: {
+    findConnectivityCandidates: ReturnType<typeof vi.fn>;
+    transitionStatus: ReturnType<typeof vi.fn>;
+    countByStatus: ReturnType<typeof vi.fn>;
+    findLongestSilent: ReturnType<typeof vi.fn>;
+  };
+  let eventRepo: { create: ReturnType<typeof vi.fn> };
+  let service: InstanceType<typeof DeviceConnectivityService>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deviceRepo = {
+      findConnectivityCandidates: vi.fn().mockResolvedValue([]),
+      transitionStatus: vi.fn(async (id, _from, status) => ({ id, status })),
+      countByStatus: vi.fn(),
+      findLongestSilent: vi.fn(),
+    };
+    eventRepo = { create: vi.fn().mockResolvedValue({ id: 1n }) };
+    service = new DeviceConnectivityService(
+      deviceRepo as unknown as DeviceRepository,
+      eventRepo as unknown as SystemEventRepository,
+      DEFAULT_CONNECTIVITY_CONFIG,
+      () => NOW
+    );
+  });
+
+  it('should transition devices and record a system event for each change', async () => {
+    deviceRepo.findConnectivityCandidates.mockResolvedValue([
+      { id: 'dev-1', organizationId: ORG_ID, status: 'active', lastSeenAt: minutesAgo(5), createdAt: minutesAgo(100), connectivityConfig: CONFIG },
+      { id: 'dev-2', organizationId: ORG_ID, status: 'active', lastSeenAt: minutesAgo(1), createdAt: minutesAgo(100), connectivityConfig: CONFIG },
+      // Default config: 15 minute interval
+      { id: 'dev-3', organizationId: ORG_ID, status: 'offline', lastSeenAt: minutesAgo(1), createdAt: minutesAgo(100), connectivityConfig: null },
+    ]);
+
+    const transitions = await service.sweep();
+
+    expect(transitions.map((t) => [t.deviceId, t.previousStatus, t.status])).toEqual([
+      ['dev-1', 'active', 'offline'],
+      ['dev-3', 'offline', 'active'],
+    ]);
+    expect(deviceRepo.transitionStatus).toHaveBeenCalledWith('dev-1', 'active', 'offline', mockTrx);
+    expect(eventRepo.create).toHaveBeenCalledWith(
+      {
+        tenantId: ORG_ID,
+        eventType: 'DEVICE_STATUS_CHANGED',
+        entityId: 'dev-1',
+        entityType: 'Device',
+        payload: {
+          previousStatus: 'active',
+          status: 'offline',
+          lastSeenAt: minutesAgo(5).toISOString(),
+          silentSeconds: 300,
+          expectedIntervalSeconds: 60,
+        },
+      },
+      mockTrx
+    );
+    expect(mockTrx.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip devices whose status changed concurrently', async () => {
+    deviceRepo.findConnectivityCandidates.mockResolvedValue([
+      { id: 'dev-1', organizationId: ORG_ID, status: 'active', lastSeenAt: minutesAgo(5), createdAt: minutesAgo(100), connectivityConfig: CONFIG },
+    ]);
+    deviceRepo.transitionStatus.mockResolvedValueOnce(null);
+
+    expect(await service.sweep()).toEqual([]);
+    expect(eventRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('should summarize counts and longest-silent devices', async () => {
+    deviceRepo.countByStatus.mockResolvedValue({ byStatus: { active: 4, offline: 2, inactive: 1 }, neverSeen: 1 });
+    deviceRepo.findLongestSilent.mockResolvedValue([
+      {
+        id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+        name: 'Pump 7',
+        deviceTypeId: '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f',
+        status: 'offline',
+        lastSeenAt: minutesAgo(90),
+        createdAt: minutesAgo(1000),
+      },
+    ]);
+
+    const summary = await service.getSummary(ORG_ID, 5);
+
+    expect(deviceRepo.findLongestSilent).toHaveBeenCalledWith(ORG_ID, 5);
+    expect(summary).toEqual({
+      counts: { total: 7, active: 4, inactive: 1, maintenance: 0, offline: 2, error: 0, neverSeen: 1 },
+      longestSilent: [
+        {
+          id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+          name: 'Pump 7',
+          deviceTypeId: '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f',
+          status: 'offline',
+          lastSeenAt: minutesAgo(90).toISOString(),
+          silentSeconds: 5400,
+        },
+      ],
+      generatedAt: NOW.toISOString(),
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Device Connectivity Service
+ *
+ * Derives device status from last_seen_at and the device type's expected
+ * reporting interval (device_types.connectivity_config):
+ *
+ *   silent < offlineAfterIntervals × interval  → active
+ *   silent ≥ offlineAfterIntervals × interval  → offline
+ *   silent ≥ errorAfterIntervals × interval    → error
+ *
+ * Only devices in a watchdog-managed status (active / offline / error) are
+ * evaluated; inactive and maintenance are left to users. Each transition is
+ * recorded as a DEVICE_STATUS_CHANGED system event.
+ */
+
+import { sql } from 'drizzle-orm';
+import {
+  connectivityConfigSchema,
+  type ConnectivityConfig,
+  type ConnectivitySummaryResponse,
+  type DeviceStatusChangePayload,
+  type OrganizationId,
+} from '@argus/shared';
+import { withTransaction } from '../repositories/base.repository.js';
+import {
+  getDeviceRepository,
+  type ConnectivityCandidate,
+  type DeviceRepository,
+  type DeviceStatus,
+} from '../repositories/device.repository.js';
+import {
+  getSystemEventRepository,
+  type SystemEventRepository,
+} from '../repositories/system-event.repository.js';
+
+/** Applied to device types without a connectivity config */
+export const DEFAULT_CONNECTIVITY_CONFIG: ConnectivityConfig = {
+  expectedIntervalSeconds: 900,
+  offlineAfterIntervals: 3,
+  errorAfterIntervals: 24,
+};
+
+export const DEVICE_STATUS_CHANGED_EVENT = 'DEVICE_STATUS_CHANGED';
+
+/** A status change applied by a sweep */
+export interface ConnectivityTransition {
+  deviceId: string;
+  tenantId: string;
+  previousStatus: DeviceStatus;
+  status: DeviceStatus;
+  silentSeconds: number | null;
+}
+
+/**
+ * Parses a stored connectivity config, falling back to the default when it is
+ * missing or invalid
+ */
+export function resolveConnectivityConfig(
+  stored: unknown,
+  fallback: ConnectivityConfig = DEFAULT_CONNECTIVITY_CONFIG
+): ConnectivityConfig {
+  if (stored === null || stored === undefined) return fallback;
+  const parsed = connectivityConfigSchema.safeParse(stored);
+  return parsed.success ? parsed.data : fallback;
+}
+
+/**
+ * Derives the status a device should have at `now`
+ *
+ * Devices that have never reported are measured from their creation, but are
+ * only moved to offline / error - never to active.
+ */
+export function deriveConnectivityStatus(
+  device: Pick<ConnectivityCandidate, 'status' | 'lastSeenAt' | 'createdAt'>,
+  config: ConnectivityConfig,
+  now: Date
+): DeviceStatus {
+  const reference = device.lastSeenAt ?? device.createdAt;
+  const silentMs = now.getTime() - reference.getTime();
+  const intervalMs = config.expectedIntervalSeconds * 1000;
+
+  if (silentMs >= config.errorAfterIntervals * intervalMs) return 'error';
+  if (silentMs >= config.offlineAfterIntervals * intervalMs) return 'offline';
+  return device.lastSeenAt ? 'active' : device.status;
+}
+
+/**
+ * Device Connectivity Service class
+ */
+export class DeviceConnectivityService {
+  constructor(
+    private deviceRepo: DeviceRepository = getDeviceRepository(),
+    private eventRepo: SystemEventRepository = getSystemEventRepository(),
+    private defaultConfig: ConnectivityConfig = DEFAULT_CONNECTIVITY_CONFIG,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Connectivity config applied to a device type
+   */
+  getEffectiveConfig(stored: unknown): ConnectivityConfig {
+    return resolveConnectivityConfig(stored, this.defaultConfig);
+  }
+
+  /**
+   * Evaluates every watchdog-managed device and applies status transitions
+   */
+  async sweep(): Promise<ConnectivityTransition[]> {
+    const now = this.now();
+    const candidates = await this.deviceRepo.findConnectivityCandidates();
+    const transitions: ConnectivityTransition[] = [];
+
+    for (const device of candidates) {
+      const config = this.getEffectiveConfig(device.connectivityConfig);
+      const status = deriveConnectivityStatus(device, config, now);
+      if (status === device.status) continue;
+
+      const silentSeconds = device.lastSeenAt
+        ? Math.floor((now.getTime() - device.lastSeenAt.getTime()) / 1000)
+        : null;
+
+      const applied = await withTransaction(async (trx) => {
+        // Tenant context for the system_events RLS policy
+        await trx.execute(sql`SELECT set_config('app.current_tenant_id', ${device.organizationId}, true)`);
+
+        // Skipped if the status changed since it was read (e.g. set by a user)
+        const updated = await this.deviceRepo.transitionStatus(device.id, device.status, status, trx);
+        if (!updated) return false;
+
+        const payload: DeviceStatusChangePayload = {
+          previousStatus: device.status,
+          status,
+          lastSeenAt: device.lastSeenAt?.toISOString() ?? null,
+          silentSeconds,
+          expectedIntervalSeconds: config.expectedIntervalSeconds,
+        };
+        await this.eventRepo.create(
+          {
+            tenantId: device.organizationId,
+            eventType: DEVICE_STATUS_CHANGED_EVENT,
+            entityId: device.id,
+            entityType: 'Device',
+            payload,
+          },
+          trx
+        );
+        return true;
+      });
+
+      if (applied) {
+        transitions.push({
+          deviceId: device.id,
+          tenantId: device.organizationId,
+          previousStatus: device.status,
+          status,
+          silentSeconds,
+        });
+      }
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Device counts by status and the longest-silent devices of a tenant
+   */
+  async getSummary(organizationId: OrganizationId, limit: number): Promise<ConnectivitySummaryResponse> {
+    const now = this.now();
+    const [{ byStatus, neverSeen }, silent] = await Promise.all([
+      this.deviceRepo.countByStatus(organizationId),
+      this.deviceRepo.findLongestSilent(organizationId, limit),
+    ]);
+
+    const counts = {
+      active: byStatus.active ?? 0,
+      inactive: byStatus.inactive ?? 0,
+      maintenance: byStatus.maintenance ?? 0,
+      offline: byStatus.offline ?? 0,
+      error: byStatus.error ?? 0,
+    };
+
+    return {
+      counts: {
+        total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+        ...counts,
+        neverSeen,
+      },
+      longestSilent: silent.map((device) => ({
+        id: device.id,
+        name: device.name,
+        deviceTypeId: device.deviceTypeId,
+        status: device.status,
+        lastSeenAt: device.lastSeenAt?.toISOString() ?? null,
+        silentSeconds: Math.max(
+          0,
+          Math.floor((now.getTime() - (device.lastSeenAt ?? device.createdAt).getTime()) / 1000)
+        ),
+      })),
+      generatedAt: now.toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+let deviceConnectivityService: DeviceConnectivityService | null = null;
+
+export function getDeviceConnectivityService(): DeviceConnectivityService {
+  if (!deviceConnectivityService) {
+    deviceConnectivityService = new DeviceConnectivityService();
+  }
+  return deviceConnectivityService;
+}
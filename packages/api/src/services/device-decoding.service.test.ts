@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the device decoding service
+ * Tests profile caching and test decoding with unsaved overrides
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import { DeviceDecodingService, DECODING_PROFILE_TTL_MS } from './device-decoding.service.js';
+import type { TypeDefinitionRepository } from '../repositories/type-definition.repository.js';
+
+const ORG_ID = 'org-1' as OrganizationId;
+const DEVICE = { organizationId: ORG_ID, deviceTypeId: 'type-1' };
+
+describe('DeviceDecodingService', () => {
+  let typeRepo: { findById: ReturnType<typeof vi.fn> };
+  let now: number;
+  let service: DeviceDecodingService;
+
+  beforeEach(() => {
+    now = 0;
+    typeRepo = {
+      findById: vi.fn().mockResolvedValue({
+        id: 'type-1',
+        protocolAdapter: 'json',
+        messageSchema: null,
+        extractionRules: { temperature: { path: '$.temp', type: 'numeric', unit: 'celsius' } },
+        transformationRules: null,
+      }),
+    };
+    service = new DeviceDecodingService(
+      typeRepo as unknown as TypeDefinitionRepository,
+      () => now
+    );
+  });
+
+  it('should reuse the compiled profile until it expires', async () => {
+    await service.decode(DEVICE, { temp: 20 });
+    const result = await service.decode(DEVICE, { temp: 21 });
+
+    expect(result.readings).toEqual([expect.objectContaining({ metricKey: 'temperature', value: 21 })]);
+    expect(typeRepo.findById).toHaveBeenCalledTimes(1);
+
+    now = DECODING_PROFILE_TTL_MS + 1;
+    await service.decode(DEVICE, { temp: 22 });
+    expect(typeRepo.findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload after invalidation', async () => {
+    await service.decode(DEVICE, { temp: 20 });
+    service.invalidate('type-1');
+    await service.decode(DEVICE, { temp: 20 });
+
+    expect(typeRepo.findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('should test decode with unsaved profile changes', async () => {
+    const result = await service.testDecode(ORG_ID, 'type-1', { temp: 68 }, {
+      transformationRules: [{ type: 'convert', metric: 'temperature', from: 'fahrenheit', to: 'celsius' }],
+    });
+
+    expect(result?.valid).toBe(true);
+    expect(result?.readings[0].value).toBeCloseTo(20);
+  });
+
+  it('should split gateway payloads without exploding them into gateway metrics', async () => {
+    const result = await service.testDecode(ORG_ID, 'type-1', { beacons: [{ id: 'b1', rssi: -60 }] }, {
+      extractionRules: null,
+      demuxStrategy: {
+        strategy: 'iterate_array',
+        arrayPath: '$.beacons',
+        idPath: '$.id',
+        mapPath: '$',
+        nameTemplate: '{{logicalId}}',
+        autoProvision: false,
+        maxDevices: 500,
+      },
+    });
+
+    expect(result?.readings).toEqual([]);
+    expect(result?.children).toEqual([{ logicalId: 'b1', payload: { rssi: -60 } }]);
+  });
+
+  it('should return null for unknown device types', async () => {
+    typeRepo.findById.mockResolvedValue(null);
+    expect(await service.testDecode(ORG_ID, 'missing', {})).toBeNull();
+  });
+});
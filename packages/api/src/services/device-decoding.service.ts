@@ -0,0 +1,207 @@
+/**
+ * Device Decoding Service
+ *
+ * Loads decoding profiles (messageSchema, extractionRules,
+ * transformationRules, demuxStrategy, chunkingConfig) from device types and
+ * decodes payloads with them. Used by the ingestion worker and by the "test decode" API.
+ *
+ * Compiled profiles are cached per device type for a short time so the
+ * worker does not hit Postgres for every message; profile updates made
+ * through the API invalidate the cache of this process immediately.
+ */
+
+import type { OrganizationId, UpdateDecodingProfileInput } from '@argus/shared';
+import {
+  getTypeDefinitionRepository,
+  type TypeDefinitionRepository,
+} from '../repositories/type-definition.repository.js';
+import type { DeviceType } from '../db/schema/index.js';
+import {
+  compileDecodingProfile,
+  decodePayload,
+  type CompiledDecodingProfile,
+  type CompiledChunkingConfig,
+  type CompiledDemuxStrategy,
+  type DecodeResult,
+  type StoredDecodingProfile,
+} from '../workers/payload-decoder.js';
+import type { TelemetryQuality } from '../workers/telemetry-message.js';
+import { splitGatewayPayload } from '../workers/gateway-demux.js';
+
+/** How long a compiled profile is reused before reloading */
+export const DECODING_PROFILE_TTL_MS = 60_000;
+
+interface CachedProfile {
+  profile: CompiledDecodingProfile;
+  expiresAt: number;
+}
+
+/** Device fields needed to pick a decoding profile */
+export interface DecodingDevice {
+  organizationId: string;
+  deviceTypeId: string;
+}
+
+export interface TestDecodeResult extends DecodeResult {
+  valid: boolean;
+  /** Per-child payloads when the device type has a demux strategy */
+  children?: Array<{ logicalId: string; payload: Record<string, unknown> }>;
+}
+
+/**
+ * Device Decoding Service class
+ */
+export class DeviceDecodingService {
+  private cache = new Map<string, CachedProfile>();
+
+  constructor(
+    private typeRepo: TypeDefinitionRepository = getTypeDefinitionRepository(),
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Loads a device type's stored decoding profile
+   */
+  async findProfile(
+    organizationId: OrganizationId,
+    deviceTypeId: string
+  ): Promise<(StoredDecodingProfile & { protocolAdapter: string }) | null> {
+    const type = (await this.typeRepo.findById(
+      'device',
+      deviceTypeId,
+      organizationId
+    )) as DeviceType | null;
+    if (!type) return null;
+
+    return {
+      protocolAdapter: type.protocolAdapter,
+      messageSchema: type.messageSchema,
+      extractionRules: type.extractionRules,
+      transformationRules: type.transformationRules,
+      demuxStrategy: type.demuxStrategy,
+      chunkingConfig: type.chunkingConfig,
+    };
+  }
+
+  /**
+   * Decodes a payload for a device using its (cached) device type profile
+   */
+  async decode(
+    device: DecodingDevice,
+    payload: Record<string, unknown>,
+    envelopeQuality: TelemetryQuality = 'good'
+  ): Promise<DecodeResult> {
+    const profile = await this.getCompiledProfile(
+      device.organizationId as OrganizationId,
+      device.deviceTypeId
+    );
+    // Gateway payloads belong to the children unless the gateway extracts its own metrics
+    if (profile.demux && !profile.extractions) {
+      return { readings: [], errors: profile.errors };
+    }
+
+    const result = decodePayload(profile, payload, envelopeQuality);
+    return { readings: result.readings, errors: [...profile.errors, ...result.errors] };
+  }
+
+  /**
+   * Returns the (cached) demux strategy of a gateway's device type
+   */
+  async getDemuxStrategy(device: DecodingDevice): Promise<CompiledDemuxStrategy | null> {
+    const profile = await this.getCompiledProfile(
+      device.organizationId as OrganizationId,
+      device.deviceTypeId
+    );
+    return profile.demux;
+  }
+
+  /**
+   * Returns the (cached) chunking config of a device's type
+   */
+  async getChunkingConfig(device: DecodingDevice): Promise<CompiledChunkingConfig | null> {
+    const profile = await this.getCompiledProfile(
+      device.organizationId as OrganizationId,
+      device.deviceTypeId
+    );
+    return profile.chunking;
+  }
+
+  /**
+   * Decodes a sample payload, optionally with unsaved profile changes
+   *
+   * For gateway types the payload is also split per child; gateway-level
+   * metrics are only decoded when the type has extraction rules.
+   *
+   * @returns null when the device type does not exist in the organization
+   */
+  async testDecode(
+    organizationId: OrganizationId,
+    deviceTypeId: string,
+    payload: Record<string, unknown>,
+    overrides?: UpdateDecodingProfileInput
+  ): Promise<TestDecodeResult | null> {
+    const stored = await this.findProfile(organizationId, deviceTypeId);
+    if (!stored) return null;
+
+    const profile = compileDecodingProfile({ ...stored, ...overrides });
+    if (!profile.demux) {
+      const result = decodePayload(profile, payload);
+      const errors = [...profile.errors, ...result.errors];
+      return { readings: result.readings, errors, valid: errors.length === 0 };
+    }
+
+    const split = splitGatewayPayload(profile.demux, payload);
+    const result = profile.extractions
+      ? decodePayload(profile, payload)
+      : { readings: [], errors: [] };
+    const errors = [...profile.errors, ...split.errors, ...result.errors];
+
+    return {
+      readings: result.readings,
+      errors,
+      valid: errors.length === 0,
+      children: split.items.map((item) => ({ logicalId: item.logicalId, payload: item.payload })),
+    };
+  }
+
+  /**
+   * Drops a cached profile after the device type changed
+   */
+  invalidate(deviceTypeId: string): void {
+    this.cache.delete(deviceTypeId);
+  }
+
+  private async getCompiledProfile(
+    organizationId: OrganizationId,
+    deviceTypeId: string
+  ): Promise<CompiledDecodingProfile> {
+    const cached = this.cache.get(deviceTypeId);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.profile;
+    }
+
+    // A missing type decodes like a type without rules
+    const stored = await this.findProfile(organizationId, deviceTypeId);
+    const profile = compileDecodingProfile(
+      stored ?? {
+        messageSchema: null,
+        extractionRules: null,
+        transformationRules: null,
+        demuxStrategy: null,
+        chunkingConfig: null,
+      }
+    );
+    this.cache.set(deviceTypeId, { profile, expiresAt: this.now() + DECODING_PROFILE_TTL_MS });
+    return profile;
+  }
+}
+
+// Singleton instance
+let deviceDecodingService: DeviceDecodingService | null = null;
+
+export function getDeviceDecodingService(): DeviceDecodingService {
+  if (!deviceDecodingService) {
+    deviceDecodingService = new DeviceDecodingService();
+  }
+  return deviceDecodingService;
+}
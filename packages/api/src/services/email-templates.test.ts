@@ -0,0 +1,95 @@
+/**
+ * Unit tests for email templates
+ * Tests rendering, branding and HTML escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EMAIL_BRANDING, escapeHtml, renderEmail } from './email-templates.js';
+
+const BRANDING = {
+  name: 'Acme Utilities',
+  logoUrl: 'https://cdn.example.com/acme.png',
+  primaryColor: '#AA3300',
+  accentColor: '#0055AA',
+};
+
+describe('renderEmail', () => {
+  it('should render an invitation with the link in both bodies', () => {
+    const email = renderEmail(
+      {
+        template: 'invitation',
+        organizationName: 'Acme Utilities',
+        inviterName: 'Jane Doe',
+        role: 'admin',
+        acceptUrl: 'https://app.example.com/invitations/accept?token=abc',
+        expiresAt: new Date('2026-03-08T12:00:00Z'),
+      },
+      BRANDING
+    );
+
+    expect(email.template).toBe('invitation');
+    expect(email.subject).toBe("You're invited to join Acme Utilities on Acme Utilities");
+    expect(email.html).toContain('href="https://app.example.com/invitations/accept?token=abc"');
+    expect(email.text).toContain('Accept invitation: https://app.example.com/invitations/accept?token=abc');
+    expect(email.text).toContain('This invitation expires on 2026-03-08 12:00 UTC.');
+  });
+
+  it('should apply the logo and colours', () => {
+    const email = renderEmail(
+      { template: 'password_reset', resetUrl: 'https://app.example.com/reset', expiresAt: new Date() },
+      BRANDING
+    );
+
+    expect(email.html).toContain('<img src="https://cdn.example.com/acme.png" alt="Acme Utilities"');
+    expect(email.html).toContain('background:#AA3300');
+    expect(email.html).toContain('color:#0055AA');
+  });
+
+  it('should fall back to the default colour and name without branding', () => {
+    const email = renderEmail(
+      { template: 'password_reset', resetUrl: 'https://app.example.com/reset', expiresAt: new Date() },
+      { ...BRANDING, logoUrl: null, primaryColor: 'red;position:fixed' }
+    );
+
+    expect(email.html).toContain(`background:${DEFAULT_EMAIL_BRANDING.primaryColor}`);
+    expect(email.html).not.toContain('position:fixed');
+    expect(email.html).toContain('>Acme Utilities</span>');
+    expect(renderEmail({ template: 'test', sentBy: 'admin@example.com' }).subject).toBe('ArgusIQ test email');
+  });
+
+  it('should address lockout notices to the user or the security contact', () => {
+    const lockout = {
+      template: 'account_locked' as const,
+      accountEmail: 'jane@example.com',
+      lockedUntil: new Date('2026-03-01T12:30:00Z'),
+      failedAttempts: 5,
+    };
+
+    expect(renderEmail({ ...lockout, recipient: 'user' }).subject).toBe('Your ArgusIQ account has been locked');
+    const notice = renderEmail({ ...lockout, recipient: 'security' });
+    expect(notice.subject).toBe('Account locked: jane@example.com');
+    expect(notice.text).toContain('The lock ends at 2026-03-01 12:30 UTC.');
+  });
+
+  it('should escape interpolated values', () => {
+    const email = renderEmail({
+      template: 'activity_assigned',
+      activityName: '<script>alert(1)</script>',
+      priority: 'high',
+      dueAt: null,
+      assignedBy: 'Mallory "M" O\'Brien',
+      activityUrl: 'https://app.example.com/activity?id=1&x="y"',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(email.html).toContain('href="https://app.example.com/activity?id=1&amp;x=&quot;y&quot;"');
+    expect(email.text).toContain('Mallory "M" O\'Brien assigned you "<script>alert(1)</script>".');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
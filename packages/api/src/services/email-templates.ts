@@ -0,0 +1,227 @@
+/**
+ * Email Templates
+ *
+ * Renders the platform's transactional emails as HTML and plain text, using
+ * the sending organization's branding (logo and colours from
+ * organization_branding, falling back to the platform branding).
+ *
+ * All interpolated values are HTML-escaped; templates take only the data
+ * they display so callers cannot inject markup.
+ */
+
+import type { EmailTemplate } from '@argus/shared';
+
+/** Branding applied to the email layout */
+export interface EmailBranding {
+  /** Shown in the header when there is no logo, and in the footer */
+  name: string;
+  logoUrl: string | null;
+  /** Header bar and button colour (hex) */
+  primaryColor: string;
+  /** Link colour (hex) */
+  accentColor: string;
+}
+
+export const DEFAULT_EMAIL_BRANDING: EmailBranding = {
+  name: 'ArgusIQ',
+  logoUrl: null,
+  primaryColor: '#1890FF',
+  accentColor: '#1890FF',
+};
+
+/** Data for each template */
+export type EmailMessage =
+  | {
+      template: 'invitation';
+      organizationName: string;
+      inviterName: string;
+      role: string;
+      acceptUrl: string;
+      expiresAt: Date;
+    }
+  | {
+      template: 'password_reset';
+      resetUrl: string;
+      expiresAt: Date;
+    }
+  | {
+      template: 'account_locked';
+      /** The locked account's email */
+      accountEmail: string;
+      lockedUntil: Date;
+      failedAttempts: number;
+      /** 'user' for the account holder, 'security' for the lockout notification address */
+      recipient: 'user' | 'security';
+    }
+  | {
+      template: 'activity_assigned';
+      activityName: string;
+      priority: string;
+      dueAt: Date | null;
+      assignedBy: string | null;
+      activityUrl: string;
+    }
+  | {
+      template: 'test';
+      sentBy: string;
+    };
+
+/** A rendered message */
+export interface RenderedEmail {
+  template: EmailTemplate;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Body content of a template, before the branded layout is applied */
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  /** Small print below the action */
+  note?: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+function formatDate(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function content(message: EmailMessage, branding: EmailBranding): TemplateContent {
+  switch (message.template) {
+    case 'invitation':
+      return {
+        subject: `You're invited to join ${message.organizationName} on ${branding.name}`,
+        heading: `Join ${message.organizationName}`,
+        paragraphs: [
+          `${message.inviterName} has invited you to join ${message.organizationName} as ${message.role}.`,
+        ],
+        action: { label: 'Accept invitation', url: message.acceptUrl },
+        note: `This invitation expires on ${formatDate(message.expiresAt)}.`,
+      };
+    case 'password_reset':
+      return {
+        subject: `Reset your ${branding.name} password`,
+        heading: 'Reset your password',
+        paragraphs: ['We received a request to reset the password for your account.'],
+        action: { label: 'Reset password', url: message.resetUrl },
+        note:
+          `This link expires on ${formatDate(message.expiresAt)}. ` +
+          "If you didn't request a reset, you can ignore this email.",
+      };
+    case 'account_locked':
+      return message.recipient === 'user'
+        ? {
+            subject: `Your ${branding.name} account has been locked`,
+            heading: 'Your account has been locked',
+            paragraphs: [
+              `Your account was locked after ${message.failedAttempts} failed sign-in attempts.`,
+              `You can sign in again after ${formatDate(message.lockedUntil)}.`,
+            ],
+            note: "If these attempts weren't you, reset your password and contact your administrator.",
+          }
+        : {
+            subject: `Account locked: ${message.accountEmail}`,
+            heading: 'An account has been locked',
+            paragraphs: [
+              `The account ${message.accountEmail} was locked after ${message.failedAttempts} failed sign-in attempts.`,
+              `The lock ends at ${formatDate(message.lockedUntil)}.`,
+            ],
+          };
+    case 'activity_assigned':
+      return {
+        subject: `Activity assigned to you: ${message.activityName}`,
+        heading: 'A new activity is assigned to you',
+        paragraphs: [
+          message.assignedBy
+            ? `${message.assignedBy} assigned you "${message.activityName}".`
+            : `You have been assigned "${message.activityName}".`,
+          `Priority: ${message.priority}` + (message.dueAt ? ` · Due: ${formatDate(message.dueAt)}` : ''),
+        ],
+        action: { label: 'View activity', url: message.activityUrl },
+      };
+    case 'test':
+      return {
+        subject: `${branding.name} test email`,
+        heading: 'Your mail server settings work',
+        paragraphs: [`This test email was sent by ${message.sentBy} from the Mail Server settings.`],
+      };
+  }
+}
+
+function renderHtml(body: TemplateContent, branding: EmailBranding): string {
+  const primary = HEX_COLOR.test(branding.primaryColor) ? branding.primaryColor : DEFAULT_EMAIL_BRANDING.primaryColor;
+  const accent = HEX_COLOR.test(branding.accentColor) ? branding.accentColor : primary;
+  const name = escapeHtml(branding.name);
+
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${name}" height="32" style="display:block;border:0;">`
+    : `<span style="color:#ffffff;font-size:20px;font-weight:bold;">${name}</span>`;
+  const paragraphs = body.paragraphs
+    .map((p) => `<p style="margin:0 0 16px;">${escapeHtml(p)}</p>`)
+    .join('');
+  const action = body.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(body.action.url)}" ` +
+      `style="background:${primary};color:#ffffff;padding:12px 24px;border-radius:4px;text-decoration:none;display:inline-block;">` +
+      `${escapeHtml(body.action.label)}</a></p>` +
+      `<p style="margin:0 0 16px;font-size:12px;color:#666666;">Or open this link: ` +
+      `<a href="${escapeHtml(body.action.url)}" style="color:${accent};">${escapeHtml(body.action.url)}</a></p>`
+    : '';
+  const note = body.note
+    ? `<p style="margin:0;font-size:12px;color:#666666;">${escapeHtml(body.note)}</p>`
+    : '';
+
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    `<title>${escapeHtml(body.subject)}</title></head>` +
+    '<body style="margin:0;padding:0;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2328;">' +
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px;">' +
+    '<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:6px;overflow:hidden;">' +
+    `<tr><td style="background:${primary};padding:16px 24px;">${header}</td></tr>` +
+    `<tr><td style="padding:24px;font-size:14px;line-height:1.5;">` +
+    `<h1 style="margin:0 0 16px;font-size:20px;">${escapeHtml(body.heading)}</h1>` +
+    `${paragraphs}${action}${note}</td></tr>` +
+    `<tr><td style="padding:16px 24px;font-size:12px;color:#999999;border-top:1px solid #eeeeee;">Sent by ${name}</td></tr>` +
+    '</table></td></tr></table></body></html>'
+  );
+}
+
+function renderText(body: TemplateContent, branding: EmailBranding): string {
+  const lines = [body.heading, '', ...body.paragraphs.flatMap((p) => [p, ''])];
+  if (body.action) {
+    lines.push(`${body.action.label}: ${body.action.url}`, '');
+  }
+  if (body.note) {
+    lines.push(body.note, '');
+  }
+  lines.push(`-- Sent by ${branding.name}`);
+  return lines.join('\n');
+}
+
+/**
+ * Renders a message with the given branding
+ */
+export function renderEmail(
+  message: EmailMessage,
+  branding: EmailBranding = DEFAULT_EMAIL_BRANDING
+): RenderedEmail {
+  const body = content(message, branding);
+  return {
+    template: message.template,
+    subject: body.subject,
+    html: renderHtml(body, branding),
+    text: renderText(body, branding),
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Unit tests for the impersonation service
+ * Tests approval requests, read-only sessions and the organization access report
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId, UserId } from '@argus/shared';
+import { impersonationService } from './impersonation.service.js';
+import {
+  getImpersonationRepository,
+  getOrganizationRepository,
+  getUserOrganizationRepository,
+  getUserRepository,
+} from '../repositories/index.js';
+import { systemAdminRepository } from '../repositories/system-admin.repository.js';
+
+vi.mock('../repositories/index.js', () => ({
+  getImpersonationRepository: vi.fn(),
+  getOrganizationRepository: vi.fn(),
+  getUserOrganizationRepository: vi.fn(),
+  getUserRepository: vi.fn(),
+  getRoleRepository: vi.fn(),
+}));
+
+vi.mock('../repositories/system-admin.repository.js', () => ({
+  systemAdminRepository: {
+    getRole: vi.fn(),
+    isSuperAdmin: vi.fn(),
+    isOrgAdmin: vi.fn(),
+  },
+}));
+
+vi.mock('./audit.service.js', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+vi.mock('../utils/index.js', () => ({
+  signAccessToken: vi.fn().mockReturnValue('impersonation-token'),
+}));
+
+const ADMIN_ID = '4fa0b1c2-d3e4-4f56-8a7b-9c0d1e2f3a4b' as UserId;
+const OWNER_ID = '5ab1c2d3-e4f5-4a67-9b8c-0d1e2f3a4b5c' as UserId;
+const TARGET_ID = '6bc2d3e4-f5a6-4b78-8c9d-1e2f3a4b5c6d' as UserId;
+const ORG_ID = '7cd3e4f5-a6b7-4c89-9d0e-2f3a4b5c6d7e' as OrganizationId;
+const OTHER_ORG_ID = '8de4f5a6-b7c8-4d90-8e1f-3a4b5c6d7e8f' as OrganizationId;
+const REQUEST_ID = '9ef5a6b7-c8d9-4e01-9f2a-4b5c6d7e8f90';
+
+const targetUser = {
+  id: TARGET_ID,
+  email: 'target@acme.example',
+  firstName: 'Tess',
+  lastName: 'Target',
+  rootOrganizationId: ORG_ID,
+  primaryOrganizationId: ORG_ID,
+};
+
+function createRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: REQUEST_ID,
+    impersonatorId: ADMIN_ID,
+    targetUserId: TARGET_ID,
+    organizationId: ORG_ID,
+    reason: 'Investigating support ticket #4711',
+    status: 'pending',
+    readOnly: true,
+    requestedDurationMinutes: 30,
+    startedAt: new Date(),
+    endedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    ...overrides,
+  };
+}
+
+describe('ImpersonationService', () => {
+  let impersonationRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let orgRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let memberRepo: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    impersonationRepo = {
+      create: vi.fn().mockImplementation(async (data) => ({ id: REQUEST_ID, ...data })),
+      findById: vi.fn().mockResolvedValue(null),
+      findActiveSession: vi.fn().mockResolvedValue(null),
+      updateStatus: vi.fn().mockImplementation(async (id, _status, data) => ({ ...createRequest(), id, ...data })),
+      findActivity: vi.fn().mockResolvedValue({ data: [], pagination: {} }),
+    };
+    orgRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ORG_ID, rootOrganizationId: ORG_ID, settings: null }),
+    };
+    memberRepo = {
+      getUserOrganizations: vi.fn().mockResolvedValue([{ organizationId: ORG_ID, role: 'member' }]),
+      findMembership: vi.fn().mockResolvedValue(null),
+    };
+    vi.mocked(getImpersonationRepository).mockReturnValue(impersonationRepo as never);
+    vi.mocked(getOrganizationRepository).mockReturnValue(orgRepo as never);
+    vi.mocked(getUserOrganizationRepository).mockReturnValue(memberRepo as never);
+    vi.mocked(getUserRepository).mockReturnValue({ findById: vi.fn().mockResolvedValue(targetUser) } as never);
+    vi.mocked(systemAdminRepository.getRole).mockImplementation(async (userId) =>
+      userId === ADMIN_ID ? 'super_admin' : null
+    );
+    vi.mocked(systemAdminRepository.isSuperAdmin).mockImplementation(async (userId) => userId === ADMIN_ID);
+  });
+
+  describe('startImpersonation', () => {
+    it('should start a read-only session directly when no approval is required', async () => {
+      const result = await impersonationService.startImpersonation({
+        impersonatorId: ADMIN_ID,
+        targetUserId: TARGET_ID,
+        reason: 'Investigating support ticket #4711',
+        readOnly: true,
+      });
+
+      expect(impersonationRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'active', readOnly: true })
+      );
+      expect(result).toMatchObject({ accessToken: 'impersonation-token', readOnly: true });
+    });
+
+    it('should require an approved request when the root organization requires approval', async () => {
+      memberRepo.getUserOrganizations.mockResolvedValue([{ organizationId: OTHER_ORG_ID, role: 'member' }]);
+      orgRepo.findById.mockImplementation(async (id: string) =>
+        id === OTHER_ORG_ID
+          ? { id: OTHER_ORG_ID, rootOrganizationId: ORG_ID, settings: null }
+          : { id: ORG_ID, rootOrganizationId: ORG_ID, settings: { features: { impersonationApprovalRequired: true } } }
+      );
+
+      await expect(
+        impersonationService.startImpersonation({
+          impersonatorId: ADMIN_ID,
+          targetUserId: TARGET_ID,
+          organizationId: OTHER_ORG_ID,
+          reason: 'Investigating support ticket #4711',
+        })
+      ).rejects.toThrow('requires owner approval');
+      expect(impersonationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should check the approval policy of every organization of the target', async () => {
+      memberRepo.getUserOrganizations.mockResolvedValue([
+        { organizationId: ORG_ID, role: 'member' },
+        { organizationId: OTHER_ORG_ID, role: 'member' },
+      ]);
+      orgRepo.findById.mockImplementation(async (id: string) =>
+        id === OTHER_ORG_ID
+          ? { id: OTHER_ORG_ID, rootOrganizationId: OTHER_ORG_ID, settings: { features: { impersonationApprovalRequired: true } } }
+          : { id: ORG_ID, rootOrganizationId: ORG_ID, settings: null }
+      );
+
+      await expect(
+        impersonationService.startImpersonation({
+          impersonatorId: ADMIN_ID,
+          targetUserId: TARGET_ID,
+          reason: 'Investigating support ticket #4711',
+        })
+      ).rejects.toThrow('requires owner approval');
+      expect(impersonationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an organization the target is not a member of', async () => {
+      await expect(
+        impersonationService.startImpersonation({
+          impersonatorId: ADMIN_ID,
+          targetUserId: TARGET_ID,
+          organizationId: OTHER_ORG_ID,
+          reason: 'Investigating support ticket #4711',
+        })
+      ).rejects.toThrow('not a member of this organization');
+      expect(impersonationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should activate an approved request with its duration and mode', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest({ status: 'approved' }));
+      orgRepo.findById.mockResolvedValue({
+        id: ORG_ID,
+        rootOrganizationId: ORG_ID,
+        settings: { features: { impersonationApprovalRequired: true } },
+      });
+
+      const before = Date.now();
+      const result = await impersonationService.startImpersonation({
+        impersonatorId: ADMIN_ID,
+        targetUserId: TARGET_ID,
+        reason: 'Investigating support ticket #4711',
+        requestId: REQUEST_ID,
+      });
+
+      expect(impersonationRepo.updateStatus).toHaveBeenCalledWith(
+        REQUEST_ID,
+        'approved',
+        expect.objectContaining({ status: 'active' })
+      );
+      expect(result.readOnly).toBe(true);
+      expect(result.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+      expect(result.expiresAt.getTime()).toBeLessThan(before + 31 * 60 * 1000);
+    });
+
+    it('should reject requests that are still pending', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest());
+
+      await expect(
+        impersonationService.startImpersonation({
+          impersonatorId: ADMIN_ID,
+          targetUserId: TARGET_ID,
+          reason: 'Investigating support ticket #4711',
+          requestId: REQUEST_ID,
+        })
+      ).rejects.toThrow('not approved (status: pending)');
+      expect(impersonationRepo.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestImpersonation', () => {
+    it('should create a pending request for the target primary organization', async () => {
+      const before = Date.now();
+      const request = await impersonationService.requestImpersonation({
+        impersonatorId: ADMIN_ID,
+        targetUserId: TARGET_ID,
+        reason: 'Investigating support ticket #4711',
+        durationMs: 30 * 60 * 1000,
+        readOnly: true,
+      });
+
+      expect(request).toMatchObject({
+        status: 'pending',
+        organizationId: ORG_ID,
+        readOnly: true,
+        requestedDurationMinutes: 30,
+      });
+      expect(request.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('decideRequest', () => {
+    it('should approve a pending request of the organization', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest());
+
+      await impersonationService.decideRequest(REQUEST_ID, ORG_ID, OWNER_ID, 'approved', 'Go ahead');
+
+      expect(impersonationRepo.updateStatus).toHaveBeenCalledWith(
+        REQUEST_ID,
+        'pending',
+        expect.objectContaining({ status: 'approved', decidedBy: OWNER_ID, decisionNote: 'Go ahead' })
+      );
+    });
+
+    it('should not let requesters approve their own requests', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest());
+
+      await expect(
+        impersonationService.decideRequest(REQUEST_ID, ORG_ID, ADMIN_ID, 'approved')
+      ).rejects.toThrow('your own');
+    });
+
+    it('should hide requests of other organizations', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest());
+
+      await expect(
+        impersonationService.decideRequest(REQUEST_ID, OTHER_ORG_ID, OWNER_ID, 'denied')
+      ).rejects.toThrow('not found');
+    });
+  });
+
+  describe('findLiveSession', () => {
+    it('should only return active sessions that have not expired', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest({ status: 'active' }));
+      expect(await impersonationService.findLiveSession(REQUEST_ID)).toMatchObject({ id: REQUEST_ID });
+
+      impersonationRepo.findById.mockResolvedValue(
+        createRequest({ status: 'active', expiresAt: new Date(Date.now() - 1000) })
+      );
+      expect(await impersonationService.findLiveSession(REQUEST_ID)).toBeNull();
+    });
+  });
+
+  describe('getSessionActivity', () => {
+    it('should only show sessions of the organization or its members', async () => {
+      impersonationRepo.findById.mockResolvedValue(createRequest({ status: 'ended' }));
+
+      expect(await impersonationService.getSessionActivity(OTHER_ORG_ID, REQUEST_ID)).toBeNull();
+
+      memberRepo.findMembership.mockResolvedValue({ role: 'member' });
+      expect(await impersonationService.getSessionActivity(OTHER_ORG_ID, REQUEST_ID)).toEqual({
+        data: [],
+        pagination: {},
+      });
+      expect(impersonationRepo.findActivity).toHaveBeenCalledWith(REQUEST_ID, undefined);
+    });
+  });
+});
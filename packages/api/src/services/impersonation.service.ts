@@ -3,9 +3,20 @@
  *
  * Handles admin/support user impersonation of other users.
  * Provides secure session management and audit logging.
+ *
+ * Organizations with features.impersonationApprovalRequired (on the
+ * organization or its root) only allow sessions started from a request that
+ * one of the organization's owners approved. Read-only sessions cannot call
+ * mutating endpoints, and every API call made with an impersonation token is
+ * recorded against its session for the organization's access report.
  */
 
-import { getImpersonationRepository } from '../repositories/index.js';
+import { getImpersonationRepository, getOrganizationRepository } from '../repositories/index.js';
+import type {
+  ImpersonationSession,
+  ImpersonationSessionStatus,
+  NewImpersonationActivity,
+} from '../repositories/index.js';
 import { getUserRepository, getUserOrganizationRepository, getRoleRepository } from '../repositories/index.js';
 import { systemAdminRepository } from '../repositories/system-admin.repository.js';
 import { auditService } from './audit.service.js';
@@ -16,20 +27,36 @@ import { createOrganizationId } from '@argus/shared';
 // Default impersonation session duration: 1 hour
 const DEFAULT_SESSION_DURATION_MS = 60 * 60 * 1000;
 
+// Approval requests must be approved and started within 24 hours
+const REQUEST_APPROVAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Statuses of approval requests that have not become a session */
+const REQUEST_STATUSES: ImpersonationSessionStatus[] = ['pending', 'approved', 'denied'];
+
+/** Statuses of sessions that were started */
+const SESSION_STATUSES: ImpersonationSessionStatus[] = ['active', 'ended', 'expired', 'revoked'];
+
 export interface StartImpersonationOptions {
   impersonatorId: UserId;
   targetUserId: UserId;
   organizationId?: OrganizationId;
   reason: string;
   durationMs?: number;
+  /** Block mutating API calls during the session */
+  readOnly?: boolean;
+  /** Approved request to start; its target, organization, duration and mode apply */
+  requestId?: string;
   ipAddress?: string;
   userAgent?: string;
 }
 
+export type RequestImpersonationOptions = Omit<StartImpersonationOptions, 'requestId'>;
+
 export interface ImpersonationResult {
   sessionId: string;
   accessToken: string;
   expiresAt: Date;
+  readOnly: boolean;
   targetUser: {
     id: string;
     email: string;
@@ -116,10 +143,30 @@ class ImpersonationService {
   }
 
   /**
-   * Starts an impersonation session
+   * Checks whether organization owners must approve impersonation of users
+   * in the organization (set on the organization or its root)
    */
-  async startImpersonation(options: StartImpersonationOptions): Promise<ImpersonationResult> {
-    const impersonationRepo = getImpersonationRepository();
+  async isApprovalRequired(organizationId: OrganizationId): Promise<boolean> {
+    const orgRepo = getOrganizationRepository();
+    const organization = await orgRepo.findById(organizationId);
+    if (!organization) {
+      return false;
+    }
+    if (organization.settings?.features?.impersonationApprovalRequired) {
+      return true;
+    }
+    if (!organization.rootOrganizationId || organization.rootOrganizationId === organization.id) {
+      return false;
+    }
+    const root = await orgRepo.findById(createOrganizationId(organization.rootOrganizationId));
+    return root?.settings?.features?.impersonationApprovalRequired === true;
+  }
+
+  /**
+   * Verifies that the impersonator may impersonate the target user
+   * Returns the target user
+   */
+  private async verifyAccess(options: Pick<StartImpersonationOptions, 'impersonatorId' | 'targetUserId' | 'organizationId'>) {
     const userRepo = getUserRepository();
     const memberRepo = getUserOrganizationRepository();
 
@@ -141,6 +188,13 @@ class ImpersonationService {
       throw new Error('Cannot impersonate Super Admin users');
     }
 
+    // The organization of the session must be one of the target's
+    const targetMemberships = await memberRepo.getUserOrganizations(options.targetUserId);
+    const targetOrgIds = targetMemberships.map((m) => m.organizationId);
+    if (options.organizationId && !targetOrgIds.includes(options.organizationId)) {
+      throw new Error('The target user is not a member of this organization');
+    }
+
     // Check org_admin restrictions - they can only impersonate within their organizations
     const isSuperAdmin = await this.isSuperAdmin(options.impersonatorId);
     if (!isSuperAdmin) {
@@ -152,8 +206,6 @@ class ImpersonationService {
 
       // Verify target is in one of their organizations
       const adminOrgs = await this.getAdminOrganizations(options.impersonatorId);
-      const targetMemberships = await memberRepo.getUserOrganizations(options.targetUserId);
-      const targetOrgIds = targetMemberships.map((m) => m.organizationId);
 
       // Check if there's any overlap between admin's orgs and target's orgs
       const hasAccess = adminOrgs.some((orgId) => targetOrgIds.includes(orgId));
@@ -167,28 +219,141 @@ class ImpersonationService {
       }
     }
 
-    // Check if impersonator already has an active session
-    const existingSession = await impersonationRepo.findActiveSession(options.impersonatorId);
-    if (existingSession) {
-      throw new Error('You already have an active impersonation session. End it first.');
-    }
+    return targetUser;
+  }
 
-    // Calculate expiration
+  /**
+   * Requests approval to impersonate a user
+   * The request goes to the owners of the given organization, or of the
+   * target's primary organization, and must be approved and started within
+   * 24 hours.
+   */
+  async requestImpersonation(options: RequestImpersonationOptions): Promise<ImpersonationSession> {
+    const impersonationRepo = getImpersonationRepository();
+
+    const targetUser = await this.verifyAccess(options);
     const durationMs = options.durationMs ?? DEFAULT_SESSION_DURATION_MS;
-    const expiresAt = new Date(Date.now() + durationMs);
 
-    // Create the session
-    const session = await impersonationRepo.create({
+    const request = await impersonationRepo.create({
       impersonatorId: options.impersonatorId,
       targetUserId: options.targetUserId,
-      organizationId: options.organizationId ?? null,
+      organizationId: options.organizationId ?? targetUser.primaryOrganizationId,
       reason: options.reason,
-      status: 'active',
-      expiresAt,
+      status: 'pending',
+      readOnly: options.readOnly ?? false,
+      requestedDurationMinutes: Math.round(durationMs / 60000),
+      expiresAt: new Date(Date.now() + REQUEST_APPROVAL_WINDOW_MS),
       ipAddress: options.ipAddress ?? null,
       userAgent: options.userAgent ?? null,
     });
 
+    await auditService.log({
+      category: 'authentication',
+      action: 'impersonation_requested',
+      userId: options.impersonatorId,
+      resourceType: 'impersonation_session',
+      resourceId: request.id,
+      organizationId: createOrganizationId(request.organizationId!),
+      outcome: 'success',
+      details: {
+        targetUserId: options.targetUserId,
+        targetEmail: targetUser.email,
+        reason: options.reason,
+        readOnly: request.readOnly,
+        requestedDurationMinutes: request.requestedDurationMinutes,
+      },
+    });
+
+    return request;
+  }
+
+  /**
+   * Approves or denies a pending impersonation request of an organization
+   * Owner permission is checked by the caller; nobody can decide on their
+   * own request.
+   */
+  async decideRequest(
+    requestId: string,
+    organizationId: OrganizationId,
+    deciderId: UserId,
+    decision: 'approved' | 'denied',
+    note?: string
+  ): Promise<ImpersonationSession> {
+    const impersonationRepo = getImpersonationRepository();
+
+    const request = await impersonationRepo.findById(requestId);
+    if (!request || request.organizationId !== organizationId || !REQUEST_STATUSES.includes(request.status)) {
+      throw new Error('Impersonation request not found');
+    }
+    if (request.impersonatorId === deciderId) {
+      throw new Error('You cannot decide on your own impersonation request');
+    }
+    if (request.status !== 'pending' || request.expiresAt.getTime() <= Date.now()) {
+      throw new Error(`Impersonation request is not pending (status: ${request.status})`);
+    }
+
+    const updated = await impersonationRepo.updateStatus(request.id, 'pending', {
+      status: decision,
+      decidedBy: deciderId,
+      decidedAt: new Date(),
+      decisionNote: note ?? null,
+    });
+    if (!updated) {
+      throw new Error('Impersonation request is not pending');
+    }
+
+    await auditService.log({
+      category: 'authentication',
+      action: decision === 'approved' ? 'impersonation_approved' : 'impersonation_denied',
+      userId: deciderId,
+      resourceType: 'impersonation_session',
+      resourceId: request.id,
+      organizationId,
+      outcome: 'success',
+      details: {
+        impersonatorId: request.impersonatorId,
+        targetUserId: request.targetUserId,
+        note: note ?? null,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Starts an impersonation session
+   * Starts an approved request when requestId is given; otherwise fails if
+   * the organization requires approval.
+   */
+  async startImpersonation(options: StartImpersonationOptions): Promise<ImpersonationResult> {
+    const impersonationRepo = getImpersonationRepository();
+    const memberRepo = getUserOrganizationRepository();
+
+    let request: ImpersonationSession | null = null;
+    if (options.requestId) {
+      request = await impersonationRepo.findById(options.requestId);
+      if (!request || request.impersonatorId !== options.impersonatorId || !REQUEST_STATUSES.includes(request.status)) {
+        throw new Error('Impersonation request not found');
+      }
+      if (request.targetUserId !== options.targetUserId) {
+        throw new Error('The impersonation request is for a different user');
+      }
+      if (request.status !== 'approved' || request.expiresAt.getTime() <= Date.now()) {
+        throw new Error(`Impersonation request is not approved (status: ${request.status})`);
+      }
+    }
+
+    const organizationId = request?.organizationId
+      ? createOrganizationId(request.organizationId)
+      : options.organizationId;
+
+    // Re-checked for requests, as the impersonator's access may have changed since
+    const targetUser = await this.verifyAccess(
+      request
+        ? { impersonatorId: options.impersonatorId, targetUserId: options.targetUserId, organizationId }
+        : options
+    );
+
     // Build organization context for the target user (ADR-002)
     const targetUserId = targetUser.id as UserId;
     const targetMemberships = await memberRepo.getUserOrganizations(targetUserId);
@@ -196,9 +361,58 @@ class ImpersonationService {
       createOrganizationId(m.organizationId)
     );
 
+    // Without an organization, every organization of the target must allow direct sessions
+    if (!request) {
+      const organizationIds = organizationId
+        ? [organizationId]
+        : [createOrganizationId(targetUser.primaryOrganizationId), ...accessibleOrganizationIds];
+      for (const orgId of new Set(organizationIds)) {
+        if (await this.isApprovalRequired(orgId)) {
+          throw new Error('This organization requires owner approval for impersonation. Request approval first.');
+        }
+      }
+    }
+
+    // Check if impersonator already has an active session
+    const existingSession = await impersonationRepo.findActiveSession(options.impersonatorId);
+    if (existingSession) {
+      throw new Error('You already have an active impersonation session. End it first.');
+    }
+
+    // Calculate expiration
+    const durationMs = request?.requestedDurationMinutes
+      ? request.requestedDurationMinutes * 60 * 1000
+      : options.durationMs ?? DEFAULT_SESSION_DURATION_MS;
+    const startedAt = new Date();
+    const expiresAt = new Date(startedAt.getTime() + durationMs);
+
+    // Create the session, or activate the approved request
+    const session = request
+      ? await impersonationRepo.updateStatus(request.id, 'approved', {
+          status: 'active',
+          startedAt,
+          expiresAt,
+          ipAddress: options.ipAddress ?? null,
+          userAgent: options.userAgent ?? null,
+        })
+      : await impersonationRepo.create({
+          impersonatorId: options.impersonatorId,
+          targetUserId: options.targetUserId,
+          organizationId: options.organizationId ?? null,
+          reason: options.reason,
+          status: 'active',
+          readOnly: options.readOnly ?? false,
+          expiresAt,
+          ipAddress: options.ipAddress ?? null,
+          userAgent: options.userAgent ?? null,
+        });
+    if (!session) {
+      throw new Error('Impersonation request is not approved');
+    }
+
     const organizationContext = {
       rootOrganizationId: createOrganizationId(targetUser.rootOrganizationId as string),
-      currentOrganizationId: createOrganizationId((options.organizationId ?? targetUser.primaryOrganizationId) as string),
+      currentOrganizationId: createOrganizationId((organizationId ?? targetUser.primaryOrganizationId) as string),
       accessibleOrganizationIds,
     };
 
@@ -222,13 +436,15 @@ class ImpersonationService {
       userId: options.impersonatorId,
       resourceType: 'user',
       resourceId: options.targetUserId,
-      organizationId: options.organizationId,
+      organizationId,
       outcome: 'success',
       details: {
         targetUserId: options.targetUserId,
         targetEmail: targetUser.email,
-        reason: options.reason,
+        reason: session.reason,
         sessionId: session.id,
+        readOnly: session.readOnly,
+        requestId: request?.id ?? null,
         expiresAt: expiresAt.toISOString(),
       },
     });
@@ -237,6 +453,7 @@ class ImpersonationService {
       sessionId: session.id,
       accessToken,
       expiresAt,
+      readOnly: session.readOnly,
       targetUser: {
         id: targetUser.id,
         email: targetUser.email,
@@ -388,7 +605,84 @@ class ImpersonationService {
   }
 
   /**
-   * Cleans up expired sessions
+   * Gets the session an impersonation token belongs to if it is still active
+   */
+  async findLiveSession(sessionId: string): Promise<ImpersonationSession | null> {
+    const impersonationRepo = getImpersonationRepository();
+    const session = await impersonationRepo.findById(sessionId);
+    if (!session || session.status !== 'active' || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Records an API call made with an impersonation token
+   */
+  async recordActivity(activity: NewImpersonationActivity): Promise<void> {
+    const impersonationRepo = getImpersonationRepository();
+    await impersonationRepo.recordActivity(activity);
+  }
+
+  /**
+   * Gets an organization's approval requests, newest first
+   */
+  async getRequests(
+    organizationId: OrganizationId,
+    options?: { page?: number; pageSize?: number; status?: 'pending' | 'approved' | 'denied' }
+  ) {
+    const impersonationRepo = getImpersonationRepository();
+    return impersonationRepo.findByOrganization(organizationId, {
+      page: options?.page,
+      pageSize: options?.pageSize,
+      statuses: options?.status ? [options.status] : REQUEST_STATUSES,
+    });
+  }
+
+  /**
+   * Gets the sessions in which the organization's users were impersonated,
+   * with the number of API calls made in each
+   */
+  async getAccessReport(organizationId: OrganizationId, options?: { page?: number; pageSize?: number }) {
+    const impersonationRepo = getImpersonationRepository();
+    const result = await impersonationRepo.findByOrganization(organizationId, {
+      ...options,
+      statuses: SESSION_STATUSES,
+    });
+    const counts = await impersonationRepo.countActivity(result.data.map((session) => session.id));
+    return {
+      ...result,
+      data: result.data.map((session) => ({ ...session, activityCount: counts.get(session.id) ?? 0 })),
+    };
+  }
+
+  /**
+   * Gets the API calls made during a session that appears in the
+   * organization's access report, or null if it does not
+   */
+  async getSessionActivity(
+    organizationId: OrganizationId,
+    sessionId: string,
+    options?: { page?: number; pageSize?: number }
+  ) {
+    const impersonationRepo = getImpersonationRepository();
+    const memberRepo = getUserOrganizationRepository();
+
+    const session = await impersonationRepo.findById(sessionId);
+    if (!session || !SESSION_STATUSES.includes(session.status)) {
+      return null;
+    }
+    if (session.organizationId !== organizationId) {
+      const membership = await memberRepo.findMembership(session.targetUserId as UserId, organizationId);
+      if (!membership) {
+        return null;
+      }
+    }
+    return impersonationRepo.findActivity(session.id, options);
+  }
+
+  /**
+   * Cleans up expired sessions and approval requests
    * Should be called periodically (e.g., by a cron job)
    */
   async cleanupExpiredSessions(): Promise<number> {
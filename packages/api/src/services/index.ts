@@ -3,3 +3,20 @@
  */
 
 export * from './audit.service.js';
+export * from './threshold-engine.service.js';
+export * from './asset-health.service.js';
+export * from './telemetry-computation.service.js';
+export * from './asset-type-profile.service.js';
+export * from './custom-attribute.service.js';
+export * from './telemetry-query.service.js';
+export * from './device-decoding.service.js';
+export * from './device-command.service.js';
+export * from './device-connectivity.service.js';
+export * from './dead-letter.service.js';
+export * from './permission.service.js';
+export * from './mfa.service.js';
+export * from './password-policy.service.js';
+export * from './email-templates.js';
+export * from './mail.service.js';
+export * from './api-key.service.js';
+export * from './session.service.js';
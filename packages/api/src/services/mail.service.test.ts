@@ -0,0 +1,283 @@
+/**
+ * Unit tests for the mail service
+ * Tests SMTP settings resolution, branding, queueing, retries and test sends
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MailService, resolveMailSettings } from './mail.service.js';
+import type { MailTransport, MailTransportFactory } from './mail.service.js';
+import type { OrganizationId, UserId } from '@argus/shared';
+import type {
+  BrandingRepository,
+  EmailDeliveryRepository,
+  OrganizationRepository,
+  PlatformSettingsRepository,
+} from '../repositories/index.js';
+
+const ORG_ID = '00000000-0000-0000-0000-000000000011' as OrganizationId;
+const ROOT_ORG_ID = '00000000-0000-0000-0000-000000000010';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const SMTP_SETTINGS = [
+  { key: 'email.smtp_host', value: 'smtp.example.com' },
+  { key: 'email.smtp_port', value: 587 },
+  { key: 'email.smtp_username', value: 'mailer' },
+  { key: 'email.smtp_password', value: 'secret' },
+  { key: 'email.from_address', value: 'no-reply@example.com' },
+  { key: 'email.from_name', value: 'Example Platform' },
+];
+
+function delivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'd1',
+    toAddress: 'jane@example.com',
+    subject: 'Subject',
+    htmlBody: '<p>Hi</p>',
+    textBody: 'Hi',
+    attempts: 1,
+    maxAttempts: 5,
+    ...overrides,
+  };
+}
+
+describe('resolveMailSettings', () => {
+  it('should return null until a server and sender are configured', () => {
+    expect(resolveMailSettings({}, {})).toBeNull();
+    expect(resolveMailSettings({ 'email.smtp_host': 'smtp.example.com' }, {})).toBeNull();
+  });
+
+  it('should read the Mail Server settings', () => {
+    const settings = resolveMailSettings(
+      Object.fromEntries(SMTP_SETTINGS.map((s) => [s.key, s.value])),
+      {}
+    );
+
+    expect(settings).toEqual({
+      host: 'smtp.example.com',
+      port: 587,
+      tls: 'starttls',
+      requireSecure: true,
+      username: 'mailer',
+      password: 'secret',
+      fromAddress: 'no-reply@example.com',
+      fromName: 'Example Platform',
+      capture: false,
+    });
+    expect(
+      resolveMailSettings(
+        {
+          'email.smtp_host': 'smtp.example.com',
+          'email.from_address': 'no-reply@example.com',
+          'email.smtp_tls': 'tls',
+          'email.smtp_secure': false,
+        },
+        {}
+      )
+    ).toMatchObject({ port: 465, tls: 'tls', requireSecure: false, fromName: 'ArgusIQ' });
+  });
+
+  it('should send everything to the capture server when one is set', () => {
+    const settings = resolveMailSettings(
+      { 'email.smtp_host': 'smtp.example.com', 'email.smtp_username': 'mailer' },
+      { SMTP_CAPTURE_HOST: 'localhost' }
+    );
+
+    expect(settings).toMatchObject({
+      host: 'localhost',
+      port: 1025,
+      tls: 'none',
+      username: null,
+      fromAddress: 'no-reply@argusiq.local',
+      capture: true,
+    });
+  });
+});
+
+describe('MailService', () => {
+  let settings: { key: string; value: unknown }[];
+  let deliveryRepo: {
+    create: ReturnType<typeof vi.fn>;
+    claimDue: ReturnType<typeof vi.fn>;
+    requeueStale: ReturnType<typeof vi.fn>;
+    markSent: ReturnType<typeof vi.fn>;
+    markAttemptFailed: ReturnType<typeof vi.fn>;
+  };
+  let brandingRepo: { findByOrganizationId: ReturnType<typeof vi.fn> };
+  let orgRepo: { findById: ReturnType<typeof vi.fn> };
+  let send: ReturnType<typeof vi.fn<MailTransport['send']>>;
+  let transportFactory: ReturnType<typeof vi.fn<MailTransportFactory>>;
+  let service: MailService;
+
+  beforeEach(() => {
+    vi.stubEnv('SMTP_CAPTURE_HOST', '');
+    settings = [...SMTP_SETTINGS];
+    deliveryRepo = {
+      create: vi.fn(async (data) => ({ id: 'd1', ...data })),
+      claimDue: vi.fn().mockResolvedValue([]),
+      requeueStale: vi.fn().mockResolvedValue(0),
+      markSent: vi.fn(),
+      markAttemptFailed: vi.fn(),
+    };
+    brandingRepo = { findByOrganizationId: vi.fn().mockResolvedValue(null) };
+    orgRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ORG_ID, name: 'Acme', rootOrganizationId: ROOT_ORG_ID }),
+    };
+    send = vi.fn<MailTransport['send']>().mockResolvedValue({ messageId: '<m1@example.com>' });
+    transportFactory = vi.fn<MailTransportFactory>(() => ({ send }));
+    service = new MailService(
+      {
+        getAllSettings: async () => settings,
+        getBranding: async () => ({ logoUrl: 'https://cdn.example.com/platform.png', primaryColor: '#111111' }),
+      } as unknown as PlatformSettingsRepository,
+      deliveryRepo as unknown as EmailDeliveryRepository,
+      brandingRepo as unknown as BrandingRepository,
+      orgRepo as unknown as OrganizationRepository,
+      transportFactory,
+      { appUrl: 'https://app.example.com', retryBaseDelayMs: 60000, retryMaxDelayMs: 600000 },
+      () => NOW
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getBranding', () => {
+    it('should use the organization branding, then the root organization, then the platform', async () => {
+      brandingRepo.findByOrganizationId.mockImplementation(async (id: string) =>
+        id === ROOT_ORG_ID ? { logoUrl: 'https://cdn.example.com/root.png', primaryColor: null } : null
+      );
+
+      expect(await service.getBranding(ORG_ID)).toEqual({
+        name: 'Acme',
+        logoUrl: 'https://cdn.example.com/root.png',
+        primaryColor: '#111111',
+        accentColor: '#1890FF',
+      });
+      expect(await service.getBranding()).toMatchObject({
+        name: 'Example Platform',
+        logoUrl: 'https://cdn.example.com/platform.png',
+      });
+    });
+  });
+
+  describe('queueing', () => {
+    it('should queue a rendered password reset with a link into the app', async () => {
+      await service.sendPasswordReset({
+        to: 'jane@example.com',
+        organizationId: ORG_ID,
+        token: 'abc',
+        expiresAt: NOW,
+      });
+
+      expect(deliveryRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: ORG_ID,
+          template: 'password_reset',
+          toAddress: 'jane@example.com',
+          subject: 'Reset your Acme password',
+          maxAttempts: 5,
+          nextAttemptAt: NOW,
+        })
+      );
+      expect(deliveryRepo.create.mock.calls[0][0].textBody).toContain(
+        'https://app.example.com/reset-password?token=abc'
+      );
+    });
+
+    it('should notify the security contact of lockouts when configured', async () => {
+      const event = {
+        userId: '7c9e6679-7425-40de-944b-e07fc1f90ae7' as UserId,
+        email: 'jane@example.com',
+        organizationId: ORG_ID,
+        lockedUntil: NOW,
+        failedAttempts: 5,
+        notificationEmail: null,
+      };
+
+      await service.sendAccountLocked(event);
+      expect(deliveryRepo.create).toHaveBeenCalledTimes(1);
+
+      await service.sendAccountLocked({ ...event, notificationEmail: 'security@example.com' });
+      expect(deliveryRepo.create).toHaveBeenCalledTimes(3);
+      expect(deliveryRepo.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({ toAddress: 'security@example.com', subject: 'Account locked: jane@example.com' })
+      );
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should hold the queue while mail is not configured', async () => {
+      settings = [];
+
+      expect(await service.processQueue()).toEqual({ configured: false, sent: 0, retried: 0, failed: 0 });
+      expect(deliveryRepo.claimDue).not.toHaveBeenCalled();
+    });
+
+    it('should send due messages from the configured sender', async () => {
+      deliveryRepo.claimDue.mockResolvedValue([delivery()]);
+
+      expect(await service.processQueue(10)).toEqual({ configured: true, sent: 1, retried: 0, failed: 0 });
+      expect(deliveryRepo.claimDue).toHaveBeenCalledWith(NOW, 10);
+      expect(send).toHaveBeenCalledWith({
+        from: { name: 'Example Platform', address: 'no-reply@example.com' },
+        to: 'jane@example.com',
+        subject: 'Subject',
+        html: '<p>Hi</p>',
+        text: 'Hi',
+      });
+      expect(deliveryRepo.markSent).toHaveBeenCalledWith('d1', '<m1@example.com>', NOW);
+    });
+
+    it('should retry failed sends with backoff and fail them after the last attempt', async () => {
+      send.mockRejectedValue(new Error('421 Service not available'));
+      deliveryRepo.claimDue.mockResolvedValue([
+        delivery({ id: 'd1', attempts: 3 }),
+        delivery({ id: 'd2', attempts: 5 }),
+      ]);
+
+      expect(await service.processQueue()).toEqual({ configured: true, sent: 0, retried: 1, failed: 1 });
+      expect(deliveryRepo.markAttemptFailed).toHaveBeenCalledWith(
+        'd1',
+        '421 Service not available',
+        new Date(NOW.getTime() + 240000)
+      );
+      expect(deliveryRepo.markAttemptFailed).toHaveBeenCalledWith('d2', '421 Service not available', null);
+    });
+
+    it('should cap the retry delay', () => {
+      expect(service.getRetryAt({ attempts: 1, maxAttempts: 20 })).toEqual(new Date(NOW.getTime() + 60000));
+      expect(service.getRetryAt({ attempts: 10, maxAttempts: 20 })).toEqual(new Date(NOW.getTime() + 600000));
+    });
+  });
+
+  describe('sendTest', () => {
+    it('should send immediately and report the result', async () => {
+      expect(await service.sendTest('admin@example.com', 'root@example.com')).toEqual({
+        success: true,
+        messageId: '<m1@example.com>',
+        error: null,
+      });
+      expect(deliveryRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({ template: 'test', status: 'sending', maxAttempts: 1 })
+      );
+      expect(deliveryRepo.markSent).toHaveBeenCalledWith('d1', '<m1@example.com>', NOW);
+    });
+
+    it('should return SMTP errors instead of throwing', async () => {
+      send.mockRejectedValue(new Error('535 Authentication failed'));
+
+      expect(await service.sendTest('admin@example.com', 'root@example.com')).toEqual({
+        success: false,
+        messageId: null,
+        error: '535 Authentication failed',
+      });
+      expect(deliveryRepo.markAttemptFailed).toHaveBeenCalledWith('d1', '535 Authentication failed', null);
+
+      settings = [];
+      expect((await service.sendTest('admin@example.com', 'root@example.com')).error).toBe(
+        'Mail server is not configured'
+      );
+    });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Mail Service
+ *
+ * Sends the platform's transactional email through the SMTP server configured
+ * on the Mail Server tab (email.* platform settings, see PLATFORM_SETTING_KEYS).
+ *
+ * Messages are rendered with the organization's branding when queued and
+ * stored in email_deliveries, which is both the queue and the delivery log.
+ * The mail queue worker (pnpm worker:mail) sends due messages; failed sends
+ * are retried with exponential backoff until the attempt limit, then marked
+ * failed. Messages stay queued while no mail server is configured.
+ *
+ * For local development and tests, SMTP_CAPTURE_HOST redirects all mail to a
+ * capture server (e.g. Mailpit, `docker compose --profile mail up -d`) without
+ * TLS or authentication, regardless of the configured server.
+ */
+
+import { createTransport } from 'nodemailer';
+import type { OrganizationId, SendTestEmailResponse } from '@argus/shared';
+import { PLATFORM_SETTING_KEYS } from '../db/schema/index.js';
+import {
+  getEmailDeliveryRepository,
+  type EmailDelivery,
+  type EmailDeliveryRepository,
+} from '../repositories/email-delivery.repository.js';
+import {
+  getBrandingRepository,
+  type BrandingRepository,
+} from '../repositories/branding.repository.js';
+import {
+  getOrganizationRepository,
+  type OrganizationRepository,
+} from '../repositories/organization.repository.js';
+import {
+  platformSettingsRepository,
+  type PlatformSettingsRepository,
+} from '../repositories/platform-settings.repository.js';
+import {
+  DEFAULT_EMAIL_BRANDING,
+  renderEmail,
+  type EmailBranding,
+  type EmailMessage,
+} from './email-templates.js';
+import type { AccountLockedEvent } from './password-policy.service.js';
+
+/** Effective SMTP configuration */
+export interface MailSettings {
+  host: string;
+  port: number;
+  /** none: plain SMTP, starttls: upgrade after connecting, tls: implicit TLS */
+  tls: 'none' | 'starttls' | 'tls';
+  /** Refuse to send without STARTTLS and verify the server certificate */
+  requireSecure: boolean;
+  username: string | null;
+  password: string | null;
+  fromAddress: string;
+  fromName: string;
+  /** Sending to the local capture server (SMTP_CAPTURE_HOST) */
+  capture: boolean;
+}
+
+/** A message ready to hand to the SMTP server */
+export interface OutgoingMail {
+  from: { name: string; address: string };
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** Sends mail over SMTP */
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<{ messageId: string | null }>;
+}
+
+export type MailTransportFactory = (settings: MailSettings) => MailTransport;
+
+export interface MailServiceOptions {
+  /** Base URL of the web app, for links in emails */
+  appUrl: string;
+  /** Attempts per message before it is marked failed */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles with each further attempt */
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Messages sending for longer than this are assumed abandoned and requeued */
+  sendingTimeoutMs: number;
+}
+
+export const DEFAULT_MAIL_SERVICE_OPTIONS: MailServiceOptions = {
+  appUrl: 'http://localhost:5173',
+  maxAttempts: 5,
+  retryBaseDelayMs: 60000,
+  retryMaxDelayMs: 3600000,
+  sendingTimeoutMs: 600000,
+};
+
+/** Outcome of one queue run */
+export interface MailQueueResult {
+  /** False when no mail server is configured (nothing was sent) */
+  configured: boolean;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+const CAPTURE_FROM_ADDRESS = 'no-reply@argusiq.local';
+
+function stringSetting(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Builds the SMTP configuration from stored platform setting values (by key)
+ * Returns null when no server or sender address is configured and no
+ * capture server is set.
+ */
+export function resolveMailSettings(
+  settings: Record<string, unknown>,
+  env: NodeJS.ProcessEnv = process.env
+): MailSettings | null {
+  const keys = PLATFORM_SETTING_KEYS;
+  const fromAddress = stringSetting(settings[keys.EMAIL_FROM_ADDRESS]);
+  const fromName = stringSetting(settings[keys.EMAIL_FROM_NAME]) ?? DEFAULT_EMAIL_BRANDING.name;
+
+  const captureHost = stringSetting(env.SMTP_CAPTURE_HOST);
+  if (captureHost) {
+    return {
+      host: captureHost,
+      port: Number(env.SMTP_CAPTURE_PORT) || 1025,
+      tls: 'none',
+      requireSecure: false,
+      username: null,
+      password: null,
+      fromAddress: fromAddress ?? CAPTURE_FROM_ADDRESS,
+      fromName,
+      capture: true,
+    };
+  }
+
+  const host = stringSetting(settings[keys.EMAIL_SMTP_HOST]);
+  if (!host || !fromAddress) return null;
+
+  const tlsSetting = settings[keys.EMAIL_SMTP_TLS];
+  const tls = tlsSetting === 'none' || tlsSetting === 'tls' ? tlsSetting : 'starttls';
+  const port = Number(settings[keys.EMAIL_SMTP_PORT]);
+  const secureSetting = settings[keys.EMAIL_SMTP_SECURE];
+
+  return {
+    host,
+    port: Number.isInteger(port) && port > 0 && port < 65536 ? port : tls === 'tls' ? 465 : 587,
+    tls,
+    requireSecure: secureSetting === undefined ? true : secureSetting === true || secureSetting === 'true',
+    username: stringSetting(settings[keys.EMAIL_SMTP_USERNAME]),
+    password: typeof settings[keys.EMAIL_SMTP_PASSWORD] === 'string'
+      ? (settings[keys.EMAIL_SMTP_PASSWORD] as string) || null
+      : null,
+    fromAddress,
+    fromName,
+    capture: false,
+  };
+}
+
+/**
+ * SMTP transport using nodemailer
+ */
+export const createSmtpTransport: MailTransportFactory = (settings) => {
+  const transporter = createTransport({
+    host: settings.host,
+    port: settings.port,
+    secure: settings.tls === 'tls',
+    requireTLS: settings.tls === 'starttls' && settings.requireSecure,
+    ignoreTLS: settings.tls === 'none',
+    auth: settings.username ? { user: settings.username, pass: settings.password ?? '' } : undefined,
+    tls: { rejectUnauthorized: settings.requireSecure },
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+    socketTimeout: 30000,
+  });
+
+  return {
+    async send(mail) {
+      const info = await transporter.sendMail(mail);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+};
+
+/**
+ * Mail Service class
+ */
+export class MailService {
+  private options: MailServiceOptions;
+
+  constructor(
+    private settingsRepo: Pick<PlatformSettingsRepository, 'getAllSettings' | 'getBranding'> = platformSettingsRepository,
+    private deliveryRepo: EmailDeliveryRepository = getEmailDeliveryRepository(),
+    private brandingRepo: BrandingRepository = getBrandingRepository(),
+    private orgRepo: OrganizationRepository = getOrganizationRepository(),
+    private transportFactory: MailTransportFactory = createSmtpTransport,
+    options?: Partial<MailServiceOptions>,
+    private now: () => Date = () => new Date()
+  ) {
+    this.options = { ...DEFAULT_MAIL_SERVICE_OPTIONS, ...options };
+  }
+
+  /**
+   * Current SMTP configuration, or null when mail is not configured
+   */
+  async getSettings(): Promise<MailSettings | null> {
+    const settings = await this.settingsRepo.getAllSettings();
+    return resolveMailSettings(Object.fromEntries(settings.map((s) => [s.key, s.value])));
+  }
+
+  /**
+   * Branding for mail sent on behalf of an organization: its own branding,
+   * else its root organization's, else the platform branding
+   */
+  async getBranding(organizationId?: OrganizationId | null): Promise<EmailBranding> {
+    const platform = await this.settingsRepo.getBranding();
+    const fromName = (await this.getSettings())?.fromName ?? DEFAULT_EMAIL_BRANDING.name;
+
+    const org = organizationId ? await this.orgRepo.findById(organizationId) : null;
+    let branding = org ? await this.brandingRepo.findByOrganizationId(organizationId!) : null;
+    if (org && !branding && org.rootOrganizationId && org.rootOrganizationId !== org.id) {
+      branding = await this.brandingRepo.findByOrganizationId(org.rootOrganizationId as OrganizationId);
+    }
+
+    return {
+      name: org?.name ?? fromName,
+      logoUrl: branding?.logoUrl ?? platform?.logoUrl ?? DEFAULT_EMAIL_BRANDING.logoUrl,
+      primaryColor: branding?.primaryColor ?? platform?.primaryColor ?? DEFAULT_EMAIL_BRANDING.primaryColor,
+      accentColor: branding?.accentColor ?? platform?.accentColor ?? DEFAULT_EMAIL_BRANDING.accentColor,
+    };
+  }
+
+  /**
+   * Link into the web app
+   */
+  appUrl(path: string, params: Record<string, string> = {}): string {
+    const url = new URL(path, this.options.appUrl.endsWith('/') ? this.options.appUrl : `${this.options.appUrl}/`);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Renders a message with the organization's branding and queues it
+   */
+  async enqueue(
+    to: string,
+    message: EmailMessage,
+    organizationId: OrganizationId | null = null
+  ): Promise<EmailDelivery> {
+    const rendered = renderEmail(message, await this.getBranding(organizationId));
+    return this.deliveryRepo.create({
+      organizationId,
+      template: rendered.template,
+      toAddress: to,
+      subject: rendered.subject,
+      htmlBody: rendered.html,
+      textBody: rendered.text,
+      maxAttempts: this.options.maxAttempts,
+      nextAttemptAt: this.now(),
+    });
+  }
+
+  /**
+   * Queues an organization invitation
+   */
+  async sendInvitation(input: {
+    to: string;
+    organizationId: OrganizationId;
+    organizationName: string;
+    inviterName: string;
+    role: string;
+    token: string;
+    expiresAt: Date;
+  }): Promise<EmailDelivery> {
+    return this.enqueue(
+      input.to,
+      {
+        template: 'invitation',
+        organizationName: input.organizationName,
+        inviterName: input.inviterName,
+        role: input.role,
+        acceptUrl: this.appUrl('invitations/accept', { token: input.token }),
+        expiresAt: input.expiresAt,
+      },
+      input.organizationId
+    );
+  }
+
+  /**
+   * Queues a password reset link
+   */
+  async sendPasswordReset(input: {
+    to: string;
+    organizationId: OrganizationId | null;
+    token: string;
+    expiresAt: Date;
+  }): Promise<EmailDelivery> {
+    return this.enqueue(
+      input.to,
+      {
+        template: 'password_reset',
+        resetUrl: this.appUrl('reset-password', { token: input.token }),
+        expiresAt: input.expiresAt,
+      },
+      input.organizationId
+    );
+  }
+
+  /**
+   * Queues the lockout notice to the account holder and, when configured,
+   * to the lockout notification address
+   */
+  async sendAccountLocked(event: AccountLockedEvent): Promise<void> {
+    const message = {
+      template: 'account_locked' as const,
+      accountEmail: event.email,
+      lockedUntil: event.lockedUntil,
+      failedAttempts: event.failedAttempts,
+    };
+    await this.enqueue(event.email, { ...message, recipient: 'user' }, event.organizationId);
+    if (event.notificationEmail) {
+      await this.enqueue(event.notificationEmail, { ...message, recipient: 'security' }, event.organizationId);
+    }
+  }
+
+  /**
+   * Queues an activity assignment notice
+   */
+  async sendActivityAssigned(input: {
+    to: string;
+    organizationId: OrganizationId;
+    activityId: string;
+    activityName: string;
+    priority: string;
+    dueAt: Date | null;
+    assignedBy: string | null;
+  }): Promise<EmailDelivery> {
+    return this.enqueue(
+      input.to,
+      {
+        template: 'activity_assigned',
+        activityName: input.activityName,
+        priority: input.priority,
+        dueAt: input.dueAt,
+        assignedBy: input.assignedBy,
+        activityUrl: this.appUrl('activity', { id: input.activityId }),
+      },
+      input.organizationId
+    );
+  }
+
+  /**
+   * Sends a test message immediately (bypassing the queue) and records the
+   * result in the delivery log. SMTP errors are returned, not thrown.
+   */
+  async sendTest(to: string, sentBy: string): Promise<SendTestEmailResponse> {
+    const settings = await this.getSettings();
+    if (!settings) {
+      return { success: false, messageId: null, error: 'Mail server is not configured' };
+    }
+
+    const rendered = renderEmail({ template: 'test', sentBy }, await this.getBranding());
+    const delivery = await this.deliveryRepo.create({
+      template: rendered.template,
+      toAddress: to,
+      subject: rendered.subject,
+      htmlBody: rendered.html,
+      textBody: rendered.text,
+      status: 'sending',
+      attempts: 1,
+      maxAttempts: 1,
+      nextAttemptAt: null,
+    });
+
+    try {
+      const { messageId } = await this.transportFactory(settings).send(this.toOutgoing(delivery, settings));
+      await this.deliveryRepo.markSent(delivery.id, messageId, this.now());
+      return { success: true, messageId, error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.deliveryRepo.markAttemptFailed(delivery.id, message, null);
+      return { success: false, messageId: null, error: message };
+    }
+  }
+
+  /**
+   * Sends due messages: requeues abandoned sends, claims up to `limit`
+   * queued messages and schedules a retry (or fails) those the server rejects
+   */
+  async processQueue(limit = 20): Promise<MailQueueResult> {
+    const result: MailQueueResult = { configured: false, sent: 0, retried: 0, failed: 0 };
+    const settings = await this.getSettings();
+    if (!settings) return result;
+    result.configured = true;
+
+    const now = this.now();
+    await this.deliveryRepo.requeueStale(new Date(now.getTime() - this.options.sendingTimeoutMs));
+
+    const deliveries = await this.deliveryRepo.claimDue(now, limit);
+    if (deliveries.length === 0) return result;
+
+    const transport = this.transportFactory(settings);
+    for (const delivery of deliveries) {
+      try {
+        const { messageId } = await transport.send(this.toOutgoing(delivery, settings));
+        await this.deliveryRepo.markSent(delivery.id, messageId, this.now());
+        result.sent++;
+      } catch (error) {
+        const retryAt = this.getRetryAt(delivery);
+        await this.deliveryRepo.markAttemptFailed(
+          delivery.id,
+          error instanceof Error ? error.message : String(error),
+          retryAt
+        );
+        if (retryAt) {
+          result.retried++;
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * When a message whose latest attempt failed is retried, or null if it has
+   * used all its attempts
+   */
+  getRetryAt(delivery: Pick<EmailDelivery, 'attempts' | 'maxAttempts'>): Date | null {
+    if (delivery.attempts >= delivery.maxAttempts) return null;
+    const delay = Math.min(
+      this.options.retryBaseDelayMs * 2 ** Math.max(0, delivery.attempts - 1),
+      this.options.retryMaxDelayMs
+    );
+    return new Date(this.now().getTime() + delay);
+  }
+
+  private toOutgoing(delivery: EmailDelivery, settings: MailSettings): OutgoingMail {
+    return {
+      from: { name: settings.fromName, address: settings.fromAddress },
+      to: delivery.toAddress,
+      subject: delivery.subject,
+      html: delivery.htmlBody,
+      text: delivery.textBody,
+    };
+  }
+}
+
+// Singleton instance
+let mailService: MailService | null = null;
+
+export function getMailService(): MailService {
+  if (!mailService) {
+    mailService = new MailService(undefined, undefined, undefined, undefined, undefined, {
+      appUrl: process.env.APP_URL ?? DEFAULT_MAIL_SERVICE_OPTIONS.appUrl,
+    });
+  }
+  return mailService;
+}
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the MFA service
+ * Tests enrolment, second-factor verification, recovery codes and the
+ * organization requirement
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockTrx = {};
+
+vi.mock('../repositories/base.repository.js', async () => {
+  const actual = await vi.importActual('../repositories/base.repository.js');
+  return {
+    ...actual,
+    withTransaction: vi.fn((fn) => fn(mockTrx)),
+  };
+});
+
+const { MfaService } = await import('./mfa.service.js');
+import type { UserId } from '@argus/shared';
+import { generateTotp } from '../utils/totp.js';
+import type {
+  MfaRecoveryCodeRepository,
+  OrganizationRepository,
+  User,
+  UserRepository,
+} from '../repositories/index.js';
+
+const USER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ROOT_ORG_ID = '00000000-0000-0000-0000-000000000010';
+const PRIMARY_ORG_ID = '00000000-0000-0000-0000-000000000011';
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const NOW = new Date('2026-03-01T12:00:00Z');
+const CODES = ['AAAAA-BBBBB', 'CCCCC-DDDDD'];
+const CURRENT_STEP = Math.floor(NOW.getTime() / 30000);
+
+function user(overrides: Partial<User> = {}): User {
+  return {
+    id: USER_ID,
+    email: 'jane@example.com',
+    rootOrganizationId: ROOT_ORG_ID,
+    primaryOrganizationId: PRIMARY_ORG_ID,
+    mfaEnabled: false,
+    mfaSecret: null,
+    ...overrides,
+  } as User;
+}
+
+describe('MfaService', () => {
+  let userRepo: { update: ReturnType<typeof vi.fn>; claimMfaStep: ReturnType<typeof vi.fn> };
+  let recoveryCodeRepo: {
+    replaceAll: ReturnType<typeof vi.fn>;
+    consume: ReturnType<typeof vi.fn>;
+    countRemaining: ReturnType<typeof vi.fn>;
+    deleteAll: ReturnType<typeof vi.fn>;
+  };
+  let orgRepo: { findById: ReturnType<typeof vi.fn> };
+  let service: InstanceType<typeof MfaService>;
+
+  beforeEach(() => {
+    userRepo = { update: vi.fn().mockResolvedValue({}), claimMfaStep: vi.fn().mockResolvedValue(true) };
+    recoveryCodeRepo = {
+      replaceAll: vi.fn().mockResolvedValue(CODES),
+      consume: vi.fn().mockResolvedValue(true),
+      countRemaining: vi.fn().mockResolvedValue(8),
+      deleteAll: vi.fn().mockResolvedValue(10),
+    };
+    orgRepo = { findById: vi.fn().mockResolvedValue({ settings: {} }) };
+    service = new MfaService(
+      userRepo as unknown as UserRepository,
+      recoveryCodeRepo as unknown as MfaRecoveryCodeRepository,
+      orgRepo as unknown as OrganizationRepository,
+      'ArgusIQ',
+      () => NOW
+    );
+  });
+
+  describe('isRequired', () => {
+    it('should require MFA when the root or primary organization requires it', async () => {
+      expect(await service.isRequired(user())).toBe(false);
+
+      orgRepo.findById.mockImplementation(async (id: string) => ({
+        settings: { features: { mfaRequired: id === PRIMARY_ORG_ID } },
+      }));
+      expect(await service.isRequired(user())).toBe(true);
+    });
+  });
+
+  describe('enrolment', () => {
+    it('should store a pending secret and return its key URI', async () => {
+      const enrollment = await service.beginEnrollment(user());
+
+      expect(enrollment?.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment?.otpauthUri).toContain('otpauth://totp/ArgusIQ:jane%40example.com?secret=');
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, {
+        mfaSecret: enrollment?.secret,
+        mfaEnabled: false,
+      });
+    });
+
+    it('should not restart enrolment when MFA is enabled', async () => {
+      expect(await service.beginEnrollment(user({ mfaEnabled: true, mfaSecret: SECRET }))).toBeNull();
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should enable MFA and issue recovery codes for a valid first code', async () => {
+      const codes = await service.confirmEnrollment(user({ mfaSecret: SECRET }), generateTotp(SECRET, NOW));
+
+      expect(codes).toEqual(CODES);
+      expect(userRepo.claimMfaStep).toHaveBeenCalledWith(USER_ID, CURRENT_STEP, mockTrx);
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, { mfaEnabled: true }, mockTrx);
+      expect(recoveryCodeRepo.replaceAll).toHaveBeenCalledWith(USER_ID, mockTrx);
+    });
+
+    it('should reject a wrong first code or a missing enrolment', async () => {
+      expect(await service.confirmEnrollment(user({ mfaSecret: SECRET }), '000000')).toBeNull();
+      expect(await service.confirmEnrollment(user(), generateTotp(SECRET, NOW))).toBeNull();
+      expect(userRepo.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    const enrolled = user({ mfaEnabled: true, mfaSecret: SECRET });
+
+    it('should accept a current TOTP code', async () => {
+      expect(await service.verify(enrolled, { code: generateTotp(SECRET, NOW) })).toBe('totp');
+      expect(userRepo.claimMfaStep).toHaveBeenCalledWith(USER_ID, CURRENT_STEP);
+      expect(await service.verify(enrolled, { code: '000000' })).toBeNull();
+    });
+
+    it('should reject codes for the last used step or earlier', async () => {
+      const used = user({ mfaEnabled: true, mfaSecret: SECRET, mfaLastUsedStep: CURRENT_STEP });
+
+      expect(await service.verify(used, { code: generateTotp(SECRET, NOW) })).toBeNull();
+      expect(userRepo.claimMfaStep).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code used concurrently', async () => {
+      userRepo.claimMfaStep.mockResolvedValueOnce(false);
+
+      expect(await service.verify(enrolled, { code: generateTotp(SECRET, NOW) })).toBeNull();
+    });
+
+    it('should consume recovery codes', async () => {
+      expect(await service.verify(enrolled, { recoveryCode: 'aaaaa-bbbbb' })).toBe('recovery_code');
+      expect(recoveryCodeRepo.consume).toHaveBeenCalledWith(USER_ID, 'aaaaa-bbbbb');
+
+      recoveryCodeRepo.consume.mockResolvedValueOnce(false);
+      expect(await service.verify(enrolled, { recoveryCode: 'aaaaa-bbbbb' })).toBeNull();
+    });
+
+    it('should reject users without MFA', async () => {
+      expect(await service.verify(user({ mfaSecret: SECRET }), { code: generateTotp(SECRET, NOW) })).toBeNull();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report remaining recovery codes for enrolled users', async () => {
+      expect(await service.getStatus(user({ mfaEnabled: true, mfaSecret: SECRET }))).toEqual({
+        enabled: true,
+        required: false,
+        recoveryCodesRemaining: 8,
+      });
+      expect(await service.getStatus(user())).toEqual({
+        enabled: false,
+        required: false,
+        recoveryCodesRemaining: 0,
+      });
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes', async () => {
+      await service.disable(USER_ID as UserId);
+
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, { mfaEnabled: false, mfaSecret: null }, mockTrx);
+      expect(recoveryCodeRepo.deleteAll).toHaveBeenCalledWith(USER_ID, mockTrx);
+    });
+  });
+});
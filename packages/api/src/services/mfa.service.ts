@@ -0,0 +1,178 @@
+/**
+ * MFA Service
+ *
+ * TOTP multi-factor authentication:
+ *
+ *   enrol:   beginEnrollment stores a new secret on the user (mfa_enabled stays
+ *            false) → confirmEnrollment checks the first code, enables MFA and
+ *            issues recovery codes
+ *   sign in: /auth/login returns an MFA challenge token instead of tokens →
+ *            verify checks a TOTP code or consumes a recovery code
+ *
+ * Each TOTP code is accepted once: the time step of the last accepted code is
+ * stored on the user and codes for that or an earlier step are rejected.
+ *
+ * MFA is required for users whose root or primary organization sets
+ * settings.features.mfaRequired; such users enrol during login before any
+ * tokens are issued.
+ */
+
+import { type OrganizationId, type UserId } from '@argus/shared';
+import { withTransaction } from '../repositories/base.repository.js';
+import {
+  getUserRepository,
+  type User,
+  type UserRepository,
+} from '../repositories/user.repository.js';
+import {
+  getMfaRecoveryCodeRepository,
+  type MfaRecoveryCodeRepository,
+} from '../repositories/mfa-recovery-code.repository.js';
+import {
+  getOrganizationRepository,
+  type OrganizationRepository,
+} from '../repositories/organization.repository.js';
+import { buildOtpauthUri, findTotpStep, generateTotpSecret } from '../utils/totp.js';
+
+export const DEFAULT_MFA_ISSUER = 'ArgusIQ';
+
+/** Secret and key URI for a pending enrolment */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/** A user's MFA state */
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/** Second factor submitted to complete a login */
+export interface MfaCredential {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
+/**
+ * MFA Service class
+ */
+export class MfaService {
+  constructor(
+    private userRepo: UserRepository = getUserRepository(),
+    private recoveryCodeRepo: MfaRecoveryCodeRepository = getMfaRecoveryCodeRepository(),
+    private orgRepo: OrganizationRepository = getOrganizationRepository(),
+    private issuer: string = process.env.MFA_ISSUER ?? DEFAULT_MFA_ISSUER,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Whether the user's root or primary organization requires MFA
+   */
+  async isRequired(user: Pick<User, 'rootOrganizationId' | 'primaryOrganizationId'>): Promise<boolean> {
+    const organizationIds = new Set([user.rootOrganizationId, user.primaryOrganizationId]);
+    for (const organizationId of organizationIds) {
+      const organization = await this.orgRepo.findById(organizationId as OrganizationId);
+      if (organization?.settings?.features?.mfaRequired) return true;
+    }
+    return false;
+  }
+
+  /**
+   * MFA state for the security settings page
+   */
+  async getStatus(user: User): Promise<MfaStatus> {
+    const [required, recoveryCodesRemaining] = await Promise.all([
+      this.isRequired(user),
+      user.mfaEnabled ? this.recoveryCodeRepo.countRemaining(user.id as UserId) : Promise.resolve(0),
+    ]);
+    return { enabled: user.mfaEnabled, required, recoveryCodesRemaining };
+  }
+
+  /**
+   * Starts enrolment by storing a new secret
+   * Restarting replaces any pending secret. Returns null if MFA is already enabled.
+   */
+  async beginEnrollment(user: User): Promise<MfaEnrollment | null> {
+    if (user.mfaEnabled) return null;
+
+    const secret = generateTotpSecret();
+    await this.userRepo.update(user.id as UserId, { mfaSecret: secret, mfaEnabled: false });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({ secret, accountName: user.email, issuer: this.issuer }),
+    };
+  }
+
+  /**
+   * Completes enrolment with the first code from the authenticator
+   * Returns the recovery codes, or null if there is no pending enrolment or the code is wrong
+   */
+  async confirmEnrollment(user: User, code: string): Promise<string[] | null> {
+    if (user.mfaEnabled || !user.mfaSecret) return null;
+    const step = findTotpStep(user.mfaSecret, code, { now: this.now(), afterStep: user.mfaLastUsedStep });
+    if (step === null) return null;
+
+    const userId = user.id as UserId;
+    return withTransaction(async (trx) => {
+      if (!(await this.userRepo.claimMfaStep(userId, step, trx))) return null;
+      await this.userRepo.update(userId, { mfaEnabled: true }, trx);
+      return this.recoveryCodeRepo.replaceAll(userId, trx);
+    });
+  }
+
+  /**
+   * Checks a second factor for an MFA-enabled user
+   * Recovery codes are consumed and TOTP codes cannot be reused. Returns the
+   * method used, or null if invalid.
+   */
+  async verify(user: User, credential: MfaCredential): Promise<MfaMethod | null> {
+    if (!user.mfaEnabled || !user.mfaSecret) return null;
+
+    if (credential.code !== undefined) {
+      const step = findTotpStep(user.mfaSecret, credential.code, {
+        now: this.now(),
+        afterStep: user.mfaLastUsedStep,
+      });
+      if (step === null) return null;
+      return (await this.userRepo.claimMfaStep(user.id as UserId, step)) ? 'totp' : null;
+    }
+    if (credential.recoveryCode !== undefined) {
+      const consumed = await this.recoveryCodeRepo.consume(user.id as UserId, credential.recoveryCode);
+      return consumed ? 'recovery_code' : null;
+    }
+    return null;
+  }
+
+  /**
+   * Replaces the user's recovery codes
+   */
+  async regenerateRecoveryCodes(userId: UserId): Promise<string[]> {
+    return this.recoveryCodeRepo.replaceAll(userId);
+  }
+
+  /**
+   * Turns MFA off and removes the secret and recovery codes
+   * Used when a user disables MFA and for admin resets
+   */
+  async disable(userId: UserId): Promise<void> {
+    await withTransaction(async (trx) => {
+      await this.userRepo.update(userId, { mfaEnabled: false, mfaSecret: null }, trx);
+      await this.recoveryCodeRepo.deleteAll(userId, trx);
+    });
+  }
+}
+
+// Singleton instance
+let mfaService: MfaService | null = null;
+
+export function getMfaService(): MfaService {
+  if (!mfaService) {
+    mfaService = new MfaService();
+  }
+  return mfaService;
+}
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the password policy service
+ * Tests policy resolution from platform settings, password rules, reuse,
+ * expiry and account lockout
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockTrx = {};
+
+vi.mock('../repositories/base.repository.js', async () => {
+  const actual = await vi.importActual('../repositories/base.repository.js');
+  return {
+    ...actual,
+    withTransaction: vi.fn((fn) => fn(mockTrx)),
+  };
+});
+
+vi.mock('../utils/password.js', () => ({
+  hashPassword: vi.fn(async (password: string) => `hash:${password}`),
+  verifyPassword: vi.fn(async (hash: string, password: string) => hash === `hash:${password}`),
+}));
+
+const {
+  PasswordPolicyService,
+  DEFAULT_PASSWORD_POLICY,
+  accountLockedMessage,
+  checkPasswordRules,
+  resolvePasswordPolicy,
+} = await import('./password-policy.service.js');
+import type { UserId } from '@argus/shared';
+import type { LockoutNotifier } from './password-policy.service.js';
+import type {
+  PasswordHistoryRepository,
+  PlatformSettingsRepository,
+  UserRepository,
+} from '../repositories/index.js';
+
+const USER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7' as UserId;
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+describe('resolvePasswordPolicy', () => {
+  it('should use defaults for unset or invalid settings', () => {
+    expect(resolvePasswordPolicy({})).toEqual(DEFAULT_PASSWORD_POLICY);
+    expect(resolvePasswordPolicy({ 'security.password_min_length': 'abc' }).minLength).toBe(8);
+  });
+
+  it('should read the configured settings', () => {
+    const policy = resolvePasswordPolicy({
+      'security.password_min_length': 12,
+      'security.password_min_special_chars': 2,
+      'security.password_expiration_days': '90',
+      'security.max_failed_login_attempts': 3,
+      'security.password_allow_whitespace': true,
+    });
+
+    expect(policy).toMatchObject({
+      minLength: 12,
+      minSpecialChars: 2,
+      expirationDays: 90,
+      maxFailedLoginAttempts: 3,
+      allowWhitespace: true,
+    });
+  });
+
+  it('should prefer explicit minimum counts over the legacy require flags', () => {
+    expect(resolvePasswordPolicy({ 'security.password_require_special': true }).minSpecialChars).toBe(1);
+    expect(resolvePasswordPolicy({ 'security.password_require_uppercase': false }).minUppercase).toBe(0);
+    expect(
+      resolvePasswordPolicy({
+        'security.password_require_uppercase': false,
+        'security.password_min_uppercase': 2,
+      }).minUppercase
+    ).toBe(2);
+  });
+});
+
+describe('checkPasswordRules', () => {
+  const policy = { ...DEFAULT_PASSWORD_POLICY, minSpecialChars: 2, minDigits: 2 };
+
+  it('should accept passwords meeting every rule', () => {
+    expect(checkPasswordRules('Corr3ct-H0rse!', policy)).toEqual([]);
+  });
+
+  it('should report each violated rule', () => {
+    expect(checkPasswordRules('abc d', policy)).toEqual([
+      'Password must be at least 8 characters',
+      'Password must contain at least one uppercase letter',
+      'Password must contain at least 2 numbers',
+      'Password must contain at least 2 special characters',
+      'Password must not contain spaces',
+    ]);
+    expect(checkPasswordRules('aA1!'.repeat(40), policy)).toEqual(['Password must be at most 128 characters']);
+  });
+});
+
+describe('accountLockedMessage', () => {
+  it('should round the remaining lock up to whole minutes', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    expect(accountLockedMessage(new Date('2026-03-01T12:00:20Z'), now)).toContain('Try again in 1 minute.');
+    expect(accountLockedMessage(new Date('2026-03-01T12:29:30Z'), now)).toContain('Try again in 30 minutes.');
+  });
+});
+
+describe('PasswordPolicyService', () => {
+  let settings: { key: string; value: unknown }[];
+  let userRepo: {
+    updatePassword: ReturnType<typeof vi.fn>;
+    recordFailedLogin: ReturnType<typeof vi.fn>;
+    resetFailedLogins: ReturnType<typeof vi.fn>;
+  };
+  let historyRepo: { add: ReturnType<typeof vi.fn>; findSince: ReturnType<typeof vi.fn> };
+  let notifyLockout: ReturnType<typeof vi.fn<LockoutNotifier>>;
+  let service: InstanceType<typeof PasswordPolicyService>;
+
+  beforeEach(() => {
+    settings = [];
+    userRepo = {
+      updatePassword: vi.fn().mockResolvedValue(true),
+      recordFailedLogin: vi.fn().mockResolvedValue(null),
+      resetFailedLogins: vi.fn().mockResolvedValue(true),
+    };
+    historyRepo = { add: vi.fn(), findSince: vi.fn().mockResolvedValue([]) };
+    notifyLockout = vi.fn<LockoutNotifier>().mockResolvedValue(undefined);
+    service = new PasswordPolicyService(
+      { getAllSettings: async () => settings } as unknown as PlatformSettingsRepository,
+      userRepo as unknown as UserRepository,
+      historyRepo as unknown as PasswordHistoryRepository,
+      notifyLockout,
+      () => NOW
+    );
+  });
+
+  it('should block passwords used within the reuse window', async () => {
+    settings = [{ key: 'security.password_reuse_frequency_days', value: 30 }];
+    historyRepo.findSince.mockResolvedValue([{ passwordHash: 'hash:Old-Passw0rd' }]);
+
+    expect(await service.validateNewPassword('Old-Passw0rd', USER_ID)).toEqual([
+      'Password was used in the last 30 days; choose a different password',
+    ]);
+    expect(historyRepo.findSince).toHaveBeenCalledWith(USER_ID, daysAgo(30));
+    expect(await service.validateNewPassword('New-Passw0rd', USER_ID)).toEqual([]);
+  });
+
+  it('should not check history when reuse is allowed', async () => {
+    expect(await service.validateNewPassword('Old-Passw0rd', USER_ID)).toEqual([]);
+    expect(historyRepo.findSince).not.toHaveBeenCalled();
+  });
+
+  it('should update the password and record it in the history', async () => {
+    await service.setPassword(USER_ID, 'New-Passw0rd');
+
+    expect(userRepo.updatePassword).toHaveBeenCalledWith(USER_ID, 'hash:New-Passw0rd', mockTrx);
+    expect(historyRepo.add).toHaveBeenCalledWith(USER_ID, 'hash:New-Passw0rd', mockTrx);
+  });
+
+  it('should require a reset for expired or non-compliant passwords', () => {
+    const policy = { ...DEFAULT_PASSWORD_POLICY, expirationDays: 90 };
+
+    expect(service.getResetReason({ passwordChangedAt: daysAgo(89) }, 'Valid-Passw0rd', policy)).toBeNull();
+    expect(service.getResetReason({ passwordChangedAt: daysAgo(90) }, 'Valid-Passw0rd', policy)).toBe('expired');
+    expect(service.getResetReason({ passwordChangedAt: daysAgo(1) }, 'weak', policy)).toBeNull();
+    expect(
+      service.getResetReason({ passwordChangedAt: daysAgo(1) }, 'weak', { ...policy, forceResetIfInvalid: true })
+    ).toBe('policy');
+  });
+
+  it('should lock the account and notify when the attempt limit is reached', async () => {
+    const lockedUntil = new Date(NOW.getTime() + 30 * 60000);
+    userRepo.recordFailedLogin.mockResolvedValue(lockedUntil);
+    settings = [{ key: 'security.lockout_notification_email', value: 'security@example.com' }];
+    const user = { id: USER_ID, email: 'jane@example.com', primaryOrganizationId: ORG_ID };
+
+    expect(await service.recordFailedLogin(user, DEFAULT_PASSWORD_POLICY)).toBe(lockedUntil);
+    expect(userRepo.recordFailedLogin).toHaveBeenCalledWith(USER_ID, 5, 30);
+    expect(notifyLockout).toHaveBeenCalledWith({
+      userId: USER_ID,
+      email: 'jane@example.com',
+      organizationId: ORG_ID,
+      lockedUntil,
+      failedAttempts: 5,
+      notificationEmail: 'security@example.com',
+    });
+  });
+
+  it('should not count failures when lockout is disabled', async () => {
+    const policy = { ...DEFAULT_PASSWORD_POLICY, maxFailedLoginAttempts: 0 };
+
+    const user = { id: USER_ID, email: 'jane@example.com', primaryOrganizationId: ORG_ID };
+
+    expect(await service.recordFailedLogin(user, policy)).toBeNull();
+    expect(userRepo.recordFailedLogin).not.toHaveBeenCalled();
+  });
+
+  it('should report active locks only', () => {
+    expect(service.getLockedUntil({ lockedUntil: new Date(NOW.getTime() + 1000) })).not.toBeNull();
+    expect(service.getLockedUntil({ lockedUntil: new Date(NOW.getTime() - 1000) })).toBeNull();
+    expect(service.getLockedUntil({ lockedUntil: null })).toBeNull();
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * Password Policy Service
+ *
+ * Enforces the password and lockout policy super admins configure in platform
+ * settings (security.password_* keys, see PLATFORM_SETTING_KEYS):
+ *
+ *   - new passwords are checked for length and character classes, and against
+ *     the user's password history for the reuse window
+ *   - passwords older than the expiration period must be reset at login
+ *   - failed logins are counted per user; reaching the limit locks the account
+ *     for the lockout duration and sends the lockout notification
+ *
+ * Explicit minimum counts take precedence over the older
+ * security.password_require_* flags, which only imply "at least one".
+ */
+
+import {
+  type OrganizationId,
+  type PasswordPolicy,
+  type PasswordResetReason,
+  type UserId,
+} from '@argus/shared';
+import { PLATFORM_SETTING_KEYS } from '../db/schema/index.js';
+import { withTransaction } from '../repositories/base.repository.js';
+import {
+  getUserRepository,
+  type User,
+  type UserRepository,
+} from '../repositories/user.repository.js';
+import {
+  getPasswordHistoryRepository,
+  type PasswordHistoryRepository,
+} from '../repositories/password-history.repository.js';
+import {
+  platformSettingsRepository,
+  type PlatformSettingsRepository,
+} from '../repositories/platform-settings.repository.js';
+import { hashPassword, verifyPassword } from '../utils/password.js';
+import { auditService } from './audit.service.js';
+import { getMailService } from './mail.service.js';
+
+/** Applied when a setting has not been configured */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  minUppercase: 1,
+  minLowercase: 1,
+  minDigits: 1,
+  minSpecialChars: 0,
+  allowWhitespace: false,
+  expirationDays: 0,
+  reuseFrequencyDays: 0,
+  forceResetIfInvalid: false,
+  maxFailedLoginAttempts: 5,
+  lockoutDurationMinutes: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Account lock raised by too many failed logins */
+export interface AccountLockedEvent {
+  userId: UserId;
+  email: string;
+  /** The user's primary organization, whose branding the notice uses */
+  organizationId: OrganizationId;
+  lockedUntil: Date;
+  failedAttempts: number;
+  /** security.lockout_notification_email, if configured */
+  notificationEmail: string | null;
+}
+
+/** Delivers the lockout notification */
+export type LockoutNotifier = (event: AccountLockedEvent) => Promise<void>;
+
+/**
+ * Records the lockout in the audit log, including the address to notify
+ */
+export const auditLockoutNotifier: LockoutNotifier = async (event) => {
+  await auditService.logAuth('account_locked', {
+    userId: event.userId,
+    userEmail: event.email,
+    outcome: 'failure',
+    details: {
+      lockedUntil: event.lockedUntil.toISOString(),
+      failedAttempts: event.failedAttempts,
+      notificationEmail: event.notificationEmail,
+    },
+  });
+};
+
+/**
+ * Records the lockout in the audit log and emails the account holder and the
+ * lockout notification address
+ */
+export const defaultLockoutNotifier: LockoutNotifier = async (event) => {
+  await auditLockoutNotifier(event);
+  await getMailService().sendAccountLocked(event);
+};
+
+function numberSetting(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0
+    ? Math.floor(parsed)
+    : undefined;
+}
+
+function booleanSetting(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Builds the effective policy from stored platform setting values (by key)
+ * Missing or invalid values fall back to the default
+ */
+export function resolvePasswordPolicy(settings: Record<string, unknown>): PasswordPolicy {
+  const keys = PLATFORM_SETTING_KEYS;
+  const defaults = DEFAULT_PASSWORD_POLICY;
+
+  // Explicit count, else legacy require flag, else default
+  const minCount = (countKey: string, requireKey: string | null, fallback: number): number => {
+    const count = numberSetting(settings[countKey]);
+    if (count !== undefined) return count;
+    const required = requireKey ? booleanSetting(settings[requireKey]) : undefined;
+    if (required !== undefined) return required ? 1 : 0;
+    return fallback;
+  };
+
+  const minLength = Math.max(1, numberSetting(settings[keys.PASSWORD_MIN_LENGTH]) ?? defaults.minLength);
+  return {
+    minLength,
+    maxLength: Math.max(minLength, numberSetting(settings[keys.PASSWORD_MAX_LENGTH]) ?? defaults.maxLength),
+    minUppercase: minCount(keys.PASSWORD_MIN_UPPERCASE, keys.PASSWORD_REQUIRE_UPPERCASE, defaults.minUppercase),
+    minLowercase: minCount(keys.PASSWORD_MIN_LOWERCASE, null, defaults.minLowercase),
+    minDigits: minCount(keys.PASSWORD_MIN_DIGITS, keys.PASSWORD_REQUIRE_NUMBER, defaults.minDigits),
+    minSpecialChars: minCount(keys.PASSWORD_MIN_SPECIAL_CHARS, keys.PASSWORD_REQUIRE_SPECIAL, defaults.minSpecialChars),
+    allowWhitespace: booleanSetting(settings[keys.PASSWORD_ALLOW_WHITESPACE]) ?? defaults.allowWhitespace,
+    expirationDays: numberSetting(settings[keys.PASSWORD_EXPIRATION_DAYS]) ?? defaults.expirationDays,
+    reuseFrequencyDays: numberSetting(settings[keys.PASSWORD_REUSE_FREQUENCY_DAYS]) ?? defaults.reuseFrequencyDays,
+    forceResetIfInvalid: booleanSetting(settings[keys.FORCE_RESET_IF_INVALID]) ?? defaults.forceResetIfInvalid,
+    maxFailedLoginAttempts:
+      numberSetting(settings[keys.MAX_FAILED_LOGIN_ATTEMPTS]) ?? defaults.maxFailedLoginAttempts,
+    lockoutDurationMinutes: Math.max(
+      1,
+      numberSetting(settings[keys.LOCKOUT_DURATION_MINUTES]) ?? defaults.lockoutDurationMinutes
+    ),
+  };
+}
+
+function countOf(count: number, singular: string, plural: string): string {
+  return count === 1 ? `one ${singular}` : `${count} ${plural}`;
+}
+
+/**
+ * Checks a password against the policy's length and character rules
+ * Returns one message per violated rule (empty when the password is valid)
+ */
+export function checkPasswordRules(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = [];
+  const length = [...password].length;
+  const matches = (pattern: RegExp) => password.match(pattern)?.length ?? 0;
+
+  if (length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (length > policy.maxLength) {
+    violations.push(`Password must be at most ${policy.maxLength} characters`);
+  }
+  if (matches(/\p{Lu}/gu) < policy.minUppercase) {
+    violations.push(
+      `Password must contain at least ${countOf(policy.minUppercase, 'uppercase letter', 'uppercase letters')}`
+    );
+  }
+  if (matches(/\p{Ll}/gu) < policy.minLowercase) {
+    violations.push(
+      `Password must contain at least ${countOf(policy.minLowercase, 'lowercase letter', 'lowercase letters')}`
+    );
+  }
+  if (matches(/\p{Nd}/gu) < policy.minDigits) {
+    violations.push(`Password must contain at least ${countOf(policy.minDigits, 'number', 'numbers')}`);
+  }
+  if (matches(/[^\p{L}\p{N}\s]/gu) < policy.minSpecialChars) {
+    violations.push(
+      `Password must contain at least ${countOf(policy.minSpecialChars, 'special character', 'special characters')}`
+    );
+  }
+  if (!policy.allowWhitespace && /\s/u.test(password)) {
+    violations.push('Password must not contain spaces');
+  }
+
+  return violations;
+}
+
+/**
+ * Message for sign-in attempts (password or second factor) on a locked account
+ */
+export function accountLockedMessage(lockedUntil: Date, now: Date = new Date()): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return `Account is temporarily locked due to too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
+/**
+ * Password Policy Service class
+ */
+export class PasswordPolicyService {
+  constructor(
+    private settingsRepo: Pick<PlatformSettingsRepository, 'getAllSettings'> = platformSettingsRepository,
+    private userRepo: UserRepository = getUserRepository(),
+    private historyRepo: PasswordHistoryRepository = getPasswordHistoryRepository(),
+    private notifyLockout: LockoutNotifier = defaultLockoutNotifier,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Current policy from platform settings
+   */
+  async getPolicy(): Promise<PasswordPolicy> {
+    const settings = await this.settingsRepo.getAllSettings();
+    return resolvePasswordPolicy(Object.fromEntries(settings.map((s) => [s.key, s.value])));
+  }
+
+  /**
+   * Checks a new password against the policy and, for existing users, the
+   * reuse window. Returns the violations (empty when it may be used).
+   */
+  async validateNewPassword(password: string, userId?: UserId): Promise<string[]> {
+    const policy = await this.getPolicy();
+    const violations = checkPasswordRules(password, policy);
+
+    if (userId && policy.reuseFrequencyDays > 0 && violations.length === 0) {
+      const since = new Date(this.now().getTime() - policy.reuseFrequencyDays * DAY_MS);
+      const history = await this.historyRepo.findSince(userId, since);
+      for (const entry of history) {
+        if (await verifyPassword(entry.passwordHash, password)) {
+          violations.push(
+            `Password was used in the last ${policy.reuseFrequencyDays} days; choose a different password`
+          );
+          break;
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Sets a user's password: updates the hash, restarts its age, clears any
+   * lockout and records it in the history
+   */
+  async setPassword(userId: UserId, password: string): Promise<void> {
+    const passwordHash = await hashPassword(password);
+    await withTransaction(async (trx) => {
+      await this.userRepo.updatePassword(userId, passwordHash, trx);
+      await this.historyRepo.add(userId, passwordHash, trx);
+    });
+  }
+
+  /**
+   * Records the password of a newly created user in the history
+   */
+  async recordInitialPassword(userId: UserId, passwordHash: string): Promise<void> {
+    await this.historyRepo.add(userId, passwordHash);
+  }
+
+  /**
+   * When the account is locked, the time the lock ends
+   */
+  getLockedUntil(user: Pick<User, 'lockedUntil'>): Date | null {
+    return user.lockedUntil && user.lockedUntil > this.now() ? user.lockedUntil : null;
+  }
+
+  /**
+   * Counts a failed login; locks the account and sends the lockout
+   * notification when the limit is reached. Returns the lock expiry if locked.
+   */
+  async recordFailedLogin(
+    user: Pick<User, 'id' | 'email' | 'primaryOrganizationId'>,
+    policy: PasswordPolicy
+  ): Promise<Date | null> {
+    if (policy.maxFailedLoginAttempts === 0) return null;
+
+    const userId = user.id as UserId;
+    const lockedUntil = await this.userRepo.recordFailedLogin(
+      userId,
+      policy.maxFailedLoginAttempts,
+      policy.lockoutDurationMinutes
+    );
+    if (!lockedUntil) return null;
+
+    const settings = await this.settingsRepo.getAllSettings();
+    const notificationEmail = settings.find(
+      (s) => s.key === PLATFORM_SETTING_KEYS.LOCKOUT_NOTIFICATION_EMAIL
+    )?.value;
+
+    try {
+      await this.notifyLockout({
+        userId,
+        email: user.email,
+        organizationId: user.primaryOrganizationId as OrganizationId,
+        lockedUntil,
+        failedAttempts: policy.maxFailedLoginAttempts,
+        notificationEmail: typeof notificationEmail === 'string' && notificationEmail ? notificationEmail : null,
+      });
+    } catch (error) {
+      // A failed notification must not hide the lockout from the caller
+      console.error('Failed to send lockout notification:', error);
+    }
+    return lockedUntil;
+  }
+
+  /**
+   * Clears failed attempts after a successful password check
+   */
+  async recordSuccessfulLogin(user: Pick<User, 'id' | 'failedLoginAttempts' | 'lockedUntil'>): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.userRepo.resetFailedLogins(user.id as UserId);
+    }
+  }
+
+  /**
+   * Why the user must set a new password before signing in, if they must
+   * @param password - The (verified) password used to sign in
+   */
+  getResetReason(
+    user: Pick<User, 'passwordChangedAt'>,
+    password: string,
+    policy: PasswordPolicy
+  ): PasswordResetReason | null {
+    if (
+      policy.expirationDays > 0 &&
+      this.now().getTime() - user.passwordChangedAt.getTime() >= policy.expirationDays * DAY_MS
+    ) {
+      return 'expired';
+    }
+    if (policy.forceResetIfInvalid && checkPasswordRules(password, policy).length > 0) {
+      return 'policy';
+    }
+    return null;
+  }
+}
+
+// Singleton instance
+let passwordPolicyService: PasswordPolicyService | null = null;
+
+export function getPasswordPolicyService(): PasswordPolicyService {
+  if (!passwordPolicyService) {
+    passwordPolicyService = new PasswordPolicyService();
+  }
+  return passwordPolicyService;
+}
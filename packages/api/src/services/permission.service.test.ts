@@ -0,0 +1,156 @@
+/**
+ * Permission service tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId, UserId } from '@argus/shared';
+import {
+  PermissionService,
+  isActionAllowed,
+  mergeRolePermissions,
+  type PermissionCache,
+} from './permission.service.js';
+import type { EffectiveRoleGrant, RoleRepository } from '../repositories/role.repository.js';
+import type { UserOrganizationRepository } from '../repositories/user-organization.repository.js';
+
+const USER_ID = '6f1c2a3b-4d5e-4f60-8a1b-2c3d4e5f6a7b' as UserId;
+const ORG_ID = '0b1c2d3e-4f5a-4b6c-9d7e-8f9a0b1c2d3e' as OrganizationId;
+const PARENT_ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+
+function grant(overrides: Partial<EffectiveRoleGrant>): EffectiveRoleGrant {
+  return {
+    roleId: '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e',
+    roleName: 'Member',
+    permissions: { resources: [], menuAccess: [] },
+    source: 'membership',
+    organizationId: ORG_ID,
+    scope: 'organization',
+    ...overrides,
+  };
+}
+
+function memoryCache(): PermissionCache & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    setex: vi.fn(async (key: string, _seconds: number, value: string) => {
+      store.set(key, value);
+    }),
+    incr: vi.fn(async (key: string) => {
+      const next = Number(store.get(key) ?? '0') + 1;
+      store.set(key, String(next));
+      return next;
+    }),
+  };
+}
+
+describe('mergeRolePermissions', () => {
+  it('should union actions per resource and menu access across roles', () => {
+    const merged = mergeRolePermissions([
+      grant({
+        permissions: {
+          resources: [{ resource: 'devices', actions: ['read'] }],
+          menuAccess: ['dashboard'],
+        },
+      }),
+      grant({
+        source: 'group',
+        permissions: {
+          resources: [
+            { resource: 'devices', actions: ['update', 'read'] },
+            { resource: 'assets', actions: ['read'] },
+          ],
+          menuAccess: ['devices', 'dashboard'],
+        },
+      }),
+      grant({ permissions: null }),
+    ]);
+
+    expect(merged).toEqual({
+      permissions: { devices: ['read', 'update'], assets: ['read'] },
+      menuAccess: ['dashboard', 'devices'],
+    });
+  });
+});
+
+describe('isActionAllowed', () => {
+  it('should match the resource or the wildcard resource', () => {
+    const effective = { isSuperAdmin: false, permissions: { devices: ['read' as const], '*': ['read' as const] } };
+
+    expect(isActionAllowed(effective, 'devices', 'read')).toBe(true);
+    expect(isActionAllowed(effective, 'assets', 'read')).toBe(true);
+    expect(isActionAllowed(effective, 'devices', 'delete')).toBe(false);
+  });
+
+  it('should allow everything for super admins', () => {
+    expect(isActionAllowed({ isSuperAdmin: true, permissions: {} }, 'types', 'delete')).toBe(true);
+  });
+});
+
+describe('PermissionService', () => {
+  let roleRepo: { findEffectiveGrants: ReturnType<typeof vi.fn> };
+  let memberRepo: { isSuperAdmin: ReturnType<typeof vi.fn> };
+  let cache: ReturnType<typeof memoryCache>;
+  let service: PermissionService;
+
+  beforeEach(() => {
+    roleRepo = {
+      findEffectiveGrants: vi.fn().mockResolvedValue([
+        grant({
+          roleName: 'Device Operators',
+          source: 'direct',
+          organizationId: PARENT_ORG_ID,
+          scope: 'children',
+          permissions: { resources: [{ resource: 'devices', actions: ['read', 'update'] }] },
+        }),
+      ]),
+    };
+    memberRepo = { isSuperAdmin: vi.fn().mockResolvedValue(false) };
+    cache = memoryCache();
+    service = new PermissionService(
+      roleRepo as unknown as RoleRepository,
+      memberRepo as unknown as UserOrganizationRepository,
+      () => cache
+    );
+  });
+
+  it('should resolve effective permissions and the roles granting them', async () => {
+    const effective = await service.getEffectivePermissions(USER_ID, ORG_ID);
+
+    expect(roleRepo.findEffectiveGrants).toHaveBeenCalledWith(USER_ID, ORG_ID);
+    expect(effective).toEqual({
+      organizationId: ORG_ID,
+      isSuperAdmin: false,
+      permissions: { devices: ['read', 'update'] },
+      menuAccess: [],
+      roles: [
+        {
+          roleId: '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e',
+          roleName: 'Device Operators',
+          source: 'direct',
+          scope: 'children',
+          organizationId: PARENT_ORG_ID,
+        },
+      ],
+    });
+  });
+
+  it('should check permissions from the cache until invalidated', async () => {
+    expect(await service.hasPermission(USER_ID, ORG_ID, 'devices', 'update')).toBe(true);
+    expect(await service.hasPermission(USER_ID, ORG_ID, 'devices', 'delete')).toBe(false);
+    expect(roleRepo.findEffectiveGrants).toHaveBeenCalledTimes(1);
+
+    await service.invalidate();
+    await service.hasPermission(USER_ID, ORG_ID, 'devices', 'read');
+    expect(roleRepo.findEffectiveGrants).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the database when the cache fails', async () => {
+    vi.mocked(cache.get).mockRejectedValue(new Error('connection refused'));
+    vi.mocked(cache.setex).mockRejectedValue(new Error('connection refused'));
+
+    expect(await service.hasPermission(USER_ID, ORG_ID, 'devices', 'read')).toBe(true);
+    await expect(service.invalidate()).resolves.toBeUndefined();
+  });
+});
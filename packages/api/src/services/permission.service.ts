@@ -0,0 +1,197 @@
+/**
+ * Permission Service
+ *
+ * Resolves a user's effective role permissions in an organization and checks
+ * them for route authorization (see plugins/permissions.ts).
+ *
+ * Effective permissions are the union of every role that applies in the
+ * organization (membership, direct, group and ancestor-scoped assignments -
+ * see RoleRepository.findEffectiveGrants). Super admins are allowed everything.
+ *
+ * Results are cached in Valkey under a permission generation; any change to
+ * roles, assignments, group or organization membership bumps the generation,
+ * invalidating every cached entry. The cache is an optimisation only: when
+ * Valkey is unavailable permissions are resolved from Postgres.
+ */
+
+import {
+  cacheKeys,
+  cacheTTL,
+  createCacheClient,
+  type EffectivePermissionsResponse,
+  type OrganizationId,
+  type PermissionAction,
+  type UserId,
+} from '@argus/shared';
+import {
+  getRoleRepository,
+  type EffectiveRoleGrant,
+  type RoleRepository,
+} from '../repositories/role.repository.js';
+import {
+  getUserOrganizationRepository,
+  type UserOrganizationRepository,
+} from '../repositories/user-organization.repository.js';
+
+export type EffectivePermissions = EffectivePermissionsResponse;
+
+/** Subset of the Valkey client used for permission caching */
+export interface PermissionCache {
+  get(key: string): Promise<string | null>;
+  setex(key: string, seconds: number, value: string): Promise<unknown>;
+  incr(key: string): Promise<number>;
+}
+
+/** Matches every resource in ResourcePermission.resource */
+export const ALL_RESOURCES = '*';
+
+const ALL_ACTIONS: PermissionAction[] = ['create', 'read', 'update', 'delete'];
+
+/**
+ * Merges the permissions of the applicable roles (union of actions per resource)
+ */
+export function mergeRolePermissions(
+  grants: EffectiveRoleGrant[]
+): Pick<EffectivePermissions, 'permissions' | 'menuAccess'> {
+  const permissions: Record<string, Set<PermissionAction>> = {};
+  const menuAccess = new Set<string>();
+
+  for (const grant of grants) {
+    for (const entry of grant.permissions?.resources ?? []) {
+      const actions = (permissions[entry.resource] ??= new Set());
+      for (const action of entry.actions) actions.add(action);
+    }
+    for (const item of grant.permissions?.menuAccess ?? []) menuAccess.add(item);
+  }
+
+  return {
+    permissions: Object.fromEntries(
+      Object.entries(permissions).map(([resource, actions]) => [
+        resource,
+        ALL_ACTIONS.filter((action) => actions.has(action)),
+      ])
+    ),
+    menuAccess: [...menuAccess].sort(),
+  };
+}
+
+/**
+ * Whether effective permissions allow an action on a resource
+ */
+export function isActionAllowed(
+  effective: Pick<EffectivePermissions, 'isSuperAdmin' | 'permissions'>,
+  resource: string,
+  action: PermissionAction
+): boolean {
+  if (effective.isSuperAdmin) return true;
+  return (
+    (effective.permissions[resource]?.includes(action) ?? false) ||
+    (effective.permissions[ALL_RESOURCES]?.includes(action) ?? false)
+  );
+}
+
+function defaultCache(): PermissionCache | null {
+  try {
+    return createCacheClient();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Permission Service class
+ */
+export class PermissionService {
+  constructor(
+    private roleRepo: RoleRepository = getRoleRepository(),
+    private memberRepo: UserOrganizationRepository = getUserOrganizationRepository(),
+    private getCache: () => PermissionCache | null = defaultCache,
+    private ttlSeconds: number = cacheTTL.medium
+  ) {}
+
+  /**
+   * Effective permissions of a user in an organization
+   */
+  async getEffectivePermissions(userId: UserId, organizationId: OrganizationId): Promise<EffectivePermissions> {
+    const cache = this.getCache();
+    const generation = cache ? await this.cacheGet(cache, cacheKeys.permissionsGeneration()) : null;
+    const key = cacheKeys.permissions(organizationId, userId, generation ?? '0');
+
+    if (cache) {
+      const cached = await this.cacheGet(cache, key);
+      if (cached) return JSON.parse(cached) as EffectivePermissions;
+    }
+
+    const [isSuperAdmin, grants] = await Promise.all([
+      this.memberRepo.isSuperAdmin(userId),
+      this.roleRepo.findEffectiveGrants(userId, organizationId),
+    ]);
+
+    const effective: EffectivePermissions = {
+      organizationId,
+      isSuperAdmin,
+      ...mergeRolePermissions(grants),
+      roles: grants.map(({ roleId, roleName, source, scope, organizationId: assignedIn }) => ({
+        roleId,
+        roleName,
+        source,
+        scope,
+        organizationId: assignedIn,
+      })),
+    };
+
+    if (cache) {
+      try {
+        await cache.setex(key, this.ttlSeconds, JSON.stringify(effective));
+      } catch {
+        // Ignore: the next check repopulates
+      }
+    }
+    return effective;
+  }
+
+  /**
+   * Whether a user may perform an action on a resource in an organization
+   */
+  async hasPermission(
+    userId: UserId,
+    organizationId: OrganizationId,
+    resource: string,
+    action: PermissionAction
+  ): Promise<boolean> {
+    const effective = await this.getEffectivePermissions(userId, organizationId);
+    return isActionAllowed(effective, resource, action);
+  }
+
+  /**
+   * Invalidates all cached permissions
+   * Call after changing roles, role assignments, group or organization membership
+   */
+  async invalidate(): Promise<void> {
+    const cache = this.getCache();
+    if (!cache) return;
+    try {
+      await cache.incr(cacheKeys.permissionsGeneration());
+    } catch {
+      // Cached entries expire after the TTL
+    }
+  }
+
+  private async cacheGet(cache: PermissionCache, key: string): Promise<string | null> {
+    try {
+      return await cache.get(key);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+let permissionService: PermissionService | null = null;
+
+export function getPermissionService(): PermissionService {
+  if (!permissionService) {
+    permissionService = new PermissionService();
+  }
+  return permissionService;
+}
@@ -0,0 +1,340 @@
+/**
+ * Unit tests for the relationship service
+ * Tests per-type validation, single-target overlaps, cycle detection and
+ * bounded traversals over an in-memory edge list
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SystemEventType, type OrganizationId } from '@argus/shared';
+import { RelationshipService, validateRelationshipTypes } from './relationship.service.js';
+import type { EdgeQuery, EntityEdge, RelationshipRepository } from '../repositories/relationship.repository.js';
+import type { SystemEventRepository } from '../repositories/system-event.repository.js';
+
+const ORG_ID = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d' as OrganizationId;
+const TRANSFORMER_ID = '1b2c3d4e-5f6a-4b7c-9d8e-9f0a1b2c3d4e';
+const PANEL_ID = '2c3d4e5f-6a7b-4c8d-8e9f-0a1b2c3d4e5f';
+const PUMP_ID = '3d4e5f6a-7b8c-4d9e-9f0a-1b2c3d4e5f6a';
+const SENSOR_ID = '4e5f6a7b-8c9d-4e0f-8a1b-2c3d4e5f6a7b';
+const ROOM_ID = '5f6a7b8c-9d0e-4f1a-9b2c-3d4e5f6a7b8c';
+
+let edgeCounter = 0;
+
+function createEdge(overrides: Partial<EntityEdge>): EntityEdge {
+  edgeCounter++;
+  return {
+    id: `00000000-0000-4000-8000-${String(edgeCounter).padStart(12, '0')}`,
+    tenantId: ORG_ID,
+    sourceEntityId: PANEL_ID,
+    sourceEntityType: 'Asset',
+    targetEntityId: TRANSFORMER_ID,
+    targetEntityType: 'Asset',
+    relationshipType: 'FED_BY',
+    metadata: null,
+    validFrom: null,
+    validUntil: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  } as EntityEdge;
+}
+
+/** Evaluates an edge query against a fixed edge list, like the repository does in SQL */
+function queryEdges(edges: EntityEdge[], query: EdgeQuery): EntityEdge[] {
+  return edges.filter((edge) => {
+    const outgoing = query.entityIds.includes(edge.sourceEntityId);
+    const incoming = query.entityIds.includes(edge.targetEntityId);
+    const matchesDirection =
+      query.direction === 'outgoing' ? outgoing : query.direction === 'incoming' ? incoming : outgoing || incoming;
+    if (!matchesDirection) return false;
+    if (query.relationshipTypes && !query.relationshipTypes.includes(edge.relationshipType)) return false;
+    if (query.asOf) {
+      if (edge.validFrom && edge.validFrom > query.asOf) return false;
+      if (edge.validUntil && edge.validUntil <= query.asOf) return false;
+    }
+    return true;
+  });
+}
+
+describe('validateRelationshipTypes', () => {
+  const base = { sourceEntityId: PUMP_ID, targetEntityId: SENSOR_ID };
+
+  it('should accept entity types allowed by the relationship type', () => {
+    expect(
+      validateRelationshipTypes({ ...base, sourceEntityType: 'Asset', relationshipType: 'MONITORED_BY', targetEntityType: 'Device' })
+    ).toBeNull();
+  });
+
+  it('should reject disallowed source and target types', () => {
+    expect(
+      validateRelationshipTypes({ ...base, sourceEntityType: 'Activity', relationshipType: 'MONITORED_BY', targetEntityType: 'Device' })
+    ).toBe('MONITORED_BY cannot start at a Activity');
+    expect(
+      validateRelationshipTypes({ ...base, sourceEntityType: 'Asset', relationshipType: 'MONITORED_BY', targetEntityType: 'Space' })
+    ).toBe('MONITORED_BY cannot point to a Space');
+  });
+
+  it('should require the same type for same-type relationships', () => {
+    expect(
+      validateRelationshipTypes({ ...base, sourceEntityType: 'Asset', relationshipType: 'BACKUP_FOR', targetEntityType: 'Device' })
+    ).toBe('BACKUP_FOR must connect entities of the same type');
+  });
+
+  it('should reject self-relationships', () => {
+    expect(
+      validateRelationshipTypes({
+        sourceEntityType: 'Asset',
+        sourceEntityId: PUMP_ID,
+        relationshipType: 'DEPENDS_ON',
+        targetEntityType: 'Asset',
+        targetEntityId: PUMP_ID,
+      })
+    ).toBe('An entity cannot be related to itself');
+  });
+});
+
+describe('RelationshipService', () => {
+  let edges: EntityEdge[];
+  let relationshipRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let eventRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: RelationshipService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    edges = [];
+    relationshipRepo = {
+      findById: vi.fn(),
+      create: vi.fn().mockImplementation(async (data) => createEdge(data)),
+      update: vi.fn(),
+      delete: vi.fn().mockResolvedValue(true),
+      findEdges: vi.fn().mockImplementation(async (_tenantId, query: EdgeQuery) => queryEdges(edges, query)),
+      findOverlapping: vi.fn().mockResolvedValue(null),
+      findEntities: vi
+        .fn()
+        .mockImplementation(async (_tenantId, _baseType, ids: string[]) =>
+          ids.map((id) => ({ id, name: `Entity ${id.slice(0, 4)}` }))
+        ),
+      withTransaction: vi.fn().mockImplementation(async (fn) => fn({})),
+    };
+    eventRepo = {
+      create: vi.fn().mockResolvedValue({}),
+    };
+    service = new RelationshipService(
+      relationshipRepo as unknown as RelationshipRepository,
+      eventRepo as unknown as SystemEventRepository
+    );
+  });
+
+  describe('findCreateError', () => {
+    const input = {
+      sourceEntityType: 'Asset' as const,
+      sourceEntityId: PUMP_ID,
+      relationshipType: 'CONTAINED_IN' as const,
+      targetEntityType: 'Space' as const,
+      targetEntityId: ROOM_ID,
+    };
+
+    it('should accept a valid relationship', async () => {
+      expect(await service.findCreateError(ORG_ID, input)).toBeNull();
+    });
+
+    it('should reject entities missing from the organization', async () => {
+      relationshipRepo.findEntities.mockImplementation(async (_tenantId, baseType) =>
+        baseType === 'Space' ? [] : [{ id: PUMP_ID, name: 'Pump' }]
+      );
+
+      expect(await service.findCreateError(ORG_ID, input)).toBe(`Space ${ROOM_ID} not found`);
+    });
+
+    it('should reject an overlapping edge of a single-target type', async () => {
+      const existing = createEdge({ relationshipType: 'CONTAINED_IN' });
+      relationshipRepo.findOverlapping.mockResolvedValue(existing);
+
+      const error = await service.findCreateError(ORG_ID, { ...input, validFrom: '2026-03-01T00:00:00Z' });
+
+      expect(error).toContain(existing.id);
+      expect(relationshipRepo.findOverlapping).toHaveBeenCalledWith(
+        ORG_ID,
+        PUMP_ID,
+        'CONTAINED_IN',
+        new Date('2026-03-01T00:00:00Z'),
+        null,
+        undefined
+      );
+    });
+
+    it('should not check overlaps for multi-target types', async () => {
+      await service.findCreateError(ORG_ID, {
+        ...input,
+        relationshipType: 'MONITORED_BY',
+        targetEntityType: 'Device',
+        targetEntityId: SENSOR_ID,
+      });
+
+      expect(relationshipRepo.findOverlapping).not.toHaveBeenCalled();
+    });
+
+    it('should reject an edge that closes a cycle of an acyclic type', async () => {
+      // panel FED_BY transformer FED_BY pump; pump FED_BY panel closes the loop
+      edges = [
+        createEdge({ sourceEntityId: PANEL_ID, targetEntityId: TRANSFORMER_ID }),
+        createEdge({ sourceEntityId: TRANSFORMER_ID, targetEntityId: PUMP_ID }),
+      ];
+
+      const error = await service.findCreateError(ORG_ID, {
+        sourceEntityType: 'Asset',
+        sourceEntityId: PUMP_ID,
+        relationshipType: 'FED_BY',
+        targetEntityType: 'Asset',
+        targetEntityId: PANEL_ID,
+      });
+
+      expect(error).toBe('This FED_BY relationship would create a cycle');
+    });
+  });
+
+  describe('findUpdateError', () => {
+    it('should reject a validity that ends before it starts', async () => {
+      const edge = createEdge({ validFrom: new Date('2026-05-01T00:00:00Z') });
+
+      expect(await service.findUpdateError(edge, { validUntil: '2026-04-01T00:00:00Z' })).toBe(
+        'validUntil must be after validFrom'
+      );
+    });
+  });
+
+  describe('createRelationship', () => {
+    it('should record an EDGE_CREATED event in the same transaction', async () => {
+      const edge = await service.createRelationship(ORG_ID, {
+        sourceEntityType: 'Asset',
+        sourceEntityId: PUMP_ID,
+        relationshipType: 'MONITORED_BY',
+        targetEntityType: 'Device',
+        targetEntityId: SENSOR_ID,
+        validFrom: '2026-02-01T00:00:00Z',
+      });
+
+      expect(edge.validFrom).toEqual(new Date('2026-02-01T00:00:00Z'));
+      expect(eventRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: ORG_ID,
+          eventType: SystemEventType.EDGE_CREATED,
+          entityId: PUMP_ID,
+          payload: expect.objectContaining({ relationshipId: edge.id, targetEntityId: SENSOR_ID }),
+        }),
+        {}
+      );
+    });
+  });
+
+  describe('getNeighbors', () => {
+    it('should return null for an unknown entity', async () => {
+      relationshipRepo.findEntities.mockResolvedValue([]);
+
+      expect(
+        await service.getNeighbors(ORG_ID, { entityType: 'Asset', entityId: PUMP_ID, direction: 'both' })
+      ).toBeNull();
+    });
+
+    it('should return edges valid at the asOf time in both directions', async () => {
+      edges = [
+        createEdge({ sourceEntityId: PUMP_ID, targetEntityId: SENSOR_ID, targetEntityType: 'Device', relationshipType: 'MONITORED_BY' }),
+        createEdge({
+          sourceEntityId: PUMP_ID,
+          targetEntityId: ROOM_ID,
+          targetEntityType: 'Space',
+          relationshipType: 'CONTAINED_IN',
+          validUntil: new Date('2026-03-01T00:00:00Z'),
+        }),
+        createEdge({ sourceEntityId: PANEL_ID, targetEntityId: PUMP_ID }),
+      ];
+
+      const current = await service.getNeighbors(ORG_ID, {
+        entityType: 'Asset',
+        entityId: PUMP_ID,
+        direction: 'both',
+        asOf: new Date('2026-04-01T00:00:00Z'),
+      });
+      expect(current!.map((neighbor) => [neighbor.direction, neighbor.entity.entityId])).toEqual([
+        ['outgoing', SENSOR_ID],
+        ['incoming', PANEL_ID],
+      ]);
+
+      const past = await service.getNeighbors(ORG_ID, {
+        entityType: 'Asset',
+        entityId: PUMP_ID,
+        direction: 'outgoing',
+        asOf: new Date('2026-02-01T00:00:00Z'),
+      });
+      expect(past!.map((neighbor) => neighbor.entity.entityId)).toEqual([SENSOR_ID, ROOM_ID]);
+    });
+
+    it('should leave out neighbours of filtered entity types', async () => {
+      edges = [
+        createEdge({ sourceEntityId: PUMP_ID, targetEntityId: SENSOR_ID, targetEntityType: 'Device', relationshipType: 'MONITORED_BY' }),
+      ];
+
+      const neighbors = await service.getNeighbors(ORG_ID, {
+        entityType: 'Asset',
+        entityId: PUMP_ID,
+        direction: 'both',
+        entityTypes: ['Asset'],
+      });
+
+      expect(neighbors).toEqual([]);
+    });
+  });
+
+  describe('traverse', () => {
+    beforeEach(() => {
+      // panel and pump are fed by the transformer; the sensor monitors the pump
+      edges = [
+        createEdge({ sourceEntityId: PANEL_ID, targetEntityId: TRANSFORMER_ID }),
+        createEdge({ sourceEntityId: PUMP_ID, targetEntityId: PANEL_ID }),
+        createEdge({ sourceEntityId: PUMP_ID, targetEntityId: SENSOR_ID, targetEntityType: 'Device', relationshipType: 'MONITORED_BY' }),
+      ];
+    });
+
+    it('should find everything downstream of a transformer', async () => {
+      const result = await service.traverse(ORG_ID, {
+        entityType: 'Asset',
+        entityId: TRANSFORMER_ID,
+        direction: 'incoming',
+        relationshipTypes: ['FED_BY'],
+        maxDepth: 5,
+        limit: 100,
+      });
+
+      expect(result!.root.entityId).toBe(TRANSFORMER_ID);
+      expect(result!.nodes.map((node) => [node.entityId, node.depth])).toEqual([
+        [PANEL_ID, 1],
+        [PUMP_ID, 2],
+      ]);
+      expect(result!.relationships).toHaveLength(2);
+      expect(result!.truncated).toBe(false);
+    });
+
+    it('should stop at maxDepth', async () => {
+      const result = await service.traverse(ORG_ID, {
+        entityType: 'Asset',
+        entityId: TRANSFORMER_ID,
+        direction: 'both',
+        maxDepth: 1,
+        limit: 100,
+      });
+
+      expect(result!.nodes.map((node) => node.entityId)).toEqual([PANEL_ID]);
+    });
+
+    it('should mark the result truncated when the limit is reached', async () => {
+      const result = await service.traverse(ORG_ID, {
+        entityType: 'Asset',
+        entityId: TRANSFORMER_ID,
+        direction: 'both',
+        maxDepth: 5,
+        limit: 2,
+      });
+
+      expect(result!.nodes.map((node) => node.entityId)).toEqual([PANEL_ID, PUMP_ID]);
+      expect(result!.truncated).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Relationship Service
+ *
+ * Creates and queries typed edges between assets, devices, spaces, persons
+ * and activities. Each relationship type restricts which base types it
+ * connects (RELATIONSHIP_RULES); some allow a single target at a time
+ * (e.g. one containing space) or must not form cycles (e.g. FED_BY).
+ *
+ * Edges are valid from validFrom (inclusive) until validUntil (exclusive);
+ * null bounds are open-ended. Queries look at the edges valid now unless an
+ * asOf time is given. Creating and deleting edges records EDGE_CREATED /
+ * EDGE_DELETED system events.
+ */
+
+import {
+  RELATIONSHIP_RULES,
+  SystemEventType,
+  type BaseType,
+  type CreateRelationshipInput,
+  type OrganizationId,
+  type RelatedEntity,
+  type RelationshipDirection,
+  type RelationshipType,
+  type UpdateRelationshipInput,
+} from '@argus/shared';
+import {
+  getRelationshipRepository,
+  type EntityEdge,
+  type RelationshipRepository,
+} from '../repositories/relationship.repository.js';
+import {
+  getSystemEventRepository,
+  type SystemEventRepository,
+} from '../repositories/system-event.repository.js';
+
+/** Depth limit when checking acyclic relationship types for cycles */
+const MAX_CYCLE_CHECK_DEPTH = 50;
+
+/** Entity a query starts from */
+export interface EntityRef {
+  entityType: BaseType;
+  entityId: string;
+}
+
+export interface NeighborQuery extends EntityRef {
+  direction: RelationshipDirection;
+  relationshipTypes?: RelationshipType[];
+  asOf?: Date;
+  /** Only return neighbours of these base types */
+  entityTypes?: BaseType[];
+}
+
+export interface TraversalQuery extends NeighborQuery {
+  maxDepth: number;
+  limit: number;
+}
+
+export interface Neighbor {
+  direction: 'outgoing' | 'incoming';
+  relationship: EntityEdge;
+  entity: RelatedEntity;
+}
+
+export interface TraversalNode extends RelatedEntity {
+  depth: number;
+  viaRelationshipId: string;
+}
+
+export interface TraversalResult {
+  root: RelatedEntity;
+  nodes: TraversalNode[];
+  relationships: EntityEdge[];
+  truncated: boolean;
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function refKey(entityType: string, entityId: string): string {
+  return `${entityType}:${entityId}`;
+}
+
+/**
+ * Gets the entity at the other end of an edge as seen from an entity
+ */
+function otherEnd(edge: EntityEdge, entityId: string): { direction: 'outgoing' | 'incoming'; ref: EntityRef } {
+  return edge.sourceEntityId === entityId
+    ? { direction: 'outgoing', ref: { entityType: edge.targetEntityType, entityId: edge.targetEntityId } }
+    : { direction: 'incoming', ref: { entityType: edge.sourceEntityType, entityId: edge.sourceEntityId } };
+}
+
+/**
+ * Checks a relationship against the rules of its type, ignoring stored data
+ * Returns an error message or null
+ */
+export function validateRelationshipTypes(
+  input: Pick<CreateRelationshipInput, 'sourceEntityType' | 'sourceEntityId' | 'relationshipType' | 'targetEntityType' | 'targetEntityId'>
+): string | null {
+  const rule = RELATIONSHIP_RULES[input.relationshipType];
+  if (!rule.source.includes(input.sourceEntityType)) {
+    return `${input.relationshipType} cannot start at a ${input.sourceEntityType}`;
+  }
+  if (!rule.target.includes(input.targetEntityType)) {
+    return `${input.relationshipType} cannot point to a ${input.targetEntityType}`;
+  }
+  if (rule.sameType && input.sourceEntityType !== input.targetEntityType) {
+    return `${input.relationshipType} must connect entities of the same type`;
+  }
+  if (input.sourceEntityId === input.targetEntityId) {
+    return 'An entity cannot be related to itself';
+  }
+  return null;
+}
+
+export class RelationshipService {
+  constructor(
+    private readonly relationshipRepo: RelationshipRepository = getRelationshipRepository(),
+    private readonly eventRepo: SystemEventRepository = getSystemEventRepository()
+  ) {}
+
+  /**
+   * Finds an edge within a tenant
+   */
+  async findRelationship(tenantId: OrganizationId, id: string): Promise<EntityEdge | null> {
+    return this.relationshipRepo.findById(id, tenantId);
+  }
+
+  /**
+   * Checks that a new relationship is allowed
+   * Returns an error message or null
+   */
+  async findCreateError(tenantId: OrganizationId, input: CreateRelationshipInput): Promise<string | null> {
+    const typeError = validateRelationshipTypes(input);
+    if (typeError) {
+      return typeError;
+    }
+
+    const [source, target] = await Promise.all([
+      this.relationshipRepo.findEntities(tenantId, input.sourceEntityType, [input.sourceEntityId]),
+      this.relationshipRepo.findEntities(tenantId, input.targetEntityType, [input.targetEntityId]),
+    ]);
+    if (source.length === 0) {
+      return `${input.sourceEntityType} ${input.sourceEntityId} not found`;
+    }
+    if (target.length === 0) {
+      return `${input.targetEntityType} ${input.targetEntityId} not found`;
+    }
+
+    const overlapError = await this.findOverlapError(
+      tenantId,
+      input.sourceEntityId,
+      input.relationshipType,
+      toDate(input.validFrom),
+      toDate(input.validUntil)
+    );
+    if (overlapError) {
+      return overlapError;
+    }
+
+    if (RELATIONSHIP_RULES[input.relationshipType].acyclic) {
+      const createsCycle = await this.isReachable(
+        tenantId,
+        input.targetEntityId,
+        input.sourceEntityId,
+        input.relationshipType
+      );
+      if (createsCycle) {
+        return `This ${input.relationshipType} relationship would create a cycle`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks that changing an edge's validity keeps single-target relationship
+   * types unambiguous
+   * Returns an error message or null
+   */
+  async findUpdateError(edge: EntityEdge, input: UpdateRelationshipInput): Promise<string | null> {
+    const validFrom = input.validFrom !== undefined ? toDate(input.validFrom) : edge.validFrom;
+    const validUntil = input.validUntil !== undefined ? toDate(input.validUntil) : edge.validUntil;
+    if (validFrom && validUntil && validFrom >= validUntil) {
+      return 'validUntil must be after validFrom';
+    }
+    return this.findOverlapError(
+      edge.tenantId as OrganizationId,
+      edge.sourceEntityId,
+      edge.relationshipType,
+      validFrom,
+      validUntil,
+      edge.id
+    );
+  }
+
+  /**
+   * Creates an edge (validate with findCreateError first)
+   */
+  async createRelationship(tenantId: OrganizationId, input: CreateRelationshipInput): Promise<EntityEdge> {
+    return this.relationshipRepo.withTransaction(async (trx) => {
+      const edge = await this.relationshipRepo.create(
+        {
+          tenantId,
+          sourceEntityId: input.sourceEntityId,
+          sourceEntityType: input.sourceEntityType,
+          targetEntityId: input.targetEntityId,
+          targetEntityType: input.targetEntityType,
+          relationshipType: input.relationshipType,
+          metadata: input.metadata ?? null,
+          validFrom: toDate(input.validFrom),
+          validUntil: toDate(input.validUntil),
+        },
+        trx
+      );
+      await this.eventRepo.create(
+        {
+          tenantId,
+          eventType: SystemEventType.EDGE_CREATED,
+          entityId: edge.sourceEntityId,
+          entityType: edge.sourceEntityType,
+          payload: {
+            relationshipId: edge.id,
+            relationshipType: edge.relationshipType,
+            targetEntityId: edge.targetEntityId,
+            targetEntityType: edge.targetEntityType,
+          },
+        },
+        trx
+      );
+      return edge;
+    });
+  }
+
+  /**
+   * Updates an edge's metadata or validity (validate with findUpdateError first)
+   */
+  async updateRelationship(edge: EntityEdge, input: UpdateRelationshipInput): Promise<EntityEdge | null> {
+    return this.relationshipRepo.update(edge.id, edge.tenantId as OrganizationId, {
+      ...(input.metadata !== undefined && { metadata: input.metadata }),
+      ...(input.validFrom !== undefined && { validFrom: toDate(input.validFrom) }),
+      ...(input.validUntil !== undefined && { validUntil: toDate(input.validUntil) }),
+    });
+  }
+
+  /**
+   * Deletes an edge and its history
+   * To end a relationship but keep answering "as of" queries, set validUntil
+   * instead.
+   */
+  async deleteRelationship(edge: EntityEdge): Promise<boolean> {
+    const tenantId = edge.tenantId as OrganizationId;
+    return this.relationshipRepo.withTransaction(async (trx) => {
+      const deleted = await this.relationshipRepo.delete(edge.id, tenantId, trx);
+      if (deleted) {
+        await this.eventRepo.create(
+          {
+            tenantId,
+            eventType: SystemEventType.EDGE_DELETED,
+            entityId: edge.sourceEntityId,
+            entityType: edge.sourceEntityType,
+            payload: {
+              relationshipId: edge.id,
+              relationshipType: edge.relationshipType,
+              targetEntityId: edge.targetEntityId,
+              targetEntityType: edge.targetEntityType,
+            },
+          },
+          trx
+        );
+      }
+      return deleted;
+    });
+  }
+
+  /**
+   * Gets the entities directly related to an entity
+   * Returns null if the entity does not exist in the tenant.
+   */
+  async getNeighbors(tenantId: OrganizationId, query: NeighborQuery): Promise<Neighbor[] | null> {
+    const [root] = await this.relationshipRepo.findEntities(tenantId, query.entityType, [query.entityId]);
+    if (!root) {
+      return null;
+    }
+
+    const edges = await this.relationshipRepo.findEdges(tenantId, {
+      entityIds: [query.entityId],
+      direction: query.direction,
+      relationshipTypes: query.relationshipTypes,
+      asOf: query.asOf ?? new Date(),
+    });
+
+    const ends = edges
+      .map((edge) => ({ edge, ...otherEnd(edge, query.entityId) }))
+      .filter(({ ref }) => !query.entityTypes || query.entityTypes.includes(ref.entityType));
+    const names = await this.resolveNames(tenantId, ends.map(({ ref }) => ref));
+
+    return ends.map(({ edge, direction, ref }) => ({
+      direction,
+      relationship: edge,
+      entity: { ...ref, name: names.get(refKey(ref.entityType, ref.entityId)) ?? null },
+    }));
+  }
+
+  /**
+   * Follows edges breadth-first from an entity up to maxDepth hops, e.g.
+   * incoming FED_BY edges from a transformer reach everything it feeds
+   * Each entity is listed once, at the depth it was first reached. Returns
+   * null if the entity does not exist in the tenant.
+   */
+  async traverse(tenantId: OrganizationId, query: TraversalQuery): Promise<TraversalResult | null> {
+    const [root] = await this.relationshipRepo.findEntities(tenantId, query.entityType, [query.entityId]);
+    if (!root) {
+      return null;
+    }
+
+    const asOf = query.asOf ?? new Date();
+    const visited = new Set<string>([query.entityId]);
+    const nodes: TraversalNode[] = [];
+    const relationships: EntityEdge[] = [];
+    const seenEdges = new Set<string>();
+    let frontier = [query.entityId];
+    let truncated = false;
+
+    for (let depth = 1; depth <= query.maxDepth && frontier.length > 0 && !truncated; depth++) {
+      const edges = await this.relationshipRepo.findEdges(tenantId, {
+        entityIds: frontier,
+        direction: query.direction,
+        relationshipTypes: query.relationshipTypes,
+        asOf,
+      });
+
+      const frontierIds = new Set(frontier);
+      const next: string[] = [];
+      for (const edge of edges) {
+        // With direction 'both' an edge between two frontier entities is seen from either end
+        const from = frontierIds.has(edge.sourceEntityId) && query.direction !== 'incoming'
+          ? edge.sourceEntityId
+          : edge.targetEntityId;
+        const { ref } = otherEnd(edge, from);
+        if (query.entityTypes && !query.entityTypes.includes(ref.entityType)) {
+          continue;
+        }
+        if (!seenEdges.has(edge.id)) {
+          seenEdges.add(edge.id);
+          relationships.push(edge);
+        }
+        if (visited.has(ref.entityId)) {
+          continue;
+        }
+        if (nodes.length >= query.limit) {
+          truncated = true;
+          break;
+        }
+        visited.add(ref.entityId);
+        nodes.push({ ...ref, name: null, depth, viaRelationshipId: edge.id });
+        next.push(ref.entityId);
+      }
+      frontier = next;
+    }
+
+    const names = await this.resolveNames(tenantId, nodes);
+    return {
+      root: { entityType: query.entityType, entityId: query.entityId, name: root.name },
+      nodes: nodes.map((node) => ({ ...node, name: names.get(refKey(node.entityType, node.entityId)) ?? null })),
+      relationships,
+      truncated,
+    };
+  }
+
+  /**
+   * Checks for an overlapping edge of a single-target relationship type
+   */
+  private async findOverlapError(
+    tenantId: OrganizationId,
+    sourceEntityId: string,
+    relationshipType: RelationshipType,
+    validFrom: Date | null,
+    validUntil: Date | null,
+    excludeId?: string
+  ): Promise<string | null> {
+    if (!RELATIONSHIP_RULES[relationshipType].singleTarget) {
+      return null;
+    }
+    const existing = await this.relationshipRepo.findOverlapping(
+      tenantId,
+      sourceEntityId,
+      relationshipType,
+      validFrom,
+      validUntil,
+      excludeId
+    );
+    return existing
+      ? `The entity already has a ${relationshipType} relationship (${existing.id}) during this period; end it first`
+      : null;
+  }
+
+  /**
+   * Whether `to` can be reached from `from` over outgoing edges of a type,
+   * at any time
+   */
+  private async isReachable(
+    tenantId: OrganizationId,
+    from: string,
+    to: string,
+    relationshipType: RelationshipType
+  ): Promise<boolean> {
+    const visited = new Set<string>([from]);
+    let frontier = [from];
+    for (let depth = 0; depth < MAX_CYCLE_CHECK_DEPTH && frontier.length > 0; depth++) {
+      const edges = await this.relationshipRepo.findEdges(tenantId, {
+        entityIds: frontier,
+        direction: 'outgoing',
+        relationshipTypes: [relationshipType],
+      });
+      const next: string[] = [];
+      for (const edge of edges) {
+        if (edge.targetEntityId === to) {
+          return true;
+        }
+        if (!visited.has(edge.targetEntityId)) {
+          visited.add(edge.targetEntityId);
+          next.push(edge.targetEntityId);
+        }
+      }
+      frontier = next;
+    }
+    return false;
+  }
+
+  /**
+   * Looks up entity names, keyed by entity type and ID
+   */
+  private async resolveNames(tenantId: OrganizationId, refs: EntityRef[]): Promise<Map<string, string>> {
+    const idsByType = new Map<BaseType, Set<string>>();
+    for (const ref of refs) {
+      const ids = idsByType.get(ref.entityType) ?? new Set<string>();
+      ids.add(ref.entityId);
+      idsByType.set(ref.entityType, ids);
+    }
+
+    const names = new Map<string, string>();
+    for (const [entityType, ids] of idsByType) {
+      const found = await this.relationshipRepo.findEntities(tenantId, entityType, [...ids]);
+      for (const entity of found) {
+        names.set(refKey(entityType, entity.id), entity.name);
+      }
+    }
+    return names;
+  }
+}
+
+// Singleton instance
+let relationshipService: RelationshipService | null = null;
+
+export function getRelationshipService(): RelationshipService {
+  if (!relationshipService) {
+    relationshipService = new RelationshipService();
+  }
+  return relationshipService;
+}
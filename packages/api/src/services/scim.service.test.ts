@@ -0,0 +1,361 @@
+/**
+ * Unit tests for the SCIM service
+ * Tests token authentication, user provisioning and deactivation, SSO role
+ * sync and group membership changes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId, ScimUserInput } from '@argus/shared';
+import { ScimService, type ScimContext } from './scim.service.js';
+import { hashScimToken } from '../repositories/scim.repository.js';
+import type {
+  GroupRepository,
+  IdentityProviderRepository,
+  OrganizationRepository,
+  RoleRepository,
+  ScimRepository,
+  UserOrganizationRepository,
+  UserRepository,
+} from '../repositories/index.js';
+import type { PermissionService } from './permission.service.js';
+import type { SessionService } from './session.service.js';
+
+vi.mock('./audit.service.js', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const ORG_ID = '0b6f1c2e-3d4a-4b5c-8d6e-7f8091a2b3c4' as OrganizationId;
+const ROOT_ORG_ID = '1c7a2d3e-4f5b-4c6d-9e7f-8091a2b3c4d5' as OrganizationId;
+const PROVIDER_ID = '2d8b3e4f-5a6c-4d7e-8f90-91a2b3c4d5e6';
+const USER_ID = '3e9c4f5a-6b7d-4e8f-9a01-a2b3c4d5e6f7';
+const OTHER_USER_ID = '4fad5a6b-7c8e-4f90-8b12-b3c4d5e6f708';
+const GROUP_ID = '5abe6b7c-8d9f-4a01-9c23-c4d5e6f70819';
+const OPERATOR_ROLE_ID = '6bcf7c8d-9e0a-4b12-8d34-d5e6f708192a';
+const VIEWER_ROLE_ID = '7cd08d9e-0f1b-4c23-9e45-e6f708192a3b';
+
+const context: ScimContext = {
+  providerId: PROVIDER_ID,
+  organizationId: ORG_ID,
+  rootOrganizationId: ROOT_ORG_ID,
+};
+
+function createUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: USER_ID,
+    email: 'ada@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    status: 'active',
+    deletedAt: null,
+    createdAt: new Date('2026-03-01T09:00:00Z'),
+    updatedAt: new Date('2026-03-02T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+function createInput(overrides: Partial<ScimUserInput> = {}): ScimUserInput {
+  return {
+    userName: 'ada@example.com',
+    externalId: '00u1',
+    name: { givenName: 'Ada', familyName: 'Lovelace' },
+    active: true,
+    ...overrides,
+  };
+}
+
+describe('ScimService', () => {
+  let scimRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let providerRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let orgRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let userRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let memberRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let groupRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let roleRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let sessionService: Record<string, ReturnType<typeof vi.fn>>;
+  let permissionService: Record<string, ReturnType<typeof vi.fn>>;
+  let service: ScimService;
+
+  beforeEach(() => {
+    scimRepo = {
+      findProviderByTokenHash: vi.fn().mockResolvedValue({ id: PROVIDER_ID, enabled: true, organizationId: ORG_ID }),
+      listUsers: vi.fn().mockResolvedValue([
+        { user: createUser(), externalId: '00u1' },
+        { user: createUser({ id: OTHER_USER_ID, email: 'grace@example.com', status: 'suspended' }), externalId: null },
+      ]),
+      findUser: vi.fn().mockResolvedValue({ user: createUser(), externalId: '00u1' }),
+      findUserByEmail: vi.fn().mockResolvedValue(null),
+      findUserIdByExternalId: vi.fn().mockResolvedValue(null),
+      hasIdentity: vi.fn().mockResolvedValue(false),
+      setExternalId: vi.fn(),
+      listGroups: vi.fn().mockResolvedValue([]),
+      findGroupMemberships: vi.fn().mockResolvedValue([
+        { groupId: GROUP_ID, groupName: 'Operators', userId: USER_ID, email: 'ada@example.com' },
+      ]),
+      findSsoRoleAssignments: vi.fn().mockResolvedValue([{ userId: USER_ID, roleName: 'Operator' }]),
+      findMemberIds: vi.fn().mockResolvedValue(new Set([USER_ID])),
+    };
+    providerRepo = { update: vi.fn().mockResolvedValue({ id: PROVIDER_ID }) };
+    orgRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ORG_ID, isActive: true, rootOrganizationId: ROOT_ORG_ID }),
+    };
+    userRepo = {
+      create: vi.fn().mockResolvedValue(createUser()),
+      update: vi.fn().mockResolvedValue(createUser()),
+      updateEmail: vi.fn(),
+    };
+    memberRepo = {
+      findMembership: vi.fn().mockResolvedValue(null),
+      addMember: vi.fn(),
+      removeMember: vi.fn(),
+    };
+    groupRepo = {
+      findById: vi.fn().mockResolvedValue({
+        id: GROUP_ID,
+        organizationId: ORG_ID,
+        name: 'Operators',
+        externalId: null,
+        createdAt: new Date('2026-03-01T09:00:00Z'),
+        updatedAt: new Date('2026-03-01T09:00:00Z'),
+      }),
+      isNameAvailable: vi.fn().mockResolvedValue(true),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      addMember: vi.fn(),
+      removeMember: vi.fn(),
+    };
+    roleRepo = {
+      findByName: vi.fn().mockImplementation(async (organizationId: string | null, name: string) => {
+        if (organizationId !== null) return null;
+        if (name === 'Operator') return { id: OPERATOR_ROLE_ID, name };
+        if (name === 'Viewer') return { id: VIEWER_ROLE_ID, name };
+        if (name === 'Super Admin') return { id: 'super', name };
+        return null;
+      }),
+      getUserRoleAssignments: vi.fn().mockResolvedValue([]),
+      assignRoleToUser: vi.fn(),
+      removeRoleFromUser: vi.fn(),
+    };
+    sessionService = { revokeAllSessions: vi.fn().mockResolvedValue(2) };
+    permissionService = { invalidate: vi.fn() };
+
+    service = new ScimService(
+      scimRepo as unknown as ScimRepository,
+      providerRepo as unknown as IdentityProviderRepository,
+      orgRepo as unknown as OrganizationRepository,
+      userRepo as unknown as UserRepository,
+      memberRepo as unknown as UserOrganizationRepository,
+      groupRepo as unknown as GroupRepository,
+      roleRepo as unknown as RoleRepository,
+      sessionService as unknown as SessionService,
+      permissionService as unknown as PermissionService,
+      () => new Date('2026-03-05T12:00:00Z')
+    );
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a token to its provider and organization', async () => {
+      const result = await service.authenticate('scim_secret');
+
+      expect(scimRepo.findProviderByTokenHash).toHaveBeenCalledWith(hashScimToken('scim_secret'));
+      expect(result).toEqual(context);
+    });
+
+    it('should reject unknown tokens and disabled providers', async () => {
+      expect(await service.authenticate('argus_not_a_scim_token')).toBeNull();
+      expect(scimRepo.findProviderByTokenHash).not.toHaveBeenCalled();
+
+      scimRepo.findProviderByTokenHash.mockResolvedValue({ id: PROVIDER_ID, enabled: false, organizationId: ORG_ID });
+      expect(await service.authenticate('scim_secret')).toBeNull();
+    });
+  });
+
+  describe('generateToken', () => {
+    it('should store only the token hash', async () => {
+      const result = await service.generateToken(PROVIDER_ID);
+
+      expect(result!.token).toMatch(/^scim_/);
+      expect(providerRepo.update).toHaveBeenCalledWith(PROVIDER_ID, {
+        scimTokenHash: hashScimToken(result!.token),
+        scimTokenCreatedAt: new Date('2026-03-05T12:00:00Z'),
+      });
+    });
+  });
+
+  describe('listUsers', () => {
+    it('should map members to SCIM users with groups and SSO roles', async () => {
+      const result = await service.listUsers(context, { startIndex: 1, count: 100 });
+
+      expect(result.totalResults).toBe(2);
+      expect(result.Resources[0]).toMatchObject({
+        id: USER_ID,
+        externalId: '00u1',
+        userName: 'ada@example.com',
+        name: { givenName: 'Ada', familyName: 'Lovelace', formatted: 'Ada Lovelace' },
+        active: true,
+        groups: [{ value: GROUP_ID, display: 'Operators' }],
+        roles: [{ value: 'Operator' }],
+      });
+      expect(result.Resources[1]).toMatchObject({ id: OTHER_USER_ID, active: false, groups: [], roles: [] });
+      expect(result.Resources[1].externalId).toBeUndefined();
+    });
+
+    it('should filter before paginating', async () => {
+      const filtered = await service.listUsers(context, { filter: 'userName eq "GRACE@example.com"', startIndex: 1, count: 100 });
+      expect(filtered.Resources.map((user) => user.id)).toEqual([OTHER_USER_ID]);
+
+      const page = await service.listUsers(context, { startIndex: 2, count: 1 });
+      expect(page).toMatchObject({ totalResults: 2, startIndex: 2, itemsPerPage: 1 });
+      expect(page.Resources[0].id).toBe(OTHER_USER_ID);
+    });
+  });
+
+  describe('createUser', () => {
+    it('should create the account, membership, identity link and SSO roles', async () => {
+      await service.createUser(context, createInput({ roles: [{ value: 'Operator' }] }));
+
+      expect(userRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'ada@example.com',
+          passwordHash: null,
+          status: 'active',
+          rootOrganizationId: ROOT_ORG_ID,
+          primaryOrganizationId: ORG_ID,
+        })
+      );
+      expect(memberRepo.addMember).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: USER_ID, organizationId: ORG_ID, role: 'member' })
+      );
+      expect(scimRepo.setExternalId).toHaveBeenCalledWith(PROVIDER_ID, USER_ID, '00u1', 'ada@example.com');
+      expect(roleRepo.assignRoleToUser).toHaveBeenCalledWith({
+        userId: USER_ID,
+        roleId: OPERATOR_ROLE_ID,
+        organizationId: ORG_ID,
+        source: 'sso',
+      });
+      expect(permissionService.invalidate).toHaveBeenCalled();
+    });
+
+    it('should reject a userName that is already a member', async () => {
+      scimRepo.findUserByEmail.mockResolvedValue(createUser());
+      memberRepo.findMembership.mockResolvedValue({ userId: USER_ID });
+
+      await expect(service.createUser(context, createInput())).rejects.toMatchObject({
+        status: 409,
+        scimType: 'uniqueness',
+      });
+      expect(userRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should not take over an existing account that is not linked to the provider', async () => {
+      scimRepo.findUserByEmail.mockResolvedValue(createUser());
+
+      await expect(service.createUser(context, createInput())).rejects.toMatchObject({
+        status: 409,
+        scimType: 'uniqueness',
+      });
+      expect(scimRepo.hasIdentity).toHaveBeenCalledWith(PROVIDER_ID, USER_ID);
+      expect(userRepo.update).not.toHaveBeenCalled();
+      expect(memberRepo.addMember).not.toHaveBeenCalled();
+      expect(scimRepo.setExternalId).not.toHaveBeenCalled();
+    });
+
+    it('should add an existing account linked to the provider to the organization', async () => {
+      scimRepo.findUserByEmail.mockResolvedValue(createUser());
+      scimRepo.hasIdentity.mockResolvedValue(true);
+
+      await service.createUser(context, createInput());
+
+      expect(userRepo.create).not.toHaveBeenCalled();
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ status: 'active' }));
+      expect(memberRepo.addMember).toHaveBeenCalledWith(expect.objectContaining({ userId: USER_ID, isPrimary: false }));
+    });
+
+    it('should reject unknown and Super Admin roles before writing', async () => {
+      await expect(service.createUser(context, createInput({ roles: [{ value: 'Janitor' }] }))).rejects.toMatchObject({
+        status: 400,
+        scimType: 'invalidValue',
+      });
+      await expect(service.createUser(context, createInput({ roles: [{ value: 'Super Admin' }] }))).rejects.toMatchObject({
+        scimType: 'invalidValue',
+      });
+      expect(userRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('patchUser', () => {
+    it('should suspend the account and revoke its sessions on active=false', async () => {
+      await service.patchUser(context, USER_ID, [{ op: 'replace', value: { active: 'False' } }]);
+
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ status: 'suspended' }));
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith(USER_ID);
+    });
+
+    it('should replace SSO roles and keep directly assigned ones', async () => {
+      roleRepo.getUserRoleAssignments.mockResolvedValue([
+        { roleId: OPERATOR_ROLE_ID, source: 'sso' },
+        { roleId: 'direct-role', source: 'direct' },
+      ]);
+
+      await service.patchUser(context, USER_ID, [{ op: 'replace', path: 'roles', value: [{ value: 'Viewer' }] }]);
+
+      expect(roleRepo.assignRoleToUser).toHaveBeenCalledWith(expect.objectContaining({ roleId: VIEWER_ROLE_ID, source: 'sso' }));
+      expect(roleRepo.removeRoleFromUser).toHaveBeenCalledTimes(1);
+      expect(roleRepo.removeRoleFromUser).toHaveBeenCalledWith(USER_ID, OPERATOR_ROLE_ID, ORG_ID);
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, expect.not.objectContaining({ status: expect.anything() }));
+      expect(sessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should return null for users outside the organization', async () => {
+      scimRepo.findUser.mockResolvedValue(null);
+
+      expect(await service.patchUser(context, USER_ID, [{ op: 'replace', path: 'active', value: false }])).toBeNull();
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should suspend the account and remove it from the organization', async () => {
+      expect(await service.deleteUser(context, USER_ID)).toBe(true);
+
+      expect(userRepo.update).toHaveBeenCalledWith(USER_ID, { status: 'suspended' });
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith(USER_ID);
+      expect(groupRepo.removeMember).toHaveBeenCalledWith(GROUP_ID, USER_ID);
+      expect(scimRepo.setExternalId).not.toHaveBeenCalled();
+      expect(memberRepo.removeMember).toHaveBeenCalledWith(USER_ID, ORG_ID);
+    });
+  });
+
+  describe('groups', () => {
+    it('should add and remove members through PATCH', async () => {
+      scimRepo.findMemberIds.mockResolvedValue(new Set([OTHER_USER_ID]));
+
+      await service.patchGroup(context, GROUP_ID, [
+        { op: 'add', path: 'members', value: [{ value: OTHER_USER_ID }] },
+        { op: 'remove', path: `members[value eq "${USER_ID}"]` },
+      ]);
+
+      expect(groupRepo.addMember).toHaveBeenCalledWith({ userId: OTHER_USER_ID, groupId: GROUP_ID });
+      expect(groupRepo.removeMember).toHaveBeenCalledWith(GROUP_ID, USER_ID);
+      expect(permissionService.invalidate).toHaveBeenCalled();
+    });
+
+    it('should reject members outside the organization', async () => {
+      scimRepo.findMemberIds.mockResolvedValue(new Set());
+
+      await expect(
+        service.createGroup(context, { displayName: 'Auditors', members: [{ value: OTHER_USER_ID }] })
+      ).rejects.toMatchObject({ status: 400, scimType: 'invalidValue' });
+      expect(groupRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('should not see groups of other organizations', async () => {
+      groupRepo.findById.mockResolvedValue({ id: GROUP_ID, organizationId: ROOT_ORG_ID });
+
+      expect(await service.getGroup(context, GROUP_ID)).toBeNull();
+      expect(await service.deleteGroup(context, GROUP_ID)).toBe(false);
+      expect(groupRepo.delete).not.toHaveBeenCalled();
+    });
+  });
+});
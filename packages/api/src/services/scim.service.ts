@@ -0,0 +1,715 @@
+/**
+ * SCIM Service
+ *
+ * SCIM 2.0 provisioning (RFC 7644) for identity providers. An organization's
+ * identity provider can be given a SCIM bearer token; the provider then
+ * manages the organization's users and groups through /scim/v2:
+ * - Users are the organization's members provisioned by the provider, i.e.
+ *   with a provisioned identity link to it; other members (e.g. owners who
+ *   sign in with a password) are invisible to the provider. userName is the
+ *   account email and externalId is kept on the identity link.
+ * - Provisioning an existing account is only allowed when it already has an
+ *   identity link to the provider; other accounts are never taken over.
+ * - active=false suspends the account (users.status = 'suspended') and
+ *   revokes its sessions; active=true reactivates it.
+ * - roles are role names, assigned with source 'sso'. Roles assigned in the
+ *   app are left alone.
+ * - Groups are the organization's user groups; members are the provider's
+ *   users, by ID. Other members of a group are left alone.
+ * - Deleting a user suspends the account and removes it from the
+ *   organization, its groups and its SSO roles. The identity link is kept so
+ *   the user can be provisioned again.
+ *
+ * Lists are filtered in memory: directories hold at most a few thousand
+ * members and clients mostly look up single users by userName or externalId.
+ */
+
+import { z } from 'zod';
+import {
+  createOrganizationId,
+  createUserId,
+  SCIM_SCHEMAS,
+  scimGroupInputSchema,
+  scimUserInputSchema,
+  type OrganizationId,
+  type ScimGroup,
+  type ScimGroupInput,
+  type ScimListQuery,
+  type ScimListResponse,
+  type ScimPatchOperation,
+  type ScimUser,
+  type ScimUserInput,
+  type ScimValue,
+  type UserId,
+} from '@argus/shared';
+import {
+  generateScimToken,
+  getScimRepository,
+  hashScimToken,
+  SCIM_TOKEN_MARKER,
+  type ScimGroupMembership,
+  type ScimRepository,
+  type ScimRoleAssignment,
+  type ScimUserRecord,
+} from '../repositories/scim.repository.js';
+import {
+  getIdentityProviderRepository,
+  type IdentityProviderRepository,
+} from '../repositories/identity-provider.repository.js';
+import {
+  getOrganizationRepository,
+  type OrganizationRepository,
+} from '../repositories/organization.repository.js';
+import {
+  getUserOrganizationRepository,
+  type UserOrganizationRepository,
+} from '../repositories/user-organization.repository.js';
+import { getUserRepository, type UserRepository } from '../repositories/user.repository.js';
+import { getGroupRepository, type GroupRepository, type UserGroup } from '../repositories/group.repository.js';
+import { getRoleRepository, type Role, type RoleRepository } from '../repositories/role.repository.js';
+import { getPermissionService, type PermissionService } from './permission.service.js';
+import { getSessionService, type SessionService } from './session.service.js';
+import { auditService } from './audit.service.js';
+import {
+  applyScimPatch,
+  matchesScimFilter,
+  parseScimFilter,
+  ScimError,
+} from '../utils/scim.js';
+
+/** The identity provider and organization a SCIM request acts for */
+export interface ScimContext {
+  providerId: string;
+  organizationId: OrganizationId;
+  rootOrganizationId: OrganizationId;
+}
+
+/** Newly generated SCIM token (shown once) */
+export interface ScimToken {
+  token: string;
+  createdAt: Date;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const list = groups.get(key(item));
+    if (list) {
+      list.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Validates a patched resource, reporting the first problem as invalidValue
+ */
+function parseResource<T>(schema: z.ZodType<T>, value: unknown): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new ScimError(400, path ? `${path}: ${issue.message}` : issue.message, 'invalidValue');
+  }
+  return result.data;
+}
+
+/**
+ * Slices a filtered list into a SCIM list response page
+ */
+function toListResponse<T>(resources: T[], query: Pick<ScimListQuery, 'startIndex' | 'count'>): ScimListResponse<T> {
+  const page = resources.slice(query.startIndex - 1, query.startIndex - 1 + query.count);
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults: resources.length,
+    startIndex: query.startIndex,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+}
+
+/**
+ * Whether excludedAttributes leaves out group members
+ */
+export function excludesMembers(excludedAttributes: string | undefined): boolean {
+  return (excludedAttributes ?? '')
+    .split(',')
+    .some((attribute) => attribute.trim().split(':').pop()!.toLowerCase() === 'members');
+}
+
+/**
+ * Builds the SCIM representation of a user
+ */
+export function toScimUser(
+  record: ScimUserRecord,
+  memberships: ScimGroupMembership[],
+  roleAssignments: ScimRoleAssignment[]
+): ScimUser {
+  const { user } = record;
+  const formatted = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+  return {
+    schemas: [SCIM_SCHEMAS.user],
+    id: user.id,
+    ...(record.externalId ? { externalId: record.externalId } : {}),
+    userName: user.email,
+    name: {
+      ...(user.firstName ? { givenName: user.firstName } : {}),
+      ...(user.lastName ? { familyName: user.lastName } : {}),
+      ...(formatted ? { formatted } : {}),
+    },
+    ...(formatted ? { displayName: formatted } : {}),
+    emails: [{ value: user.email, type: 'work', primary: true }],
+    active: user.status === 'active',
+    groups: memberships.map((membership) => ({ value: membership.groupId, display: membership.groupName })),
+    roles: roleAssignments.map((assignment) => ({ value: assignment.roleName })),
+    meta: {
+      resourceType: 'User',
+      created: user.createdAt.toISOString(),
+      lastModified: user.updatedAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Builds the SCIM representation of a group
+ */
+export function toScimGroup(group: UserGroup, memberships: ScimGroupMembership[]): ScimGroup {
+  return {
+    schemas: [SCIM_SCHEMAS.group],
+    id: group.id,
+    ...(group.externalId ? { externalId: group.externalId } : {}),
+    displayName: group.name,
+    members: memberships.map((membership) => ({ value: membership.userId, display: membership.email })),
+    meta: {
+      resourceType: 'Group',
+      created: group.createdAt.toISOString(),
+      lastModified: group.updatedAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * SCIM Service class
+ */
+export class ScimService {
+  constructor(
+    private scimRepo: ScimRepository = getScimRepository(),
+    private providerRepo: IdentityProviderRepository = getIdentityProviderRepository(),
+    private orgRepo: OrganizationRepository = getOrganizationRepository(),
+    private userRepo: UserRepository = getUserRepository(),
+    private memberRepo: UserOrganizationRepository = getUserOrganizationRepository(),
+    private groupRepo: GroupRepository = getGroupRepository(),
+    private roleRepo: RoleRepository = getRoleRepository(),
+    private sessionService: SessionService = getSessionService(),
+    private permissionService: PermissionService = getPermissionService(),
+    private now: () => Date = () => new Date()
+  ) {}
+
+  // ===========================================
+  // Tokens
+  // ===========================================
+
+  /**
+   * Resolves a SCIM bearer token; the provider must be enabled and belong to
+   * an active organization
+   */
+  async authenticate(token: string): Promise<ScimContext | null> {
+    if (!token.startsWith(SCIM_TOKEN_MARKER)) {
+      return null;
+    }
+
+    const provider = await this.scimRepo.findProviderByTokenHash(hashScimToken(token));
+    if (!provider || !provider.enabled || !provider.organizationId) {
+      return null;
+    }
+
+    const organization = await this.orgRepo.findById(createOrganizationId(provider.organizationId));
+    if (!organization || !organization.isActive) {
+      return null;
+    }
+
+    return {
+      providerId: provider.id,
+      organizationId: createOrganizationId(organization.id),
+      rootOrganizationId: createOrganizationId(organization.rootOrganizationId ?? organization.id),
+    };
+  }
+
+  /**
+   * Generates a provider's SCIM token, replacing any previous one
+   */
+  async generateToken(providerId: string): Promise<ScimToken | null> {
+    const token = generateScimToken();
+    const createdAt = this.now();
+    const provider = await this.providerRepo.update(providerId, {
+      scimTokenHash: hashScimToken(token),
+      scimTokenCreatedAt: createdAt,
+    });
+    return provider ? { token, createdAt } : null;
+  }
+
+  /**
+   * Revokes a provider's SCIM token, disabling provisioning
+   */
+  async revokeToken(providerId: string): Promise<boolean> {
+    const provider = await this.providerRepo.update(providerId, {
+      scimTokenHash: null,
+      scimTokenCreatedAt: null,
+    });
+    return provider !== null;
+  }
+
+  // ===========================================
+  // Users
+  // ===========================================
+
+  /**
+   * Lists the organization's users matching a filter
+   * @throws ScimError (invalidFilter) for malformed filters
+   */
+  async listUsers(context: ScimContext, query: ScimListQuery): Promise<ScimListResponse<ScimUser>> {
+    const filter = query.filter ? parseScimFilter(query.filter) : null;
+
+    const [records, memberships, roleAssignments] = await Promise.all([
+      this.scimRepo.listUsers(context.organizationId, context.providerId),
+      this.scimRepo.findGroupMemberships(context.organizationId, context.providerId),
+      this.scimRepo.findSsoRoleAssignments(context.organizationId),
+    ]);
+    const membershipsByUser = groupBy(memberships, (membership) => membership.userId);
+    const rolesByUser = groupBy(roleAssignments, (assignment) => assignment.userId);
+
+    const resources = records
+      .map((record) =>
+        toScimUser(record, membershipsByUser.get(record.user.id) ?? [], rolesByUser.get(record.user.id) ?? [])
+      )
+      .filter((resource) => !filter || matchesScimFilter(resource, filter));
+
+    return toListResponse(resources, query);
+  }
+
+  /**
+   * Gets a user of the organization
+   */
+  async getUser(context: ScimContext, id: string): Promise<ScimUser | null> {
+    const userId = createUserId(id);
+    const record = await this.scimRepo.findUser(context.organizationId, context.providerId, userId);
+    if (!record) {
+      return null;
+    }
+
+    const [memberships, roleAssignments] = await Promise.all([
+      this.scimRepo.findGroupMemberships(context.organizationId, context.providerId, { userId }),
+      this.scimRepo.findSsoRoleAssignments(context.organizationId, userId),
+    ]);
+    return toScimUser(record, memberships, roleAssignments);
+  }
+
+  /**
+   * Provisions a user: creates the account, or adds an existing account of the
+   * same root organization that is linked to the provider to the organization
+   * @throws ScimError (uniqueness, invalidValue)
+   */
+  async createUser(context: ScimContext, input: ScimUserInput): Promise<ScimUser> {
+    const existing = await this.scimRepo.findUserByEmail(context.rootOrganizationId, input.userName);
+    if (existing?.deletedAt) {
+      throw new ScimError(409, 'A deleted account uses this userName', 'uniqueness');
+    }
+    if (existing && (await this.memberRepo.findMembership(createUserId(existing.id), context.organizationId))) {
+      throw new ScimError(409, 'A user with this userName already exists', 'uniqueness');
+    }
+    if (existing && !(await this.scimRepo.hasIdentity(context.providerId, createUserId(existing.id)))) {
+      throw new ScimError(409, 'An account with this userName exists and is not linked to this provider', 'uniqueness');
+    }
+    if (input.externalId) {
+      await this.assertExternalIdAvailable(context, input.externalId, existing?.id);
+    }
+    const roles = input.roles ? await this.resolveRoles(context, input.roles) : undefined;
+
+    const status = input.active ? 'active' : 'suspended';
+    const account = {
+      firstName: input.name?.givenName ?? null,
+      lastName: input.name?.familyName ?? null,
+      status,
+    } as const;
+    const user = existing
+      ? (await this.userRepo.update(createUserId(existing.id), account))!
+      : await this.userRepo.create({
+          ...account,
+          email: input.userName,
+          // Provisioned users sign in through the identity provider
+          passwordHash: null,
+          emailVerifiedAt: this.now(),
+          rootOrganizationId: context.rootOrganizationId,
+          primaryOrganizationId: context.organizationId,
+        });
+    const userId = createUserId(user.id);
+
+    await this.memberRepo.addMember({
+      userId,
+      organizationId: context.organizationId,
+      role: 'member',
+      isPrimary: !existing,
+    });
+    await this.scimRepo.setExternalId(context.providerId, userId, input.externalId ?? null, user.email);
+    if (roles) {
+      await this.syncRoles(context, userId, roles);
+    }
+    await this.permissionService.invalidate();
+
+    await this.audit(context, 'scim_user_created', 'user', userId, {
+      email: user.email,
+      existingAccount: Boolean(existing),
+      active: input.active,
+    });
+
+    return (await this.getUser(context, userId))!;
+  }
+
+  /**
+   * Replaces a user's attributes
+   * @throws ScimError (uniqueness, invalidValue)
+   */
+  async replaceUser(context: ScimContext, id: string, input: ScimUserInput): Promise<ScimUser | null> {
+    const userId = createUserId(id);
+    const record = await this.scimRepo.findUser(context.organizationId, context.providerId, userId);
+    if (!record) {
+      return null;
+    }
+    const { user } = record;
+
+    if (input.userName !== user.email) {
+      const other = await this.scimRepo.findUserByEmail(context.rootOrganizationId, input.userName);
+      if (other && other.id !== user.id) {
+        throw new ScimError(409, 'A user with this userName already exists', 'uniqueness');
+      }
+    }
+    if (input.externalId && input.externalId !== record.externalId) {
+      await this.assertExternalIdAvailable(context, input.externalId, user.id);
+    }
+    const roles = input.roles ? await this.resolveRoles(context, input.roles) : undefined;
+
+    const status = input.active ? 'active' : 'suspended';
+    const statusChanged = input.active !== (user.status === 'active');
+    await this.userRepo.update(userId, {
+      firstName: input.name?.givenName ?? null,
+      lastName: input.name?.familyName ?? null,
+      ...(statusChanged ? { status } : {}),
+    });
+    if (input.userName !== user.email) {
+      await this.userRepo.updateEmail(userId, input.userName);
+    }
+    if (statusChanged && !input.active) {
+      await this.sessionService.revokeAllSessions(userId);
+    }
+    await this.scimRepo.setExternalId(context.providerId, userId, input.externalId ?? null, input.userName);
+    if (roles && (await this.syncRoles(context, userId, roles))) {
+      await this.permissionService.invalidate();
+    }
+
+    if (statusChanged) {
+      await this.audit(context, input.active ? 'scim_user_reactivated' : 'scim_user_deactivated', 'user', userId, {
+        email: input.userName,
+      });
+    }
+    await this.audit(context, 'scim_user_updated', 'user', userId, { email: input.userName });
+
+    return this.getUser(context, userId);
+  }
+
+  /**
+   * Applies PATCH operations to a user
+   * @throws ScimError (invalidPath, noTarget, invalidValue, uniqueness)
+   */
+  async patchUser(context: ScimContext, id: string, operations: ScimPatchOperation[]): Promise<ScimUser | null> {
+    const current = await this.getUser(context, id);
+    if (!current) {
+      return null;
+    }
+
+    const input = parseResource(scimUserInputSchema, applyScimPatch(current, operations));
+    return this.replaceUser(context, id, input);
+  }
+
+  /**
+   * Deprovisions a user: suspends the account, revokes its sessions and removes
+   * it from the organization
+   */
+  async deleteUser(context: ScimContext, id: string): Promise<boolean> {
+    const userId = createUserId(id);
+    const record = await this.scimRepo.findUser(context.organizationId, context.providerId, userId);
+    if (!record) {
+      return false;
+    }
+
+    if (record.user.status === 'active') {
+      await this.userRepo.update(userId, { status: 'suspended' });
+    }
+    await this.sessionService.revokeAllSessions(userId);
+
+    const memberships = await this.scimRepo.findGroupMemberships(context.organizationId, context.providerId, { userId });
+    for (const membership of memberships) {
+      await this.groupRepo.removeMember(membership.groupId, userId);
+    }
+    await this.syncRoles(context, userId, []);
+    await this.memberRepo.removeMember(userId, context.organizationId);
+    await this.permissionService.invalidate();
+
+    await this.audit(context, 'scim_user_deleted', 'user', userId, { email: record.user.email });
+    return true;
+  }
+
+  // ===========================================
+  // Groups
+  // ===========================================
+
+  /**
+   * Lists the organization's groups matching a filter
+   * @throws ScimError (invalidFilter) for malformed filters
+   */
+  async listGroups(context: ScimContext, query: ScimListQuery): Promise<ScimListResponse<ScimGroup>> {
+    const filter = query.filter ? parseScimFilter(query.filter) : null;
+
+    const [groups, memberships] = await Promise.all([
+      this.scimRepo.listGroups(context.organizationId),
+      this.scimRepo.findGroupMemberships(context.organizationId, context.providerId),
+    ]);
+    const membershipsByGroup = groupBy(memberships, (membership) => membership.groupId);
+
+    // Filter before excluding members: clients check membership with "members eq"
+    const resources = groups
+      .map((group) => toScimGroup(group, membershipsByGroup.get(group.id) ?? []))
+      .filter((resource) => !filter || matchesScimFilter(resource, filter));
+
+    const response = toListResponse(resources, query);
+    if (excludesMembers(query.excludedAttributes)) {
+      response.Resources = response.Resources.map(({ members: _members, ...group }) => group);
+    }
+    return response;
+  }
+
+  /**
+   * Gets a group of the organization
+   */
+  async getGroup(context: ScimContext, id: string): Promise<ScimGroup | null> {
+    const group = await this.findGroup(context, id);
+    if (!group) {
+      return null;
+    }
+
+    const memberships = await this.scimRepo.findGroupMemberships(context.organizationId, context.providerId, { groupId: group.id });
+    return toScimGroup(group, memberships);
+  }
+
+  /**
+   * Creates a group
+   * @throws ScimError (uniqueness, invalidValue)
+   */
+  async createGroup(context: ScimContext, input: ScimGroupInput): Promise<ScimGroup> {
+    if (!(await this.groupRepo.isNameAvailable(context.organizationId, input.displayName))) {
+      throw new ScimError(409, 'A group with this displayName already exists', 'uniqueness');
+    }
+    const memberIds = await this.resolveMembers(context, input.members ?? []);
+
+    const group = await this.groupRepo.create({
+      organizationId: context.organizationId,
+      name: input.displayName,
+      externalId: input.externalId ?? null,
+    });
+    for (const userId of memberIds) {
+      await this.groupRepo.addMember({ userId, groupId: group.id });
+    }
+    if (memberIds.length > 0) {
+      await this.permissionService.invalidate();
+    }
+
+    await this.audit(context, 'scim_group_created', 'group', group.id, {
+      name: group.name,
+      memberCount: memberIds.length,
+    });
+
+    return (await this.getGroup(context, group.id))!;
+  }
+
+  /**
+   * Replaces a group's attributes; members are only changed when given
+   * @throws ScimError (uniqueness, invalidValue)
+   */
+  async replaceGroup(context: ScimContext, id: string, input: ScimGroupInput): Promise<ScimGroup | null> {
+    const group = await this.findGroup(context, id);
+    if (!group) {
+      return null;
+    }
+
+    if (
+      input.displayName !== group.name &&
+      !(await this.groupRepo.isNameAvailable(context.organizationId, input.displayName, group.id))
+    ) {
+      throw new ScimError(409, 'A group with this displayName already exists', 'uniqueness');
+    }
+    const memberIds = input.members ? await this.resolveMembers(context, input.members) : undefined;
+
+    await this.groupRepo.update(group.id, { name: input.displayName, externalId: input.externalId ?? null });
+
+    let added = 0;
+    let removed = 0;
+    if (memberIds) {
+      const memberships = await this.scimRepo.findGroupMemberships(context.organizationId, context.providerId, { groupId: group.id });
+      const current = new Set(memberships.map((membership) => membership.userId));
+      const desired = new Set<string>(memberIds);
+
+      for (const userId of memberIds.filter((memberId) => !current.has(memberId))) {
+        await this.groupRepo.addMember({ userId, groupId: group.id });
+        added++;
+      }
+      for (const userId of [...current].filter((memberId) => !desired.has(memberId))) {
+        await this.groupRepo.removeMember(group.id, createUserId(userId));
+        removed++;
+      }
+    }
+    if (added + removed > 0) {
+      await this.permissionService.invalidate();
+    }
+
+    await this.audit(context, 'scim_group_updated', 'group', group.id, {
+      name: input.displayName,
+      membersAdded: added,
+      membersRemoved: removed,
+    });
+
+    return this.getGroup(context, group.id);
+  }
+
+  /**
+   * Applies PATCH operations to a group
+   * @throws ScimError (invalidPath, noTarget, invalidValue, uniqueness)
+   */
+  async patchGroup(context: ScimContext, id: string, operations: ScimPatchOperation[]): Promise<ScimGroup | null> {
+    const current = await this.getGroup(context, id);
+    if (!current) {
+      return null;
+    }
+
+    const input = parseResource(scimGroupInputSchema, applyScimPatch(current, operations));
+    return this.replaceGroup(context, id, { ...input, members: input.members ?? [] });
+  }
+
+  /**
+   * Deletes a group
+   */
+  async deleteGroup(context: ScimContext, id: string): Promise<boolean> {
+    const group = await this.findGroup(context, id);
+    if (!group) {
+      return false;
+    }
+
+    await this.groupRepo.delete(group.id);
+    await this.permissionService.invalidate();
+
+    await this.audit(context, 'scim_group_deleted', 'group', group.id, { name: group.name });
+    return true;
+  }
+
+  // ===========================================
+  // Helpers
+  // ===========================================
+
+  private async findGroup(context: ScimContext, id: string): Promise<UserGroup | null> {
+    const group = await this.groupRepo.findById(id);
+    return group && group.organizationId === context.organizationId ? group : null;
+  }
+
+  private async assertExternalIdAvailable(context: ScimContext, externalId: string, userId?: string): Promise<void> {
+    const linkedUserId = await this.scimRepo.findUserIdByExternalId(context.providerId, externalId);
+    if (linkedUserId && linkedUserId !== userId) {
+      throw new ScimError(409, 'A user with this externalId already exists', 'uniqueness');
+    }
+  }
+
+  /**
+   * Resolves role names to the organization's roles or system roles
+   */
+  private async resolveRoles(context: ScimContext, values: ScimValue[]): Promise<Role[]> {
+    const roles: Role[] = [];
+    for (const name of new Set(values.map((value) => value.value))) {
+      const role =
+        (await this.roleRepo.findByName(context.organizationId, name)) ?? (await this.roleRepo.findByName(null, name));
+      if (!role || role.name === 'Super Admin') {
+        throw new ScimError(400, `Unknown role "${name}"`, 'invalidValue');
+      }
+      roles.push(role);
+    }
+    return roles;
+  }
+
+  /**
+   * Makes the user's SSO role assignments match the given roles; roles the
+   * user already holds from another source are kept as they are.
+   * Returns whether anything changed.
+   */
+  private async syncRoles(context: ScimContext, userId: UserId, roles: Role[]): Promise<boolean> {
+    const assignments = await this.roleRepo.getUserRoleAssignments(userId, context.organizationId);
+    const assigned = new Set(assignments.map((assignment) => assignment.roleId));
+    const desired = new Set(roles.map((role) => role.id));
+    let changed = false;
+
+    for (const role of roles.filter((candidate) => !assigned.has(candidate.id))) {
+      await this.roleRepo.assignRoleToUser({
+        userId,
+        roleId: role.id,
+        organizationId: context.organizationId,
+        source: 'sso',
+      });
+      changed = true;
+    }
+    for (const assignment of assignments) {
+      if (assignment.source === 'sso' && !desired.has(assignment.roleId)) {
+        await this.roleRepo.removeRoleFromUser(userId, assignment.roleId, context.organizationId);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Checks that group members are members of the organization
+   */
+  private async resolveMembers(context: ScimContext, members: ScimValue[]): Promise<string[]> {
+    const userIds = [...new Set(members.map((member) => member.value))];
+    const memberIds = await this.scimRepo.findMemberIds(context.organizationId, context.providerId, userIds);
+    const unknown = userIds.find((userId) => !memberIds.has(userId));
+    if (unknown) {
+      throw new ScimError(400, `User ${unknown} is not a member of this organization`, 'invalidValue');
+    }
+    return userIds;
+  }
+
+  private async audit(
+    context: ScimContext,
+    action: string,
+    resourceType: 'user' | 'group',
+    resourceId: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await auditService.log({
+      category: 'user_management',
+      action,
+      organizationId: context.organizationId,
+      resourceType,
+      resourceId,
+      details: { ...details, providerId: context.providerId },
+    });
+  }
+}
+
+// Singleton instance
+let scimService: ScimService | null = null;
+
+export function getScimService(): ScimService {
+  if (!scimService) {
+    scimService = new ScimService();
+  }
+  return scimService;
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the session service
+ * Tests session listing (grouping by token family) and revocation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SessionService } from './session.service.js';
+import type { UserId } from '@argus/shared';
+import type { RefreshTokenRepository } from '../repositories/index.js';
+
+const USER_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7' as UserId;
+const LAPTOP = '3f1c2b7e-9a4d-4e8b-8c6f-1d2e3f4a5b6c';
+const PHONE = '8d7e6f5a-4b3c-4d2e-9f1a-0b9c8d7e6f5a';
+
+function token(familyId: string, createdAt: string, userAgent: string | null) {
+  return {
+    id: `token-${familyId}`,
+    userId: USER_ID,
+    familyId,
+    userAgent,
+    ipAddress: '203.0.113.7',
+    createdAt: new Date(createdAt),
+    expiresAt: new Date('2026-03-08T00:00:00Z'),
+  };
+}
+
+describe('SessionService', () => {
+  let refreshTokenRepo: {
+    getActiveSessions: ReturnType<typeof vi.fn>;
+    getFamilyStartTimes: ReturnType<typeof vi.fn>;
+    revokeUserSession: ReturnType<typeof vi.fn>;
+    revokeOtherUserSessions: ReturnType<typeof vi.fn>;
+    revokeAllUserTokens: ReturnType<typeof vi.fn>;
+  };
+  let service: SessionService;
+
+  beforeEach(() => {
+    refreshTokenRepo = {
+      getActiveSessions: vi.fn().mockResolvedValue([
+        token(LAPTOP, '2026-03-01T09:00:00Z', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/124.0.0.0 Safari/537.36'),
+        token(PHONE, '2026-03-01T11:00:00Z', null),
+      ]),
+      getFamilyStartTimes: vi.fn().mockResolvedValue(new Map([[LAPTOP, new Date('2026-02-27T08:00:00Z')]])),
+      revokeUserSession: vi.fn().mockResolvedValue(true),
+      revokeOtherUserSessions: vi.fn().mockResolvedValue(1),
+      revokeAllUserTokens: vi.fn().mockResolvedValue(2),
+    };
+    service = new SessionService(refreshTokenRepo as unknown as RefreshTokenRepository);
+  });
+
+  describe('listSessions', () => {
+    it('should describe each session and mark the current one', async () => {
+      const sessions = await service.listSessions(USER_ID, LAPTOP);
+
+      expect(refreshTokenRepo.getFamilyStartTimes).toHaveBeenCalledWith([LAPTOP, PHONE]);
+      expect(sessions.map((s) => s.id)).toEqual([PHONE, LAPTOP]);
+      expect(sessions[1]).toEqual({
+        id: LAPTOP,
+        browser: 'Chrome 124',
+        os: 'Windows',
+        deviceType: 'desktop',
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/124.0.0.0 Safari/537.36',
+        ipAddress: '203.0.113.7',
+        createdAt: '2026-02-27T08:00:00.000Z',
+        lastUsedAt: '2026-03-01T09:00:00.000Z',
+        expiresAt: '2026-03-08T00:00:00.000Z',
+        current: true,
+      });
+      expect(sessions[0]).toMatchObject({
+        browser: null,
+        deviceType: 'unknown',
+        createdAt: '2026-03-01T11:00:00.000Z',
+        current: false,
+      });
+    });
+
+    it('should mark no session current without a session ID', async () => {
+      const sessions = await service.listSessions(USER_ID);
+
+      expect(sessions.some((s) => s.current)).toBe(false);
+    });
+  });
+
+  describe('revocation', () => {
+    it('should revoke sessions of the given user only', async () => {
+      expect(await service.revokeSession(USER_ID, PHONE)).toBe(true);
+      expect(refreshTokenRepo.revokeUserSession).toHaveBeenCalledWith(USER_ID, PHONE);
+
+      expect(await service.revokeOtherSessions(USER_ID, LAPTOP)).toBe(1);
+      expect(refreshTokenRepo.revokeOtherUserSessions).toHaveBeenCalledWith(USER_ID, LAPTOP);
+
+      expect(await service.revokeAllSessions(USER_ID)).toBe(2);
+      expect(refreshTokenRepo.revokeAllUserTokens).toHaveBeenCalledWith(USER_ID);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Session Service
+ *
+ * Lists and revokes a user's sign-in sessions. A session is a refresh token
+ * family: created at login, continued by each token rotation (the family's
+ * single unrevoked token) and ended by logout, revocation or expiry. Access
+ * tokens carry their session's family ID in the sid claim, which marks the
+ * current session.
+ *
+ * Revoking a session stops it refreshing; its access token stays valid until
+ * it expires (at most 15 minutes).
+ */
+
+import type { SessionResponse, UserId } from '@argus/shared';
+import {
+  getRefreshTokenRepository,
+  type RefreshTokenRepository,
+} from '../repositories/refresh-token.repository.js';
+import { parseUserAgent } from '../utils/user-agent.js';
+
+/**
+ * Session Service class
+ */
+export class SessionService {
+  constructor(private refreshTokenRepo: RefreshTokenRepository = getRefreshTokenRepository()) {}
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  async listSessions(userId: UserId, currentSessionId?: string): Promise<SessionResponse[]> {
+    const tokens = await this.refreshTokenRepo.getActiveSessions(userId);
+    const startTimes = await this.refreshTokenRepo.getFamilyStartTimes(tokens.map((token) => token.familyId));
+
+    return tokens
+      .map((token) => ({
+        id: token.familyId,
+        ...parseUserAgent(token.userAgent),
+        userAgent: token.userAgent,
+        ipAddress: token.ipAddress,
+        createdAt: (startTimes.get(token.familyId) ?? token.createdAt).toISOString(),
+        // Each refresh issues a new token, so the active token's creation is the last use
+        lastUsedAt: token.createdAt.toISOString(),
+        expiresAt: token.expiresAt.toISOString(),
+        current: token.familyId === currentSessionId,
+      }))
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Revokes one session; returns false if the user has no such active session
+   */
+  async revokeSession(userId: UserId, sessionId: string): Promise<boolean> {
+    return this.refreshTokenRepo.revokeUserSession(userId, sessionId);
+  }
+
+  /**
+   * Revokes every session except the given one; returns the number revoked
+   */
+  async revokeOtherSessions(userId: UserId, currentSessionId: string): Promise<number> {
+    return this.refreshTokenRepo.revokeOtherUserSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Revokes every session of a user (password reset, suspension, admin action)
+   */
+  async revokeAllSessions(userId: UserId): Promise<number> {
+    return this.refreshTokenRepo.revokeAllUserTokens(userId);
+  }
+}
+
+// Singleton instance
+let sessionService: SessionService | null = null;
+
+export function getSessionService(): SessionService {
+  if (!sessionService) {
+    sessionService = new SessionService();
+  }
+  return sessionService;
+}
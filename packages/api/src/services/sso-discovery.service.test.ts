@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the SSO discovery service
+ * Tests home-realm discovery and SSO-required password login enforcement
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OrganizationId } from '@argus/shared';
+import { SsoDiscoveryService, getEmailDomain } from './sso-discovery.service.js';
+import { auditService } from './audit.service.js';
+import type { IdentityProviderRepository, UserOrganizationRepository } from '../repositories/index.js';
+
+vi.mock('./audit.service.js', () => ({
+  auditService: {
+    logAuth: vi.fn(),
+  },
+}));
+
+const ROOT_ORG_ID = '0b6f1c2e-3d4a-4b5c-8d6e-7f8091a2b3c4';
+const CHILD_ORG_ID = '1c7a2d3e-4f5b-4c6d-9e7f-8091a2b3c4d5';
+const PROVIDER_ID = '2d8b3e4f-5a6c-4d7e-8f90-91a2b3c4d5e6';
+const USER_ID = '3e9c4f5a-6b7d-4e8f-9a01-a2b3c4d5e6f7';
+
+const user = { id: USER_ID, email: 'ada@acme.example', rootOrganizationId: ROOT_ORG_ID };
+
+function createMatch(ssoRequired?: boolean) {
+  return {
+    provider: { id: PROVIDER_ID, type: 'oidc', name: 'acme-okta', displayName: 'Acme Okta' },
+    organization: {
+      id: CHILD_ORG_ID,
+      rootOrganizationId: ROOT_ORG_ID,
+      settings: ssoRequired === undefined ? null : { features: { ssoRequired } },
+    },
+  };
+}
+
+describe('getEmailDomain', () => {
+  it('should return the lowercased domain', () => {
+    expect(getEmailDomain('Ada@ACME.example')).toBe('acme.example');
+    expect(getEmailDomain('not-an-email')).toBeNull();
+    expect(getEmailDomain('ada@')).toBeNull();
+  });
+});
+
+describe('SsoDiscoveryService', () => {
+  let providerRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let memberRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: SsoDiscoveryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    providerRepo = {
+      findByEmailDomain: vi.fn().mockResolvedValue([createMatch(true)]),
+    };
+    memberRepo = {
+      findMembership: vi.fn().mockResolvedValue({ role: 'member' }),
+    };
+    service = new SsoDiscoveryService(
+      providerRepo as unknown as IdentityProviderRepository,
+      memberRepo as unknown as UserOrganizationRepository
+    );
+  });
+
+  describe('discover', () => {
+    it('should offer the password prompt when no provider claims the domain', async () => {
+      providerRepo.findByEmailDomain.mockResolvedValue([]);
+
+      expect(await service.discover('ada@example.com', ROOT_ORG_ID as OrganizationId)).toEqual({
+        method: 'password',
+        ssoRequired: false,
+        providers: [],
+      });
+    });
+
+    it('should not look up providers without a resolved root organization', async () => {
+      expect(await service.discover('ada@acme.example')).toEqual({ method: 'password', ssoRequired: false, providers: [] });
+      expect(providerRepo.findByEmailDomain).not.toHaveBeenCalled();
+    });
+
+    it('should redirect to matching providers of the resolved root organization', async () => {
+      const result = await service.discover('Ada@Acme.example', ROOT_ORG_ID as OrganizationId);
+
+      expect(providerRepo.findByEmailDomain).toHaveBeenCalledWith('acme.example', ROOT_ORG_ID);
+      expect(result).toEqual({
+        method: 'sso',
+        ssoRequired: true,
+        providers: [{ id: PROVIDER_ID, type: 'oidc', name: 'acme-okta', displayName: 'Acme Okta' }],
+      });
+    });
+  });
+
+  describe('findRequiredProvider', () => {
+    it('should allow passwords when the organization does not require SSO', async () => {
+      providerRepo.findByEmailDomain.mockResolvedValue([createMatch(false), createMatch()]);
+
+      expect(await service.findRequiredProvider(user)).toBeNull();
+    });
+
+    it('should require the provider for matching domains', async () => {
+      const provider = await service.findRequiredProvider(user);
+
+      expect(providerRepo.findByEmailDomain).toHaveBeenCalledWith('acme.example', ROOT_ORG_ID);
+      expect(provider).toMatchObject({ id: PROVIDER_ID });
+      expect(auditService.logAuth).not.toHaveBeenCalled();
+    });
+
+    it('should let owners of the root organization in and audit the bypass', async () => {
+      memberRepo.findMembership.mockImplementation(async (_userId: string, organizationId: string) =>
+        organizationId === ROOT_ORG_ID ? { role: 'owner' } : null
+      );
+
+      expect(await service.findRequiredProvider(user)).toBeNull();
+      expect(auditService.logAuth).toHaveBeenCalledWith(
+        'password_login_sso_bypass',
+        expect.objectContaining({ userId: USER_ID, details: expect.objectContaining({ reason: 'organization_owner' }) })
+      );
+    });
+  });
+});
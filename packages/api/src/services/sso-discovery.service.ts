@@ -0,0 +1,146 @@
+/**
+ * SSO Discovery Service
+ *
+ * Home-realm discovery for the login page: an email's domain is matched
+ * against the allowed domains of the organization's identity providers
+ * (identity_providers.allowed_domains) to decide between the password prompt
+ * and a redirect to the IdP.
+ *
+ * When the provider's organization sets features.ssoRequired, users with a
+ * matching email cannot sign in with a password. Owners of that organization
+ * (or of its root organization) keep password login as a break-glass
+ * account in case the IdP is unavailable; such logins are audited.
+ */
+
+import { createOrganizationId, type OrganizationId, type UserId } from '@argus/shared';
+import {
+  getIdentityProviderRepository,
+  type IdentityProvider,
+  type IdentityProviderRepository,
+  type IdentityProviderWithOrganization,
+} from '../repositories/identity-provider.repository.js';
+import {
+  getUserOrganizationRepository,
+  type UserOrganizationRepository,
+} from '../repositories/user-organization.repository.js';
+import type { User } from '../repositories/user.repository.js';
+import { auditService } from './audit.service.js';
+
+/** A provider the login page can redirect to */
+export interface SsoDiscoveryProvider {
+  id: string;
+  type: IdentityProvider['type'];
+  name: string;
+  displayName: string | null;
+}
+
+export interface SsoDiscoveryResult {
+  /** Whether to show the password prompt or redirect to an IdP */
+  method: 'password' | 'sso';
+  /** Whether password login is rejected for this domain (owners excepted) */
+  ssoRequired: boolean;
+  /** Matching providers, preferred first */
+  providers: SsoDiscoveryProvider[];
+}
+
+/**
+ * Gets the domain of an email address, lowercased
+ */
+export function getEmailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  const domain = at > 0 ? email.slice(at + 1).trim().toLowerCase() : '';
+  return domain || null;
+}
+
+function requiresSso(match: IdentityProviderWithOrganization): boolean {
+  return match.organization.settings?.features?.ssoRequired === true;
+}
+
+export class SsoDiscoveryService {
+  constructor(
+    private readonly providerRepo: IdentityProviderRepository = getIdentityProviderRepository(),
+    private readonly memberRepo: UserOrganizationRepository = getUserOrganizationRepository()
+  ) {}
+
+  /**
+   * Decides how a user with this email signs in
+   * Only the resolved root organization's providers are considered; without
+   * one (no subdomain) the answer is always the password prompt, so other
+   * tenants' providers are never revealed. The answer does not depend on
+   * whether an account exists for the email.
+   */
+  async discover(email: string, rootOrganizationId?: OrganizationId): Promise<SsoDiscoveryResult> {
+    const domain = getEmailDomain(email);
+    const matches =
+      domain && rootOrganizationId ? await this.providerRepo.findByEmailDomain(domain, rootOrganizationId) : [];
+    if (matches.length === 0) {
+      return { method: 'password', ssoRequired: false, providers: [] };
+    }
+
+    return {
+      method: 'sso',
+      ssoRequired: matches.some(requiresSso),
+      providers: matches.map(({ provider }) => ({
+        id: provider.id,
+        type: provider.type,
+        name: provider.name,
+        displayName: provider.displayName,
+      })),
+    };
+  }
+
+  /**
+   * Finds the identity provider a user must sign in with instead of a
+   * password, or null if password login is allowed
+   * Owners of the organization requiring SSO (or of its root) may still use
+   * their password; the bypass is audited.
+   */
+  async findRequiredProvider(
+    user: Pick<User, 'id' | 'email' | 'rootOrganizationId'>
+  ): Promise<IdentityProvider | null> {
+    const domain = getEmailDomain(user.email);
+    if (!domain) {
+      return null;
+    }
+    const matches = await this.providerRepo.findByEmailDomain(
+      domain,
+      createOrganizationId(user.rootOrganizationId)
+    );
+    const required = matches.find(requiresSso);
+    if (!required) {
+      return null;
+    }
+
+    const userId = user.id as UserId;
+    const { organization } = required;
+    const organizationIds = new Set([organization.id, organization.rootOrganizationId ?? organization.id]);
+    for (const organizationId of organizationIds) {
+      const membership = await this.memberRepo.findMembership(userId, createOrganizationId(organizationId));
+      if (membership?.role === 'owner') {
+        await auditService.logAuth('password_login_sso_bypass', {
+          userId,
+          userEmail: user.email,
+          outcome: 'success',
+          details: {
+            providerId: required.provider.id,
+            organizationId: organization.id,
+            reason: 'organization_owner',
+          },
+        });
+        return null;
+      }
+    }
+
+    return required.provider;
+  }
+}
+
+// Singleton instance
+let ssoDiscoveryService: SsoDiscoveryService | null = null;
+
+export function getSsoDiscoveryService(): SsoDiscoveryService {
+  if (!ssoDiscoveryService) {
+    ssoDiscoveryService = new SsoDiscoveryService();
+  }
+  return ssoDiscoveryService;
+}
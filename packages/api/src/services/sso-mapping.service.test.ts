@@ -0,0 +1,280 @@
+/**
+ * Unit tests for the SSO mapping service
+ * Tests claim resolution, rule matching and applying rules at login
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { UserId } from '@argus/shared';
+import {
+  SsoMappingService,
+  evaluateSsoMappingRules,
+  getClaimValues,
+  matchesMappingRule,
+} from './sso-mapping.service.js';
+import type {
+  GroupRepository,
+  IdentityProvider,
+  OrganizationRepository,
+  RoleRepository,
+  SsoMappingRepository,
+  SsoMappingRule,
+  UserOrganizationRepository,
+} from '../repositories/index.js';
+import type { PermissionService } from './permission.service.js';
+
+vi.mock('./audit.service.js', () => ({
+  auditService: {
+    log: vi.fn(),
+  },
+}));
+
+const ORG_ID = '0b6f1c2e-3d4a-4b5c-8d6e-7f8091a2b3c4';
+const CHILD_ORG_ID = '1c7a2d3e-4f5b-4c6d-9e7f-8091a2b3c4d5';
+const PROVIDER_ID = '2d8b3e4f-5a6c-4d7e-8f90-91a2b3c4d5e6';
+const USER_ID = '3e9c4f5a-6b7d-4e8f-9a01-a2b3c4d5e6f7' as UserId;
+const GROUP_ID = '5abe6b7c-8d9f-4a01-9c23-c4d5e6f70819';
+const OLD_GROUP_ID = '6bcf7c8d-9e0a-4b12-8d34-d5e6f708192a';
+const ROLE_ID = '7cd08d9e-0f1b-4c23-9e45-e6f708192a3b';
+
+function createRule(overrides: Partial<SsoMappingRule> = {}): SsoMappingRule {
+  return {
+    id: '8de19eaf-1a2c-4d34-8f56-f708192a3b4c',
+    providerId: PROVIDER_ID,
+    name: 'Operators',
+    claim: 'groups',
+    operator: 'equals',
+    value: 'Operators',
+    organizationId: ORG_ID,
+    organizationRole: 'member',
+    groupId: null,
+    roleId: null,
+    enabled: true,
+    createdAt: new Date('2026-03-01T09:00:00Z'),
+    updatedAt: new Date('2026-03-01T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+const claims = {
+  email: 'ada@example.com',
+  groups: ['Operators', 'Plant-North'],
+  department: 'Engineering',
+  realm_access: { roles: ['argus-admin'] },
+  'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups': 'Field Technicians',
+};
+
+describe('getClaimValues', () => {
+  it('should resolve plain, nested, multi-valued and dotted attribute names', () => {
+    expect(getClaimValues(claims, 'department')).toEqual(['Engineering']);
+    expect(getClaimValues(claims, 'groups')).toEqual(['Operators', 'Plant-North']);
+    expect(getClaimValues(claims, 'realm_access.roles')).toEqual(['argus-admin']);
+    expect(getClaimValues(claims, 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups')).toEqual([
+      'Field Technicians',
+    ]);
+    expect(getClaimValues(claims, 'missing')).toEqual([]);
+  });
+});
+
+describe('matchesMappingRule', () => {
+  it('should compare case-insensitively against any value', () => {
+    expect(matchesMappingRule(createRule({ value: 'operators' }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ operator: 'starts_with', value: 'plant-' }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ operator: 'contains', value: 'ERAT' }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ claim: 'email', operator: 'ends_with', value: '@example.com' }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ value: 'Admins' }), claims)).toBe(false);
+  });
+
+  it('should support regular expressions and presence checks', () => {
+    expect(matchesMappingRule(createRule({ operator: 'matches', value: '^plant-(north|south)$' }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ operator: 'matches', value: '(' }), claims)).toBe(false);
+    expect(matchesMappingRule(createRule({ claim: 'department', operator: 'exists', value: null }), claims)).toBe(true);
+    expect(matchesMappingRule(createRule({ claim: 'manager', operator: 'exists', value: null }), claims)).toBe(false);
+  });
+});
+
+describe('evaluateSsoMappingRules', () => {
+  it('should combine matching rules and keep the highest membership role', () => {
+    const result = evaluateSsoMappingRules(
+      [
+        createRule({ id: 'a', groupId: GROUP_ID }),
+        createRule({ id: 'b', claim: 'realm_access.roles', value: 'argus-admin', organizationRole: 'admin', roleId: ROLE_ID }),
+        createRule({ id: 'c', value: 'Operators', organizationId: CHILD_ORG_ID, organizationRole: 'viewer' }),
+        createRule({ id: 'd', value: 'Nobody' }),
+        createRule({ id: 'e', enabled: false, organizationRole: 'admin' }),
+      ],
+      claims
+    );
+
+    expect(result.matchedRules.map((rule) => rule.id)).toEqual(['a', 'b', 'c']);
+    expect([...result.memberships]).toEqual([
+      [ORG_ID, 'admin'],
+      [CHILD_ORG_ID, 'viewer'],
+    ]);
+    expect([...result.groups]).toEqual([[GROUP_ID, ORG_ID]]);
+    expect(result.roles).toEqual([{ organizationId: ORG_ID, roleId: ROLE_ID }]);
+  });
+});
+
+describe('SsoMappingService', () => {
+  let mappingRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let orgRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let memberRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let groupRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let roleRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let permissionService: Record<string, ReturnType<typeof vi.fn>>;
+  let service: SsoMappingService;
+
+  beforeEach(() => {
+    mappingRepo = {
+      findByProvider: vi.fn().mockResolvedValue([createRule({ groupId: GROUP_ID, roleId: ROLE_ID })]),
+      findGrants: vi.fn().mockResolvedValue([]),
+      addGrant: vi.fn(),
+      removeGrant: vi.fn().mockResolvedValue(true),
+    };
+    orgRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ORG_ID, name: 'Acme' }),
+      getDescendants: vi.fn().mockResolvedValue([{ id: CHILD_ORG_ID }]),
+    };
+    memberRepo = {
+      findMembership: vi.fn().mockResolvedValue(null),
+      addMember: vi.fn(),
+      updateRole: vi.fn(),
+      removeMember: vi.fn().mockResolvedValue(true),
+    };
+    groupRepo = {
+      findById: vi.fn().mockResolvedValue({ id: GROUP_ID, name: 'Operators', organizationId: ORG_ID }),
+      isMember: vi.fn().mockResolvedValue(false),
+      addMember: vi.fn(),
+      removeMember: vi.fn().mockResolvedValue(true),
+    };
+    roleRepo = {
+      findById: vi.fn().mockResolvedValue({ id: ROLE_ID, name: 'Operator', organizationId: null }),
+      userHasRole: vi.fn().mockResolvedValue(false),
+      assignRoleToUser: vi.fn(),
+      removeRoleFromUser: vi.fn().mockResolvedValue(true),
+    };
+    permissionService = { invalidate: vi.fn() };
+
+    service = new SsoMappingService(
+      mappingRepo as unknown as SsoMappingRepository,
+      orgRepo as unknown as OrganizationRepository,
+      memberRepo as unknown as UserOrganizationRepository,
+      groupRepo as unknown as GroupRepository,
+      roleRepo as unknown as RoleRepository,
+      permissionService as unknown as PermissionService
+    );
+  });
+
+  describe('applyMappings', () => {
+    it('should do nothing without rules or earlier grants', async () => {
+      mappingRepo.findByProvider.mockResolvedValue([]);
+
+      expect(await service.applyMappings(PROVIDER_ID, USER_ID, claims)).toBeNull();
+      expect(permissionService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should grant membership, group and SSO role and record the grants', async () => {
+      const changes = await service.applyMappings(PROVIDER_ID, USER_ID, claims);
+
+      expect(memberRepo.addMember).toHaveBeenCalledWith({ userId: USER_ID, organizationId: ORG_ID, role: 'member' });
+      expect(groupRepo.addMember).toHaveBeenCalledWith({ userId: USER_ID, groupId: GROUP_ID });
+      expect(roleRepo.assignRoleToUser).toHaveBeenCalledWith({
+        userId: USER_ID,
+        roleId: ROLE_ID,
+        organizationId: ORG_ID,
+        source: 'sso',
+      });
+      expect(mappingRepo.addGrant).toHaveBeenCalledTimes(3);
+      expect(changes!.added.map((grant) => grant.kind)).toEqual(['membership', 'group', 'role']);
+      expect(permissionService.invalidate).toHaveBeenCalled();
+    });
+
+    it('should not record access the user already had', async () => {
+      memberRepo.findMembership.mockResolvedValue({ role: 'admin' });
+      groupRepo.isMember.mockResolvedValue(true);
+      roleRepo.userHasRole.mockResolvedValue(true);
+
+      const changes = await service.applyMappings(PROVIDER_ID, USER_ID, claims);
+
+      expect(memberRepo.updateRole).not.toHaveBeenCalled();
+      expect(mappingRepo.addGrant).not.toHaveBeenCalled();
+      expect(changes).toEqual({ added: [], updated: [], removed: [] });
+      expect(permissionService.invalidate).not.toHaveBeenCalled();
+    });
+
+    it('should remove what rules that stopped matching had granted', async () => {
+      mappingRepo.findByProvider.mockResolvedValue([createRule({ value: 'Admins' })]);
+      mappingRepo.findGrants.mockResolvedValue([
+        { userId: USER_ID, providerId: PROVIDER_ID, kind: 'membership', organizationId: CHILD_ORG_ID, targetId: CHILD_ORG_ID },
+        { userId: USER_ID, providerId: PROVIDER_ID, kind: 'group', organizationId: ORG_ID, targetId: OLD_GROUP_ID },
+        { userId: USER_ID, providerId: PROVIDER_ID, kind: 'role', organizationId: ORG_ID, targetId: ROLE_ID },
+      ]);
+      memberRepo.findMembership.mockResolvedValue({ role: 'member' });
+
+      const changes = await service.applyMappings(PROVIDER_ID, USER_ID, claims);
+
+      expect(groupRepo.removeMember).toHaveBeenCalledWith(OLD_GROUP_ID, USER_ID);
+      expect(roleRepo.removeRoleFromUser).toHaveBeenCalledWith(USER_ID, ROLE_ID, ORG_ID);
+      expect(memberRepo.removeMember).toHaveBeenCalledWith(USER_ID, CHILD_ORG_ID);
+      expect(mappingRepo.removeGrant).toHaveBeenCalledTimes(3);
+      expect(changes!.removed.map((grant) => grant.kind)).toEqual(['group', 'role', 'membership']);
+    });
+
+    it('should keep the membership of owners', async () => {
+      mappingRepo.findByProvider.mockResolvedValue([]);
+      mappingRepo.findGrants.mockResolvedValue([
+        { userId: USER_ID, providerId: PROVIDER_ID, kind: 'membership', organizationId: ORG_ID, targetId: ORG_ID },
+      ]);
+      memberRepo.findMembership.mockResolvedValue({ role: 'owner' });
+
+      await service.applyMappings(PROVIDER_ID, USER_ID, claims);
+
+      expect(memberRepo.removeMember).not.toHaveBeenCalled();
+      expect(mappingRepo.removeGrant).toHaveBeenCalled();
+    });
+
+    it('should update the role of memberships it granted', async () => {
+      mappingRepo.findByProvider.mockResolvedValue([createRule({ organizationRole: 'admin' })]);
+      mappingRepo.findGrants.mockResolvedValue([
+        { userId: USER_ID, providerId: PROVIDER_ID, kind: 'membership', organizationId: ORG_ID, targetId: ORG_ID },
+      ]);
+      memberRepo.findMembership.mockResolvedValue({ role: 'member' });
+
+      const changes = await service.applyMappings(PROVIDER_ID, USER_ID, claims);
+
+      expect(memberRepo.updateRole).toHaveBeenCalledWith(USER_ID, ORG_ID, 'admin');
+      expect(changes!.updated).toHaveLength(1);
+    });
+  });
+
+  describe('findTargetError', () => {
+    const provider = { id: PROVIDER_ID, organizationId: ORG_ID } as IdentityProvider;
+
+    it('should accept the provider organization, its descendants and their groups and roles', async () => {
+      expect(await service.findTargetError(provider, { organizationId: ORG_ID, groupId: GROUP_ID, roleId: ROLE_ID })).toBeNull();
+      expect(await service.findTargetError(provider, { organizationId: CHILD_ORG_ID })).toBeNull();
+    });
+
+    it('should reject other organizations, foreign groups and Super Admin', async () => {
+      expect(await service.findTargetError(provider, { organizationId: OLD_GROUP_ID })).toMatch(/sub-organizations/);
+      expect(await service.findTargetError(provider, { organizationId: CHILD_ORG_ID, groupId: GROUP_ID })).toMatch(/Group/);
+
+      roleRepo.findById.mockResolvedValue({ id: ROLE_ID, name: 'Super Admin', organizationId: null });
+      expect(await service.findTargetError(provider, { organizationId: ORG_ID, roleId: ROLE_ID })).toMatch(/Role/);
+    });
+  });
+
+  describe('testMappings', () => {
+    it('should report matched rules and what they would grant with names', async () => {
+      const result = await service.testMappings(PROVIDER_ID, claims);
+
+      expect(result).toEqual({
+        matchedRules: [{ id: '8de19eaf-1a2c-4d34-8f56-f708192a3b4c', name: 'Operators' }],
+        organizations: [{ organizationId: ORG_ID, organizationName: 'Acme', role: 'member' }],
+        groups: [{ groupId: GROUP_ID, groupName: 'Operators', organizationId: ORG_ID }],
+        roles: [{ roleId: ROLE_ID, roleName: 'Operator', organizationId: ORG_ID }],
+      });
+      expect(memberRepo.addMember).not.toHaveBeenCalled();
+    });
+  });
+});
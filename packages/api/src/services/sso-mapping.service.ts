@@ -0,0 +1,483 @@
+/**
+ * SSO Mapping Service
+ *
+ * Applies an identity provider's mapping rules at SSO login. A rule compares
+ * one claim of the login profile (an OIDC claim, a SAML attribute or the
+ * group list) with a value. Every matching rule grants:
+ * - membership in the rule's organization with the rule's organization role
+ *   (the highest role wins when several rules target one organization)
+ * - optionally a user group and a role (source 'sso') in that organization
+ *
+ * Rules are re-evaluated on every login. What the rules create is recorded
+ * as grants, and grants whose rules no longer match are removed, so removing
+ * a user from an IdP group takes effect at their next login. Access the user
+ * already had from elsewhere is never touched, and owners keep their
+ * membership.
+ */
+
+import {
+  createOrganizationId,
+  type CreateSsoMappingRuleInput,
+  type SsoMappingMemberRole,
+  type SsoMappingTestResult,
+  type UpdateSsoMappingRuleInput,
+  type UserId,
+} from '@argus/shared';
+import {
+  getSsoMappingRepository,
+  type SsoMappingGrant,
+  type SsoMappingRepository,
+  type SsoMappingRule,
+} from '../repositories/sso-mapping.repository.js';
+import {
+  getOrganizationRepository,
+  type OrganizationRepository,
+} from '../repositories/organization.repository.js';
+import {
+  getUserOrganizationRepository,
+  type UserOrganizationRepository,
+} from '../repositories/user-organization.repository.js';
+import { getGroupRepository, type GroupRepository } from '../repositories/group.repository.js';
+import { getRoleRepository, type RoleRepository } from '../repositories/role.repository.js';
+import type { IdentityProvider } from '../repositories/identity-provider.repository.js';
+import type { SsoMappingGrantKind } from '../db/schema/index.js';
+import type { SsoProfile } from '../auth/sso-types.js';
+import { getPermissionService, type PermissionService } from './permission.service.js';
+import { auditService } from './audit.service.js';
+
+/** Claims and attributes of an SSO login, by name */
+export type SsoClaims = Record<string, unknown>;
+
+/** Access granted by the rules that matched */
+export interface SsoMappingResult {
+  matchedRules: SsoMappingRule[];
+  /** Organization ID -> membership role */
+  memberships: Map<string, SsoMappingMemberRole>;
+  /** User group ID -> organization ID */
+  groups: Map<string, string>;
+  roles: { organizationId: string; roleId: string }[];
+}
+
+/** A membership, group membership or role created or removed by mapping rules */
+export interface SsoMappingGrantRef {
+  kind: SsoMappingGrantKind;
+  organizationId: string;
+  targetId: string;
+}
+
+/** What applying the rules at a login changed */
+export interface SsoMappingChanges {
+  added: SsoMappingGrantRef[];
+  updated: SsoMappingGrantRef[];
+  removed: SsoMappingGrantRef[];
+}
+
+const MEMBER_ROLE_RANK: Record<SsoMappingMemberRole, number> = {
+  viewer: 1,
+  member: 2,
+  admin: 3,
+};
+
+/**
+ * Claims a login is evaluated against: the provider's raw profile plus the
+ * normalized email
+ */
+export function profileClaims(profile: SsoProfile): SsoClaims {
+  return { ...profile.rawProfile, email: profile.email };
+}
+
+function collectValues(value: unknown, values: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectValues(item, values));
+  } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    values.push(String(value));
+  }
+}
+
+function resolvePath(source: unknown, path: string, values: string[]): void {
+  if (Array.isArray(source)) {
+    source.forEach((item) => resolvePath(item, path, values));
+    return;
+  }
+  if (!source || typeof source !== 'object') {
+    return;
+  }
+  const record = source as Record<string, unknown>;
+  // SAML attribute names are URIs full of dots, so exact names win over paths
+  if (path in record) {
+    collectValues(record[path], values);
+    return;
+  }
+  for (let index = path.indexOf('.'); index > 0; index = path.indexOf('.', index + 1)) {
+    const head = path.slice(0, index);
+    if (head in record) {
+      resolvePath(record[head], path.slice(index + 1), values);
+      return;
+    }
+  }
+}
+
+/**
+ * Gets the scalar values of a claim; multi-valued claims are flattened
+ * Nested claims are addressed with dots, e.g. "realm_access.roles".
+ */
+export function getClaimValues(claims: SsoClaims, claim: string): string[] {
+  const values: string[] = [];
+  resolvePath(claims, claim, values);
+  return values;
+}
+
+/**
+ * Checks whether a rule's condition holds for the claims
+ * Comparisons are case-insensitive; any value of a multi-valued claim may match.
+ */
+export function matchesMappingRule(
+  rule: Pick<SsoMappingRule, 'claim' | 'operator' | 'value'>,
+  claims: SsoClaims
+): boolean {
+  const values = getClaimValues(claims, rule.claim).filter((value) => value !== '');
+  if (rule.operator === 'exists') {
+    return values.length > 0;
+  }
+  if (!rule.value) {
+    return false;
+  }
+
+  const expected = rule.value.toLowerCase();
+  let pattern: RegExp | null = null;
+  if (rule.operator === 'matches') {
+    try {
+      pattern = new RegExp(rule.value, 'i');
+    } catch {
+      return false;
+    }
+  }
+
+  return values.some((raw) => {
+    const value = raw.toLowerCase();
+    switch (rule.operator) {
+      case 'equals':
+        return value === expected;
+      case 'contains':
+        return value.includes(expected);
+      case 'starts_with':
+        return value.startsWith(expected);
+      case 'ends_with':
+        return value.endsWith(expected);
+      case 'matches':
+        return pattern!.test(raw);
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Evaluates rules against the claims; disabled rules are skipped
+ */
+export function evaluateSsoMappingRules(rules: SsoMappingRule[], claims: SsoClaims): SsoMappingResult {
+  const result: SsoMappingResult = {
+    matchedRules: [],
+    memberships: new Map(),
+    groups: new Map(),
+    roles: [],
+  };
+  const roleKeys = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.enabled || !matchesMappingRule(rule, claims)) {
+      continue;
+    }
+    result.matchedRules.push(rule);
+
+    const role = rule.organizationRole === 'owner' ? 'admin' : rule.organizationRole;
+    const current = result.memberships.get(rule.organizationId);
+    if (!current || MEMBER_ROLE_RANK[role] > MEMBER_ROLE_RANK[current]) {
+      result.memberships.set(rule.organizationId, role);
+    }
+    if (rule.groupId) {
+      result.groups.set(rule.groupId, rule.organizationId);
+    }
+    if (rule.roleId && !roleKeys.has(`${rule.organizationId}:${rule.roleId}`)) {
+      roleKeys.add(`${rule.organizationId}:${rule.roleId}`);
+      result.roles.push({ organizationId: rule.organizationId, roleId: rule.roleId });
+    }
+  }
+
+  return result;
+}
+
+function grantKey(grant: SsoMappingGrantRef): string {
+  return `${grant.kind}:${grant.organizationId}:${grant.targetId}`;
+}
+
+function toGrantRef(grant: SsoMappingGrant): SsoMappingGrantRef {
+  return { kind: grant.kind, organizationId: grant.organizationId, targetId: grant.targetId };
+}
+
+export class SsoMappingService {
+  constructor(
+    private readonly mappingRepo: SsoMappingRepository = getSsoMappingRepository(),
+    private readonly orgRepo: OrganizationRepository = getOrganizationRepository(),
+    private readonly memberRepo: UserOrganizationRepository = getUserOrganizationRepository(),
+    private readonly groupRepo: GroupRepository = getGroupRepository(),
+    private readonly roleRepo: RoleRepository = getRoleRepository(),
+    private readonly permissionService: PermissionService = getPermissionService()
+  ) {}
+
+  // ===========================================
+  // Rules
+  // ===========================================
+
+  /**
+   * Lists a provider's mapping rules
+   */
+  async listRules(providerId: string): Promise<SsoMappingRule[]> {
+    return this.mappingRepo.findByProvider(providerId);
+  }
+
+  /**
+   * Finds a rule of the provider
+   */
+  async findRule(providerId: string, ruleId: string): Promise<SsoMappingRule | null> {
+    const rule = await this.mappingRepo.findById(ruleId);
+    return rule && rule.providerId === providerId ? rule : null;
+  }
+
+  /**
+   * Checks a rule's targets: the organization must be the provider's
+   * organization or one of its descendants, the group must belong to it and
+   * the role must be one of its roles or a system role.
+   * Returns the problem, or null if the targets are valid.
+   */
+  async findTargetError(
+    provider: IdentityProvider,
+    target: { organizationId: string; groupId?: string | null; roleId?: string | null }
+  ): Promise<string | null> {
+    if (!provider.organizationId) {
+      return 'Mapping rules require an organization SSO connection';
+    }
+    if (target.organizationId !== provider.organizationId) {
+      const descendants = await this.orgRepo.getDescendants(createOrganizationId(provider.organizationId));
+      if (!descendants.some((org) => org.id === target.organizationId)) {
+        return 'Organization must be the connection\'s organization or one of its sub-organizations';
+      }
+    }
+    if (target.groupId) {
+      const group = await this.groupRepo.findById(target.groupId);
+      if (!group || group.organizationId !== target.organizationId) {
+        return 'Group not found in the target organization';
+      }
+    }
+    if (target.roleId) {
+      const role = await this.roleRepo.findById(target.roleId);
+      if (
+        !role ||
+        role.name === 'Super Admin' ||
+        (role.organizationId !== null && role.organizationId !== target.organizationId)
+      ) {
+        return 'Role not found in the target organization';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Creates a mapping rule (targets are checked with findTargetError first)
+   */
+  async createRule(provider: IdentityProvider, input: CreateSsoMappingRuleInput): Promise<SsoMappingRule> {
+    return this.mappingRepo.create({
+      providerId: provider.id,
+      name: input.name,
+      claim: input.claim,
+      operator: input.operator,
+      value: input.operator === 'exists' ? null : (input.value ?? null),
+      organizationId: input.organizationId ?? provider.organizationId!,
+      organizationRole: input.organizationRole,
+      groupId: input.groupId ?? null,
+      roleId: input.roleId ?? null,
+      enabled: input.enabled,
+    });
+  }
+
+  /**
+   * Updates a mapping rule
+   */
+  async updateRule(rule: SsoMappingRule, input: UpdateSsoMappingRuleInput): Promise<SsoMappingRule | null> {
+    const operator = input.operator ?? rule.operator;
+    return this.mappingRepo.update(rule.id, {
+      ...input,
+      ...(operator === 'exists' ? { value: null } : {}),
+    });
+  }
+
+  /**
+   * Deletes a mapping rule; what it granted is removed at each user's next login
+   */
+  async deleteRule(ruleId: string): Promise<boolean> {
+    return this.mappingRepo.delete(ruleId);
+  }
+
+  // ===========================================
+  // Evaluation
+  // ===========================================
+
+  /**
+   * Shows what a login with the given claims would be granted, without
+   * changing anything
+   */
+  async testMappings(providerId: string, claims: SsoClaims): Promise<SsoMappingTestResult> {
+    const rules = await this.mappingRepo.findByProvider(providerId, { enabledOnly: true });
+    const result = evaluateSsoMappingRules(rules, claims);
+
+    const organizations = await Promise.all(
+      [...result.memberships].map(async ([organizationId, role]) => ({
+        organizationId,
+        organizationName: (await this.orgRepo.findById(createOrganizationId(organizationId)))?.name ?? null,
+        role,
+      }))
+    );
+    const groups = await Promise.all(
+      [...result.groups].map(async ([groupId, organizationId]) => ({
+        groupId,
+        groupName: (await this.groupRepo.findById(groupId))?.name ?? null,
+        organizationId,
+      }))
+    );
+    const roles = await Promise.all(
+      result.roles.map(async ({ organizationId, roleId }) => ({
+        roleId,
+        roleName: (await this.roleRepo.findById(roleId))?.name ?? null,
+        organizationId,
+      }))
+    );
+
+    return {
+      matchedRules: result.matchedRules.map((rule) => ({ id: rule.id, name: rule.name })),
+      organizations,
+      groups,
+      roles,
+    };
+  }
+
+  /**
+   * Applies the provider's rules to a user at login: grants what matching
+   * rules give and removes what rules that no longer match had granted.
+   * Returns the changes, or null if the provider has no rules and never
+   * granted the user anything.
+   */
+  async applyMappings(providerId: string, userId: UserId, claims: SsoClaims): Promise<SsoMappingChanges | null> {
+    const [rules, grants] = await Promise.all([
+      this.mappingRepo.findByProvider(providerId, { enabledOnly: true }),
+      this.mappingRepo.findGrants(userId, providerId),
+    ]);
+    if (rules.length === 0 && grants.length === 0) {
+      return null;
+    }
+
+    const result = evaluateSsoMappingRules(rules, claims);
+    const granted = new Set(grants.map(grantKey));
+    const desired = new Set<string>();
+    const changes: SsoMappingChanges = { added: [], updated: [], removed: [] };
+
+    const grant = async (ref: SsoMappingGrantRef): Promise<void> => {
+      await this.mappingRepo.addGrant({ userId, providerId, ...ref });
+      changes.added.push(ref);
+    };
+
+    // Memberships first: groups and roles are only meaningful to members
+    for (const [organizationId, role] of result.memberships) {
+      const ref: SsoMappingGrantRef = { kind: 'membership', organizationId, targetId: organizationId };
+      desired.add(grantKey(ref));
+      const orgId = createOrganizationId(organizationId);
+      const membership = await this.memberRepo.findMembership(userId, orgId);
+      if (!membership) {
+        await this.memberRepo.addMember({ userId, organizationId, role });
+        await grant(ref);
+      } else if (granted.has(grantKey(ref)) && membership.role !== role && membership.role !== 'owner') {
+        await this.memberRepo.updateRole(userId, orgId, role);
+        changes.updated.push(ref);
+      }
+    }
+
+    for (const [groupId, organizationId] of result.groups) {
+      const ref: SsoMappingGrantRef = { kind: 'group', organizationId, targetId: groupId };
+      desired.add(grantKey(ref));
+      if (!(await this.groupRepo.isMember(groupId, userId))) {
+        await this.groupRepo.addMember({ userId, groupId });
+        await grant(ref);
+      }
+    }
+
+    for (const { organizationId, roleId } of result.roles) {
+      const ref: SsoMappingGrantRef = { kind: 'role', organizationId, targetId: roleId };
+      desired.add(grantKey(ref));
+      if (!(await this.roleRepo.userHasRole(userId, roleId, createOrganizationId(organizationId)))) {
+        await this.roleRepo.assignRoleToUser({ userId, roleId, organizationId, source: 'sso' });
+        await grant(ref);
+      }
+    }
+
+    // Grants of rules that stopped matching; memberships go last
+    const stale = grants
+      .filter((existing) => !desired.has(grantKey(existing)))
+      .sort((a, b) => Number(a.kind === 'membership') - Number(b.kind === 'membership'));
+    for (const existing of stale) {
+      await this.revokeGrant(userId, existing);
+      await this.mappingRepo.removeGrant(existing);
+      changes.removed.push(toGrantRef(existing));
+    }
+
+    const changed = changes.added.length + changes.updated.length + changes.removed.length > 0;
+    if (changed) {
+      await this.permissionService.invalidate();
+      await auditService.log({
+        category: 'authorization',
+        action: 'sso_mappings_applied',
+        userId,
+        resourceType: 'identity_provider',
+        resourceId: providerId,
+        details: {
+          matchedRules: result.matchedRules.map((rule) => rule.id),
+          added: changes.added,
+          updated: changes.updated,
+          removed: changes.removed,
+        },
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Removes the access behind a grant (owners keep their membership)
+   */
+  private async revokeGrant(userId: UserId, grant: SsoMappingGrant): Promise<void> {
+    const organizationId = createOrganizationId(grant.organizationId);
+    switch (grant.kind) {
+      case 'group':
+        await this.groupRepo.removeMember(grant.targetId, userId);
+        break;
+      case 'role':
+        await this.roleRepo.removeRoleFromUser(userId, grant.targetId, organizationId);
+        break;
+      case 'membership': {
+        const membership = await this.memberRepo.findMembership(userId, organizationId);
+        if (membership && membership.role !== 'owner') {
+          await this.memberRepo.removeMember(userId, organizationId);
+        }
+        break;
+      }
+    }
+  }
+}
+
+// Singleton instance
+let ssoMappingService: SsoMappingService | null = null;
+
+export function getSsoMappingService(): SsoMappingService {
+  if (!ssoMappingService) {
+    ssoMappingService = new SsoMappingService();
+  }
+  return ssoMappingService;
+}
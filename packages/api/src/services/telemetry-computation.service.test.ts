@@ -0,0 +1,364 @@
+/**
+ * Unit tests for the telemetry computation service
+ * Tests profile validation, derived metrics, windowed aggregations and child roll-ups
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  TelemetryComputationService,
+  aggregateWindow,
+  compileComputationProfile,
+  evaluateDerivedMetrics,
+  rollUpChildren,
+  windowStartOf,
+  type MetricValue,
+} from './telemetry-computation.service.js';
+import type { ComputationTarget, TelemetryRepository } from '../repositories/telemetry.repository.js';
+
+const ORG_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+const ASSET_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const PARENT_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const CHILD_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+const TYPE_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+const PARENT_TYPE_ID = '6f7a8b9c-0d1e-4f2a-9b4c-5d6e7f8a9b0c';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const METRIC_DEFINITIONS = {
+  metrics: [
+    { key: 'voltage', unit: 'V' },
+    { key: 'current', unit: 'A' },
+    { key: 'power_factor' },
+    { key: 'power', unit: 'W' },
+    { key: 'power_kw', unit: 'kW' },
+    { key: 'energy_hourly', unit: 'kWh' },
+    { key: 'total_power', unit: 'kW' },
+    { key: 'mode', dataType: 'string' },
+  ],
+};
+
+function value(amount: number, timestamp: Date = NOW, quality = 'good'): MetricValue {
+  return { value: amount, timestamp, quality };
+}
+
+function row(entityId: string, metricKey: string, amount: number, timestamp: Date = NOW, quality = 'good') {
+  return { entityId, metricKey, value: String(amount), timestamp, quality };
+}
+
+function createTarget(overrides: Partial<ComputationTarget> = {}): ComputationTarget {
+  return {
+    id: ASSET_ID,
+    tenantId: ORG_ID,
+    assetTypeId: TYPE_ID,
+    parentAssetId: null,
+    metricDefinitions: METRIC_DEFINITIONS,
+    transformationEngine: {
+      derivedMetrics: [
+        { target: 'power_kw', formula: 'power / 1000' },
+        { target: 'power', formula: 'voltage * current * power_factor' },
+      ],
+    },
+    aggregationRules: null,
+    telemetryConfigVersion: '1.2.0',
+    ...overrides,
+  };
+}
+
+describe('compileComputationProfile', () => {
+  it('should order derived metrics after the metrics they use', () => {
+    const profile = compileComputationProfile(createTarget());
+
+    expect(profile.errors).toEqual([]);
+    expect(profile.derivedMetrics.map((metric) => metric.target)).toEqual(['power', 'power_kw']);
+    expect(profile.units).toMatchObject({ power: 'W', power_kw: 'kW' });
+  });
+
+  it('should report invalid rules and leave them out', () => {
+    const profile = compileComputationProfile({
+      metricDefinitions: METRIC_DEFINITIONS,
+      transformationEngine: {
+        derivedMetrics: [
+          { target: 'power', formula: 'voltage * amps' },
+          { target: 'mode', formula: 'voltage' },
+          { target: 'power_kw', formula: 'voltage *' },
+          { target: 'unknown', formula: 'voltage' },
+        ],
+      },
+      aggregationRules: {
+        windows: [{ target: 'energy_hourly', source: 'flow', aggregation: 'integral', window: '1h' }],
+        rollups: [{ target: 'total_power', source: 'power_kw', aggregation: 'sum' }],
+      },
+    });
+
+    expect(profile.errors.map((error) => error.path)).toEqual([
+      'transformationEngine.derivedMetrics[0].formula',
+      'transformationEngine.derivedMetrics[1].target',
+      'transformationEngine.derivedMetrics[2].formula',
+      'transformationEngine.derivedMetrics[3].target',
+      'aggregationRules.windows[0].source',
+    ]);
+    expect(profile.derivedMetrics).toEqual([]);
+    expect(profile.rollups).toHaveLength(1);
+  });
+
+  it('should reject metrics computed twice and circular formulas', () => {
+    const profile = compileComputationProfile({
+      metricDefinitions: METRIC_DEFINITIONS,
+      transformationEngine: {
+        derivedMetrics: [
+          { target: 'power', formula: 'power_kw * 1000' },
+          { target: 'power_kw', formula: 'power / 1000' },
+        ],
+      },
+      aggregationRules: { rollups: [{ target: 'power', source: 'power', aggregation: 'sum' }] },
+    });
+
+    expect(profile.errors).toEqual([
+      expect.objectContaining({ message: 'Circular dependency between derived metrics: power, power_kw' }),
+      expect.objectContaining({ message: 'Metric "power" is computed by more than one rule' }),
+    ]);
+    expect(profile.derivedMetrics).toEqual([]);
+  });
+});
+
+describe('evaluateDerivedMetrics', () => {
+  const { derivedMetrics } = compileComputationProfile(createTarget());
+  const earlier = new Date('2026-03-01T11:59:00Z');
+
+  it('should compute metrics whose inputs were updated, feeding later metrics', () => {
+    const latest = new Map([
+      ['voltage', value(230)],
+      ['current', value(10, earlier)],
+      ['power_factor', value(0.9, earlier)],
+    ]);
+
+    const results = evaluateDerivedMetrics(derivedMetrics, latest, NOW, 900);
+
+    expect(results.map((result) => [result.metricKey, result.value, result.quality])).toEqual([
+      ['power', 2070, 'good'],
+      ['power_kw', 2.07, 'good'],
+    ]);
+    expect(results[0].metadata).toMatchObject({ computation: 'derived', formula: 'voltage * current * power_factor' });
+  });
+
+  it('should not recompute metrics without updated inputs', () => {
+    const latest = new Map([
+      ['voltage', value(230, earlier)],
+      ['current', value(10, earlier)],
+      ['power_factor', value(0.9, earlier)],
+    ]);
+
+    expect(evaluateDerivedMetrics(derivedMetrics, latest, NOW, 900)).toEqual([]);
+  });
+
+  it('should mark results with stale or uncertain inputs as uncertain', () => {
+    const latest = new Map([
+      ['voltage', value(230)],
+      ['current', value(10, new Date('2026-03-01T11:00:00Z'))],
+      ['power_factor', value(0.9)],
+    ]);
+
+    const results = evaluateDerivedMetrics(derivedMetrics, latest, NOW, 900);
+
+    expect(results.map((result) => result.quality)).toEqual(['uncertain', 'uncertain']);
+  });
+
+  it('should skip formulas that produce no finite number', () => {
+    const { derivedMetrics: ratio } = compileComputationProfile({
+      metricDefinitions: METRIC_DEFINITIONS,
+      transformationEngine: { derivedMetrics: [{ target: 'power', formula: 'voltage / current' }] },
+      aggregationRules: null,
+    });
+
+    expect(evaluateDerivedMetrics(ratio, new Map([['voltage', value(230)], ['current', value(0)]]), NOW, 900)).toEqual(
+      []
+    );
+  });
+});
+
+describe('aggregateWindow', () => {
+  const hour = new Date('2026-03-01T11:00:00Z');
+  const readings = [
+    value(2, new Date('2026-03-01T11:00:00Z')),
+    value(4, new Date('2026-03-01T11:30:00Z')),
+    value(6, new Date('2026-03-01T11:45:00Z')),
+  ];
+
+  it('should integrate step-held readings in value-hours', () => {
+    const rule = { target: 'energy_hourly', source: 'power_kw', aggregation: 'integral', window: '1h' } as const;
+
+    const result = aggregateWindow(rule, readings, hour, 1800);
+
+    expect(result).toMatchObject({ metricKey: 'energy_hourly', value: 3.5, timestamp: hour, quality: 'good' });
+    expect(result!.metadata).toMatchObject({ windowEnd: NOW.toISOString(), samples: 3 });
+  });
+
+  it('should aggregate values and flag gaps longer than staleAfterSeconds', () => {
+    const rule = { target: 'energy_hourly', source: 'power_kw', aggregation: 'avg', window: '1h' } as const;
+
+    const result = aggregateWindow(rule, readings, hour, 900);
+
+    expect(result).toMatchObject({ value: 4, quality: 'uncertain' });
+  });
+
+  it('should compute nothing for empty windows', () => {
+    const rule = { target: 'energy_hourly', source: 'power_kw', aggregation: 'sum', window: '1h' } as const;
+
+    expect(aggregateWindow(rule, [], hour, 900)).toBeNull();
+  });
+
+  it('should align windows to UTC hours and days', () => {
+    const at = new Date('2026-03-01T11:42:10Z');
+
+    expect(windowStartOf(at, '1h')).toEqual(new Date('2026-03-01T11:00:00Z'));
+    expect(windowStartOf(at, '1d')).toEqual(new Date('2026-03-01T00:00:00Z'));
+  });
+});
+
+describe('rollUpChildren', () => {
+  const rule = { target: 'total_power', source: 'power_kw', aggregation: 'sum' } as const;
+
+  it('should aggregate the latest values of the children', () => {
+    expect(rollUpChildren(rule, [value(2), value(3)], NOW, 900)).toMatchObject({ value: 5, quality: 'good' });
+  });
+
+  it('should mark the result uncertain when a child has not reported', () => {
+    const result = rollUpChildren(rule, [value(2), null], NOW, 900);
+
+    expect(result).toMatchObject({ value: 2, quality: 'uncertain' });
+    expect(result!.metadata).toMatchObject({ children: 2, reporting: 1 });
+  });
+
+  it('should compute nothing when no child has reported', () => {
+    expect(rollUpChildren(rule, [null], NOW, 900)).toBeNull();
+  });
+});
+
+describe('TelemetryComputationService', () => {
+  let telemetryRepo: Record<string, ReturnType<typeof vi.fn>>;
+  let service: TelemetryComputationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    telemetryRepo = {
+      findComputationTarget: vi.fn().mockResolvedValue(createTarget()),
+      findLatest: vi.fn().mockResolvedValue([
+        row(ASSET_ID, 'voltage', 230),
+        row(ASSET_ID, 'current', 10),
+        row(ASSET_ID, 'power_factor', 0.9),
+      ]),
+      findRange: vi.fn().mockResolvedValue([]),
+      findChildAssetIds: vi.fn().mockResolvedValue([]),
+      findLatestForEntities: vi.fn().mockResolvedValue([]),
+      insertComputed: vi.fn().mockImplementation(async (_tenantId, rows: unknown[]) => rows.length),
+    };
+    service = new TelemetryComputationService(telemetryRepo as unknown as TelemetryRepository);
+  });
+
+  it('should store derived metrics with their unit and config version', async () => {
+    const results = await service.compute(ORG_ID, [ASSET_ID], NOW);
+
+    expect(results).toEqual([{ assetId: ASSET_ID, written: 2 }]);
+    expect(telemetryRepo.insertComputed).toHaveBeenCalledWith(ORG_ID, [
+      expect.objectContaining({
+        entityId: ASSET_ID,
+        entityType: 'asset',
+        metricKey: 'power',
+        value: '2070',
+        unit: 'W',
+        quality: 'good',
+        timestamp: NOW,
+        metadata: expect.objectContaining({ computation: 'derived', configVersion: '1.2.0' }),
+      }),
+      expect.objectContaining({ metricKey: 'power_kw', value: '2.07' }),
+    ]);
+  });
+
+  it('should aggregate closed windows on the first reading of a new window', async () => {
+    const aggregationRules = {
+      windows: [{ target: 'energy_hourly', source: 'power_kw', aggregation: 'integral', window: '1h' }],
+    };
+    telemetryRepo.findComputationTarget.mockResolvedValue(createTarget({ aggregationRules }));
+    telemetryRepo.findLatest.mockImplementation(async (_tenantId, _entityId, metricKeys: string[]) =>
+      metricKeys.includes('energy_hourly')
+        ? [row(ASSET_ID, 'energy_hourly', 1.5, new Date('2026-03-01T10:00:00Z'))]
+        : [row(ASSET_ID, 'voltage', 230), row(ASSET_ID, 'current', 10), row(ASSET_ID, 'power_factor', 0.9)]
+    );
+    telemetryRepo.findRange
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        row(ASSET_ID, 'power_kw', 2, new Date('2026-03-01T11:00:00Z')),
+        row(ASSET_ID, 'power_kw', 4, new Date('2026-03-01T11:30:00Z')),
+      ]);
+
+    await service.compute(ORG_ID, [ASSET_ID], NOW);
+
+    expect(telemetryRepo.findRange).toHaveBeenLastCalledWith(
+      ORG_ID,
+      ASSET_ID,
+      'power_kw',
+      new Date('2026-03-01T11:00:00Z'),
+      new Date(NOW.getTime() - 1),
+      10000
+    );
+    expect(telemetryRepo.insertComputed).toHaveBeenLastCalledWith(ORG_ID, [
+      expect.objectContaining({
+        metricKey: 'energy_hourly',
+        value: '3',
+        unit: 'kWh',
+        timestamp: new Date('2026-03-01T11:00:00Z'),
+      }),
+    ]);
+  });
+
+  it('should not aggregate windows again within the same window', async () => {
+    const at = new Date('2026-03-01T12:05:00Z');
+    const aggregationRules = {
+      windows: [{ target: 'energy_hourly', source: 'voltage', aggregation: 'sum', window: '1h' }],
+    };
+    telemetryRepo.findComputationTarget.mockResolvedValue(
+      createTarget({ transformationEngine: null, aggregationRules })
+    );
+    telemetryRepo.findLatest.mockResolvedValue([row(ASSET_ID, 'voltage', 231, at)]);
+    telemetryRepo.findRange.mockResolvedValue([row(ASSET_ID, 'voltage', 230, NOW)]);
+
+    await service.compute(ORG_ID, [ASSET_ID], at);
+
+    expect(telemetryRepo.findRange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should roll child metrics up to the parent', async () => {
+    telemetryRepo.findComputationTarget.mockImplementation(async (_tenantId, assetId: string) =>
+      assetId === ASSET_ID
+        ? createTarget({ parentAssetId: PARENT_ID })
+        : createTarget({
+            id: PARENT_ID,
+            assetTypeId: PARENT_TYPE_ID,
+            transformationEngine: null,
+            aggregationRules: { rollups: [{ target: 'total_power', source: 'power_kw', aggregation: 'sum' }] },
+          })
+    );
+    telemetryRepo.findChildAssetIds.mockResolvedValue([ASSET_ID, CHILD_ID]);
+    telemetryRepo.findLatestForEntities.mockResolvedValue([
+      row(ASSET_ID, 'power_kw', 2.07),
+      row(CHILD_ID, 'power_kw', 1.5),
+    ]);
+
+    const results = await service.compute(ORG_ID, [ASSET_ID], NOW);
+
+    expect(results).toEqual([
+      { assetId: ASSET_ID, written: 2 },
+      { assetId: PARENT_ID, written: 1 },
+    ]);
+    expect(telemetryRepo.findLatestForEntities).toHaveBeenCalledWith(ORG_ID, [ASSET_ID, CHILD_ID], ['power_kw']);
+    expect(telemetryRepo.insertComputed).toHaveBeenCalledWith(ORG_ID, [
+      expect.objectContaining({ entityId: PARENT_ID, metricKey: 'total_power', value: '3.57', quality: 'good' }),
+    ]);
+  });
+
+  it('should skip unknown assets', async () => {
+    telemetryRepo.findComputationTarget.mockResolvedValue(null);
+
+    expect(await service.compute(ORG_ID, [ASSET_ID], NOW)).toEqual([]);
+    expect(telemetryRepo.insertComputed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,618 @@
+/**
+ * Telemetry Computation Service
+ *
+ * Materializes computed asset metrics into telemetry_history, as declared by
+ * the asset type:
+ * - derived metrics (transformation_engine.derivedMetrics): expressions over
+ *   the latest values of the asset's metrics, e.g.
+ *   power = voltage * current * power_factor; computed when one of their
+ *   inputs receives a reading, in dependency order
+ * - windowed aggregations (aggregation_rules.windows): sum/avg/min/max/count
+ *   or time-weighted integral of a metric over closed UTC hours or days
+ *   (hourly energy, daily runtime hours); closed windows are computed when the
+ *   first reading of the next window arrives, catching up on missed ones
+ * - roll-ups (aggregation_rules.rollups): aggregates over the latest values of
+ *   the child assets (parentAssetId); recomputed when a child receives
+ *   readings, and rolled further up when they change
+ *
+ * Results are stored with quality 'uncertain' when an input is older than the
+ * profile's staleAfterSeconds (for windows: a gap that long), is not 'good',
+ * or a child has not reported. Rows record the telemetry_config_version they
+ * were computed with in metadata.configVersion.
+ */
+
+import {
+  aggregationRulesSchema,
+  transformationEngineSchema,
+  DEFAULT_STALE_AFTER_SECONDS,
+  type AggregationWindow,
+  type ChildRollup,
+  type WindowedAggregation,
+} from '@argus/shared';
+import { compileExpression, ExpressionError, type CompiledExpression } from '../utils/expression.js';
+import { readMetricDefinitions } from '../workers/telemetry-attribution.js';
+import {
+  getTelemetryRepository,
+  type ComputationTarget,
+  type TelemetryRepository,
+} from '../repositories/telemetry.repository.js';
+import type { TelemetryHistory } from '../db/schema/telemetry-history.js';
+
+/** Window widths in milliseconds */
+export const WINDOW_MS: Record<AggregationWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+/** Upper bound on closed windows computed at once after a silence */
+export const MAX_BACKFILL_WINDOWS = 24;
+
+/** Upper bound on readings aggregated per pass of a window rule */
+export const MAX_WINDOW_READINGS = 10000;
+
+/** Upper bound on parent levels roll-ups are propagated through */
+export const MAX_COMPUTATION_DEPTH = 16;
+
+export interface ComputationProfileError {
+  path: string;
+  message: string;
+}
+
+export interface CompiledDerivedMetric {
+  target: string;
+  formula: string;
+  expression: CompiledExpression;
+}
+
+/** Computations of an asset type, with invalid rules left out */
+export interface CompiledComputationProfile {
+  /** In evaluation order: after the derived metrics they use */
+  derivedMetrics: CompiledDerivedMetric[];
+  windows: WindowedAggregation[];
+  rollups: ChildRollup[];
+  derivedStaleAfterSeconds: number;
+  aggregationStaleAfterSeconds: number;
+  /** Units of computed metrics, from the metric definitions */
+  units: Record<string, string>;
+  errors: ComputationProfileError[];
+}
+
+export interface StoredComputationProfile {
+  metricDefinitions: unknown;
+  transformationEngine: unknown;
+  aggregationRules: unknown;
+}
+
+/** A usable metric value */
+export interface MetricValue {
+  value: number;
+  timestamp: Date;
+  quality: string | null;
+}
+
+export interface ComputedReading {
+  metricKey: string;
+  value: number;
+  timestamp: Date;
+  quality: 'good' | 'uncertain';
+  metadata: Record<string, unknown>;
+}
+
+export interface ComputationResult {
+  assetId: string;
+  written: number;
+}
+
+function formatIssues(error: { issues: Array<{ message: string }> }): string {
+  return error.issues.map((issue) => issue.message).join('; ');
+}
+
+/**
+ * Orders derived metrics so each comes after the derived metrics it uses;
+ * metrics in a dependency cycle are reported and left out
+ */
+function orderByDependencies(
+  metrics: CompiledDerivedMetric[],
+  errors: ComputationProfileError[]
+): CompiledDerivedMetric[] {
+  const targets = new Set(metrics.map((metric) => metric.target));
+  const done = new Set<string>();
+  const ordered: CompiledDerivedMetric[] = [];
+  let remaining = metrics;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((metric) =>
+      metric.expression.variables.every((name) => !targets.has(name) || done.has(name))
+    );
+    if (ready.length === 0) {
+      errors.push({
+        path: 'transformationEngine.derivedMetrics',
+        message: `Circular dependency between derived metrics: ${remaining.map((metric) => metric.target).join(', ')}`,
+      });
+      break;
+    }
+    for (const metric of ready) {
+      ordered.push(metric);
+      done.add(metric.target);
+    }
+    remaining = remaining.filter((metric) => !done.has(metric.target));
+  }
+  return ordered;
+}
+
+/**
+ * Validates the computations of an asset type and prepares their formulas
+ *
+ * Computed metrics must be numeric metrics of the type's metric definitions,
+ * computed by one rule only; formula inputs and window sources must be
+ * defined metrics. Invalid rules are reported in `errors` and left out.
+ */
+export function compileComputationProfile(stored: StoredComputationProfile): CompiledComputationProfile {
+  const errors: ComputationProfileError[] = [];
+  const definitions = readMetricDefinitions(stored.metricDefinitions);
+  const computed = new Set<string>();
+  const units: Record<string, string> = {};
+
+  function checkTarget(path: string, target: string): boolean {
+    const definition = definitions.get(target);
+    if (!definition) {
+      errors.push({ path, message: `Metric "${target}" is not defined by the asset type` });
+      return false;
+    }
+    if (definition.dataType !== 'numeric') {
+      errors.push({ path, message: `Metric "${target}" is not numeric` });
+      return false;
+    }
+    if (computed.has(target)) {
+      errors.push({ path, message: `Metric "${target}" is computed by more than one rule` });
+      return false;
+    }
+    computed.add(target);
+    if (definition.unit) units[target] = definition.unit;
+    return true;
+  }
+
+  let derivedMetrics: CompiledDerivedMetric[] = [];
+  let derivedStaleAfterSeconds = DEFAULT_STALE_AFTER_SECONDS;
+  if (stored.transformationEngine != null) {
+    const parsed = transformationEngineSchema.safeParse(stored.transformationEngine);
+    if (!parsed.success) {
+      errors.push({ path: 'transformationEngine', message: `Invalid transformationEngine: ${formatIssues(parsed.error)}` });
+    } else {
+      derivedStaleAfterSeconds = parsed.data.staleAfterSeconds;
+      const candidates: CompiledDerivedMetric[] = [];
+      parsed.data.derivedMetrics.forEach((metric, index) => {
+        const path = `transformationEngine.derivedMetrics[${index}]`;
+        let expression: CompiledExpression;
+        try {
+          expression = compileExpression(metric.formula);
+        } catch (error) {
+          errors.push({ path: `${path}.formula`, message: (error as Error).message });
+          return;
+        }
+        const undefinedInput = expression.variables.find((name) => !definitions.has(name));
+        if (undefinedInput) {
+          errors.push({
+            path: `${path}.formula`,
+            message: `Metric "${undefinedInput}" is not defined by the asset type`,
+          });
+          return;
+        }
+        if (checkTarget(`${path}.target`, metric.target)) {
+          candidates.push({ target: metric.target, formula: metric.formula, expression });
+        }
+      });
+      derivedMetrics = orderByDependencies(candidates, errors);
+    }
+  }
+
+  const windows: WindowedAggregation[] = [];
+  const rollups: ChildRollup[] = [];
+  let aggregationStaleAfterSeconds = DEFAULT_STALE_AFTER_SECONDS;
+  if (stored.aggregationRules != null) {
+    const parsed = aggregationRulesSchema.safeParse(stored.aggregationRules);
+    if (!parsed.success) {
+      errors.push({ path: 'aggregationRules', message: `Invalid aggregationRules: ${formatIssues(parsed.error)}` });
+    } else {
+      aggregationStaleAfterSeconds = parsed.data.staleAfterSeconds;
+      parsed.data.windows.forEach((rule, index) => {
+        const path = `aggregationRules.windows[${index}]`;
+        if (!definitions.has(rule.source)) {
+          errors.push({ path: `${path}.source`, message: `Metric "${rule.source}" is not defined by the asset type` });
+        } else if (rule.source === rule.target) {
+          errors.push({ path: `${path}.target`, message: 'A window cannot be stored under its source metric' });
+        } else if (checkTarget(`${path}.target`, rule.target)) {
+          windows.push(rule);
+        }
+      });
+      parsed.data.rollups.forEach((rule, index) => {
+        if (checkTarget(`aggregationRules.rollups[${index}].target`, rule.target)) {
+          rollups.push(rule);
+        }
+      });
+    }
+  }
+
+  return {
+    derivedMetrics,
+    windows,
+    rollups,
+    derivedStaleAfterSeconds,
+    aggregationStaleAfterSeconds,
+    units,
+    errors,
+  };
+}
+
+/**
+ * Converts a history row into a usable value; null for non-numeric and bad
+ * quality readings
+ */
+export function toMetricValue(row: Pick<TelemetryHistory, 'value' | 'timestamp' | 'quality'>): MetricValue | null {
+  if (row.value === null || row.quality === 'bad') return null;
+  const value = Number(row.value);
+  return Number.isFinite(value) ? { value, timestamp: row.timestamp, quality: row.quality } : null;
+}
+
+function isStale(input: MetricValue, at: Date, staleAfterSeconds: number): boolean {
+  return (
+    (input.quality ?? 'good') !== 'good' || at.getTime() - input.timestamp.getTime() > staleAfterSeconds * 1000
+  );
+}
+
+/**
+ * Start of the UTC window containing a time
+ */
+export function windowStartOf(at: Date, window: AggregationWindow): Date {
+  const width = WINDOW_MS[window];
+  return new Date(Math.floor(at.getTime() / width) * width);
+}
+
+/**
+ * Evaluates derived metrics in order. A metric is computed only when one of
+ * its inputs was updated at `at`; computed values feed later metrics.
+ */
+export function evaluateDerivedMetrics(
+  derivedMetrics: CompiledDerivedMetric[],
+  latest: Map<string, MetricValue>,
+  at: Date,
+  staleAfterSeconds: number
+): ComputedReading[] {
+  const values = new Map(latest);
+  const results: ComputedReading[] = [];
+
+  for (const metric of derivedMetrics) {
+    const inputs = metric.expression.variables.map((name) => [name, values.get(name)] as const);
+    if (inputs.some(([, input]) => !input)) continue;
+    if (!inputs.some(([, input]) => input!.timestamp >= at)) continue;
+
+    let value: number;
+    try {
+      value = metric.expression.evaluate(Object.fromEntries(inputs.map(([name, input]) => [name, input!.value])));
+    } catch (error) {
+      // Division by zero and the like: nothing to store for this reading
+      if (error instanceof ExpressionError) continue;
+      throw error;
+    }
+
+    const quality = inputs.some(([, input]) => isStale(input!, at, staleAfterSeconds)) ? 'uncertain' : 'good';
+    values.set(metric.target, { value, timestamp: at, quality });
+    results.push({
+      metricKey: metric.target,
+      value,
+      timestamp: at,
+      quality,
+      metadata: {
+        computation: 'derived',
+        formula: metric.formula,
+        inputs: Object.fromEntries(inputs.map(([name, input]) => [name, input!.timestamp.toISOString()])),
+      },
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Aggregates the readings (oldest first) of one window. Returns null for a
+ * window without readings.
+ */
+export function aggregateWindow(
+  rule: WindowedAggregation,
+  readings: MetricValue[],
+  windowStart: Date,
+  staleAfterSeconds: number
+): ComputedReading | null {
+  if (readings.length === 0) return null;
+
+  const windowEnd = new Date(windowStart.getTime() + WINDOW_MS[rule.window]);
+  const values = readings.map((reading) => reading.value);
+  const sum = values.reduce((total, value) => total + value, 0);
+
+  let value: number;
+  switch (rule.aggregation) {
+    case 'sum':
+      value = sum;
+      break;
+    case 'avg':
+      value = sum / values.length;
+      break;
+    case 'min':
+      value = Math.min(...values);
+      break;
+    case 'max':
+      value = Math.max(...values);
+      break;
+    case 'count':
+      value = values.length;
+      break;
+    case 'integral':
+      // Each reading holds until the next one (the last until the window end)
+      value = readings.reduce((total, reading, index) => {
+        const until = index + 1 < readings.length ? readings[index + 1].timestamp : windowEnd;
+        return total + (reading.value * (until.getTime() - reading.timestamp.getTime())) / WINDOW_MS['1h'];
+      }, 0);
+      break;
+  }
+
+  const edges = [windowStart, ...readings.map((reading) => reading.timestamp), windowEnd];
+  const longestGap = Math.max(...edges.slice(1).map((edge, index) => edge.getTime() - edges[index].getTime()));
+  const uncertain =
+    longestGap > staleAfterSeconds * 1000 || readings.some((reading) => (reading.quality ?? 'good') !== 'good');
+
+  return {
+    metricKey: rule.target,
+    value,
+    timestamp: windowStart,
+    quality: uncertain ? 'uncertain' : 'good',
+    metadata: {
+      computation: 'window',
+      source: rule.source,
+      aggregation: rule.aggregation,
+      window: rule.window,
+      windowEnd: windowEnd.toISOString(),
+      samples: readings.length,
+    },
+  };
+}
+
+/**
+ * Aggregates the latest values of child assets (null: the child has not
+ * reported the metric). Returns null when no child has reported.
+ */
+export function rollUpChildren(
+  rule: ChildRollup,
+  childValues: Array<MetricValue | null>,
+  at: Date,
+  staleAfterSeconds: number
+): ComputedReading | null {
+  const reported = childValues.filter((value): value is MetricValue => value !== null);
+  if (reported.length === 0) return null;
+
+  const values = reported.map((reading) => reading.value);
+  const sum = values.reduce((total, value) => total + value, 0);
+  const value = {
+    sum,
+    avg: sum / values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    count: values.length,
+  }[rule.aggregation];
+
+  const uncertain =
+    reported.length < childValues.length || reported.some((reading) => isStale(reading, at, staleAfterSeconds));
+
+  return {
+    metricKey: rule.target,
+    value,
+    timestamp: at,
+    quality: uncertain ? 'uncertain' : 'good',
+    metadata: {
+      computation: 'rollup',
+      source: rule.source,
+      aggregation: rule.aggregation,
+      children: childValues.length,
+      reporting: reported.length,
+    },
+  };
+}
+
+/**
+ * Telemetry Computation Service class
+ */
+export class TelemetryComputationService {
+  // Compiled profiles by asset type and config version; a profile change
+  // bumps the version, so entries never go stale
+  private profiles = new Map<string, CompiledComputationProfile>();
+
+  constructor(private readonly telemetryRepo: TelemetryRepository = getTelemetryRepository()) {}
+
+  /**
+   * Computes the metrics of assets that received readings at `at`, then the
+   * roll-ups of their parents and further ancestors whose metrics change
+   */
+  async compute(tenantId: string, assetIds: string[], at: Date): Promise<ComputationResult[]> {
+    const results: ComputationResult[] = [];
+    let pending = [...new Set(assetIds)];
+    let fromChildren = false;
+
+    for (let depth = 0; pending.length > 0 && depth <= MAX_COMPUTATION_DEPTH; depth++) {
+      const parents = new Set<string>();
+
+      for (const assetId of pending) {
+        const target = await this.telemetryRepo.findComputationTarget(tenantId, assetId);
+        if (!target) continue;
+
+        const written = await this.computeAsset(target, at, fromChildren);
+        if (written > 0) {
+          results.push({ assetId, written });
+        }
+        // The readings of the asset itself can feed roll-ups of its parent
+        if (target.parentAssetId && (written > 0 || !fromChildren)) {
+          parents.add(target.parentAssetId);
+        }
+      }
+
+      pending = [...parents];
+      fromChildren = true;
+    }
+
+    return results;
+  }
+
+  private getProfile(target: ComputationTarget): CompiledComputationProfile {
+    const key = `${target.assetTypeId}:${target.telemetryConfigVersion}`;
+    let profile = this.profiles.get(key);
+    if (!profile) {
+      profile = compileComputationProfile(target);
+      this.profiles.set(key, profile);
+    }
+    return profile;
+  }
+
+  private async computeAsset(target: ComputationTarget, at: Date, fromChildren: boolean): Promise<number> {
+    const profile = this.getProfile(target);
+    const computed: ComputedReading[] = [];
+
+    if (fromChildren && profile.rollups.length > 0) {
+      computed.push(...(await this.computeRollups(target, profile, at)));
+    }
+
+    const inputKeys = new Set([
+      ...profile.derivedMetrics.flatMap((metric) => metric.expression.variables),
+      ...profile.windows.map((rule) => rule.source),
+    ]);
+    const latest = new Map<string, MetricValue>();
+    for (const row of await this.telemetryRepo.findLatest(target.tenantId, target.id, [...inputKeys])) {
+      const value = toMetricValue(row);
+      if (value) latest.set(row.metricKey, value);
+    }
+    for (const reading of computed) {
+      latest.set(reading.metricKey, reading);
+    }
+
+    computed.push(...evaluateDerivedMetrics(profile.derivedMetrics, latest, at, profile.derivedStaleAfterSeconds));
+    for (const reading of computed) {
+      latest.set(reading.metricKey, reading);
+    }
+
+    // Stored before windows are aggregated, so windows over computed metrics include them
+    let written = await this.store(target, profile, computed);
+
+    const windows: ComputedReading[] = [];
+    for (const rule of profile.windows) {
+      const source = latest.get(rule.source);
+      if (source && source.timestamp >= at) {
+        windows.push(...(await this.computeWindows(target, rule, at, profile.aggregationStaleAfterSeconds)));
+      }
+    }
+    written += await this.store(target, profile, windows);
+
+    return written;
+  }
+
+  private async computeRollups(
+    target: ComputationTarget,
+    profile: CompiledComputationProfile,
+    at: Date
+  ): Promise<ComputedReading[]> {
+    const childIds = await this.telemetryRepo.findChildAssetIds(target.tenantId, target.id);
+    const sources = [...new Set(profile.rollups.map((rule) => rule.source))];
+    const rows = await this.telemetryRepo.findLatestForEntities(target.tenantId, childIds, sources);
+
+    const values = new Map<string, MetricValue>();
+    for (const row of rows) {
+      const value = toMetricValue(row);
+      if (value) values.set(`${row.entityId}:${row.metricKey}`, value);
+    }
+
+    return profile.rollups.flatMap((rule) => {
+      const childValues = childIds.map((childId) => values.get(`${childId}:${rule.source}`) ?? null);
+      const reading = rollUpChildren(rule, childValues, at, profile.aggregationStaleAfterSeconds);
+      return reading ? [reading] : [];
+    });
+  }
+
+  /**
+   * Computes the closed windows of a rule not yet materialized, once per
+   * window: only the first reading of a new window triggers them
+   */
+  private async computeWindows(
+    target: ComputationTarget,
+    rule: WindowedAggregation,
+    at: Date,
+    staleAfterSeconds: number
+  ): Promise<ComputedReading[]> {
+    const width = WINDOW_MS[rule.window];
+    const currentStart = windowStartOf(at, rule.window).getTime();
+
+    const earlier = await this.telemetryRepo.findRange(
+      target.tenantId,
+      target.id,
+      rule.source,
+      new Date(currentStart),
+      new Date(at.getTime() - 1),
+      1
+    );
+    if (earlier.length > 0) return [];
+
+    const [last] = await this.telemetryRepo.findLatest(target.tenantId, target.id, [rule.target]);
+    const from = Math.max(
+      last ? last.timestamp.getTime() + width : currentStart - width,
+      currentStart - MAX_BACKFILL_WINDOWS * width
+    );
+    if (from >= currentStart) return [];
+
+    const rows = await this.telemetryRepo.findRange(
+      target.tenantId,
+      target.id,
+      rule.source,
+      new Date(from),
+      new Date(currentStart - 1),
+      MAX_WINDOW_READINGS
+    );
+
+    const byWindow = new Map<number, MetricValue[]>();
+    for (const row of rows) {
+      const value = toMetricValue(row);
+      if (!value) continue;
+      const start = windowStartOf(value.timestamp, rule.window).getTime();
+      byWindow.set(start, [...(byWindow.get(start) ?? []), value]);
+    }
+
+    return [...byWindow.entries()].flatMap(([start, readings]) => {
+      const reading = aggregateWindow(rule, readings, new Date(start), staleAfterSeconds);
+      return reading ? [reading] : [];
+    });
+  }
+
+  private async store(
+    target: ComputationTarget,
+    profile: CompiledComputationProfile,
+    readings: ComputedReading[]
+  ): Promise<number> {
+    return this.telemetryRepo.insertComputed(
+      target.tenantId,
+      readings.map((reading) => ({
+        entityId: target.id,
+        entityType: 'asset' as const,
+        metricKey: reading.metricKey,
+        value: String(reading.value),
+        unit: profile.units[reading.metricKey] ?? null,
+        quality: reading.quality,
+        timestamp: reading.timestamp,
+        metadata: { ...reading.metadata, configVersion: target.telemetryConfigVersion },
+      }))
+    );
+  }
+}
+
+// Singleton instance
+let telemetryComputationService: TelemetryComputationService | null = null;
+
+export function getTelemetryComputationService(): TelemetryComputationService {
+  if (!telemetryComputationService) {
+    telemetryComputationService = new TelemetryComputationService();
+  }
+  return telemetryComputationService;
+}
@@ -0,0 +1,204 @@
+/**
+ * Unit tests for the telemetry query service
+ * Tests cache-aside latest values, cursor pagination and subtree aggregation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cacheKeys, type OrganizationId } from '@argus/shared';
+import {
+  TelemetryQueryService,
+  encodeTelemetryCursor,
+  decodeTelemetryCursor,
+  type LatestValueCache,
+} from './telemetry-query.service.js';
+import type {
+  TelemetryRepository,
+  DeviceRepository,
+  AssetRepository,
+} from '../repositories/index.js';
+
+const ORG_ID = 'org-1' as OrganizationId;
+const T0 = new Date('2026-03-01T12:00:00Z');
+
+function historyRow(metricKey: string, value: string | null, seconds = 0, id = `row-${seconds}`) {
+  return {
+    id,
+    tenantId: ORG_ID,
+    entityId: 'device-1',
+    entityType: 'Device',
+    metricKey,
+    value,
+    valueText: null,
+    valueJson: null,
+    unit: null,
+    quality: 'good',
+    timestamp: new Date(T0.getTime() + seconds * 1000),
+    receivedAt: T0,
+  };
+}
+
+/** In-memory stand-in for the Valkey client */
+function createFakeCache(): LatestValueCache & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    mget: vi.fn(async (...keys: string[]) => keys.map((key) => store.get(key) ?? null)),
+    setex: vi.fn(async (key: string, _seconds: number, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+  };
+}
+
+describe('telemetry cursors', () => {
+  it('should round-trip timestamp and id', () => {
+    const cursor = encodeTelemetryCursor({ timestamp: T0, id: 'row-9' });
+    expect(decodeTelemetryCursor(cursor)).toEqual({ timestamp: T0, id: 'row-9' });
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(decodeTelemetryCursor('not-a-cursor')).toBeNull();
+  });
+});
+
+describe('TelemetryQueryService', () => {
+  let telemetryRepo: {
+    findLatest: ReturnType<typeof vi.fn>;
+    findRange: ReturnType<typeof vi.fn>;
+    aggregate: ReturnType<typeof vi.fn>;
+  };
+  let deviceRepo: { exists: ReturnType<typeof vi.fn> };
+  let assetRepo: { exists: ReturnType<typeof vi.fn>; findSubtreeIds: ReturnType<typeof vi.fn> };
+  let cache: ReturnType<typeof createFakeCache>;
+  let service: TelemetryQueryService;
+
+  beforeEach(() => {
+    telemetryRepo = {
+      findLatest: vi.fn(),
+      findRange: vi.fn(),
+      aggregate: vi.fn().mockResolvedValue([]),
+    };
+    deviceRepo = { exists: vi.fn().mockResolvedValue(false) };
+    assetRepo = { exists: vi.fn().mockResolvedValue(false), findSubtreeIds: vi.fn() };
+    cache = createFakeCache();
+    service = new TelemetryQueryService(
+      telemetryRepo as unknown as TelemetryRepository,
+      deviceRepo as unknown as DeviceRepository,
+      assetRepo as unknown as AssetRepository,
+      () => cache
+    );
+  });
+
+  describe('resolveEntityType', () => {
+    it('should identify assets after checking devices', async () => {
+      assetRepo.exists.mockResolvedValue(true);
+      expect(await service.resolveEntityType(ORG_ID, 'asset-1')).toBe('asset');
+    });
+
+    it('should return null for unknown entities', async () => {
+      expect(await service.resolveEntityType(ORG_ID, 'missing')).toBeNull();
+    });
+  });
+
+  describe('getLatest', () => {
+    it('should serve a second request from the cache', async () => {
+      telemetryRepo.findLatest.mockResolvedValue([
+        historyRow('temperature', '21.5'),
+        historyRow('humidity', '40'),
+      ]);
+
+      const first = await service.getLatest(ORG_ID, 'device-1');
+      const second = await service.getLatest(ORG_ID, 'device-1');
+
+      expect(first.map((r) => r.metricKey)).toEqual(['temperature', 'humidity']);
+      expect(second).toEqual(first);
+      expect(first[0]).toMatchObject({ value: 21.5, timestamp: T0.toISOString() });
+      expect(telemetryRepo.findLatest).toHaveBeenCalledTimes(1);
+      expect(cache.store.has(cacheKeys.telemetryLatest(ORG_ID, 'device-1', 'temperature'))).toBe(
+        true
+      );
+    });
+
+    it('should only query Postgres for metrics missing from the cache', async () => {
+      cache.store.set(
+        cacheKeys.telemetryLatest(ORG_ID, 'device-1', 'temperature'),
+        JSON.stringify({ metricKey: 'temperature', value: 20 })
+      );
+      telemetryRepo.findLatest.mockResolvedValue([historyRow('humidity', '40')]);
+
+      const result = await service.getLatest(ORG_ID, 'device-1', ['temperature', 'humidity']);
+
+      expect(telemetryRepo.findLatest).toHaveBeenCalledWith(ORG_ID, 'device-1', ['humidity']);
+      expect(result.map((r) => r.value)).toEqual([20, 40]);
+    });
+
+    it('should fall back to Postgres when the cache fails', async () => {
+      cache.mget = vi.fn().mockRejectedValue(new Error('connection refused'));
+      cache.setex = vi.fn().mockRejectedValue(new Error('connection refused'));
+      telemetryRepo.findLatest.mockResolvedValue([historyRow('temperature', '21')]);
+
+      const result = await service.getLatest(ORG_ID, 'device-1', ['temperature']);
+
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('getRange', () => {
+    it('should return a cursor when more rows exist', async () => {
+      telemetryRepo.findRange.mockResolvedValue([
+        historyRow('temperature', '1', 0),
+        historyRow('temperature', '2', 1),
+        historyRow('temperature', '3', 2),
+      ]);
+
+      const result = await service.getRange(
+        ORG_ID,
+        'device-1',
+        'temperature',
+        T0,
+        new Date(T0.getTime() + 60_000),
+        2
+      );
+
+      expect(telemetryRepo.findRange.mock.calls[0][5]).toBe(3);
+      expect(result.data.map((r) => r.value)).toEqual([1, 2]);
+      expect(decodeTelemetryCursor(result.nextCursor!)).toEqual({
+        timestamp: new Date(T0.getTime() + 1000),
+        id: 'row-1',
+      });
+    });
+
+    it('should return no cursor on the last page', async () => {
+      telemetryRepo.findRange.mockResolvedValue([historyRow('temperature', '1')]);
+
+      const result = await service.getRange(ORG_ID, 'device-1', 'temperature', T0, T0, 2);
+
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe('getAggregate', () => {
+    it('should aggregate across the asset subtree', async () => {
+      assetRepo.findSubtreeIds.mockResolvedValue(['asset-1', 'asset-2']);
+      telemetryRepo.aggregate.mockResolvedValue([{ bucket: T0, value: 21, count: 4 }]);
+
+      const result = await service.getAggregate(
+        ORG_ID,
+        'asset-1',
+        'subtree',
+        'temperature',
+        T0,
+        new Date(T0.getTime() + 3_600_000),
+        '1h',
+        'avg'
+      );
+
+      expect(telemetryRepo.aggregate.mock.calls[0][1]).toEqual(['asset-1', 'asset-2']);
+      expect(result).toEqual({
+        entityCount: 2,
+        buckets: [{ bucket: T0.toISOString(), value: 21, count: 4 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Telemetry Query Service
+ *
+ * Reads telemetry history for the API: latest value per metric, raw range
+ * queries with cursor pagination and time-bucketed aggregates.
+ *
+ * Latest values are cached under `cacheKeys.telemetryLatest` for
+ * `cacheTTL.telemetry` seconds (cache-aside). The cache is an optimisation
+ * only: when Valkey is unavailable reads go straight to Postgres.
+ */
+
+import {
+  cacheKeys,
+  cacheTTL,
+  createCacheClient,
+  type OrganizationId,
+  type TelemetryReading,
+  type TelemetryInterval,
+  type TelemetryAggregation,
+} from '@argus/shared';
+import {
+  getTelemetryRepository,
+  getDeviceRepository,
+  getAssetRepository,
+  type TelemetryRepository,
+  type DeviceRepository,
+  type AssetRepository,
+  type TelemetryRangeCursor,
+  type TelemetryBucketRow,
+} from '../repositories/index.js';
+import type { TelemetryHistory } from '../db/schema/telemetry-history.js';
+
+/** Subset of the Valkey client used for latest-value caching */
+export interface LatestValueCache {
+  get(key: string): Promise<string | null>;
+  mget(...keys: string[]): Promise<(string | null)[]>;
+  setex(key: string, seconds: number, value: string): Promise<unknown>;
+}
+
+export type TelemetryEntityType = 'device' | 'asset';
+
+/** Bucket widths in milliseconds */
+export const TELEMETRY_INTERVAL_MS: Record<TelemetryInterval, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+/** Upper bound on buckets returned by one aggregate query */
+export const MAX_TELEMETRY_BUCKETS = 10000;
+
+export interface TelemetryRangeResult {
+  data: TelemetryReading[];
+  nextCursor: string | null;
+}
+
+export interface TelemetryAggregateResult {
+  entityCount: number;
+  buckets: Array<{ bucket: string; value: number | null; count: number }>;
+}
+
+function toReading(row: TelemetryHistory): TelemetryReading {
+  return {
+    metricKey: row.metricKey,
+    value: row.value === null ? null : Number(row.value),
+    valueText: row.valueText,
+    valueJson: row.valueJson ?? null,
+    unit: row.unit,
+    quality: row.quality ?? 'good',
+    timestamp: row.timestamp.toISOString(),
+  };
+}
+
+/**
+ * Encodes the position of the last returned row as an opaque cursor
+ */
+export function encodeTelemetryCursor(cursor: TelemetryRangeCursor): string {
+  return Buffer.from(`${cursor.timestamp.toISOString()}|${cursor.id}`).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by encodeTelemetryCursor; null when malformed
+ */
+export function decodeTelemetryCursor(value: string): TelemetryRangeCursor | null {
+  const [timestamp, id] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+  const date = new Date(timestamp);
+  if (!id || Number.isNaN(date.getTime())) return null;
+  return { timestamp: date, id };
+}
+
+function defaultCache(): LatestValueCache | null {
+  try {
+    return createCacheClient();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Telemetry Query Service class
+ */
+export class TelemetryQueryService {
+  constructor(
+    private telemetryRepo: TelemetryRepository = getTelemetryRepository(),
+    private deviceRepo: DeviceRepository = getDeviceRepository(),
+    private assetRepo: AssetRepository = getAssetRepository(),
+    private getCache: () => LatestValueCache | null = defaultCache
+  ) {}
+
+  /**
+   * Determines whether an ID is a device or asset in the organization
+   */
+  async resolveEntityType(
+    organizationId: OrganizationId,
+    entityId: string
+  ): Promise<TelemetryEntityType | null> {
+    if (await this.deviceRepo.exists(entityId, organizationId)) return 'device';
+    if (await this.assetRepo.exists(entityId, organizationId)) return 'asset';
+    return null;
+  }
+
+  /**
+   * Latest reading per metric, served from cache where possible
+   */
+  async getLatest(
+    organizationId: OrganizationId,
+    entityId: string,
+    metricKeys?: string[]
+  ): Promise<TelemetryReading[]> {
+    const cache = this.getCache();
+    const keysKey = cacheKeys.forOrg(organizationId, 'telemetry', entityId, 'metric-keys');
+
+    let requested = metricKeys;
+    if (!requested && cache) {
+      const cachedKeys = await this.cacheGet(cache, keysKey);
+      if (cachedKeys) requested = JSON.parse(cachedKeys) as string[];
+    }
+
+    // Unknown metric set: load everything and remember the keys
+    if (!requested) {
+      const rows = await this.telemetryRepo.findLatest(organizationId, entityId);
+      const readings = rows.map(toReading);
+      if (cache) {
+        await this.cacheSet(cache, readings, organizationId, entityId);
+        await this.cacheSetRaw(
+          cache,
+          keysKey,
+          JSON.stringify(readings.map((reading) => reading.metricKey))
+        );
+      }
+      return readings;
+    }
+
+    const found = new Map<string, TelemetryReading>();
+    if (cache && requested.length > 0) {
+      const cached = await this.cacheMget(
+        cache,
+        requested.map((key) => cacheKeys.telemetryLatest(organizationId, entityId, key))
+      );
+      cached.forEach((value, i) => {
+        if (value) found.set(requested![i], JSON.parse(value) as TelemetryReading);
+      });
+    }
+
+    const missing = requested.filter((key) => !found.has(key));
+    if (missing.length > 0) {
+      const rows = await this.telemetryRepo.findLatest(organizationId, entityId, missing);
+      const readings = rows.map(toReading);
+      for (const reading of readings) {
+        found.set(reading.metricKey, reading);
+      }
+      if (cache) {
+        await this.cacheSet(cache, readings, organizationId, entityId);
+      }
+    }
+
+    return requested
+      .map((key) => found.get(key))
+      .filter((reading): reading is TelemetryReading => reading !== undefined);
+  }
+
+  /**
+   * Raw readings for one metric, oldest first, with keyset pagination
+   */
+  async getRange(
+    organizationId: OrganizationId,
+    entityId: string,
+    metricKey: string,
+    from: Date,
+    to: Date,
+    limit: number,
+    cursor?: TelemetryRangeCursor
+  ): Promise<TelemetryRangeResult> {
+    const rows = await this.telemetryRepo.findRange(
+      organizationId,
+      entityId,
+      metricKey,
+      from,
+      to,
+      limit + 1,
+      cursor
+    );
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(toReading),
+      nextCursor: hasMore && last ? encodeTelemetryCursor({ timestamp: last.timestamp, id: last.id }) : null,
+    };
+  }
+
+  /**
+   * Bucketed aggregate for one entity, or for an asset subtree
+   * Readings of bound devices are attributed to their assets at ingestion,
+   * so a subtree covers the assets only and nothing is counted twice.
+   */
+  async getAggregate(
+    organizationId: OrganizationId,
+    entityId: string,
+    scope: 'entity' | 'subtree',
+    metricKey: string,
+    from: Date,
+    to: Date,
+    interval: TelemetryInterval,
+    aggregation: TelemetryAggregation
+  ): Promise<TelemetryAggregateResult> {
+    let entityIds = [entityId];
+    if (scope === 'subtree') {
+      entityIds = await this.assetRepo.findSubtreeIds(organizationId, entityId);
+    }
+
+    const rows: TelemetryBucketRow[] = await this.telemetryRepo.aggregate(
+      organizationId,
+      entityIds,
+      metricKey,
+      from,
+      to,
+      interval,
+      aggregation
+    );
+
+    return {
+      entityCount: entityIds.length,
+      buckets: rows.map((row) => ({
+        bucket: row.bucket.toISOString(),
+        value: row.value,
+        count: row.count,
+      })),
+    };
+  }
+
+  // Cache access never fails a request: errors fall back to Postgres
+
+  private async cacheGet(cache: LatestValueCache, key: string): Promise<string | null> {
+    try {
+      return await cache.get(key);
+    } catch {
+      return null;
+    }
+  }
+
+  private async cacheMget(cache: LatestValueCache, keys: string[]): Promise<(string | null)[]> {
+    try {
+      return await cache.mget(...keys);
+    } catch {
+      return keys.map(() => null);
+    }
+  }
+
+  private async cacheSetRaw(cache: LatestValueCache, key: string, value: string): Promise<void> {
+    try {
+      await cache.setex(key, cacheTTL.telemetry, value);
+    } catch {
+      // Ignore: the next read repopulates
+    }
+  }
+
+  private async cacheSet(
+    cache: LatestValueCache,
+    readings: TelemetryReading[],
+    organizationId: OrganizationId,
+    entityId: string
+  ): Promise<void> {
+    for (const reading of readings) {
+      await this.cacheSetRaw(
+        cache,
+        cacheKeys.telemetryLatest(organizationId, entityId, reading.metricKey),
+        JSON.stringify(reading)
+      );
+    }
+  }
+}
+
+// Singleton instance
+let telemetryQueryService: TelemetryQueryService | null = null;
+
+export function getTelemetryQueryService(): TelemetryQueryService {
+  if (!telemetryQueryService) {
+    telemetryQueryService = new TelemetryQueryService();
+  }
+  return telemetryQueryService;
+}
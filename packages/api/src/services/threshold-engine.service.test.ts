@@ -0,0 +1,352 @@
+/**
+ * Unit tests for the threshold engine
+ * Tests level evaluation (hysteresis, debounce, cooldown), message rendering
+ * and event/activity creation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockTrx = {
+  execute: vi.fn(),
+};
+
+vi.mock('../repositories/base.repository.js', async () => {
+  const actual = await vi.importActual('../repositories/base.repository.js');
+  return {
+    ...actual,
+    withTransaction: vi.fn((fn) => fn(mockTrx)),
+  };
+});
+
+const {
+  ThresholdEngineService,
+  evaluateThreshold,
+  renderThresholdMessage,
+  INITIAL_THRESHOLD_STATE,
+} = await import('./threshold-engine.service.js');
+import type {
+  ThresholdRuleDefinition,
+  ThresholdEvaluationState,
+} from './threshold-engine.service.js';
+import type {
+  ThresholdRuleRepository,
+  SystemEventRepository,
+  ActivityRepository,
+} from '../repositories/index.js';
+import type { ThresholdRule } from '../db/schema/index.js';
+
+const T0 = new Date('2026-03-01T12:00:00Z');
+
+function at(seconds: number): Date {
+  return new Date(T0.getTime() + seconds * 1000);
+}
+
+function createRule(overrides?: Partial<ThresholdRuleDefinition>): ThresholdRuleDefinition {
+  return {
+    id: 'rule-1',
+    name: 'High temperature',
+    metricKey: 'temperature',
+    operator: 'gt',
+    warningThreshold: 70,
+    criticalThreshold: 90,
+    hysteresis: 5,
+    debounceSeconds: 0,
+    cooldownSeconds: 0,
+    eventType: 'TEMPERATURE_HIGH',
+    eventSeverity: 'major',
+    eventPriority: 2,
+    messageTemplate: null,
+    activity: null,
+    ...overrides,
+  };
+}
+
+/** Feeds values one second apart and returns the emitted event types */
+function replay(
+  rule: ThresholdRuleDefinition,
+  values: number[],
+  stepSeconds = 1
+): { events: string[]; state: ThresholdEvaluationState } {
+  let state = INITIAL_THRESHOLD_STATE;
+  const events: string[] = [];
+  values.forEach((value, i) => {
+    const result = evaluateThreshold(rule, state, value, at(i * stepSeconds));
+    state = result.state;
+    if (result.transition) {
+      events.push(`${result.transition.eventType}:${result.transition.level}`);
+    }
+  });
+  return { events, state };
+}
+
+describe('evaluateThreshold', () => {
+  it('should breach at warning and critical and clear once below', () => {
+    const { events, state } = replay(createRule(), [60, 75, 95, 50]);
+    expect(events).toEqual([
+      'THRESHOLD_BREACHED:warning',
+      'THRESHOLD_BREACHED:critical',
+      'THRESHOLD_CLEARED:normal',
+    ]);
+    expect(state.alertLevel).toBeNull();
+  });
+
+  it('should hold the level within the hysteresis band', () => {
+    const { events, state } = replay(createRule(), [75, 68, 66, 64]);
+    expect(events).toEqual(['THRESHOLD_BREACHED:warning', 'THRESHOLD_CLEARED:normal']);
+    expect(state.level).toBe('normal');
+
+    const held = replay(createRule(), [75, 68, 66]);
+    expect(held.state.level).toBe('warning');
+  });
+
+  it('should support lower-bound operators', () => {
+    const rule = createRule({ operator: 'lt', warningThreshold: 10, criticalThreshold: 0 });
+    const { events } = replay(rule, [20, 5, -1, 12, 16]);
+    expect(events).toEqual([
+      'THRESHOLD_BREACHED:warning',
+      'THRESHOLD_BREACHED:critical',
+      'THRESHOLD_CLEARED:normal',
+    ]);
+  });
+
+  it('should wait for the debounce period before escalating', () => {
+    const rule = createRule({ debounceSeconds: 60 });
+
+    const brief = replay(rule, [75, 75, 60], 30);
+    expect(brief.events).toEqual([]);
+    expect(brief.state.pendingLevel).toBeNull();
+
+    const sustained = replay(rule, [75, 75, 75], 30);
+    expect(sustained.events).toEqual(['THRESHOLD_BREACHED:warning']);
+  });
+
+  it('should suppress a new episode during cooldown', () => {
+    const rule = createRule({ cooldownSeconds: 300 });
+    const { events } = replay(rule, [75, 50, 75, 75], 60);
+    expect(events).toEqual(['THRESHOLD_BREACHED:warning', 'THRESHOLD_CLEARED:normal']);
+
+    const later = replay(rule, [75, 50, 75, 75, 75, 75, 75], 60);
+    expect(later.events).toEqual([
+      'THRESHOLD_BREACHED:warning',
+      'THRESHOLD_CLEARED:normal',
+      'THRESHOLD_BREACHED:warning',
+    ]);
+  });
+
+  it('should always alert on escalation within an episode', () => {
+    const rule = createRule({ cooldownSeconds: 3600 });
+    const { events } = replay(rule, [75, 95, 80, 95]);
+    expect(events).toEqual(['THRESHOLD_BREACHED:warning', 'THRESHOLD_BREACHED:critical']);
+  });
+
+  it('should only clear while alerting', () => {
+    const rule = createRule({ cooldownSeconds: 300 });
+    // Second breach is suppressed by cooldown, so dropping back is silent
+    const { events } = replay(rule, [75, 50, 75, 50], 10);
+    expect(events.filter((e) => e.startsWith('THRESHOLD_CLEARED'))).toHaveLength(1);
+  });
+});
+
+describe('renderThresholdMessage', () => {
+  it('should fill template placeholders', () => {
+    const rule = createRule({
+      messageTemplate: '{{ruleName}} on {{assetId}}: {{metricKey}}={{value}} > {{threshold}} ({{level}})',
+    });
+    const message = renderThresholdMessage(
+      rule,
+      { eventType: 'THRESHOLD_BREACHED', level: 'critical', threshold: 90 },
+      95,
+      'asset-1'
+    );
+    expect(message).toBe('High temperature on asset-1: temperature=95 > 90 (critical)');
+  });
+
+  it('should leave unknown placeholders untouched', () => {
+    const rule = createRule({ messageTemplate: '{{unknown}} {{value}}' });
+    const message = renderThresholdMessage(
+      rule,
+      { eventType: 'THRESHOLD_BREACHED', level: 'warning', threshold: 70 },
+      75,
+      'asset-1'
+    );
+    expect(message).toBe('{{unknown}} 75');
+  });
+});
+
+describe('ThresholdEngineService', () => {
+  const storedRule: ThresholdRule = {
+    id: 'rule-1',
+    tenantId: 'org-1',
+    name: 'High temperature',
+    description: null,
+    assetTypeId: 'asset-type-1',
+    specificAssetIds: null,
+    metricKey: 'temperature',
+    condition: {
+      operator: 'gt',
+      activity: { activityTypeId: '7c9e6679-7425-40de-944b-e07fc1f90ae7' },
+    },
+    warningThreshold: '70',
+    criticalThreshold: '90',
+    hysteresis: '5',
+    debounceSeconds: 0,
+    cooldownSeconds: 300,
+    eventType: 'TEMPERATURE_HIGH',
+    eventSeverity: 'major',
+    eventPriority: 2,
+    messageTemplate: null,
+    isActive: true,
+    createdBy: null,
+    createdAt: T0,
+    updatedAt: T0,
+  };
+
+  let ruleRepo: {
+    findApplicable: ReturnType<typeof vi.fn>;
+    findStates: ReturnType<typeof vi.fn>;
+    saveState: ReturnType<typeof vi.fn>;
+  };
+  let eventRepo: { create: ReturnType<typeof vi.fn> };
+  let activityRepo: { create: ReturnType<typeof vi.fn> };
+  let engine: InstanceType<typeof ThresholdEngineService>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ruleRepo = {
+      findApplicable: vi.fn().mockResolvedValue([storedRule]),
+      findStates: vi.fn().mockResolvedValue([]),
+      saveState: vi.fn().mockResolvedValue(undefined),
+    };
+    eventRepo = { create: vi.fn().mockResolvedValue({ id: 42n }) };
+    activityRepo = { create: vi.fn().mockResolvedValue({ id: 'activity-1' }) };
+    engine = new ThresholdEngineService(
+      ruleRepo as unknown as ThresholdRuleRepository,
+      eventRepo as unknown as SystemEventRepository,
+      activityRepo as unknown as ActivityRepository
+    );
+  });
+
+  it('should write a breach event, open an activity and persist state', async () => {
+    const events = await engine.evaluate(
+      'org-1',
+      [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      [{ metricKey: 'temperature', value: 95 }],
+      T0
+    );
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        ruleId: 'rule-1',
+        assetId: 'asset-1',
+        eventType: 'THRESHOLD_BREACHED',
+        level: 'critical',
+        activityId: 'activity-1',
+      }),
+    ]);
+    expect(eventRepo.create.mock.calls[0][0]).toMatchObject({
+      tenantId: 'org-1',
+      eventType: 'THRESHOLD_BREACHED',
+      entityId: 'asset-1',
+      entityType: 'Asset',
+      payload: { metricKey: 'temperature', triggeredValue: 95, threshold: 90, severity: 'major' },
+    });
+    expect(activityRepo.create.mock.calls[0][0]).toMatchObject({
+      initiatorType: 'rule',
+      targetType: 'asset',
+      targetId: 'asset-1',
+      priority: 'critical',
+      customAttributes: { systemEventId: '42' },
+    });
+    expect(ruleRepo.saveState.mock.calls[0][0]).toMatchObject({
+      ruleId: 'rule-1',
+      assetId: 'asset-1',
+      level: 'critical',
+      alertLevel: 'critical',
+      lastValue: '95',
+    });
+  });
+
+  it('should resume from persisted state and clear without an activity', async () => {
+    ruleRepo.findStates.mockResolvedValue([
+      {
+        ruleId: 'rule-1',
+        assetId: 'asset-1',
+        tenantId: 'org-1',
+        level: 'warning',
+        pendingLevel: null,
+        pendingSince: null,
+        alertLevel: 'warning',
+        lastBreachedAt: T0,
+        lastValue: '75',
+        lastEvaluatedAt: T0,
+        updatedAt: T0,
+      },
+    ]);
+
+    const events = await engine.evaluate(
+      'org-1',
+      [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      [{ metricKey: 'temperature', value: 50 }],
+      at(60)
+    );
+
+    expect(events.map((e) => e.eventType)).toEqual(['THRESHOLD_CLEARED']);
+    expect(activityRepo.create).not.toHaveBeenCalled();
+  });
+
+  it('should ignore readings older than the last evaluation', async () => {
+    ruleRepo.findStates.mockResolvedValue([
+      {
+        ruleId: 'rule-1',
+        assetId: 'asset-1',
+        tenantId: 'org-1',
+        level: 'normal',
+        pendingLevel: null,
+        pendingSince: null,
+        alertLevel: null,
+        lastBreachedAt: null,
+        lastValue: '20',
+        lastEvaluatedAt: at(60),
+        updatedAt: at(60),
+      },
+    ]);
+
+    const events = await engine.evaluate(
+      'org-1',
+      [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      [{ metricKey: 'temperature', value: 95 }],
+      T0
+    );
+
+    expect(events).toEqual([]);
+    expect(ruleRepo.saveState).not.toHaveBeenCalled();
+  });
+
+  it('should skip rules whose stored condition is not a threshold condition', async () => {
+    ruleRepo.findApplicable.mockResolvedValue([
+      { ...storedRule, condition: { expression: '$.temperature > 90' } },
+    ]);
+
+    const events = await engine.evaluate(
+      'org-1',
+      [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      [{ metricKey: 'temperature', value: 95 }],
+      T0
+    );
+
+    expect(events).toEqual([]);
+    expect(ruleRepo.saveState).not.toHaveBeenCalled();
+  });
+
+  it('should skip rule lookup when no numeric readings are present', async () => {
+    const events = await engine.evaluate(
+      'org-1',
+      [{ id: 'asset-1', assetTypeId: 'asset-type-1' }],
+      [{ metricKey: 'mode', value: null }],
+      T0
+    );
+
+    expect(events).toEqual([]);
+    expect(ruleRepo.findApplicable).not.toHaveBeenCalled();
+  });
+});
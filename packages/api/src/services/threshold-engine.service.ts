@@ -0,0 +1,544 @@
+/**
+ * Threshold Engine Service
+ *
+ * Evaluates metric values against threshold rules per asset and turns level
+ * changes into THRESHOLD_BREACHED / THRESHOLD_CLEARED system events, optionally
+ * opening a system_to_person activity for breaches.
+ *
+ * Alert control:
+ * - hysteresis: an active level is held until the value moves back past the
+ *   threshold by this amount
+ * - debounce: an escalation must persist for debounceSeconds before it applies
+ * - cooldown: a new alert episode cannot start within cooldownSeconds of the
+ *   previous breach (escalations within an episode always alert)
+ *
+ * State is persisted per rule/asset in threshold_rule_states so evaluation
+ * continues correctly across worker restarts.
+ */
+
+import { sql } from 'drizzle-orm';
+import type {
+  OrganizationId,
+  ThresholdLevel,
+  ThresholdOperator,
+  ThresholdActivityConfig,
+  ThresholdRuleDryRunInput,
+  ThresholdRuleDryRunResponse,
+} from '@argus/shared';
+import { thresholdConditionSchema } from '@argus/shared';
+import { withTransaction } from '../repositories/base.repository.js';
+import {
+  getThresholdRuleRepository,
+  getSystemEventRepository,
+  getActivityRepository,
+  type ThresholdRuleRepository,
+  type SystemEventRepository,
+  type ActivityRepository,
+  type ThresholdRuleAsset,
+} from '../repositories/index.js';
+import type { ThresholdRule, ThresholdRuleState } from '../db/schema/index.js';
+
+type AlertLevel = Exclude<ThresholdLevel, 'normal'>;
+
+export type ThresholdEventType = 'THRESHOLD_BREACHED' | 'THRESHOLD_CLEARED';
+
+/** Rule fields needed for evaluation, with numerics parsed */
+export interface ThresholdRuleDefinition {
+  id: string;
+  name: string;
+  metricKey: string;
+  operator: ThresholdOperator;
+  warningThreshold: number | null;
+  criticalThreshold: number | null;
+  hysteresis: number;
+  debounceSeconds: number;
+  cooldownSeconds: number;
+  eventType: string;
+  eventSeverity: string;
+  eventPriority: number;
+  messageTemplate: string | null;
+  activity: ThresholdActivityConfig | null;
+}
+
+/** Evaluation state of one rule for one asset */
+export interface ThresholdEvaluationState {
+  level: ThresholdLevel;
+  pendingLevel: AlertLevel | null;
+  pendingSince: Date | null;
+  alertLevel: AlertLevel | null;
+  lastBreachedAt: Date | null;
+  lastEvaluatedAt: Date | null;
+}
+
+/** Event produced by a single evaluation */
+export interface ThresholdTransition {
+  eventType: ThresholdEventType;
+  level: ThresholdLevel;
+  threshold: number | null;
+}
+
+export interface ThresholdEvaluation {
+  state: ThresholdEvaluationState;
+  transition: ThresholdTransition | null;
+}
+
+/** Metric value delivered to the engine */
+export interface ThresholdReading {
+  metricKey: string;
+  value: number | null;
+}
+
+/** Event written by the engine */
+export interface ThresholdEngineEvent {
+  ruleId: string;
+  assetId: string;
+  eventType: ThresholdEventType;
+  level: ThresholdLevel;
+  value: number;
+  threshold: number | null;
+  message: string;
+  activityId: string | null;
+}
+
+export const INITIAL_THRESHOLD_STATE: ThresholdEvaluationState = {
+  level: 'normal',
+  pendingLevel: null,
+  pendingSince: null,
+  alertLevel: null,
+  lastBreachedAt: null,
+  lastEvaluatedAt: null,
+};
+
+/** Upper bound on readings replayed by a dry run */
+export const DRY_RUN_MAX_READINGS = 10000;
+
+/** Upper bound on assets evaluated by a dry run */
+export const DRY_RUN_MAX_ASSETS = 100;
+
+const LEVEL_RANK: Record<ThresholdLevel, number> = { normal: 0, warning: 1, critical: 2 };
+
+/**
+ * Converts a stored rule into an evaluable definition. Returns null when the
+ * stored condition is not a simple threshold condition.
+ */
+export function toRuleDefinition(rule: ThresholdRule): ThresholdRuleDefinition | null {
+  const parsed = thresholdConditionSchema.safeParse(rule.condition);
+  if (!parsed.success) return null;
+  const condition = parsed.data;
+  return {
+    id: rule.id,
+    name: rule.name,
+    metricKey: rule.metricKey,
+    operator: condition.operator,
+    warningThreshold: rule.warningThreshold === null ? null : Number(rule.warningThreshold),
+    criticalThreshold: rule.criticalThreshold === null ? null : Number(rule.criticalThreshold),
+    hysteresis: Number(rule.hysteresis ?? 0),
+    debounceSeconds: rule.debounceSeconds ?? 0,
+    cooldownSeconds: rule.cooldownSeconds ?? 0,
+    eventType: rule.eventType,
+    eventSeverity: rule.eventSeverity,
+    eventPriority: rule.eventPriority ?? 3,
+    messageTemplate: rule.messageTemplate,
+    activity: condition.activity ?? null,
+  };
+}
+
+/**
+ * Converts a persisted state row into evaluation state
+ */
+export function toEvaluationState(row: ThresholdRuleState): ThresholdEvaluationState {
+  return {
+    level: row.level as ThresholdLevel,
+    pendingLevel: row.pendingLevel as AlertLevel | null,
+    pendingSince: row.pendingSince,
+    alertLevel: row.alertLevel as AlertLevel | null,
+    lastBreachedAt: row.lastBreachedAt,
+    lastEvaluatedAt: row.lastEvaluatedAt,
+  };
+}
+
+/**
+ * Whether a value is past a threshold. `offset` moves the threshold towards
+ * the normal side, which is how hysteresis holds an active level.
+ */
+function breaches(
+  operator: ThresholdOperator,
+  value: number,
+  threshold: number,
+  offset: number
+): boolean {
+  switch (operator) {
+    case 'gt':
+      return value > threshold - offset;
+    case 'gte':
+      return value >= threshold - offset;
+    case 'lt':
+      return value < threshold + offset;
+    case 'lte':
+      return value <= threshold + offset;
+  }
+}
+
+function thresholdFor(rule: ThresholdRuleDefinition, level: ThresholdLevel): number | null {
+  if (level === 'critical') return rule.criticalThreshold;
+  if (level === 'warning') return rule.warningThreshold;
+  return null;
+}
+
+/**
+ * Level indicated by a value, holding the current level within the hysteresis band
+ */
+function targetLevel(
+  rule: ThresholdRuleDefinition,
+  value: number,
+  current: ThresholdLevel
+): ThresholdLevel {
+  const { operator, hysteresis } = rule;
+  if (
+    rule.criticalThreshold !== null &&
+    breaches(operator, value, rule.criticalThreshold, current === 'critical' ? hysteresis : 0)
+  ) {
+    return 'critical';
+  }
+  if (
+    rule.warningThreshold !== null &&
+    breaches(operator, value, rule.warningThreshold, LEVEL_RANK[current] >= 1 ? hysteresis : 0)
+  ) {
+    return 'warning';
+  }
+  return 'normal';
+}
+
+/**
+ * Evaluates one value against a rule. Pure: returns the next state and the
+ * event to emit, if any.
+ */
+export function evaluateThreshold(
+  rule: ThresholdRuleDefinition,
+  state: ThresholdEvaluationState,
+  value: number,
+  timestamp: Date
+): ThresholdEvaluation {
+  const next: ThresholdEvaluationState = { ...state, lastEvaluatedAt: timestamp };
+  const target = targetLevel(rule, value, state.level);
+
+  // Debounce applies to escalations only; de-escalation is governed by hysteresis
+  if (LEVEL_RANK[target] > LEVEL_RANK[state.level]) {
+    const pendingSince = state.pendingSince ?? timestamp;
+    if (timestamp.getTime() - pendingSince.getTime() >= rule.debounceSeconds * 1000) {
+      next.level = target;
+      next.pendingLevel = null;
+      next.pendingSince = null;
+    } else {
+      next.pendingLevel = target as AlertLevel;
+      next.pendingSince = pendingSince;
+    }
+  } else {
+    next.level = target;
+    next.pendingLevel = null;
+    next.pendingSince = null;
+  }
+
+  let transition: ThresholdTransition | null = null;
+
+  if (next.level !== 'normal') {
+    const level = next.level as AlertLevel;
+    const inCooldown =
+      state.lastBreachedAt !== null &&
+      timestamp.getTime() - state.lastBreachedAt.getTime() < rule.cooldownSeconds * 1000;
+
+    const startsEpisode = next.alertLevel === null && !inCooldown;
+    const escalates =
+      next.alertLevel !== null && LEVEL_RANK[level] > LEVEL_RANK[next.alertLevel];
+
+    if (startsEpisode || escalates) {
+      next.alertLevel = level;
+      next.lastBreachedAt = timestamp;
+      transition = {
+        eventType: 'THRESHOLD_BREACHED',
+        level,
+        threshold: thresholdFor(rule, level),
+      };
+    }
+  } else if (next.alertLevel !== null) {
+    transition = {
+      eventType: 'THRESHOLD_CLEARED',
+      level: 'normal',
+      threshold: thresholdFor(rule, next.alertLevel),
+    };
+    next.alertLevel = null;
+  }
+
+  return { state: next, transition };
+}
+
+/**
+ * Renders the event message. Breaches use the rule's messageTemplate when set;
+ * supported placeholders: {{ruleName}}, {{metricKey}}, {{value}},
+ * {{threshold}}, {{level}}, {{severity}}, {{assetId}}
+ */
+export function renderThresholdMessage(
+  rule: ThresholdRuleDefinition,
+  transition: ThresholdTransition,
+  value: number,
+  assetId: string
+): string {
+  const variables: Record<string, string> = {
+    ruleName: rule.name,
+    metricKey: rule.metricKey,
+    value: String(value),
+    threshold: transition.threshold === null ? '' : String(transition.threshold),
+    level: transition.level,
+    severity: rule.eventSeverity,
+    assetId,
+  };
+
+  if (transition.eventType === 'THRESHOLD_CLEARED') {
+    return `${rule.name}: ${rule.metricKey} returned to normal (${value})`;
+  }
+  if (rule.messageTemplate) {
+    return rule.messageTemplate.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      name in variables ? variables[name] : match
+    );
+  }
+  return `${rule.name}: ${rule.metricKey} is ${value} (${transition.level} threshold ${variables.threshold})`;
+}
+
+/**
+ * Threshold Engine Service class
+ */
+export class ThresholdEngineService {
+  constructor(
+    private ruleRepo: ThresholdRuleRepository = getThresholdRuleRepository(),
+    private eventRepo: SystemEventRepository = getSystemEventRepository(),
+    private activityRepo: ActivityRepository = getActivityRepository()
+  ) {}
+
+  /**
+   * Evaluates readings for each asset against its applicable rules, persisting
+   * state and writing events. Each asset is evaluated in its own transaction.
+   */
+  async evaluate(
+    tenantId: string,
+    assets: ThresholdRuleAsset[],
+    readings: ThresholdReading[],
+    timestamp: Date
+  ): Promise<ThresholdEngineEvent[]> {
+    const values = new Map<string, number>();
+    for (const reading of readings) {
+      if (reading.value !== null && Number.isFinite(reading.value)) {
+        values.set(reading.metricKey, reading.value);
+      }
+    }
+    if (values.size === 0 || assets.length === 0) return [];
+
+    const events: ThresholdEngineEvent[] = [];
+
+    for (const asset of assets) {
+      const rules = await this.ruleRepo.findApplicable(tenantId, asset, [...values.keys()]);
+      if (rules.length === 0) continue;
+
+      const assetEvents = await withTransaction(async (trx) => {
+        // Tenant context for the threshold_rule_states RLS policy
+        await trx.execute(sql`SELECT set_config('app.current_tenant_id', ${tenantId}, true)`);
+
+        const stateRows = await this.ruleRepo.findStates(
+          rules.map((rule) => rule.id),
+          asset.id,
+          trx
+        );
+        const states = new Map(stateRows.map((row) => [row.ruleId, toEvaluationState(row)]));
+        const written: ThresholdEngineEvent[] = [];
+
+        for (const stored of rules) {
+          const rule = toRuleDefinition(stored);
+          if (!rule) continue;
+          const value = values.get(rule.metricKey)!;
+          const state = states.get(rule.id) ?? INITIAL_THRESHOLD_STATE;
+
+          // Late readings must not roll the state back
+          if (state.lastEvaluatedAt && timestamp < state.lastEvaluatedAt) continue;
+
+          const { state: nextState, transition } = evaluateThreshold(rule, state, value, timestamp);
+
+          await this.ruleRepo.saveState(
+            {
+              ruleId: rule.id,
+              assetId: asset.id,
+              tenantId,
+              level: nextState.level,
+              pendingLevel: nextState.pendingLevel,
+              pendingSince: nextState.pendingSince,
+              alertLevel: nextState.alertLevel,
+              lastBreachedAt: nextState.lastBreachedAt,
+              lastValue: String(value),
+              lastEvaluatedAt: nextState.lastEvaluatedAt,
+            },
+            trx
+          );
+
+          if (!transition) continue;
+
+          const message = renderThresholdMessage(rule, transition, value, asset.id);
+          const event = await this.eventRepo.create(
+            {
+              tenantId,
+              eventType: transition.eventType,
+              entityId: asset.id,
+              entityType: 'Asset',
+              payload: {
+                ruleId: rule.id,
+                ruleName: rule.name,
+                metricKey: rule.metricKey,
+                triggeredValue: value,
+                threshold: transition.threshold,
+                level: transition.level,
+                severity: rule.eventSeverity,
+                ruleEventType: rule.eventType,
+                priority: rule.eventPriority,
+                message,
+                timestamp: timestamp.toISOString(),
+              },
+            },
+            trx
+          );
+
+          let activityId: string | null = null;
+          if (transition.eventType === 'THRESHOLD_BREACHED' && rule.activity) {
+            const activity = await this.activityRepo.create(
+              {
+                organizationId: tenantId,
+                ownerOrganizationId: tenantId,
+                activityTypeId: rule.activity.activityTypeId,
+                name: message.slice(0, 255),
+                description: message,
+                priority:
+                  rule.activity.priority ?? (transition.level === 'critical' ? 'critical' : 'high'),
+                initiatorType: 'rule',
+                targetType: 'asset',
+                targetId: asset.id,
+                assignedToUserId: rule.activity.assignedToUserId ?? null,
+                customAttributes: {
+                  thresholdRuleId: rule.id,
+                  systemEventId: event.id.toString(),
+                  metricKey: rule.metricKey,
+                  triggeredValue: value,
+                },
+              },
+              trx
+            );
+            activityId = activity.id;
+          }
+
+          written.push({
+            ruleId: rule.id,
+            assetId: asset.id,
+            eventType: transition.eventType,
+            level: transition.level,
+            value,
+            threshold: transition.threshold,
+            message,
+            activityId,
+          });
+        }
+
+        return written;
+      });
+
+      events.push(...assetEvents);
+    }
+
+    return events;
+  }
+
+  /**
+   * Replays historical telemetry against a draft rule using in-memory state.
+   * Nothing is written.
+   */
+  async dryRun(
+    tenantId: OrganizationId,
+    input: ThresholdRuleDryRunInput
+  ): Promise<ThresholdRuleDryRunResponse> {
+    const { rule: draft } = input;
+    const rule: ThresholdRuleDefinition = {
+      id: 'dry-run',
+      name: draft.name,
+      metricKey: draft.metricKey,
+      operator: draft.condition.operator,
+      warningThreshold: draft.warningThreshold ?? null,
+      criticalThreshold: draft.criticalThreshold ?? null,
+      hysteresis: draft.hysteresis,
+      debounceSeconds: draft.debounceSeconds,
+      cooldownSeconds: draft.cooldownSeconds,
+      eventType: draft.eventType,
+      eventSeverity: draft.eventSeverity,
+      eventPriority: draft.eventPriority,
+      messageTemplate: draft.messageTemplate ?? null,
+      activity: null,
+    };
+
+    const assets = await this.ruleRepo.findAssetsInScope(
+      tenantId,
+      input.assetIds
+        ? { specificAssetIds: input.assetIds }
+        : { assetTypeId: draft.assetTypeId, specificAssetIds: draft.specificAssetIds },
+      DRY_RUN_MAX_ASSETS
+    );
+
+    const readings = await this.ruleRepo.findReplayReadings(
+      tenantId,
+      assets.map((asset) => asset.id),
+      draft.metricKey,
+      new Date(input.from),
+      new Date(input.to),
+      DRY_RUN_MAX_READINGS + 1
+    );
+    const truncated = readings.length > DRY_RUN_MAX_READINGS;
+    const replayed = readings.slice(0, DRY_RUN_MAX_READINGS);
+
+    const states = new Map<string, ThresholdEvaluationState>();
+    const events: ThresholdRuleDryRunResponse['events'] = [];
+
+    for (const reading of replayed) {
+      const state = states.get(reading.assetId) ?? INITIAL_THRESHOLD_STATE;
+      const { state: nextState, transition } = evaluateThreshold(
+        rule,
+        state,
+        reading.value,
+        reading.timestamp
+      );
+      states.set(reading.assetId, nextState);
+
+      if (transition) {
+        events.push({
+          assetId: reading.assetId,
+          eventType: transition.eventType,
+          level: transition.level,
+          value: reading.value,
+          threshold: transition.threshold,
+          message: renderThresholdMessage(rule, transition, reading.value, reading.assetId),
+          timestamp: reading.timestamp.toISOString(),
+        });
+      }
+    }
+
+    return {
+      assetsEvaluated: assets.length,
+      readingsEvaluated: replayed.length,
+      truncated,
+      breachedCount: events.filter((event) => event.eventType === 'THRESHOLD_BREACHED').length,
+      clearedCount: events.filter((event) => event.eventType === 'THRESHOLD_CLEARED').length,
+      events,
+    };
+  }
+}
+
+// Singleton instance
+let thresholdEngineService: ThresholdEngineService | null = null;
+
+export function getThresholdEngineService(): ThresholdEngineService {
+  if (!thresholdEngineService) {
+    thresholdEngineService = new ThresholdEngineService();
+  }
+  return thresholdEngineService;
+}
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the safe expression evaluator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileExpression, ExpressionError } from './expression.js';
+
+describe('compileExpression', () => {
+  it('should respect operator precedence and parentheses', () => {
+    expect(compileExpression('1 + 2 * 3').evaluate({})).toBe(7);
+    expect(compileExpression('(1 + 2) * 3').evaluate({})).toBe(9);
+    expect(compileExpression('-2 ^ 2').evaluate({})).toBe(-4);
+    expect(compileExpression('2 ^ 3 ^ 2').evaluate({})).toBe(512);
+  });
+
+  it('should resolve variables including dotted metric keys', () => {
+    const expr = compileExpression('value * 0.1 + env.offset');
+    expect(expr.variables.sort()).toEqual(['env.offset', 'value']);
+    expect(expr.evaluate({ value: 215, 'env.offset': 1 })).toBeCloseTo(22.5);
+  });
+
+  it('should support math functions', () => {
+    expect(compileExpression('round(10 / 3, 2)').evaluate({})).toBe(3.33);
+    expect(compileExpression('max(a, b, 4)').evaluate({ a: 1, b: 9 })).toBe(9);
+    expect(compileExpression('abs(-3) + sqrt(16)').evaluate({})).toBe(7);
+  });
+
+  it('should reject invalid syntax and unknown functions', () => {
+    expect(() => compileExpression('1 +')).toThrow(ExpressionError);
+    expect(() => compileExpression('process.exit(1)')).toThrow(ExpressionError);
+    expect(() => compileExpression('a; b')).toThrow(ExpressionError);
+    expect(() => compileExpression('round()')).toThrow(ExpressionError);
+  });
+
+  it('should not resolve Object.prototype members', () => {
+    expect(() => compileExpression('constructor(1)')).toThrow('Unknown function "constructor"');
+    expect(() => compileExpression('toString(1)')).toThrow(ExpressionError);
+    expect(() => compileExpression('valueOf()')).toThrow(ExpressionError);
+    expect(() => compileExpression('constructor + 1').evaluate({})).toThrow('Unknown variable "constructor"');
+  });
+
+  it('should fail on missing variables and non-finite results', () => {
+    expect(() => compileExpression('a + 1').evaluate({})).toThrow('Unknown variable "a"');
+    expect(() => compileExpression('1 / x').evaluate({ x: 0 })).toThrow(ExpressionError);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Safe arithmetic expressions for user-defined telemetry transformations
+ *
+ * Supports numbers, variables (metric keys, may contain dots), + - * / % ^,
+ * unary minus, parentheses and a fixed set of math functions. Expressions are
+ * parsed into a small AST; nothing is ever passed to eval/Function.
+ *
+ * @example
+ * const expr = compileExpression('round(value * 0.1 + offset, 2)');
+ * expr.evaluate({ value: 215, offset: 1 }); // 22.5
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string };
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  abs: { arity: [1, 1], fn: Math.abs },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  floor: { arity: [1, 1], fn: Math.floor },
+  sqrt: { arity: [1, 1], fn: Math.sqrt },
+  exp: { arity: [1, 1], fn: Math.exp },
+  log: { arity: [1, 1], fn: Math.log },
+  log10: { arity: [1, 1], fn: Math.log10 },
+  pow: { arity: [2, 2], fn: Math.pow },
+  min: { arity: [1, 32], fn: Math.min },
+  max: { arity: [1, 32], fn: Math.max },
+  round: {
+    arity: [1, 2],
+    fn: (value, decimals = 0) => {
+      const factor = 10 ** decimals;
+      return Math.round(value * factor) / factor;
+    },
+  },
+};
+
+/** Maximum expression length accepted by the parser */
+const MAX_EXPRESSION_LENGTH = 500;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number at position ${i}`);
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0] });
+      i += match[0].length;
+    } else if ('+-*/%^(),'.includes(char)) {
+      tokens.push({ kind: 'operator', value: char });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}" at position ${i}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser
+ *
+ *   expression := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | '%') unary)*
+ *   unary      := '-' unary | power
+ *   power      := primary ('^' unary)?
+ *   primary    := number | identifier | identifier '(' args ')' | '(' expression ')'
+ */
+function parse(tokens: Token[]): Node {
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === 'operator' && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!isOperator(value)) throw new ExpressionError(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseExpression = (): Node => {
+    let node = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): Node => {
+    let node = parseUnary();
+    while (isOperator('*') || isOperator('/') || isOperator('%')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator('-')) {
+      position++;
+      return { kind: 'unary', operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (isOperator('^')) {
+      position++;
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[position++];
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+
+    if (token.kind === 'number') {
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token.kind === 'identifier') {
+      if (!isOperator('(')) {
+        return { kind: 'variable', name: token.value };
+      }
+      // Own properties only: names like "constructor" are not functions
+      const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new ExpressionError(`Unknown function "${token.value}"`);
+      position++;
+      const args: Node[] = [];
+      if (!isOperator(')')) {
+        args.push(parseExpression());
+        while (isOperator(',')) {
+          position++;
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+      if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+        throw new ExpressionError(`Wrong number of arguments for "${token.value}"`);
+      }
+      return { kind: 'call', name: token.value, args };
+    }
+
+    if (token.value === '(') {
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    throw new ExpressionError(`Unexpected "${token.value}"`);
+  };
+
+  const root = parseExpression();
+  if (position < tokens.length) {
+    throw new ExpressionError('Unexpected input after end of expression');
+  }
+  return root;
+}
+
+function evaluateNode(node: Node, variables: Record<string, number>): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable': {
+      const value = Object.hasOwn(variables, node.name) ? variables[node.name] : undefined;
+      if (value === undefined) throw new ExpressionError(`Unknown variable "${node.name}"`);
+      return value;
+    }
+    case 'unary':
+      return -evaluateNode(node.operand, variables);
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map((arg) => evaluateNode(arg, variables)));
+    case 'binary': {
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '%':
+          return left % right;
+        default:
+          return left ** right;
+      }
+    }
+  }
+}
+
+function collectVariables(node: Node, names: Set<string>): Set<string> {
+  if (node.kind === 'variable') names.add(node.name);
+  if (node.kind === 'unary') collectVariables(node.operand, names);
+  if (node.kind === 'binary') {
+    collectVariables(node.left, names);
+    collectVariables(node.right, names);
+  }
+  if (node.kind === 'call') node.args.forEach((arg) => collectVariables(arg, names));
+  return names;
+}
+
+export interface CompiledExpression {
+  /** Variable names referenced by the expression */
+  variables: string[];
+  /**
+   * Evaluates the expression
+   * @throws ExpressionError if a variable is missing or the result is not finite
+   */
+  evaluate(variables: Record<string, number>): number;
+}
+
+/**
+ * Parses an expression once for repeated evaluation
+ *
+ * @throws ExpressionError if the expression is invalid
+ */
+export function compileExpression(source: string): CompiledExpression {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const root = parse(tokenize(source));
+
+  return {
+    variables: [...collectVariables(root, new Set())],
+    evaluate(variables) {
+      const result = evaluateNode(root, variables);
+      if (!Number.isFinite(result)) {
+        throw new ExpressionError('Expression did not produce a finite number');
+      }
+      return result;
+    },
+  };
+}
@@ -4,3 +4,7 @@
 
 export * from './password.js';
 export * from './jwt.js';
+export * from './expression.js';
+export * from './json-schema.js';
+export * from './totp.js';
+export * from './user-agent.js';
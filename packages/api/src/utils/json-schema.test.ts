@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the JSON Schema subset validator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findSchemaErrors, validateJsonSchema } from './json-schema.js';
+
+describe('findSchemaErrors', () => {
+  it('should accept supported keywords and annotations', () => {
+    expect(
+      findSchemaErrors({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        title: 'Room',
+        properties: {
+          floor: { type: 'integer', minimum: -5, default: 0 },
+          code: { type: 'string', pattern: '^[A-Z]{2}\\d+$', maxLength: 10 },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+          openedAt: { type: ['string', 'null'], format: 'date' },
+        },
+        required: ['code'],
+        additionalProperties: false,
+      })
+    ).toEqual([]);
+  });
+
+  it('should reject unsupported keywords instead of ignoring them', () => {
+    expect(findSchemaErrors({ type: 'object', properties: { a: { oneOf: [] } } })).toEqual([
+      { path: 'properties.a.oneOf', message: 'Unsupported keyword "oneOf"' },
+    ]);
+  });
+
+  it('should reject malformed keyword values', () => {
+    const errors = findSchemaErrors({ type: 'decimal', enum: [], pattern: '(', minLength: -1, required: [1] });
+
+    expect(errors.map((error) => error.path)).toEqual(['type', 'enum', 'pattern', 'minLength', 'required']);
+  });
+
+  it('should reject defaults that do not match the schema', () => {
+    expect(findSchemaErrors({ type: 'integer', minimum: 1, default: 0 })).toEqual([
+      { path: 'default', message: 'default does not match the schema: Must be at least 1' },
+    ]);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      floor: { type: 'integer', default: 0 },
+      status: { enum: ['open', 'closed'] },
+      address: {
+        type: 'object',
+        properties: { city: { type: 'string', minLength: 1 } },
+        required: ['city'],
+      },
+      readings: { type: 'array', items: { type: 'number', maximum: 100 } },
+    },
+    required: ['status'],
+  };
+
+  it('should apply defaults of missing properties', () => {
+    expect(validateJsonSchema(schema, { status: 'open' })).toEqual({
+      value: { status: 'open', floor: 0 },
+      errors: [],
+    });
+  });
+
+  it('should report errors with their paths', () => {
+    const { errors } = validateJsonSchema(schema, {
+      floor: 1.5,
+      address: {},
+      readings: [10, 200],
+    });
+
+    expect(errors).toEqual([
+      { path: 'floor', message: 'Expected integer' },
+      { path: 'address.city', message: 'Required' },
+      { path: 'readings[1]', message: 'Must be at most 100' },
+      { path: 'status', message: 'Required' },
+    ]);
+  });
+
+  it('should reject unknown properties only when additionalProperties is false', () => {
+    expect(validateJsonSchema(schema, { status: 'open', colour: 'red' }).errors).toEqual([]);
+    expect(
+      validateJsonSchema({ ...schema, additionalProperties: false }, { status: 'open', colour: 'red' }).errors
+    ).toEqual([{ path: 'colour', message: 'Unknown property' }]);
+  });
+
+  it('should validate string formats', () => {
+    const dateSchema = { type: 'string', format: 'date' };
+
+    expect(validateJsonSchema(dateSchema, '2026-02-28').errors).toEqual([]);
+    expect(validateJsonSchema(dateSchema, '2026-13-45').errors).toEqual([
+      { path: '', message: 'Must be a valid date' },
+    ]);
+  });
+});
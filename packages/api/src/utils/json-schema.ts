@@ -0,0 +1,309 @@
+/**
+ * JSON Schema validation for user-defined attribute schemas
+ *
+ * Supports the subset of JSON Schema needed to describe custom attributes:
+ * type, enum, const, string length / pattern / format, number bounds,
+ * object properties / required / additionalProperties, array items / length,
+ * and default values (applied to missing object properties). Schemas using
+ * other keywords are rejected by findSchemaErrors rather than half-enforced.
+ *
+ * @example
+ * const schema = { type: 'object', properties: { floor: { type: 'integer', default: 0 } } };
+ * validateJsonSchema(schema, {}); // { value: { floor: 0 }, errors: [] }
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface JsonSchemaError {
+  /** Location of the offending value ('' for the root, e.g. 'address.city', 'tags[0]') */
+  path: string;
+  message: string;
+}
+
+export interface JsonSchemaResult {
+  /** The validated value with defaults applied */
+  value: unknown;
+  errors: JsonSchemaError[];
+}
+
+export const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'] as const;
+
+const FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/** Keywords without validation meaning */
+const ANNOTATIONS = new Set(['$schema', '$id', '$comment', 'title', 'description', 'examples', 'deprecated', 'readOnly', 'writeOnly']);
+
+const NUMBER_KEYWORDS = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'];
+const COUNT_KEYWORDS = ['minLength', 'maxLength', 'minItems', 'maxItems'];
+const KEYWORDS = new Set([
+  'type',
+  'enum',
+  'const',
+  'default',
+  'format',
+  'pattern',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  ...NUMBER_KEYWORDS,
+  ...COUNT_KEYWORDS,
+]);
+
+/** Maximum nesting of sub-schemas */
+const MAX_SCHEMA_DEPTH = 16;
+
+/** Maximum length of pattern expressions */
+const MAX_PATTERN_LENGTH = 200;
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return false;
+  }
+}
+
+function typesOf(schema: JsonSchema): string[] | null {
+  if (schema.type === undefined) return null;
+  return Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+}
+
+/**
+ * Checks that a schema only uses supported keywords with well-formed values.
+ * Returns the problems found (empty when the schema is usable).
+ */
+export function findSchemaErrors(schema: unknown, path = '', depth = 0): JsonSchemaError[] {
+  if (!isPlainObject(schema)) {
+    return [{ path, message: 'Schema must be an object' }];
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return [{ path, message: `Schemas cannot be nested more than ${MAX_SCHEMA_DEPTH} levels deep` }];
+  }
+
+  const errors: JsonSchemaError[] = [];
+  const error = (keyword: string, message: string) => errors.push({ path: joinPath(path, keyword), message });
+
+  for (const keyword of Object.keys(schema)) {
+    if (!KEYWORDS.has(keyword) && !ANNOTATIONS.has(keyword)) {
+      error(keyword, `Unsupported keyword "${keyword}"`);
+    }
+  }
+
+  const types = typesOf(schema);
+  if (types && (types.length === 0 || types.some((type) => !(JSON_SCHEMA_TYPES as readonly string[]).includes(type)))) {
+    error('type', `type must be one of ${JSON_SCHEMA_TYPES.join(', ')}`);
+  }
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    error('enum', 'enum must be a non-empty array');
+  }
+  if (schema.format !== undefined && !(typeof schema.format === 'string' && schema.format in FORMATS)) {
+    error('format', `format must be one of ${Object.keys(FORMATS).join(', ')}`);
+  }
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== 'string' || schema.pattern.length > MAX_PATTERN_LENGTH) {
+      error('pattern', `pattern must be a string of at most ${MAX_PATTERN_LENGTH} characters`);
+    } else {
+      try {
+        new RegExp(schema.pattern, 'u');
+      } catch {
+        error('pattern', 'pattern is not a valid regular expression');
+      }
+    }
+  }
+  for (const keyword of NUMBER_KEYWORDS) {
+    if (schema[keyword] !== undefined && !matchesType('number', schema[keyword])) {
+      error(keyword, `${keyword} must be a number`);
+    }
+  }
+  for (const keyword of COUNT_KEYWORDS) {
+    const count = schema[keyword];
+    if (count !== undefined && !(matchesType('integer', count) && (count as number) >= 0)) {
+      error(keyword, `${keyword} must be a non-negative integer`);
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      error('properties', 'properties must be an object');
+    } else {
+      for (const [key, property] of Object.entries(schema.properties)) {
+        errors.push(...findSchemaErrors(property, joinPath(joinPath(path, 'properties'), key), depth + 1));
+      }
+    }
+  }
+  if (
+    schema.required !== undefined &&
+    !(Array.isArray(schema.required) && schema.required.every((key) => typeof key === 'string'))
+  ) {
+    error('required', 'required must be an array of property names');
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    errors.push(...findSchemaErrors(schema.additionalProperties, joinPath(path, 'additionalProperties'), depth + 1));
+  }
+  if (schema.items !== undefined) {
+    errors.push(...findSchemaErrors(schema.items, joinPath(path, 'items'), depth + 1));
+  }
+
+  if (errors.length === 0 && schema.default !== undefined) {
+    const defaultErrors = validateJsonSchema({ ...schema, default: undefined }, schema.default).errors;
+    if (defaultErrors.length > 0) {
+      error('default', `default does not match the schema: ${defaultErrors[0].message}`);
+    }
+  }
+
+  return errors;
+}
+
+function validateString(schema: JsonSchema, value: string, path: string, errors: JsonSchemaError[]): void {
+  const length = [...value].length;
+  if (typeof schema.minLength === 'number' && length < schema.minLength) {
+    errors.push({ path, message: `Must be at least ${schema.minLength} characters` });
+  }
+  if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+    errors.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+  }
+  if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+    errors.push({ path, message: `Must match pattern ${schema.pattern}` });
+  }
+  if (typeof schema.format === 'string' && FORMATS[schema.format]) {
+    const valid =
+      FORMATS[schema.format].test(value) &&
+      (!schema.format.startsWith('date') || !Number.isNaN(Date.parse(value)));
+    if (!valid) errors.push({ path, message: `Must be a valid ${schema.format}` });
+  }
+}
+
+function validateNumber(schema: JsonSchema, value: number, path: string, errors: JsonSchemaError[]): void {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    errors.push({ path, message: `Must be at least ${schema.minimum}` });
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    errors.push({ path, message: `Must be at most ${schema.maximum}` });
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `Must be greater than ${schema.exclusiveMinimum}` });
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `Must be less than ${schema.exclusiveMaximum}` });
+  }
+}
+
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  path: string,
+  errors: JsonSchemaError[]
+): Record<string, unknown> {
+  const result = { ...value };
+  const properties = isPlainObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+
+  for (const [key, property] of Object.entries(properties)) {
+    if (!(key in result) && property.default !== undefined) {
+      result[key] = structuredClone(property.default);
+    }
+    if (key in result) {
+      result[key] = validateNode(property, result[key], joinPath(path, key), errors);
+    }
+  }
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required as string[]) {
+      if (!(key in result)) errors.push({ path: joinPath(path, key), message: 'Required' });
+    }
+  }
+
+  for (const key of Object.keys(result)) {
+    if (key in properties) continue;
+    if (schema.additionalProperties === false) {
+      errors.push({ path: joinPath(path, key), message: 'Unknown property' });
+    } else if (isPlainObject(schema.additionalProperties)) {
+      result[key] = validateNode(schema.additionalProperties, result[key], joinPath(path, key), errors);
+    }
+  }
+
+  return result;
+}
+
+function validateNode(schema: JsonSchema, value: unknown, path: string, errors: JsonSchemaError[]): unknown {
+  const types = typesOf(schema);
+  if (types && !types.some((type) => matchesType(type, value))) {
+    errors.push({ path, message: `Expected ${types.join(' or ')}` });
+    return value;
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push({ path, message: `Must be ${JSON.stringify(schema.const)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => isEqual(option, value))) {
+    errors.push({ path, message: `Must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    validateString(schema, value, path, errors);
+  } else if (typeof value === 'number') {
+    validateNumber(schema, value, path, errors);
+  } else if (isPlainObject(value)) {
+    return validateObject(schema, value, path, errors);
+  } else if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    }
+    if (isPlainObject(schema.items)) {
+      return value.map((item, index) => validateNode(schema.items as JsonSchema, item, joinPath(path, index), errors));
+    }
+  }
+  return value;
+}
+
+/**
+ * Validates a value against a schema, applying defaults of missing object
+ * properties. The schema must have passed findSchemaErrors.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): JsonSchemaResult {
+  const errors: JsonSchemaError[] = [];
+  const result = validateNode(schema, value, '', errors);
+  return { value: result, errors };
+}
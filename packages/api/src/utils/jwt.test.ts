@@ -8,6 +8,8 @@ import jwt from 'jsonwebtoken';
 import {
   signAccessToken,
   verifyAccessToken,
+  signMfaChallengeToken,
+  verifyMfaChallengeToken,
   decodeToken,
   type AccessTokenPayload,
   type DecodedAccessToken,
@@ -61,6 +63,19 @@ describe('JWT Utilities', () => {
 
       expect(decoded.email).toBe(email);
     });
+
+    it('should include the session ID when given', () => {
+      const userId = createUserId('00000000-0000-0000-0000-000000000001');
+      const sessionId = '3f1c2b7e-9a4d-4e8b-8c6f-1d2e3f4a5b6c';
+
+      const withSession = jwt.decode(
+        signAccessToken(userId, 'user@example.com', undefined, undefined, sessionId)
+      ) as AccessTokenPayload;
+      const withoutSession = jwt.decode(signAccessToken(userId, 'user@example.com')) as AccessTokenPayload;
+
+      expect(withSession.sid).toBe(sessionId);
+      expect(withoutSession.sid).toBeUndefined();
+    });
   });
 
   describe('verifyAccessToken', () => {
@@ -110,6 +125,39 @@ describe('JWT Utilities', () => {
     });
   });
 
+  describe('MFA challenge tokens', () => {
+    it('should round-trip the user and purpose', () => {
+      const userId = createUserId('00000000-0000-0000-0000-000000000001');
+
+      const token = signMfaChallengeToken(userId, 'user@example.com', 'enroll');
+      const decoded = verifyMfaChallengeToken(token);
+
+      expect(decoded?.sub).toBe(userId);
+      expect(decoded?.type).toBe('mfa_challenge');
+      expect(decoded?.purpose).toBe('enroll');
+      expect(decoded!.exp - decoded!.iat).toBe(300);
+      expect(decoded?.passwordResetReason).toBeUndefined();
+    });
+
+    it('should carry a pending password reset', () => {
+      const userId = createUserId('00000000-0000-0000-0000-000000000001');
+
+      const token = signMfaChallengeToken(userId, 'user@example.com', 'verify', 'expired');
+
+      expect(verifyMfaChallengeToken(token)?.passwordResetReason).toBe('expired');
+    });
+
+    it('should not be interchangeable with access tokens', () => {
+      const userId = createUserId('00000000-0000-0000-0000-000000000001');
+
+      const challenge = signMfaChallengeToken(userId, 'user@example.com', 'verify');
+      const access = signAccessToken(userId, 'user@example.com');
+
+      expect(verifyAccessToken(challenge)).toBeNull();
+      expect(verifyMfaChallengeToken(access)).toBeNull();
+    });
+  });
+
   describe('decodeToken', () => {
     it('should decode token without verification', () => {
       const userId = createUserId('00000000-0000-0000-0000-000000000001');
@@ -4,7 +4,7 @@
  */
 
 import jwt from 'jsonwebtoken';
-import { type UserId, type OrganizationId } from '@argus/shared';
+import { type UserId, type OrganizationId, type PasswordResetReason } from '@argus/shared';
 
 /** Impersonation claims for access tokens */
 export interface ImpersonationClaims {
@@ -49,6 +49,12 @@ export interface AccessTokenPayload {
   org?: OrganizationContext;
 
   impersonation?: ImpersonationClaims;
+
+  /**
+   * Session ID (refresh token family) the token was issued for
+   * Absent for tokens not backed by a refresh token (e.g. impersonation)
+   */
+  sid?: string;
 }
 
 /** Decoded access token with standard JWT claims */
@@ -57,8 +63,32 @@ export interface DecodedAccessToken extends AccessTokenPayload {
   exp: number;
 }
 
+/**
+ * MFA challenge token payload
+ * Issued by /auth/login after the password check when a second factor is
+ * needed; only accepted by the /auth/mfa/challenge endpoints
+ */
+export interface MfaChallengeTokenPayload {
+  sub: UserId;
+  email: string;
+  type: 'mfa_challenge';
+  /** verify: enter a code; enroll: MFA is required but not yet set up */
+  purpose: 'verify' | 'enroll';
+  /** Set when the password must be changed once the second factor is verified */
+  passwordResetReason?: PasswordResetReason;
+}
+
+/** Decoded MFA challenge token with standard JWT claims */
+export interface DecodedMfaChallengeToken extends MfaChallengeTokenPayload {
+  iat: number;
+  exp: number;
+}
+
 const ACCESS_TOKEN_EXPIRY = '15m';
 
+/** MFA challenge expiry in seconds (5 minutes) */
+export const MFA_CHALLENGE_EXPIRY_SECONDS = 300;
+
 function getJwtSecret(): string {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
@@ -73,12 +103,14 @@ function getJwtSecret(): string {
  * @param email - The user's email
  * @param organizationContext - Organization context (root, current, accessible IDs) per ADR-002
  * @param impersonation - Optional impersonation claims for admin impersonation sessions
+ * @param sessionId - Refresh token family ID of the session the token belongs to
  */
 export function signAccessToken(
   userId: UserId,
   email: string,
   organizationContext?: OrganizationContext,
-  impersonation?: ImpersonationClaims
+  impersonation?: ImpersonationClaims,
+  sessionId?: string
 ): string {
   const payload: AccessTokenPayload = {
     sub: userId,
@@ -86,6 +118,7 @@ export function signAccessToken(
     type: 'access',
     ...(organizationContext && { org: organizationContext }),
     ...(impersonation && { impersonation }),
+    ...(sessionId && { sid: sessionId }),
   };
 
   return jwt.sign(payload, getJwtSecret(), {
@@ -115,6 +148,49 @@ export function verifyAccessToken(token: string): DecodedAccessToken | null {
   }
 }
 
+/**
+ * Signs a short-lived MFA challenge token
+ */
+export function signMfaChallengeToken(
+  userId: UserId,
+  email: string,
+  purpose: MfaChallengeTokenPayload['purpose'],
+  passwordResetReason?: PasswordResetReason
+): string {
+  const payload: MfaChallengeTokenPayload = {
+    sub: userId,
+    email,
+    type: 'mfa_challenge',
+    purpose,
+    ...(passwordResetReason && { passwordResetReason }),
+  };
+
+  return jwt.sign(payload, getJwtSecret(), {
+    expiresIn: MFA_CHALLENGE_EXPIRY_SECONDS,
+    algorithm: 'HS256',
+  });
+}
+
+/**
+ * Verifies and decodes an MFA challenge token
+ * Returns null if token is invalid, expired or not an MFA challenge
+ */
+export function verifyMfaChallengeToken(token: string): DecodedMfaChallengeToken | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret(), {
+      algorithms: ['HS256'],
+    }) as DecodedMfaChallengeToken;
+
+    if (decoded.type !== 'mfa_challenge') {
+      return null;
+    }
+
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Decodes a token without verification (for debugging)
  */
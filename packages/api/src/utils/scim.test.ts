@@ -0,0 +1,123 @@
+/**
+ * Unit tests for SCIM filter parsing and PATCH operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyScimPatch, matchesScimFilter, parseScimFilter, ScimError } from './scim.js';
+
+const user = {
+  userName: 'Ada@Example.com',
+  externalId: '00u1',
+  name: { givenName: 'Ada', familyName: 'Lovelace' },
+  emails: [{ value: 'ada@example.com', type: 'work', primary: true }],
+  active: true,
+  roles: [{ value: 'Operator' }],
+  meta: { created: '2026-03-01T09:00:00.000Z' },
+};
+
+function matches(filter: string, resource: object = user): boolean {
+  return matchesScimFilter(resource, parseScimFilter(filter));
+}
+
+describe('parseScimFilter / matchesScimFilter', () => {
+  it('should compare attributes case-insensitively', () => {
+    expect(matches('userName eq "ada@example.com"')).toBe(true);
+    expect(matches('USERNAME Eq "ADA@EXAMPLE.COM"')).toBe(true);
+    expect(matches('urn:ietf:params:scim:schemas:core:2.0:User:userName eq "ada@example.com"')).toBe(true);
+    expect(matches('userName eq "grace@example.com"')).toBe(false);
+    expect(matches('userName ne "grace@example.com"')).toBe(true);
+  });
+
+  it('should support string, presence and ordering operators', () => {
+    expect(matches('userName sw "ada"')).toBe(true);
+    expect(matches('userName ew "example.com"')).toBe(true);
+    expect(matches('name.familyName co "love"')).toBe(true);
+    expect(matches('externalId pr')).toBe(true);
+    expect(matches('displayName pr')).toBe(false);
+    expect(matches('meta.created gt "2026-01-01T00:00:00Z"')).toBe(true);
+  });
+
+  it('should match multi-valued attributes and value filters', () => {
+    expect(matches('emails.value eq "ada@example.com"')).toBe(true);
+    expect(matches('emails eq "ada@example.com"')).toBe(true);
+    expect(matches('emails[type eq "work" and primary eq true]')).toBe(true);
+    expect(matches('roles[value eq "Viewer"]')).toBe(false);
+  });
+
+  it('should combine expressions with and, or, not and parentheses', () => {
+    expect(matches('active eq true and externalId eq "00u1"')).toBe(true);
+    expect(matches('active eq false or (externalId eq "00u1" and not (userName sw "grace"))')).toBe(true);
+    expect(matches('active eq false and externalId eq "00u1" or userName eq "nobody"')).toBe(false);
+  });
+
+  it('should reject malformed filters as invalidFilter', () => {
+    for (const filter of ['', 'userName', 'userName eq', 'userName foo "x"', 'userName eq "x" and', '(userName eq "x"', 'userName eq "unterminated']) {
+      expect(() => parseScimFilter(filter), filter).toThrow(ScimError);
+    }
+    try {
+      parseScimFilter('userName eq');
+    } catch (error) {
+      expect(error).toMatchObject({ status: 400, scimType: 'invalidFilter' });
+    }
+  });
+});
+
+describe('applyScimPatch', () => {
+  it('should replace simple and sub-attributes without modifying the input', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', path: 'active', value: false },
+      { op: 'replace', path: 'name.givenName', value: 'Augusta' },
+    ]);
+
+    expect(patched.active).toBe(false);
+    expect(patched.name).toEqual({ givenName: 'Augusta', familyName: 'Lovelace' });
+    expect(user.active).toBe(true);
+  });
+
+  it('should apply path-less operations key by key', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', value: { active: 'False', 'name.familyName': 'King', externalId: '00u2' } },
+    ]);
+
+    expect(patched).toMatchObject({ active: 'False', externalId: '00u2', name: { givenName: 'Ada', familyName: 'King' } });
+  });
+
+  it('should add to and remove from multi-valued attributes', () => {
+    const group = { displayName: 'Operators', members: [{ value: 'u1' }, { value: 'u2' }] };
+
+    const added = applyScimPatch(group, [{ op: 'add', path: 'members', value: [{ value: 'u2' }, { value: 'u3' }] }]);
+    expect(added.members).toEqual([{ value: 'u1' }, { value: 'u2' }, { value: 'u3' }]);
+
+    const filtered = applyScimPatch(group, [{ op: 'remove', path: 'members[value eq "u1"]' }]);
+    expect(filtered.members).toEqual([{ value: 'u2' }]);
+
+    const listed = applyScimPatch(group, [{ op: 'remove', path: 'members', value: [{ value: 'u2' }] }]);
+    expect(listed.members).toEqual([{ value: 'u1' }]);
+
+    const cleared = applyScimPatch(group, [{ op: 'remove', path: 'members' }]);
+    expect(cleared.members).toBeUndefined();
+  });
+
+  it('should update matching values of a filtered path', () => {
+    const patched = applyScimPatch(user, [
+      { op: 'replace', path: 'emails[type eq "work"].value', value: 'ada@lovelace.example' },
+    ]);
+
+    expect(patched.emails).toEqual([{ value: 'ada@lovelace.example', type: 'work', primary: true }]);
+  });
+
+  it('should reject inapplicable operations', () => {
+    expect(() => applyScimPatch(user, [{ op: 'remove' }])).toThrow(
+      expect.objectContaining({ scimType: 'noTarget' })
+    );
+    expect(() => applyScimPatch(user, [{ op: 'replace', path: 'emails[type eq "home"].value', value: 'x' }])).toThrow(
+      expect.objectContaining({ scimType: 'noTarget' })
+    );
+    expect(() => applyScimPatch(user, [{ op: 'add', path: 'name..givenName', value: 'x' }])).toThrow(
+      expect.objectContaining({ scimType: 'invalidPath' })
+    );
+    expect(() => applyScimPatch(user, [{ op: 'replace', value: 'x' }])).toThrow(
+      expect.objectContaining({ scimType: 'invalidValue' })
+    );
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * SCIM 2.0 filter and PATCH support (RFC 7644 sections 3.4.2.2 and 3.5.2)
+ *
+ * Filters are parsed into a small AST and evaluated against SCIM resources as
+ * plain objects. Attribute names are case-insensitive and may carry the schema
+ * URN prefix; string comparisons are case-insensitive.
+ *
+ * @example
+ * const filter = parseScimFilter('userName eq "ada@example.com" and active eq true');
+ * matchesScimFilter({ userName: 'Ada@example.com', active: true }, filter); // true
+ */
+
+import type { ScimErrorType, ScimPatchOperation } from '@argus/shared';
+
+/**
+ * Error reported to SCIM clients in the SCIM error format
+ */
+export class ScimError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: ScimErrorType
+  ) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+type FilterValue = string | number | boolean | null;
+
+export type ScimFilter =
+  | { kind: 'logical'; operator: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { kind: 'not'; filter: ScimFilter }
+  | { kind: 'present'; attribute: string }
+  | { kind: 'compare'; operator: CompareOperator; attribute: string; value: FilterValue }
+  | { kind: 'valuePath'; attribute: string; filter: ScimFilter };
+
+type Token = { kind: 'punctuation'; value: string } | { kind: 'string'; value: string } | { kind: 'word'; value: string };
+
+const COMPARE_OPERATORS = new Set<string>(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+
+/** Maximum filter length accepted by the parser */
+const MAX_FILTER_LENGTH = 1000;
+
+/** Canonical spelling of attributes, used when a PATCH adds an attribute */
+const CANONICAL_ATTRIBUTES = [
+  'userName',
+  'externalId',
+  'name',
+  'givenName',
+  'familyName',
+  'displayName',
+  'active',
+  'emails',
+  'roles',
+  'members',
+  'groups',
+  'value',
+  'display',
+  'type',
+  'primary',
+];
+
+function invalidFilter(message: string): ScimError {
+  return new ScimError(400, message, 'invalidFilter');
+}
+
+/**
+ * Strips a schema URN prefix ("urn:...:User:userName" -> "userName")
+ */
+function stripSchemaUrn(attribute: string): string {
+  return attribute.toLowerCase().startsWith('urn:') ? attribute.slice(attribute.lastIndexOf(':') + 1) : attribute;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('()[]'.includes(char)) {
+      tokens.push({ kind: 'punctuation', value: char });
+      i++;
+    } else if (char === '"') {
+      const match = /^"(?:[^"\\]|\\.)*"/.exec(source.slice(i));
+      if (!match) throw invalidFilter(`Unterminated string at position ${i}`);
+      try {
+        tokens.push({ kind: 'string', value: JSON.parse(match[0]) as string });
+      } catch {
+        throw invalidFilter(`Invalid string at position ${i}`);
+      }
+      i += match[0].length;
+    } else {
+      const match = /^[^\s()[\]"]+/.exec(source.slice(i))!;
+      tokens.push({ kind: 'word', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+class FilterParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScimFilter {
+    const filter = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw invalidFilter(`Unexpected "${this.tokens[this.position].value}"`);
+    }
+    return filter;
+  }
+
+  private peekWord(): string | null {
+    const token = this.tokens[this.position];
+    return token?.kind === 'word' ? token.value.toLowerCase() : null;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.tokens[this.position];
+    if (token?.kind !== 'punctuation' || token.value !== value) {
+      throw invalidFilter(`Expected "${value}"`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): ScimFilter {
+    let left = this.parseAnd();
+    while (this.peekWord() === 'or') {
+      this.position++;
+      left = { kind: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilter {
+    let left = this.parseUnary();
+    while (this.peekWord() === 'and') {
+      this.position++;
+      left = { kind: 'logical', operator: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScimFilter {
+    const token = this.tokens[this.position];
+    if (!token) throw invalidFilter('Unexpected end of filter');
+
+    if (token.kind === 'punctuation' && token.value === '(') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expectPunctuation(')');
+      return filter;
+    }
+
+    if (token.kind === 'word' && token.value.toLowerCase() === 'not') {
+      this.position++;
+      this.expectPunctuation('(');
+      const filter = this.parseOr();
+      this.expectPunctuation(')');
+      return { kind: 'not', filter };
+    }
+
+    if (token.kind !== 'word') throw invalidFilter(`Expected an attribute, got "${token.value}"`);
+    this.position++;
+    const attribute = stripSchemaUrn(token.value);
+
+    const next = this.tokens[this.position];
+    if (next?.kind === 'punctuation' && next.value === '[') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expectPunctuation(']');
+      return { kind: 'valuePath', attribute, filter };
+    }
+
+    const operator = this.peekWord();
+    if (operator === 'pr') {
+      this.position++;
+      return { kind: 'present', attribute };
+    }
+    if (!operator || !COMPARE_OPERATORS.has(operator)) {
+      throw invalidFilter(`Expected an operator after "${attribute}"`);
+    }
+    this.position++;
+
+    return { kind: 'compare', operator: operator as CompareOperator, attribute, value: this.parseValue() };
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.tokens[this.position];
+    if (!token || token.kind === 'punctuation') throw invalidFilter('Expected a comparison value');
+    this.position++;
+
+    if (token.kind === 'string') return token.value;
+    const word = token.value.toLowerCase();
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    const number = Number(token.value);
+    if (Number.isNaN(number)) throw invalidFilter(`Invalid comparison value "${token.value}"`);
+    return number;
+  }
+}
+
+/**
+ * Parses a SCIM filter expression
+ * @throws ScimError (invalidFilter) for malformed filters
+ */
+export function parseScimFilter(source: string): ScimFilter {
+  if (source.length > MAX_FILTER_LENGTH) {
+    throw invalidFilter(`Filter exceeds ${MAX_FILTER_LENGTH} characters`);
+  }
+  return new FilterParser(tokenize(source)).parse();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Existing key matching an attribute name case-insensitively */
+function findKey(object: Record<string, unknown>, attribute: string): string | undefined {
+  const lower = attribute.toLowerCase();
+  return Object.keys(object).find((key) => key.toLowerCase() === lower);
+}
+
+/** Key to use for an attribute: the existing spelling, else the canonical one */
+function resolveKey(object: Record<string, unknown>, attribute: string): string {
+  const lower = attribute.toLowerCase();
+  return findKey(object, attribute) ?? CANONICAL_ATTRIBUTES.find((name) => name.toLowerCase() === lower) ?? attribute;
+}
+
+/**
+ * All values at a dotted attribute path; multi-valued attributes are flattened
+ */
+function resolveValues(resource: unknown, attribute: string): unknown[] {
+  let current: unknown[] = [resource];
+  for (const segment of attribute.split('.')) {
+    const next: unknown[] = [];
+    for (const value of current.flatMap((item) => (Array.isArray(item) ? item : [item]))) {
+      if (!isPlainObject(value)) continue;
+      const key = findKey(value, segment);
+      if (key !== undefined && value[key] !== undefined && value[key] !== null) {
+        next.push(value[key]);
+      }
+    }
+    current = next;
+  }
+  // A multi-valued attribute compared directly compares its "value" sub-attribute
+  return current
+    .flatMap((item) => (Array.isArray(item) ? item : [item]))
+    .map((item) => (isPlainObject(item) && findKey(item, 'value') ? item[findKey(item, 'value')!] : item));
+}
+
+function compare(actual: unknown, operator: CompareOperator, expected: FilterValue): boolean {
+  if (typeof expected === 'boolean') {
+    if (operator === 'eq') return actual === expected;
+    if (operator === 'ne') return actual !== expected;
+    return false;
+  }
+
+  if (typeof expected === 'number') {
+    if (typeof actual !== 'number') return false;
+    switch (operator) {
+      case 'eq':
+        return actual === expected;
+      case 'ne':
+        return actual !== expected;
+      case 'gt':
+        return actual > expected;
+      case 'ge':
+        return actual >= expected;
+      case 'lt':
+        return actual < expected;
+      case 'le':
+        return actual <= expected;
+      default:
+        return false;
+    }
+  }
+
+  if (typeof actual !== 'string' || expected === null) return false;
+  const left = actual.toLowerCase();
+  const right = expected.toLowerCase();
+  switch (operator) {
+    case 'eq':
+      return left === right;
+    case 'ne':
+      return left !== right;
+    case 'co':
+      return left.includes(right);
+    case 'sw':
+      return left.startsWith(right);
+    case 'ew':
+      return left.endsWith(right);
+    case 'gt':
+      return left > right;
+    case 'ge':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    case 'le':
+      return left <= right;
+  }
+}
+
+/**
+ * Evaluates a parsed filter against a SCIM resource
+ */
+export function matchesScimFilter(resource: unknown, filter: ScimFilter): boolean {
+  switch (filter.kind) {
+    case 'logical':
+      return filter.operator === 'and'
+        ? matchesScimFilter(resource, filter.left) && matchesScimFilter(resource, filter.right)
+        : matchesScimFilter(resource, filter.left) || matchesScimFilter(resource, filter.right);
+    case 'not':
+      return !matchesScimFilter(resource, filter.filter);
+    case 'present':
+      return resolveValues(resource, filter.attribute).some((value) => value !== '');
+    case 'compare': {
+      const values = resolveValues(resource, filter.attribute);
+      if (filter.value === null) {
+        return filter.operator === 'eq' ? values.length === 0 : filter.operator === 'ne' && values.length > 0;
+      }
+      if (filter.operator === 'ne') {
+        return !values.some((value) => compare(value, 'eq', filter.value));
+      }
+      return values.some((value) => compare(value, filter.operator, filter.value));
+    }
+    case 'valuePath': {
+      const key = isPlainObject(resource) ? findKey(resource, filter.attribute) : undefined;
+      const items = key !== undefined ? (resource as Record<string, unknown>)[key] : undefined;
+      return Array.isArray(items) && items.some((item) => matchesScimFilter(item, filter.filter));
+    }
+  }
+}
+
+// ============================================================
+// PATCH
+// ============================================================
+
+interface PatchPath {
+  attribute: string;
+  filter?: ScimFilter;
+  subAttribute?: string;
+}
+
+function invalidPath(path: string): ScimError {
+  return new ScimError(400, `Invalid path "${path}"`, 'invalidPath');
+}
+
+/**
+ * Parses a PATCH path: attr, attr.sub, attr[filter] or attr[filter].sub
+ */
+function parsePatchPath(path: string): PatchPath {
+  const bracket = path.indexOf('[');
+  const head = stripSchemaUrn(bracket >= 0 ? path.slice(0, bracket) : path);
+
+  if (bracket < 0) {
+    const match = /^([A-Za-z$][\w$-]*)(?:\.([A-Za-z$][\w$-]*))?$/.exec(head);
+    if (!match) throw invalidPath(path);
+    return { attribute: match[1], subAttribute: match[2] };
+  }
+
+  const close = path.lastIndexOf(']');
+  const tail = path.slice(close + 1);
+  const tailMatch = /^(?:\.([A-Za-z$][\w$-]*))?$/.exec(tail);
+  if (!/^[A-Za-z$][\w$-]*$/.test(head) || close < bracket || !tailMatch) {
+    throw invalidPath(path);
+  }
+
+  let filter: ScimFilter;
+  try {
+    filter = parseScimFilter(path.slice(bracket + 1, close));
+  } catch {
+    throw invalidPath(path);
+  }
+  return { attribute: head, filter, subAttribute: tailMatch[1] };
+}
+
+/** Value identity for de-duplicating multi-valued attributes */
+function valueIdentity(value: unknown): string {
+  return isPlainObject(value) && findKey(value, 'value')
+    ? String(value[findKey(value, 'value')!]).toLowerCase()
+    : JSON.stringify(value);
+}
+
+function addValue(container: Record<string, unknown>, attribute: string, value: unknown): void {
+  const key = resolveKey(container, attribute);
+  const existing = container[key];
+
+  if (Array.isArray(existing)) {
+    const seen = new Set(existing.map(valueIdentity));
+    const additions = (Array.isArray(value) ? value : [value]).filter((item) => !seen.has(valueIdentity(item)));
+    container[key] = [...existing, ...additions];
+  } else if (isPlainObject(existing) && isPlainObject(value)) {
+    container[key] = { ...existing, ...value };
+  } else {
+    container[key] = value;
+  }
+}
+
+function applyOperation(resource: Record<string, unknown>, operation: ScimPatchOperation): void {
+  const { op, value } = operation;
+
+  if (!operation.path) {
+    if (op === 'remove') {
+      throw new ScimError(400, 'A path is required to remove attributes', 'noTarget');
+    }
+    if (!isPlainObject(value)) {
+      throw new ScimError(400, `Operation "${op}" without a path requires an object value`, 'invalidValue');
+    }
+    // Keys may themselves be paths ("name.givenName")
+    for (const [path, attributeValue] of Object.entries(value)) {
+      applyOperation(resource, { op, path, value: attributeValue });
+    }
+    return;
+  }
+
+  const path = parsePatchPath(operation.path);
+  const key = resolveKey(resource, path.attribute);
+
+  if (path.filter) {
+    const items = resource[key];
+    const filter = path.filter;
+    if (!Array.isArray(items)) {
+      if (op === 'remove') return;
+      throw new ScimError(400, `No values match "${operation.path}"`, 'noTarget');
+    }
+
+    if (op === 'remove') {
+      resource[key] = path.subAttribute
+        ? items.map((item) => {
+            if (!isPlainObject(item) || !matchesScimFilter(item, filter)) return item;
+            const { [resolveKey(item, path.subAttribute!)]: _removed, ...rest } = item;
+            return rest;
+          })
+        : items.filter((item) => !matchesScimFilter(item, filter));
+      return;
+    }
+
+    const matched = items.filter((item) => isPlainObject(item) && matchesScimFilter(item, filter));
+    if (matched.length === 0) {
+      throw new ScimError(400, `No values match "${operation.path}"`, 'noTarget');
+    }
+    for (const item of matched as Record<string, unknown>[]) {
+      if (path.subAttribute) {
+        item[resolveKey(item, path.subAttribute)] = value;
+      } else if (isPlainObject(value)) {
+        Object.assign(item, value);
+      } else {
+        throw new ScimError(400, `"${operation.path}" requires an object value`, 'invalidValue');
+      }
+    }
+    return;
+  }
+
+  if (path.subAttribute) {
+    if (op === 'remove') {
+      const parent = resource[key];
+      if (isPlainObject(parent)) delete parent[resolveKey(parent, path.subAttribute)];
+      return;
+    }
+    if (!isPlainObject(resource[key])) resource[key] = {};
+    const parent = resource[key] as Record<string, unknown>;
+    if (op === 'add') {
+      addValue(parent, path.subAttribute, value);
+    } else {
+      parent[resolveKey(parent, path.subAttribute)] = value;
+    }
+    return;
+  }
+
+  switch (op) {
+    case 'add':
+      addValue(resource, path.attribute, value);
+      return;
+    case 'replace':
+      resource[key] = value;
+      return;
+    case 'remove': {
+      // Some clients remove multi-valued entries by listing them as the value
+      const existing = resource[key];
+      if (Array.isArray(existing) && value !== undefined) {
+        const removals = new Set((Array.isArray(value) ? value : [value]).map(valueIdentity));
+        resource[key] = existing.filter((item) => !removals.has(valueIdentity(item)));
+      } else {
+        delete resource[key];
+      }
+    }
+  }
+}
+
+/**
+ * Applies PATCH operations to a copy of a SCIM resource
+ * @throws ScimError (invalidPath, noTarget, invalidValue) for inapplicable operations
+ */
+export function applyScimPatch<T extends object>(resource: T, operations: ScimPatchOperation[]): Record<string, unknown> {
+  const patched = structuredClone(resource) as Record<string, unknown>;
+  for (const operation of operations) {
+    applyOperation(patched, operation);
+  }
+  return patched;
+}
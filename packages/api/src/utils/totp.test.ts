@@ -0,0 +1,127 @@
+/**
+ * Unit tests for TOTP utilities
+ * Reference values from RFC 4226 Appendix D and RFC 6238 Appendix B (SHA1)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateHotp,
+  generateTotp,
+  findTotpStep,
+  verifyTotp,
+  buildOtpauthUri,
+} from './totp.js';
+
+// "12345678901234567890" - the RFC test secret
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('TOTP Utilities', () => {
+  describe('base32', () => {
+    it('should round-trip bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should encode the RFC 4648 test vectors without padding', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate unique 160-bit base32 secrets', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('generateHotp', () => {
+    it('should match the RFC 4226 test values', () => {
+      expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+      expect(generateHotp(RFC_SECRET, 1)).toBe('287082');
+      expect(generateHotp(RFC_SECRET, 9)).toBe('520489');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 test values (6 digit truncation)', () => {
+      expect(generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, new Date(2000000000 * 1000))).toBe('279037');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    it('should accept the current code and codes within the drift window', () => {
+      const previous = new Date(now.getTime() - 30_000);
+      const next = new Date(now.getTime() + 30_000);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), { now })).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, previous), { now })).toBe(true);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, next), { now })).toBe(true);
+    });
+
+    it('should reject codes outside the window', () => {
+      const old = new Date(now.getTime() - 90_000);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, old), { now })).toBe(false);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, old), { now, window: 3 })).toBe(true);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '', { now })).toBe(false);
+      expect(verifyTotp(RFC_SECRET, '12345', { now })).toBe(false);
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBe(false);
+    });
+
+    it('should ignore whitespace in codes', () => {
+      const code = generateTotp(RFC_SECRET, now);
+      expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, { now })).toBe(true);
+    });
+  });
+
+  describe('findTotpStep', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const step = Math.floor(now.getTime() / 30_000);
+
+    it('should return the step a code was generated for', () => {
+      const previous = new Date(now.getTime() - 30_000);
+
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, now), { now })).toBe(step);
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, previous), { now })).toBe(step - 1);
+      expect(findTotpStep(RFC_SECRET, '12345', { now })).toBeNull();
+    });
+
+    it('should reject steps at or before the last used step', () => {
+      const code = generateTotp(RFC_SECRET, now);
+
+      expect(findTotpStep(RFC_SECRET, code, { now, afterStep: step - 1 })).toBe(step);
+      expect(findTotpStep(RFC_SECRET, code, { now, afterStep: step })).toBeNull();
+      expect(findTotpStep(RFC_SECRET, code, { now, afterStep: step + 1 })).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a key URI with an encoded label and issuer', () => {
+      const uri = buildOtpauthUri({
+        secret: 'JBSWY3DPEHPK3PXP',
+        accountName: 'jane@example.com',
+        issuer: 'Argus IoT',
+      });
+
+      expect(uri).toBe(
+        'otpauth://totp/Argus%20IoT:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Argus%20IoT&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
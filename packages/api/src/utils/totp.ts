@@ -0,0 +1,166 @@
+/**
+ * TOTP (RFC 6238) utility functions for multi-factor authentication
+ * Uses HMAC-SHA1, 30 second steps and 6 digit codes - the defaults every
+ * authenticator app supports
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Seconds per time step */
+export const TOTP_STEP_SECONDS = 30;
+
+/** Digits per code */
+export const TOTP_DIGITS = 6;
+
+/** Secret length in bytes (160 bits, as recommended by RFC 4226) */
+const SECRET_BYTES = 20;
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodes RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+ * Throws on invalid characters
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a random base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * Generates the code for a time step counter (HOTP, RFC 4226)
+ */
+export function generateHotp(secret: string, counter: number, digits: number = TOTP_DIGITS): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Generates the TOTP code for a point in time
+ */
+export function generateTotp(secret: string, now: Date = new Date()): string {
+  return generateHotp(secret, Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS));
+}
+
+/**
+ * Finds the time step a TOTP code was generated for
+ * Accepts codes from `window` steps before and after the current one to allow
+ * for clock drift between the server and the authenticator. Steps at or before
+ * `afterStep` (the last step the user signed in with) are rejected so a code
+ * cannot be replayed. Returns null if the code matches no acceptable step.
+ */
+export function findTotpStep(
+  secret: string,
+  code: string,
+  options: { now?: Date; window?: number; afterStep?: number | null } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const now = options.now ?? new Date();
+  const window = options.window ?? 1;
+  const counter = Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+  const expected = Buffer.from(normalized);
+
+  let step: number | null = null;
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = Buffer.from(generateHotp(secret, counter + offset));
+    // Constant-time comparison; keep checking so timing doesn't reveal the matching step
+    const matches = crypto.timingSafeEqual(candidate, expected);
+    if (matches && (options.afterStep == null || counter + offset > options.afterStep)) {
+      step = counter + offset;
+    }
+  }
+  return step;
+}
+
+/**
+ * Verifies a TOTP code (see findTotpStep)
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: Date; window?: number } = {}
+): boolean {
+  return findTotpStep(secret, code, options) !== null;
+}
+
+/**
+ * Builds the otpauth:// key URI authenticator apps scan as a QR code
+ * @see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpauthUri(options: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = `${encodeURIComponent(options.issuer)}:${encodeURIComponent(options.accountName)}`;
+  // Percent-encoded rather than URLSearchParams: some apps show '+' literally
+  const params = [
+    `secret=${options.secret}`,
+    `issuer=${encodeURIComponent(options.issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_STEP_SECONDS}`,
+  ];
+  return `otpauth://totp/${label}?${params.join('&')}`;
+}
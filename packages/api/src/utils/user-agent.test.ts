@@ -0,0 +1,52 @@
+/**
+ * Unit tests for user agent parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseUserAgent } from './user-agent.js';
+
+describe('parseUserAgent', () => {
+  it('should recognise desktop browsers', () => {
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+      )
+    ).toEqual({ browser: 'Chrome 124', os: 'Windows', deviceType: 'desktop' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51'
+      ).browser
+    ).toBe('Edge 124');
+    expect(
+      parseUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 14.4; rv:125.0) Gecko/20100101 Firefox/125.0')
+    ).toEqual({ browser: 'Firefox 125', os: 'macOS', deviceType: 'desktop' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15'
+      ).browser
+    ).toBe('Safari 17');
+  });
+
+  it('should recognise phones and tablets', () => {
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1'
+      )
+    ).toEqual({ browser: 'Safari 17', os: 'iOS', deviceType: 'mobile' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36'
+      )
+    ).toEqual({ browser: 'Chrome 124', os: 'Android', deviceType: 'mobile' });
+    expect(
+      parseUserAgent(
+        'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+      ).deviceType
+    ).toBe('tablet');
+  });
+
+  it('should report unknown agents', () => {
+    expect(parseUserAgent(null)).toEqual({ browser: null, os: null, deviceType: 'unknown' });
+    expect(parseUserAgent('curl/8.5.0')).toEqual({ browser: 'curl 8', os: null, deviceType: 'unknown' });
+  });
+});
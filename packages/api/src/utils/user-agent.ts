@@ -0,0 +1,66 @@
+/**
+ * User agent parsing for session listings
+ * Recognises the common browsers and operating systems well enough to label a
+ * session ("Chrome on Windows"); anything else is reported as unknown
+ */
+
+import type { SessionDeviceType } from '@argus/shared';
+
+/** Browser, OS and device class parsed from a user agent */
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  deviceType: SessionDeviceType;
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, 'Edge'],
+  [/(?:OPR|Opera)\/([\d]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d]+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/([\d]+)/, 'Chrome'],
+  [/Version\/([\d]+)[\d.]* (?:Mobile\/\S+ )?Safari\//, 'Safari'],
+  [/PostmanRuntime\/([\d]+)/, 'Postman'],
+  [/curl\/([\d]+)/, 'curl'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Parses a user agent header
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, os: null, deviceType: 'unknown' };
+  }
+
+  let browser: string | null = null;
+  for (const [pattern, name] of BROWSERS) {
+    const match = pattern.exec(userAgent);
+    if (match) {
+      browser = `${name} ${match[1]}`;
+      break;
+    }
+  }
+
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+  let deviceType: SessionDeviceType = 'unknown';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = 'mobile';
+  } else if (os && os !== 'iOS' && os !== 'Android') {
+    deviceType = 'desktop';
+  }
+
+  return { browser, os, deviceType };
+}
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for chunked message reassembly
+ * Uses an in-memory stand-in for the telemetry_chunks table
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChunkReassembler, identifyChunk, stitchChunkPayloads, DEFAULT_CHUNKING_CONFIG } from './chunk-reassembler.js';
+import { compileDecodingProfile, type CompiledChunkingConfig } from './payload-decoder.js';
+import { parseTelemetryMessage } from './telemetry-message.js';
+import type {
+  TelemetryRepository,
+  ExpiredChunkSet,
+} from '../repositories/telemetry.repository.js';
+import type { NewTelemetryChunk, TelemetryChunk } from '../db/schema/index.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+
+const DEVICE = {
+  id: DEVICE_ID,
+  organizationId: ORG_ID,
+  deviceTypeId: 'type-1',
+  status: 'active',
+  deviceRole: 'gateway_chunked',
+};
+
+function createChunkStore() {
+  const rows: TelemetryChunk[] = [];
+  return {
+    rows,
+    storeChunk: vi.fn(async (chunk: NewTelemetryChunk) => {
+      const exists = rows.some(
+        (row) => row.correlationId === chunk.correlationId && row.sequenceNumber === chunk.sequenceNumber
+      );
+      if (!exists) {
+        rows.push({ ...chunk, id: `chunk-${rows.length}` } as TelemetryChunk);
+      }
+      const chunks = rows
+        .filter((row) => row.correlationId === chunk.correlationId)
+        .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+      return { stored: !exists, chunks };
+    }),
+    deleteChunks: vi.fn(async () => 0),
+    deleteExpiredChunks: vi.fn(async (): Promise<ExpiredChunkSet[]> => []),
+  };
+}
+
+function chunkMessage(body: Record<string, unknown>) {
+  return parseTelemetryMessage(
+    `telemetry.raw.${DEVICE_ID}`,
+    new TextEncoder().encode(JSON.stringify(body)),
+    {},
+    new Date('2026-03-01T12:00:00Z')
+  );
+}
+
+describe('identifyChunk', () => {
+  it('should read the envelope and ignore single-part messages', () => {
+    expect(identifyChunk(DEFAULT_CHUNKING_CONFIG, { correlationId: 'c1', seq: 2, total: 3 })).toEqual({
+      correlationId: 'c1',
+      sequenceNumber: 2,
+      totalChunks: 3,
+    });
+    expect(identifyChunk(DEFAULT_CHUNKING_CONFIG, { correlationId: 'c1', seq: 0, total: 1 })).toBeNull();
+    expect(identifyChunk(DEFAULT_CHUNKING_CONFIG, { seq: 0, total: 3 })).toBeNull();
+  });
+
+  it('should use the paths from the chunking config', () => {
+    const chunking = compileDecodingProfile({
+      messageSchema: null,
+      extractionRules: null,
+      transformationRules: null,
+      chunkingConfig: { correlationIdPath: '$.hdr.msg', sequencePath: '$.hdr.part', totalPath: '$.hdr.of' },
+    }).chunking as CompiledChunkingConfig;
+
+    expect(identifyChunk(chunking, { hdr: { msg: 17, part: 1, of: 2 } })).toEqual({
+      correlationId: '17',
+      sequenceNumber: 1,
+      totalChunks: 2,
+    });
+  });
+});
+
+describe('stitchChunkPayloads', () => {
+  it('should concatenate arrays, merge objects and keep the first scalar', () => {
+    expect(
+      stitchChunkPayloads([
+        { battery: 90, devices: [{ id: 'a' }], meta: { fw: '1.0', tags: ['x'] } },
+        { battery: 89, devices: [{ id: 'b' }, { id: 'c' }], meta: { tags: ['y'] } },
+      ])
+    ).toEqual({
+      battery: 90,
+      devices: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+      meta: { fw: '1.0', tags: ['x', 'y'] },
+    });
+  });
+});
+
+describe('ChunkReassembler', () => {
+  let store: ReturnType<typeof createChunkStore>;
+  let chunking: CompiledChunkingConfig | null;
+  let reassembler: ChunkReassembler;
+
+  beforeEach(() => {
+    store = createChunkStore();
+    chunking = null;
+    reassembler = new ChunkReassembler(
+      { getChunkingConfig: vi.fn(async () => chunking) },
+      store as unknown as TelemetryRepository,
+      () => new Date('2026-03-01T12:00:00Z')
+    );
+  });
+
+  it('should reassemble out-of-order chunks in sequence order', async () => {
+    const first = await reassembler.addChunk(
+      DEVICE,
+      chunkMessage({ correlationId: 'c1', seq: 2, total: 2, devices: [{ id: 'b' }] }),
+      100
+    );
+    expect(first).toEqual({ status: 'pending', correlationId: 'c1', received: 1, totalChunks: 2 });
+    expect(store.rows[0].expiresAt.toISOString()).toBe('2026-03-01T12:01:00.000Z');
+
+    const second = await reassembler.addChunk(
+      DEVICE,
+      chunkMessage({ correlationId: 'c1', seq: 1, total: 2, devices: [{ id: 'a' }] }),
+      100
+    );
+    expect(second.status).toBe('complete');
+    if (second.status !== 'complete') return;
+    expect(second.message.payload).toEqual({ devices: [{ id: 'a' }, { id: 'b' }] });
+    expect(second.message.correlationId).toBe('c1');
+    expect(second.message.totalChunks).toBe(2);
+    expect(second.message.sequenceNumber).toBeNull();
+
+    expect(reassembler.getStats()).toMatchObject({
+      chunksReceived: 2,
+      chunksOutOfOrder: 1,
+      messagesReassembled: 1,
+    });
+  });
+
+  it('should count duplicates without double-counting redeliveries', async () => {
+    const chunk = chunkMessage({ correlationId: 'c1', seq: 1, total: 3, v: 1 });
+    await reassembler.addChunk(DEVICE, chunk, 100);
+    await reassembler.addChunk(DEVICE, chunk, 100);
+    await reassembler.addChunk(DEVICE, chunk, 100, true);
+
+    expect(store.rows).toHaveLength(1);
+    expect(reassembler.getStats().chunksDuplicate).toBe(1);
+  });
+
+  it('should reject chunks outside the configured limits', async () => {
+    chunking = compileDecodingProfile({
+      messageSchema: null,
+      extractionRules: null,
+      transformationRules: null,
+      chunkingConfig: { maxChunks: 10, maxChunkSize: 500, ttl: 5 },
+    }).chunking;
+
+    const tooMany = await reassembler.addChunk(DEVICE, chunkMessage({ correlationId: 'c1', seq: 1, total: 11 }), 100);
+    const tooLarge = await reassembler.addChunk(DEVICE, chunkMessage({ correlationId: 'c1', seq: 1, total: 2 }), 501);
+    const badSeq = await reassembler.addChunk(DEVICE, chunkMessage({ correlationId: 'c1', seq: 3, total: 2 }), 100);
+
+    expect([tooMany.status, tooLarge.status, badSeq.status]).toEqual(['rejected', 'rejected', 'rejected']);
+    expect(store.storeChunk).not.toHaveBeenCalled();
+    expect(reassembler.getStats().chunksRejected).toBe(3);
+  });
+
+  it('should pass messages through when chunking is disabled', async () => {
+    chunking = compileDecodingProfile({
+      messageSchema: null,
+      extractionRules: null,
+      transformationRules: null,
+      chunkingConfig: { enabled: false },
+    }).chunking;
+
+    const result = await reassembler.addChunk(DEVICE, chunkMessage({ correlationId: 'c1', seq: 1, total: 2 }), 100);
+    expect(result).toEqual({ status: 'not_chunked' });
+  });
+
+  it('should count expired chunk sets', async () => {
+    store.deleteExpiredChunks.mockResolvedValue([
+      { tenantId: ORG_ID, deviceId: DEVICE_ID, correlationId: 'c1', totalChunks: 5, sequenceNumbers: [1, 2] },
+    ]);
+
+    const expired = await reassembler.sweepExpired();
+
+    expect(expired).toHaveLength(1);
+    expect(reassembler.getStats()).toMatchObject({ setsExpired: 1, chunksExpired: 2 });
+  });
+});
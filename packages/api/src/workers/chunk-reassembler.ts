@@ -0,0 +1,243 @@
+/**
+ * Chunked message reassembly
+ *
+ * Devices with large payloads (e.g. BLE gateways reporting thousands of
+ * beacons) split one logical message into chunks that share a correlation ID
+ * and carry a sequence number and the total chunk count. Chunks are buffered
+ * in telemetry_chunks until the set is complete, then their payloads are
+ * stitched together in sequence order and processed as a single message.
+ *
+ * Incomplete sets are dropped once their device type's chunkingConfig.ttl
+ * has passed (see sweepExpired).
+ */
+
+import { chunkingConfigSchema } from '@argus/shared';
+import { parsePath, resolvePath, type CompiledChunkingConfig } from './payload-decoder.js';
+import type { ParsedTelemetryMessage } from './telemetry-message.js';
+import type {
+  TelemetryRepository,
+  IngestionDevice,
+  ExpiredChunkSet,
+} from '../repositories/telemetry.repository.js';
+
+/** Used for device types without a chunkingConfig */
+export const DEFAULT_CHUNKING_CONFIG: CompiledChunkingConfig = (() => {
+  const config = chunkingConfigSchema.parse({});
+  return {
+    config,
+    correlationIdPath: parsePath(config.correlationIdPath),
+    sequencePath: parsePath(config.sequencePath),
+    totalPath: parsePath(config.totalPath),
+  };
+})();
+
+/** Source of compiled chunking configs per device */
+export interface ChunkingConfigSource {
+  getChunkingConfig(device: IngestionDevice): Promise<CompiledChunkingConfig | null>;
+}
+
+export interface ChunkIdentity {
+  correlationId: string;
+  sequenceNumber: number;
+  totalChunks: number;
+}
+
+export type ChunkResult =
+  /** Not part of a chunked message: process as is */
+  | { status: 'not_chunked' }
+  /** Invalid chunk that can never be reassembled */
+  | { status: 'rejected'; reason: string }
+  /** Buffered; more chunks are needed */
+  | { status: 'pending'; correlationId: string; received: number; totalChunks: number }
+  /** All chunks arrived: the message to process in place of this chunk */
+  | { status: 'complete'; correlationId: string; totalChunks: number; message: ParsedTelemetryMessage };
+
+export interface ChunkStats {
+  chunksReceived: number;
+  chunksDuplicate: number;
+  chunksOutOfOrder: number;
+  chunksRejected: number;
+  messagesReassembled: number;
+  setsExpired: number;
+  chunksExpired: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the chunk envelope from a message body
+ *
+ * @returns null unless the message is one of several chunks
+ */
+export function identifyChunk(
+  chunking: CompiledChunkingConfig,
+  body: Record<string, unknown>
+): ChunkIdentity | null {
+  const correlationId = resolvePath(body, chunking.correlationIdPath).value;
+  const sequenceNumber = resolvePath(body, chunking.sequencePath).value;
+  const totalChunks = resolvePath(body, chunking.totalPath).value;
+
+  if (typeof correlationId !== 'string' && typeof correlationId !== 'number') return null;
+  if (!Number.isInteger(sequenceNumber) || !Number.isInteger(totalChunks)) return null;
+  if ((totalChunks as number) <= 1) return null;
+
+  return {
+    correlationId: String(correlationId),
+    sequenceNumber: sequenceNumber as number,
+    totalChunks: totalChunks as number,
+  };
+}
+
+/**
+ * Stitches chunk payloads (in sequence order) into one payload: arrays under
+ * the same key are concatenated, objects merged recursively, and for other
+ * values the first chunk that has the key wins
+ */
+export function stitchChunkPayloads(payloads: Record<string, unknown>[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const payload of payloads) {
+    for (const [key, value] of Object.entries(payload)) {
+      const existing = result[key];
+      if (existing === undefined) {
+        result[key] = Array.isArray(value) ? [...value] : isRecord(value) ? stitchChunkPayloads([value]) : value;
+      } else if (Array.isArray(existing) && Array.isArray(value)) {
+        existing.push(...value);
+      } else if (isRecord(existing) && isRecord(value)) {
+        result[key] = stitchChunkPayloads([existing, value]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Buffers chunks and hands back complete messages
+ */
+export class ChunkReassembler {
+  private stats: ChunkStats = {
+    chunksReceived: 0,
+    chunksDuplicate: 0,
+    chunksOutOfOrder: 0,
+    chunksRejected: 0,
+    messagesReassembled: 0,
+    setsExpired: 0,
+    chunksExpired: 0,
+  };
+
+  constructor(
+    private configs: ChunkingConfigSource,
+    private telemetryRepo: TelemetryRepository,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Buffers a chunk and reports whether its message is complete
+   *
+   * @param redelivered - the chunk was delivered before (not counted as a duplicate)
+   */
+  async addChunk(
+    device: IngestionDevice,
+    parsed: ParsedTelemetryMessage,
+    sizeBytes: number,
+    redelivered = false
+  ): Promise<ChunkResult> {
+    const chunking = (await this.configs.getChunkingConfig(device)) ?? DEFAULT_CHUNKING_CONFIG;
+    const { config } = chunking;
+    if (!config.enabled) return { status: 'not_chunked' };
+
+    const chunk = identifyChunk(chunking, parsed.body);
+    if (!chunk) return { status: 'not_chunked' };
+
+    this.stats.chunksReceived++;
+    const reason = this.validate(chunk, config.maxChunks, sizeBytes, config.maxChunkSize);
+    if (reason) {
+      this.stats.chunksRejected++;
+      return { status: 'rejected', reason };
+    }
+
+    const { stored, chunks } = await this.telemetryRepo.storeChunk({
+      tenantId: device.organizationId,
+      deviceId: device.id,
+      correlationId: chunk.correlationId,
+      sequenceNumber: chunk.sequenceNumber,
+      totalChunks: chunk.totalChunks,
+      chunkPayload: parsed.payload,
+      receivedAt: parsed.receivedAt,
+      expiresAt: new Date(this.now().getTime() + config.ttl * 1000),
+    });
+
+    if (!stored && !redelivered) {
+      this.stats.chunksDuplicate++;
+    }
+    if (stored && chunks.some((other) => other.sequenceNumber > chunk.sequenceNumber)) {
+      this.stats.chunksOutOfOrder++;
+    }
+
+    const totalChunks = Math.max(...chunks.map((other) => other.totalChunks));
+    if (chunks.length < totalChunks) {
+      return { status: 'pending', correlationId: chunk.correlationId, received: chunks.length, totalChunks };
+    }
+
+    this.stats.messagesReassembled++;
+    const payload = stitchChunkPayloads(
+      chunks.map((other) => (isRecord(other.chunkPayload) ? other.chunkPayload : {}))
+    );
+    return {
+      status: 'complete',
+      correlationId: chunk.correlationId,
+      totalChunks,
+      message: {
+        ...parsed,
+        body: { ...payload, correlationId: chunk.correlationId, total: totalChunks },
+        payload,
+        correlationId: chunk.correlationId,
+        sequenceNumber: null,
+        totalChunks,
+      },
+    };
+  }
+
+  /**
+   * Drops the buffered chunks of a message once it has been processed
+   */
+  async release(device: IngestionDevice, correlationId: string): Promise<void> {
+    await this.telemetryRepo.deleteChunks(device.organizationId, device.id, correlationId);
+  }
+
+  /**
+   * Drops incomplete chunk sets whose ttl has passed
+   */
+  async sweepExpired(): Promise<ExpiredChunkSet[]> {
+    const expired = await this.telemetryRepo.deleteExpiredChunks(this.now());
+    this.stats.setsExpired += expired.length;
+    for (const set of expired) {
+      this.stats.chunksExpired += set.sequenceNumbers.length;
+    }
+    return expired;
+  }
+
+  getStats(): ChunkStats {
+    return { ...this.stats };
+  }
+
+  private validate(
+    chunk: ChunkIdentity,
+    maxChunks: number,
+    sizeBytes: number,
+    maxChunkSize: number | undefined
+  ): string | null {
+    if (chunk.totalChunks > maxChunks) {
+      return `Message has ${chunk.totalChunks} chunks, at most ${maxChunks} are allowed`;
+    }
+    // Sequence numbers may be 0- or 1-based
+    if (chunk.sequenceNumber < 0 || chunk.sequenceNumber > chunk.totalChunks) {
+      return `Sequence number ${chunk.sequenceNumber} is outside 0..${chunk.totalChunks}`;
+    }
+    if (maxChunkSize !== undefined && sizeBytes > maxChunkSize) {
+      return `Chunk is ${sizeBytes} bytes, at most ${maxChunkSize} are allowed`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for CommandStatusWorker
+ * Runs the worker against the in-process message source with a mocked service
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Logger } from '@argus/shared';
+import { InMemoryMessageSource } from './message-source.js';
+import { CommandStatusWorker, type CommandAuditLogger } from './command-status.worker.js';
+import type { DeviceCommandService } from '../services/device-command.service.js';
+
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const COMMAND_ID = '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f';
+const SUBJECT = `telemetry.commands.status.${DEVICE_ID}`;
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: vi.fn(),
+} as unknown as Logger;
+
+function command(status: string, error: string | null = null) {
+  return { id: COMMAND_ID, tenantId: ORG_ID, deviceId: DEVICE_ID, command: 'reboot', status, error };
+}
+
+describe('CommandStatusWorker', () => {
+  let source: InMemoryMessageSource;
+  let service: { applyStatusEvent: ReturnType<typeof vi.fn>; expireDue: ReturnType<typeof vi.fn> };
+  let audit: { log: ReturnType<typeof vi.fn> };
+  let worker: CommandStatusWorker;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    source = new InMemoryMessageSource(3);
+    service = {
+      applyStatusEvent: vi.fn(async (event) => command(event.status, event.error ?? null)),
+      expireDue: vi.fn().mockResolvedValue([]),
+    };
+    audit = { log: vi.fn().mockResolvedValue(undefined) };
+    worker = new CommandStatusWorker(
+      source,
+      service as unknown as DeviceCommandService,
+      audit as unknown as CommandAuditLogger,
+      mockLogger,
+      { maxDeliver: 3, retryDelayMs: 1 }
+    );
+    await worker.start();
+  });
+
+  it('should apply status reports and audit terminal statuses', async () => {
+    const sent = source.publish(SUBJECT, {
+      commandId: COMMAND_ID,
+      deviceId: DEVICE_ID,
+      status: 'sent',
+      timestamp: '2026-03-01T12:00:01Z',
+    });
+    const acked = source.publish(SUBJECT, {
+      commandId: COMMAND_ID,
+      deviceId: DEVICE_ID,
+      status: 'acked',
+      timestamp: '2026-03-01T12:00:05Z',
+    });
+
+    await source.drain();
+
+    expect(service.applyStatusEvent).toHaveBeenCalledTimes(2);
+    expect(source.acked).toEqual([sent, acked]);
+    expect(audit.log).toHaveBeenCalledTimes(1);
+    expect(audit.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        organizationId: ORG_ID,
+        action: 'device.command_acked',
+        resourceId: DEVICE_ID,
+        outcome: 'success',
+        details: { commandId: COMMAND_ID, command: 'reboot' },
+      })
+    );
+    expect(worker.getMetrics().statusApplied).toBe(2);
+  });
+
+  it('should ack and count stale reports without auditing', async () => {
+    service.applyStatusEvent.mockResolvedValueOnce(null);
+    const id = source.publish(SUBJECT, {
+      commandId: COMMAND_ID,
+      deviceId: DEVICE_ID,
+      status: 'failed',
+      error: 'late',
+      timestamp: '2026-03-01T12:00:01Z',
+    });
+
+    await source.drain();
+
+    expect(source.acked).toEqual([id]);
+    expect(audit.log).not.toHaveBeenCalled();
+    expect(worker.getMetrics().statusStale).toBe(1);
+  });
+
+  it('should terminate invalid messages and retry failed writes', async () => {
+    const invalid = source.publish(SUBJECT, { commandId: 'nope', status: 'queued' });
+    service.applyStatusEvent.mockRejectedValueOnce(new Error('connection reset'));
+    const valid = source.publish(SUBJECT, {
+      commandId: COMMAND_ID,
+      deviceId: DEVICE_ID,
+      status: 'delivered',
+      timestamp: '2026-03-01T12:00:01Z',
+    });
+
+    await source.drain();
+
+    expect(source.terminated).toEqual([invalid]);
+    expect(source.acked).toEqual([valid]);
+    expect(worker.getMetrics()).toMatchObject({ statusRejected: 1, statusRetried: 1, statusApplied: 1 });
+  });
+
+  it('should audit commands expired by the sweep', async () => {
+    service.expireDue.mockResolvedValueOnce([command('expired', 'Command expired before completion')]);
+
+    expect(await worker.sweepExpired()).toBe(1);
+    expect(audit.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'device.command_expired',
+        outcome: 'failure',
+        details: { commandId: COMMAND_ID, command: 'reboot', error: 'Command expired before completion' },
+      })
+    );
+  });
+});
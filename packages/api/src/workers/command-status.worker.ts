@@ -0,0 +1,193 @@
+/**
+ * Command Status Worker
+ *
+ * Consumes `telemetry.commands.status.{deviceId}` messages published by the
+ * IoT bridge (sent, ChirpStack txack/ack, device acks) and applies them to
+ * device_commands. Stale reports (e.g. 'sent' after 'acked') are acked and
+ * ignored.
+ *
+ * Also sweeps open commands whose TTL has passed to 'expired'. Commands that
+ * reach a terminal status (acked / failed / expired) are audited.
+ */
+
+import {
+  deviceCommandStatusEventSchema,
+  type DeviceCommandStatusEvent,
+  type Logger,
+  type OrganizationId,
+} from '@argus/shared';
+import type { MessageSource, SourceMessage } from './message-source.js';
+import type { DeviceCommandService } from '../services/device-command.service.js';
+import type { AuditEntry } from '../services/audit.service.js';
+import type { DeviceCommand } from '../db/schema/index.js';
+
+export interface CommandStatusWorkerOptions {
+  /** Deliveries after which a failing message is terminated */
+  maxDeliver: number;
+  /** Delay before redelivering after a transient failure */
+  retryDelayMs: number;
+  /** How often expired commands are swept */
+  expirySweepIntervalMs: number;
+}
+
+export const DEFAULT_COMMAND_STATUS_OPTIONS: CommandStatusWorkerOptions = {
+  maxDeliver: 10,
+  retryDelayMs: 5000,
+  expirySweepIntervalMs: 30000,
+};
+
+/** Receives audit entries for commands that reached a terminal status */
+export interface CommandAuditLogger {
+  log(entry: AuditEntry): Promise<void>;
+}
+
+export class CommandStatusWorker {
+  private options: CommandStatusWorkerOptions;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Metrics
+  private metrics = {
+    statusApplied: 0,
+    statusStale: 0,
+    statusRejected: 0,
+    statusRetried: 0,
+    commandsExpired: 0,
+  };
+
+  constructor(
+    private source: MessageSource,
+    private commandService: DeviceCommandService,
+    private audit: CommandAuditLogger,
+    private logger: Logger,
+    options?: Partial<CommandStatusWorkerOptions>
+  ) {
+    this.options = { ...DEFAULT_COMMAND_STATUS_OPTIONS, ...options };
+  }
+
+  /**
+   * Start consuming status reports and sweeping expired commands
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    this.sweepTimer = setInterval(() => void this.sweepExpired(), this.options.expirySweepIntervalMs);
+    this.sweepTimer.unref();
+    await this.source.start((message) => this.handleMessage(message));
+    this.logger.info('Command status worker started');
+  }
+
+  /**
+   * Stop consuming; the in-flight message finishes before this resolves
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await this.source.stop();
+    this.logger.info({ metrics: this.getMetrics() }, 'Command status worker stopped');
+  }
+
+  /**
+   * Apply a single status report and settle it (ack / nak / term)
+   */
+  async handleMessage(message: SourceMessage): Promise<void> {
+    let event: DeviceCommandStatusEvent;
+    try {
+      event = deviceCommandStatusEventSchema.parse(JSON.parse(new TextDecoder().decode(message.data)));
+    } catch (error) {
+      this.metrics.statusRejected++;
+      this.logger.warn(
+        { subject: message.subject, error: error instanceof Error ? error.message : String(error) },
+        'Rejected invalid command status message'
+      );
+      message.term();
+      return;
+    }
+
+    let command: DeviceCommand | null;
+    try {
+      command = await this.commandService.applyStatusEvent(event);
+    } catch (error) {
+      this.logger.error(
+        {
+          commandId: event.commandId,
+          deliveryCount: message.deliveryCount,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to apply command status'
+      );
+      if (message.deliveryCount >= this.options.maxDeliver) {
+        message.term();
+      } else {
+        this.metrics.statusRetried++;
+        message.nak(this.options.retryDelayMs);
+      }
+      return;
+    }
+
+    message.ack();
+
+    if (!command) {
+      this.metrics.statusStale++;
+      this.logger.debug(
+        { commandId: event.commandId, status: event.status },
+        'Ignored stale or unknown command status'
+      );
+      return;
+    }
+
+    this.metrics.statusApplied++;
+    if (command.status === 'acked' || command.status === 'failed') {
+      await this.auditTerminal(command);
+    }
+  }
+
+  /**
+   * Expire open commands whose TTL has passed
+   */
+  async sweepExpired(): Promise<number> {
+    try {
+      const expired = await this.commandService.expireDue();
+      this.metrics.commandsExpired += expired.length;
+      for (const command of expired) {
+        await this.auditTerminal(command);
+      }
+      if (expired.length > 0) {
+        this.logger.info({ count: expired.length }, 'Expired device commands');
+      }
+      return expired.length;
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to sweep expired device commands'
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * Get worker metrics
+   */
+  getMetrics() {
+    return { ...this.metrics };
+  }
+
+  private async auditTerminal(command: DeviceCommand): Promise<void> {
+    await this.audit.log({
+      organizationId: command.tenantId as OrganizationId,
+      category: 'data_modification',
+      action: `device.command_${command.status}`,
+      resourceType: 'device',
+      resourceId: command.deviceId,
+      outcome: command.status === 'acked' ? 'success' : 'failure',
+      details: {
+        commandId: command.id,
+        command: command.command,
+        ...(command.error ? { error: command.error } : {}),
+      },
+    });
+  }
+}
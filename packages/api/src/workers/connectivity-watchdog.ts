@@ -0,0 +1,119 @@
+/**
+ * Connectivity Watchdog
+ *
+ * Periodically derives device status (active / offline / error) from
+ * last_seen_at and the device type's expected reporting interval, see
+ * DeviceConnectivityService. Sweeps never overlap: a sweep that takes longer
+ * than the interval delays the next one.
+ */
+
+import type { Logger } from '@argus/shared';
+import type { DeviceConnectivityService } from '../services/device-connectivity.service.js';
+
+export interface ConnectivityWatchdogOptions {
+  /** How often devices are evaluated */
+  sweepIntervalMs: number;
+}
+
+export const DEFAULT_WATCHDOG_OPTIONS: ConnectivityWatchdogOptions = {
+  sweepIntervalMs: 60000,
+};
+
+export class ConnectivityWatchdog {
+  private options: ConnectivityWatchdogOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+  private running = false;
+
+  // Metrics
+  private metrics = {
+    sweeps: 0,
+    sweepErrors: 0,
+    transitions: 0,
+    transitionsByStatus: {} as Record<string, number>,
+  };
+
+  constructor(
+    private connectivityService: DeviceConnectivityService,
+    private logger: Logger,
+    options?: Partial<ConnectivityWatchdogOptions>
+  ) {
+    this.options = { ...DEFAULT_WATCHDOG_OPTIONS, ...options };
+  }
+
+  /**
+   * Run a sweep now and then on every interval
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    await this.runSweep();
+    this.scheduleNext();
+    this.logger.info({ sweepIntervalMs: this.options.sweepIntervalMs }, 'Connectivity watchdog started');
+  }
+
+  /**
+   * Stop sweeping; an in-flight sweep finishes before this resolves
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+    this.logger.info({ metrics: this.getMetrics() }, 'Connectivity watchdog stopped');
+  }
+
+  /**
+   * Evaluate all devices once
+   */
+  async runSweep(): Promise<void> {
+    this.inFlight = this.sweep();
+    await this.inFlight;
+    this.inFlight = null;
+  }
+
+  /**
+   * Get watchdog metrics
+   */
+  getMetrics() {
+    return { ...this.metrics, transitionsByStatus: { ...this.metrics.transitionsByStatus } };
+  }
+
+  private async sweep(): Promise<void> {
+    try {
+      const transitions = await this.connectivityService.sweep();
+      this.metrics.sweeps++;
+      this.metrics.transitions += transitions.length;
+      for (const transition of transitions) {
+        this.metrics.transitionsByStatus[transition.status] =
+          (this.metrics.transitionsByStatus[transition.status] ?? 0) + 1;
+        this.logger.info(
+          {
+            deviceId: transition.deviceId,
+            tenantId: transition.tenantId,
+            previousStatus: transition.previousStatus,
+            status: transition.status,
+            silentSeconds: transition.silentSeconds,
+          },
+          'Device connectivity status changed'
+        );
+      }
+    } catch (error) {
+      this.metrics.sweepErrors++;
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Connectivity sweep failed'
+      );
+    }
+  }
+
+  private scheduleNext(): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.runSweep();
+      this.scheduleNext();
+    }, this.options.sweepIntervalMs);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for gateway demultiplexing
+ * Tests payload splitting, child resolution and auto-provisioning
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { compileDecodingProfile, type CompiledDemuxStrategy } from './payload-decoder.js';
+import { GatewayDemultiplexer, renderChildName, splitGatewayPayload } from './gateway-demux.js';
+import type { DeviceRepository } from '../repositories/device.repository.js';
+
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+const GATEWAY_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const CHILD_TYPE_ID = '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f';
+
+const GATEWAY = {
+  id: GATEWAY_ID,
+  organizationId: ORG_ID,
+  deviceTypeId: 'gateway-type',
+  status: 'active',
+  deviceRole: 'gateway',
+};
+
+function compileDemux(demuxStrategy: unknown): CompiledDemuxStrategy {
+  const profile = compileDecodingProfile({
+    messageSchema: null,
+    extractionRules: null,
+    transformationRules: null,
+    demuxStrategy,
+  });
+  expect(profile.errors).toEqual([]);
+  return profile.demux!;
+}
+
+function child(logicalIdentifier: string) {
+  return {
+    id: `child-${logicalIdentifier}`,
+    organizationId: ORG_ID,
+    deviceTypeId: CHILD_TYPE_ID,
+    status: 'active',
+    deviceRole: 'endpoint',
+    logicalIdentifier,
+  };
+}
+
+describe('splitGatewayPayload', () => {
+  it('should split an array and strip the identifier from each item', () => {
+    const demux = compileDemux({
+      strategy: 'iterate_array',
+      arrayPath: '$.beacons',
+      idPath: '$.beaconId',
+      timestampPath: '$.seen',
+    });
+
+    const result = splitGatewayPayload(demux, {
+      beacons: [
+        { beaconId: 'b1', rssi: -60, seen: '2026-03-01T12:00:00Z' },
+        { beaconId: 42, rssi: -70 },
+      ],
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.items.map((item) => [item.logicalId, item.payload])).toEqual([
+      ['b1', { rssi: -60, seen: '2026-03-01T12:00:00Z' }],
+      ['42', { rssi: -70 }],
+    ]);
+    expect(result.items[0].timestamp?.toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    expect(result.items[1].timestamp).toBeNull();
+  });
+
+  it('should split an object map and read a nested payload', () => {
+    const demux = compileDemux({
+      strategy: 'object_map',
+      mapPath: '$.ports',
+      payloadPath: '$.values',
+    });
+
+    const result = splitGatewayPayload(demux, {
+      ports: { p1: { values: { flow: 3 } }, p2: { status: 'offline' } },
+    });
+
+    expect(result.items).toEqual([expect.objectContaining({ logicalId: 'p1', payload: { flow: 3 } })]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ stage: 'demux', path: '$.ports.p2' }),
+    ]);
+  });
+
+  it('should report missing identifiers, duplicates and items beyond maxDevices', () => {
+    const demux = compileDemux({ strategy: 'iterate_array', maxDevices: 2 });
+
+    const result = splitGatewayPayload(demux, {
+      items: null,
+    });
+    expect(result.errors[0].message).toBe('Expected an array of items');
+
+    const items = splitGatewayPayload(demux, [
+      { id: 'a' },
+      { temp: 1 },
+      { id: 'a' },
+      { id: 'b' },
+      { id: 'c' },
+    ] as unknown as Record<string, unknown>);
+    expect(items.items.map((item) => item.logicalId)).toEqual(['a', 'b']);
+    expect(items.errors.map((error) => error.message)).toEqual([
+      'No logical identifier at $.id',
+      'Duplicate logical identifier "a"',
+      'Message exceeds 2 logical devices; remaining items skipped',
+    ]);
+  });
+});
+
+describe('renderChildName', () => {
+  it('should substitute the logical identifier and item fields', () => {
+    const item = { logicalId: 'b1', payload: {}, timestamp: null, item: { beaconId: 'b1', meta: { zone: 'A' } } };
+    expect(renderChildName('Beacon {{beaconId}} ({{meta.zone}}) {{missing}}', item)).toBe(
+      'Beacon b1 (A) {{missing}}'
+    );
+    expect(renderChildName('{{logicalId}}', item)).toBe('b1');
+  });
+});
+
+describe('GatewayDemultiplexer', () => {
+  let deviceRepo: {
+    findChildrenByLogicalIds: ReturnType<typeof vi.fn>;
+    provisionChildren: ReturnType<typeof vi.fn>;
+  };
+  let strategy: CompiledDemuxStrategy | null;
+  let demultiplexer: GatewayDemultiplexer;
+
+  beforeEach(() => {
+    strategy = compileDemux({
+      strategy: 'iterate_array',
+      arrayPath: '$.beacons',
+      idPath: '$.beaconId',
+      nameTemplate: 'Beacon {{beaconId}}',
+    });
+    deviceRepo = {
+      findChildrenByLogicalIds: vi.fn().mockResolvedValue([child('b1')]),
+      provisionChildren: vi.fn().mockResolvedValue([]),
+    };
+    demultiplexer = new GatewayDemultiplexer(
+      { getDemuxStrategy: vi.fn(async () => strategy) },
+      deviceRepo as unknown as DeviceRepository
+    );
+  });
+
+  const payload = { beacons: [{ beaconId: 'b1', rssi: -60 }, { beaconId: 'b2', rssi: -70 }] };
+
+  it('should resolve children and report unknown logical identifiers', async () => {
+    const result = await demultiplexer.demux(GATEWAY, payload);
+
+    expect(deviceRepo.findChildrenByLogicalIds).toHaveBeenCalledWith(ORG_ID, GATEWAY_ID, ['b1', 'b2']);
+    expect(result).toMatchObject({
+      total: 2,
+      unresolved: ['b2'],
+      provisioned: 0,
+      children: [{ logicalId: 'b1', payload: { rssi: -60 }, device: { id: 'child-b1' } }],
+    });
+    expect(deviceRepo.provisionChildren).not.toHaveBeenCalled();
+  });
+
+  it('should auto-provision unknown children when enabled', async () => {
+    strategy = compileDemux({
+      strategy: 'iterate_array',
+      arrayPath: '$.beacons',
+      idPath: '$.beaconId',
+      nameTemplate: 'Beacon {{beaconId}}',
+      autoProvision: true,
+      childDeviceTypeId: CHILD_TYPE_ID,
+    });
+    deviceRepo.provisionChildren.mockResolvedValue([child('b2')]);
+
+    const result = await demultiplexer.demux(GATEWAY, payload);
+
+    expect(deviceRepo.provisionChildren).toHaveBeenCalledWith(ORG_ID, GATEWAY_ID, CHILD_TYPE_ID, [
+      { logicalIdentifier: 'b2', name: 'Beacon b2' },
+    ]);
+    expect(result?.children.map((c) => c.device.id)).toEqual(['child-b1', 'child-b2']);
+    expect(result?.unresolved).toEqual([]);
+    expect(result?.provisioned).toBe(1);
+  });
+
+  it('should ignore devices that are not gateways or have no strategy', async () => {
+    expect(await demultiplexer.demux({ ...GATEWAY, deviceRole: 'endpoint' }, payload)).toBeNull();
+
+    strategy = null;
+    expect(await demultiplexer.demux(GATEWAY, payload)).toBeNull();
+    expect(deviceRepo.findChildrenByLogicalIds).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Gateway demultiplexing
+ *
+ * Gateways (e.g. BLE gateways reporting dozens of beacons per message) send
+ * one payload carrying readings for many logical devices. The gateway's
+ * device type demuxStrategy describes how to split it; each item's logical
+ * identifier is resolved to a child device under the gateway (optionally
+ * provisioning unknown children) and the item payload is then decoded with
+ * the child's own device type profile.
+ */
+
+import type { DecodeError, OrganizationId } from '@argus/shared';
+import type { Device, DeviceRepository } from '../repositories/device.repository.js';
+import type { IngestionDevice } from '../repositories/telemetry.repository.js';
+import { parsePath, resolvePath, type CompiledDemuxStrategy } from './payload-decoder.js';
+
+/** Device roles whose messages may carry several logical devices */
+export const GATEWAY_ROLES = new Set(['gateway', 'gateway_chunked', 'rtu_multiport']);
+
+/** One logical device's slice of a gateway payload */
+export interface DemuxItem {
+  logicalId: string;
+  payload: Record<string, unknown>;
+  /** Per-item timestamp, when the strategy has a timestampPath */
+  timestamp: Date | null;
+  /** The item as found in the gateway payload (for name templates) */
+  item: Record<string, unknown>;
+}
+
+export interface SplitResult {
+  items: DemuxItem[];
+  errors: DecodeError[];
+}
+
+export interface GatewayChild {
+  device: IngestionDevice;
+  logicalId: string;
+  payload: Record<string, unknown>;
+  timestamp: Date | null;
+}
+
+export interface DemuxResult {
+  /** Items resolved to child devices */
+  children: GatewayChild[];
+  /** Logical devices found in the payload, resolved or not */
+  total: number;
+  unresolved: string[];
+  provisioned: number;
+  errors: DecodeError[];
+}
+
+/** Source of compiled demux strategies per gateway device */
+export interface DemuxProfileSource {
+  getDemuxStrategy(device: IngestionDevice): Promise<CompiledDemuxStrategy | null>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Splits a gateway payload into per-logical-device items
+ *
+ * Items without an identifier, duplicates and items beyond maxDevices are
+ * reported as errors and skipped.
+ */
+export function splitGatewayPayload(
+  demux: CompiledDemuxStrategy,
+  payload: Record<string, unknown>
+): SplitResult {
+  const { strategy } = demux;
+  const errors: DecodeError[] = [];
+  const items: DemuxItem[] = [];
+  const seen = new Set<string>();
+
+  const container = resolvePath(payload, demux.containerPath).value;
+  let entries: Array<[string | null, unknown, string]>;
+  if (strategy.strategy === 'iterate_array') {
+    if (!Array.isArray(container)) {
+      return {
+        items,
+        errors: [{ stage: 'demux', path: strategy.arrayPath, message: 'Expected an array of items' }],
+      };
+    }
+    entries = container.map((item, i) => [null, item, `${strategy.arrayPath}[${i}]`]);
+  } else {
+    if (!isRecord(container)) {
+      return {
+        items,
+        errors: [{ stage: 'demux', path: strategy.mapPath, message: 'Expected an object keyed by logical identifier' }],
+      };
+    }
+    entries = Object.entries(container).map(([key, item]) => [key, item, `${strategy.mapPath}.${key}`]);
+  }
+
+  // Top-level identifier fields are not metrics of the child
+  const idKey =
+    strategy.strategy === 'iterate_array' &&
+    demux.idPath.length === 1 &&
+    typeof demux.idPath[0] === 'string'
+      ? demux.idPath[0]
+      : null;
+
+  for (const [key, item, path] of entries) {
+    if (!isRecord(item)) {
+      errors.push({ stage: 'demux', path, message: 'Item is not an object' });
+      continue;
+    }
+
+    let logicalId = key;
+    if (logicalId === null) {
+      const id = resolvePath(item, demux.idPath).value;
+      if (typeof id !== 'string' && typeof id !== 'number') {
+        errors.push({ stage: 'demux', path, message: `No logical identifier at ${strategy.idPath}` });
+        continue;
+      }
+      logicalId = String(id);
+    }
+
+    if (seen.has(logicalId)) {
+      errors.push({ stage: 'demux', path, message: `Duplicate logical identifier "${logicalId}"` });
+      continue;
+    }
+    if (items.length >= strategy.maxDevices) {
+      errors.push({
+        stage: 'demux',
+        message: `Message exceeds ${strategy.maxDevices} logical devices; remaining items skipped`,
+      });
+      break;
+    }
+    seen.add(logicalId);
+
+    let childPayload: Record<string, unknown>;
+    if (demux.payloadPath) {
+      const inner = resolvePath(item, demux.payloadPath).value;
+      if (!isRecord(inner)) {
+        errors.push({ stage: 'demux', path, message: `No payload object at ${strategy.payloadPath}` });
+        continue;
+      }
+      childPayload = inner;
+    } else {
+      childPayload = idKey ? Object.fromEntries(Object.entries(item).filter(([k]) => k !== idKey)) : item;
+    }
+
+    items.push({
+      logicalId,
+      payload: childPayload,
+      timestamp: demux.timestampPath ? parseTimestamp(resolvePath(item, demux.timestampPath).value) : null,
+      item,
+    });
+  }
+
+  return { items, errors };
+}
+
+/**
+ * Renders an auto-provisioned child's name: {{logicalId}} and item fields
+ * (`{{beaconId}}`, `{{meta.label}}`); unknown placeholders are left untouched
+ */
+export function renderChildName(template: string, item: DemuxItem): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => {
+    if (name === 'logicalId') return item.logicalId;
+    const value = resolvePath(item.item, parsePath(name)).value;
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : match;
+  });
+}
+
+function toIngestionDevice(device: Device): IngestionDevice {
+  return {
+    id: device.id,
+    organizationId: device.organizationId,
+    deviceTypeId: device.deviceTypeId,
+    status: device.status,
+    deviceRole: device.deviceRole,
+  };
+}
+
+/**
+ * Resolves gateway payload items to child devices
+ */
+export class GatewayDemultiplexer {
+  constructor(
+    private profiles: DemuxProfileSource,
+    private deviceRepo: DeviceRepository
+  ) {}
+
+  /**
+   * Splits a gateway message and resolves its children
+   *
+   * @returns null when the device has no demux strategy (treat as a plain device)
+   */
+  async demux(gateway: IngestionDevice, payload: Record<string, unknown>): Promise<DemuxResult | null> {
+    if (!GATEWAY_ROLES.has(gateway.deviceRole)) return null;
+
+    const demux = await this.profiles.getDemuxStrategy(gateway);
+    if (!demux) return null;
+
+    const organizationId = gateway.organizationId as OrganizationId;
+    const { items, errors } = splitGatewayPayload(demux, payload);
+    const logicalIds = items.map((item) => item.logicalId);
+
+    const byLogicalId = new Map<string, Device>();
+    const addDevices = (list: Device[]) => {
+      for (const device of list) byLogicalId.set(device.logicalIdentifier!, device);
+    };
+    addDevices(await this.deviceRepo.findChildrenByLogicalIds(organizationId, gateway.id, logicalIds));
+
+    let provisioned = 0;
+    const missing = items.filter((item) => !byLogicalId.has(item.logicalId));
+    if (missing.length > 0 && demux.strategy.autoProvision && demux.strategy.childDeviceTypeId) {
+      const created = await this.deviceRepo.provisionChildren(
+        organizationId,
+        gateway.id,
+        demux.strategy.childDeviceTypeId,
+        missing.map((item) => ({
+          logicalIdentifier: item.logicalId,
+          name: renderChildName(demux.strategy.nameTemplate, item),
+        }))
+      );
+      provisioned = created.length;
+      addDevices(created);
+
+      // Children created concurrently by another consumer were skipped on insert
+      if (created.length < missing.length) {
+        addDevices(
+          await this.deviceRepo.findChildrenByLogicalIds(
+            organizationId,
+            gateway.id,
+            missing.filter((item) => !byLogicalId.has(item.logicalId)).map((item) => item.logicalId)
+          )
+        );
+      }
+    }
+
+    const children: GatewayChild[] = [];
+    const unresolved: string[] = [];
+    for (const item of items) {
+      const device = byLogicalId.get(item.logicalId);
+      if (device) {
+        children.push({
+          device: toIngestionDevice(device),
+          logicalId: item.logicalId,
+          payload: item.payload,
+          timestamp: item.timestamp,
+        });
+      } else {
+        unresolved.push(item.logicalId);
+      }
+    }
+
+    return { children, total: items.length, unresolved, provisioned, errors };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Asset health processor
+ *
+ * Recomputes the health scores of the assets the device monitors once their
+ * telemetry is committed. Registered after the threshold rule processor, so
+ * alerts opened or cleared by the same message are part of the score.
+ */
+
+import type { Logger } from '@argus/shared';
+import type { AssetHealthService } from '../services/asset-health.service.js';
+import type { TelemetryProcessor } from './telemetry-ingestion.worker.js';
+
+export function createHealthProcessor(service: AssetHealthService, logger: Logger): TelemetryProcessor {
+  return {
+    name: 'asset-health',
+    async process(telemetry) {
+      if (telemetry.assets.length === 0) return;
+
+      const results = await service.recompute(
+        telemetry.tenantId,
+        telemetry.assets.map((asset) => asset.id)
+      );
+
+      for (const result of results) {
+        if (!result.changed) continue;
+        logger.info(
+          { assetId: result.assetId, score: result.score, trigger: result.trigger },
+          'Asset health score changed'
+        );
+      }
+    },
+  };
+}
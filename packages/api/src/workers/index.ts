@@ -0,0 +1,16 @@
+/**
+ * Background worker exports
+ */
+
+export * from './message-source.js';
+export * from './telemetry-message.js';
+export * from './payload-decoder.js';
+export * from './gateway-demux.js';
+export * from './chunk-reassembler.js';
+export * from './telemetry-ingestion.worker.js';
+export * from './telemetry-computation.processor.js';
+export * from './threshold.processor.js';
+export * from './health.processor.js';
+export * from './command-status.worker.js';
+export * from './connectivity-watchdog.js';
+export * from './mail-queue.worker.js';
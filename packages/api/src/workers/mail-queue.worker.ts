@@ -0,0 +1,135 @@
+/**
+ * Mail Queue Worker
+ *
+ * Periodically sends due messages from the email delivery queue, see
+ * MailService.processQueue. Runs never overlap: a run that takes longer than
+ * the poll interval delays the next one. A full batch is followed immediately
+ * by another run so a backlog drains without waiting for the interval.
+ */
+
+import type { Logger } from '@argus/shared';
+import type { MailService } from '../services/mail.service.js';
+
+export interface MailQueueWorkerOptions {
+  /** How often the queue is checked for due messages */
+  pollIntervalMs: number;
+  /** Messages sent per run */
+  batchSize: number;
+}
+
+export const DEFAULT_MAIL_QUEUE_WORKER_OPTIONS: MailQueueWorkerOptions = {
+  pollIntervalMs: 5000,
+  batchSize: 20,
+};
+
+export class MailQueueWorker {
+  private options: MailQueueWorkerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<boolean> | null = null;
+  private running = false;
+  private warnedUnconfigured = false;
+
+  // Metrics
+  private metrics = {
+    runs: 0,
+    runErrors: 0,
+    sent: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  constructor(
+    private mailService: MailService,
+    private logger: Logger,
+    options?: Partial<MailQueueWorkerOptions>
+  ) {
+    this.options = { ...DEFAULT_MAIL_QUEUE_WORKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Process the queue now and then on every interval
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    await this.runOnce();
+    this.scheduleNext();
+    this.logger.info(
+      { pollIntervalMs: this.options.pollIntervalMs, batchSize: this.options.batchSize },
+      'Mail queue worker started'
+    );
+  }
+
+  /**
+   * Stop polling; an in-flight run finishes before this resolves
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+    this.logger.info({ metrics: this.getMetrics() }, 'Mail queue worker stopped');
+  }
+
+  /**
+   * Send one batch of due messages
+   * @returns Whether the batch was full (more messages may be due)
+   */
+  async runOnce(): Promise<boolean> {
+    this.inFlight = this.process();
+    const full = await this.inFlight;
+    this.inFlight = null;
+    return full;
+  }
+
+  /**
+   * Get worker metrics
+   */
+  getMetrics() {
+    return { ...this.metrics };
+  }
+
+  private async process(): Promise<boolean> {
+    try {
+      const result = await this.mailService.processQueue(this.options.batchSize);
+      this.metrics.runs++;
+
+      if (!result.configured) {
+        if (!this.warnedUnconfigured) {
+          this.logger.warn('Mail server is not configured; queued emails are held until it is');
+          this.warnedUnconfigured = true;
+        }
+        return false;
+      }
+      this.warnedUnconfigured = false;
+
+      this.metrics.sent += result.sent;
+      this.metrics.retried += result.retried;
+      this.metrics.failed += result.failed;
+      if (result.sent + result.retried + result.failed > 0) {
+        this.logger.info(
+          { sent: result.sent, retried: result.retried, failed: result.failed },
+          'Processed mail queue'
+        );
+      }
+      return result.sent + result.retried + result.failed >= this.options.batchSize;
+    } catch (error) {
+      this.metrics.runErrors++;
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Mail queue run failed'
+      );
+      return false;
+    }
+  }
+
+  private scheduleNext(delayMs = this.options.pollIntervalMs): void {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      const full = await this.runOnce();
+      this.scheduleNext(full ? 0 : this.options.pollIntervalMs);
+    }, delayMs);
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Message source abstraction for background workers
+ *
+ * Workers consume through this interface rather than the NATS client directly,
+ * so they can run against JetStream in production and an in-process stand-in
+ * in tests.
+ */
+
+import {
+  connect,
+  AckPolicy,
+  DeliverPolicy,
+  nanos,
+  type ConsumerMessages,
+  type JsMsg,
+  type NatsConnection,
+} from 'nats';
+import type { Logger } from '@argus/shared';
+
+/** A delivered message that must be settled exactly once */
+export interface SourceMessage {
+  subject: string;
+  data: Uint8Array;
+  headers: Record<string, string>;
+  /** 1 on first delivery, incremented on every redelivery */
+  deliveryCount: number;
+  /** Stable identifier of the message within the stream */
+  messageId: string;
+  /** Acknowledge successful processing */
+  ack(): void;
+  /** Negative acknowledge - request redelivery after an optional delay */
+  nak(delayMs?: number): void;
+  /** Terminate - the message will never be redelivered */
+  term(): void;
+}
+
+export type MessageHandler = (message: SourceMessage) => Promise<void>;
+
+export interface MessageSource {
+  /** Starts delivering messages to the handler, one at a time */
+  start(handler: MessageHandler): Promise<void>;
+  /** Stops delivery; in-flight handlers are allowed to finish */
+  stop(): Promise<void>;
+}
+
+export interface JetStreamSourceConfig {
+  servers: string[];
+  streamName: string;
+  /** Durable consumer name - progress survives restarts */
+  durableName: string;
+  filterSubject: string;
+  /** Messages delivered more than this are terminated */
+  maxDeliver: number;
+  /** Time the server waits for an ack before redelivering */
+  ackWaitMs: number;
+  /** Max messages buffered by the client */
+  maxMessages: number;
+}
+
+function toSourceMessage(msg: JsMsg): SourceMessage {
+  const headers: Record<string, string> = {};
+  if (msg.headers) {
+    for (const key of msg.headers.keys()) {
+      headers[key] = msg.headers.get(key);
+    }
+  }
+
+  return {
+    subject: msg.subject,
+    data: msg.data,
+    headers,
+    deliveryCount: msg.info.redeliveryCount,
+    messageId: `${msg.info.stream}:${msg.info.streamSequence}`,
+    ack: () => msg.ack(),
+    nak: (delayMs?: number) => msg.nak(delayMs),
+    term: () => msg.term(),
+  };
+}
+
+/**
+ * JetStream durable pull consumer
+ */
+export class JetStreamMessageSource implements MessageSource {
+  private nc: NatsConnection | null = null;
+  private messages: ConsumerMessages | null = null;
+  private loop: Promise<void> | null = null;
+
+  constructor(
+    private config: JetStreamSourceConfig,
+    private logger: Logger
+  ) {}
+
+  async start(handler: MessageHandler): Promise<void> {
+    this.nc = await connect({
+      servers: this.config.servers,
+      maxReconnectAttempts: -1,
+    });
+
+    const jsm = await this.nc.jetstreamManager();
+    // Idempotent: updates the consumer if it already exists
+    await jsm.consumers.add(this.config.streamName, {
+      durable_name: this.config.durableName,
+      ack_policy: AckPolicy.Explicit,
+      deliver_policy: DeliverPolicy.All,
+      filter_subject: this.config.filterSubject,
+      max_deliver: this.config.maxDeliver,
+      ack_wait: nanos(this.config.ackWaitMs),
+    });
+
+    const consumer = await this.nc
+      .jetstream()
+      .consumers.get(this.config.streamName, this.config.durableName);
+    this.messages = await consumer.consume({ max_messages: this.config.maxMessages });
+
+    this.logger.info(
+      {
+        stream: this.config.streamName,
+        durable: this.config.durableName,
+        filterSubject: this.config.filterSubject,
+      },
+      'JetStream consumer started'
+    );
+
+    const messages = this.messages;
+    this.loop = (async () => {
+      for await (const msg of messages) {
+        await this.deliver(msg, handler);
+      }
+    })();
+  }
+
+  /**
+   * Runs the handler on one message; a handler that throws must not end the
+   * consume loop, so the message is redelivered or, on its final delivery,
+   * terminated
+   */
+  private async deliver(msg: JsMsg, handler: MessageHandler): Promise<void> {
+    const message = toSourceMessage(msg);
+    try {
+      await handler(message);
+    } catch (error) {
+      const finalDelivery = message.deliveryCount >= this.config.maxDeliver;
+      this.logger.error(
+        {
+          messageId: message.messageId,
+          subject: message.subject,
+          deliveries: message.deliveryCount,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        finalDelivery ? 'Message handler failed on final delivery, terminating' : 'Message handler failed'
+      );
+      if (finalDelivery) {
+        message.term();
+      } else {
+        message.nak();
+      }
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.messages?.stop();
+    await this.loop;
+    if (this.nc) {
+      await this.nc.drain();
+      this.nc = null;
+    }
+  }
+}
+
+/**
+ * In-process message source
+ *
+ * Queues published messages in memory and emulates JetStream redelivery
+ * semantics (nak → redeliver, max deliveries → drop). Used in tests and
+ * local tooling where a NATS server is not available.
+ */
+export class InMemoryMessageSource implements MessageSource {
+  private pending: Array<{
+    subject: string;
+    data: Uint8Array;
+    headers: Record<string, string>;
+    deliveryCount: number;
+    messageId: string;
+  }> = [];
+  private handler: MessageHandler | null = null;
+  private draining: Promise<void> | null = null;
+  private sequence = 0;
+
+  readonly acked: string[] = [];
+  readonly terminated: string[] = [];
+
+  constructor(private maxDeliver = 5) {}
+
+  publish(subject: string, body: unknown, headers: Record<string, string> = {}): string {
+    const messageId = `memory:${++this.sequence}`;
+    this.pending.push({
+      subject,
+      data: new TextEncoder().encode(typeof body === 'string' ? body : JSON.stringify(body)),
+      headers,
+      deliveryCount: 0,
+      messageId,
+    });
+    return messageId;
+  }
+
+  async start(handler: MessageHandler): Promise<void> {
+    this.handler = handler;
+  }
+
+  async stop(): Promise<void> {
+    await this.draining;
+    this.handler = null;
+  }
+
+  /** Delivers queued messages (including redeliveries) until the queue is empty */
+  async drain(): Promise<void> {
+    this.draining = this.deliverAll();
+    await this.draining;
+  }
+
+  get size(): number {
+    return this.pending.length;
+  }
+
+  private async deliverAll(): Promise<void> {
+    while (this.handler && this.pending.length > 0) {
+      const entry = this.pending.shift()!;
+      entry.deliveryCount++;
+      let settled = false;
+
+      await this.handler({
+        subject: entry.subject,
+        data: entry.data,
+        headers: entry.headers,
+        deliveryCount: entry.deliveryCount,
+        messageId: entry.messageId,
+        ack: () => {
+          settled = true;
+          this.acked.push(entry.messageId);
+        },
+        nak: () => {
+          settled = true;
+          this.requeue(entry);
+        },
+        term: () => {
+          settled = true;
+          this.terminated.push(entry.messageId);
+        },
+      });
+
+      // Unsettled messages are redelivered, as after an ack timeout
+      if (!settled) this.requeue(entry);
+    }
+  }
+
+  private requeue(entry: (typeof this.pending)[number]): void {
+    if (entry.deliveryCount >= this.maxDeliver) {
+      this.terminated.push(entry.messageId);
+      return;
+    }
+    this.pending.push(entry);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for device type payload decoding
+ * Tests path resolution, schema validation, extraction and transformations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parsePath,
+  resolvePath,
+  convertUnit,
+  validateMessageSchema,
+  compileDecodingProfile,
+  decodePayload,
+  type StoredDecodingProfile,
+} from './payload-decoder.js';
+
+function decode(profile: Partial<StoredDecodingProfile>, payload: Record<string, unknown>) {
+  const compiled = compileDecodingProfile({
+    messageSchema: null,
+    extractionRules: null,
+    transformationRules: null,
+    ...profile,
+  });
+  const result = decodePayload(compiled, payload);
+  return { ...result, errors: [...compiled.errors, ...result.errors] };
+}
+
+describe('paths', () => {
+  it('should parse dot, index and quoted segments', () => {
+    expect(parsePath("$.env.readings[-1]['probe 2']")).toEqual(['env', 'readings', -1, 'probe 2']);
+    expect(parsePath('temp')).toEqual(['temp']);
+  });
+
+  it('should resolve values and report missing ones', () => {
+    const payload = { env: { readings: [{ t: 1 }, { t: 2 }] } };
+    expect(resolvePath(payload, parsePath('$.env.readings[1].t'))).toEqual({ found: true, value: 2 });
+    expect(resolvePath(payload, parsePath('$.env.readings[5].t')).found).toBe(false);
+    expect(resolvePath(payload, parsePath('$.env.missing')).found).toBe(false);
+  });
+
+  it('should reject malformed paths', () => {
+    expect(() => parsePath('$.a[')).toThrow('Invalid path');
+  });
+});
+
+describe('convertUnit', () => {
+  it('should convert within a dimension', () => {
+    expect(convertUnit(212, 'fahrenheit', 'celsius')).toBeCloseTo(100);
+    expect(convertUnit(1, 'bar', 'kpa')).toBeCloseTo(100);
+    expect(convertUnit(50, 'percent', 'ratio')).toBeCloseTo(0.5);
+  });
+
+  it('should refuse to convert across dimensions', () => {
+    expect(() => convertUnit(1, 'celsius', 'm')).toThrow('Cannot convert');
+  });
+});
+
+describe('validateMessageSchema', () => {
+  it('should report type, required and range violations with paths', () => {
+    const schema = {
+      type: 'object',
+      required: ['temp'],
+      properties: {
+        temp: { type: 'number', minimum: -40, unit: 'celsius' },
+        mode: { enum: ['auto', 'manual'] },
+        probes: { type: 'array', items: { type: 'integer' } },
+      },
+    };
+
+    expect(validateMessageSchema(schema, { temp: 20, mode: 'auto', probes: [1] })).toEqual([]);
+    expect(validateMessageSchema(schema, { mode: 'off', probes: [1.5] })).toEqual([
+      { stage: 'schema', path: '$.temp', message: 'Required' },
+      { stage: 'schema', path: '$.mode', message: 'Must be one of: auto, manual' },
+      { stage: 'schema', path: '$.probes[0]', message: 'Expected integer, got number' },
+    ]);
+    expect(validateMessageSchema(schema, { temp: -50 })[0].message).toBe('Must be >= -40');
+  });
+});
+
+describe('decodePayload', () => {
+  it('should extract metrics using the seeded rule format', () => {
+    const { readings, errors } = decode(
+      {
+        extractionRules: {
+          temperature: { path: '$.temp', type: 'numeric', unit: 'celsius' },
+          humidity: { path: '$.humidity', type: 'numeric', unit: 'percent' },
+        },
+      },
+      { temp: '21.5', humidity: 40, ignored: 1 }
+    );
+
+    expect(errors).toEqual([]);
+    expect(readings).toEqual([
+      { metricKey: 'temperature', value: 21.5, valueText: null, valueJson: null, unit: 'celsius', quality: 'good' },
+      { metricKey: 'humidity', value: 40, valueText: null, valueJson: null, unit: 'percent', quality: 'good' },
+    ]);
+  });
+
+  it('should coerce types, apply defaults and report missing required fields', () => {
+    const { readings, errors } = decode(
+      {
+        extractionRules: {
+          door: { path: '$.door', type: 'boolean' },
+          firmware: { path: '$.fw', type: 'string' },
+          battery: { path: '$.bat', default: 100 },
+          pressure: { path: '$.p', required: true },
+          rssi: { path: '$.rssi' },
+        },
+      },
+      { door: 'true', fw: 12 }
+    );
+
+    expect(readings.map((r) => [r.metricKey, r.value, r.valueText, r.quality])).toEqual([
+      ['door', 1, null, 'good'],
+      ['firmware', null, '12', 'good'],
+      ['battery', 100, null, 'good'],
+      ['pressure', null, null, 'bad'],
+    ]);
+    expect(errors).toEqual([
+      { stage: 'extraction', metricKey: 'pressure', path: '$.p', message: 'Required field is missing' },
+    ]);
+  });
+
+  it('should apply transformation steps in order', () => {
+    const { readings, errors } = decode(
+      {
+        extractionRules: {
+          temperature: { path: '$.t' },
+          raw_level: { path: '$.level' },
+        },
+        transformationRules: [
+          { type: 'scale', metric: 'temperature', factor: 0.1 },
+          { type: 'convert', metric: 'temperature', from: 'fahrenheit', to: 'celsius' },
+          { type: 'round', metric: 'temperature', decimals: 1 },
+          { type: 'expression', metric: 'level_pct', expression: 'raw_level / 4095 * 100', unit: 'percent' },
+          { type: 'clamp', metric: 'level_pct', max: 100 },
+        ],
+      },
+      { t: 986, level: 4200 }
+    );
+
+    expect(errors).toEqual([]);
+    const byKey = Object.fromEntries(readings.map((r) => [r.metricKey, r]));
+    expect(byKey.temperature).toMatchObject({ value: 37, unit: 'celsius', quality: 'good' });
+    expect(byKey.level_pct).toMatchObject({ value: 100, unit: 'percent', quality: 'uncertain' });
+  });
+
+  it('should explode the payload when no extraction rules exist', () => {
+    const { readings } = decode(
+      { transformationRules: [{ type: 'scale', metric: 'temp', factor: 2 }] },
+      { temp: 10, mode: 'auto' }
+    );
+
+    expect(readings.map((r) => [r.metricKey, r.value ?? r.valueText])).toEqual([
+      ['temp', 20],
+      ['mode', 'auto'],
+    ]);
+  });
+
+  it('should flag readings when the payload violates the message schema', () => {
+    const { readings, errors } = decode(
+      {
+        messageSchema: { type: 'object', properties: { temp: { type: 'number', maximum: 100 } } },
+        extractionRules: { temp: { path: '$.temp' } },
+      },
+      { temp: 150 }
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(readings[0]).toMatchObject({ value: 150, quality: 'uncertain' });
+  });
+
+  it('should mark a reading bad when a transformation fails', () => {
+    const { readings, errors } = decode(
+      {
+        extractionRules: { flow: { path: '$.flow' } },
+        transformationRules: [{ type: 'expression', metric: 'flow', expression: 'value / total' }],
+      },
+      { flow: 5 }
+    );
+
+    expect(readings[0].quality).toBe('bad');
+    expect(errors[0]).toMatchObject({ stage: 'transformation', metricKey: 'flow' });
+  });
+
+  it('should report invalid profile rules and keep decoding the valid ones', () => {
+    const { readings, errors } = decode(
+      {
+        extractionRules: { temp: { path: '$.temp' } },
+        transformationRules: [
+          { type: 'expression', metric: 'temp', expression: 'value +' },
+          { type: 'convert', metric: 'temp', from: 'celsius', to: 'psi' },
+          { type: 'scale', metric: 'temp', factor: 10 },
+        ],
+      },
+      { temp: 2 }
+    );
+
+    expect(errors.map((e) => e.stage)).toEqual(['profile', 'profile']);
+    expect(readings[0].value).toBe(20);
+  });
+});
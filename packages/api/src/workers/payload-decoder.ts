@@ -0,0 +1,635 @@
+/**
+ * Device type payload decoding
+ *
+ * Turns a device payload into normalized metric readings using the decoding
+ * profile stored on its device type:
+ * 1. messageSchema       - JSON Schema subset the payload is validated against
+ * 2. extractionRules     - metric key -> JSONPath-like location and value type
+ * 3. transformationRules - ordered scale / convert / expression / round / clamp steps
+ *
+ * Gateway types also carry a demuxStrategy, compiled here and applied by the
+ * gateway demultiplexer before each child payload is decoded. The
+ * chunkingConfig is compiled here too and used by the chunk reassembler.
+ *
+ * Device types without extraction rules fall back to exploding the whole
+ * payload (see explodeMetrics). Decoding never throws on bad data: problems
+ * are reported as errors and the affected readings are flagged.
+ */
+
+import {
+  extractionRulesSchema,
+  transformationRulesSchema,
+  demuxStrategySchema,
+  chunkingConfigSchema,
+  type ChunkingConfig,
+  type ConversionUnit,
+  type DemuxStrategy,
+  type DecodeError,
+  type ExtractionRule,
+  type TransformationStep,
+} from '@argus/shared';
+import { compileExpression, ExpressionError, type CompiledExpression } from '../utils/expression.js';
+import { explodeMetrics, type MetricReading, type TelemetryQuality } from './telemetry-message.js';
+
+/** Decoding profile columns as stored on device_types */
+export interface StoredDecodingProfile {
+  messageSchema: unknown;
+  extractionRules: unknown;
+  transformationRules: unknown;
+  demuxStrategy?: unknown;
+  chunkingConfig?: unknown;
+}
+
+export type PathSegment = string | number;
+
+interface CompiledExtraction {
+  metricKey: string;
+  rule: ExtractionRule;
+  path: PathSegment[];
+}
+
+type CompiledStep = TransformationStep & { compiled?: CompiledExpression };
+
+/** Demux strategy with its paths parsed */
+export interface CompiledDemuxStrategy {
+  strategy: DemuxStrategy;
+  containerPath: PathSegment[];
+  idPath: PathSegment[];
+  payloadPath: PathSegment[] | null;
+  timestampPath: PathSegment[] | null;
+}
+
+/** Chunking config with its paths parsed */
+export interface CompiledChunkingConfig {
+  config: ChunkingConfig;
+  correlationIdPath: PathSegment[];
+  sequencePath: PathSegment[];
+  totalPath: PathSegment[];
+}
+
+/** Profile validated and prepared for repeated decoding */
+export interface CompiledDecodingProfile {
+  messageSchema: Record<string, unknown> | null;
+  extractions: CompiledExtraction[] | null;
+  steps: CompiledStep[];
+  demux: CompiledDemuxStrategy | null;
+  chunking: CompiledChunkingConfig | null;
+  /** Problems with the profile itself; invalid parts are ignored when decoding */
+  errors: DecodeError[];
+}
+
+export interface DecodeResult {
+  readings: MetricReading[];
+  errors: DecodeError[];
+}
+
+/** Caps schema errors reported for one payload */
+const MAX_SCHEMA_ERRORS = 20;
+
+const QUALITY_RANK: Record<TelemetryQuality, number> = { good: 0, uncertain: 1, bad: 2 };
+
+function worstQuality(...qualities: TelemetryQuality[]): TelemetryQuality {
+  return qualities.reduce((worst, quality) =>
+    QUALITY_RANK[quality] > QUALITY_RANK[worst] ? quality : worst
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a JSONPath-like expression: `$.a.b`, `$.a[0]`, `$.a[-1]`, `$['key with space']`
+ * The leading `$` is optional.
+ *
+ * @throws Error if the path is malformed
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (rest && !rest.startsWith('[')) rest = `.${rest}`;
+
+  while (rest.length > 0) {
+    let match: RegExpExecArray | null;
+    if ((match = /^\.([A-Za-z0-9_$-]+)/.exec(rest))) {
+      segments.push(match[1]);
+    } else if ((match = /^\[(-?\d+)\]/.exec(rest))) {
+      segments.push(Number(match[1]));
+    } else if ((match = /^\[(['"])(.*?)\1\]/.exec(rest))) {
+      segments.push(match[2]);
+    } else {
+      throw new Error(`Invalid path "${path}"`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Resolves parsed path segments against a payload
+ */
+export function resolvePath(
+  payload: unknown,
+  segments: PathSegment[]
+): { found: boolean; value: unknown } {
+  let current: unknown = payload;
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) return { found: false, value: undefined };
+      const index = segment < 0 ? current.length + segment : segment;
+      if (index < 0 || index >= current.length) return { found: false, value: undefined };
+      current = current[index];
+    } else {
+      if (!isRecord(current) || !(segment in current)) return { found: false, value: undefined };
+      current = current[segment];
+    }
+  }
+  return { found: current !== undefined, value: current };
+}
+
+// ---------------------------------------------------------------------------
+// Units
+// ---------------------------------------------------------------------------
+
+interface UnitDefinition {
+  dimension: string;
+  toBase: (value: number) => number;
+  fromBase: (value: number) => number;
+}
+
+function linear(dimension: string, factor: number): UnitDefinition {
+  return { dimension, toBase: (v) => v * factor, fromBase: (v) => v / factor };
+}
+
+const UNITS: Record<ConversionUnit, UnitDefinition> = {
+  celsius: { dimension: 'temperature', toBase: (v) => v, fromBase: (v) => v },
+  fahrenheit: {
+    dimension: 'temperature',
+    toBase: (v) => ((v - 32) * 5) / 9,
+    fromBase: (v) => (v * 9) / 5 + 32,
+  },
+  kelvin: { dimension: 'temperature', toBase: (v) => v - 273.15, fromBase: (v) => v + 273.15 },
+  pa: linear('pressure', 1),
+  hpa: linear('pressure', 100),
+  kpa: linear('pressure', 1000),
+  bar: linear('pressure', 100000),
+  psi: linear('pressure', 6894.757293168),
+  mm: linear('length', 0.001),
+  cm: linear('length', 0.01),
+  m: linear('length', 1),
+  km: linear('length', 1000),
+  in: linear('length', 0.0254),
+  ft: linear('length', 0.3048),
+  mi: linear('length', 1609.344),
+  'm/s': linear('speed', 1),
+  'km/h': linear('speed', 1000 / 3600),
+  mph: linear('speed', 0.44704),
+  ml: linear('volume', 0.001),
+  l: linear('volume', 1),
+  m3: linear('volume', 1000),
+  gal: linear('volume', 3.785411784),
+  wh: linear('energy', 1),
+  kwh: linear('energy', 1000),
+  mwh: linear('energy', 1000000),
+  ratio: linear('fraction', 1),
+  percent: linear('fraction', 0.01),
+};
+
+/**
+ * Converts a value between units of the same dimension
+ *
+ * @throws Error if the units measure different things
+ */
+export function convertUnit(value: number, from: ConversionUnit, to: ConversionUnit): number {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`);
+  }
+  return target.fromBase(source.toBase(value));
+}
+
+// ---------------------------------------------------------------------------
+// Message schema
+// ---------------------------------------------------------------------------
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema subset: type, enum, const,
+ * properties, required, additionalProperties (false), items, minItems,
+ * maxItems, minimum, maximum, exclusiveMinimum, exclusiveMaximum, minLength,
+ * maxLength. Unknown keywords (e.g. `unit`) are ignored.
+ */
+export function validateMessageSchema(
+  schema: Record<string, unknown>,
+  value: unknown,
+  path = '$',
+  errors: DecodeError[] = []
+): DecodeError[] {
+  const fail = (message: string, at = path) => {
+    if (errors.length < MAX_SCHEMA_ERRORS) errors.push({ stage: 'schema', path: at, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, String(type)))) {
+      fail(`Expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    fail(`Must be one of: ${schema.enum.map(String).join(', ')}`);
+  }
+  if ('const' in schema && schema.const !== value) {
+    fail(`Must equal ${String(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail(`Must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail(`Must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail(`Must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail(`Must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`Must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`Must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`Must contain at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`Must contain at most ${schema.maxItems} items`);
+    }
+    if (isRecord(schema.items)) {
+      const itemSchema = schema.items;
+      value.forEach((item, i) => validateMessageSchema(itemSchema, item, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === 'string' && !(key in value)) {
+          fail('Required', `${path}.${key}`);
+        }
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isRecord(propertySchema)) {
+        validateMessageSchema(propertySchema, propertyValue, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        fail('Unexpected property', `${path}.${key}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Profile compilation
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a stored profile and prepares paths and expressions
+ *
+ * Invalid rules are reported in `errors` and left out, so one bad rule does
+ * not stop the rest of the profile from decoding.
+ */
+export function compileDecodingProfile(stored: StoredDecodingProfile): CompiledDecodingProfile {
+  const errors: DecodeError[] = [];
+
+  let messageSchema: Record<string, unknown> | null = null;
+  if (isRecord(stored.messageSchema)) {
+    messageSchema = stored.messageSchema;
+  } else if (stored.messageSchema != null) {
+    errors.push({ stage: 'profile', message: 'messageSchema must be an object' });
+  }
+
+  let extractions: CompiledExtraction[] | null = null;
+  if (stored.extractionRules != null) {
+    const parsed = extractionRulesSchema.safeParse(stored.extractionRules);
+    if (!parsed.success) {
+      errors.push({
+        stage: 'profile',
+        message: `Invalid extractionRules: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`,
+      });
+    } else {
+      extractions = [];
+      for (const [metricKey, rule] of Object.entries(parsed.data)) {
+        try {
+          extractions.push({ metricKey, rule, path: parsePath(rule.path) });
+        } catch (error) {
+          errors.push({ stage: 'profile', metricKey, path: rule.path, message: (error as Error).message });
+        }
+      }
+    }
+  }
+
+  const steps: CompiledStep[] = [];
+  if (stored.transformationRules != null) {
+    const parsed = transformationRulesSchema.safeParse(stored.transformationRules);
+    if (!parsed.success) {
+      errors.push({
+        stage: 'profile',
+        message: `Invalid transformationRules: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`,
+      });
+    } else {
+      for (const step of parsed.data) {
+        try {
+          if (step.type === 'expression') {
+            steps.push({ ...step, compiled: compileExpression(step.expression) });
+            continue;
+          }
+          if (step.type === 'convert') {
+            convertUnit(0, step.from, step.to);
+          }
+          steps.push(step);
+        } catch (error) {
+          errors.push({ stage: 'profile', metricKey: step.metric, message: (error as Error).message });
+        }
+      }
+    }
+  }
+
+  let demux: CompiledDemuxStrategy | null = null;
+  if (stored.demuxStrategy != null) {
+    const parsed = demuxStrategySchema.safeParse(stored.demuxStrategy);
+    if (!parsed.success) {
+      errors.push({
+        stage: 'profile',
+        message: `Invalid demuxStrategy: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`,
+      });
+    } else {
+      const strategy = parsed.data;
+      try {
+        demux = {
+          strategy,
+          containerPath: parsePath(
+            strategy.strategy === 'iterate_array' ? strategy.arrayPath : strategy.mapPath
+          ),
+          idPath: parsePath(strategy.idPath),
+          payloadPath: strategy.payloadPath ? parsePath(strategy.payloadPath) : null,
+          timestampPath: strategy.timestampPath ? parsePath(strategy.timestampPath) : null,
+        };
+      } catch (error) {
+        errors.push({ stage: 'profile', message: `Invalid demuxStrategy: ${(error as Error).message}` });
+      }
+    }
+  }
+
+  let chunking: CompiledChunkingConfig | null = null;
+  if (stored.chunkingConfig != null) {
+    const parsed = chunkingConfigSchema.safeParse(stored.chunkingConfig);
+    if (!parsed.success) {
+      errors.push({
+        stage: 'profile',
+        message: `Invalid chunkingConfig: ${parsed.error.issues.map((issue) => issue.message).join('; ')}`,
+      });
+    } else {
+      const config = parsed.data;
+      try {
+        chunking = {
+          config,
+          correlationIdPath: parsePath(config.correlationIdPath),
+          sequencePath: parsePath(config.sequencePath),
+          totalPath: parsePath(config.totalPath),
+        };
+      } catch (error) {
+        errors.push({ stage: 'profile', message: `Invalid chunkingConfig: ${(error as Error).message}` });
+      }
+    }
+  }
+
+  return { messageSchema, extractions, steps, demux, chunking, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+function emptyReading(metricKey: string, unit: string | null): MetricReading {
+  return { metricKey, value: null, valueText: null, valueJson: null, unit, quality: 'good' };
+}
+
+/**
+ * Coerces an extracted value to the rule's type
+ */
+function coerce(metricKey: string, rule: ExtractionRule, value: unknown): MetricReading | string {
+  const reading = emptyReading(metricKey, rule.unit ?? null);
+
+  switch (rule.type) {
+    case 'numeric': {
+      const number =
+        typeof value === 'number'
+          ? value
+          : typeof value === 'boolean'
+            ? Number(value)
+            : typeof value === 'string' && value.trim() !== ''
+              ? Number(value)
+              : NaN;
+      if (!Number.isFinite(number)) return `Expected a number, got ${JSON.stringify(value)}`;
+      return { ...reading, value: number };
+    }
+    case 'boolean': {
+      const truthy = value === true || value === 1 || value === 'true' || value === '1';
+      const falsy = value === false || value === 0 || value === 'false' || value === '0';
+      if (!truthy && !falsy) return `Expected a boolean, got ${JSON.stringify(value)}`;
+      return { ...reading, value: truthy ? 1 : 0, valueJson: truthy };
+    }
+    case 'string':
+      return {
+        ...reading,
+        valueText: typeof value === 'string' ? value : JSON.stringify(value),
+      };
+    default:
+      return { ...reading, valueJson: value };
+  }
+}
+
+function extract(
+  extractions: CompiledExtraction[],
+  payload: Record<string, unknown>,
+  errors: DecodeError[]
+): MetricReading[] {
+  const readings: MetricReading[] = [];
+
+  for (const { metricKey, rule, path } of extractions) {
+    let { found, value } = resolvePath(payload, path);
+    if (!found || value === null) {
+      if (rule.default !== undefined) {
+        value = rule.default;
+      } else {
+        if (rule.required) {
+          errors.push({ stage: 'extraction', metricKey, path: rule.path, message: 'Required field is missing' });
+          readings.push({ ...emptyReading(metricKey, rule.unit ?? null), quality: 'bad' });
+        }
+        continue;
+      }
+    }
+
+    const result = coerce(metricKey, rule, value);
+    if (typeof result === 'string') {
+      errors.push({ stage: 'extraction', metricKey, path: rule.path, message: result });
+      readings.push({ ...emptyReading(metricKey, rule.unit ?? null), quality: 'bad' });
+    } else {
+      readings.push(result);
+    }
+  }
+
+  return readings;
+}
+
+function applyStep(
+  step: CompiledStep,
+  readings: Map<string, MetricReading>,
+  errors: DecodeError[]
+): void {
+  const current = readings.get(step.metric);
+  const fail = (message: string) => {
+    errors.push({ stage: 'transformation', metricKey: step.metric, message });
+    if (current) readings.set(step.metric, { ...current, quality: 'bad' });
+  };
+
+  if (step.type === 'expression') {
+    const variables: Record<string, number> = {};
+    const inputs: MetricReading[] = [];
+    for (const name of step.compiled!.variables) {
+      const source = name === 'value' ? current : readings.get(name);
+      if (source?.value == null) {
+        fail(`Expression input "${name}" has no numeric value`);
+        return;
+      }
+      variables[name] = source.value;
+      inputs.push(source);
+    }
+    try {
+      const value = step.compiled!.evaluate(variables);
+      readings.set(step.metric, {
+        ...(current ?? emptyReading(step.metric, null)),
+        value,
+        valueText: null,
+        valueJson: null,
+        unit: step.unit ?? current?.unit ?? null,
+        quality: worstQuality('good', ...inputs.map((input) => input.quality)),
+      });
+    } catch (error) {
+      fail(error instanceof ExpressionError ? error.message : String(error));
+    }
+    return;
+  }
+
+  // Remaining steps modify an existing numeric reading; absent optional metrics are skipped
+  if (!current) return;
+  if (current.value === null) {
+    if (current.quality !== 'bad') fail('Metric has no numeric value');
+    return;
+  }
+
+  const value = current.value;
+  switch (step.type) {
+    case 'scale':
+      readings.set(step.metric, {
+        ...current,
+        value: value * step.factor + step.offset,
+        unit: step.unit ?? current.unit,
+      });
+      break;
+    case 'convert':
+      readings.set(step.metric, { ...current, value: convertUnit(value, step.from, step.to), unit: step.to });
+      break;
+    case 'round': {
+      const factor = 10 ** step.decimals;
+      readings.set(step.metric, { ...current, value: Math.round(value * factor) / factor });
+      break;
+    }
+    case 'clamp': {
+      const clamped = Math.min(step.max ?? Infinity, Math.max(step.min ?? -Infinity, value));
+      if (clamped !== value) {
+        readings.set(step.metric, {
+          ...current,
+          value: clamped,
+          quality: worstQuality(current.quality, 'uncertain'),
+        });
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Decodes a payload with a compiled profile
+ *
+ * Schema violations flag every reading as uncertain; extraction and
+ * transformation failures flag the affected reading as bad.
+ */
+export function decodePayload(
+  profile: CompiledDecodingProfile,
+  payload: Record<string, unknown>,
+  envelopeQuality: TelemetryQuality = 'good'
+): DecodeResult {
+  const errors: DecodeError[] = [];
+
+  const schemaErrors = profile.messageSchema
+    ? validateMessageSchema(profile.messageSchema, payload)
+    : [];
+  errors.push(...schemaErrors);
+
+  const extracted = profile.extractions
+    ? extract(profile.extractions, payload, errors)
+    : explodeMetrics(payload);
+
+  const readings = new Map(extracted.map((reading) => [reading.metricKey, reading]));
+  for (const step of profile.steps) {
+    applyStep(step, readings, errors);
+  }
+
+  const baseline = worstQuality(envelopeQuality, schemaErrors.length > 0 ? 'uncertain' : 'good');
+  return {
+    readings: [...readings.values()].map((reading) => ({
+      ...reading,
+      quality: worstQuality(reading.quality, baseline),
+    })),
+    errors,
+  };
+}
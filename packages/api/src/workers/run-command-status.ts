@@ -0,0 +1,104 @@
+/**
+ * Command Status Worker - Process Entry Point
+ *
+ * Usage: pnpm worker:commands
+ *
+ * Environment:
+ * - DATABASE_URL              PostgreSQL connection
+ * - NATS_SERVERS              Comma-separated NATS servers (default nats://localhost:4222)
+ * - NATS_STREAM_NAME          JetStream stream (default TELEMETRY, shared with iot-bridge)
+ * - NATS_SUBJECT_PREFIX       Subject prefix (default telemetry, shared with iot-bridge)
+ * - COMMANDS_DURABLE_NAME     Durable consumer name (default command-status)
+ * - COMMANDS_MAX_DELIVER      Deliveries before a failing message is dropped (default 10)
+ * - COMMANDS_ACK_WAIT_MS      Ack timeout before redelivery (default 30000)
+ * - COMMANDS_EXPIRY_SWEEP_MS  Interval for expiring commands past their TTL (default 30000)
+ */
+
+// Load environment variables from root .env file
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+config({ path: resolve(__dirname, '../../../../.env') });
+
+import { z } from 'zod';
+import { createLogger } from '@argus/shared';
+import { closeDatabaseConnection } from '../db/index.js';
+import { auditService } from '../services/audit.service.js';
+import { getDeviceCommandService } from '../services/device-command.service.js';
+import { JetStreamMessageSource } from './message-source.js';
+import { CommandStatusWorker } from './command-status.worker.js';
+
+const commandStatusConfigSchema = z.object({
+  servers: z.array(z.string()).default(['nats://localhost:4222']),
+  streamName: z.string().default('TELEMETRY'),
+  subjectPrefix: z.string().default('telemetry'),
+  durableName: z.string().default('command-status'),
+  maxDeliver: z.coerce.number().int().min(1).default(10),
+  ackWaitMs: z.coerce.number().int().min(1000).default(30000),
+  expirySweepIntervalMs: z.coerce.number().int().min(1000).default(30000),
+});
+
+async function main() {
+  const logger = createLogger({ base: { service: 'command-status' } });
+
+  const commandConfig = commandStatusConfigSchema.parse({
+    servers: process.env.NATS_SERVERS?.split(',').map((s) => s.trim()),
+    streamName: process.env.NATS_STREAM_NAME,
+    subjectPrefix: process.env.NATS_SUBJECT_PREFIX,
+    durableName: process.env.COMMANDS_DURABLE_NAME,
+    maxDeliver: process.env.COMMANDS_MAX_DELIVER,
+    ackWaitMs: process.env.COMMANDS_ACK_WAIT_MS,
+    expirySweepIntervalMs: process.env.COMMANDS_EXPIRY_SWEEP_MS,
+  });
+
+  const source = new JetStreamMessageSource(
+    {
+      servers: commandConfig.servers,
+      streamName: commandConfig.streamName,
+      durableName: commandConfig.durableName,
+      filterSubject: `${commandConfig.subjectPrefix}.commands.status.>`,
+      maxDeliver: commandConfig.maxDeliver,
+      ackWaitMs: commandConfig.ackWaitMs,
+      maxMessages: 100,
+    },
+    logger.child({ component: 'jetstream' })
+  );
+
+  const worker = new CommandStatusWorker(source, getDeviceCommandService(), auditService, logger, {
+    maxDeliver: commandConfig.maxDeliver,
+    expirySweepIntervalMs: commandConfig.expirySweepIntervalMs,
+  });
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Received shutdown signal');
+    try {
+      await worker.stop();
+      await closeDatabaseConnection();
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Error during shutdown'
+      );
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  try {
+    await worker.start();
+  } catch (error) {
+    logger.fatal(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Failed to start command status worker'
+    );
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,68 @@
+/**
+ * Connectivity Watchdog - Process Entry Point
+ *
+ * Usage: pnpm worker:connectivity
+ *
+ * Environment:
+ * - DATABASE_URL                     PostgreSQL connection
+ * - CONNECTIVITY_SWEEP_INTERVAL_MS   Interval between device evaluations (default 60000)
+ */
+
+// Load environment variables from root .env file
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+config({ path: resolve(__dirname, '../../../../.env') });
+
+import { z } from 'zod';
+import { createLogger } from '@argus/shared';
+import { closeDatabaseConnection } from '../db/index.js';
+import { getDeviceConnectivityService } from '../services/device-connectivity.service.js';
+import { ConnectivityWatchdog } from './connectivity-watchdog.js';
+
+const watchdogConfigSchema = z.object({
+  sweepIntervalMs: z.coerce.number().int().min(5000).default(60000),
+});
+
+async function main() {
+  const logger = createLogger({ base: { service: 'connectivity-watchdog' } });
+
+  const watchdogConfig = watchdogConfigSchema.parse({
+    sweepIntervalMs: process.env.CONNECTIVITY_SWEEP_INTERVAL_MS,
+  });
+
+  const watchdog = new ConnectivityWatchdog(getDeviceConnectivityService(), logger, watchdogConfig);
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Received shutdown signal');
+    try {
+      await watchdog.stop();
+      await closeDatabaseConnection();
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Error during shutdown'
+      );
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  try {
+    await watchdog.start();
+  } catch (error) {
+    logger.fatal(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Failed to start connectivity watchdog'
+    );
+    process.exit(1);
+  }
+}
+
+main();
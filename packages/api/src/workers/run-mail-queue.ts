@@ -0,0 +1,74 @@
+/**
+ * Mail Queue Worker - Process Entry Point
+ *
+ * Usage: pnpm worker:mail
+ *
+ * Environment:
+ * - DATABASE_URL              PostgreSQL connection
+ * - APP_URL                   Web app base URL used in email links (default http://localhost:5173)
+ * - MAIL_POLL_INTERVAL_MS     Interval between queue checks (default 5000)
+ * - MAIL_BATCH_SIZE           Messages sent per check (default 20)
+ * - SMTP_CAPTURE_HOST         Send all mail to this capture server instead (local testing)
+ * - SMTP_CAPTURE_PORT         Capture server port (default 1025)
+ */
+
+// Load environment variables from root .env file
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+config({ path: resolve(__dirname, '../../../../.env') });
+
+import { z } from 'zod';
+import { createLogger } from '@argus/shared';
+import { closeDatabaseConnection } from '../db/index.js';
+import { getMailService } from '../services/mail.service.js';
+import { MailQueueWorker } from './mail-queue.worker.js';
+
+const workerConfigSchema = z.object({
+  pollIntervalMs: z.coerce.number().int().min(1000).default(5000),
+  batchSize: z.coerce.number().int().min(1).max(500).default(20),
+});
+
+async function main() {
+  const logger = createLogger({ base: { service: 'mail-queue' } });
+
+  const workerConfig = workerConfigSchema.parse({
+    pollIntervalMs: process.env.MAIL_POLL_INTERVAL_MS,
+    batchSize: process.env.MAIL_BATCH_SIZE,
+  });
+
+  const worker = new MailQueueWorker(getMailService(), logger, workerConfig);
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Received shutdown signal');
+    try {
+      await worker.stop();
+      await closeDatabaseConnection();
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Error during shutdown'
+      );
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  try {
+    await worker.start();
+  } catch (error) {
+    logger.fatal(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Failed to start mail queue worker'
+    );
+    process.exit(1);
+  }
+}
+
+main();
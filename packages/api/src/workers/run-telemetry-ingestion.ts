@@ -0,0 +1,134 @@
+/**
+ * Telemetry Ingestion Worker - Process Entry Point
+ *
+ * Usage: pnpm worker:ingest
+ *
+ * Environment:
+ * - DATABASE_URL              PostgreSQL connection
+ * - NATS_SERVERS              Comma-separated NATS servers (default nats://localhost:4222)
+ * - NATS_STREAM_NAME          JetStream stream (default TELEMETRY, shared with iot-bridge)
+ * - NATS_SUBJECT_PREFIX       Subject prefix (default telemetry, shared with iot-bridge)
+ * - INGEST_DURABLE_NAME       Durable consumer name (default telemetry-ingestion)
+ * - INGEST_MAX_DELIVER        Deliveries before a failing message is dropped (default 10)
+ * - INGEST_ACK_WAIT_MS        Ack timeout before redelivery (default 30000)
+ * - INGEST_MAX_MESSAGES       Client-side buffer size (default 100)
+ * - INGEST_CHUNK_SWEEP_MS     Interval for dropping expired chunk sets (default 10000)
+ */
+
+// Load environment variables from root .env file
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+config({ path: resolve(__dirname, '../../../../.env') });
+
+import { z } from 'zod';
+import { createLogger } from '@argus/shared';
+import { closeDatabaseConnection } from '../db/index.js';
+import { getDeviceRepository, getTelemetryRepository } from '../repositories/index.js';
+import { getThresholdEngineService } from '../services/threshold-engine.service.js';
+import { getDeviceDecodingService } from '../services/device-decoding.service.js';
+import { getAssetHealthService } from '../services/asset-health.service.js';
+import { getTelemetryComputationService } from '../services/telemetry-computation.service.js';
+import { JetStreamMessageSource } from './message-source.js';
+import { TelemetryIngestionWorker } from './telemetry-ingestion.worker.js';
+import { GatewayDemultiplexer } from './gateway-demux.js';
+import { ChunkReassembler } from './chunk-reassembler.js';
+import { createComputationProcessor } from './telemetry-computation.processor.js';
+import { createThresholdProcessor } from './threshold.processor.js';
+import { createHealthProcessor } from './health.processor.js';
+
+const ingestionConfigSchema = z.object({
+  servers: z.array(z.string()).default(['nats://localhost:4222']),
+  streamName: z.string().default('TELEMETRY'),
+  subjectPrefix: z.string().default('telemetry'),
+  durableName: z.string().default('telemetry-ingestion'),
+  maxDeliver: z.coerce.number().int().min(1).default(10),
+  ackWaitMs: z.coerce.number().int().min(1000).default(30000),
+  maxMessages: z.coerce.number().int().min(1).default(100),
+  chunkSweepIntervalMs: z.coerce.number().int().min(1000).default(10000),
+});
+
+async function main() {
+  const logger = createLogger({ base: { service: 'telemetry-ingestion' } });
+
+  const ingestionConfig = ingestionConfigSchema.parse({
+    servers: process.env.NATS_SERVERS?.split(',').map((s) => s.trim()),
+    streamName: process.env.NATS_STREAM_NAME,
+    subjectPrefix: process.env.NATS_SUBJECT_PREFIX,
+    durableName: process.env.INGEST_DURABLE_NAME,
+    maxDeliver: process.env.INGEST_MAX_DELIVER,
+    ackWaitMs: process.env.INGEST_ACK_WAIT_MS,
+    maxMessages: process.env.INGEST_MAX_MESSAGES,
+    chunkSweepIntervalMs: process.env.INGEST_CHUNK_SWEEP_MS,
+  });
+
+  const source = new JetStreamMessageSource(
+    {
+      servers: ingestionConfig.servers,
+      streamName: ingestionConfig.streamName,
+      durableName: ingestionConfig.durableName,
+      filterSubject: `${ingestionConfig.subjectPrefix}.raw.>`,
+      maxDeliver: ingestionConfig.maxDeliver,
+      ackWaitMs: ingestionConfig.ackWaitMs,
+      maxMessages: ingestionConfig.maxMessages,
+    },
+    logger.child({ component: 'jetstream' })
+  );
+
+  const telemetryRepo = getTelemetryRepository();
+  const worker = new TelemetryIngestionWorker(source, telemetryRepo, logger, {
+    maxDeliver: ingestionConfig.maxDeliver,
+    chunkSweepIntervalMs: ingestionConfig.chunkSweepIntervalMs,
+  });
+  const decodingService = getDeviceDecodingService();
+  worker.setDecoder(decodingService);
+  worker.setDemultiplexer(new GatewayDemultiplexer(decodingService, getDeviceRepository()));
+  worker.setReassembler(new ChunkReassembler(decodingService, telemetryRepo));
+  // First: health scores include the metrics computed from the same message
+  worker.addProcessor(
+    createComputationProcessor(
+      getTelemetryComputationService(),
+      logger.child({ component: 'telemetry-computation' })
+    )
+  );
+  worker.addProcessor(
+    createThresholdProcessor(getThresholdEngineService(), logger.child({ component: 'threshold-rules' }))
+  );
+  // After threshold rules: scores include the alerts raised by the same message
+  worker.addProcessor(
+    createHealthProcessor(getAssetHealthService(), logger.child({ component: 'asset-health' }))
+  );
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Received shutdown signal');
+    try {
+      await worker.stop();
+      await closeDatabaseConnection();
+      process.exit(0);
+    } catch (error) {
+      logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Error during shutdown'
+      );
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  try {
+    await worker.start();
+  } catch (error) {
+    logger.fatal(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Failed to start telemetry ingestion worker'
+    );
+    process.exit(1);
+  }
+}
+
+main();
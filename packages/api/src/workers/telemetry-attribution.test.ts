@@ -0,0 +1,102 @@
+/**
+ * Unit tests for telemetry attribution
+ * Tests renaming device readings to asset metric definitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { attributeToAsset, readMetricDefinitions, readMetricMappings } from './telemetry-attribution.js';
+import type { AssetBinding, IngestionBatch } from '../repositories/telemetry.repository.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ASSET_ID = '3f2a1b4c-5d6e-4f70-8a9b-0c1d2e3f4a5b';
+const BINDING_ID = '6a7b8c9d-0e1f-4a2b-9c3d-4e5f6a7b8c9d';
+const TIMESTAMP = new Date('2026-03-01T12:00:00Z');
+
+function createRow(metricKey: string, value: string, unit: string | null = null): IngestionBatch['history'][number] {
+  return {
+    entityId: DEVICE_ID,
+    entityType: 'device',
+    metricKey,
+    value,
+    unit,
+    quality: 'good',
+    timestamp: TIMESTAMP,
+    sourceDeviceId: DEVICE_ID,
+    sourceMessageId: 'TELEMETRY:1',
+    metadata: { source: 'direct' },
+  };
+}
+
+function createBinding(overrides: Partial<AssetBinding> = {}): AssetBinding {
+  return {
+    bindingId: BINDING_ID,
+    assetId: ASSET_ID,
+    metadata: null,
+    metricDefinitions: {
+      metrics: [
+        { key: 'motor_temperature', unit: 'celsius' },
+        { key: 'vibration_level', unit: 'mm/s' },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('readMetricDefinitions', () => {
+  it('should index metric definitions by key', () => {
+    const definitions = readMetricDefinitions({ metrics: [{ key: 'flow_rate', unit: 'm3/h' }] });
+
+    expect([...definitions.keys()]).toEqual(['flow_rate']);
+    expect(definitions.get('flow_rate')).toMatchObject({ unit: 'm3/h', dataType: 'numeric' });
+  });
+
+  it('should return no definitions for missing or malformed values', () => {
+    expect(readMetricDefinitions(null).size).toBe(0);
+    expect(readMetricDefinitions({ metrics: [{ unit: 'bar' }] }).size).toBe(0);
+  });
+});
+
+describe('readMetricMappings', () => {
+  it('should keep string mappings only', () => {
+    expect(readMetricMappings({ metricMappings: { temp: 'motor_temperature', bad: 3 } })).toEqual({
+      temp: 'motor_temperature',
+    });
+    expect(readMetricMappings(null)).toEqual({});
+  });
+});
+
+describe('attributeToAsset', () => {
+  it('should copy readings whose key the asset type defines', () => {
+    const rows = attributeToAsset([createRow('vibration_level', '4.2'), createRow('rssi', '-70')], createBinding());
+
+    expect(rows).toEqual([
+      {
+        ...createRow('vibration_level', '4.2'),
+        entityId: ASSET_ID,
+        entityType: 'asset',
+        unit: 'mm/s',
+        metadata: { source: 'direct', bindingId: BINDING_ID, sourceMetricKey: 'vibration_level' },
+      },
+    ]);
+  });
+
+  it('should rename device metrics through the binding metric mappings', () => {
+    const rows = attributeToAsset(
+      [createRow('temp', '71.5', 'celsius')],
+      createBinding({ metadata: { metricMappings: { temp: 'motor_temperature' } } })
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      entityId: ASSET_ID,
+      metricKey: 'motor_temperature',
+      value: '71.5',
+      sourceDeviceId: DEVICE_ID,
+      metadata: { sourceMetricKey: 'temp' },
+    });
+  });
+
+  it('should attribute nothing when the asset type has no metric definitions', () => {
+    expect(attributeToAsset([createRow('motor_temperature', '70')], createBinding({ metricDefinitions: null }))).toEqual([]);
+  });
+});
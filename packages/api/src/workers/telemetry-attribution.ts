@@ -0,0 +1,76 @@
+/**
+ * Telemetry attribution
+ *
+ * Copies the readings of a device onto the assets it is bound to (asset
+ * -MONITORED_BY-> device edges valid at the reading time), renamed to the
+ * asset type's metric definitions:
+ * - a binding's metricMappings rename device metric keys (temp -> motor_temperature)
+ * - unmapped keys are used as they are
+ * - only keys defined in the asset type's metric_definitions are attributed
+ *
+ * Attributed rows keep the source device and carry the binding ID, so
+ * readings taken before a sensor swap stay with the asset.
+ */
+
+import { metricDefinitionsSchema, type MetricDefinition } from '@argus/shared';
+import type { AssetBinding, IngestionBatch } from '../repositories/telemetry.repository.js';
+
+type HistoryRow = IngestionBatch['history'][number];
+
+/**
+ * Reads stored metric definitions; definitions that do not match the schema
+ * attribute nothing
+ */
+export function readMetricDefinitions(stored: unknown): Map<string, MetricDefinition> {
+  const parsed = metricDefinitionsSchema.safeParse(stored);
+  if (!parsed.success) {
+    return new Map();
+  }
+  return new Map(parsed.data.metrics.map((metric) => [metric.key, metric]));
+}
+
+/**
+ * Reads the metric mappings stored in a binding's metadata
+ */
+export function readMetricMappings(metadata: unknown): Record<string, string> {
+  const mappings = (metadata as { metricMappings?: unknown } | null)?.metricMappings;
+  if (typeof mappings !== 'object' || mappings === null || Array.isArray(mappings)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(mappings).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
+
+/**
+ * Builds the asset history rows for a device's readings under one binding
+ */
+export function attributeToAsset(history: HistoryRow[], binding: AssetBinding): HistoryRow[] {
+  const definitions = readMetricDefinitions(binding.metricDefinitions);
+  if (definitions.size === 0) {
+    return [];
+  }
+  const mappings = readMetricMappings(binding.metadata);
+
+  return history.flatMap((row) => {
+    const metricKey = mappings[row.metricKey] ?? row.metricKey;
+    const definition = definitions.get(metricKey);
+    if (!definition) {
+      return [];
+    }
+    return [
+      {
+        ...row,
+        entityId: binding.assetId,
+        entityType: 'asset' as const,
+        metricKey,
+        unit: row.unit ?? definition.unit ?? null,
+        metadata: {
+          ...(row.metadata as Record<string, unknown> | undefined),
+          bindingId: binding.bindingId,
+          sourceMetricKey: row.metricKey,
+        },
+      },
+    ];
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Telemetry computation processor
+ *
+ * Materializes the derived metrics, closed aggregation windows and child
+ * roll-ups of the assets the device monitors once their telemetry is
+ * committed. Registered first, so health scores include the metrics computed
+ * from the same message.
+ */
+
+import type { Logger } from '@argus/shared';
+import type { TelemetryComputationService } from '../services/telemetry-computation.service.js';
+import type { TelemetryProcessor } from './telemetry-ingestion.worker.js';
+
+export function createComputationProcessor(
+  service: TelemetryComputationService,
+  logger: Logger
+): TelemetryProcessor {
+  return {
+    name: 'telemetry-computation',
+    async process(telemetry) {
+      if (telemetry.assets.length === 0) return;
+
+      const results = await service.compute(
+        telemetry.tenantId,
+        telemetry.assets.map((asset) => asset.id),
+        telemetry.timestamp
+      );
+
+      for (const result of results) {
+        logger.debug({ assetId: result.assetId, written: result.written }, 'Computed asset metrics');
+      }
+    },
+  };
+}
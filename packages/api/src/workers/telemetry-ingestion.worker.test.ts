@@ -0,0 +1,391 @@
+/**
+ * Unit tests for TelemetryIngestionWorker
+ * Runs the worker against the in-process message source with a mocked repository
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Logger } from '@argus/shared';
+import { InMemoryMessageSource } from './message-source.js';
+import type { ChunkReassembler } from './chunk-reassembler.js';
+import { TelemetryIngestionWorker, type TelemetryDemultiplexer } from './telemetry-ingestion.worker.js';
+import type {
+  TelemetryRepository,
+  IngestionBatch,
+  GatewayIngestionBatch,
+} from '../repositories/telemetry.repository.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const ORG_ID = '00000000-0000-0000-0000-000000000010';
+const CHILD_ID = '9b2d5f3a-1c4e-4f6a-8b7c-2d3e4f5a6b7c';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  child: vi.fn(),
+} as unknown as Logger;
+
+function createMockRepository() {
+  return {
+    findIngestionDevice: vi.fn().mockResolvedValue({
+      id: DEVICE_ID,
+      organizationId: ORG_ID,
+      deviceTypeId: 'type-1',
+      status: 'active',
+      deviceRole: 'endpoint',
+    }),
+    hasSourceMessage: vi.fn().mockResolvedValue(false),
+    findAssetBindings: vi.fn().mockResolvedValue([]),
+    ingest: vi.fn(async (batch: IngestionBatch) => ({
+      rawId: 'raw-1',
+      historyCount: batch.history.length,
+      assetsUpdated: 0,
+      assets: [],
+    })),
+    beginTransaction: vi.fn().mockResolvedValue('txn-1'),
+    failTransaction: vi.fn().mockResolvedValue(undefined),
+    ingestGateway: vi.fn(async (batch: GatewayIngestionBatch) => ({
+      rawId: 'raw-1',
+      historyCount: batch.children.reduce((sum, child) => sum + child.history.length, 0),
+      status: batch.children.length === batch.totalLogicalDevices ? 'completed' : 'partial',
+      children: batch.children.map((child) => ({ deviceId: child.deviceId, assets: [] })),
+    })),
+  };
+}
+
+describe('TelemetryIngestionWorker', () => {
+  let source: InMemoryMessageSource;
+  let repo: ReturnType<typeof createMockRepository>;
+  let worker: TelemetryIngestionWorker;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    source = new InMemoryMessageSource(3);
+    repo = createMockRepository();
+    worker = new TelemetryIngestionWorker(
+      source,
+      repo as unknown as TelemetryRepository,
+      mockLogger,
+      { maxDeliver: 3, retryBaseDelayMs: 1, retryMaxDelayMs: 1 }
+    );
+    await worker.start();
+  });
+
+  it('should persist raw payload and per-metric history, then ack', async () => {
+    const id = source.publish(
+      `telemetry.raw.${DEVICE_ID}`,
+      { deviceId: DEVICE_ID, timestamp: '2026-03-01T12:00:00Z', temperature: 21.5, humidity: 40 },
+      { source: 'direct', 'mqtt-topic': `devices/${DEVICE_ID}/telemetry` }
+    );
+
+    await source.drain();
+
+    expect(repo.ingest).toHaveBeenCalledTimes(1);
+    const batch = repo.ingest.mock.calls[0][0];
+    expect(batch.tenantId).toBe(ORG_ID);
+    expect(batch.deviceId).toBe(DEVICE_ID);
+    expect(batch.observedAt.toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    expect(batch.raw.mqttTopic).toBe(`devices/${DEVICE_ID}/telemetry`);
+    expect(batch.raw.ingestionSource).toBe('direct');
+    expect(batch.raw.sourceMessageId).toBe(id);
+    expect(batch.history).toHaveLength(2);
+    expect(batch.history[0]).toMatchObject({
+      entityId: DEVICE_ID,
+      entityType: 'device',
+      metricKey: 'temperature',
+      value: '21.5',
+      quality: 'good',
+      sourceDeviceId: DEVICE_ID,
+      sourceMessageId: id,
+    });
+    expect(source.acked).toEqual([id]);
+    expect(worker.getMetrics().metricsWritten).toBe(2);
+  });
+
+  it('should attribute readings to the assets the device is bound to', async () => {
+    repo.findAssetBindings.mockResolvedValue([
+      {
+        bindingId: 'binding-1',
+        assetId: 'asset-1',
+        metadata: { metricMappings: { temperature: 'motor_temperature' } },
+        metricDefinitions: { metrics: [{ key: 'motor_temperature', unit: 'celsius' }] },
+      },
+    ]);
+
+    source.publish(`telemetry.raw.${DEVICE_ID}`, {
+      deviceId: DEVICE_ID,
+      timestamp: '2026-03-01T12:00:00Z',
+      temperature: 71.5,
+      humidity: 40,
+    });
+    await source.drain();
+
+    expect(repo.findAssetBindings).toHaveBeenCalledWith(DEVICE_ID, new Date('2026-03-01T12:00:00Z'));
+    const batch = repo.ingest.mock.calls[0][0];
+    expect(batch.history).toHaveLength(3);
+    expect(batch.history[2]).toMatchObject({
+      entityId: 'asset-1',
+      entityType: 'asset',
+      metricKey: 'motor_temperature',
+      value: '71.5',
+      sourceDeviceId: DEVICE_ID,
+    });
+    expect(worker.getMetrics().metricsAttributed).toBe(1);
+  });
+
+  it('should not ack until the write commits, and redeliver on failure', async () => {
+    repo.ingest
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockImplementation(async (batch: IngestionBatch) => ({
+        rawId: 'raw-1',
+        historyCount: batch.history.length,
+        assetsUpdated: 0,
+        assets: [],
+      }));
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { temperature: 20 });
+    await source.drain();
+
+    expect(repo.ingest).toHaveBeenCalledTimes(2);
+    expect(source.acked).toEqual([id]);
+    expect(worker.getMetrics().messagesRetried).toBe(1);
+  });
+
+  it('should skip messages already committed before a redelivery', async () => {
+    repo.ingest.mockRejectedValueOnce(new Error('ack lost'));
+    repo.hasSourceMessage.mockResolvedValue(true);
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { temperature: 20 });
+    await source.drain();
+
+    expect(repo.ingest).toHaveBeenCalledTimes(1);
+    expect(repo.hasSourceMessage).toHaveBeenCalledWith(id);
+    expect(source.acked).toEqual([id]);
+    expect(worker.getMetrics().messagesDuplicate).toBe(1);
+  });
+
+  it('should terminate after the delivery budget is exhausted', async () => {
+    repo.ingest.mockRejectedValue(new Error('database down'));
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { temperature: 20 });
+    await source.drain();
+
+    expect(repo.ingest).toHaveBeenCalledTimes(3);
+    expect(source.acked).toEqual([]);
+    expect(source.terminated).toEqual([id]);
+  });
+
+  it('should terminate unparseable messages without touching the database', async () => {
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, 'not json');
+    await source.drain();
+
+    expect(repo.findIngestionDevice).not.toHaveBeenCalled();
+    expect(source.terminated).toEqual([id]);
+    expect(worker.getMetrics().messagesRejected).toBe(1);
+  });
+
+  it('should terminate messages for unknown devices', async () => {
+    repo.findIngestionDevice.mockResolvedValue(null);
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { temperature: 20 });
+    await source.drain();
+
+    expect(repo.ingest).not.toHaveBeenCalled();
+    expect(source.terminated).toEqual([id]);
+    expect(worker.getMetrics().messagesUnknownDevice).toBe(1);
+  });
+
+  it('should hand committed telemetry to processors without affecting the ack', async () => {
+    const failing = { name: 'failing', process: vi.fn().mockRejectedValue(new Error('boom')) };
+    const recording = { name: 'recording', process: vi.fn().mockResolvedValue(undefined) };
+    worker.addProcessor(failing);
+    worker.addProcessor(recording);
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { temperature: 20 });
+    await source.drain();
+
+    expect(source.acked).toEqual([id]);
+    expect(recording.process).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenantId: ORG_ID,
+        deviceId: DEVICE_ID,
+        readings: [expect.objectContaining({ metricKey: 'temperature', value: 20 })],
+        assets: [],
+      })
+    );
+    expect(worker.getMetrics().processorErrors).toBe(1);
+  });
+
+  it('should store readings produced by the decoder and count decode errors', async () => {
+    const decoder = {
+      decode: vi.fn().mockResolvedValue({
+        readings: [
+          {
+            metricKey: 'temperature',
+            value: 37,
+            valueText: null,
+            valueJson: null,
+            unit: 'celsius',
+            quality: 'good',
+          },
+        ],
+        errors: [{ stage: 'extraction', metricKey: 'pressure', message: 'Required field is missing' }],
+      }),
+    };
+    worker.setDecoder(decoder);
+
+    const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { t: 986 });
+    await source.drain();
+
+    expect(decoder.decode).toHaveBeenCalledWith(
+      expect.objectContaining({ id: DEVICE_ID, deviceTypeId: 'type-1' }),
+      { t: 986 },
+      'good'
+    );
+    expect(repo.ingest.mock.calls[0][0].history).toEqual([
+      expect.objectContaining({ metricKey: 'temperature', value: '37', unit: 'celsius' }),
+    ]);
+    expect(source.acked).toEqual([id]);
+    expect(worker.getMetrics().decodeErrors).toBe(1);
+  });
+
+  describe('gateway messages', () => {
+    const child = {
+      device: {
+        id: CHILD_ID,
+        organizationId: ORG_ID,
+        deviceTypeId: 'beacon-type',
+        status: 'active',
+        deviceRole: 'endpoint',
+      },
+      logicalId: 'b1',
+      payload: { rssi: -60 },
+      timestamp: new Date('2026-03-01T11:59:00Z'),
+    };
+    let demultiplexer: { demux: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      demultiplexer = {
+        demux: vi.fn().mockResolvedValue({
+          children: [child],
+          total: 2,
+          unresolved: ['b2'],
+          provisioned: 0,
+          errors: [],
+        }),
+      };
+      worker.setDemultiplexer(demultiplexer as unknown as TelemetryDemultiplexer);
+    });
+
+    it('should write per-child history under a telemetry transaction', async () => {
+      const payload = { beacons: [{ id: 'b1', rssi: -60 }, { id: 'b2', rssi: -70 }] };
+      const id = source.publish(`telemetry.raw.${DEVICE_ID}`, payload);
+      await source.drain();
+
+      expect(repo.beginTransaction).toHaveBeenCalledWith(ORG_ID, id, DEVICE_ID, 2, expect.any(Object));
+      expect(repo.ingest).not.toHaveBeenCalled();
+
+      const batch = repo.ingestGateway.mock.calls[0][0];
+      expect(batch.transactionId).toBe('txn-1');
+      expect(batch.gatewayDeviceId).toBe(DEVICE_ID);
+      expect(batch.raw.correlationId).toBe(id);
+      expect(batch.children).toEqual([
+        {
+          deviceId: CHILD_ID,
+          observedAt: child.timestamp,
+          history: [
+            expect.objectContaining({
+              entityId: CHILD_ID,
+              metricKey: 'rssi',
+              value: '-60',
+              timestamp: child.timestamp,
+              metadata: expect.objectContaining({ gatewayDeviceId: DEVICE_ID, logicalId: 'b1' }),
+            }),
+          ],
+        },
+      ]);
+      expect(source.acked).toEqual([id]);
+      expect(worker.getMetrics()).toMatchObject({ gatewayMessages: 1, childDevicesUnresolved: 1 });
+    });
+
+    it('should run processors per child device', async () => {
+      const recording = { name: 'recording', process: vi.fn().mockResolvedValue(undefined) };
+      worker.addProcessor(recording);
+
+      source.publish(`telemetry.raw.${DEVICE_ID}`, { beacons: [] });
+      await source.drain();
+
+      expect(recording.process).toHaveBeenCalledTimes(1);
+      expect(recording.process).toHaveBeenCalledWith(
+        expect.objectContaining({ deviceId: CHILD_ID, timestamp: child.timestamp })
+      );
+    });
+
+    it('should mark the transaction failed and redeliver when the write fails', async () => {
+      repo.ingestGateway.mockRejectedValueOnce(new Error('connection reset'));
+
+      const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { beacons: [] });
+      await source.drain();
+
+      expect(repo.failTransaction).toHaveBeenCalledWith(ORG_ID, 'txn-1', 'connection reset');
+      expect(repo.ingestGateway).toHaveBeenCalledTimes(2);
+      expect(source.acked).toEqual([id]);
+    });
+  });
+
+  describe('chunked messages', () => {
+    let reassembler: {
+      addChunk: ReturnType<typeof vi.fn>;
+      release: ReturnType<typeof vi.fn>;
+      getStats: ReturnType<typeof vi.fn>;
+    };
+
+    beforeEach(() => {
+      reassembler = {
+        addChunk: vi.fn(),
+        release: vi.fn().mockResolvedValue(undefined),
+        getStats: vi.fn().mockReturnValue({}),
+      };
+      worker.setReassembler(reassembler as unknown as ChunkReassembler);
+    });
+
+    it('should ack buffered chunks and ingest the reassembled message once', async () => {
+      reassembler.addChunk
+        .mockResolvedValueOnce({ status: 'pending', correlationId: 'c1', received: 1, totalChunks: 2 })
+        .mockImplementationOnce(async (_device, parsed) => ({
+          status: 'complete',
+          correlationId: 'c1',
+          totalChunks: 2,
+          message: { ...parsed, payload: { temperature: 20, humidity: 40 }, correlationId: 'c1', totalChunks: 2 },
+        }));
+
+      const first = source.publish(`telemetry.raw.${DEVICE_ID}`, { correlationId: 'c1', seq: 1, total: 2, temperature: 20 });
+      const second = source.publish(`telemetry.raw.${DEVICE_ID}`, { correlationId: 'c1', seq: 2, total: 2, humidity: 40 });
+      await source.drain();
+
+      expect(source.acked).toEqual([first, second]);
+      expect(repo.ingest).toHaveBeenCalledTimes(1);
+      const batch = repo.ingest.mock.calls[0][0];
+      expect(batch.raw.correlationId).toBe('c1');
+      expect(batch.raw.totalChunks).toBe(2);
+      expect(batch.history.map((row: { metricKey: string }) => row.metricKey)).toEqual(['temperature', 'humidity']);
+      expect(reassembler.release).toHaveBeenCalledWith(expect.objectContaining({ id: DEVICE_ID }), 'c1');
+    });
+
+    it('should terminate rejected chunks', async () => {
+      reassembler.addChunk.mockResolvedValue({ status: 'rejected', reason: 'too many chunks' });
+
+      const id = source.publish(`telemetry.raw.${DEVICE_ID}`, { correlationId: 'c1', seq: 1, total: 99999 });
+      await source.drain();
+
+      expect(repo.ingest).not.toHaveBeenCalled();
+      expect(source.terminated).toEqual([id]);
+    });
+  });
+
+  it('should stop cleanly', async () => {
+    await worker.stop();
+    expect(worker.getMetrics().running).toBe(false);
+  });
+});
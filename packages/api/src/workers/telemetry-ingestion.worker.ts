@@ -0,0 +1,635 @@
+/**
+ * Telemetry Ingestion Worker
+ *
+ * Consumes `telemetry.raw.{deviceId}` messages from the TELEMETRY JetStream
+ * stream (published by the IoT bridge) and persists them:
+ * - telemetry_raw: the message as received (audit trail)
+ * - telemetry_history: one row per metric, with quality flags
+ * - devices.last_seen_at / assets.last_telemetry_at
+ * - telemetry_history rows for the assets a device is bound to, under the
+ *   asset type's metric keys (see telemetry-attribution.ts)
+ *
+ * Messages are acknowledged only after the database transaction commits, so a
+ * crash at any point results in redelivery rather than data loss. Redelivered
+ * messages that were already committed are detected by the source message ID
+ * of their telemetry_raw row (every message has one, even without metrics).
+ *
+ * Payloads are decoded with the device type's decoding profile when a decoder
+ * is set, otherwise every payload field becomes a metric.
+ *
+ * Messages from gateways whose device type has a demux strategy are split per
+ * child device; progress is tracked in telemetry_transactions (pending ->
+ * completed / partial / failed) and all children are written atomically.
+ *
+ * Chunked messages are buffered by the chunk reassembler and processed once
+ * complete; incomplete sets are swept after their device type's ttl.
+ *
+ * Committed telemetry is then handed to registered processors (threshold
+ * rules, asset health, etc.).
+ */
+
+import type { Logger } from '@argus/shared';
+import type { MessageSource, SourceMessage } from './message-source.js';
+import {
+  parseTelemetryMessage,
+  explodeMetrics,
+  TelemetryParseError,
+  type MetricReading,
+  type ParsedTelemetryMessage,
+  type TelemetryQuality,
+} from './telemetry-message.js';
+import type { DecodeResult } from './payload-decoder.js';
+import type { DemuxResult } from './gateway-demux.js';
+import type { ChunkReassembler } from './chunk-reassembler.js';
+import { attributeToAsset } from './telemetry-attribution.js';
+import type {
+  TelemetryRepository,
+  MonitoredAsset,
+  IngestionDevice,
+  IngestionBatch,
+  GatewayChildBatch,
+  GatewayIngestionResult,
+} from '../repositories/telemetry.repository.js';
+
+export interface TelemetryIngestionOptions {
+  /** Deliveries after which a failing message is terminated */
+  maxDeliver: number;
+  /** Base delay for redelivery backoff after transient failures */
+  retryBaseDelayMs: number;
+  /** Upper bound for redelivery backoff */
+  retryMaxDelayMs: number;
+  /** How often expired chunk sets are swept */
+  chunkSweepIntervalMs: number;
+}
+
+/** Committed telemetry handed to processors */
+export interface IngestedTelemetry {
+  tenantId: string;
+  deviceId: string;
+  timestamp: Date;
+  readings: MetricReading[];
+  assets: MonitoredAsset[];
+}
+
+/**
+ * Downstream step run after a message has been committed and acked.
+ * Failures are logged only: the telemetry itself is already stored.
+ */
+export interface TelemetryProcessor {
+  name: string;
+  process(telemetry: IngestedTelemetry): Promise<void>;
+}
+
+/**
+ * Turns a payload into readings for a specific device (device type profiles)
+ */
+export interface TelemetryDecoder {
+  decode(
+    device: IngestionDevice,
+    payload: Record<string, unknown>,
+    envelopeQuality: TelemetryQuality
+  ): Promise<DecodeResult>;
+}
+
+/**
+ * Splits gateway payloads per child device (gateway device types)
+ */
+export interface TelemetryDemultiplexer {
+  demux(gateway: IngestionDevice, payload: Record<string, unknown>): Promise<DemuxResult | null>;
+}
+
+export const DEFAULT_INGESTION_OPTIONS: TelemetryIngestionOptions = {
+  maxDeliver: 10,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 60000,
+  chunkSweepIntervalMs: 10000,
+};
+
+export class TelemetryIngestionWorker {
+  private options: TelemetryIngestionOptions;
+  private processors: TelemetryProcessor[] = [];
+  private decoder: TelemetryDecoder | null = null;
+  private demultiplexer: TelemetryDemultiplexer | null = null;
+  private reassembler: ChunkReassembler | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  // Metrics
+  private metrics = {
+    messagesProcessed: 0,
+    messagesDuplicate: 0,
+    messagesRejected: 0,
+    messagesRetried: 0,
+    messagesUnknownDevice: 0,
+    metricsWritten: 0,
+    metricsAttributed: 0,
+    decodeErrors: 0,
+    gatewayMessages: 0,
+    childDevicesUnresolved: 0,
+    childDevicesProvisioned: 0,
+    processorErrors: 0,
+  };
+
+  constructor(
+    private source: MessageSource,
+    private telemetryRepo: TelemetryRepository,
+    private logger: Logger,
+    options?: Partial<TelemetryIngestionOptions>
+  ) {
+    this.options = { ...DEFAULT_INGESTION_OPTIONS, ...options };
+  }
+
+  /**
+   * Register a processor to run on committed telemetry
+   */
+  addProcessor(processor: TelemetryProcessor): void {
+    this.processors.push(processor);
+  }
+
+  /**
+   * Decode payloads with device type profiles instead of plain explosion
+   */
+  setDecoder(decoder: TelemetryDecoder): void {
+    this.decoder = decoder;
+  }
+
+  /**
+   * Split gateway messages per child device
+   */
+  setDemultiplexer(demultiplexer: TelemetryDemultiplexer): void {
+    this.demultiplexer = demultiplexer;
+  }
+
+  /**
+   * Reassemble chunked messages before processing them
+   */
+  setReassembler(reassembler: ChunkReassembler): void {
+    this.reassembler = reassembler;
+  }
+
+  /**
+   * Start consuming messages
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    if (this.reassembler) {
+      this.sweepTimer = setInterval(() => void this.sweepExpiredChunks(), this.options.chunkSweepIntervalMs);
+      this.sweepTimer.unref();
+    }
+    await this.source.start((message) => this.handleMessage(message));
+    this.logger.info('Telemetry ingestion worker started');
+  }
+
+  /**
+   * Stop consuming; the in-flight message finishes before this resolves
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await this.source.stop();
+    this.logger.info({ metrics: this.getMetrics() }, 'Telemetry ingestion worker stopped');
+  }
+
+  /**
+   * Process a single message and settle it (ack / nak / term)
+   */
+  async handleMessage(message: SourceMessage): Promise<void> {
+    let parsed;
+    try {
+      parsed = parseTelemetryMessage(message.subject, message.data, message.headers);
+    } catch (error) {
+      if (error instanceof TelemetryParseError) {
+        // Poison message: retrying will never succeed
+        this.logger.warn(
+          { subject: message.subject, messageId: message.messageId, error: error.message },
+          'Rejecting unparseable telemetry message'
+        );
+        this.metrics.messagesRejected++;
+        message.term();
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      // Redelivery after a crash between commit and ack
+      if (
+        message.deliveryCount > 1 &&
+        (await this.telemetryRepo.hasSourceMessage(message.messageId))
+      ) {
+        this.metrics.messagesDuplicate++;
+        message.ack();
+        return;
+      }
+
+      const device = await this.telemetryRepo.findIngestionDevice(parsed.deviceId);
+      if (!device) {
+        this.logger.warn(
+          { deviceId: parsed.deviceId, messageId: message.messageId },
+          'Telemetry received for unknown device, rejecting'
+        );
+        this.metrics.messagesUnknownDevice++;
+        message.term();
+        return;
+      }
+
+      // Chunks are buffered until every part of their message has arrived
+      let reassembledFrom: string | null = null;
+      if (this.reassembler) {
+        const chunk = await this.reassembler.addChunk(
+          device,
+          parsed,
+          message.data.length,
+          message.deliveryCount > 1
+        );
+        if (chunk.status === 'rejected') {
+          this.logger.warn(
+            { deviceId: device.id, messageId: message.messageId, reason: chunk.reason },
+            'Rejecting invalid telemetry chunk'
+          );
+          this.metrics.messagesRejected++;
+          message.term();
+          return;
+        }
+        if (chunk.status === 'pending') {
+          message.ack();
+          return;
+        }
+        if (chunk.status === 'complete') {
+          this.logger.debug(
+            { deviceId: device.id, correlationId: chunk.correlationId, chunks: chunk.totalChunks },
+            'Chunked telemetry message reassembled'
+          );
+          parsed = chunk.message;
+          reassembledFrom = chunk.correlationId;
+        }
+      }
+
+      const demux = this.demultiplexer
+        ? await this.demultiplexer.demux(device, parsed.payload)
+        : null;
+      if (demux) {
+        await this.handleGatewayMessage(message, parsed, device, demux);
+      } else {
+        await this.handleDeviceMessage(message, parsed, device);
+      }
+
+      if (reassembledFrom) {
+        await this.releaseChunks(device, reassembledFrom);
+      }
+    } catch (error) {
+      this.retryOrTerminate(message, error);
+    }
+  }
+
+  /**
+   * Ingests a message from a single device
+   */
+  private async handleDeviceMessage(
+    message: SourceMessage,
+    parsed: ParsedTelemetryMessage,
+    device: IngestionDevice
+  ): Promise<void> {
+    const readings = await this.decodeReadings(device, parsed.payload, parsed.envelopeQuality);
+    const history = this.toHistoryRows(message, parsed, device.id, readings, parsed.timestamp);
+
+    const result = await this.telemetryRepo.ingest({
+      tenantId: device.organizationId,
+      deviceId: device.id,
+      observedAt: parsed.timestamp,
+      raw: this.toRawRecord(message, parsed),
+      history: [...history, ...(await this.attributeToAssets(device.id, parsed.timestamp, history))],
+    });
+
+    message.ack();
+    this.metrics.messagesProcessed++;
+    this.metrics.metricsWritten += result.historyCount;
+
+    this.logger.debug(
+      {
+        deviceId: device.id,
+        messageId: message.messageId,
+        metrics: result.historyCount,
+        assetsUpdated: result.assetsUpdated,
+      },
+      'Telemetry message ingested'
+    );
+
+    await this.runProcessors({
+      tenantId: device.organizationId,
+      deviceId: device.id,
+      timestamp: parsed.timestamp,
+      readings,
+      assets: result.assets,
+    });
+  }
+
+  /**
+   * Ingests a demultiplexed gateway message
+   *
+   * The transaction row is created first so a message that keeps failing is
+   * visible as failed; the final status is written with the telemetry.
+   */
+  private async handleGatewayMessage(
+    message: SourceMessage,
+    parsed: ParsedTelemetryMessage,
+    gateway: IngestionDevice,
+    demux: DemuxResult
+  ): Promise<void> {
+    this.metrics.gatewayMessages++;
+    if (demux.errors.length > 0) {
+      this.metrics.decodeErrors++;
+      this.logger.warn(
+        { deviceId: gateway.id, messageId: message.messageId, errors: demux.errors.slice(0, 5) },
+        'Gateway payload split with errors'
+      );
+    }
+    if (demux.unresolved.length > 0) {
+      this.metrics.childDevicesUnresolved += demux.unresolved.length;
+      this.logger.warn(
+        { deviceId: gateway.id, messageId: message.messageId, unresolved: demux.unresolved.slice(0, 20) },
+        'Gateway message references unknown child devices'
+      );
+    }
+    this.metrics.childDevicesProvisioned += demux.provisioned;
+
+    // Raw message and transaction share the correlation ID
+    const correlationId = parsed.correlationId ?? message.messageId;
+    const transactionId = await this.telemetryRepo.beginTransaction(
+      gateway.organizationId,
+      correlationId,
+      gateway.id,
+      demux.total,
+      { messageId: message.messageId, unresolved: demux.unresolved.slice(0, 100) }
+    );
+
+    const children: GatewayChildBatch[] = [];
+    const childReadings = new Map<string, MetricReading[]>();
+    let result: GatewayIngestionResult;
+    try {
+      const gatewayReadings = this.decoder
+        ? await this.decodeReadings(gateway, parsed.payload, parsed.envelopeQuality)
+        : [];
+      const gatewayHistory = this.toHistoryRows(message, parsed, gateway.id, gatewayReadings, parsed.timestamp);
+
+      for (const child of demux.children) {
+        const timestamp = child.timestamp ?? parsed.timestamp;
+        const readings = await this.decodeReadings(child.device, child.payload, parsed.envelopeQuality);
+        childReadings.set(child.device.id, readings);
+        const history = this.toHistoryRows(message, parsed, child.device.id, readings, timestamp, {
+          gatewayDeviceId: gateway.id,
+          logicalId: child.logicalId,
+          transactionId,
+        });
+        children.push({
+          deviceId: child.device.id,
+          observedAt: timestamp,
+          history: [...history, ...(await this.attributeToAssets(child.device.id, timestamp, history))],
+        });
+      }
+
+      result = await this.telemetryRepo.ingestGateway({
+        tenantId: gateway.organizationId,
+        gatewayDeviceId: gateway.id,
+        transactionId,
+        totalLogicalDevices: demux.total,
+        observedAt: parsed.timestamp,
+        raw: { ...this.toRawRecord(message, parsed), correlationId },
+        history: [
+          ...gatewayHistory,
+          ...(await this.attributeToAssets(gateway.id, parsed.timestamp, gatewayHistory)),
+        ],
+        children,
+      });
+    } catch (error) {
+      // Best effort: a redelivery resets the transaction to pending
+      await this.telemetryRepo
+        .failTransaction(
+          gateway.organizationId,
+          transactionId,
+          error instanceof Error ? error.message : String(error)
+        )
+        .catch(() => undefined);
+      throw error;
+    }
+
+    message.ack();
+    this.metrics.messagesProcessed++;
+    this.metrics.metricsWritten += result.historyCount;
+
+    this.logger.debug(
+      {
+        deviceId: gateway.id,
+        messageId: message.messageId,
+        transactionId,
+        status: result.status,
+        children: children.length,
+        metrics: result.historyCount,
+      },
+      'Gateway telemetry message ingested'
+    );
+
+    const assetsByDevice = new Map(result.children.map((child) => [child.deviceId, child.assets]));
+    for (const child of children) {
+      await this.runProcessors({
+        tenantId: gateway.organizationId,
+        deviceId: child.deviceId,
+        timestamp: child.observedAt,
+        readings: childReadings.get(child.deviceId) ?? [],
+        assets: assetsByDevice.get(child.deviceId) ?? [],
+      });
+    }
+  }
+
+  /**
+   * Deletes the chunks of a reassembled message; leftovers are removed by
+   * the expiry sweep, so failures are only logged
+   */
+  private async releaseChunks(device: IngestionDevice, correlationId: string): Promise<void> {
+    try {
+      await this.reassembler!.release(device, correlationId);
+    } catch (error) {
+      this.logger.warn(
+        {
+          deviceId: device.id,
+          correlationId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to release reassembled telemetry chunks'
+      );
+    }
+  }
+
+  /**
+   * Drops incomplete chunk sets past their ttl
+   */
+  async sweepExpiredChunks(): Promise<void> {
+    if (!this.reassembler) return;
+    try {
+      const expired = await this.reassembler.sweepExpired();
+      for (const set of expired) {
+        this.logger.warn(
+          {
+            deviceId: set.deviceId,
+            correlationId: set.correlationId,
+            received: set.sequenceNumbers.length,
+            totalChunks: set.totalChunks,
+          },
+          'Incomplete chunked telemetry message expired'
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Chunk expiry sweep failed'
+      );
+    }
+  }
+
+  private toRawRecord(message: SourceMessage, parsed: ParsedTelemetryMessage): IngestionBatch['raw'] {
+    return {
+      payload: parsed.body,
+      payloadSizeBytes: message.data.length,
+      correlationId: parsed.correlationId,
+      sequenceNumber: parsed.sequenceNumber,
+      totalChunks: parsed.totalChunks,
+      deviceTimestamp: parsed.deviceTimestamp,
+      receivedAt: parsed.receivedAt,
+      ingestionSource: parsed.source,
+      mqttTopic: parsed.mqttTopic,
+      sourceMessageId: message.messageId,
+    };
+  }
+
+  private toHistoryRows(
+    message: SourceMessage,
+    parsed: ParsedTelemetryMessage,
+    deviceId: string,
+    readings: MetricReading[],
+    timestamp: Date,
+    metadata: Record<string, unknown> = {}
+  ): IngestionBatch['history'] {
+    return readings.map((reading) => ({
+      entityId: deviceId,
+      entityType: 'device' as const,
+      metricKey: reading.metricKey,
+      value: reading.value === null ? null : String(reading.value),
+      valueText: reading.valueText,
+      valueJson: reading.valueJson,
+      unit: reading.unit,
+      quality: reading.quality,
+      timestamp,
+      receivedAt: parsed.receivedAt,
+      sourceDeviceId: deviceId,
+      sourceMessageId: message.messageId,
+      metadata: { source: parsed.source, ...metadata },
+    }));
+  }
+
+  /**
+   * Copies a device's history rows onto the assets it is bound to at the
+   * reading time
+   */
+  private async attributeToAssets(
+    deviceId: string,
+    observedAt: Date,
+    history: IngestionBatch['history']
+  ): Promise<IngestionBatch['history']> {
+    if (history.length === 0) return [];
+
+    const bindings = await this.telemetryRepo.findAssetBindings(deviceId, observedAt);
+    const attributed = bindings.flatMap((binding) => attributeToAsset(history, binding));
+    this.metrics.metricsAttributed += attributed.length;
+    return attributed;
+  }
+
+  /**
+   * Decodes a payload; decode errors are logged and the flagged readings
+   * are still stored
+   */
+  private async decodeReadings(
+    device: IngestionDevice,
+    payload: Record<string, unknown>,
+    envelopeQuality: TelemetryQuality
+  ): Promise<MetricReading[]> {
+    if (!this.decoder) {
+      return explodeMetrics(payload, envelopeQuality);
+    }
+
+    const result = await this.decoder.decode(device, payload, envelopeQuality);
+    if (result.errors.length > 0) {
+      this.metrics.decodeErrors++;
+      this.logger.warn(
+        { deviceId: device.id, deviceTypeId: device.deviceTypeId, errors: result.errors.slice(0, 5) },
+        'Telemetry payload decoded with errors'
+      );
+    }
+    return result.readings;
+  }
+
+  /**
+   * Runs processors in registration order; a failing processor does not stop
+   * the others
+   */
+  private async runProcessors(telemetry: IngestedTelemetry): Promise<void> {
+    for (const processor of this.processors) {
+      try {
+        await processor.process(telemetry);
+      } catch (error) {
+        this.metrics.processorErrors++;
+        this.logger.error(
+          {
+            processor: processor.name,
+            deviceId: telemetry.deviceId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Telemetry processor failed'
+        );
+      }
+    }
+  }
+
+  /**
+   * Handles a transient failure: redeliver with exponential backoff until
+   * the delivery budget is exhausted
+   */
+  private retryOrTerminate(message: SourceMessage, error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (message.deliveryCount >= this.options.maxDeliver) {
+      this.logger.error(
+        { messageId: message.messageId, deliveries: message.deliveryCount, error: errorMessage },
+        'Telemetry message failed on final delivery, terminating'
+      );
+      this.metrics.messagesRejected++;
+      message.term();
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.retryBaseDelayMs * 2 ** (message.deliveryCount - 1),
+      this.options.retryMaxDelayMs
+    );
+    this.logger.warn(
+      { messageId: message.messageId, deliveries: message.deliveryCount, delayMs: delay, error: errorMessage },
+      'Telemetry message failed, scheduling redelivery'
+    );
+    this.metrics.messagesRetried++;
+    message.nak(delay);
+  }
+
+  /**
+   * Get current metrics
+   */
+  getMetrics() {
+    return {
+      ...this.metrics,
+      chunks: this.reassembler?.getStats() ?? null,
+      running: this.running,
+    };
+  }
+}
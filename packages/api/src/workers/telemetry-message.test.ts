@@ -0,0 +1,166 @@
+/**
+ * Unit tests for telemetry message parsing and metric explosion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTelemetryMessage,
+  explodeMetrics,
+  deviceIdFromSubject,
+  TelemetryParseError,
+} from './telemetry-message.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function encode(body: unknown): Uint8Array {
+  return new TextEncoder().encode(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+describe('deviceIdFromSubject', () => {
+  it('should extract the device ID from a raw subject', () => {
+    expect(deviceIdFromSubject(`telemetry.raw.${DEVICE_ID}`)).toBe(DEVICE_ID);
+  });
+
+  it('should return null for other subjects', () => {
+    expect(deviceIdFromSubject('telemetry.dlq.abc')).toBeNull();
+    expect(deviceIdFromSubject('telemetry.raw')).toBeNull();
+  });
+});
+
+describe('parseTelemetryMessage', () => {
+  it('should parse a canonical ChirpStack message', () => {
+    const parsed = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({
+        deviceId: DEVICE_ID,
+        timestamp: '2026-03-01T11:59:00Z',
+        payload: { temperature: 21.5 },
+        metadata: { source: 'chirpstack', devEui: '0011223344556677' },
+      }),
+      { source: 'chirpstack', 'mqtt-topic': 'application/1/device/x/event/up' },
+      NOW
+    );
+
+    expect(parsed.deviceId).toBe(DEVICE_ID);
+    expect(parsed.payload).toEqual({ temperature: 21.5 });
+    expect(parsed.metadata.devEui).toBe('0011223344556677');
+    expect(parsed.timestamp.toISOString()).toBe('2026-03-01T11:59:00.000Z');
+    expect(parsed.source).toBe('chirpstack');
+    expect(parsed.mqttTopic).toBe('application/1/device/x/event/up');
+    expect(parsed.envelopeQuality).toBe('good');
+  });
+
+  it('should strip envelope keys from flat direct messages', () => {
+    const parsed = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({ deviceId: DEVICE_ID, correlationId: 'c-1', seq: 1, total: 3, temp: 20 }),
+      {},
+      NOW
+    );
+
+    expect(parsed.payload).toEqual({ temp: 20 });
+    expect(parsed.correlationId).toBe('c-1');
+    expect(parsed.sequenceNumber).toBe(1);
+    expect(parsed.totalChunks).toBe(3);
+  });
+
+  it('should read metrics from the data field when present', () => {
+    const parsed = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({ data: { humidity: 40 } }),
+      {},
+      NOW
+    );
+    expect(parsed.deviceId).toBe(DEVICE_ID);
+    expect(parsed.payload).toEqual({ humidity: 40 });
+  });
+
+  it('should fall back to the received-at header when no timestamp is given', () => {
+    const parsed = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({ temp: 20 }),
+      { 'received-at': '2026-03-01T11:00:00Z' },
+      NOW
+    );
+    expect(parsed.timestamp.toISOString()).toBe('2026-03-01T11:00:00.000Z');
+    expect(parsed.deviceTimestamp).toBeNull();
+    expect(parsed.envelopeQuality).toBe('good');
+  });
+
+  it('should flag unparseable and future timestamps as uncertain', () => {
+    const invalid = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({ timestamp: 'yesterday', temp: 20 }),
+      {},
+      NOW
+    );
+    expect(invalid.envelopeQuality).toBe('uncertain');
+    expect(invalid.timestamp).toEqual(NOW);
+
+    const future = parseTelemetryMessage(
+      `telemetry.raw.${DEVICE_ID}`,
+      encode({ timestamp: '2026-03-01T13:00:00Z', temp: 20 }),
+      {},
+      NOW
+    );
+    expect(future.envelopeQuality).toBe('uncertain');
+    expect(future.timestamp).toEqual(NOW);
+  });
+
+  it('should reject invalid JSON and non-object bodies', () => {
+    expect(() => parseTelemetryMessage('telemetry.raw.x', encode('{oops'), {})).toThrow(
+      TelemetryParseError
+    );
+    expect(() => parseTelemetryMessage('telemetry.raw.x', encode([1, 2]), {})).toThrow(
+      TelemetryParseError
+    );
+  });
+
+  it('should reject messages without a device identity', () => {
+    expect(() => parseTelemetryMessage('telemetry.other', encode({ temp: 1 }), {})).toThrow(
+      'Message does not identify a device'
+    );
+  });
+});
+
+describe('explodeMetrics', () => {
+  it('should create one reading per metric with typed values', () => {
+    const readings = explodeMetrics({ temp: 21.5, door: true, mode: 'auto', samples: [1, 2] });
+
+    expect(readings).toEqual([
+      { metricKey: 'temp', value: 21.5, valueText: null, valueJson: null, unit: null, quality: 'good' },
+      { metricKey: 'door', value: 1, valueText: null, valueJson: true, unit: null, quality: 'good' },
+      { metricKey: 'mode', value: null, valueText: 'auto', valueJson: null, unit: null, quality: 'good' },
+      { metricKey: 'samples', value: null, valueText: null, valueJson: [1, 2], unit: null, quality: 'good' },
+    ]);
+  });
+
+  it('should flatten nested objects into dotted keys', () => {
+    const readings = explodeMetrics({ env: { temperature: 20, humidity: 40 } });
+    expect(readings.map((r) => r.metricKey)).toEqual(['env.temperature', 'env.humidity']);
+  });
+
+  it('should honour structured readings with unit and quality', () => {
+    const [reading] = explodeMetrics({
+      pressure: { value: 101.3, unit: 'kPa', quality: 'uncertain' },
+    });
+    expect(reading).toMatchObject({
+      metricKey: 'pressure',
+      value: 101.3,
+      unit: 'kPa',
+      quality: 'uncertain',
+    });
+  });
+
+  it('should mark null values as bad', () => {
+    const [reading] = explodeMetrics({ temp: null });
+    expect(reading.quality).toBe('bad');
+    expect(reading.value).toBeNull();
+  });
+
+  it('should downgrade good readings to the envelope quality', () => {
+    const readings = explodeMetrics({ temp: 20, broken: null }, 'uncertain');
+    expect(readings.map((r) => r.quality)).toEqual(['uncertain', 'bad']);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Telemetry message parsing
+ *
+ * Normalizes the two shapes the IoT bridge publishes to `telemetry.raw.{deviceId}`:
+ * - Canonical messages ({ deviceId, timestamp, payload, metadata }) from adapters
+ * - Direct device JSON ({ deviceId?, timestamp?, data?, ...metrics })
+ *
+ * and explodes the payload into one reading per metric with a quality flag.
+ */
+
+/** Telemetry quality values (matches telemetry_quality enum) */
+export type TelemetryQuality = 'good' | 'uncertain' | 'bad';
+
+/** Keys on direct device messages that describe the message, not metrics */
+const ENVELOPE_KEYS = new Set(['deviceId', 'timestamp', 'correlationId', 'seq', 'total']);
+
+/** Device clocks ahead of the server by more than this are not trusted */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/** Maximum depth when flattening nested objects into dotted metric keys */
+const MAX_FLATTEN_DEPTH = 4;
+
+export interface ParsedTelemetryMessage {
+  deviceId: string;
+  /** Timestamp the readings apply to (device time, or received time as fallback) */
+  timestamp: Date;
+  /** Device-reported timestamp, if it was present and parseable */
+  deviceTimestamp: Date | null;
+  receivedAt: Date;
+  /** Quality applied to every reading because of the envelope (e.g. clock skew) */
+  envelopeQuality: TelemetryQuality;
+  /** The message exactly as published by the bridge */
+  body: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  source: string;
+  mqttTopic: string | null;
+  correlationId: string | null;
+  sequenceNumber: number | null;
+  totalChunks: number | null;
+}
+
+export interface MetricReading {
+  metricKey: string;
+  value: number | null;
+  valueText: string | null;
+  valueJson: unknown;
+  unit: string | null;
+  quality: TelemetryQuality;
+}
+
+export class TelemetryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TelemetryParseError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isQuality(value: unknown): value is TelemetryQuality {
+  return value === 'good' || value === 'uncertain' || value === 'bad';
+}
+
+/**
+ * Extracts the device ID from a `{prefix}.raw.{deviceId}` subject
+ */
+export function deviceIdFromSubject(subject: string): string | null {
+  const parts = subject.split('.');
+  const rawIndex = parts.lastIndexOf('raw');
+  if (rawIndex === -1 || rawIndex !== parts.length - 2) return null;
+  return parts[rawIndex + 1] || null;
+}
+
+/**
+ * Parses a JetStream message body into a normalized telemetry message
+ *
+ * @throws TelemetryParseError if the message can never be processed
+ */
+export function parseTelemetryMessage(
+  subject: string,
+  data: Uint8Array,
+  headers: Record<string, string>,
+  now: Date = new Date()
+): ParsedTelemetryMessage {
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new TelemetryParseError('Message body is not valid JSON');
+  }
+
+  if (!isRecord(body)) {
+    throw new TelemetryParseError('Message body must be a JSON object');
+  }
+
+  const deviceId =
+    (typeof body.deviceId === 'string' ? body.deviceId : null) ??
+    headers['device-id'] ??
+    deviceIdFromSubject(subject);
+  if (!deviceId) {
+    throw new TelemetryParseError('Message does not identify a device');
+  }
+
+  // Canonical messages carry readings under `payload`, direct ones are flat or under `data`
+  const isCanonical = isRecord(body.payload) && isRecord(body.metadata);
+  let payload: Record<string, unknown>;
+  let metadata: Record<string, unknown>;
+  if (isCanonical) {
+    payload = body.payload as Record<string, unknown>;
+    metadata = body.metadata as Record<string, unknown>;
+  } else if (isRecord(body.data)) {
+    payload = body.data;
+    metadata = {};
+  } else {
+    payload = Object.fromEntries(
+      Object.entries(body).filter(([key]) => !ENVELOPE_KEYS.has(key))
+    );
+    metadata = {};
+  }
+
+  const receivedAt = parseDate(headers['received-at']) ?? now;
+  const deviceTimestamp = parseDate(body.timestamp);
+
+  let envelopeQuality: TelemetryQuality = 'good';
+  let timestamp = deviceTimestamp ?? receivedAt;
+  if (body.timestamp !== undefined && !deviceTimestamp) {
+    // Present but unparseable: fall back to server time and flag it
+    envelopeQuality = 'uncertain';
+  } else if (deviceTimestamp && deviceTimestamp.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+    envelopeQuality = 'uncertain';
+    timestamp = receivedAt;
+  }
+
+  return {
+    deviceId,
+    timestamp,
+    deviceTimestamp,
+    receivedAt,
+    envelopeQuality,
+    body,
+    payload,
+    metadata,
+    source: headers['source'] ?? (typeof metadata.source === 'string' ? metadata.source : 'direct'),
+    mqttTopic: headers['mqtt-topic'] ?? null,
+    correlationId: typeof body.correlationId === 'string' ? body.correlationId : null,
+    sequenceNumber: typeof body.seq === 'number' ? body.seq : null,
+    totalChunks: typeof body.total === 'number' ? body.total : null,
+  };
+}
+
+/**
+ * Converts a single value into a reading, or null if it should be flattened further
+ */
+function toReading(metricKey: string, value: unknown): MetricReading | null {
+  const reading: MetricReading = {
+    metricKey,
+    value: null,
+    valueText: null,
+    valueJson: null,
+    unit: null,
+    quality: 'good',
+  };
+
+  if (value === null || value === undefined) {
+    return { ...reading, quality: 'bad' };
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { ...reading, value } : { ...reading, quality: 'bad' };
+  }
+  if (typeof value === 'boolean') {
+    return { ...reading, value: value ? 1 : 0, valueJson: value };
+  }
+  if (typeof value === 'string') {
+    return { ...reading, valueText: value };
+  }
+  if (Array.isArray(value)) {
+    return { ...reading, valueJson: value };
+  }
+  if (isRecord(value) && 'value' in value) {
+    // Structured reading: { value, unit?, quality? }
+    const inner = toReading(metricKey, value.value) ?? { ...reading, valueJson: value.value };
+    return {
+      ...inner,
+      unit: typeof value.unit === 'string' ? value.unit : null,
+      quality: isQuality(value.quality) ? value.quality : inner.quality,
+    };
+  }
+  return null;
+}
+
+/**
+ * Explodes a payload into per-metric readings
+ *
+ * Nested objects are flattened into dotted keys (`env.temperature`) up to a
+ * fixed depth; deeper structures are stored whole in value_json.
+ */
+export function explodeMetrics(
+  payload: Record<string, unknown>,
+  envelopeQuality: TelemetryQuality = 'good'
+): MetricReading[] {
+  const readings: MetricReading[] = [];
+
+  const visit = (obj: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, value] of Object.entries(obj)) {
+      const metricKey = prefix ? `${prefix}.${key}` : key;
+      const reading = toReading(metricKey, value);
+      if (reading) {
+        readings.push(reading);
+      } else if (depth < MAX_FLATTEN_DEPTH) {
+        visit(value as Record<string, unknown>, metricKey, depth + 1);
+      } else {
+        readings.push({
+          metricKey,
+          value: null,
+          valueText: null,
+          valueJson: value,
+          unit: null,
+          quality: 'good',
+        });
+      }
+    }
+  };
+
+  visit(payload, '', 1);
+
+  if (envelopeQuality === 'good') return readings;
+  return readings.map((reading) =>
+    reading.quality === 'good' ? { ...reading, quality: envelopeQuality } : reading
+  );
+}
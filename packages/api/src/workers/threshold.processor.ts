@@ -0,0 +1,44 @@
+/**
+ * Threshold rule processor
+ *
+ * Evaluates committed telemetry against the threshold rules of every asset
+ * the device monitors.
+ */
+
+import type { Logger } from '@argus/shared';
+import type { ThresholdEngineService } from '../services/threshold-engine.service.js';
+import type { TelemetryProcessor } from './telemetry-ingestion.worker.js';
+
+export function createThresholdProcessor(
+  engine: ThresholdEngineService,
+  logger: Logger
+): TelemetryProcessor {
+  return {
+    name: 'threshold-rules',
+    async process(telemetry) {
+      if (telemetry.assets.length === 0) return;
+
+      const events = await engine.evaluate(
+        telemetry.tenantId,
+        telemetry.assets,
+        telemetry.readings
+          .filter((reading) => reading.quality !== 'bad')
+          .map((reading) => ({ metricKey: reading.metricKey, value: reading.value })),
+        telemetry.timestamp
+      );
+
+      for (const event of events) {
+        logger.info(
+          {
+            ruleId: event.ruleId,
+            assetId: event.assetId,
+            eventType: event.eventType,
+            level: event.level,
+            value: event.value,
+          },
+          'Threshold event raised'
+        );
+      }
+    },
+  };
+}
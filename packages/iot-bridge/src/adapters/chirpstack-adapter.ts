@@ -15,6 +15,15 @@
  */
 
 import type { Logger } from 'pino';
+import {
+  AdapterError,
+  mqttPatternToRegex,
+  parseJsonPayload,
+  type CanonicalTelemetry,
+  type ProtocolAdapter,
+} from './protocol-adapter.js';
+
+export { mqttPatternToRegex, type CanonicalTelemetry };
 
 /**
  * ChirpStack uplink message structure (MQTT integration payload)
@@ -84,44 +93,23 @@ export interface ChirpStackUplink {
   time: string; // ISO 8601 timestamp
 }
 
-/**
- * Canonical telemetry format (internal platform format)
- */
-export interface CanonicalTelemetry {
-  deviceId: string; // ArgusIQ Device UUID
-  timestamp: string; // ISO 8601
-  payload: Record<string, unknown>;
-  metadata: {
-    source: 'chirpstack' | 'direct';
-    devEui?: string; // Original LoRa DevEUI
-    fPort?: number;
-    fCnt?: number;
-    rssi?: number;
-    snr?: number;
-    gatewayId?: string;
-    dataRate?: number;
-    frequency?: number;
-    [key: string]: unknown;
-  };
-}
-
 /**
  * Transforms a ChirpStack uplink message into canonical telemetry format
  *
  * @param uplink - ChirpStack uplink message from MQTT
- * @param deviceMapping - Map of DevEUI -> Device UUID (from cache)
+ * @param resolveDevice - DevEUI -> Device UUID lookup (from cache)
  * @param logger - Pino logger instance
  * @returns Canonical telemetry message, or null if device mapping not found
  */
 export function transformChirpStackUplink(
   uplink: ChirpStackUplink,
-  deviceMapping: Map<string, string>,
+  resolveDevice: (devEui: string) => string | null,
   logger: Logger
 ): CanonicalTelemetry | null {
   const devEui = uplink.deviceInfo.devEui;
 
   // 1. Look up device UUID from DevEUI
-  const deviceId = deviceMapping.get(devEui);
+  const deviceId = resolveDevice(devEui);
   if (!deviceId) {
     logger.warn(
       {
@@ -190,28 +178,6 @@ export function transformChirpStackUplink(
   return canonical;
 }
 
-/**
- * Converts MQTT wildcard pattern to RegExp
- *
- * MQTT wildcards:
- * - + matches single level (e.g., "application/+/device" matches "application/abc/device")
- * - # matches multiple levels (e.g., "application/#" matches "application/abc/device/xyz")
- *
- * @param pattern - MQTT topic pattern with wildcards
- * @returns RegExp that matches the pattern
- */
-export function mqttPatternToRegex(pattern: string): RegExp {
-  // Escape special regex chars except + and #
-  let regexPattern = pattern
-    .replace(/[.?*()[\]{}|\\^$]/g, '\\$&')
-    // Replace + with single-level match (anything except /)
-    .replace(/\+/g, '[^/]+')
-    // Replace # with multi-level match (anything including /)
-    .replace(/#/g, '.+');
-
-  return new RegExp(`^${regexPattern}$`);
-}
-
 /**
  * Validates if a topic matches a ChirpStack uplink pattern
  *
@@ -259,3 +225,45 @@ export function extractApplicationIdFromTopic(topic: string): string | null {
 
   return null;
 }
+
+/**
+ * Creates the ChirpStack protocol adapter
+ *
+ * @param topicPattern - ChirpStack MQTT topic pattern (with wildcards)
+ */
+export function createChirpStackAdapter(topicPattern: string): ProtocolAdapter {
+  return {
+    name: 'chirpstack',
+    topicPatterns: [topicPattern],
+    decode(message, context) {
+      const uplink = parseJsonPayload('chirpstack', message) as ChirpStackUplink;
+      if (typeof uplink?.deviceInfo?.devEui !== 'string') {
+        throw new AdapterError('chirpstack', 'Uplink has no deviceInfo.devEui');
+      }
+
+      const canonical = transformChirpStackUplink(
+        uplink,
+        (devEui) => context.deviceId ?? context.resolveDevice(devEui),
+        context.logger
+      );
+      if (!canonical) {
+        return { telemetry: [], unmapped: [uplink.deviceInfo.devEui] };
+      }
+
+      return {
+        telemetry: [
+          {
+            deviceId: canonical.deviceId,
+            body: canonical,
+            source: 'chirpstack',
+            headers: {
+              'dev-eui': canonical.metadata.devEui || '',
+              'f-port': canonical.metadata.fPort?.toString() || '',
+            },
+          },
+        ],
+        unmapped: [],
+      };
+    },
+  };
+}
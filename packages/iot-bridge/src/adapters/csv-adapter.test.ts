@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the CSV / plain-text adapter
+ * Uses the payloads in __fixtures__/csv.json
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { createCsvAdapter, detectDelimiter, parseCsvPayload } from './csv-adapter.js';
+import type { AdapterContext } from './protocol-adapter.js';
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+const fixtures = JSON.parse(
+  readFileSync(new URL('./__fixtures__/csv.json', import.meta.url), 'utf-8')
+) as Record<string, string>;
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const context: AdapterContext = {
+  deviceId: DEVICE_ID,
+  resolveDevice: () => null,
+  receivedAt: new Date('2026-03-01T12:30:00Z'),
+  logger: {} as Logger,
+};
+
+function message(name: string): MqttMessage {
+  return {
+    topic: `devices/${DEVICE_ID}/telemetry`,
+    payload: Buffer.from(fixtures[name]),
+    qos: 1,
+    retain: false,
+  };
+}
+
+describe('parseCsvPayload', () => {
+  it('should parse a header line and rows, coercing values', () => {
+    expect(parseCsvPayload(fixtures.headerRows)).toEqual([
+      { timestamp: '2026-03-01T12:00:00Z', temperature: 21.5, humidity: 40, door: 'closed' },
+      { timestamp: '2026-03-01T12:05:00Z', temperature: 21.7, humidity: null, door: 'open' },
+    ]);
+    expect(parseCsvPayload(fixtures.epochRow)).toEqual([{ ts: 1772366400, level: 0.82, alarm: false }]);
+  });
+
+  it('should parse key/value pairs and single values', () => {
+    expect(parseCsvPayload(fixtures.keyValue)).toEqual([{ temperature: 21.5, humidity: 40, status: 'ok' }]);
+    expect(parseCsvPayload(fixtures.singleValue)).toEqual([{ value: -3.25 }]);
+  });
+
+  it('should handle quoted fields', () => {
+    expect(parseCsvPayload(fixtures.quoted)).toEqual([{ name: 'Pump "A"', note: 'a, b' }]);
+  });
+
+  it('should reject empty payloads and rows that do not match the header', () => {
+    expect(() => parseCsvPayload('\n\n')).toThrow('csv: Payload is empty');
+    expect(() => parseCsvPayload(fixtures.mismatched)).toThrow('Row 1 has 2 fields, header has 3');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should pick the most frequent delimiter', () => {
+    expect(detectDelimiter('a;b;c,d')).toBe(';');
+    expect(detectDelimiter('a\tb')).toBe('\t');
+    expect(detectDelimiter('21.5')).toBe(',');
+  });
+});
+
+describe('CSV adapter', () => {
+  const adapter = createCsvAdapter();
+
+  it('should publish one message per row with its timestamp', () => {
+    const result = adapter.decode(message('headerRows'), context);
+
+    expect(result.telemetry.map((t) => t.body)).toEqual([
+      {
+        deviceId: DEVICE_ID,
+        timestamp: '2026-03-01T12:00:00Z',
+        payload: { temperature: 21.5, humidity: 40, door: 'closed' },
+        metadata: { source: 'csv' },
+      },
+      {
+        deviceId: DEVICE_ID,
+        timestamp: '2026-03-01T12:05:00Z',
+        payload: { temperature: 21.7, humidity: null, door: 'open' },
+        metadata: { source: 'csv' },
+      },
+    ]);
+    expect(result.telemetry[0].source).toBe('csv');
+  });
+
+  it('should convert epoch timestamps and default to the receive time', () => {
+    const [epoch] = adapter.decode(message('epochRow'), context).telemetry;
+    expect(epoch.body).toMatchObject({ timestamp: '2026-03-01T12:00:00.000Z', payload: { level: 0.82, alarm: false } });
+
+    const [single] = adapter.decode(message('singleValue'), context).telemetry;
+    expect(single.body).toMatchObject({ timestamp: '2026-03-01T12:30:00.000Z', payload: { value: -3.25 } });
+  });
+
+  it('should only accept direct device topics', () => {
+    expect(() => adapter.decode(message('singleValue'), { ...context, deviceId: undefined })).toThrow(
+      'csv: Only direct device topics are supported'
+    );
+  });
+});
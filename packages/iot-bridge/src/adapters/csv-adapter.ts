@@ -0,0 +1,187 @@
+/**
+ * CSV / Plain-Text Protocol Adapter
+ *
+ * Transforms text payloads from simple devices on direct device topics
+ * (devices/{deviceId}/telemetry) into canonical telemetry format.
+ *
+ * Supported formats (delimiter auto-detected: comma, semicolon or tab):
+ * - Header line followed by one or more rows, one message per row:
+ *     timestamp,temperature,humidity
+ *     2026-03-01T12:00:00Z,21.5,40
+ * - Key/value pairs on one line:
+ *     temperature=21.5;humidity=40
+ * - A single value:
+ *     21.5
+ *
+ * A `timestamp`, `time` or `ts` column (ISO 8601 or epoch seconds/milliseconds)
+ * becomes the message timestamp; otherwise the receive time is used.
+ */
+
+import { AdapterError, type AdaptedTelemetry, type ProtocolAdapter } from './protocol-adapter.js';
+
+const DELIMITERS = [',', ';', '\t'] as const;
+const TIMESTAMP_COLUMNS = new Set(['timestamp', 'time', 'ts']);
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Picks the delimiter occurring most often in a line (comma if none)
+ */
+export function detectDelimiter(line: string): string {
+  let best: string = DELIMITERS[0];
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = line.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Splits a line into fields; fields may be double-quoted ("" escapes a quote)
+ */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(quoted ? field : field.trim());
+
+  return fields;
+}
+
+/**
+ * Converts a text field to a number, boolean or null where possible
+ */
+export function coerceValue(text: string): unknown {
+  if (text === '') return null;
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+
+  const lower = text.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  return text;
+}
+
+/**
+ * Converts a timestamp column value to ISO 8601
+ *
+ * Numbers below 1e12 are epoch seconds, others epoch milliseconds; other
+ * text is passed through for the ingestion worker to parse (and flag).
+ */
+function toTimestamp(value: unknown): string {
+  if (typeof value === 'number') {
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * Parses a CSV / plain-text payload into one record per row
+ *
+ * @throws AdapterError if the payload is empty or malformed
+ */
+export function parseCsvPayload(text: string): Array<Record<string, unknown>> {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  if (lines.length === 0) {
+    throw new AdapterError('csv', 'Payload is empty');
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const header = splitCsvLine(lines[0], delimiter);
+
+  if (lines.length === 1) {
+    if (header.length === 1 && !header[0].includes('=')) {
+      return [{ value: coerceValue(header[0]) }];
+    }
+    const record: Record<string, unknown> = {};
+    for (const pair of header) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        throw new AdapterError('csv', `Expected key=value pairs or a header line, got "${pair}"`);
+      }
+      record[pair.slice(0, separator).trim()] = coerceValue(pair.slice(separator + 1).trim());
+    }
+    return [record];
+  }
+
+  if (header.some((column) => column === '')) {
+    throw new AdapterError('csv', 'Header line has an empty column name');
+  }
+  return lines.slice(1).map((line, index) => {
+    const fields = splitCsvLine(line, delimiter);
+    if (fields.length !== header.length) {
+      throw new AdapterError(
+        'csv',
+        `Row ${index + 1} has ${fields.length} fields, header has ${header.length}`
+      );
+    }
+    return Object.fromEntries(header.map((column, i) => [column, coerceValue(fields[i])]));
+  });
+}
+
+/**
+ * Creates the CSV / plain-text protocol adapter
+ */
+export function createCsvAdapter(): ProtocolAdapter {
+  return {
+    name: 'csv',
+    topicPatterns: [],
+    decode(message, context) {
+      if (!context.deviceId) {
+        throw new AdapterError('csv', 'Only direct device topics are supported');
+      }
+      const deviceId = context.deviceId;
+
+      const telemetry = parseCsvPayload(message.payload.toString('utf-8')).map(
+        (record): AdaptedTelemetry => {
+          const timestampColumn = Object.keys(record).find((key) =>
+            TIMESTAMP_COLUMNS.has(key.toLowerCase())
+          );
+          const timestamp =
+            timestampColumn && record[timestampColumn] !== null
+              ? toTimestamp(record[timestampColumn])
+              : context.receivedAt.toISOString();
+          const payload = { ...record };
+          if (timestampColumn) {
+            delete payload[timestampColumn];
+          }
+
+          return {
+            deviceId,
+            body: { deviceId, timestamp, payload, metadata: { source: 'csv' } },
+            source: 'csv',
+          };
+        }
+      );
+
+      return { telemetry, unmapped: [] };
+    },
+  };
+}
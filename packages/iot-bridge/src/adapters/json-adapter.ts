@@ -0,0 +1,50 @@
+/**
+ * JSON Protocol Adapter (default)
+ *
+ * Passes JSON messages from direct device topics (devices/{deviceId}/telemetry)
+ * through unchanged, except for adding the device ID if it is missing.
+ * Used by cellular devices, BLE gateways and every device type whose
+ * protocol adapter is 'json'.
+ */
+
+import { validateMessage } from '../validator.js';
+import { AdapterError, parseJsonPayload, type ProtocolAdapter } from './protocol-adapter.js';
+
+export interface JsonAdapterOptions {
+  /** Validate messages against the base telemetry schema */
+  validate?: boolean;
+}
+
+/**
+ * Creates the JSON pass-through protocol adapter
+ */
+export function createJsonAdapter(options: JsonAdapterOptions = {}): ProtocolAdapter {
+  return {
+    name: 'json',
+    topicPatterns: [],
+    decode(message, context) {
+      if (!context.deviceId) {
+        throw new AdapterError('json', 'Only direct device topics are supported');
+      }
+
+      const payload = parseJsonPayload('json', message);
+      if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+        throw new AdapterError('json', 'Payload must be a JSON object');
+      }
+      if (options.validate && !validateMessage(payload, context.logger)) {
+        throw new AdapterError('json', 'Invalid telemetry message format');
+      }
+
+      // Enrich message with device ID if not present
+      const body = payload as Record<string, unknown>;
+      if (!('deviceId' in body)) {
+        body.deviceId = context.deviceId;
+      }
+
+      return {
+        telemetry: [{ deviceId: context.deviceId, body, source: 'direct' }],
+        unmapped: [],
+      };
+    },
+  };
+}
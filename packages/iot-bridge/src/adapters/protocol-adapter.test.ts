@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the protocol adapter registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ProtocolAdapterRegistry, mqttPatternToRegex, type ProtocolAdapter } from './protocol-adapter.js';
+import { createAdapterRegistry } from './registry.js';
+import type { Config } from '../config.js';
+
+function adapter(name: string, topicPatterns: string[] = []): ProtocolAdapter {
+  return { name, topicPatterns, decode: () => ({ telemetry: [], unmapped: [] }) };
+}
+
+describe('mqttPatternToRegex', () => {
+  it('should translate single- and multi-level wildcards', () => {
+    expect(mqttPatternToRegex('v3/+/devices/+/up').test('v3/app@tenant/devices/dev-1/up')).toBe(true);
+    expect(mqttPatternToRegex('v3/+/devices/+/up').test('v3/app/devices/a/b/up')).toBe(false);
+    expect(mqttPatternToRegex('spBv1.0/#').test('spBv1.0/Plant1/NDATA/Edge1')).toBe(true);
+    expect(mqttPatternToRegex('spBv1.0/#').test('spBv1x0/Plant1/NDATA/Edge1')).toBe(false);
+  });
+});
+
+describe('ProtocolAdapterRegistry', () => {
+  it('should look up adapters by name and topic', () => {
+    const registry = new ProtocolAdapterRegistry()
+      .register(adapter('json'))
+      .register(adapter('ttn-v3', ['v3/+/devices/+/up']))
+      .register(adapter('sparkplug-b', ['spBv1.0/#']));
+
+    expect(registry.get('json')?.name).toBe('json');
+    expect(registry.get('modbus')).toBeNull();
+    expect(registry.matchTopic('spBv1.0/Plant1/DDATA/Edge1/Pump7')?.name).toBe('sparkplug-b');
+    expect(registry.matchTopic('devices/abc/telemetry')).toBeNull();
+    expect(registry.getTopicPatterns()).toEqual(['v3/+/devices/+/up', 'spBv1.0/#']);
+    expect(registry.list()).toEqual(['json', 'ttn-v3', 'sparkplug-b']);
+  });
+
+  it('should reject duplicate adapter names', () => {
+    const registry = new ProtocolAdapterRegistry().register(adapter('csv'));
+    expect(() => registry.register(adapter('csv'))).toThrow('Protocol adapter "csv" is already registered');
+  });
+});
+
+describe('createAdapterRegistry', () => {
+  const config = {
+    processing: { validateMessages: false },
+    chirpstack: { enabled: true, topicPattern: 'application/+/device/+/event/up' },
+    adapters: {
+      enabled: ['json', 'chirpstack', 'ttn-v3', 'sparkplug-b', 'csv'],
+      ttnTopicPattern: 'v3/+/devices/+/up',
+    },
+  } as Config;
+
+  it('should register the enabled built-in adapters', () => {
+    expect(createAdapterRegistry(config).list()).toEqual(['json', 'chirpstack', 'ttn-v3', 'sparkplug-b', 'csv']);
+
+    const registry = createAdapterRegistry({
+      ...config,
+      chirpstack: { ...config.chirpstack, enabled: false },
+      adapters: { ...config.adapters, enabled: ['json', 'chirpstack', 'csv'] },
+    });
+    expect(registry.list()).toEqual(['json', 'csv']);
+    expect(registry.getTopicPatterns()).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Protocol Adapter Registry
+ *
+ * Protocol adapters turn vendor-specific MQTT messages into the telemetry the
+ * bridge publishes to NATS. Each adapter has a name (matching the
+ * `device_types.protocol_adapter` column) and either:
+ * - claims MQTT topic patterns (ChirpStack, The Things Stack, Sparkplug B), or
+ * - decodes payloads on direct device topics (`devices/{deviceId}/telemetry`)
+ *   for devices whose type selects it (json, csv)
+ */
+
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+/**
+ * Canonical telemetry format (internal platform format)
+ */
+export interface CanonicalTelemetry {
+  deviceId: string; // ArgusIQ Device UUID
+  timestamp: string; // ISO 8601
+  payload: Record<string, unknown>;
+  metadata: {
+    source: string; // Adapter that produced the message (chirpstack, ttn, sparkplug, csv)
+    devEui?: string; // Original LoRa DevEUI
+    fPort?: number;
+    fCnt?: number;
+    rssi?: number;
+    snr?: number;
+    gatewayId?: string;
+    dataRate?: number;
+    frequency?: number;
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * A message ready to be published to `{prefix}.raw.{deviceId}`
+ */
+export interface AdaptedTelemetry {
+  deviceId: string;
+  /** Canonical telemetry, or the device's own JSON for pass-through adapters */
+  body: CanonicalTelemetry | Record<string, unknown>;
+  /** Value of the `source` header */
+  source: string;
+  /** Additional NATS headers (e.g. dev-eui, f-port) */
+  headers?: Record<string, string>;
+}
+
+export interface AdapterContext {
+  /** Device UUID from a direct device topic, if the message arrived on one */
+  deviceId?: string;
+  /** Resolves a vendor identifier (DevEUI, Sparkplug path) to a device UUID */
+  resolveDevice(identifier: string): string | null;
+  /** When the bridge received the message (fallback timestamp) */
+  receivedAt: Date;
+  logger: Logger;
+}
+
+export interface AdapterResult {
+  telemetry: AdaptedTelemetry[];
+  /** Vendor identifiers that are not provisioned in ArgusIQ */
+  unmapped: string[];
+}
+
+export interface ProtocolAdapter {
+  /** Adapter name, as stored in device_types.protocol_adapter */
+  readonly name: string;
+  /** MQTT topic patterns claimed by this adapter (empty: direct topics only) */
+  readonly topicPatterns: string[];
+  /**
+   * Decodes one MQTT message
+   *
+   * @throws AdapterError if the payload is malformed
+   */
+  decode(message: MqttMessage, context: AdapterContext): AdapterResult;
+}
+
+/**
+ * Thrown by adapters for payloads that can never be decoded
+ */
+export class AdapterError extends Error {
+  constructor(adapter: string, message: string) {
+    super(`${adapter}: ${message}`);
+    this.name = 'AdapterError';
+  }
+}
+
+/**
+ * Parses a UTF-8 JSON MQTT payload
+ *
+ * @throws AdapterError if the payload is not valid JSON
+ */
+export function parseJsonPayload(adapter: string, message: MqttMessage): unknown {
+  try {
+    return JSON.parse(message.payload.toString('utf-8'));
+  } catch (error) {
+    throw new AdapterError(
+      adapter,
+      `Payload is not valid JSON (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+}
+
+/**
+ * Converts MQTT wildcard pattern to RegExp
+ *
+ * MQTT wildcards:
+ * - + matches single level (e.g., "application/+/device" matches "application/abc/device")
+ * - # matches multiple levels (e.g., "application/#" matches "application/abc/device/xyz")
+ *
+ * @param pattern - MQTT topic pattern with wildcards
+ * @returns RegExp that matches the pattern
+ */
+export function mqttPatternToRegex(pattern: string): RegExp {
+  // Escape special regex chars except + and #
+  const regexPattern = pattern
+    .replace(/[.?*()[\]{}|\\^$]/g, '\\$&')
+    // Replace + with single-level match (anything except /)
+    .replace(/\+/g, '[^/]+')
+    // Replace # with multi-level match (anything including /)
+    .replace(/#/g, '.+');
+
+  return new RegExp(`^${regexPattern}$`);
+}
+
+/**
+ * Registry of protocol adapters by name and topic pattern
+ */
+export class ProtocolAdapterRegistry {
+  private adapters = new Map<string, ProtocolAdapter>();
+  private topicMatchers: Array<{ regex: RegExp; adapter: ProtocolAdapter }> = [];
+
+  /**
+   * Registers an adapter; topic patterns are matched in registration order
+   */
+  register(adapter: ProtocolAdapter): this {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`Protocol adapter "${adapter.name}" is already registered`);
+    }
+    this.adapters.set(adapter.name, adapter);
+    for (const pattern of adapter.topicPatterns) {
+      this.topicMatchers.push({ regex: mqttPatternToRegex(pattern), adapter });
+    }
+    return this;
+  }
+
+  /**
+   * Looks up an adapter by name (device_types.protocol_adapter)
+   */
+  get(name: string): ProtocolAdapter | null {
+    return this.adapters.get(name) ?? null;
+  }
+
+  /**
+   * Finds the adapter claiming a topic
+   */
+  matchTopic(topic: string): ProtocolAdapter | null {
+    return this.topicMatchers.find((matcher) => matcher.regex.test(topic))?.adapter ?? null;
+  }
+
+  /**
+   * Topic patterns to subscribe to for all registered adapters
+   */
+  getTopicPatterns(): string[] {
+    return [...new Set([...this.adapters.values()].flatMap((adapter) => adapter.topicPatterns))];
+  }
+
+  /**
+   * Names of registered adapters
+   */
+  list(): string[] {
+    return [...this.adapters.keys()];
+  }
+}
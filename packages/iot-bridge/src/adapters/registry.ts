@@ -0,0 +1,42 @@
+/**
+ * Default Protocol Adapter Registry
+ *
+ * Registers the built-in adapters enabled in the configuration.
+ */
+
+import type { Config } from '../config.js';
+import { ProtocolAdapterRegistry, type ProtocolAdapter } from './protocol-adapter.js';
+import { createJsonAdapter } from './json-adapter.js';
+import { createChirpStackAdapter } from './chirpstack-adapter.js';
+import { createTtnAdapter } from './ttn-adapter.js';
+import { SparkplugAdapter } from './sparkplug-adapter.js';
+import { createCsvAdapter } from './csv-adapter.js';
+
+/**
+ * Names of the built-in adapters (values of device_types.protocol_adapter)
+ */
+export const BUILT_IN_ADAPTERS = ['json', 'chirpstack', 'ttn-v3', 'sparkplug-b', 'csv'] as const;
+
+/**
+ * Creates a registry with the built-in adapters enabled in the configuration
+ */
+export function createAdapterRegistry(config: Config): ProtocolAdapterRegistry {
+  const factories: Record<(typeof BUILT_IN_ADAPTERS)[number], () => ProtocolAdapter | null> = {
+    json: () => createJsonAdapter({ validate: config.processing.validateMessages }),
+    chirpstack: () =>
+      config.chirpstack.enabled ? createChirpStackAdapter(config.chirpstack.topicPattern) : null,
+    'ttn-v3': () => createTtnAdapter(config.adapters.ttnTopicPattern),
+    'sparkplug-b': () => new SparkplugAdapter(),
+    csv: () => createCsvAdapter(),
+  };
+
+  const registry = new ProtocolAdapterRegistry();
+  for (const name of BUILT_IN_ADAPTERS) {
+    if (!config.adapters.enabled.includes(name)) continue;
+    const adapter = factories[name]();
+    if (adapter) {
+      registry.register(adapter);
+    }
+  }
+  return registry;
+}
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the Sparkplug B adapter
+ * Uses protobuf payloads from __fixtures__/sparkplug-b.json
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SparkplugAdapter, parseSparkplugTopic } from './sparkplug-adapter.js';
+import { convertMetricValue, decodeSparkplugPayload, SparkplugDataType } from './sparkplug-b.js';
+import type { AdapterContext, CanonicalTelemetry } from './protocol-adapter.js';
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+const fixtures = JSON.parse(
+  readFileSync(new URL('./__fixtures__/sparkplug-b.json', import.meta.url), 'utf-8')
+) as Record<string, { topic: string; payload: string }>;
+
+const NODE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const PUMP_ID = '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f';
+
+function message(name: string): MqttMessage {
+  const fixture = fixtures[name];
+  return { topic: fixture.topic, payload: Buffer.from(fixture.payload, 'base64'), qos: 1, retain: false };
+}
+
+function bodies(result: { telemetry: Array<{ body: unknown }> }) {
+  return result.telemetry.map((t) => t.body as CanonicalTelemetry);
+}
+
+describe('parseSparkplugTopic', () => {
+  it('should parse node, device and host topics', () => {
+    expect(parseSparkplugTopic('spBv1.0/Plant1/DDATA/Edge1/Pump7')).toEqual({
+      groupId: 'Plant1',
+      messageType: 'DDATA',
+      edgeNodeId: 'Edge1',
+      deviceId: 'Pump7',
+    });
+    expect(parseSparkplugTopic('spBv1.0/Plant1/NBIRTH/Edge1')?.deviceId).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/STATE/scada-host')?.messageType).toBe('STATE');
+    expect(parseSparkplugTopic('spBv1.0/Plant1/NOPE/Edge1')).toBeNull();
+    expect(parseSparkplugTopic('spAv1.0/Plant1/NDATA/Edge1')).toBeNull();
+  });
+});
+
+describe('decodeSparkplugPayload', () => {
+  it('should decode the payload header and metrics', () => {
+    const payload = decodeSparkplugPayload(message('nbirth').payload);
+
+    expect(payload.timestamp).toBe(Date.parse('2026-03-01T12:00:00Z'));
+    expect(payload.seq).toBe(0);
+    expect(payload.metrics.map((m) => [m.name, m.alias, m.datatype])).toEqual([
+      ['bdSeq', null, SparkplugDataType.UInt64],
+      ['Node Control/Rebirth', 1, SparkplugDataType.Boolean],
+      ['Supply Voltage', 2, SparkplugDataType.Double],
+      ['Uptime', 3, SparkplugDataType.UInt64],
+    ]);
+    expect(payload.metrics[2].value).toBe(24.1);
+  });
+
+  it('should reject truncated payloads', () => {
+    const truncated = message('dbirth').payload.subarray(0, 20);
+    expect(() => decodeSparkplugPayload(truncated)).toThrow('Truncated');
+  });
+});
+
+describe('convertMetricValue', () => {
+  it('should convert values by data type', () => {
+    expect(convertMetricValue(251, SparkplugDataType.Int8)).toBe(-5);
+    expect(convertMetricValue(0xfffffffb, SparkplugDataType.Int8)).toBe(-5);
+    expect(convertMetricValue(0xfffffffe, SparkplugDataType.Int32)).toBe(-2);
+    expect(convertMetricValue(18446744073709551611n, SparkplugDataType.Int64)).toBe(-5);
+    expect(convertMetricValue(18446744073709551611n, SparkplugDataType.UInt64)).toBe('18446744073709551611');
+    expect(convertMetricValue(1772366400000n, SparkplugDataType.DateTime)).toBe('2026-03-01T12:00:00.000Z');
+    expect(convertMetricValue(new Uint8Array([1, 2]), SparkplugDataType.Bytes)).toBe('AQI=');
+    expect(convertMetricValue(5, SparkplugDataType.UInt32, true)).toBeNull();
+    expect(convertMetricValue(null, SparkplugDataType.DataSet)).toBeUndefined();
+  });
+});
+
+describe('SparkplugAdapter', () => {
+  let adapter: SparkplugAdapter;
+  let context: AdapterContext;
+  let warn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    adapter = new SparkplugAdapter();
+    warn = vi.fn();
+    const devices: Record<string, string> = { 'plant1/edge1': NODE_ID, 'plant1/edge1/pump7': PUMP_ID };
+    context = {
+      resolveDevice: (identifier) => devices[identifier.toLowerCase()] ?? null,
+      receivedAt: new Date('2026-03-01T12:10:00Z'),
+      logger: { warn, debug: vi.fn() } as unknown as Logger,
+    };
+  });
+
+  it('should publish birth certificate values, skipping bdSeq and unsupported types', () => {
+    const node = adapter.decode(message('nbirth'), context);
+    expect(bodies(node)).toEqual([
+      {
+        deviceId: NODE_ID,
+        timestamp: '2026-03-01T12:00:00.000Z',
+        payload: { 'Node Control/Rebirth': false, 'Supply Voltage': 24.1, Uptime: 86400 },
+        metadata: expect.objectContaining({ source: 'sparkplug', groupId: 'Plant1', messageType: 'NBIRTH', seq: 0 }),
+      },
+    ]);
+
+    const device = adapter.decode(message('dbirth'), context);
+    expect(bodies(device)[0]).toMatchObject({
+      deviceId: PUMP_ID,
+      payload: { Temperature: 21.5, Offset: -5, Counter: -5, Running: true, Mode: 'auto' },
+      metadata: { sparkplugDeviceId: 'Pump7' },
+    });
+    expect(bodies(device)[0].payload).not.toHaveProperty('Table');
+    expect(adapter.getSessionCount()).toBe(1);
+  });
+
+  it('should resolve DATA aliases from the birth certificates', () => {
+    adapter.decode(message('nbirth'), context);
+    adapter.decode(message('dbirth'), context);
+
+    const result = adapter.decode(message('ddata'), context);
+
+    // The historical metric is published with its own timestamp
+    expect(bodies(result).map((b) => [b.timestamp, b.payload])).toEqual([
+      ['2026-03-01T12:00:30.000Z', { Mode: 'manual' }],
+      ['2026-03-01T12:01:00.000Z', { Temperature: 22.25, Counter: -6, Running: null }],
+    ]);
+    expect(result.telemetry[0].headers).toEqual({ 'sparkplug-type': 'DDATA' });
+    // Alias 99 was never born; the transient metric is not stored
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({ aliases: [99] }),
+      expect.stringContaining('without a birth certificate')
+    );
+
+    const node = adapter.decode(message('ndata'), context);
+    expect(bodies(node)[0].payload).toEqual({ 'Supply Voltage': 23.9 });
+  });
+
+  it('should forget aliases when the edge node dies', () => {
+    adapter.decode(message('nbirth'), context);
+    expect(adapter.decode(message('ndeath'), context)).toEqual({ telemetry: [], unmapped: [] });
+    expect(adapter.getSessionCount()).toBe(0);
+
+    const result = adapter.decode(message('ndata'), context);
+    expect(result.telemetry).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({ aliases: [2], hasBirth: false }),
+      expect.any(String)
+    );
+  });
+
+  it('should report unprovisioned edge nodes and devices', () => {
+    context.resolveDevice = () => null;
+
+    const result = adapter.decode(message('dbirth'), context);
+
+    expect(result).toEqual({ telemetry: [], unmapped: ['Plant1/Edge1/Pump7'] });
+  });
+
+  it('should reject payloads that are not Sparkplug B protobuf', () => {
+    const invalid = { ...message('ndata'), payload: Buffer.from('{"temperature": 21.5}') };
+    expect(() => adapter.decode(invalid, context)).toThrow('sparkplug-b: Invalid protobuf payload');
+  });
+});
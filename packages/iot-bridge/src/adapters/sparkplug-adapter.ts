@@ -0,0 +1,297 @@
+/**
+ * Sparkplug B Protocol Adapter
+ *
+ * Transforms Sparkplug B messages into canonical telemetry format.
+ *
+ * Topic namespace: spBv1.0/{group_id}/{message_type}/{edge_node_id}[/{device_id}]
+ *
+ * - NBIRTH/DBIRTH: birth certificates listing every metric with its name,
+ *   alias and data type; their values are published as telemetry
+ * - NDATA/DDATA: metric changes, usually referenced by alias only
+ * - NDEATH: ends the edge node session (its aliases are forgotten)
+ * - DDEATH, NCMD, DCMD, STATE: ignored
+ *
+ * Edge nodes and devices are mapped to ArgusIQ devices by their Sparkplug
+ * path ("{group_id}/{edge_node_id}" or "{group_id}/{edge_node_id}/{device_id}")
+ * stored as the device's logical identifier.
+ */
+
+import {
+  AdapterError,
+  type AdaptedTelemetry,
+  type AdapterContext,
+  type AdapterResult,
+  type CanonicalTelemetry,
+  type ProtocolAdapter,
+} from './protocol-adapter.js';
+import type { MqttMessage } from '../mqtt-client.js';
+import {
+  convertMetricValue,
+  decodeSparkplugPayload,
+  type SparkplugMetric,
+  type SparkplugPayload,
+} from './sparkplug-b.js';
+
+export const SPARKPLUG_NAMESPACE = 'spBv1.0';
+
+export type SparkplugMessageType =
+  | 'NBIRTH'
+  | 'NDEATH'
+  | 'DBIRTH'
+  | 'DDEATH'
+  | 'NDATA'
+  | 'DDATA'
+  | 'NCMD'
+  | 'DCMD'
+  | 'STATE';
+
+export interface SparkplugTopic {
+  groupId: string;
+  messageType: SparkplugMessageType;
+  edgeNodeId: string;
+  deviceId: string | null;
+}
+
+interface MetricDefinition {
+  name: string;
+  datatype: number | null;
+}
+
+/**
+ * Metric definitions from the birth certificates of one edge node session
+ */
+interface EdgeNodeSession {
+  /** Aliases are unique across the edge node and its devices */
+  aliases: Map<number, MetricDefinition>;
+  /** Data types by metric name, per node/device path */
+  datatypes: Map<string, Map<string, number | null>>;
+}
+
+const MESSAGE_TYPES = new Set<string>([
+  'NBIRTH',
+  'NDEATH',
+  'DBIRTH',
+  'DDEATH',
+  'NDATA',
+  'DDATA',
+  'NCMD',
+  'DCMD',
+  'STATE',
+]);
+
+/** Session bookkeeping metric, not telemetry */
+const BD_SEQ_METRIC = 'bdSeq';
+
+/**
+ * Parses a Sparkplug B topic
+ *
+ * @returns null if the topic is not in the Sparkplug B namespace
+ */
+export function parseSparkplugTopic(topic: string): SparkplugTopic | null {
+  const [namespace, groupId, messageType, edgeNodeId, deviceId, ...rest] = topic.split('/');
+  if (namespace !== SPARKPLUG_NAMESPACE || rest.length > 0) {
+    return null;
+  }
+  if (groupId === 'STATE') {
+    // spBv1.0/STATE/{host_id}: primary host application state
+    return { groupId, messageType: 'STATE', edgeNodeId: messageType ?? '', deviceId: null };
+  }
+  if (!groupId || !edgeNodeId || !MESSAGE_TYPES.has(messageType)) {
+    return null;
+  }
+  return {
+    groupId,
+    messageType: messageType as SparkplugMessageType,
+    edgeNodeId,
+    deviceId: deviceId ?? null,
+  };
+}
+
+/**
+ * Sparkplug path used as the logical identifier of an edge node or device
+ */
+export function sparkplugPath(topic: SparkplugTopic): string {
+  const path = `${topic.groupId}/${topic.edgeNodeId}`;
+  return topic.deviceId ? `${path}/${topic.deviceId}` : path;
+}
+
+/**
+ * Sparkplug B adapter
+ *
+ * Stateful: keeps the metric aliases announced in birth certificates so that
+ * DATA messages, which reference metrics by alias only, can be resolved.
+ */
+export class SparkplugAdapter implements ProtocolAdapter {
+  readonly name = 'sparkplug-b';
+  readonly topicPatterns = [`${SPARKPLUG_NAMESPACE}/#`];
+
+  private sessions = new Map<string, EdgeNodeSession>();
+
+  decode(message: MqttMessage, context: AdapterContext): AdapterResult {
+    const topic = parseSparkplugTopic(message.topic);
+    if (!topic) {
+      throw new AdapterError(this.name, `Not a Sparkplug B topic: ${message.topic}`);
+    }
+
+    const empty: AdapterResult = { telemetry: [], unmapped: [] };
+    const nodeKey = `${topic.groupId}/${topic.edgeNodeId}`;
+
+    switch (topic.messageType) {
+      case 'NDEATH':
+        this.sessions.delete(nodeKey);
+        return empty;
+      case 'NBIRTH':
+      case 'DBIRTH':
+      case 'NDATA':
+      case 'DDATA':
+        break;
+      default:
+        return empty;
+    }
+    if (topic.messageType.startsWith('D') && !topic.deviceId) {
+      throw new AdapterError(this.name, `${topic.messageType} topic has no device ID`);
+    }
+
+    let payload: SparkplugPayload;
+    try {
+      payload = decodeSparkplugPayload(message.payload);
+    } catch (error) {
+      throw new AdapterError(
+        this.name,
+        `Invalid protobuf payload (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+
+    const path = sparkplugPath(topic);
+    if (topic.messageType === 'NBIRTH') {
+      // A new session invalidates every alias of the previous one
+      this.sessions.set(nodeKey, { aliases: new Map(), datatypes: new Map() });
+    }
+    const session = this.sessions.get(nodeKey);
+    if (topic.messageType.endsWith('BIRTH') && session) {
+      this.recordBirth(session, path, payload.metrics);
+    }
+
+    const values = this.resolveMetrics(session, path, payload.metrics, context);
+
+    const deviceId = context.deviceId ?? context.resolveDevice(path);
+    if (!deviceId) {
+      context.logger.warn(
+        { sparkplugPath: path, messageType: topic.messageType },
+        'Device mapping not found for Sparkplug path - device may not be provisioned in ArgusIQ'
+      );
+      return { telemetry: [], unmapped: [path] };
+    }
+
+    return { telemetry: this.toTelemetry(deviceId, topic, payload, values, context), unmapped: [] };
+  }
+
+  /**
+   * Number of edge nodes with a known birth certificate
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private recordBirth(session: EdgeNodeSession, path: string, metrics: SparkplugMetric[]): void {
+    const datatypes = new Map<string, number | null>();
+    for (const metric of metrics) {
+      if (metric.name === null) continue;
+      datatypes.set(metric.name, metric.datatype);
+      if (metric.alias !== null) {
+        session.aliases.set(metric.alias, { name: metric.name, datatype: metric.datatype });
+      }
+    }
+    session.datatypes.set(path, datatypes);
+  }
+
+  /**
+   * Resolves names and values of metrics; metrics that cannot be resolved
+   * or should not be stored (transient, unsupported types) are skipped
+   */
+  private resolveMetrics(
+    session: EdgeNodeSession | undefined,
+    path: string,
+    metrics: SparkplugMetric[],
+    context: AdapterContext
+  ): Array<{ name: string; value: unknown; timestamp: number | null }> {
+    const resolved: Array<{ name: string; value: unknown; timestamp: number | null }> = [];
+    const unknownAliases: number[] = [];
+
+    for (const metric of metrics) {
+      let definition: MetricDefinition | undefined;
+      if (metric.name !== null) {
+        definition = {
+          name: metric.name,
+          datatype: metric.datatype ?? session?.datatypes.get(path)?.get(metric.name) ?? null,
+        };
+      } else if (metric.alias !== null) {
+        definition = session?.aliases.get(metric.alias);
+        if (!definition) {
+          unknownAliases.push(metric.alias);
+          continue;
+        }
+      }
+      if (!definition || definition.name === BD_SEQ_METRIC || metric.isTransient) {
+        continue;
+      }
+
+      const value = convertMetricValue(metric.value, metric.datatype ?? definition.datatype, metric.isNull);
+      if (value === undefined) continue;
+      resolved.push({ name: definition.name, value, timestamp: metric.timestamp });
+    }
+
+    if (unknownAliases.length > 0) {
+      context.logger.warn(
+        { sparkplugPath: path, aliases: unknownAliases, hasBirth: !!session },
+        'Sparkplug metrics reference aliases without a birth certificate, skipping them'
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Groups metric values by timestamp: historical metrics carry their own
+   */
+  private toTelemetry(
+    deviceId: string,
+    topic: SparkplugTopic,
+    payload: SparkplugPayload,
+    values: Array<{ name: string; value: unknown; timestamp: number | null }>,
+    context: AdapterContext
+  ): AdaptedTelemetry[] {
+    const fallback = payload.timestamp ?? context.receivedAt.getTime();
+    const byTimestamp = new Map<number, Record<string, unknown>>();
+    for (const { name, value, timestamp } of values) {
+      const time = timestamp ?? fallback;
+      const group = byTimestamp.get(time) ?? {};
+      group[name] = value;
+      byTimestamp.set(time, group);
+    }
+
+    return [...byTimestamp.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([time, metrics]) => {
+        const canonical: CanonicalTelemetry = {
+          deviceId,
+          timestamp: new Date(time).toISOString(),
+          payload: metrics,
+          metadata: {
+            source: 'sparkplug',
+            groupId: topic.groupId,
+            edgeNodeId: topic.edgeNodeId,
+            sparkplugDeviceId: topic.deviceId ?? undefined,
+            messageType: topic.messageType,
+            seq: payload.seq ?? undefined,
+          },
+        };
+        return {
+          deviceId,
+          body: canonical,
+          source: 'sparkplug',
+          headers: { 'sparkplug-type': topic.messageType },
+        };
+      });
+  }
+}
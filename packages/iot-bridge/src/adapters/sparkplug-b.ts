@@ -0,0 +1,320 @@
+/**
+ * Sparkplug B Payload Decoder
+ *
+ * Minimal protobuf decoder for the Sparkplug B payload (sparkplug_b.proto).
+ * Only the fields needed to extract metric values are decoded; metadata,
+ * property sets, data sets and templates are skipped.
+ *
+ * Payload:  timestamp = 1, metrics = 2, seq = 3, uuid = 4, body = 5
+ * Metric:   name = 1, alias = 2, timestamp = 3, datatype = 4, is_historical = 5,
+ *           is_transient = 6, is_null = 7, int_value = 10, long_value = 11,
+ *           float_value = 12, double_value = 13, boolean_value = 14,
+ *           string_value = 15, bytes_value = 16
+ */
+
+/**
+ * Sparkplug B metric data types
+ */
+export const SparkplugDataType = {
+  Unknown: 0,
+  Int8: 1,
+  Int16: 2,
+  Int32: 3,
+  Int64: 4,
+  UInt8: 5,
+  UInt16: 6,
+  UInt32: 7,
+  UInt64: 8,
+  Float: 9,
+  Double: 10,
+  Boolean: 11,
+  String: 12,
+  DateTime: 13,
+  Text: 14,
+  UUID: 15,
+  DataSet: 16,
+  Bytes: 17,
+  File: 18,
+  Template: 19,
+} as const;
+
+/**
+ * Metric value as encoded (before conversion by data type)
+ */
+export type SparkplugRawValue = number | bigint | boolean | string | Uint8Array | null;
+
+export interface SparkplugMetric {
+  name: string | null;
+  alias: number | null;
+  timestamp: number | null; // ms since epoch
+  datatype: number | null;
+  isHistorical: boolean;
+  isTransient: boolean;
+  isNull: boolean;
+  value: SparkplugRawValue;
+}
+
+export interface SparkplugPayload {
+  timestamp: number | null; // ms since epoch
+  seq: number | null;
+  uuid: string | null;
+  metrics: SparkplugMetric[];
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * Sequential reader over protobuf wire format
+ */
+class ProtobufReader {
+  private pos = 0;
+
+  constructor(private buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.pos >= this.buffer.length;
+  }
+
+  tag(): { field: number; wireType: number } {
+    const tag = Number(this.varint());
+    return { field: tag >>> 3, wireType: tag & 7 };
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (let i = 0; i < 10; i++) {
+      if (this.done) {
+        throw new Error('Truncated varint');
+      }
+      const byte = this.buffer[this.pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return BigInt.asUintN(64, result);
+      }
+      shift += 7n;
+    }
+    throw new Error('Varint exceeds 10 bytes');
+  }
+
+  uint64(wireType: number): bigint {
+    this.expect(wireType, WIRE_VARINT);
+    return this.varint();
+  }
+
+  uint32(wireType: number): number {
+    return Number(this.uint64(wireType) & 0xffffffffn);
+  }
+
+  bool(wireType: number): boolean {
+    return this.uint64(wireType) !== 0n;
+  }
+
+  float(wireType: number): number {
+    this.expect(wireType, WIRE_FIXED32);
+    return this.take(4).readFloatLE(0);
+  }
+
+  double(wireType: number): number {
+    this.expect(wireType, WIRE_FIXED64);
+    return this.take(8).readDoubleLE(0);
+  }
+
+  bytes(wireType: number): Buffer {
+    this.expect(wireType, WIRE_LENGTH_DELIMITED);
+    return this.take(Number(this.varint()));
+  }
+
+  string(wireType: number): string {
+    return this.bytes(wireType).toString('utf-8');
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.take(8);
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.take(Number(this.varint()));
+        break;
+      case WIRE_FIXED32:
+        this.take(4);
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private take(length: number): Buffer {
+    if (this.pos + length > this.buffer.length) {
+      throw new Error('Truncated field');
+    }
+    const slice = this.buffer.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+
+  private expect(wireType: number, expected: number): void {
+    if (wireType !== expected) {
+      throw new Error(`Expected wire type ${expected}, got ${wireType}`);
+    }
+  }
+}
+
+function decodeMetric(buffer: Buffer): SparkplugMetric {
+  const reader = new ProtobufReader(buffer);
+  const metric: SparkplugMetric = {
+    name: null,
+    alias: null,
+    timestamp: null,
+    datatype: null,
+    isHistorical: false,
+    isTransient: false,
+    isNull: false,
+    value: null,
+  };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    switch (field) {
+      case 1:
+        metric.name = reader.string(wireType);
+        break;
+      case 2:
+        metric.alias = Number(reader.uint64(wireType));
+        break;
+      case 3:
+        metric.timestamp = Number(reader.uint64(wireType));
+        break;
+      case 4:
+        metric.datatype = reader.uint32(wireType);
+        break;
+      case 5:
+        metric.isHistorical = reader.bool(wireType);
+        break;
+      case 6:
+        metric.isTransient = reader.bool(wireType);
+        break;
+      case 7:
+        metric.isNull = reader.bool(wireType);
+        break;
+      case 10:
+        metric.value = reader.uint32(wireType);
+        break;
+      case 11:
+        metric.value = reader.uint64(wireType);
+        break;
+      case 12:
+        metric.value = reader.float(wireType);
+        break;
+      case 13:
+        metric.value = reader.double(wireType);
+        break;
+      case 14:
+        metric.value = reader.bool(wireType);
+        break;
+      case 15:
+        metric.value = reader.string(wireType);
+        break;
+      case 16:
+        metric.value = new Uint8Array(reader.bytes(wireType));
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return metric;
+}
+
+/**
+ * Decodes a Sparkplug B protobuf payload
+ *
+ * @throws Error if the payload is not valid protobuf
+ */
+export function decodeSparkplugPayload(data: Uint8Array): SparkplugPayload {
+  const reader = new ProtobufReader(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  const payload: SparkplugPayload = { timestamp: null, seq: null, uuid: null, metrics: [] };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    switch (field) {
+      case 1:
+        payload.timestamp = Number(reader.uint64(wireType));
+        break;
+      case 2:
+        payload.metrics.push(decodeMetric(reader.bytes(wireType)));
+        break;
+      case 3:
+        payload.seq = Number(reader.uint64(wireType));
+        break;
+      case 4:
+        payload.uuid = reader.string(wireType);
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * 64-bit integers that do not fit a JS number are kept as decimal strings
+ */
+function toSafeNumber(value: bigint): number | string {
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : value.toString();
+}
+
+/**
+ * Converts a raw metric value to a JSON value according to its data type
+ *
+ * Signed integers are two's complement in int_value (Int8/16/32) and
+ * long_value (Int64). Values of unsupported types (DataSet, Template)
+ * are returned as undefined.
+ *
+ * @param datatype - Data type from the metric or its birth certificate
+ */
+export function convertMetricValue(
+  value: SparkplugRawValue,
+  datatype: number | null,
+  isNull = false
+): unknown {
+  if (datatype === SparkplugDataType.DataSet || datatype === SparkplugDataType.Template) {
+    return undefined;
+  }
+  if (isNull || value === null) {
+    return null;
+  }
+
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    switch (datatype) {
+      // Sign-extend from the type's width: accepts both 8/16-bit and sign-extended 32-bit encodings
+      case SparkplugDataType.Int8:
+        return (Number(value) << 24) >> 24;
+      case SparkplugDataType.Int16:
+        return (Number(value) << 16) >> 16;
+      case SparkplugDataType.Int32:
+        return Number(value) | 0;
+      case SparkplugDataType.Int64:
+        return typeof value === 'bigint' ? toSafeNumber(BigInt.asIntN(64, value)) : value;
+      case SparkplugDataType.DateTime:
+        return new Date(Number(value)).toISOString();
+    }
+  }
+
+  if (typeof value === 'bigint') {
+    return toSafeNumber(value);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  return value;
+}
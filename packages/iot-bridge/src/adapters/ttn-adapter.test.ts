@@ -0,0 +1,106 @@
+/**
+ * Unit tests for The Things Stack v3 adapter
+ * Uses the uplink in __fixtures__/ttn-v3-uplink.json
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createTtnAdapter, type TtnUplink } from './ttn-adapter.js';
+import type { AdapterContext } from './protocol-adapter.js';
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const TOPIC = 'v3/cold-chain@acme/devices/eui-70b3d57ed0000001/up';
+
+function loadUplink(): TtnUplink {
+  return JSON.parse(readFileSync(new URL('./__fixtures__/ttn-v3-uplink.json', import.meta.url), 'utf-8'));
+}
+
+function message(uplink: unknown): MqttMessage {
+  return { topic: TOPIC, payload: Buffer.from(JSON.stringify(uplink)), qos: 1, retain: false };
+}
+
+describe('TTN v3 adapter', () => {
+  const adapter = createTtnAdapter();
+  let context: AdapterContext;
+
+  beforeEach(() => {
+    context = {
+      resolveDevice: vi.fn((identifier: string) =>
+        identifier.toLowerCase() === '70b3d57ed0000001' ? DEVICE_ID : null
+      ),
+      receivedAt: new Date('2026-03-01T12:00:01Z'),
+      logger: { warn: vi.fn(), debug: vi.fn() } as unknown as Logger,
+    };
+  });
+
+  it('should claim The Things Stack uplink topics', () => {
+    expect(adapter.topicPatterns).toEqual(['v3/+/devices/+/up']);
+  });
+
+  it('should transform an uplink with a decoded payload', () => {
+    const result = adapter.decode(message(loadUplink()), context);
+
+    expect(result.unmapped).toEqual([]);
+    expect(result.telemetry).toEqual([
+      {
+        deviceId: DEVICE_ID,
+        source: 'ttn',
+        headers: { 'dev-eui': '70b3d57ed0000001', 'f-port': '2' },
+        body: {
+          deviceId: DEVICE_ID,
+          timestamp: '2026-03-01T12:00:00.498Z',
+          payload: { temperature: 21.5, humidity: 40 },
+          metadata: {
+            source: 'ttn',
+            devEui: '70b3d57ed0000001',
+            fPort: 2,
+            fCnt: 1042,
+            // Strongest of the two gateways
+            rssi: -81,
+            snr: 9.25,
+            gatewayId: 'gw-south',
+            frequency: 868300000,
+            spreadingFactor: 7,
+            bandwidth: 125000,
+            applicationId: 'cold-chain',
+            deviceName: 'eui-70b3d57ed0000001',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should forward the raw payload without a payload formatter', () => {
+    const uplink = loadUplink();
+    delete uplink.uplink_message.decoded_payload;
+    delete uplink.uplink_message.rx_metadata;
+
+    const [telemetry] = adapter.decode(message(uplink), context).telemetry;
+
+    expect(telemetry.body).toMatchObject({
+      payload: { data: 'AQDXAg==', fPort: 2 },
+      metadata: { rssi: undefined, gatewayId: undefined },
+    });
+  });
+
+  it('should report devices that are not provisioned', () => {
+    const uplink = loadUplink();
+    uplink.end_device_ids.dev_eui = '70B3D57ED00000FF';
+
+    const result = adapter.decode(message(uplink), context);
+
+    expect(result).toEqual({ telemetry: [], unmapped: ['70B3D57ED00000FF'] });
+    expect(context.logger.warn).toHaveBeenCalled();
+  });
+
+  it('should reject messages that are not uplinks', () => {
+    expect(() => adapter.decode(message({ end_device_ids: {} }), context)).toThrow(
+      'ttn-v3: Message is not an uplink'
+    );
+    expect(() =>
+      adapter.decode({ topic: TOPIC, payload: Buffer.from('not json'), qos: 1, retain: false }, context)
+    ).toThrow('ttn-v3: Payload is not valid JSON');
+  });
+});
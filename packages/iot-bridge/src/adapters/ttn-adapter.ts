@@ -0,0 +1,158 @@
+/**
+ * The Things Stack (TTN) v3 Protocol Adapter
+ *
+ * Transforms The Things Stack v3 MQTT uplink messages into canonical telemetry format.
+ *
+ * The Things Stack publishes uplinks to:
+ *   v3/{application id}@{tenant id}/devices/{device id}/up
+ *
+ * This adapter:
+ * 1. Maps end_device_ids.dev_eui to an ArgusIQ Device UUID
+ * 2. Uses uplink_message.decoded_payload (payload formatter output) when present
+ * 3. Otherwise forwards the raw base64 frm_payload
+ * 4. Enriches with LoRa metadata from the gateway with the strongest signal
+ */
+
+import {
+  AdapterError,
+  parseJsonPayload,
+  type CanonicalTelemetry,
+  type ProtocolAdapter,
+} from './protocol-adapter.js';
+
+/**
+ * The Things Stack v3 uplink message (subset used by the adapter)
+ */
+export interface TtnUplink {
+  end_device_ids: {
+    device_id: string;
+    application_ids: { application_id: string };
+    dev_eui?: string;
+    join_eui?: string;
+    dev_addr?: string;
+  };
+  received_at: string;
+  uplink_message: {
+    f_port?: number;
+    f_cnt?: number;
+    frm_payload?: string; // Base64 encoded raw payload
+    decoded_payload?: Record<string, unknown>;
+    rx_metadata?: Array<{
+      gateway_ids: { gateway_id: string; eui?: string };
+      time?: string;
+      rssi?: number;
+      channel_rssi?: number;
+      snr?: number;
+    }>;
+    settings?: {
+      data_rate?: {
+        lora?: {
+          bandwidth: number;
+          spreading_factor: number;
+          coding_rate?: string;
+        };
+      };
+      frequency?: string; // Hz, serialized as a string (uint64)
+    };
+    received_at?: string;
+  };
+}
+
+/**
+ * Default MQTT topic pattern for The Things Stack v3 uplinks
+ */
+export const TTN_UPLINK_TOPIC_PATTERN = 'v3/+/devices/+/up';
+
+/**
+ * Transforms a The Things Stack uplink into canonical telemetry format
+ *
+ * @param uplink - Uplink message from MQTT
+ * @param deviceId - ArgusIQ Device UUID the uplink belongs to
+ */
+export function transformTtnUplink(uplink: TtnUplink, deviceId: string): CanonicalTelemetry {
+  const message = uplink.uplink_message;
+
+  // Use the payload formatter output if available, otherwise the raw frame payload
+  const payload =
+    message.decoded_payload && Object.keys(message.decoded_payload).length > 0
+      ? message.decoded_payload
+      : { data: message.frm_payload, fPort: message.f_port };
+
+  // Gateway with the strongest signal
+  const bestRx = message.rx_metadata?.reduce((best, current) =>
+    (current.rssi ?? current.channel_rssi ?? -Infinity) > (best.rssi ?? best.channel_rssi ?? -Infinity)
+      ? current
+      : best
+  );
+  const lora = message.settings?.data_rate?.lora;
+  const frequency = message.settings?.frequency ? Number(message.settings.frequency) : undefined;
+
+  return {
+    deviceId,
+    timestamp: message.received_at ?? uplink.received_at,
+    payload,
+    metadata: {
+      source: 'ttn',
+      devEui: uplink.end_device_ids.dev_eui?.toLowerCase(),
+      fPort: message.f_port,
+      fCnt: message.f_cnt,
+      rssi: bestRx?.rssi ?? bestRx?.channel_rssi,
+      snr: bestRx?.snr,
+      gatewayId: bestRx?.gateway_ids.gateway_id,
+      frequency: Number.isFinite(frequency) ? frequency : undefined,
+      spreadingFactor: lora?.spreading_factor,
+      bandwidth: lora?.bandwidth,
+      applicationId: uplink.end_device_ids.application_ids.application_id,
+      deviceName: uplink.end_device_ids.device_id,
+    },
+  };
+}
+
+/**
+ * Creates The Things Stack v3 protocol adapter
+ *
+ * @param topicPattern - Uplink MQTT topic pattern (with wildcards)
+ */
+export function createTtnAdapter(topicPattern = TTN_UPLINK_TOPIC_PATTERN): ProtocolAdapter {
+  return {
+    name: 'ttn-v3',
+    topicPatterns: [topicPattern],
+    decode(message, context) {
+      const uplink = parseJsonPayload('ttn-v3', message) as TtnUplink;
+      if (!uplink?.end_device_ids || !uplink.uplink_message) {
+        throw new AdapterError('ttn-v3', 'Message is not an uplink (missing end_device_ids or uplink_message)');
+      }
+
+      // Devices activated by ABP may not report a DevEUI; fall back to the TTN device ID
+      const identifier = uplink.end_device_ids.dev_eui ?? uplink.end_device_ids.device_id;
+      const deviceId = context.deviceId ?? context.resolveDevice(identifier);
+      if (!deviceId) {
+        context.logger.warn(
+          {
+            devEui: uplink.end_device_ids.dev_eui,
+            applicationId: uplink.end_device_ids.application_ids?.application_id,
+            deviceName: uplink.end_device_ids.device_id,
+          },
+          'Device mapping not found for TTN device - device may not be provisioned in ArgusIQ'
+        );
+        return { telemetry: [], unmapped: [identifier] };
+      }
+
+      const canonical = transformTtnUplink(uplink, deviceId);
+      return {
+        telemetry: [
+          {
+            deviceId,
+            body: canonical,
+            source: 'ttn',
+            headers: {
+              'dev-eui': canonical.metadata.devEui || '',
+              'f-port': canonical.metadata.fPort?.toString() || '',
+            },
+          },
+        ],
+        unmapped: [],
+      };
+    },
+  };
+}
@@ -2,25 +2,57 @@
  * IoT Bridge Service
  *
  * Bridges MQTT messages from EMQX to NATS JetStream.
- * Supports both direct device messages and ChirpStack uplink messages.
+ * Messages are decoded by protocol adapters (see adapters/protocol-adapter.ts):
+ * - adapters claiming a topic pattern (ChirpStack, The Things Stack, Sparkplug B)
+ * - direct device messages (devices/{deviceId}/telemetry), decoded by the adapter
+ *   of the device's type (JSON by default, CSV)
+ *
+ * It also relays device commands from NATS to devices and reports their
+ * acknowledgements back (see commands/command-relay.ts).
+ *
+ * Messages that cannot be delivered are dead-lettered with the rejection
+ * reason (see dead-letter/dead-letter-queue.ts); failed NATS publishes are
+ * retried with backoff first. Dead letters replayed through the API arrive on
+ * {prefix}.replay.
  */
 
 import type { Config } from './config.js';
 import type { Logger } from './logger.js';
 import { MqttClient, type MqttMessage } from './mqtt-client.js';
-import { NatsClient, type NatsMessage } from './nats-client.js';
-import { validateMessage, extractDeviceIdFromTopic } from './validator.js';
+import { NatsClient, type NatsMessage, type NatsPublishFailure } from './nats-client.js';
+import { extractDeviceIdFromTopic } from './validator.js';
 import { DeviceMappingService } from './services/device-mapping.js';
+import type {
+  AdaptedTelemetry,
+  AdapterResult,
+  ProtocolAdapter,
+  ProtocolAdapterRegistry,
+} from './adapters/protocol-adapter.js';
+import { createAdapterRegistry } from './adapters/registry.js';
+import { CommandRelay, type CommandStatusEvent } from './commands/command-relay.js';
 import {
-  transformChirpStackUplink,
-  isChirpStackTopic,
-  type ChirpStackUplink,
-} from './adapters/chirpstack-adapter.js';
+  DeadLetterQueue,
+  DLQ_HEADERS,
+  stripDeadLetterHeaders,
+  type DeadLetterContext,
+  type DeadLetterReason,
+} from './dead-letter/dead-letter-queue.js';
+import { PublishRetryQueue } from './dead-letter/publish-retry-queue.js';
+
+/** Redeliveries of a replay request before it is dropped */
+const REPLAY_MAX_DELIVER = 5;
+
+/** Minimum time between device mapping reloads triggered by replays */
+const REPLAY_MAPPING_RELOAD_INTERVAL_MS = 10_000;
 
 export class BridgeService {
   private mqttClient: MqttClient;
   private natsClient: NatsClient;
   private deviceMappingService: DeviceMappingService;
+  private adapterRegistry: ProtocolAdapterRegistry;
+  private commandRelay: CommandRelay | null = null;
+  private deadLetterQueue: DeadLetterQueue | null = null;
+  private retryQueue: PublishRetryQueue;
   private messageQueue: NatsMessage[] = [];
   private flushTimer: NodeJS.Timeout | null = null;
   private isShuttingDown = false;
@@ -32,9 +64,9 @@ export class BridgeService {
     messagesFailed: 0,
     messagesInvalid: 0,
     messagesTooLarge: 0,
-    messagesChirpStack: 0,
-    messagesDirect: 0,
-    chirpStackUnmapped: 0,
+    messagesByAdapter: {} as Record<string, number>,
+    messagesUnmapped: 0,
+    messagesReplayed: 0,
     bytesReceived: 0,
     bytesPublished: 0,
   };
@@ -42,11 +74,64 @@ export class BridgeService {
   constructor(
     private config: Config,
     private logger: Logger,
-    deviceMappingService?: DeviceMappingService
+    deviceMappingService?: DeviceMappingService,
+    adapterRegistry?: ProtocolAdapterRegistry
   ) {
     this.mqttClient = new MqttClient(config, logger);
     this.natsClient = new NatsClient(config, logger);
     this.deviceMappingService = deviceMappingService || new DeviceMappingService({}, logger);
+    this.adapterRegistry = adapterRegistry || createAdapterRegistry(config);
+
+    if (config.deadLetter.enabled) {
+      this.deadLetterQueue = new DeadLetterQueue(
+        {
+          subjectPrefix: config.deadLetter.subjectPrefix,
+          maxPayloadSize: config.processing.maxMessageSize,
+        },
+        {
+          publish: (message) => this.natsClient.publish(message),
+          logger: logger.child({ component: 'dead-letter' }),
+        }
+      );
+    }
+
+    this.retryQueue = new PublishRetryQueue(
+      {
+        maxAttempts: config.processing.publishMaxAttempts,
+        baseDelayMs: config.processing.publishRetryBaseMs,
+        maxDelayMs: config.processing.publishRetryMaxMs,
+        limit: config.processing.retryQueueLimit,
+      },
+      {
+        publishBatch: (messages) => this.natsClient.publishBatch(messages),
+        deadLetter: async (message, error, attempts) => {
+          if (this.deadLetterQueue) {
+            await this.deadLetterQueue.rejectPublish(message, error, attempts);
+          } else {
+            this.logger.error({ subject: message.subject, error, attempts }, 'Giving up on message publish, dropping');
+          }
+        },
+        logger: logger.child({ component: 'publish-retry' }),
+      }
+    );
+
+    if (config.commands.enabled) {
+      this.commandRelay = new CommandRelay(
+        {
+          deviceTopic: config.commands.deviceTopic,
+          deviceAckTopic: config.commands.deviceAckTopic,
+          chirpstackUplinkTopic: config.chirpstack.enabled ? config.chirpstack.topicPattern : null,
+          chirpstackDownlinkTopic: config.chirpstack.downlinkTopic,
+          qos: config.mqtt.qos,
+        },
+        {
+          publishMqtt: (topic, payload, qos) => this.mqttClient.publish(topic, payload, qos),
+          publishStatus: (event) => this.publishCommandStatus(event),
+          resolveDevice: (identifier) => this.deviceMappingService.getDeviceId(identifier),
+          logger: logger.child({ component: 'command-relay' }),
+        }
+      );
+    }
   }
 
   /**
@@ -68,14 +153,48 @@ export class BridgeService {
     // Connect to MQTT
     await this.mqttClient.connect();
 
-    // Subscribe to MQTT topics
-    await this.mqttClient.subscribe(this.config.mqtt.topics);
+    // Subscribe to MQTT topics (configured topics, those claimed by protocol adapters
+    // and command acknowledgements)
+    const topics = [
+      ...new Set([
+        ...this.config.mqtt.topics,
+        ...this.adapterRegistry.getTopicPatterns(),
+        ...(this.commandRelay?.getTopicPatterns() ?? []),
+      ]),
+    ];
+    this.logger.info({ adapters: this.adapterRegistry.list(), topics }, 'Protocol adapters registered');
+    await this.mqttClient.subscribe(topics);
 
     // Set up message handler
     this.mqttClient.onMessage(async (message) => {
       await this.handleMqttMessage(message);
     });
 
+    // Relay device commands queued through the API
+    if (this.commandRelay) {
+      const relay = this.commandRelay;
+      await this.natsClient.consume(
+        {
+          durableName: this.config.commands.durableName,
+          filterSubject: `${this.config.nats.subjectPrefix}.commands.down.>`,
+          maxDeliver: this.config.commands.maxDeliver,
+        },
+        (message) => relay.handleDownlink(message.data)
+      );
+    }
+
+    // Replay dead letters requested through the API
+    if (this.deadLetterQueue) {
+      await this.natsClient.consume(
+        {
+          durableName: this.config.deadLetter.replayDurableName,
+          filterSubject: `${this.config.nats.subjectPrefix}.replay`,
+          maxDeliver: REPLAY_MAX_DELIVER,
+        },
+        (message) => this.handleReplay(message)
+      );
+    }
+
     // Start periodic flush timer
     this.startFlushTimer();
 
@@ -87,143 +206,176 @@ export class BridgeService {
 
   /**
    * Handle incoming MQTT message
-   * Routes to appropriate handler based on topic pattern
+   * Routes to the protocol adapter claiming the topic, or for direct device
+   * topics to the adapter selected by the device's type
    */
   private async handleMqttMessage(message: MqttMessage): Promise<void> {
     this.metrics.messagesReceived++;
     this.metrics.bytesReceived += message.payload.length;
 
-    // Route based on topic pattern
-    if (this.config.chirpstack.enabled && isChirpStackTopic(message.topic, this.config.chirpstack.topicPattern)) {
-      await this.handleChirpStackMessage(message);
+    if (this.commandRelay?.matchTopic(message.topic)) {
+      await this.commandRelay.handleMqttMessage(message);
+      return;
+    }
+
+    const adapter = this.adapterRegistry.matchTopic(message.topic);
+    if (adapter) {
+      if (adapter.name === 'chirpstack') {
+        this.commandRelay?.observeUplink(message.topic);
+      }
+      await this.handleAdapterMessage(adapter, message);
     } else if (message.topic.startsWith('devices/')) {
       await this.handleDirectDeviceMessage(message);
     } else {
       this.logger.warn({ topic: message.topic }, 'Unknown topic pattern, ignoring message');
       this.metrics.messagesInvalid++;
+      await this.deadLetter(message, 'unknown_topic', 'No protocol adapter claims the topic');
     }
   }
 
   /**
-   * Handle ChirpStack uplink message
+   * Replay a dead letter requested through the API
+   *
+   * Publish failures are republished to their original subject; rejected MQTT
+   * messages are run through the adapters again, after reloading device
+   * mappings for unmapped ones. A message rejected again is dead-lettered again.
    */
-  private async handleChirpStackMessage(message: MqttMessage): Promise<void> {
-    this.metrics.messagesChirpStack++;
+  private async handleReplay(message: NatsMessage): Promise<void> {
+    const headers = message.headers ?? {};
+    this.metrics.messagesReplayed++;
 
-    // Parse ChirpStack uplink payload
-    let uplink: ChirpStackUplink;
-    try {
-      uplink = JSON.parse(message.payload.toString('utf-8')) as ChirpStackUplink;
-    } catch (error) {
-      this.logger.warn(
-        { topic: message.topic, error: error instanceof Error ? error.message : String(error) },
-        'Failed to parse ChirpStack uplink payload as JSON'
-      );
-      this.metrics.messagesInvalid++;
+    const subject = headers[DLQ_HEADERS.natsSubject];
+    if (subject) {
+      await this.natsClient.publish({ subject, data: message.data, headers: stripDeadLetterHeaders(headers) });
       return;
     }
 
-    // Transform to canonical format
-    const mappingCache = this.deviceMappingService.getMappingCache();
-    const canonical = transformChirpStackUplink(uplink, mappingCache, this.logger);
-
-    if (!canonical) {
-      // Device mapping not found (DevEUI not provisioned in ArgusIQ)
-      this.metrics.chirpStackUnmapped++;
+    const topic = headers['mqtt-topic'];
+    if (!topic) {
+      this.logger.warn({ subject: message.subject }, 'Replay request without an MQTT topic, ignoring');
       return;
     }
 
-    // Create NATS message with canonical format
-    const natsMessage: NatsMessage = {
-      subject: `${this.config.nats.subjectPrefix}.raw.${canonical.deviceId}`,
-      data: new TextEncoder().encode(JSON.stringify(canonical)),
-      headers: {
-        'mqtt-topic': message.topic,
-        'mqtt-qos': message.qos.toString(),
-        'device-id': canonical.deviceId,
-        'source': 'chirpstack',
-        'dev-eui': canonical.metadata.devEui || '',
-        'f-port': canonical.metadata.fPort?.toString() || '',
-        'received-at': new Date().toISOString(),
-      },
-    };
-
-    // Check message size
-    if (natsMessage.data.length > this.config.processing.maxMessageSize) {
-      this.logger.warn(
-        {
-          deviceId: canonical.deviceId,
-          devEui: canonical.metadata.devEui,
-          size: natsMessage.data.length,
-          maxSize: this.config.processing.maxMessageSize,
-        },
-        'ChirpStack message exceeds maximum size, dropping'
-      );
-      this.metrics.messagesTooLarge++;
-      return;
+    if (headers[DLQ_HEADERS.reason] === 'unmapped') {
+      await this.deviceMappingService.reload(REPLAY_MAPPING_RELOAD_INTERVAL_MS);
     }
 
-    // Add to queue for batch processing
-    this.messageQueue.push(natsMessage);
-    this.metrics.bytesPublished += natsMessage.data.length;
+    const qos = Number(headers['mqtt-qos']);
+    await this.handleMqttMessage({
+      topic,
+      payload: Buffer.from(message.data),
+      qos: qos === 0 || qos === 2 ? qos : 1,
+      retain: false,
+    });
+  }
 
-    // Flush if batch size reached
-    if (this.messageQueue.length >= this.config.processing.batchSize) {
-      await this.flushQueue();
-    }
+  /**
+   * Dead-letter a rejected MQTT message (metrics are counted by the caller)
+   */
+  private async deadLetter(
+    message: MqttMessage,
+    reason: Exclude<DeadLetterReason, 'publish_failed'>,
+    error: string,
+    context?: DeadLetterContext
+  ): Promise<void> {
+    await this.deadLetterQueue?.rejectMqtt(message, reason, error, context);
   }
 
   /**
    * Handle direct device message (cellular devices, BLE gateways, etc.)
    */
   private async handleDirectDeviceMessage(message: MqttMessage): Promise<void> {
-    this.metrics.messagesDirect++;
-
     // Extract device ID from topic (devices/{uuid}/telemetry)
     const deviceId = extractDeviceIdFromTopic(message.topic);
     if (!deviceId) {
       this.logger.warn({ topic: message.topic }, 'Could not extract device ID from topic');
       this.metrics.messagesInvalid++;
+      await this.deadLetter(message, 'invalid', 'Could not extract device ID from topic');
       return;
     }
 
-    // Parse payload
-    let payload: unknown;
+    // Device types select their adapter (device_types.protocol_adapter)
+    const adapterName = this.deviceMappingService.getProtocolAdapter(deviceId) ?? 'json';
+    const adapter = this.adapterRegistry.get(adapterName);
+    if (!adapter) {
+      this.logger.warn({ deviceId, adapter: adapterName }, 'Protocol adapter not enabled, ignoring message');
+      this.metrics.messagesInvalid++;
+      await this.deadLetter(message, 'invalid', `Protocol adapter '${adapterName}' is not enabled`, {
+        adapter: adapterName,
+        deviceId,
+      });
+      return;
+    }
+
+    await this.handleAdapterMessage(adapter, message, deviceId);
+  }
+
+  /**
+   * Decode a message with a protocol adapter and queue the resulting telemetry
+   *
+   * @param deviceId - Device UUID from a direct device topic
+   */
+  private async handleAdapterMessage(
+    adapter: ProtocolAdapter,
+    message: MqttMessage,
+    deviceId?: string
+  ): Promise<void> {
+    this.metrics.messagesByAdapter[adapter.name] = (this.metrics.messagesByAdapter[adapter.name] ?? 0) + 1;
+
+    const receivedAt = new Date();
+    let result: AdapterResult;
     try {
-      payload = JSON.parse(message.payload.toString('utf-8'));
+      result = adapter.decode(message, {
+        deviceId,
+        resolveDevice: (identifier) => this.deviceMappingService.getDeviceId(identifier),
+        receivedAt,
+        logger: this.logger,
+      });
     } catch (error) {
-      this.logger.warn(
-        { topic: message.topic, error: error instanceof Error ? error.message : String(error) },
-        'Failed to parse MQTT payload as JSON'
-      );
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn({ topic: message.topic, adapter: adapter.name, error: reason }, 'Failed to decode MQTT message');
       this.metrics.messagesInvalid++;
+      await this.deadLetter(message, 'invalid', reason, { adapter: adapter.name, deviceId, receivedAt });
       return;
     }
 
-    // Validate message (if enabled)
-    if (this.config.processing.validateMessages) {
-      const validated = validateMessage(payload, this.logger);
-      if (!validated) {
-        this.metrics.messagesInvalid++;
-        return;
-      }
+    // Vendor identifiers not provisioned in ArgusIQ
+    this.metrics.messagesUnmapped += result.unmapped.length;
+
+    // Only dead-letter messages that produced nothing: replaying a partially
+    // mapped gateway message would duplicate the telemetry already published
+    if (result.unmapped.length > 0 && result.telemetry.length === 0) {
+      await this.deadLetter(message, 'unmapped', 'No device is mapped to the message identifiers', {
+        adapter: adapter.name,
+        identifiers: result.unmapped,
+        receivedAt,
+      });
     }
 
-    // Enrich message with device ID if not present
-    if (typeof payload === 'object' && payload !== null && !('deviceId' in payload)) {
-      (payload as Record<string, unknown>).deviceId = deviceId;
+    for (const telemetry of result.telemetry) {
+      await this.enqueue(message, adapter.name, telemetry, receivedAt);
     }
+  }
 
-    // Create NATS message
+  /**
+   * Queue adapted telemetry for publishing to NATS
+   */
+  private async enqueue(
+    message: MqttMessage,
+    adapterName: string,
+    telemetry: AdaptedTelemetry,
+    receivedAt: Date
+  ): Promise<void> {
     const natsMessage: NatsMessage = {
-      subject: `${this.config.nats.subjectPrefix}.raw.${deviceId}`,
-      data: new TextEncoder().encode(JSON.stringify(payload)),
+      subject: `${this.config.nats.subjectPrefix}.raw.${telemetry.deviceId}`,
+      data: new TextEncoder().encode(JSON.stringify(telemetry.body)),
       headers: {
         'mqtt-topic': message.topic,
         'mqtt-qos': message.qos.toString(),
-        'device-id': deviceId,
-        'source': 'direct',
-        'received-at': new Date().toISOString(),
+        'device-id': telemetry.deviceId,
+        'source': telemetry.source,
+        ...telemetry.headers,
+        'received-at': receivedAt.toISOString(),
       },
     };
 
@@ -231,13 +383,20 @@ export class BridgeService {
     if (natsMessage.data.length > this.config.processing.maxMessageSize) {
       this.logger.warn(
         {
-          deviceId,
+          deviceId: telemetry.deviceId,
+          source: telemetry.source,
           size: natsMessage.data.length,
           maxSize: this.config.processing.maxMessageSize,
         },
         'Message exceeds maximum size, dropping'
       );
       this.metrics.messagesTooLarge++;
+      await this.deadLetter(
+        message,
+        'too_large',
+        `Telemetry is ${natsMessage.data.length} bytes, maximum is ${this.config.processing.maxMessageSize}`,
+        { adapter: adapterName, deviceId: telemetry.deviceId, receivedAt }
+      );
       return;
     }
 
@@ -251,8 +410,23 @@ export class BridgeService {
     }
   }
 
+  /**
+   * Publish a command status report for the API command status worker
+   */
+  private async publishCommandStatus(event: CommandStatusEvent): Promise<void> {
+    await this.natsClient.publish({
+      subject: `${this.config.nats.subjectPrefix}.commands.status.${event.deviceId}`,
+      data: new TextEncoder().encode(JSON.stringify(event)),
+      headers: {
+        'command-id': event.commandId,
+        'device-id': event.deviceId,
+      },
+    });
+  }
+
   /**
    * Flush message queue to NATS
+   * Messages that fail to publish are handed to the retry queue
    */
   private async flushQueue(): Promise<void> {
     if (this.messageQueue.length === 0) {
@@ -261,34 +435,36 @@ export class BridgeService {
 
     const batch = this.messageQueue.splice(0, this.messageQueue.length);
 
+    let failures: NatsPublishFailure[];
     try {
-      await this.natsClient.publishBatch(batch);
-      this.metrics.messagesPublished += batch.length;
-
-      this.logger.debug(
-        { count: batch.length },
-        'Flushed message batch to NATS'
-      );
+      failures = await this.natsClient.publishBatch(batch);
     } catch (error) {
-      this.logger.error(
-        {
-          error: error instanceof Error ? error.message : String(error),
-          count: batch.length,
-        },
-        'Failed to flush message batch'
-      );
-      this.metrics.messagesFailed += batch.length;
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.error({ error: reason, count: batch.length }, 'Failed to flush message batch');
+      failures = batch.map((message) => ({ message, error: reason }));
     }
+
+    this.metrics.messagesPublished += batch.length - failures.length;
+    this.metrics.messagesFailed += failures.length;
+    await this.retryQueue.add(failures);
+
+    this.logger.debug(
+      { count: batch.length, failed: failures.length },
+      'Flushed message batch to NATS'
+    );
   }
 
   /**
-   * Start periodic flush timer
+   * Start periodic flush timer (also drives publish retries)
    */
   private startFlushTimer(): void {
     this.flushTimer = setInterval(async () => {
       if (this.messageQueue.length > 0) {
         await this.flushQueue();
       }
+      if (this.retryQueue.size() > 0) {
+        await this.retryQueue.processDue();
+      }
     }, this.config.processing.batchTimeout);
   }
 
@@ -300,6 +476,9 @@ export class BridgeService {
       this.logger.info(
         {
           ...this.metrics,
+          commands: this.commandRelay?.getMetrics(),
+          deadLetters: this.deadLetterQueue?.getMetrics(),
+          retries: this.retryQueue.getMetrics(),
           queueSize: this.messageQueue.length,
           mqttConnected: this.mqttClient.isConnected(),
           natsConnected: this.natsClient.isConnected(),
@@ -325,8 +504,9 @@ export class BridgeService {
       clearInterval(this.flushTimer);
     }
 
-    // Flush remaining messages
+    // Flush remaining messages; retries still failing are dead-lettered
     await this.flushQueue();
+    await this.retryQueue.processDue(true);
 
     // Close device mapping service
     await this.deviceMappingService.close();
@@ -346,6 +526,9 @@ export class BridgeService {
   getMetrics() {
     return {
       ...this.metrics,
+      commands: this.commandRelay?.getMetrics(),
+      deadLetters: this.deadLetterQueue?.getMetrics(),
+      retries: this.retryQueue.getMetrics(),
       queueSize: this.messageQueue.length,
       mqttConnected: this.mqttClient.isConnected(),
       natsConnected: this.natsClient.isConnected(),
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the device command relay
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CommandRelay, matchTopicWildcards, type CommandStatusEvent } from './command-relay.js';
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+const DEVICE_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const COMMAND_ID = '3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f';
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function encode(body: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(body));
+}
+
+function message(topic: string, body: unknown): MqttMessage {
+  return { topic, payload: Buffer.from(JSON.stringify(body)), qos: 1, retain: false };
+}
+
+function command(overrides: Record<string, unknown> = {}) {
+  return {
+    commandId: COMMAND_ID,
+    deviceId: DEVICE_ID,
+    tenantId: '00000000-0000-0000-0000-000000000010',
+    command: 'reboot',
+    payload: { delay: 5 },
+    transport: 'mqtt',
+    requireAck: true,
+    expiresAt: '2026-03-01T13:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('matchTopicWildcards', () => {
+  it('should return the values of single-level wildcards', () => {
+    expect(matchTopicWildcards('application/+/device/+/event/up', 'application/app-1/device/0102/event/up')).toEqual([
+      'app-1',
+      '0102',
+    ]);
+    expect(matchTopicWildcards('devices/+/commands/ack', 'devices/d1/telemetry')).toBeNull();
+    expect(matchTopicWildcards('devices/+/commands/ack', 'devices/d1/commands/ack/extra')).toBeNull();
+    expect(matchTopicWildcards('spBv1.0/#', 'spBv1.0/Plant1/NDATA/Edge1')).toEqual([]);
+  });
+});
+
+describe('CommandRelay', () => {
+  let publishMqtt: ReturnType<typeof vi.fn<(topic: string, payload: string, qos: 0 | 1 | 2) => Promise<void>>>;
+  let statuses: CommandStatusEvent[];
+  let relay: CommandRelay;
+
+  beforeEach(() => {
+    publishMqtt = vi.fn().mockResolvedValue(undefined);
+    statuses = [];
+    relay = new CommandRelay(
+      {
+        deviceTopic: 'devices/{deviceId}/commands',
+        deviceAckTopic: 'devices/+/commands/ack',
+        chirpstackUplinkTopic: 'application/+/device/+/event/up',
+        chirpstackDownlinkTopic: 'application/{applicationId}/device/{devEui}/command/down',
+        qos: 1,
+      },
+      {
+        publishMqtt,
+        publishStatus: async (event) => {
+          statuses.push(event);
+        },
+        resolveDevice: (identifier) => (identifier.toLowerCase() === '70b3d57ed0000001' ? DEVICE_ID : null),
+        logger: { warn: vi.fn(), debug: vi.fn() } as unknown as Logger,
+        now: () => NOW,
+      }
+    );
+  });
+
+  it('should subscribe to device acks and ChirpStack downlink events', () => {
+    expect(relay.getTopicPatterns()).toEqual([
+      'devices/+/commands/ack',
+      'application/+/device/+/event/txack',
+      'application/+/device/+/event/ack',
+    ]);
+    expect(relay.matchTopic(`devices/${DEVICE_ID}/commands/ack`)).toBe(true);
+    expect(relay.matchTopic('application/app-1/device/70b3d57ed0000001/event/up')).toBe(false);
+  });
+
+  it('should publish commands for direct devices and report them sent', async () => {
+    await relay.handleDownlink(encode(command()));
+
+    expect(publishMqtt).toHaveBeenCalledWith(
+      `devices/${DEVICE_ID}/commands`,
+      JSON.stringify({
+        commandId: COMMAND_ID,
+        command: 'reboot',
+        payload: { delay: 5 },
+        requireAck: true,
+        expiresAt: '2026-03-01T13:00:00.000Z',
+      }),
+      1
+    );
+    expect(statuses).toEqual([
+      { commandId: COMMAND_ID, deviceId: DEVICE_ID, status: 'sent', timestamp: NOW.toISOString() },
+    ]);
+  });
+
+  it('should enqueue ChirpStack downlinks using the application of the last uplink', async () => {
+    relay.observeUplink('application/app-1/device/70b3d57ed0000001/event/up');
+
+    await relay.handleDownlink(
+      encode(command({ transport: 'chirpstack', devEui: '70B3D57ED0000001', fPort: 10, data: 'AQI=' }))
+    );
+
+    const [topic, payload] = publishMqtt.mock.calls[0];
+    expect(topic).toBe('application/app-1/device/70b3d57ed0000001/command/down');
+    expect(JSON.parse(payload)).toEqual({
+      id: COMMAND_ID,
+      devEui: '70b3d57ed0000001',
+      confirmed: true,
+      fPort: 10,
+      data: 'AQI=',
+    });
+    expect(statuses.map((s) => s.status)).toEqual(['sent']);
+  });
+
+  it('should fail ChirpStack downlinks for an unknown application', async () => {
+    await relay.handleDownlink(encode(command({ transport: 'chirpstack', devEui: '70b3d57ed0000001', fPort: 10 })));
+
+    expect(publishMqtt).not.toHaveBeenCalled();
+    expect(statuses[0]).toMatchObject({ status: 'failed', error: expect.stringContaining('application is unknown') });
+  });
+
+  it('should report expired commands without sending them', async () => {
+    await relay.handleDownlink(encode(command({ expiresAt: '2026-03-01T11:59:59.000Z' })));
+
+    expect(publishMqtt).not.toHaveBeenCalled();
+    expect(statuses[0].status).toBe('expired');
+  });
+
+  it('should propagate MQTT publish failures for redelivery', async () => {
+    publishMqtt.mockRejectedValueOnce(new Error('client disconnecting'));
+
+    await expect(relay.handleDownlink(encode(command()))).rejects.toThrow('client disconnecting');
+    expect(statuses).toEqual([]);
+  });
+
+  it('should report device acknowledgements', async () => {
+    await relay.handleMqttMessage(
+      message(`devices/${DEVICE_ID}/commands/ack`, { commandId: COMMAND_ID, response: { rebooted: true } })
+    );
+    await relay.handleMqttMessage(
+      message(`devices/${DEVICE_ID}/commands/ack`, { commandId: COMMAND_ID, status: 'failed', error: 'busy' })
+    );
+
+    expect(statuses.map(({ status, response, error }) => ({ status, response, error }))).toEqual([
+      { status: 'acked', response: { rebooted: true }, error: undefined },
+      { status: 'failed', response: undefined, error: 'busy' },
+    ]);
+  });
+
+  it('should map ChirpStack txack and ack events to command statuses', async () => {
+    const deviceInfo = { devEui: '70b3d57ed0000001', applicationId: 'app-1' };
+
+    await relay.handleMqttMessage(
+      message('application/app-1/device/70b3d57ed0000001/event/txack', { deviceInfo, queueItemId: COMMAND_ID })
+    );
+    await relay.handleMqttMessage(
+      message('application/app-1/device/70b3d57ed0000001/event/ack', {
+        deviceInfo,
+        queueItemId: COMMAND_ID,
+        acknowledged: false,
+      })
+    );
+
+    expect(statuses.map((s) => [s.deviceId, s.status])).toEqual([
+      [DEVICE_ID, 'delivered'],
+      [DEVICE_ID, 'failed'],
+    ]);
+  });
+});
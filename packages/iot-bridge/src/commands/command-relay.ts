@@ -0,0 +1,327 @@
+/**
+ * Device Command Relay
+ *
+ * Relays commands queued through the API to devices and reports their progress:
+ *
+ *   NATS {prefix}.commands.down.{deviceId}
+ *     → direct devices: MQTT devices/{deviceId}/commands
+ *     → LoRaWAN devices: ChirpStack downlink (application/{appId}/device/{devEui}/command/down)
+ *
+ *   devices/{deviceId}/commands/ack        → acked / failed
+ *   ChirpStack .../event/txack             → delivered
+ *   ChirpStack .../event/ack               → acked / failed (confirmed downlinks)
+ *     → NATS {prefix}.commands.status.{deviceId}
+ *
+ * ChirpStack downlinks are enqueued with the command ID as queue item ID, so
+ * txack/ack events carry it back as queueItemId.
+ */
+
+import { z } from 'zod';
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+
+export type CommandStatus = 'sent' | 'delivered' | 'acked' | 'failed' | 'expired';
+
+/** Status report consumed by the API command status worker */
+export interface CommandStatusEvent {
+  commandId: string;
+  deviceId: string;
+  status: CommandStatus;
+  error?: string;
+  response?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/** Command published by the API on {prefix}.commands.down.{deviceId} */
+const downlinkCommandSchema = z.object({
+  commandId: z.string(),
+  deviceId: z.string(),
+  command: z.string(),
+  payload: z.record(z.string(), z.unknown()).default({}),
+  transport: z.enum(['mqtt', 'chirpstack']),
+  requireAck: z.boolean().default(false),
+  expiresAt: z.string(),
+  devEui: z.string().optional(),
+  applicationId: z.string().optional(),
+  fPort: z.number().int().optional(),
+  data: z.string().optional(),
+});
+export type DownlinkCommand = z.infer<typeof downlinkCommandSchema>;
+
+/** Acknowledgement published by direct devices */
+const deviceAckSchema = z.object({
+  commandId: z.string(),
+  status: z.enum(['delivered', 'acked', 'failed']).default('acked'),
+  response: z.record(z.string(), z.unknown()).optional(),
+  error: z.string().optional(),
+});
+
+/** ChirpStack v4 txack / ack event (fields used here) */
+interface ChirpStackDownlinkEvent {
+  deviceInfo?: { devEui?: string; applicationId?: string };
+  queueItemId?: string;
+  acknowledged?: boolean;
+}
+
+export interface CommandRelayConfig {
+  /** MQTT topic for direct devices ({deviceId} is substituted) */
+  deviceTopic: string;
+  /** MQTT topic pattern direct devices acknowledge on */
+  deviceAckTopic: string;
+  /** ChirpStack uplink topic pattern; the first wildcard is the application ID, the second the DevEUI */
+  chirpstackUplinkTopic: string | null;
+  /** ChirpStack downlink topic ({applicationId} and {devEui} are substituted) */
+  chirpstackDownlinkTopic: string;
+  qos: 0 | 1 | 2;
+}
+
+export interface CommandRelayDeps {
+  publishMqtt(topic: string, payload: string, qos: 0 | 1 | 2): Promise<void>;
+  publishStatus(event: CommandStatusEvent): Promise<void>;
+  /** DevEUI → device UUID */
+  resolveDevice(identifier: string): string | null;
+  logger: Logger;
+  now?: () => Date;
+}
+
+/**
+ * Matches a topic against an MQTT pattern and returns the single-level wildcard values
+ */
+export function matchTopicWildcards(pattern: string, topic: string): string[] | null {
+  const patternLevels = pattern.split('/');
+  const topicLevels = topic.split('/');
+  const values: string[] = [];
+
+  for (let i = 0; i < patternLevels.length; i++) {
+    const level = patternLevels[i];
+    if (level === '#') return values;
+    if (i >= topicLevels.length) return null;
+    if (level === '+') {
+      values.push(topicLevels[i]);
+    } else if (level !== topicLevels[i]) {
+      return null;
+    }
+  }
+
+  return patternLevels.length === topicLevels.length ? values : null;
+}
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export class CommandRelay {
+  private applicationIds = new Map<string, string>();
+  private chirpstackEventPatterns: { txack: string; ack: string } | null = null;
+  private now: () => Date;
+
+  // Metrics
+  private metrics = {
+    commandsRelayed: 0,
+    commandsExpired: 0,
+    commandsFailed: 0,
+    acksReceived: 0,
+  };
+
+  constructor(
+    private config: CommandRelayConfig,
+    private deps: CommandRelayDeps
+  ) {
+    this.now = deps.now ?? (() => new Date());
+
+    // ChirpStack publishes events next to uplinks: .../event/up → .../event/txack, .../event/ack
+    const uplink = config.chirpstackUplinkTopic;
+    if (uplink?.endsWith('/up')) {
+      const base = uplink.slice(0, -'up'.length);
+      this.chirpstackEventPatterns = { txack: `${base}txack`, ack: `${base}ack` };
+    }
+  }
+
+  /**
+   * MQTT topic patterns carrying acknowledgements
+   */
+  getTopicPatterns(): string[] {
+    const patterns = [this.config.deviceAckTopic];
+    if (this.chirpstackEventPatterns) {
+      patterns.push(this.chirpstackEventPatterns.txack, this.chirpstackEventPatterns.ack);
+    }
+    return patterns;
+  }
+
+  /**
+   * Whether an MQTT message is an acknowledgement handled by the relay
+   */
+  matchTopic(topic: string): boolean {
+    return this.getTopicPatterns().some((pattern) => matchTopicWildcards(pattern, topic) !== null);
+  }
+
+  /**
+   * Remembers the ChirpStack application of a device from its uplink topic,
+   * for downlinks queued without one
+   */
+  observeUplink(topic: string): void {
+    if (!this.config.chirpstackUplinkTopic) return;
+    const values = matchTopicWildcards(this.config.chirpstackUplinkTopic, topic);
+    if (values && values.length >= 2) {
+      this.applicationIds.set(values[1].toLowerCase(), values[0]);
+    }
+  }
+
+  /**
+   * Relay a command from NATS to the device
+   *
+   * Throws when the MQTT publish fails so the command is redelivered.
+   */
+  async handleDownlink(data: Uint8Array): Promise<void> {
+    let command: DownlinkCommand;
+    try {
+      command = downlinkCommandSchema.parse(JSON.parse(new TextDecoder().decode(data)));
+    } catch (error) {
+      this.deps.logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Dropping invalid device command'
+      );
+      return;
+    }
+
+    if (Date.parse(command.expiresAt) <= this.now().getTime()) {
+      this.metrics.commandsExpired++;
+      await this.report(command, 'expired', { error: 'Command expired before it could be sent' });
+      return;
+    }
+
+    let topic: string;
+    let payload: Record<string, unknown>;
+    if (command.transport === 'chirpstack') {
+      const devEui = command.devEui?.toLowerCase();
+      const applicationId = command.applicationId ?? (devEui ? this.applicationIds.get(devEui) : undefined);
+      if (!devEui || command.fPort === undefined) {
+        this.metrics.commandsFailed++;
+        await this.report(command, 'failed', { error: 'LoRaWAN command requires a DevEUI and fPort' });
+        return;
+      }
+      if (!applicationId) {
+        this.metrics.commandsFailed++;
+        await this.report(command, 'failed', {
+          error: 'ChirpStack application is unknown (no applicationId and no uplink seen yet)',
+        });
+        return;
+      }
+
+      topic = fillTemplate(this.config.chirpstackDownlinkTopic, { applicationId, devEui });
+      payload = {
+        id: command.commandId,
+        devEui,
+        confirmed: command.requireAck,
+        fPort: command.fPort,
+        // Raw bytes, or the payload for the device profile codec to encode
+        ...(command.data !== undefined ? { data: command.data } : { object: command.payload }),
+      };
+    } else {
+      topic = fillTemplate(this.config.deviceTopic, { deviceId: command.deviceId });
+      payload = {
+        commandId: command.commandId,
+        command: command.command,
+        payload: command.payload,
+        requireAck: command.requireAck,
+        expiresAt: command.expiresAt,
+      };
+    }
+
+    await this.deps.publishMqtt(topic, JSON.stringify(payload), this.config.qos);
+    this.metrics.commandsRelayed++;
+    this.deps.logger.debug(
+      { commandId: command.commandId, deviceId: command.deviceId, topic },
+      'Relayed device command'
+    );
+    await this.report(command, 'sent');
+  }
+
+  /**
+   * Handle a device acknowledgement or ChirpStack downlink event
+   */
+  async handleMqttMessage(message: MqttMessage): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(message.payload.toString('utf-8'));
+    } catch {
+      this.deps.logger.warn({ topic: message.topic }, 'Command acknowledgement is not valid JSON');
+      return;
+    }
+
+    if (matchTopicWildcards(this.config.deviceAckTopic, message.topic)) {
+      await this.handleDeviceAck(message.topic, body);
+      return;
+    }
+
+    const events = this.chirpstackEventPatterns;
+    if (events && matchTopicWildcards(events.txack, message.topic)) {
+      await this.handleChirpStackEvent(message.topic, body as ChirpStackDownlinkEvent, 'txack');
+    } else if (events && matchTopicWildcards(events.ack, message.topic)) {
+      await this.handleChirpStackEvent(message.topic, body as ChirpStackDownlinkEvent, 'ack');
+    }
+  }
+
+  /**
+   * Get relay metrics
+   */
+  getMetrics() {
+    return { ...this.metrics };
+  }
+
+  private async handleDeviceAck(topic: string, body: unknown): Promise<void> {
+    const deviceId = matchTopicWildcards(this.config.deviceAckTopic, topic)?.[0];
+    const parsed = deviceAckSchema.safeParse(body);
+    if (!deviceId || !parsed.success) {
+      this.deps.logger.warn({ topic }, 'Invalid command acknowledgement');
+      return;
+    }
+
+    this.metrics.acksReceived++;
+    const ack = parsed.data;
+    await this.report({ commandId: ack.commandId, deviceId }, ack.status, {
+      response: ack.response,
+      error: ack.error,
+    });
+  }
+
+  private async handleChirpStackEvent(
+    topic: string,
+    event: ChirpStackDownlinkEvent,
+    type: 'txack' | 'ack'
+  ): Promise<void> {
+    const devEui = event?.deviceInfo?.devEui;
+    const deviceId = devEui ? this.deps.resolveDevice(devEui) : null;
+    if (!event?.queueItemId || !deviceId) {
+      this.deps.logger.debug({ topic, devEui }, 'Ignoring ChirpStack event for unknown command or device');
+      return;
+    }
+
+    this.metrics.acksReceived++;
+    const command = { commandId: event.queueItemId, deviceId };
+    if (type === 'txack') {
+      await this.report(command, 'delivered');
+    } else if (event.acknowledged) {
+      await this.report(command, 'acked');
+    } else {
+      await this.report(command, 'failed', { error: 'Device did not acknowledge the confirmed downlink' });
+    }
+  }
+
+  private async report(
+    command: { commandId: string; deviceId: string },
+    status: CommandStatus,
+    details: { error?: string; response?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    const event: CommandStatusEvent = {
+      commandId: command.commandId,
+      deviceId: command.deviceId,
+      status,
+      timestamp: this.now().toISOString(),
+    };
+    if (details.error !== undefined) event.error = details.error;
+    if (details.response !== undefined) event.response = details.response;
+
+    await this.deps.publishStatus(event);
+  }
+}
@@ -20,6 +20,7 @@ const configSchema = z.object({
     // Topics to subscribe to (supports wildcards)
     // - devices/+/telemetry: Direct device messages (cellular, BLE gateways)
     // - chirpstack/+/devices/+/up: ChirpStack uplink messages (LoRa devices)
+    // Topic patterns of enabled protocol adapters are subscribed in addition
     topics: z.array(z.string()).default(['devices/+/telemetry', 'chirpstack/+/devices/+/up']),
     qos: z.union([z.literal(0), z.literal(1), z.literal(2)]).default(1),
     // Connection options
@@ -52,6 +53,25 @@ const configSchema = z.object({
     batchTimeout: z.number().default(1000),
     // Enable message validation
     validateMessages: z.boolean().default(true),
+    // Publish attempts before a message is dead-lettered
+    publishMaxAttempts: z.number().int().min(1).default(5),
+    // Backoff between publish attempts (ms, doubled per attempt up to the max)
+    publishRetryBaseMs: z.number().int().min(10).default(1000),
+    publishRetryMaxMs: z.number().int().min(10).default(60000),
+    // Messages held for retry before further failures are dead-lettered immediately
+    retryQueueLimit: z.number().int().min(1).default(10000),
+  }),
+
+  // Dead-letter queue for messages the bridge cannot deliver
+  deadLetter: z.object({
+    enabled: z.boolean().default(true),
+    // Separate stream so dead letters can be kept longer than telemetry
+    streamName: z.string().default('TELEMETRY_DLQ'),
+    // Messages are stored on {subjectPrefix}.{reason}
+    subjectPrefix: z.string().default('dlq.telemetry'),
+    maxAgeDays: z.number().int().min(1).default(14),
+    // Durable consumer for replay requests on {nats.subjectPrefix}.replay
+    replayDurableName: z.string().default('iot-bridge-replay'),
   }),
 
   // ChirpStack Integration Configuration
@@ -65,6 +85,32 @@ const configSchema = z.object({
     //   - 'chirpstack/+/devices/+/up' (custom)
     //   - 'v3/+/devices/+/rx' (custom)
     topicPattern: z.string().default('application/+/device/+/event/up'),
+    // MQTT topic for downlinks ({applicationId} and {devEui} are substituted)
+    downlinkTopic: z.string().default('application/{applicationId}/device/{devEui}/command/down'),
+  }),
+
+  // Device Commands (queued through the API, relayed to devices by the bridge)
+  commands: z.object({
+    enabled: z.boolean().default(true),
+    // Durable JetStream consumer for {subjectPrefix}.commands.down.>
+    durableName: z.string().default('iot-bridge-commands'),
+    // Deliveries before a command that cannot be relayed is dropped
+    maxDeliver: z.number().int().min(1).default(5),
+    // MQTT topic commands are published to for direct devices ({deviceId} is substituted)
+    deviceTopic: z.string().default('devices/{deviceId}/commands'),
+    // MQTT topic pattern direct devices acknowledge commands on
+    deviceAckTopic: z.string().default('devices/+/commands/ack'),
+  }),
+
+  // Protocol Adapters
+  adapters: z.object({
+    // Adapters to register (names match device_types.protocol_adapter)
+    // Direct device topics use the adapter of the device's type ('json' if unknown)
+    enabled: z
+      .array(z.string())
+      .default(['json', 'chirpstack', 'ttn-v3', 'sparkplug-b', 'csv']),
+    // MQTT topic pattern for The Things Stack v3 uplinks
+    ttnTopicPattern: z.string().default('v3/+/devices/+/up'),
   }),
 
   // Logging
@@ -120,11 +166,37 @@ export function loadConfig(): Config {
       batchSize: process.env.BATCH_SIZE ? parseInt(process.env.BATCH_SIZE) : undefined,
       batchTimeout: process.env.BATCH_TIMEOUT ? parseInt(process.env.BATCH_TIMEOUT) : undefined,
       validateMessages: process.env.VALIDATE_MESSAGES === 'true',
+      publishMaxAttempts: process.env.PUBLISH_MAX_ATTEMPTS ? parseInt(process.env.PUBLISH_MAX_ATTEMPTS) : undefined,
+      publishRetryBaseMs: process.env.PUBLISH_RETRY_BASE_MS ? parseInt(process.env.PUBLISH_RETRY_BASE_MS) : undefined,
+      publishRetryMaxMs: process.env.PUBLISH_RETRY_MAX_MS ? parseInt(process.env.PUBLISH_RETRY_MAX_MS) : undefined,
+      retryQueueLimit: process.env.RETRY_QUEUE_LIMIT ? parseInt(process.env.RETRY_QUEUE_LIMIT) : undefined,
+    },
+
+    deadLetter: {
+      enabled: process.env.DLQ_ENABLED !== 'false',
+      streamName: process.env.DLQ_STREAM_NAME,
+      subjectPrefix: process.env.DLQ_SUBJECT_PREFIX,
+      maxAgeDays: process.env.DLQ_MAX_AGE_DAYS ? parseInt(process.env.DLQ_MAX_AGE_DAYS) : undefined,
+      replayDurableName: process.env.DLQ_REPLAY_DURABLE_NAME,
     },
 
     chirpstack: {
       enabled: chirpstackEnabled,
       topicPattern: chirpstackTopicPattern,
+      downlinkTopic: process.env.CHIRPSTACK_DOWNLINK_TOPIC,
+    },
+
+    commands: {
+      enabled: process.env.COMMANDS_ENABLED !== 'false',
+      durableName: process.env.COMMANDS_DURABLE_NAME,
+      maxDeliver: process.env.COMMANDS_MAX_DELIVER ? parseInt(process.env.COMMANDS_MAX_DELIVER) : undefined,
+      deviceTopic: process.env.COMMANDS_DEVICE_TOPIC,
+      deviceAckTopic: process.env.COMMANDS_DEVICE_ACK_TOPIC,
+    },
+
+    adapters: {
+      enabled: process.env.PROTOCOL_ADAPTERS?.split(',').map(a => a.trim()),
+      ttnTopicPattern: process.env.TTN_TOPIC_PATTERN,
     },
 
     logging: {
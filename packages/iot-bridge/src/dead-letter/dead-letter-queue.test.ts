@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the dead-letter queue
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeadLetterQueue, stripDeadLetterHeaders } from './dead-letter-queue.js';
+import type { Logger } from '../logger.js';
+import type { NatsMessage } from '../nats-client.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+describe('DeadLetterQueue', () => {
+  let published: NatsMessage[];
+  let publish: ReturnType<typeof vi.fn<(message: NatsMessage) => Promise<void>>>;
+  let logger: Logger;
+  let queue: DeadLetterQueue;
+
+  beforeEach(() => {
+    published = [];
+    publish = vi.fn(async (message: NatsMessage) => {
+      published.push(message);
+    });
+    logger = { error: vi.fn() } as unknown as Logger;
+    queue = new DeadLetterQueue({ subjectPrefix: 'dlq.telemetry', maxPayloadSize: 8 }, { publish, logger, now: () => NOW });
+  });
+
+  it('should store rejected MQTT messages with the reason and original topic', async () => {
+    await queue.rejectMqtt(
+      { topic: 'application/app-1/device/0102/event/up', payload: Buffer.from('{"a":1}'), qos: 1, retain: false },
+      'unmapped',
+      'No device is mapped',
+      { adapter: 'chirpstack', identifiers: ['0102', '0304'] }
+    );
+
+    expect(published).toHaveLength(1);
+    expect(published[0].subject).toBe('dlq.telemetry.unmapped');
+    expect(new TextDecoder().decode(published[0].data)).toBe('{"a":1}');
+    expect(published[0].headers).toEqual({
+      'mqtt-topic': 'application/app-1/device/0102/event/up',
+      'mqtt-qos': '1',
+      'received-at': NOW.toISOString(),
+      adapter: 'chirpstack',
+      identifiers: '0102,0304',
+      'dlq-reason': 'unmapped',
+      'dlq-error': 'No device is mapped',
+      'dead-lettered-at': NOW.toISOString(),
+    });
+    expect(queue.getMetrics()).toMatchObject({ deadLettered: 1, byReason: { unmapped: 1 } });
+  });
+
+  it('should keep the NATS subject and headers of publish failures', async () => {
+    await queue.rejectPublish(
+      { subject: 'telemetry.raw.d1', data: new Uint8Array([1, 2]), headers: { 'device-id': 'd1' } },
+      'timeout\nafter 5s',
+      5
+    );
+
+    expect(published[0].subject).toBe('dlq.telemetry.publish_failed');
+    expect(published[0].headers).toMatchObject({
+      'device-id': 'd1',
+      'nats-subject': 'telemetry.raw.d1',
+      'publish-attempts': '5',
+      'dlq-error': 'timeout after 5s',
+    });
+    expect(stripDeadLetterHeaders(published[0].headers!)).toEqual({ 'device-id': 'd1' });
+  });
+
+  it('should truncate oversized payloads', async () => {
+    await queue.rejectMqtt({ topic: 'devices/x/telemetry', payload: Buffer.alloc(20), qos: 0, retain: false }, 'invalid', 'bad');
+
+    expect(published[0].data).toHaveLength(8);
+    expect(published[0].headers?.['dlq-truncated']).toBe('20');
+  });
+
+  it('should log instead of throwing when the dead letter cannot be stored', async () => {
+    publish.mockRejectedValueOnce(new Error('no responders'));
+
+    await expect(
+      queue.rejectMqtt({ topic: 'unknown/topic', payload: Buffer.from('x'), qos: 0, retain: false }, 'unknown_topic', 'x')
+    ).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalled();
+    expect(queue.getMetrics()).toMatchObject({ deadLettered: 0, deadLetterFailed: 1 });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Dead-Letter Queue
+ *
+ * Stores messages the bridge cannot deliver on a separate JetStream stream,
+ * instead of dropping them:
+ *
+ *   {dlqPrefix}.invalid          no device ID, adapter not enabled, decode error
+ *   {dlqPrefix}.unknown_topic    no adapter claims the MQTT topic
+ *   {dlqPrefix}.unmapped         vendor identifiers not provisioned in ArgusIQ
+ *   {dlqPrefix}.too_large        adapted telemetry exceeds processing.maxMessageSize
+ *   {dlqPrefix}.publish_failed   NATS publish failed after all retries
+ *
+ * Rejected MQTT messages keep the original payload with the MQTT topic in the
+ * mqtt-topic header; publish failures keep the NATS payload and headers with
+ * the target subject in nats-subject. Replaying (see BridgeService) re-runs
+ * the former through the adapters and republishes the latter.
+ */
+
+import type { Logger } from '../logger.js';
+import type { MqttMessage } from '../mqtt-client.js';
+import type { NatsMessage } from '../nats-client.js';
+
+export const DEAD_LETTER_REASONS = ['invalid', 'unknown_topic', 'unmapped', 'too_large', 'publish_failed'] as const;
+export type DeadLetterReason = (typeof DEAD_LETTER_REASONS)[number];
+
+/** Header names shared with the API dead-letter service */
+export const DLQ_HEADERS = {
+  reason: 'dlq-reason',
+  error: 'dlq-error',
+  deadLetteredAt: 'dead-lettered-at',
+  truncated: 'dlq-truncated',
+  natsSubject: 'nats-subject',
+  attempts: 'publish-attempts',
+  identifiers: 'identifiers',
+} as const;
+
+const MAX_ERROR_LENGTH = 1024;
+
+/** Details about a rejected MQTT message */
+export interface DeadLetterContext {
+  adapter?: string;
+  deviceId?: string;
+  /** Unmapped vendor identifiers */
+  identifiers?: string[];
+  receivedAt?: Date;
+}
+
+export interface DeadLetterQueueConfig {
+  /** Dead letters are published on {subjectPrefix}.{reason} */
+  subjectPrefix: string;
+  /** Larger payloads are truncated (and cannot be replayed) */
+  maxPayloadSize: number;
+}
+
+export interface DeadLetterQueueDeps {
+  publish(message: NatsMessage): Promise<void>;
+  logger: Logger;
+  now?: () => Date;
+}
+
+/** Headers added when dead-lettering, besides the dlq-* ones */
+const DEAD_LETTER_ONLY_HEADERS: string[] = [
+  DLQ_HEADERS.deadLetteredAt,
+  DLQ_HEADERS.natsSubject,
+  DLQ_HEADERS.attempts,
+];
+
+/**
+ * Original headers of a dead-lettered NATS message, for republishing
+ */
+export function stripDeadLetterHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([key]) => !key.startsWith('dlq-') && !DEAD_LETTER_ONLY_HEADERS.includes(key))
+  );
+}
+
+/** NATS header values cannot span lines */
+function headerValue(value: string, maxLength = MAX_ERROR_LENGTH): string {
+  return value.replace(/[\r\n]+/g, ' ').slice(0, maxLength);
+}
+
+export class DeadLetterQueue {
+  private now: () => Date;
+
+  // Metrics
+  private metrics = {
+    deadLettered: 0,
+    deadLetterFailed: 0,
+    byReason: {} as Partial<Record<DeadLetterReason, number>>,
+  };
+
+  constructor(
+    private config: DeadLetterQueueConfig,
+    private deps: DeadLetterQueueDeps
+  ) {
+    this.now = deps.now ?? (() => new Date());
+  }
+
+  /**
+   * Dead-letter an MQTT message rejected before reaching NATS
+   */
+  async rejectMqtt(
+    message: MqttMessage,
+    reason: Exclude<DeadLetterReason, 'publish_failed'>,
+    error: string,
+    context: DeadLetterContext = {}
+  ): Promise<void> {
+    const headers: Record<string, string> = {
+      'mqtt-topic': message.topic,
+      'mqtt-qos': message.qos.toString(),
+      'received-at': (context.receivedAt ?? this.now()).toISOString(),
+    };
+    if (context.adapter) headers.adapter = context.adapter;
+    if (context.deviceId) headers['device-id'] = context.deviceId;
+    if (context.identifiers?.length) {
+      headers[DLQ_HEADERS.identifiers] = headerValue(context.identifiers.join(','));
+    }
+
+    await this.store(reason, error, new Uint8Array(message.payload), headers);
+  }
+
+  /**
+   * Dead-letter a telemetry message NATS did not accept
+   */
+  async rejectPublish(message: NatsMessage, error: string, attempts: number): Promise<void> {
+    await this.store('publish_failed', error, message.data, {
+      ...message.headers,
+      [DLQ_HEADERS.natsSubject]: message.subject,
+      [DLQ_HEADERS.attempts]: attempts.toString(),
+    });
+  }
+
+  /**
+   * Get dead-letter metrics
+   */
+  getMetrics() {
+    return { ...this.metrics, byReason: { ...this.metrics.byReason } };
+  }
+
+  /**
+   * Publish a dead letter; failures are logged rather than thrown so a
+   * broken dead-letter path never blocks message processing
+   */
+  private async store(
+    reason: DeadLetterReason,
+    error: string,
+    data: Uint8Array,
+    headers: Record<string, string>
+  ): Promise<void> {
+    const dlqHeaders: Record<string, string> = {
+      ...headers,
+      [DLQ_HEADERS.reason]: reason,
+      [DLQ_HEADERS.error]: headerValue(error),
+      [DLQ_HEADERS.deadLetteredAt]: this.now().toISOString(),
+    };
+
+    let payload = data;
+    if (payload.length > this.config.maxPayloadSize) {
+      dlqHeaders[DLQ_HEADERS.truncated] = payload.length.toString();
+      payload = payload.subarray(0, this.config.maxPayloadSize);
+    }
+
+    try {
+      await this.deps.publish({ subject: `${this.config.subjectPrefix}.${reason}`, data: payload, headers: dlqHeaders });
+      this.metrics.deadLettered++;
+      this.metrics.byReason[reason] = (this.metrics.byReason[reason] ?? 0) + 1;
+    } catch (publishError) {
+      this.metrics.deadLetterFailed++;
+      this.deps.logger.error(
+        {
+          reason,
+          topic: headers['mqtt-topic'],
+          error: publishError instanceof Error ? publishError.message : String(publishError),
+        },
+        'Failed to dead-letter message, message is lost'
+      );
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the publish retry queue
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PublishRetryQueue } from './publish-retry-queue.js';
+import type { Logger } from '../logger.js';
+import type { NatsMessage, NatsPublishFailure } from '../nats-client.js';
+
+function message(id: string): NatsMessage {
+  return { subject: `telemetry.raw.${id}`, data: new Uint8Array([1]) };
+}
+
+describe('PublishRetryQueue', () => {
+  let now: number;
+  let publishBatch: ReturnType<typeof vi.fn<(messages: NatsMessage[]) => Promise<NatsPublishFailure[]>>>;
+  let deadLetter: ReturnType<typeof vi.fn<(message: NatsMessage, error: string, attempts: number) => Promise<void>>>;
+  let queue: PublishRetryQueue;
+
+  beforeEach(() => {
+    now = Date.parse('2026-03-01T12:00:00Z');
+    publishBatch = vi.fn().mockResolvedValue([]);
+    deadLetter = vi.fn().mockResolvedValue(undefined);
+    queue = new PublishRetryQueue(
+      { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 3000, limit: 2 },
+      { publishBatch, deadLetter, logger: { warn: vi.fn() } as unknown as Logger, now: () => new Date(now) }
+    );
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map((attempts) => queue.delayFor(attempts))).toEqual([1000, 2000, 3000, 3000]);
+  });
+
+  it('should retry messages once their backoff has elapsed', async () => {
+    const msg = message('a');
+    await queue.add([{ message: msg, error: 'timeout' }]);
+
+    await queue.processDue();
+    expect(publishBatch).not.toHaveBeenCalled();
+
+    now += 1000;
+    await queue.processDue();
+    expect(publishBatch).toHaveBeenCalledWith([msg]);
+    expect(queue.size()).toBe(0);
+    expect(queue.getMetrics()).toMatchObject({ retryAttempts: 1, retriesRecovered: 1 });
+  });
+
+  it('should dead-letter messages after the maximum attempts', async () => {
+    const msg = message('a');
+    publishBatch.mockImplementation(async (messages) => messages.map((m) => ({ message: m, error: 'no stream' })));
+    await queue.add([{ message: msg, error: 'timeout' }]);
+
+    now += 1000;
+    await queue.processDue();
+    expect(queue.size()).toBe(1);
+    expect(deadLetter).not.toHaveBeenCalled();
+
+    now += 2000;
+    await queue.processDue();
+    expect(deadLetter).toHaveBeenCalledWith(msg, 'no stream', 3);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should treat a thrown batch publish as a failure of every message', async () => {
+    publishBatch.mockRejectedValueOnce(new Error('JetStream client not initialized'));
+    await queue.add([{ message: message('a'), error: 'timeout' }]);
+
+    now += 1000;
+    await queue.processDue();
+    expect(queue.size()).toBe(1);
+    expect(queue.getMetrics()).toMatchObject({ retryAttempts: 1, retriesRecovered: 0 });
+  });
+
+  it('should dead-letter immediately when the queue is full', async () => {
+    await queue.add(['a', 'b', 'c'].map((id) => ({ message: message(id), error: 'timeout' })));
+
+    expect(queue.size()).toBe(2);
+    expect(deadLetter).toHaveBeenCalledWith(message('c'), 'timeout (retry queue full)', 1);
+  });
+
+  it('should dead-letter messages still failing when forced on shutdown', async () => {
+    const msg = message('a');
+    publishBatch.mockResolvedValueOnce([{ message: msg, error: 'closed' }]);
+    await queue.add([{ message: msg, error: 'timeout' }]);
+
+    await queue.processDue(true);
+    expect(deadLetter).toHaveBeenCalledWith(msg, 'closed', 2);
+    expect(queue.size()).toBe(0);
+  });
+});
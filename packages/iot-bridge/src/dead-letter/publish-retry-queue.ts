@@ -0,0 +1,152 @@
+/**
+ * Publish Retry Queue
+ *
+ * Holds telemetry NATS did not accept and retries it with exponential backoff
+ * (baseDelayMs × 2^(attempt-1), capped at maxDelayMs). Messages still failing
+ * after maxAttempts - or failing while the queue is full - are handed to the
+ * dead-letter queue.
+ */
+
+import type { Logger } from '../logger.js';
+import type { NatsMessage, NatsPublishFailure } from '../nats-client.js';
+
+export interface PublishRetryConfig {
+  /** Publish attempts, including the first, before a message is dead-lettered */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Messages held for retry */
+  limit: number;
+}
+
+export interface PublishRetryDeps {
+  publishBatch(messages: NatsMessage[]): Promise<NatsPublishFailure[]>;
+  deadLetter(message: NatsMessage, error: string, attempts: number): Promise<void>;
+  logger: Logger;
+  now?: () => Date;
+}
+
+interface PendingPublish {
+  message: NatsMessage;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export class PublishRetryQueue {
+  private pending: PendingPublish[] = [];
+  private processing = false;
+  private now: () => Date;
+
+  // Metrics
+  private metrics = {
+    retryAttempts: 0,
+    retriesRecovered: 0,
+    retriesExhausted: 0,
+    retryOverflow: 0,
+  };
+
+  constructor(
+    private config: PublishRetryConfig,
+    private deps: PublishRetryDeps
+  ) {
+    this.now = deps.now ?? (() => new Date());
+  }
+
+  /**
+   * Backoff before the attempt following `attempts` failed attempts
+   */
+  delayFor(attempts: number): number {
+    return Math.min(this.config.baseDelayMs * 2 ** (attempts - 1), this.config.maxDelayMs);
+  }
+
+  /**
+   * Schedule messages that failed their first publish attempt
+   */
+  async add(failures: NatsPublishFailure[]): Promise<void> {
+    for (const failure of failures) {
+      await this.schedule(failure.message, 1, failure.error);
+    }
+  }
+
+  /**
+   * Retry messages whose backoff has elapsed
+   *
+   * @param force - Retry all pending messages and dead-letter those still
+   *   failing (used on shutdown)
+   */
+  async processDue(force = false): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = this.now().getTime();
+      const due = this.pending.filter((entry) => force || entry.nextAttemptAt <= now);
+      if (due.length === 0) return;
+      this.pending = this.pending.filter((entry) => !due.includes(entry));
+
+      let failures: NatsPublishFailure[];
+      try {
+        failures = await this.deps.publishBatch(due.map((entry) => entry.message));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures = due.map((entry) => ({ message: entry.message, error: message }));
+      }
+
+      this.metrics.retryAttempts += due.length;
+      this.metrics.retriesRecovered += due.length - failures.length;
+
+      const entries = new Map(due.map((entry) => [entry.message, entry]));
+      for (const failure of failures) {
+        const attempts = (entries.get(failure.message)?.attempts ?? 0) + 1;
+        if (force) {
+          this.metrics.retriesExhausted++;
+          await this.deps.deadLetter(failure.message, failure.error, attempts);
+        } else {
+          await this.schedule(failure.message, attempts, failure.error);
+        }
+      }
+
+      if (failures.length > 0) {
+        this.deps.logger.warn(
+          { retried: due.length, failed: failures.length, pending: this.pending.length },
+          'Publish retry failed for some messages'
+        );
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Number of messages waiting for a retry
+   */
+  size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Get retry metrics
+   */
+  getMetrics() {
+    return { ...this.metrics, pending: this.pending.length };
+  }
+
+  private async schedule(message: NatsMessage, attempts: number, error: string): Promise<void> {
+    if (attempts >= this.config.maxAttempts) {
+      this.metrics.retriesExhausted++;
+      await this.deps.deadLetter(message, error, attempts);
+      return;
+    }
+    if (this.pending.length >= this.config.limit) {
+      this.metrics.retryOverflow++;
+      await this.deps.deadLetter(message, `${error} (retry queue full)`, attempts);
+      return;
+    }
+
+    this.pending.push({
+      message,
+      attempts,
+      nextAttemptAt: this.now().getTime() + this.delayFor(attempts),
+    });
+  }
+}
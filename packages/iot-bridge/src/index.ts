@@ -83,7 +83,7 @@ async function main() {
 
   // Create database loader for device mappings
   if (!databaseUrl) {
-    logger.warn('DATABASE_URL not set - device mappings will be empty (ChirpStack integration disabled)');
+    logger.warn('DATABASE_URL not set - device mappings will be empty (ChirpStack, TTN and Sparkplug devices cannot be resolved)');
   }
 
   const dbLoader = databaseUrl
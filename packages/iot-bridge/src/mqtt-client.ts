@@ -109,6 +109,27 @@ export class MqttClient {
     });
   }
 
+  /**
+   * Publish a message
+   */
+  async publish(topic: string, payload: string | Buffer, qos: 0 | 1 | 2 = this.config.mqtt.qos): Promise<void> {
+    if (!this.client) {
+      throw new Error('MQTT client not connected');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.publish(topic, payload, { qos }, (error) => {
+        if (error) {
+          this.logger.error({ error: error.message, topic }, 'Failed to publish MQTT message');
+          reject(error);
+        } else {
+          this.logger.debug({ topic }, 'Published MQTT message');
+          resolve();
+        }
+      });
+    });
+  }
+
   /**
    * Set message handler
    */
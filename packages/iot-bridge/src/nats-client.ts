@@ -4,7 +4,17 @@
  * Manages connection to NATS and publishes messages to JetStream streams.
  */
 
-import { connect, NatsConnection, JetStreamClient, JetStreamManager, StreamConfig, headers as createHeaders } from 'nats';
+import {
+  connect,
+  NatsConnection,
+  JetStreamClient,
+  JetStreamManager,
+  StreamConfig,
+  AckPolicy,
+  DeliverPolicy,
+  type ConsumerMessages,
+  headers as createHeaders,
+} from 'nats';
 import type { Config } from './config.js';
 import type { Logger } from './logger.js';
 
@@ -14,10 +24,30 @@ export interface NatsMessage {
   headers?: Record<string, string>;
 }
 
+/** A message that could not be published */
+export interface NatsPublishFailure {
+  message: NatsMessage;
+  error: string;
+}
+
+/** Handles a consumed message; a thrown error requests redelivery */
+export type NatsMessageHandler = (message: NatsMessage) => Promise<void>;
+
+export interface NatsConsumerOptions {
+  /** Durable consumer name - progress survives restarts */
+  durableName: string;
+  filterSubject: string;
+  /** Messages delivered more than this are dropped */
+  maxDeliver: number;
+  /** Delay before redelivering a message whose handler failed */
+  retryDelayMs?: number;
+}
+
 export class NatsClient {
   private nc: NatsConnection | null = null;
   private js: JetStreamClient | null = null;
   private jsm: JetStreamManager | null = null;
+  private consumers: Array<{ messages: ConsumerMessages; loop: Promise<void> }> = [];
 
   constructor(
     private config: Config,
@@ -53,8 +83,11 @@ export class NatsClient {
       }
     })();
 
-    // Ensure stream exists
+    // Ensure streams exist
     await this.ensureStream();
+    if (this.config.deadLetter.enabled) {
+      await this.ensureDeadLetterStream();
+    }
   }
 
   /**
@@ -91,6 +124,40 @@ export class NatsClient {
     }
   }
 
+  /**
+   * Ensure the dead-letter stream exists
+   *
+   * Kept separate from the telemetry stream so dead letters can be retained
+   * longer and are never consumed by telemetry workers. Direct get is enabled
+   * for the API to browse it without creating consumers.
+   */
+  private async ensureDeadLetterStream(): Promise<void> {
+    if (!this.jsm) {
+      throw new Error('JetStream manager not initialized');
+    }
+
+    const { streamName, subjectPrefix, maxAgeDays } = this.config.deadLetter;
+
+    try {
+      await this.jsm.streams.info(streamName);
+      this.logger.info({ streamName }, 'Dead-letter stream exists');
+    } catch (error) {
+      this.logger.info({ streamName }, 'Creating dead-letter stream');
+
+      const streamConfig: Partial<StreamConfig> = {
+        name: streamName,
+        subjects: [`${subjectPrefix}.>`],
+        max_msgs: 1_000_000,
+        max_bytes: 1024 * 1024 * 1024, // 1GB
+        max_age: maxAgeDays * 24 * 60 * 60 * 1_000_000_000, // nanoseconds
+        allow_direct: true,
+      };
+
+      await this.jsm.streams.add(streamConfig);
+      this.logger.info({ streamName, config: streamConfig }, 'Dead-letter stream created');
+    }
+  }
+
   /**
    * Publish message to JetStream
    */
@@ -134,8 +201,10 @@ export class NatsClient {
 
   /**
    * Publish batch of messages
+   *
+   * @returns Messages that failed to publish, for the caller to retry
    */
-  async publishBatch(messages: NatsMessage[]): Promise<void> {
+  async publishBatch(messages: NatsMessage[]): Promise<NatsPublishFailure[]> {
     if (!this.js) {
       throw new Error('JetStream client not initialized');
     }
@@ -146,13 +215,79 @@ export class NatsClient {
       messages.map((msg) => this.publish(msg))
     );
 
-    const failed = results.filter((r) => r.status === 'rejected');
+    const failed: NatsPublishFailure[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        failed.push({
+          message: messages[i],
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        });
+      }
+    });
+
     if (failed.length > 0) {
       this.logger.warn(
         { failed: failed.length, total: messages.length },
         'Some messages failed to publish'
       );
     }
+    return failed;
+  }
+
+  /**
+   * Consume messages from the stream with a durable pull consumer
+   * Messages are handled one at a time and acked once the handler resolves
+   */
+  async consume(options: NatsConsumerOptions, handler: NatsMessageHandler): Promise<void> {
+    if (!this.js || !this.jsm) {
+      throw new Error('JetStream client not initialized');
+    }
+
+    const streamName = this.config.nats.streamName;
+
+    // Idempotent: updates the consumer if it already exists
+    await this.jsm.consumers.add(streamName, {
+      durable_name: options.durableName,
+      ack_policy: AckPolicy.Explicit,
+      deliver_policy: DeliverPolicy.All,
+      filter_subject: options.filterSubject,
+      max_deliver: options.maxDeliver,
+    });
+
+    const consumer = await this.js.consumers.get(streamName, options.durableName);
+    const messages = await consumer.consume();
+
+    const loop = (async () => {
+      for await (const msg of messages) {
+        const headers: Record<string, string> = {};
+        if (msg.headers) {
+          for (const key of msg.headers.keys()) {
+            headers[key] = msg.headers.get(key);
+          }
+        }
+
+        try {
+          await handler({ subject: msg.subject, data: msg.data, headers });
+          msg.ack();
+        } catch (error) {
+          this.logger.warn(
+            {
+              error: error instanceof Error ? error.message : String(error),
+              subject: msg.subject,
+              deliveryCount: msg.info.redeliveryCount,
+            },
+            'Failed to handle consumed message, requesting redelivery'
+          );
+          msg.nak(options.retryDelayMs ?? 5000);
+        }
+      }
+    })();
+    this.consumers.push({ messages, loop });
+
+    this.logger.info(
+      { stream: streamName, durable: options.durableName, filterSubject: options.filterSubject },
+      'JetStream consumer started'
+    );
   }
 
   /**
@@ -163,6 +298,12 @@ export class NatsClient {
       return;
     }
 
+    // Let in-flight consumed messages finish
+    for (const consumer of this.consumers.splice(0)) {
+      consumer.messages.stop();
+      await consumer.loop;
+    }
+
     this.logger.info('Disconnecting from NATS server');
     await this.nc.drain();
     await this.nc.close();
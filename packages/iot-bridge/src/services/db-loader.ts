@@ -1,7 +1,7 @@
 /**
  * Database Loader for Device Mappings
  *
- * Loads LoRa device mappings from PostgreSQL database.
+ * Loads device mappings (LoRa DevEUIs, protocol adapters) from PostgreSQL database.
  * Uses postgres.js for direct database access (lightweight, no ORM overhead).
  */
 
@@ -32,40 +32,47 @@ export function createDatabaseLoader(
     });
 
     try {
-      logger.debug('Loading LoRa device mappings from database...');
+      logger.debug('Loading device mappings from database...');
 
-      // Query devices where protocol='lorawan' and logical_identifier is not null
+      // Active devices with a logical identifier (LoRaWAN DevEUI, Sparkplug path, ...)
+      // or a device type that selects a protocol adapter other than the default
       const results = await sql<Array<{
         id: string;
-        logical_identifier: string;
+        logical_identifier: string | null;
         tenant_id: string;
         name: string;
         protocol: string;
+        protocol_adapter: string | null;
       }>>`
         SELECT
-          id,
-          logical_identifier,
-          organization_id as tenant_id,
-          name,
-          protocol
-        FROM devices
-        WHERE protocol = 'lorawan'
-          AND logical_identifier IS NOT NULL
-          AND status = 'active'
-        ORDER BY name
+          d.id,
+          d.logical_identifier,
+          d.organization_id as tenant_id,
+          d.name,
+          d.protocol,
+          dt.protocol_adapter
+        FROM devices d
+        LEFT JOIN device_types dt ON dt.id = d.device_type_id
+        WHERE d.status = 'active'
+          AND (
+            (d.protocol = 'lorawan' AND d.logical_identifier IS NOT NULL)
+            OR (dt.protocol_adapter IS NOT NULL AND dt.protocol_adapter <> 'json')
+          )
+        ORDER BY d.name
       `;
 
       const mappings: DeviceMapping[] = results.map((row) => ({
         deviceId: row.id,
-        devEui: row.logical_identifier.toLowerCase(), // Normalize to lowercase
+        devEui: row.logical_identifier?.toLowerCase() ?? null, // Normalize to lowercase
         tenantId: row.tenant_id,
         deviceName: row.name,
         protocol: row.protocol,
+        protocolAdapter: row.protocol_adapter ?? undefined,
       }));
 
       logger.info(
         { count: mappings.length },
-        'Loaded LoRa device mappings from database'
+        'Loaded device mappings from database'
       );
 
       return mappings;
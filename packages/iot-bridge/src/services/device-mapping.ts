@@ -1,11 +1,12 @@
 /**
  * Device Mapping Service
  *
- * Manages the mapping between LoRaWAN DevEUI and ArgusIQ Device UUIDs.
+ * Manages the mapping between vendor identifiers (LoRaWAN DevEUI, Sparkplug
+ * paths) and ArgusIQ Device UUIDs, and the protocol adapter of each device.
  * ChirpStack sends messages with DevEUI, but our internal processing needs Device UUIDs.
  *
  * This service:
- * 1. Loads LoRa device mappings from the database on startup
+ * 1. Loads device mappings from the database on startup
  * 2. Maintains an in-memory cache (Map) for fast lookups
  * 3. Provides methods to refresh the cache
  * 4. TODO: Will integrate with Redis for distributed caching in production
@@ -15,10 +16,11 @@ import type { Logger } from 'pino';
 
 export interface DeviceMapping {
   deviceId: string; // ArgusIQ Device UUID
-  devEui: string; // LoRaWAN Device EUI (16 hex chars)
+  devEui: string | null; // Logical identifier: LoRaWAN Device EUI (16 hex chars), Sparkplug path, ...
   tenantId: string;
   deviceName?: string;
   protocol: string;
+  protocolAdapter?: string; // device_types.protocol_adapter (default 'json')
 }
 
 export interface DeviceMappingConfig {
@@ -34,8 +36,11 @@ export interface DeviceMappingConfig {
  */
 export class DeviceMappingService {
   private mappings: Map<string, DeviceMapping> = new Map();
+  private adapters: Map<string, string> = new Map(); // Device UUID -> protocol adapter
   private refreshTimer?: NodeJS.Timeout;
   private lastRefresh?: Date;
+  private loadFn?: () => Promise<DeviceMapping[]>;
+  private pendingReload?: Promise<void>;
 
   constructor(
     private config: DeviceMappingConfig,
@@ -48,6 +53,7 @@ export class DeviceMappingService {
   async initialize(loadFn: () => Promise<DeviceMapping[]>): Promise<void> {
     this.logger.info('Initializing device mapping service...');
 
+    this.loadFn = loadFn;
     await this.refresh(loadFn);
 
     // Set up auto-refresh if configured
@@ -71,12 +77,11 @@ export class DeviceMappingService {
       const startTime = Date.now();
       const mappings = await loadFn();
 
-      // Clear and rebuild the map
+      // Clear and rebuild the maps
       this.mappings.clear();
+      this.adapters.clear();
       for (const mapping of mappings) {
-        // Normalize DevEUI to lowercase for case-insensitive lookup
-        const devEui = mapping.devEui.toLowerCase();
-        this.mappings.set(devEui, { ...mapping, devEui });
+        this.setMapping(mapping);
       }
 
       this.lastRefresh = new Date();
@@ -99,6 +104,24 @@ export class DeviceMappingService {
     }
   }
 
+  /**
+   * Reload mappings with the loader passed to initialize()
+   *
+   * Used when replaying dead-lettered messages after a mapping was fixed.
+   * Reloads within minIntervalMs of the last refresh are skipped, and
+   * concurrent callers share one reload.
+   */
+  async reload(minIntervalMs = 0): Promise<void> {
+    if (!this.loadFn) return;
+    if (this.pendingReload) return this.pendingReload;
+    if (this.lastRefresh && Date.now() - this.lastRefresh.getTime() < minIntervalMs) return;
+
+    this.pendingReload = this.refresh(this.loadFn).finally(() => {
+      this.pendingReload = undefined;
+    });
+    return this.pendingReload;
+  }
+
   /**
    * Look up Device UUID by DevEUI
    *
@@ -122,6 +145,16 @@ export class DeviceMappingService {
     return this.mappings.get(normalized) || null;
   }
 
+  /**
+   * Look up the protocol adapter of a device
+   *
+   * @param deviceId - ArgusIQ Device UUID
+   * @returns Adapter name (device_types.protocol_adapter) or null if not known
+   */
+  getProtocolAdapter(deviceId: string): string | null {
+    return this.adapters.get(deviceId) || null;
+  }
+
   /**
    * Get the internal mapping cache for adapter use
    *
@@ -152,9 +185,8 @@ export class DeviceMappingService {
    * @param mapping - Device mapping to add/update
    */
   addMapping(mapping: DeviceMapping): void {
-    const devEui = mapping.devEui.toLowerCase();
-    this.mappings.set(devEui, { ...mapping, devEui });
-    this.logger.debug({ devEui, deviceId: mapping.deviceId }, 'Device mapping added');
+    this.setMapping(mapping);
+    this.logger.debug({ devEui: mapping.devEui, deviceId: mapping.deviceId }, 'Device mapping added');
   }
 
   /**
@@ -164,6 +196,10 @@ export class DeviceMappingService {
    */
   removeMapping(devEui: string): void {
     const normalized = devEui.toLowerCase();
+    const mapping = this.mappings.get(normalized);
+    if (mapping) {
+      this.adapters.delete(mapping.deviceId);
+    }
     this.mappings.delete(normalized);
     this.logger.debug({ devEui: normalized }, 'Device mapping removed');
   }
@@ -177,8 +213,20 @@ export class DeviceMappingService {
       this.refreshTimer = undefined;
     }
     this.mappings.clear();
+    this.adapters.clear();
     this.logger.info('Device mapping service closed');
   }
+
+  private setMapping(mapping: DeviceMapping): void {
+    if (mapping.devEui) {
+      // Normalize identifier to lowercase for case-insensitive lookup
+      const devEui = mapping.devEui.toLowerCase();
+      this.mappings.set(devEui, { ...mapping, devEui });
+    }
+    if (mapping.protocolAdapter) {
+      this.adapters.set(mapping.deviceId, mapping.protocolAdapter);
+    }
+  }
 }
 
 /**
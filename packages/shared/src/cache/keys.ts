@@ -34,6 +34,13 @@ export const cacheKeys = {
   rateLimit: (orgId: OrganizationId, userId: string, endpoint: string) =>
     `org:${orgId}:ratelimit:${userId}:${endpoint}`,
 
+  // Effective role permissions of a user, per permission generation
+  permissions: (orgId: OrganizationId, userId: string, generation: string) =>
+    `org:${orgId}:permissions:${userId}:${generation}`,
+
+  // Platform-wide counter bumped on role changes (not organization data)
+  permissionsGeneration: () => 'platform:permissions:generation',
+
   // Telemetry cache keys
   telemetryLatest: (orgId: OrganizationId, entityId: string, metricKey: string) =>
     `org:${orgId}:telemetry:${entityId}:${metricKey}:latest`,
@@ -138,8 +138,8 @@ export const activityListResponseSchema = z.object({
 });
 export type ActivityListResponse = z.infer<typeof activityListResponseSchema>;
 
-/** Activity query parameters */
-export const activityQuerySchema = z.object({
+/** Activity query parameters; attr.<name>=<value> parameters filter on custom attributes */
+export const activityQuerySchema = z.looseObject({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   status: activityStatusSchema.optional(),
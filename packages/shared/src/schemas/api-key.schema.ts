@@ -0,0 +1,69 @@
+/**
+ * API key schemas for validation
+ * Organization API keys authenticate machine-to-machine requests (X-API-Key header).
+ * A key acts for the user who created it, limited to its own permission subset.
+ */
+
+import { z } from 'zod';
+import { resourcePermissionSchema } from './role.schema.js';
+
+/** Key state derived from revocation and expiry */
+export const apiKeyStatusSchema = z.enum(['active', 'expired', 'revoked']);
+export type ApiKeyStatus = z.infer<typeof apiKeyStatusSchema>;
+
+/** IP address or CIDR range a key may be used from */
+export const apiKeyAllowedIpSchema = z.union([z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()], {
+  error: 'Must be an IP address or CIDR range',
+});
+
+/** Create API key request */
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100).trim(),
+  description: z.string().max(500).optional(),
+  /** Actions the key may perform; must be within the creator's own permissions */
+  permissions: z.array(resourcePermissionSchema).min(1, 'At least one permission is required'),
+  /** Empty allows any address */
+  allowedIps: z.array(apiKeyAllowedIpSchema).max(50).default([]),
+  /** Omit for a key that does not expire */
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+/** API key response (the secret itself is never returned after creation) */
+export const apiKeyResponseSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  /** Identifies the key in lists and logs, e.g. argus_k3Xq9ZpA */
+  keyPrefix: z.string(),
+  permissions: z.array(resourcePermissionSchema),
+  allowedIps: z.array(z.string()),
+  status: apiKeyStatusSchema,
+  expiresAt: z.string().datetime().nullable(),
+  lastUsedAt: z.string().datetime().nullable(),
+  lastUsedIp: z.string().nullable(),
+  createdBy: z.string().uuid().nullable(),
+  revokedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+
+/** Create / rotate response - includes the secret, shown only this once */
+export const apiKeySecretResponseSchema = z.object({
+  apiKey: apiKeyResponseSchema,
+  key: z.string(),
+});
+export type ApiKeySecretResponse = z.infer<typeof apiKeySecretResponseSchema>;
+
+/** API key list response */
+export const apiKeyListResponseSchema = z.object({
+  data: z.array(apiKeyResponseSchema),
+  /** Active keys against the organization profile's maxApiKeys (null = unlimited) */
+  usage: z.object({
+    active: z.number().int(),
+    limit: z.number().int().nullable(),
+  }),
+});
+export type ApiKeyListResponse = z.infer<typeof apiKeyListResponseSchema>;
@@ -0,0 +1,68 @@
+/**
+ * Asset health schemas for validation
+ * Health scores (0-100) are computed from the asset type's health algorithm;
+ * every score comes with the factors that produced it.
+ */
+
+import { z } from 'zod';
+
+/** Kind of input that moved a health score */
+export const healthFactorTypeSchema = z.enum(['metric', 'open_events', 'staleness', 'children']);
+export type HealthFactorType = z.infer<typeof healthFactorTypeSchema>;
+
+/** One contribution to a health score */
+export const healthFactorSchema = z.object({
+  type: healthFactorTypeSchema,
+  /** Points added to (positive) or deducted from (negative) the score */
+  impact: z.number(),
+  reason: z.string(),
+  /** Inputs of the factor (metric value, alert counts, child scores, ...) */
+  details: z.record(z.string(), z.unknown()),
+});
+export type HealthFactor = z.infer<typeof healthFactorSchema>;
+
+/** What caused a health score to be recomputed */
+export const healthTriggerSchema = z.enum(['telemetry', 'children']);
+export type HealthTrigger = z.infer<typeof healthTriggerSchema>;
+
+/** Current health of an asset, evaluated at request time */
+export const assetHealthResponseSchema = z.object({
+  assetId: z.string().uuid(),
+  /** Null when the asset type has no health algorithm */
+  score: z.number().nullable(),
+  baseScore: z.number().nullable(),
+  evaluatedAt: z.string().datetime(),
+  factors: z.array(healthFactorSchema),
+  /** Score last stored by the health engine */
+  storedScore: z.number().nullable(),
+  storedAt: z.string().datetime().nullable(),
+});
+export type AssetHealthResponse = z.infer<typeof assetHealthResponseSchema>;
+
+/** Health history query parameters */
+export const assetHealthHistoryQuerySchema = z
+  .object({
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+    limit: z.coerce.number().int().min(1).max(1000).default(100),
+  })
+  .refine((query) => new Date(query.from) < new Date(query.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+export type AssetHealthHistoryQuery = z.infer<typeof assetHealthHistoryQuerySchema>;
+
+/** A stored health score */
+export const assetHealthScoreResponseSchema = z.object({
+  score: z.number(),
+  factors: z.array(healthFactorSchema),
+  trigger: healthTriggerSchema,
+  computedAt: z.string().datetime(),
+});
+export type AssetHealthScoreResponse = z.infer<typeof assetHealthScoreResponseSchema>;
+
+/** Health history response, newest first */
+export const assetHealthHistoryResponseSchema = z.object({
+  data: z.array(assetHealthScoreResponseSchema),
+});
+export type AssetHealthHistoryResponse = z.infer<typeof assetHealthHistoryResponseSchema>;
@@ -0,0 +1,210 @@
+/**
+ * Asset type telemetry profile schemas for validation
+ * The profile declares which metrics assets of the type track
+ * (asset_types.metric_definitions). Readings of bound devices are attributed
+ * to the asset under these metric keys. Derived metrics
+ * (asset_types.transformation_engine) and windowed aggregations and child
+ * roll-ups (asset_types.aggregation_rules) are computed from them, and the
+ * health algorithm (asset_types.health_algorithm) turns them into a 0-100
+ * health score. Every profile change bumps asset_types.telemetry_config_version.
+ */
+
+import { z } from 'zod';
+import { decodedMetricKeySchema } from './device-decoding.schema.js';
+
+/** Value type of an asset metric */
+export const assetMetricDataTypeSchema = z.enum(['numeric', 'string', 'boolean', 'enum', 'json']);
+export type AssetMetricDataType = z.infer<typeof assetMetricDataTypeSchema>;
+
+/** A metric tracked by assets of a type */
+export const metricDefinitionSchema = z.object({
+  key: decodedMetricKeySchema,
+  displayName: z.string().max(255).optional(),
+  unit: z.string().max(50).optional(),
+  dataType: assetMetricDataTypeSchema.default('numeric'),
+  /** Allowed values of enum metrics */
+  enumValues: z.array(z.string().max(100)).max(100).optional(),
+  /** Expected value range of numeric metrics */
+  range: z
+    .object({
+      min: z.number().optional(),
+      max: z.number().optional(),
+    })
+    .optional(),
+  description: z.string().max(1000).optional(),
+});
+export type MetricDefinition = z.infer<typeof metricDefinitionSchema>;
+
+/** Metric definitions of an asset type (asset_types.metric_definitions) */
+export const metricDefinitionsSchema = z
+  .object({
+    metrics: z.array(metricDefinitionSchema).max(500),
+  })
+  .superRefine((definitions, ctx) => {
+    const seen = new Set<string>();
+    definitions.metrics.forEach((metric, index) => {
+      if (seen.has(metric.key)) {
+        ctx.addIssue({ code: 'custom', path: ['metrics', index, 'key'], message: `Duplicate metric key "${metric.key}"` });
+      }
+      seen.add(metric.key);
+    });
+  });
+export type MetricDefinitions = z.infer<typeof metricDefinitionsSchema>;
+
+/**
+ * A band of a health rule: matches values above `above` and/or below `below`.
+ * The first matching band of a rule applies.
+ */
+export const healthThresholdSchema = z
+  .object({
+    above: z.number().optional(),
+    below: z.number().optional(),
+    deduct: z.number().min(0).max(100),
+    reason: z.string().max(255).optional(),
+  })
+  .refine((band) => band.above !== undefined || band.below !== undefined, {
+    message: 'A threshold needs above and/or below',
+  });
+export type HealthThreshold = z.infer<typeof healthThresholdSchema>;
+
+/** Deduction rule for one metric; deductions are multiplied by the weight */
+export const healthRuleSchema = z.object({
+  metric: decodedMetricKeySchema,
+  weight: z.number().min(0).max(10).default(1),
+  thresholds: z.array(healthThresholdSchema).min(1).max(20),
+});
+export type HealthRule = z.infer<typeof healthRuleSchema>;
+
+/** Asset type health algorithm (asset_types.health_algorithm) */
+export const healthAlgorithmSchema = z.object({
+  algorithmType: z.literal('weighted_deductions').default('weighted_deductions'),
+  baseScore: z.number().min(0).max(100).default(100),
+  rules: z.array(healthRuleSchema).max(100).default([]),
+  /** Deductions per open threshold alert of the asset */
+  openEvents: z
+    .object({
+      critical: z.number().min(0).max(100).default(20),
+      warning: z.number().min(0).max(100).default(0),
+      maxDeduct: z.number().min(0).max(100).default(100),
+    })
+    .optional(),
+  /** Decay while the asset reports no telemetry */
+  staleness: z
+    .object({
+      afterSeconds: z.number().int().min(1),
+      deductPerHour: z.number().min(0).max(100),
+      maxDeduct: z.number().min(0).max(100).default(100),
+    })
+    .optional(),
+  /** Blends the scores of child assets (parentAssetId) into the score */
+  children: z
+    .object({
+      aggregation: z.enum(['min', 'avg']).default('min'),
+      /** Share of the child score in the result (0-1) */
+      weight: z.number().min(0).max(1).default(0.5),
+    })
+    .optional(),
+});
+export type HealthAlgorithm = z.infer<typeof healthAlgorithmSchema>;
+
+/** Age after which a computation input counts as stale by default */
+export const DEFAULT_STALE_AFTER_SECONDS = 900;
+
+/** A metric computed from other metrics of the same asset, e.g. power = voltage * current * power_factor */
+export const derivedMetricSchema = z.object({
+  target: decodedMetricKeySchema,
+  /** Arithmetic expression over metric keys */
+  formula: z.string().min(1).max(500),
+});
+export type DerivedMetric = z.infer<typeof derivedMetricSchema>;
+
+/** Derived metrics of an asset type (asset_types.transformation_engine) */
+export const transformationEngineSchema = z.object({
+  derivedMetrics: z.array(derivedMetricSchema).max(100).default([]),
+  /** Results with an input older than this are stored with quality 'uncertain' */
+  staleAfterSeconds: z.number().int().min(1).default(DEFAULT_STALE_AFTER_SECONDS),
+});
+export type TransformationEngine = z.infer<typeof transformationEngineSchema>;
+
+/** Window of a windowed aggregation (aligned to UTC) */
+export const aggregationWindowSchema = z.enum(['1h', '1d']);
+export type AggregationWindow = z.infer<typeof aggregationWindowSchema>;
+
+/**
+ * Aggregation over a window. `integral` is the time-weighted integral in
+ * value-hours (kW -> kWh, a 0/1 running flag -> runtime hours).
+ */
+export const windowAggregationSchema = z.enum(['sum', 'avg', 'min', 'max', 'count', 'integral']);
+export type WindowAggregation = z.infer<typeof windowAggregationSchema>;
+
+/** A metric aggregated over closed time windows, e.g. hourly energy totals */
+export const windowedAggregationSchema = z.object({
+  target: decodedMetricKeySchema,
+  source: decodedMetricKeySchema,
+  aggregation: windowAggregationSchema,
+  window: aggregationWindowSchema,
+});
+export type WindowedAggregation = z.infer<typeof windowedAggregationSchema>;
+
+/** Aggregation over the latest values of child assets */
+export const rollupAggregationSchema = z.enum(['sum', 'avg', 'min', 'max', 'count']);
+export type RollupAggregation = z.infer<typeof rollupAggregationSchema>;
+
+/** A metric aggregated over the child assets (parentAssetId), e.g. total line power */
+export const childRollupSchema = z.object({
+  target: decodedMetricKeySchema,
+  /** Metric of the child assets */
+  source: decodedMetricKeySchema,
+  aggregation: rollupAggregationSchema,
+});
+export type ChildRollup = z.infer<typeof childRollupSchema>;
+
+/** Windowed aggregations and child roll-ups of an asset type (asset_types.aggregation_rules) */
+export const aggregationRulesSchema = z.object({
+  windows: z.array(windowedAggregationSchema).max(50).default([]),
+  rollups: z.array(childRollupSchema).max(50).default([]),
+  /** Results with an input older than this (or a gap this long) are stored with quality 'uncertain' */
+  staleAfterSeconds: z.number().int().min(1).default(DEFAULT_STALE_AFTER_SECONDS),
+});
+export type AggregationRules = z.infer<typeof aggregationRulesSchema>;
+
+/** Asset type telemetry profile */
+export const assetTypeProfileSchema = z.object({
+  metricDefinitions: metricDefinitionsSchema.nullable(),
+  transformationEngine: transformationEngineSchema.nullable(),
+  aggregationRules: aggregationRulesSchema.nullable(),
+  healthAlgorithm: healthAlgorithmSchema.nullable(),
+});
+export type AssetTypeProfile = z.infer<typeof assetTypeProfileSchema>;
+
+/** Update asset type telemetry profile request */
+export const updateAssetTypeProfileSchema = z.object({
+  metricDefinitions: metricDefinitionsSchema.nullable().optional(),
+  transformationEngine: transformationEngineSchema.nullable().optional(),
+  aggregationRules: aggregationRulesSchema.nullable().optional(),
+  healthAlgorithm: healthAlgorithmSchema.nullable().optional(),
+});
+export type UpdateAssetTypeProfileInput = z.infer<typeof updateAssetTypeProfileSchema>;
+
+/** Asset type telemetry profile response */
+export const assetTypeProfileResponseSchema = assetTypeProfileSchema.extend({
+  /** asset_types.telemetry_config_version, bumped on every change */
+  version: z.string(),
+  updatedAt: z.string().datetime().nullable(),
+});
+export type AssetTypeProfileResponse = z.infer<typeof assetTypeProfileResponseSchema>;
+
+/** A recorded version of an asset type telemetry profile */
+export const assetTypeProfileVersionResponseSchema = z.object({
+  version: z.string(),
+  profile: assetTypeProfileSchema,
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type AssetTypeProfileVersionResponse = z.infer<typeof assetTypeProfileVersionResponseSchema>;
+
+/** Profile version list response, newest first */
+export const assetTypeProfileVersionListResponseSchema = z.object({
+  data: z.array(assetTypeProfileVersionResponseSchema),
+});
+export type AssetTypeProfileVersionListResponse = z.infer<typeof assetTypeProfileVersionListResponseSchema>;
@@ -96,8 +96,8 @@ export const assetListResponseSchema = z.object({
 });
 export type AssetListResponse = z.infer<typeof assetListResponseSchema>;
 
-/** Asset query parameters */
-export const assetQuerySchema = z.object({
+/** Asset query parameters; attr.<name>=<value> parameters filter on custom attributes */
+export const assetQuerySchema = z.looseObject({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   status: assetStatusSchema.optional(),
@@ -0,0 +1,97 @@
+/**
+ * Dead-letter schemas for validation
+ * The IoT bridge dead-letters messages it cannot deliver on the TELEMETRY_DLQ
+ * stream; platform admins list, inspect and replay them through the API
+ */
+
+import { z } from 'zod';
+
+/**
+ * Why a message was dead-lettered:
+ * - invalid: no device ID in the topic, protocol adapter not enabled or decode error
+ * - unknown_topic: no protocol adapter claims the MQTT topic
+ * - unmapped: vendor identifiers not provisioned as devices
+ * - too_large: adapted telemetry exceeds the bridge's maximum message size
+ * - publish_failed: NATS did not accept the telemetry after all retries
+ */
+export const deadLetterReasonSchema = z.enum([
+  'invalid',
+  'unknown_topic',
+  'unmapped',
+  'too_large',
+  'publish_failed',
+]);
+export type DeadLetterReason = z.infer<typeof deadLetterReasonSchema>;
+
+/** List dead letters query */
+export const deadLetterListQuerySchema = z.object({
+  reason: deadLetterReasonSchema.optional(),
+  /** Stream sequence to continue after (nextCursor of the previous page) */
+  after: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+export type DeadLetterListQuery = z.infer<typeof deadLetterListQuerySchema>;
+
+/** Dead letter summary */
+export const deadLetterSchema = z.object({
+  /** Stream sequence, identifies the dead letter */
+  seq: z.number().int(),
+  reason: deadLetterReasonSchema,
+  error: z.string(),
+  mqttTopic: z.string().nullable(),
+  /** Target subject of publish failures */
+  natsSubject: z.string().nullable(),
+  deviceId: z.string().nullable(),
+  adapter: z.string().nullable(),
+  /** Unmapped vendor identifiers */
+  identifiers: z.array(z.string()),
+  receivedAt: z.string().nullable(),
+  deadLetteredAt: z.string(),
+  size: z.number().int(),
+  /** Payload was truncated when dead-lettered */
+  truncated: z.boolean(),
+  replayable: z.boolean(),
+});
+export type DeadLetter = z.infer<typeof deadLetterSchema>;
+
+/** Dead letter with its payload */
+export const deadLetterDetailSchema = deadLetterSchema.extend({
+  /** Payload, base64 encoded */
+  payload: z.string(),
+  /** Payload as text, when it is valid UTF-8 */
+  payloadText: z.string().nullable(),
+  headers: z.record(z.string(), z.string()),
+});
+export type DeadLetterDetail = z.infer<typeof deadLetterDetailSchema>;
+
+export const deadLetterListResponseSchema = z.object({
+  data: z.array(deadLetterSchema),
+  nextCursor: z.number().int().nullable(),
+  /** Dead letters currently stored, by reason */
+  counts: z.record(z.string(), z.number().int()),
+});
+export type DeadLetterListResponse = z.infer<typeof deadLetterListResponseSchema>;
+
+/** Bulk replay request - explicit sequences, or the oldest dead letters (of a reason) */
+export const replayDeadLettersSchema = z
+  .object({
+    seqs: z.array(z.number().int().positive()).min(1).max(500).optional(),
+    reason: deadLetterReasonSchema.optional(),
+    limit: z.number().int().min(1).max(1000).default(100),
+  })
+  .refine((data) => !(data.seqs && data.reason), {
+    message: 'Specify either seqs or reason, not both',
+    path: ['reason'],
+  });
+export type ReplayDeadLettersInput = z.infer<typeof replayDeadLettersSchema>;
+
+export const replayDeadLettersResponseSchema = z.object({
+  replayed: z.array(z.number().int()),
+  skipped: z.array(
+    z.object({
+      seq: z.number().int(),
+      reason: z.enum(['not_found', 'not_replayable']),
+    })
+  ),
+});
+export type ReplayDeadLettersResponse = z.infer<typeof replayDeadLettersResponseSchema>;
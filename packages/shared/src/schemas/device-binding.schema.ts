@@ -0,0 +1,94 @@
+/**
+ * Device binding schemas for validation
+ * A binding records that a device instruments an asset or a space for a
+ * period of time (an asset/space MONITORED_BY device relationship). Ending a
+ * binding instead of deleting it keeps past readings attributable when a
+ * sensor is swapped.
+ */
+
+import { z } from 'zod';
+import { decodedMetricKeySchema } from './device-decoding.schema.js';
+
+/** Entity base types a device can be bound to */
+export const bindingEntityTypeSchema = z.enum(['Asset', 'Space']);
+export type BindingEntityType = z.infer<typeof bindingEntityTypeSchema>;
+
+/**
+ * Device metric key -> asset metric key, for devices whose metric names
+ * differ from the asset type's metric definitions, e.g. { "temp": "motor_temperature" }
+ */
+export const bindingMetricMappingsSchema = z
+  .record(decodedMetricKeySchema, decodedMetricKeySchema)
+  .refine((mappings) => Object.keys(mappings).length <= 200, {
+    message: 'At most 200 metric mappings are allowed',
+  });
+export type BindingMetricMappings = z.infer<typeof bindingMetricMappingsSchema>;
+
+const bindingFields = {
+  metricMappings: bindingMetricMappingsSchema.optional(),
+  /** Start of the binding; open-ended in the past when omitted */
+  validFrom: z.string().datetime().optional(),
+  /** End of the binding; open-ended when omitted */
+  validUntil: z.string().datetime().optional(),
+};
+
+/** Checks that validFrom is before validUntil */
+function refineValidity(binding: { validFrom?: string; validUntil?: string }, ctx: z.RefinementCtx): void {
+  if (binding.validFrom && binding.validUntil && new Date(binding.validFrom) >= new Date(binding.validUntil)) {
+    ctx.addIssue({ code: 'custom', path: ['validUntil'], message: 'validUntil must be after validFrom' });
+  }
+}
+
+/** Bind a device to an asset (POST /assets/:id/devices) */
+export const createAssetDeviceBindingSchema = z
+  .object({
+    deviceId: z.string().uuid('Invalid device ID'),
+    ...bindingFields,
+  })
+  .superRefine(refineValidity);
+export type CreateAssetDeviceBindingInput = z.infer<typeof createAssetDeviceBindingSchema>;
+
+/** Bind a device to an asset or space (POST /devices/:id/bindings) */
+export const createDeviceBindingSchema = z
+  .object({
+    entityType: bindingEntityTypeSchema,
+    entityId: z.string().uuid('Invalid entity ID'),
+    ...bindingFields,
+  })
+  .superRefine(refineValidity);
+export type CreateDeviceBindingInput = z.infer<typeof createDeviceBindingSchema>;
+
+/** Binding list query parameters */
+export const deviceBindingQuerySchema = z.object({
+  /** Bindings in effect at this time; defaults to now */
+  asOf: z.string().datetime().optional(),
+  /** Include ended and future bindings (ignores asOf) */
+  history: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+});
+export type DeviceBindingQuery = z.infer<typeof deviceBindingQuerySchema>;
+
+/** Binding response */
+export const deviceBindingResponseSchema = z.object({
+  /** ID of the underlying relationship */
+  id: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  /** Null if the device has been deleted */
+  deviceName: z.string().nullable(),
+  entityType: bindingEntityTypeSchema,
+  entityId: z.string().uuid(),
+  /** Null if the entity has been deleted */
+  entityName: z.string().nullable(),
+  metricMappings: z.record(z.string(), z.string()),
+  validFrom: z.string().datetime().nullable(),
+  validUntil: z.string().datetime().nullable(),
+  /** Whether the binding is in effect now */
+  active: z.boolean(),
+  createdAt: z.string().datetime(),
+});
+export type DeviceBindingResponse = z.infer<typeof deviceBindingResponseSchema>;
+
+/** Binding list response */
+export const deviceBindingListResponseSchema = z.object({
+  data: z.array(deviceBindingResponseSchema),
+});
+export type DeviceBindingListResponse = z.infer<typeof deviceBindingListResponseSchema>;
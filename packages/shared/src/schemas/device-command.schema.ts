@@ -0,0 +1,99 @@
+/**
+ * Device command schemas for validation
+ * Commands are queued through the API and delivered by the IoT bridge, either on
+ * devices/{id}/commands (direct devices) or as ChirpStack downlinks (LoRaWAN devices)
+ */
+
+import { z } from 'zod';
+
+/**
+ * Command status lifecycle:
+ * queued → sent → delivered → acked, or failed / expired at any point before completion
+ */
+export const deviceCommandStatusSchema = z.enum([
+  'queued',
+  'sent',
+  'delivered',
+  'acked',
+  'failed',
+  'expired',
+]);
+export type DeviceCommandStatus = z.infer<typeof deviceCommandStatusSchema>;
+
+/** How a command reaches the device */
+export const deviceCommandTransportSchema = z.enum(['mqtt', 'chirpstack']);
+export type DeviceCommandTransport = z.infer<typeof deviceCommandTransportSchema>;
+
+/** Queue command request */
+export const createDeviceCommandSchema = z.object({
+  command: z.string().min(1, 'Command is required').max(100).trim(),
+  payload: z.record(z.string(), z.unknown()).default({}),
+  /** Raw downlink bytes (base64) for LoRaWAN devices; otherwise payload is sent for encoding */
+  data: z.string().base64('data must be base64').max(512).optional(),
+  /** LoRaWAN port (required for LoRaWAN devices) */
+  fPort: z.number().int().min(1).max(223).optional(),
+  /** Seconds until an undelivered/unacknowledged command expires */
+  ttl: z.number().int().min(1).max(604800).default(3600),
+  /** Wait for the device to acknowledge (ChirpStack confirmed downlink) */
+  requireAck: z.boolean().default(false),
+});
+export type CreateDeviceCommandInput = z.infer<typeof createDeviceCommandSchema>;
+
+/** Device command response */
+export const deviceCommandResponseSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  command: z.string(),
+  payload: z.record(z.string(), z.unknown()),
+  data: z.string().nullable(),
+  fPort: z.number().int().nullable(),
+  transport: deviceCommandTransportSchema,
+  requireAck: z.boolean(),
+  status: deviceCommandStatusSchema,
+  error: z.string().nullable(),
+  response: z.record(z.string(), z.unknown()).nullable(),
+  expiresAt: z.string().datetime(),
+  sentAt: z.string().datetime().nullable(),
+  deliveredAt: z.string().datetime().nullable(),
+  ackedAt: z.string().datetime().nullable(),
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type DeviceCommandResponse = z.infer<typeof deviceCommandResponseSchema>;
+
+/** Device command list response */
+export const deviceCommandListResponseSchema = z.object({
+  data: z.array(deviceCommandResponseSchema),
+  pagination: z.object({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    totalCount: z.number().int(),
+    totalPages: z.number().int(),
+    hasNext: z.boolean(),
+    hasPrevious: z.boolean(),
+  }),
+});
+export type DeviceCommandListResponse = z.infer<typeof deviceCommandListResponseSchema>;
+
+/** Device command query parameters */
+export const deviceCommandQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: deviceCommandStatusSchema.optional(),
+});
+export type DeviceCommandQuery = z.infer<typeof deviceCommandQuerySchema>;
+
+/**
+ * Status report published by the IoT bridge on {prefix}.commands.status.{deviceId}
+ */
+export const deviceCommandStatusEventSchema = z.object({
+  commandId: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  status: deviceCommandStatusSchema.exclude(['queued']),
+  error: z.string().optional(),
+  response: z.record(z.string(), z.unknown()).optional(),
+  timestamp: z.string().datetime(),
+});
+export type DeviceCommandStatusEvent = z.infer<typeof deviceCommandStatusEventSchema>;
@@ -0,0 +1,82 @@
+/**
+ * Device connectivity schemas for validation
+ * The connectivity watchdog derives device status from last_seen_at and the device
+ * type's expected reporting interval (device_types.connectivity_config):
+ * silent for offlineAfterIntervals intervals → offline, for errorAfterIntervals → error
+ */
+
+import { z } from 'zod';
+import { deviceStatusSchema } from './device.schema.js';
+
+/** Device type connectivity configuration (device_types.connectivity_config) */
+export const connectivityConfigSchema = z
+  .object({
+    /** How often devices of this type are expected to report */
+    expectedIntervalSeconds: z.number().int().min(10).max(604800),
+    /** Missed intervals before a device is marked offline */
+    offlineAfterIntervals: z.number().min(1).max(100).default(3),
+    /** Missed intervals before an offline device is escalated to error */
+    errorAfterIntervals: z.number().min(1).max(10000).default(24),
+  })
+  .refine((config) => config.errorAfterIntervals > config.offlineAfterIntervals, {
+    message: 'errorAfterIntervals must be greater than offlineAfterIntervals',
+    path: ['errorAfterIntervals'],
+  });
+export type ConnectivityConfig = z.infer<typeof connectivityConfigSchema>;
+
+/** Update connectivity configuration request (null falls back to the platform default) */
+export const updateConnectivityConfigSchema = z.object({
+  connectivityConfig: connectivityConfigSchema.nullable(),
+});
+export type UpdateConnectivityConfigInput = z.infer<typeof updateConnectivityConfigSchema>;
+
+/** Connectivity configuration response */
+export const connectivityConfigResponseSchema = z.object({
+  connectivityConfig: connectivityConfigSchema.nullable(),
+  /** Configuration the watchdog applies (the type's, or the platform default) */
+  effectiveConfig: connectivityConfigSchema,
+});
+export type ConnectivityConfigResponse = z.infer<typeof connectivityConfigResponseSchema>;
+
+/** Status transition recorded as a DEVICE_STATUS_CHANGED system event */
+export const deviceStatusChangePayloadSchema = z.object({
+  previousStatus: deviceStatusSchema,
+  status: deviceStatusSchema,
+  lastSeenAt: z.string().datetime().nullable(),
+  silentSeconds: z.number().int().nullable(),
+  expectedIntervalSeconds: z.number().int(),
+});
+export type DeviceStatusChangePayload = z.infer<typeof deviceStatusChangePayloadSchema>;
+
+/** Connectivity summary query parameters */
+export const connectivitySummaryQuerySchema = z.object({
+  /** Number of longest-silent devices to return */
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+export type ConnectivitySummaryQuery = z.infer<typeof connectivitySummaryQuerySchema>;
+
+/** Connectivity summary response */
+export const connectivitySummaryResponseSchema = z.object({
+  counts: z.object({
+    total: z.number().int(),
+    active: z.number().int(),
+    inactive: z.number().int(),
+    maintenance: z.number().int(),
+    offline: z.number().int(),
+    error: z.number().int(),
+    neverSeen: z.number().int(),
+  }),
+  longestSilent: z.array(
+    z.object({
+      id: z.string().uuid(),
+      name: z.string(),
+      deviceTypeId: z.string().uuid(),
+      status: deviceStatusSchema,
+      lastSeenAt: z.string().datetime().nullable(),
+      /** Seconds since last_seen_at (since creation for devices never seen) */
+      silentSeconds: z.number().int(),
+    })
+  ),
+  generatedAt: z.string().datetime(),
+});
+export type ConnectivitySummaryResponse = z.infer<typeof connectivitySummaryResponseSchema>;
@@ -0,0 +1,243 @@
+/**
+ * Device type decoding profile schemas for validation
+ * A profile turns a raw device payload into normalized metric readings:
+ * validate (messageSchema) -> extract (extractionRules) -> transform (transformationRules)
+ * Gateway device types additionally split payloads per child device (demuxStrategy),
+ * and devices that send large messages in parts have them reassembled first (chunkingConfig).
+ */
+
+import { z } from 'zod';
+
+/** Metric key produced by decoding */
+export const decodedMetricKeySchema = z
+  .string()
+  .min(1)
+  .max(255)
+  .regex(/^[A-Za-z_][A-Za-z0-9_.]*$/, 'Metric keys must start with a letter or underscore and contain only letters, digits, "_" and "."');
+
+/** Value type an extracted field is coerced to */
+export const extractionValueTypeSchema = z.enum(['numeric', 'string', 'boolean', 'json']);
+export type ExtractionValueType = z.infer<typeof extractionValueTypeSchema>;
+
+/** Where a metric is read from in the payload */
+export const extractionRuleSchema = z.object({
+  /** JSONPath-like location, e.g. `$.env.temp` or `$.readings[0].value` */
+  path: z.string().min(1).max(500),
+  type: extractionValueTypeSchema.default('numeric'),
+  unit: z.string().max(50).optional(),
+  /** Missing required fields are reported as errors; optional ones are skipped */
+  required: z.boolean().default(false),
+  /** Used when the field is missing */
+  default: z.unknown().optional(),
+});
+export type ExtractionRule = z.infer<typeof extractionRuleSchema>;
+
+/** Extraction rules keyed by metric key (device_types.extraction_rules) */
+export const extractionRulesSchema = z
+  .record(decodedMetricKeySchema, extractionRuleSchema)
+  .refine((rules) => Object.keys(rules).length <= 500, {
+    message: 'At most 500 extraction rules are allowed',
+  });
+export type ExtractionRules = z.infer<typeof extractionRulesSchema>;
+
+/** Units supported by `convert` transformations */
+export const conversionUnitSchema = z.enum([
+  'celsius',
+  'fahrenheit',
+  'kelvin',
+  'pa',
+  'hpa',
+  'kpa',
+  'bar',
+  'psi',
+  'mm',
+  'cm',
+  'm',
+  'km',
+  'in',
+  'ft',
+  'mi',
+  'm/s',
+  'km/h',
+  'mph',
+  'ml',
+  'l',
+  'm3',
+  'gal',
+  'wh',
+  'kwh',
+  'mwh',
+  'ratio',
+  'percent',
+]);
+export type ConversionUnit = z.infer<typeof conversionUnitSchema>;
+
+/** value * factor + offset */
+const scaleStepSchema = z.object({
+  type: z.literal('scale'),
+  metric: decodedMetricKeySchema,
+  factor: z.number().default(1),
+  offset: z.number().default(0),
+  unit: z.string().max(50).optional(),
+});
+
+/** Unit conversion within one dimension (temperature, pressure, ...) */
+const convertStepSchema = z.object({
+  type: z.literal('convert'),
+  metric: decodedMetricKeySchema,
+  from: conversionUnitSchema,
+  to: conversionUnitSchema,
+});
+
+/**
+ * Arithmetic expression. `value` is the current value of `metric`; other
+ * decoded metrics are referenced by key. Creates `metric` if it does not exist.
+ */
+const expressionStepSchema = z.object({
+  type: z.literal('expression'),
+  metric: decodedMetricKeySchema,
+  expression: z.string().min(1).max(500),
+  unit: z.string().max(50).optional(),
+});
+
+/** Round to a number of decimal places */
+const roundStepSchema = z.object({
+  type: z.literal('round'),
+  metric: decodedMetricKeySchema,
+  decimals: z.number().int().min(0).max(10).default(0),
+});
+
+/** Limit to a range; out-of-range values are clamped and flagged uncertain */
+const clampStepSchema = z.object({
+  type: z.literal('clamp'),
+  metric: decodedMetricKeySchema,
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+/** A single transformation, applied in order (device_types.transformation_rules) */
+export const transformationStepSchema = z.discriminatedUnion('type', [
+  scaleStepSchema,
+  convertStepSchema,
+  expressionStepSchema,
+  roundStepSchema,
+  clampStepSchema,
+]);
+export type TransformationStep = z.infer<typeof transformationStepSchema>;
+
+export const transformationRulesSchema = z.array(transformationStepSchema).max(200);
+export type TransformationRules = z.infer<typeof transformationRulesSchema>;
+
+/**
+ * How a gateway payload is split into per-child-device payloads
+ * (device_types.demux_strategy)
+ *
+ * - iterate_array: `arrayPath` points at an array of items; `idPath` (relative
+ *   to each item) holds the child's logical identifier
+ * - object_map: `mapPath` points at an object keyed by logical identifier
+ */
+export const demuxStrategySchema = z
+  .object({
+    strategy: z.enum(['iterate_array', 'object_map']),
+    arrayPath: z.string().max(500).default('$'),
+    idPath: z.string().max(500).default('$.id'),
+    mapPath: z.string().max(500).default('$'),
+    /** Location of the child's metrics within an item; the whole item when omitted */
+    payloadPath: z.string().max(500).optional(),
+    /** Location of a per-child timestamp within an item */
+    timestampPath: z.string().max(500).optional(),
+    /** Name for auto-provisioned children; {{logicalId}} and item fields are substituted */
+    nameTemplate: z.string().min(1).max(255).default('{{logicalId}}'),
+    /** Create unknown children under the gateway instead of dropping their data */
+    autoProvision: z.boolean().default(false),
+    childDeviceTypeId: z.string().uuid('Invalid device type ID').optional(),
+    maxDevices: z.number().int().min(1).max(1000).default(500),
+  })
+  .refine((strategy) => !strategy.autoProvision || strategy.childDeviceTypeId, {
+    message: 'childDeviceTypeId is required when autoProvision is enabled',
+    path: ['childDeviceTypeId'],
+  });
+export type DemuxStrategy = z.infer<typeof demuxStrategySchema>;
+
+/**
+ * How chunked messages of a device type are reassembled
+ * (device_types.chunking_config)
+ *
+ * Chunks share a correlation ID and carry their sequence number and the
+ * total chunk count; once all have arrived their payloads are stitched back
+ * together in sequence order (arrays concatenated, objects merged).
+ */
+export const chunkingConfigSchema = z.object({
+  /** Process chunks individually when disabled */
+  enabled: z.boolean().default(true),
+  /** Seconds an incomplete chunk set is kept before it is dropped */
+  ttl: z.number().int().min(1).max(3600).default(60),
+  maxChunks: z.number().int().min(2).max(10000).default(1000),
+  /** Chunks larger than this (bytes) are rejected */
+  maxChunkSize: z.number().int().min(1).optional(),
+  correlationIdPath: z.string().min(1).max(500).default('$.correlationId'),
+  sequencePath: z.string().min(1).max(500).default('$.seq'),
+  totalPath: z.string().min(1).max(500).default('$.total'),
+});
+export type ChunkingConfig = z.infer<typeof chunkingConfigSchema>;
+
+/** Decoding profile stored on a device type */
+export const decodingProfileSchema = z.object({
+  protocolAdapter: z.string().min(1).max(50),
+  /** JSON Schema (subset: type, properties, required, items, enum, min/max) */
+  messageSchema: z.record(z.string(), z.unknown()).nullable(),
+  extractionRules: extractionRulesSchema.nullable(),
+  transformationRules: transformationRulesSchema.nullable(),
+  demuxStrategy: demuxStrategySchema.nullable(),
+  chunkingConfig: chunkingConfigSchema.nullable(),
+});
+export type DecodingProfile = z.infer<typeof decodingProfileSchema>;
+
+/** Update decoding profile request */
+export const updateDecodingProfileSchema = decodingProfileSchema.partial();
+export type UpdateDecodingProfileInput = z.infer<typeof updateDecodingProfileSchema>;
+
+/** Test decode request: decode a sample payload, optionally with unsaved profile changes */
+export const testDecodeSchema = z.object({
+  payload: z.record(z.string(), z.unknown()),
+  profile: updateDecodingProfileSchema.optional(),
+});
+export type TestDecodeInput = z.infer<typeof testDecodeSchema>;
+
+/** Normalized metric produced by decoding */
+export const decodedMetricSchema = z.object({
+  metricKey: z.string(),
+  value: z.number().nullable(),
+  valueText: z.string().nullable(),
+  valueJson: z.unknown().nullable(),
+  unit: z.string().nullable(),
+  quality: z.enum(['good', 'uncertain', 'bad']),
+});
+export type DecodedMetric = z.infer<typeof decodedMetricSchema>;
+
+/** Problem found while decoding */
+export const decodeErrorSchema = z.object({
+  stage: z.enum(['profile', 'schema', 'extraction', 'transformation', 'demux']),
+  metricKey: z.string().optional(),
+  path: z.string().optional(),
+  message: z.string(),
+});
+export type DecodeError = z.infer<typeof decodeErrorSchema>;
+
+/** Test decode response */
+export const testDecodeResponseSchema = z.object({
+  deviceTypeId: z.string().uuid(),
+  valid: z.boolean(),
+  metrics: z.array(decodedMetricSchema),
+  errors: z.array(decodeErrorSchema),
+  /** Per-child payloads when the device type has a demux strategy */
+  children: z
+    .array(
+      z.object({
+        logicalId: z.string(),
+        payload: z.record(z.string(), z.unknown()),
+      })
+    )
+    .optional(),
+});
+export type TestDecodeResponse = z.infer<typeof testDecodeResponseSchema>;
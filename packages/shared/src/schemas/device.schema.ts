@@ -107,8 +107,8 @@ export const deviceListResponseSchema = z.object({
 });
 export type DeviceListResponse = z.infer<typeof deviceListResponseSchema>;
 
-/** Device query parameters */
-export const deviceQuerySchema = z.object({
+/** Device query parameters; attr.<name>=<value> parameters filter on custom attributes */
+export const deviceQuerySchema = z.looseObject({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   status: deviceStatusSchema.optional(),
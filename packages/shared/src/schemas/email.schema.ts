@@ -0,0 +1,80 @@
+/**
+ * Email delivery schemas for validation
+ * Outbound mail is queued in the delivery log and sent by the mail queue worker
+ * using the SMTP settings from the Mail Server tab (email.* platform settings)
+ */
+
+import { z } from 'zod';
+
+/**
+ * Delivery status lifecycle:
+ * queued → sending → sent, or back to queued for a retry; failed once attempts are exhausted
+ */
+export const emailDeliveryStatusSchema = z.enum(['queued', 'sending', 'sent', 'failed']);
+export type EmailDeliveryStatus = z.infer<typeof emailDeliveryStatusSchema>;
+
+/** Templates the platform sends */
+export const emailTemplateSchema = z.enum([
+  'invitation',
+  'password_reset',
+  'account_locked',
+  'activity_assigned',
+  'test',
+]);
+export type EmailTemplate = z.infer<typeof emailTemplateSchema>;
+
+/** Email delivery log entry (message bodies are not returned) */
+export const emailDeliveryResponseSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid().nullable(),
+  template: emailTemplateSchema,
+  toAddress: z.string(),
+  subject: z.string(),
+  status: emailDeliveryStatusSchema,
+  attempts: z.number().int(),
+  maxAttempts: z.number().int(),
+  nextAttemptAt: z.string().datetime().nullable(),
+  lastError: z.string().nullable(),
+  messageId: z.string().nullable(),
+  sentAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type EmailDeliveryResponse = z.infer<typeof emailDeliveryResponseSchema>;
+
+/** Email delivery list response */
+export const emailDeliveryListResponseSchema = z.object({
+  data: z.array(emailDeliveryResponseSchema),
+  pagination: z.object({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    totalCount: z.number().int(),
+    totalPages: z.number().int(),
+    hasNext: z.boolean(),
+    hasPrevious: z.boolean(),
+  }),
+});
+export type EmailDeliveryListResponse = z.infer<typeof emailDeliveryListResponseSchema>;
+
+/** Email delivery query parameters */
+export const emailDeliveryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: emailDeliveryStatusSchema.optional(),
+  template: emailTemplateSchema.optional(),
+});
+export type EmailDeliveryQuery = z.infer<typeof emailDeliveryQuerySchema>;
+
+/** Send test email request */
+export const sendTestEmailSchema = z.object({
+  to: z.string().email('Invalid email address').transform((e) => e.toLowerCase().trim()),
+});
+export type SendTestEmailInput = z.infer<typeof sendTestEmailSchema>;
+
+/** Send test email response - the SMTP result of a direct (unqueued) send */
+export const sendTestEmailResponseSchema = z.object({
+  success: z.boolean(),
+  messageId: z.string().nullable(),
+  error: z.string().nullable(),
+});
+export type SendTestEmailResponse = z.infer<typeof sendTestEmailResponseSchema>;
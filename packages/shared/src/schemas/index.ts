@@ -12,6 +12,13 @@ export * from './invitation.schema.js';
 export * from './organization-profile.schema.js';
 export * from './group.schema.js';
 export * from './role.schema.js';
+export * from './mfa.schema.js';
+export * from './password-policy.schema.js';
+export * from './email.schema.js';
+export * from './api-key.schema.js';
+export * from './session.schema.js';
+export * from './scim.schema.js';
+export * from './sso-mapping.schema.js';
 
 // Phase 7: IoT Meta-Model schemas
 export * from './device.schema.js';
@@ -20,3 +27,15 @@ export * from './space.schema.js';
 export * from './person.schema.js';
 export * from './activity.schema.js';
 export * from './type-management.schema.js';
+export * from './relationship.schema.js';
+
+// IoT Platform: Telemetry pipeline schemas
+export * from './telemetry.schema.js';
+export * from './threshold-rule.schema.js';
+export * from './device-decoding.schema.js';
+export * from './device-binding.schema.js';
+export * from './asset-type-profile.schema.js';
+export * from './asset-health.schema.js';
+export * from './device-command.schema.js';
+export * from './device-connectivity.schema.js';
+export * from './dead-letter.schema.js';
@@ -0,0 +1,102 @@
+/**
+ * Multi-factor authentication schemas for validation
+ * TOTP enrolment, the two-step login challenge and recovery codes
+ */
+
+import { z } from 'zod';
+import { loginResponseSchema } from './user.schema.js';
+
+/** A 6 digit TOTP code (spaces allowed, e.g. "123 456") */
+export const totpCodeSchema = z
+  .string()
+  .transform((code) => code.replace(/\s/g, ''))
+  .pipe(z.string().regex(/^\d{6}$/, 'Code must be 6 digits'));
+
+/** A recovery code (XXXXX-XXXXX, case-insensitive) */
+export const recoveryCodeSchema = z.string().trim().min(1, 'Recovery code is required').max(32);
+
+/** Confirm enrolment / regenerate recovery codes request */
+export const mfaCodeRequestSchema = z.object({
+  code: totpCodeSchema,
+});
+export type MfaCodeRequest = z.infer<typeof mfaCodeRequestSchema>;
+
+/** Second factor: a TOTP code or a recovery code */
+export const mfaCredentialSchema = z
+  .object({
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((data) => (data.code === undefined) !== (data.recoveryCode === undefined), {
+    message: 'Provide either code or recoveryCode',
+  });
+export type MfaCredential = z.infer<typeof mfaCredentialSchema>;
+
+/** Complete a login with a second factor */
+export const mfaChallengeVerifySchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: totpCodeSchema.optional(),
+    recoveryCode: recoveryCodeSchema.optional(),
+  })
+  .refine((data) => (data.code === undefined) !== (data.recoveryCode === undefined), {
+    message: 'Provide either code or recoveryCode',
+  });
+export type MfaChallengeVerify = z.infer<typeof mfaChallengeVerifySchema>;
+
+/** Start enrolment during login (organization requires MFA) */
+export const mfaChallengeEnrollSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+export type MfaChallengeEnroll = z.infer<typeof mfaChallengeEnrollSchema>;
+
+/** Complete enrolment during login */
+export const mfaChallengeConfirmSchema = mfaChallengeEnrollSchema.extend({
+  code: totpCodeSchema,
+});
+export type MfaChallengeConfirm = z.infer<typeof mfaChallengeConfirmSchema>;
+
+/**
+ * Login response when a second factor is needed
+ * - mfaRequired: enter a code with POST /auth/mfa/challenge/verify
+ * - mfaEnrollmentRequired: the organization requires MFA; enrol with
+ *   POST /auth/mfa/challenge/enroll and /auth/mfa/challenge/confirm
+ */
+export const mfaChallengeResponseSchema = z.object({
+  mfaRequired: z.boolean(),
+  mfaEnrollmentRequired: z.boolean(),
+  challengeToken: z.string(),
+  /** Challenge lifetime in seconds */
+  expiresIn: z.number().int(),
+});
+export type MfaChallengeResponse = z.infer<typeof mfaChallengeResponseSchema>;
+
+/** Pending enrolment: add the secret to an authenticator app */
+export const mfaEnrollmentResponseSchema = z.object({
+  /** Base32 secret for manual entry */
+  secret: z.string(),
+  /** otpauth:// key URI, rendered as a QR code */
+  otpauthUri: z.string(),
+});
+export type MfaEnrollmentResponse = z.infer<typeof mfaEnrollmentResponseSchema>;
+
+/** Newly issued recovery codes (shown once) */
+export const mfaRecoveryCodesResponseSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+export type MfaRecoveryCodesResponse = z.infer<typeof mfaRecoveryCodesResponseSchema>;
+
+/** Login completed by enrolling: tokens plus the new recovery codes */
+export const mfaEnrollmentLoginResponseSchema = loginResponseSchema.extend({
+  recoveryCodes: z.array(z.string()),
+});
+export type MfaEnrollmentLoginResponse = z.infer<typeof mfaEnrollmentLoginResponseSchema>;
+
+/** Current user's MFA state */
+export const mfaStatusResponseSchema = z.object({
+  enabled: z.boolean(),
+  /** An organization of the user requires MFA (it cannot be disabled) */
+  required: z.boolean(),
+  recoveryCodesRemaining: z.number().int(),
+});
+export type MfaStatusResponse = z.infer<typeof mfaStatusResponseSchema>;
@@ -74,6 +74,7 @@ export const organizationSettingsSchema = z.object({
     crossOrgSharing: z.boolean().optional(),
     allowWhiteLabeling: z.boolean().optional(),
     allowImpersonation: z.boolean().optional(),
+    impersonationApprovalRequired: z.boolean().optional(),
   }).optional(),
 }).nullable();
 export type OrganizationSettings = z.infer<typeof organizationSettingsSchema>;
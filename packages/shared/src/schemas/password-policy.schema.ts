@@ -0,0 +1,59 @@
+/**
+ * Password policy schemas for validation
+ * The policy is configured by super admins in platform settings
+ * (security.password_* keys) and enforced when passwords are set and at login
+ */
+
+import { z } from 'zod';
+
+/** Effective password and lockout policy */
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(1),
+  maxLength: z.number().int().min(1),
+  minUppercase: z.number().int().min(0),
+  minLowercase: z.number().int().min(0),
+  minDigits: z.number().int().min(0),
+  minSpecialChars: z.number().int().min(0),
+  allowWhitespace: z.boolean(),
+  /** Days until a password must be changed (0 = never expires) */
+  expirationDays: z.number().int().min(0),
+  /** Days before a previous password may be reused (0 = immediately) */
+  reuseFrequencyDays: z.number().int().min(0),
+  /** Require a new password at login when the current one violates the policy */
+  forceResetIfInvalid: z.boolean(),
+  /** Failed logins before the account is locked (0 = never locked) */
+  maxFailedLoginAttempts: z.number().int().min(0),
+  lockoutDurationMinutes: z.number().int().min(1),
+});
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+/** Public subset of the policy shown on password forms */
+export const passwordRequirementsResponseSchema = passwordPolicySchema.pick({
+  minLength: true,
+  maxLength: true,
+  minUppercase: true,
+  minLowercase: true,
+  minDigits: true,
+  minSpecialChars: true,
+  allowWhitespace: true,
+});
+export type PasswordRequirementsResponse = z.infer<typeof passwordRequirementsResponseSchema>;
+
+/**
+ * Why a login requires a new password
+ * - expired: older than the policy's expiration days
+ * - policy: the current password no longer meets the policy (forceResetIfInvalid)
+ */
+export const passwordResetReasonSchema = z.enum(['expired', 'policy']);
+export type PasswordResetReason = z.infer<typeof passwordResetReasonSchema>;
+
+/**
+ * Login response when the password must be changed first
+ * The reset token is used with POST /auth/reset-password
+ */
+export const passwordResetRequiredResponseSchema = z.object({
+  passwordResetRequired: z.literal(true),
+  reason: passwordResetReasonSchema,
+  resetToken: z.string(),
+});
+export type PasswordResetRequiredResponse = z.infer<typeof passwordResetRequiredResponseSchema>;
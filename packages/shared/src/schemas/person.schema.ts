@@ -69,8 +69,8 @@ export const personListResponseSchema = z.object({
 });
 export type PersonListResponse = z.infer<typeof personListResponseSchema>;
 
-/** Person query parameters */
-export const personQuerySchema = z.object({
+/** Person query parameters; attr.<name>=<value> parameters filter on custom attributes */
+export const personQuerySchema = z.looseObject({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   personTypeId: z.string().uuid().optional(),
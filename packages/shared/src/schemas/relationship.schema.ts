@@ -0,0 +1,251 @@
+/**
+ * Relationship schemas for validation
+ * Relationships are typed, optionally time-bounded edges between assets,
+ * devices, spaces, persons and activities (entity_edges). An edge reads
+ * "source RELATIONSHIP target", e.g. pump MONITORED_BY sensor.
+ */
+
+import { z } from 'zod';
+import type { BaseType, RelationshipType } from '../types/base-types.js';
+import { bindingMetricMappingsSchema } from './device-binding.schema.js';
+
+/** Entity base type an edge connects */
+export const relationshipEntityTypeSchema = z.enum(['Asset', 'Device', 'Person', 'Activity', 'Space']);
+
+/** Relationship type */
+export const relationshipTypeSchema = z.enum([
+  'CONTAINED_IN',
+  'CHILD_OF',
+  'ADJACENT_TO',
+  'MONITORED_BY',
+  'CONTROLLED_BY',
+  'FED_BY',
+  'POWERED_BY',
+  'OWNED_BY',
+  'ASSIGNED_TO',
+  'RESPONSIBLE_FOR',
+  'DEPENDS_ON',
+  'BACKUP_FOR',
+  'PART_OF',
+]);
+
+/** Which way edges are followed from an entity */
+export const relationshipDirectionSchema = z.enum(['outgoing', 'incoming', 'both']);
+export type RelationshipDirection = z.infer<typeof relationshipDirectionSchema>;
+
+/** Validation rule of a relationship type */
+export interface RelationshipRule {
+  /** Base types allowed as source and target */
+  source: BaseType[];
+  target: BaseType[];
+  /** Source and target must have the same base type */
+  sameType?: boolean;
+  /** A source has at most one such edge at any time (e.g. one containing space) */
+  singleTarget?: boolean;
+  /** Following the edges may never lead back to the source */
+  acyclic?: boolean;
+}
+
+/**
+ * Allowed entities and constraints per relationship type
+ */
+export const RELATIONSHIP_RULES: Record<RelationshipType, RelationshipRule> = {
+  CONTAINED_IN: {
+    source: ['Asset', 'Device', 'Person', 'Space'],
+    target: ['Space', 'Asset'],
+    singleTarget: true,
+    acyclic: true,
+  },
+  CHILD_OF: {
+    source: ['Asset', 'Device', 'Space', 'Activity'],
+    target: ['Asset', 'Device', 'Space', 'Activity'],
+    sameType: true,
+    singleTarget: true,
+    acyclic: true,
+  },
+  ADJACENT_TO: { source: ['Space', 'Asset'], target: ['Space', 'Asset'], sameType: true },
+  MONITORED_BY: { source: ['Asset', 'Space', 'Person', 'Device'], target: ['Device'] },
+  CONTROLLED_BY: { source: ['Asset', 'Device', 'Space'], target: ['Device', 'Person'] },
+  FED_BY: { source: ['Asset', 'Space'], target: ['Asset'], acyclic: true },
+  POWERED_BY: { source: ['Asset', 'Device', 'Space'], target: ['Asset'], acyclic: true },
+  OWNED_BY: { source: ['Asset', 'Device', 'Space'], target: ['Person'], singleTarget: true },
+  ASSIGNED_TO: { source: ['Activity', 'Asset', 'Device'], target: ['Person'] },
+  RESPONSIBLE_FOR: { source: ['Person'], target: ['Asset', 'Device', 'Space', 'Activity'] },
+  DEPENDS_ON: {
+    source: ['Asset', 'Device', 'Space', 'Activity'],
+    target: ['Asset', 'Device', 'Space', 'Activity'],
+    acyclic: true,
+  },
+  BACKUP_FOR: { source: ['Asset', 'Device'], target: ['Asset', 'Device'], sameType: true },
+  PART_OF: {
+    source: ['Asset', 'Device', 'Space', 'Activity'],
+    target: ['Asset', 'Device', 'Space', 'Activity'],
+    singleTarget: true,
+    acyclic: true,
+  },
+};
+
+/** FED_BY metadata, e.g. { capacity: 400, unit: "kVA" } */
+const fedByMetadataSchema = z.looseObject({
+  capacity: z.number().positive().optional(),
+  unit: z.string().max(20).optional(),
+});
+
+/** BACKUP_FOR metadata: lower priorities take over first */
+const backupForMetadataSchema = z.looseObject({
+  priority: z.number().int().min(1).max(100).optional(),
+});
+
+/** RESPONSIBLE_FOR metadata */
+const responsibleForMetadataSchema = z.looseObject({
+  permissionLevel: z.enum(['view', 'operate', 'configure', 'admin']).optional(),
+  permissions: z.array(z.string().max(100)).max(50).optional(),
+  scope: z.string().max(100).optional(),
+});
+
+/** MONITORED_BY metadata of device bindings */
+const monitoredByMetadataSchema = z.looseObject({
+  metricMappings: bindingMetricMappingsSchema.optional(),
+});
+
+/** Metadata schemas of relationship types with known metadata */
+export const relationshipMetadataSchemas: Partial<Record<RelationshipType, z.ZodType>> = {
+  MONITORED_BY: monitoredByMetadataSchema,
+  FED_BY: fedByMetadataSchema,
+  BACKUP_FOR: backupForMetadataSchema,
+  RESPONSIBLE_FOR: responsibleForMetadataSchema,
+};
+
+const metadataSchema = z.record(z.string(), z.unknown());
+
+/** Checks that validFrom is before validUntil */
+function refineValidity(
+  edge: { validFrom?: string | null; validUntil?: string | null },
+  ctx: z.RefinementCtx
+): void {
+  if (edge.validFrom && edge.validUntil && new Date(edge.validFrom) >= new Date(edge.validUntil)) {
+    ctx.addIssue({ code: 'custom', path: ['validUntil'], message: 'validUntil must be after validFrom' });
+  }
+}
+
+/** Create relationship request */
+export const createRelationshipSchema = z
+  .object({
+    sourceEntityType: relationshipEntityTypeSchema,
+    sourceEntityId: z.string().uuid('Invalid source entity ID'),
+    relationshipType: relationshipTypeSchema,
+    targetEntityType: relationshipEntityTypeSchema,
+    targetEntityId: z.string().uuid('Invalid target entity ID'),
+    metadata: metadataSchema.optional(),
+    /** Start of validity; open-ended in the past when omitted */
+    validFrom: z.string().datetime().optional(),
+    /** End of validity; open-ended when omitted */
+    validUntil: z.string().datetime().optional(),
+  })
+  .superRefine((edge, ctx) => {
+    refineValidity(edge, ctx);
+    const metadataSchemaForType = relationshipMetadataSchemas[edge.relationshipType];
+    if (edge.metadata && metadataSchemaForType) {
+      const result = metadataSchemaForType.safeParse(edge.metadata);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ code: 'custom', path: ['metadata', ...issue.path], message: issue.message });
+        }
+      }
+    }
+  });
+export type CreateRelationshipInput = z.infer<typeof createRelationshipSchema>;
+
+/** Update relationship request, e.g. set validUntil to end an edge but keep its history */
+export const updateRelationshipSchema = z
+  .object({
+    metadata: metadataSchema.nullable().optional(),
+    validFrom: z.string().datetime().nullable().optional(),
+    validUntil: z.string().datetime().nullable().optional(),
+  })
+  .superRefine(refineValidity);
+export type UpdateRelationshipInput = z.infer<typeof updateRelationshipSchema>;
+
+/** Relationship response */
+export const relationshipResponseSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  sourceEntityType: relationshipEntityTypeSchema,
+  sourceEntityId: z.string().uuid(),
+  relationshipType: relationshipTypeSchema,
+  targetEntityType: relationshipEntityTypeSchema,
+  targetEntityId: z.string().uuid(),
+  metadata: metadataSchema.nullable(),
+  validFrom: z.string().datetime().nullable(),
+  validUntil: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type RelationshipResponse = z.infer<typeof relationshipResponseSchema>;
+
+/** Comma-separated relationship types, e.g. "FED_BY,POWERED_BY" */
+const relationshipTypesQuerySchema = z
+  .string()
+  .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+  .pipe(z.array(relationshipTypeSchema).min(1));
+
+/** Entity whose relationships are queried */
+const entityQuerySchema = z.object({
+  entityType: relationshipEntityTypeSchema,
+  entityId: z.string().uuid('Invalid entity ID'),
+  relationshipTypes: relationshipTypesQuerySchema.optional(),
+  /** Only edges valid at this time; defaults to now */
+  asOf: z.string().datetime().optional(),
+});
+
+/** Neighbour query parameters */
+export const relationshipNeighborsQuerySchema = entityQuerySchema.extend({
+  direction: relationshipDirectionSchema.default('both'),
+});
+export type RelationshipNeighborsQuery = z.infer<typeof relationshipNeighborsQuerySchema>;
+
+/** Traversal query parameters */
+export const relationshipTraversalQuerySchema = entityQuerySchema.extend({
+  /** incoming from a transformer over FED_BY finds everything it feeds */
+  direction: relationshipDirectionSchema.default('outgoing'),
+  maxDepth: z.coerce.number().int().min(1).max(10).default(3),
+  /** Stop after this many entities */
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+export type RelationshipTraversalQuery = z.infer<typeof relationshipTraversalQuerySchema>;
+
+/** Entity at the other end of an edge */
+export const relatedEntitySchema = z.object({
+  entityType: relationshipEntityTypeSchema,
+  entityId: z.string().uuid(),
+  /** Null if the entity has been deleted */
+  name: z.string().nullable(),
+});
+export type RelatedEntity = z.infer<typeof relatedEntitySchema>;
+
+/** Neighbour list response */
+export const relationshipNeighborsResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      direction: z.enum(['outgoing', 'incoming']),
+      relationship: relationshipResponseSchema,
+      entity: relatedEntitySchema,
+    })
+  ),
+});
+export type RelationshipNeighborsResponse = z.infer<typeof relationshipNeighborsResponseSchema>;
+
+/** Traversal response: the entities reached, nearest first, and the edges followed */
+export const relationshipTraversalResponseSchema = z.object({
+  root: relatedEntitySchema,
+  nodes: z.array(
+    relatedEntitySchema.extend({
+      depth: z.number().int(),
+      /** Edge through which the entity was first reached */
+      viaRelationshipId: z.string().uuid(),
+    })
+  ),
+  relationships: z.array(relationshipResponseSchema),
+  /** Whether the limit cut the traversal short */
+  truncated: z.boolean(),
+});
+export type RelationshipTraversalResponse = z.infer<typeof relationshipTraversalResponseSchema>;
@@ -111,3 +111,26 @@ export const userRoleAssignmentsResponseSchema = z.object({
   data: z.array(userRoleAssignmentResponseSchema),
 });
 export type UserRoleAssignmentsResponse = z.infer<typeof userRoleAssignmentsResponseSchema>;
+
+/** Role granting permissions in an organization, and how it applies there */
+export const effectiveRoleSchema = z.object({
+  roleId: z.string().uuid(),
+  roleName: z.string(),
+  /** direct / group / sso / inherited assignment, or the organization membership role */
+  source: z.union([roleSourceSchema, z.literal('membership')]),
+  scope: roleScopeSchema,
+  /** Organization the role is assigned in (the current one or an ancestor) */
+  organizationId: z.string().uuid(),
+});
+export type EffectiveRole = z.infer<typeof effectiveRoleSchema>;
+
+/** Effective permissions of a user in an organization */
+export const effectivePermissionsResponseSchema = z.object({
+  organizationId: z.string().uuid(),
+  isSuperAdmin: z.boolean(),
+  /** Resource → allowed actions; '*' applies to every resource */
+  permissions: z.record(z.string(), z.array(permissionActionSchema)),
+  menuAccess: z.array(z.string()),
+  roles: z.array(effectiveRoleSchema),
+});
+export type EffectivePermissionsResponse = z.infer<typeof effectivePermissionsResponseSchema>;
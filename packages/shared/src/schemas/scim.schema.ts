@@ -0,0 +1,198 @@
+/**
+ * SCIM 2.0 schemas for validation (RFC 7643 resources, RFC 7644 protocol)
+ * Covers the subset identity providers use to provision users and groups:
+ * core User and Group resources, list responses, PATCH operations and errors.
+ */
+
+import { z } from 'zod';
+import { emailSchema } from './user.schema.js';
+
+/** SCIM schema URNs */
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+} as const;
+
+/**
+ * SCIM boolean; some identity providers send "True" / "False" strings
+ */
+export const scimBooleanSchema = z.preprocess(
+  (value) => (typeof value === 'string' && /^(true|false)$/i.test(value) ? value.toLowerCase() === 'true' : value),
+  z.boolean()
+);
+
+/** Multi-valued attribute reference (group member, role, user's group) */
+export const scimValueSchema = z.object({
+  value: z.string().min(1),
+  display: z.string().optional(),
+});
+export type ScimValue = z.infer<typeof scimValueSchema>;
+
+// ============================================================
+// Request schemas
+// ============================================================
+
+/**
+ * User create / replace body
+ * userName is the account email. roles are role names; when omitted the
+ * user's SSO-provisioned roles are left unchanged.
+ */
+export const scimUserInputSchema = z.object({
+  userName: emailSchema,
+  externalId: z.string().min(1).max(255).nullish(),
+  name: z
+    .object({
+      givenName: z.string().max(100).nullish(),
+      familyName: z.string().max(100).nullish(),
+    })
+    .nullish(),
+  active: scimBooleanSchema.optional().default(true),
+  roles: z.array(scimValueSchema).optional(),
+});
+export type ScimUserInput = z.infer<typeof scimUserInputSchema>;
+
+/** Group create / replace body; member values are user IDs */
+export const scimGroupInputSchema = z.object({
+  displayName: z.string().trim().min(1).max(100),
+  externalId: z.string().min(1).max(255).nullish(),
+  members: z.array(scimValueSchema.extend({ value: z.string().uuid() })).optional(),
+});
+export type ScimGroupInput = z.infer<typeof scimGroupInputSchema>;
+
+/** PATCH operation; op names are case-insensitive */
+export const scimPatchOperationSchema = z.object({
+  op: z
+    .string()
+    .transform((op) => op.toLowerCase())
+    .pipe(z.enum(['add', 'replace', 'remove'])),
+  path: z.string().min(1).optional(),
+  value: z.unknown().optional(),
+});
+export type ScimPatchOperation = z.infer<typeof scimPatchOperationSchema>;
+
+/** PATCH request body */
+export const scimPatchRequestSchema = z.object({
+  schemas: z.array(z.string()).optional(),
+  Operations: z.array(scimPatchOperationSchema).min(1),
+});
+export type ScimPatchRequest = z.infer<typeof scimPatchRequestSchema>;
+
+/** List query; startIndex is 1-based, out of range values are clamped */
+export const scimListQuerySchema = z.object({
+  filter: z.string().optional(),
+  startIndex: z.coerce
+    .number()
+    .int()
+    .default(1)
+    .transform((startIndex) => Math.max(startIndex, 1)),
+  count: z.coerce
+    .number()
+    .int()
+    .default(100)
+    .transform((count) => Math.min(Math.max(count, 0), 1000)),
+  excludedAttributes: z.string().optional(),
+});
+export type ScimListQuery = z.infer<typeof scimListQuerySchema>;
+
+// ============================================================
+// Response schemas
+// ============================================================
+
+/** Resource metadata */
+export const scimMetaSchema = z.object({
+  resourceType: z.enum(['User', 'Group']),
+  created: z.string().datetime(),
+  lastModified: z.string().datetime(),
+});
+
+/** User resource */
+export const scimUserSchema = z.object({
+  schemas: z.array(z.string()),
+  id: z.string().uuid(),
+  externalId: z.string().optional(),
+  userName: z.string(),
+  name: z.object({
+    givenName: z.string().optional(),
+    familyName: z.string().optional(),
+    formatted: z.string().optional(),
+  }),
+  displayName: z.string().optional(),
+  emails: z.array(
+    z.object({
+      value: z.string(),
+      type: z.string(),
+      primary: z.boolean(),
+    })
+  ),
+  active: z.boolean(),
+  groups: z.array(scimValueSchema),
+  roles: z.array(scimValueSchema),
+  meta: scimMetaSchema,
+});
+export type ScimUser = z.infer<typeof scimUserSchema>;
+
+/** Group resource; members is left out when excluded by the client */
+export const scimGroupSchema = z.object({
+  schemas: z.array(z.string()),
+  id: z.string().uuid(),
+  externalId: z.string().optional(),
+  displayName: z.string(),
+  members: z.array(scimValueSchema).optional(),
+  meta: scimMetaSchema,
+});
+export type ScimGroup = z.infer<typeof scimGroupSchema>;
+
+function scimListResponseSchema<T extends z.ZodTypeAny>(resourceSchema: T) {
+  return z.object({
+    schemas: z.array(z.string()),
+    totalResults: z.number().int(),
+    startIndex: z.number().int(),
+    itemsPerPage: z.number().int(),
+    Resources: z.array(resourceSchema),
+  });
+}
+
+export const scimUserListResponseSchema = scimListResponseSchema(scimUserSchema);
+export const scimGroupListResponseSchema = scimListResponseSchema(scimGroupSchema);
+
+/** List response */
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+/** SCIM error types (RFC 7644 section 3.12) */
+export const scimErrorTypeSchema = z.enum([
+  'invalidFilter',
+  'tooMany',
+  'uniqueness',
+  'mutability',
+  'invalidSyntax',
+  'invalidPath',
+  'noTarget',
+  'invalidValue',
+]);
+export type ScimErrorType = z.infer<typeof scimErrorTypeSchema>;
+
+/** Error response; status is the HTTP status as a string */
+export const scimErrorResponseSchema = z.object({
+  schemas: z.array(z.string()),
+  status: z.string(),
+  scimType: scimErrorTypeSchema.optional(),
+  detail: z.string().optional(),
+});
+export type ScimErrorResponse = z.infer<typeof scimErrorResponseSchema>;
+
+/** SCIM token generation response (the token is only shown once) */
+export const scimTokenResponseSchema = z.object({
+  token: z.string(),
+  createdAt: z.string().datetime(),
+});
+export type ScimTokenResponse = z.infer<typeof scimTokenResponseSchema>;
@@ -0,0 +1,42 @@
+/**
+ * Session schemas for validation
+ * A session is one sign-in: the refresh token family created at login and
+ * kept alive by token rotation, until logout, revocation or expiry.
+ */
+
+import { z } from 'zod';
+
+/** Device class parsed from the user agent */
+export const sessionDeviceTypeSchema = z.enum(['desktop', 'mobile', 'tablet', 'unknown']);
+export type SessionDeviceType = z.infer<typeof sessionDeviceTypeSchema>;
+
+/** Active session response */
+export const sessionResponseSchema = z.object({
+  /** Session ID (the refresh token family ID) */
+  id: z.string().uuid(),
+  browser: z.string().nullable(),
+  os: z.string().nullable(),
+  deviceType: sessionDeviceTypeSchema,
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  /** When the user signed in */
+  createdAt: z.string().datetime(),
+  /** When the session last refreshed its tokens */
+  lastUsedAt: z.string().datetime(),
+  expiresAt: z.string().datetime(),
+  /** Whether this is the session making the request */
+  current: z.boolean(),
+});
+export type SessionResponse = z.infer<typeof sessionResponseSchema>;
+
+/** Session list response (most recently used first) */
+export const sessionListResponseSchema = z.object({
+  data: z.array(sessionResponseSchema),
+});
+export type SessionListResponse = z.infer<typeof sessionListResponseSchema>;
+
+/** Bulk revocation response */
+export const revokeSessionsResponseSchema = z.object({
+  revokedCount: z.number().int(),
+});
+export type RevokeSessionsResponse = z.infer<typeof revokeSessionsResponseSchema>;
@@ -90,8 +90,8 @@ export const spaceListResponseSchema = z.object({
 });
 export type SpaceListResponse = z.infer<typeof spaceListResponseSchema>;
 
-/** Space query parameters */
-export const spaceQuerySchema = z.object({
+/** Space query parameters; attr.<name>=<value> parameters filter on custom attributes */
+export const spaceQuerySchema = z.looseObject({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   spaceTypeId: z.string().uuid().optional(),
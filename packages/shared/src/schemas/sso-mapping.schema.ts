@@ -0,0 +1,158 @@
+/**
+ * SSO mapping rule schemas for validation
+ * Mapping rules belong to an identity provider and turn IdP claims, SAML
+ * attributes and group names into organization memberships, user group
+ * memberships and roles. Rules are re-evaluated on every SSO login.
+ */
+
+import { z } from 'zod';
+import { organizationRoleSchema } from './membership.schema.js';
+
+/**
+ * How a rule's value is compared with the claim's values
+ * Comparisons are case-insensitive; a multi-valued claim (e.g. groups)
+ * matches if any of its values does.
+ */
+export const ssoMappingOperatorSchema = z.enum([
+  'equals',
+  'contains',
+  'starts_with',
+  'ends_with',
+  'matches',
+  'exists',
+]);
+export type SsoMappingOperator = z.infer<typeof ssoMappingOperatorSchema>;
+
+/** Membership role a rule grants (ownership is never granted by the IdP) */
+export const ssoMappingMemberRoleSchema = organizationRoleSchema.exclude(['owner']);
+export type SsoMappingMemberRole = z.infer<typeof ssoMappingMemberRoleSchema>;
+
+/**
+ * Claim or attribute name, e.g. "groups", "department" or a SAML attribute URI
+ * Nested claims use dots, e.g. "realm_access.roles".
+ */
+const claimSchema = z.string().min(1, 'Claim is required').max(255).trim();
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Checks that a matches rule's value is a valid regular expression */
+function refinePattern(
+  rule: { operator?: SsoMappingOperator; value?: string | null },
+  ctx: z.RefinementCtx
+): void {
+  if (rule.operator === 'matches' && rule.value && !isValidPattern(rule.value)) {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: 'Value must be a valid regular expression' });
+  }
+}
+
+/** Checks that a rule has a value to compare unless it only tests presence */
+function refineCondition(
+  rule: { operator: SsoMappingOperator; value?: string | null },
+  ctx: z.RefinementCtx
+): void {
+  if (rule.operator !== 'exists' && !rule.value) {
+    ctx.addIssue({ code: 'custom', path: ['value'], message: `A value is required for the ${rule.operator} operator` });
+  }
+  refinePattern(rule, ctx);
+}
+
+/** Create mapping rule request */
+export const createSsoMappingRuleSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100).trim(),
+    claim: claimSchema,
+    operator: ssoMappingOperatorSchema,
+    value: z.string().max(500).nullable().optional(),
+    /** Organization the rule grants access to; defaults to the provider's organization */
+    organizationId: z.string().uuid().optional(),
+    organizationRole: ssoMappingMemberRoleSchema.default('member'),
+    /** User group in the organization to add the user to */
+    groupId: z.string().uuid().nullable().optional(),
+    /** Role to assign in the organization (source 'sso') */
+    roleId: z.string().uuid().nullable().optional(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine(refineCondition);
+export type CreateSsoMappingRuleInput = z.infer<typeof createSsoMappingRuleSchema>;
+
+/** Update mapping rule request (the value requirement is checked against the stored rule) */
+export const updateSsoMappingRuleSchema = z
+  .object({
+    name: z.string().min(1).max(100).trim().optional(),
+    claim: claimSchema.optional(),
+    operator: ssoMappingOperatorSchema.optional(),
+    value: z.string().max(500).nullable().optional(),
+    organizationId: z.string().uuid().optional(),
+    organizationRole: ssoMappingMemberRoleSchema.optional(),
+    groupId: z.string().uuid().nullable().optional(),
+    roleId: z.string().uuid().nullable().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .superRefine(refinePattern);
+export type UpdateSsoMappingRuleInput = z.infer<typeof updateSsoMappingRuleSchema>;
+
+/** Mapping rule response */
+export const ssoMappingRuleResponseSchema = z.object({
+  id: z.string().uuid(),
+  providerId: z.string().uuid(),
+  name: z.string(),
+  claim: z.string(),
+  operator: ssoMappingOperatorSchema,
+  value: z.string().nullable(),
+  organizationId: z.string().uuid(),
+  organizationRole: ssoMappingMemberRoleSchema,
+  groupId: z.string().uuid().nullable(),
+  roleId: z.string().uuid().nullable(),
+  enabled: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type SsoMappingRuleResponse = z.infer<typeof ssoMappingRuleResponseSchema>;
+
+/** Mapping rule list response */
+export const ssoMappingRuleListResponseSchema = z.object({
+  data: z.array(ssoMappingRuleResponseSchema),
+});
+export type SsoMappingRuleListResponse = z.infer<typeof ssoMappingRuleListResponseSchema>;
+
+/** Test mapping request: a sample profile as the IdP would send it */
+export const testSsoMappingSchema = z.object({
+  email: z.string().email().optional(),
+  /** OIDC claims or SAML attributes, e.g. { "groups": ["Operators"] } */
+  claims: z.record(z.string(), z.unknown()).default({}),
+});
+export type TestSsoMappingInput = z.infer<typeof testSsoMappingSchema>;
+
+/** Test mapping response: what a login with the sample profile would grant */
+export const ssoMappingTestResultSchema = z.object({
+  matchedRules: z.array(z.object({ id: z.string().uuid(), name: z.string() })),
+  organizations: z.array(
+    z.object({
+      organizationId: z.string().uuid(),
+      organizationName: z.string().nullable(),
+      role: ssoMappingMemberRoleSchema,
+    })
+  ),
+  groups: z.array(
+    z.object({
+      groupId: z.string().uuid(),
+      groupName: z.string().nullable(),
+      organizationId: z.string().uuid(),
+    })
+  ),
+  roles: z.array(
+    z.object({
+      roleId: z.string().uuid(),
+      roleName: z.string().nullable(),
+      organizationId: z.string().uuid(),
+    })
+  ),
+});
+export type SsoMappingTestResult = z.infer<typeof ssoMappingTestResultSchema>;
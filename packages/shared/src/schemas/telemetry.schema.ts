@@ -0,0 +1,117 @@
+/**
+ * Telemetry query schemas for validation
+ */
+
+import { z } from 'zod';
+
+/** Reading quality flag */
+export const telemetryQualitySchema = z.enum(['good', 'uncertain', 'bad']);
+export type TelemetryQualityFlag = z.infer<typeof telemetryQualitySchema>;
+
+/** Aggregation bucket width */
+export const telemetryIntervalSchema = z.enum(['1m', '5m', '1h', '1d']);
+export type TelemetryInterval = z.infer<typeof telemetryIntervalSchema>;
+
+/** Aggregate function applied per bucket */
+export const telemetryAggregationSchema = z.enum(['avg', 'min', 'max', 'sum', 'count', 'last']);
+export type TelemetryAggregation = z.infer<typeof telemetryAggregationSchema>;
+
+/** Entity path parameter */
+export const telemetryEntityParamsSchema = z.object({
+  entityId: z.string().uuid(),
+});
+
+/** A single stored reading */
+export const telemetryReadingSchema = z.object({
+  metricKey: z.string(),
+  value: z.number().nullable(),
+  valueText: z.string().nullable(),
+  valueJson: z.unknown().nullable(),
+  unit: z.string().nullable(),
+  quality: telemetryQualitySchema,
+  timestamp: z.string().datetime(),
+});
+export type TelemetryReading = z.infer<typeof telemetryReadingSchema>;
+
+/** Latest value query parameters */
+export const telemetryLatestQuerySchema = z.object({
+  /** Comma-separated metric keys; all metrics when omitted */
+  metricKeys: z
+    .string()
+    .transform((value) =>
+      value
+        .split(',')
+        .map((key) => key.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.string().max(255)).max(100))
+    .optional(),
+});
+export type TelemetryLatestQuery = z.infer<typeof telemetryLatestQuerySchema>;
+
+/** Latest value response */
+export const telemetryLatestResponseSchema = z.object({
+  entityId: z.string().uuid(),
+  data: z.array(telemetryReadingSchema),
+});
+export type TelemetryLatestResponse = z.infer<typeof telemetryLatestResponseSchema>;
+
+/** Raw range query parameters (cursor paginated, oldest first) */
+export const telemetryRangeQuerySchema = z
+  .object({
+    metricKey: z.string().min(1).max(255),
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+    limit: z.coerce.number().int().min(1).max(5000).default(500),
+    cursor: z.string().max(200).optional(),
+  })
+  .refine((query) => new Date(query.from) < new Date(query.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+export type TelemetryRangeQuery = z.infer<typeof telemetryRangeQuerySchema>;
+
+/** Raw range response */
+export const telemetryRangeResponseSchema = z.object({
+  entityId: z.string().uuid(),
+  data: z.array(telemetryReadingSchema),
+  nextCursor: z.string().nullable(),
+});
+export type TelemetryRangeResponse = z.infer<typeof telemetryRangeResponseSchema>;
+
+/** Aggregate query parameters */
+export const telemetryAggregateQuerySchema = z
+  .object({
+    metricKey: z.string().min(1).max(255),
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+    interval: telemetryIntervalSchema.default('1h'),
+    aggregation: telemetryAggregationSchema.default('avg'),
+    /** entity: only this entity; subtree: the asset and its descendants (including readings of their bound devices) */
+    scope: z.enum(['entity', 'subtree']).default('entity'),
+  })
+  .refine((query) => new Date(query.from) < new Date(query.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+export type TelemetryAggregateQuery = z.infer<typeof telemetryAggregateQuerySchema>;
+
+/** Aggregated bucket */
+export const telemetryBucketSchema = z.object({
+  bucket: z.string().datetime(),
+  value: z.number().nullable(),
+  count: z.number().int(),
+});
+export type TelemetryBucket = z.infer<typeof telemetryBucketSchema>;
+
+/** Aggregate response */
+export const telemetryAggregateResponseSchema = z.object({
+  entityId: z.string().uuid(),
+  metricKey: z.string(),
+  interval: telemetryIntervalSchema,
+  aggregation: telemetryAggregationSchema,
+  scope: z.enum(['entity', 'subtree']),
+  entityCount: z.number().int(),
+  buckets: z.array(telemetryBucketSchema),
+});
+export type TelemetryAggregateResponse = z.infer<typeof telemetryAggregateResponseSchema>;
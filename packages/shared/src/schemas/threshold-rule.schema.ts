@@ -0,0 +1,176 @@
+/**
+ * Threshold rule schemas for validation
+ * Rules turn incoming metric values into THRESHOLD_BREACHED / THRESHOLD_CLEARED events
+ */
+
+import { z } from 'zod';
+import { activityPrioritySchema } from './activity.schema.js';
+
+/** Comparison applied between the metric value and the thresholds */
+export const thresholdOperatorSchema = z.enum(['gt', 'gte', 'lt', 'lte']);
+export type ThresholdOperator = z.infer<typeof thresholdOperatorSchema>;
+
+/** Alert level produced by a threshold rule */
+export const thresholdLevelSchema = z.enum(['normal', 'warning', 'critical']);
+export type ThresholdLevel = z.infer<typeof thresholdLevelSchema>;
+
+/** Activity opened when a rule breaches */
+export const thresholdActivitySchema = z.object({
+  activityTypeId: z.string().uuid('Invalid activity type ID'),
+  assignedToUserId: z.string().uuid('Invalid user ID').optional(),
+  priority: activityPrioritySchema.optional(),
+});
+export type ThresholdActivityConfig = z.infer<typeof thresholdActivitySchema>;
+
+/** Rule condition (stored in threshold_rules.condition) */
+export const thresholdConditionSchema = z.object({
+  operator: thresholdOperatorSchema,
+  activity: thresholdActivitySchema.optional(),
+});
+export type ThresholdCondition = z.infer<typeof thresholdConditionSchema>;
+
+/** Rule name validation */
+export const thresholdRuleNameSchema = z
+  .string()
+  .min(1, 'Rule name is required')
+  .max(255, 'Rule name must be at most 255 characters')
+  .trim();
+
+const thresholdRuleFieldsSchema = z.object({
+  name: thresholdRuleNameSchema,
+  description: z.string().max(1000).optional(),
+  assetTypeId: z.string().uuid('Invalid asset type ID').optional(),
+  specificAssetIds: z.array(z.string().uuid('Invalid asset ID')).max(1000).optional(),
+  metricKey: z.string().min(1).max(255),
+  condition: thresholdConditionSchema,
+  warningThreshold: z.number().optional(),
+  criticalThreshold: z.number().optional(),
+  hysteresis: z.number().min(0).default(0),
+  debounceSeconds: z.number().int().min(0).max(86400).default(60),
+  cooldownSeconds: z.number().int().min(0).max(604800).default(300),
+  eventType: z.string().min(1).max(100),
+  eventSeverity: z.string().min(1).max(50),
+  eventPriority: z.number().int().min(1).max(5).default(3),
+  messageTemplate: z.string().max(1000).optional(),
+  isActive: z.boolean().default(true),
+});
+
+/** Create threshold rule request */
+export const createThresholdRuleSchema = thresholdRuleFieldsSchema
+  .refine((rule) => rule.assetTypeId || (rule.specificAssetIds?.length ?? 0) > 0, {
+    message: 'Either assetTypeId or specificAssetIds is required',
+    path: ['assetTypeId'],
+  })
+  .refine((rule) => rule.warningThreshold !== undefined || rule.criticalThreshold !== undefined, {
+    message: 'At least one of warningThreshold or criticalThreshold is required',
+    path: ['warningThreshold'],
+  });
+export type CreateThresholdRuleInput = z.infer<typeof createThresholdRuleSchema>;
+
+/** Update threshold rule request */
+export const updateThresholdRuleSchema = z.object({
+  name: thresholdRuleNameSchema.optional(),
+  description: z.string().max(1000).nullable().optional(),
+  assetTypeId: z.string().uuid().nullable().optional(),
+  specificAssetIds: z.array(z.string().uuid()).max(1000).nullable().optional(),
+  metricKey: z.string().min(1).max(255).optional(),
+  condition: thresholdConditionSchema.optional(),
+  warningThreshold: z.number().nullable().optional(),
+  criticalThreshold: z.number().nullable().optional(),
+  hysteresis: z.number().min(0).optional(),
+  debounceSeconds: z.number().int().min(0).max(86400).optional(),
+  cooldownSeconds: z.number().int().min(0).max(604800).optional(),
+  eventType: z.string().min(1).max(100).optional(),
+  eventSeverity: z.string().min(1).max(50).optional(),
+  eventPriority: z.number().int().min(1).max(5).optional(),
+  messageTemplate: z.string().max(1000).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+export type UpdateThresholdRuleInput = z.infer<typeof updateThresholdRuleSchema>;
+
+/** Threshold rule response */
+export const thresholdRuleResponseSchema = z.object({
+  id: z.string().uuid(),
+  organizationId: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  assetTypeId: z.string().uuid().nullable(),
+  specificAssetIds: z.array(z.string().uuid()).nullable(),
+  metricKey: z.string(),
+  condition: thresholdConditionSchema,
+  warningThreshold: z.number().nullable(),
+  criticalThreshold: z.number().nullable(),
+  hysteresis: z.number(),
+  debounceSeconds: z.number().int(),
+  cooldownSeconds: z.number().int(),
+  eventType: z.string(),
+  eventSeverity: z.string(),
+  eventPriority: z.number().int(),
+  messageTemplate: z.string().nullable(),
+  isActive: z.boolean(),
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type ThresholdRuleResponse = z.infer<typeof thresholdRuleResponseSchema>;
+
+/** Threshold rule list response */
+export const thresholdRuleListResponseSchema = z.object({
+  data: z.array(thresholdRuleResponseSchema),
+  pagination: z.object({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    totalCount: z.number().int(),
+    totalPages: z.number().int(),
+    hasNext: z.boolean(),
+    hasPrevious: z.boolean(),
+  }),
+});
+export type ThresholdRuleListResponse = z.infer<typeof thresholdRuleListResponseSchema>;
+
+/** Threshold rule query parameters */
+export const thresholdRuleQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  assetTypeId: z.string().uuid().optional(),
+  metricKey: z.string().optional(),
+  isActive: z.coerce.boolean().optional(),
+});
+export type ThresholdRuleQuery = z.infer<typeof thresholdRuleQuerySchema>;
+
+/** Dry-run request: replay historical telemetry against a draft rule */
+export const thresholdRuleDryRunSchema = z
+  .object({
+    rule: createThresholdRuleSchema,
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+    assetIds: z.array(z.string().uuid()).max(100).optional(),
+  })
+  .refine((input) => new Date(input.from) < new Date(input.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+export type ThresholdRuleDryRunInput = z.infer<typeof thresholdRuleDryRunSchema>;
+
+/** Event that a rule would have produced */
+export const thresholdRuleDryRunEventSchema = z.object({
+  assetId: z.string().uuid(),
+  eventType: z.enum(['THRESHOLD_BREACHED', 'THRESHOLD_CLEARED']),
+  level: thresholdLevelSchema,
+  value: z.number(),
+  threshold: z.number().nullable(),
+  message: z.string(),
+  timestamp: z.string().datetime(),
+});
+export type ThresholdRuleDryRunEvent = z.infer<typeof thresholdRuleDryRunEventSchema>;
+
+/** Dry-run response */
+export const thresholdRuleDryRunResponseSchema = z.object({
+  assetsEvaluated: z.number().int(),
+  readingsEvaluated: z.number().int(),
+  truncated: z.boolean(),
+  breachedCount: z.number().int(),
+  clearedCount: z.number().int(),
+  events: z.array(thresholdRuleDryRunEventSchema),
+});
+export type ThresholdRuleDryRunResponse = z.infer<typeof thresholdRuleDryRunResponseSchema>;
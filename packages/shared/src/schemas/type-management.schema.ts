@@ -1,6 +1,7 @@
 /**
  * Type management schemas for validation
- * Unified schemas for managing all 5 base type definitions
+ * Unified schemas for managing all 5 base type definitions and the custom
+ * attributes their attributeSchema describes
  */
 
 import { z } from 'zod';
@@ -81,3 +82,60 @@ export const typeQuerySchema = z.object({
   search: z.string().max(255).optional(),
 });
 export type TypeQuery = z.infer<typeof typeQuerySchema>;
+
+/**
+ * Custom property of a type_definitions registry entry
+ * Translated into a JSON Schema property of the entities' customAttributes.
+ */
+export const propertyMappingSchema = z.object({
+  key: z.string().min(1).max(64),
+  dataType: z.enum(['string', 'number', 'integer', 'boolean', 'date', 'date-time', 'object', 'array']),
+  required: z.boolean().default(false),
+  default: z.unknown().optional(),
+  enumValues: z.array(z.union([z.string(), z.number()])).optional(),
+  description: z.string().optional(),
+});
+export type PropertyMapping = z.infer<typeof propertyMappingSchema>;
+
+export const propertyMappingsSchema = z.array(propertyMappingSchema);
+
+/** Query parameters filtering list endpoints on custom attributes: ?attr.floor=3 */
+export const ATTRIBUTE_FILTER_PREFIX = 'attr.';
+
+/** Maximum number of attribute filters per request */
+export const MAX_ATTRIBUTE_FILTERS = 10;
+
+/** Custom attribute name usable in filters */
+export const attributeKeySchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_-]{0,63}$/, 'Invalid attribute name');
+
+/** Attribute schema check request: the schema to check, the stored one when omitted */
+export const attributeSchemaCheckSchema = z.object({
+  attributeSchema: z.record(z.string(), z.unknown()).optional(),
+});
+export type AttributeSchemaCheckInput = z.infer<typeof attributeSchemaCheckSchema>;
+
+/** An entity whose custom attributes do not match the checked schema */
+export const attributeViolationSchema = z.object({
+  entityId: z.string().uuid(),
+  name: z.string(),
+  typeId: z.string().uuid(),
+  errors: z.array(
+    z.object({
+      path: z.string(),
+      message: z.string(),
+    })
+  ),
+});
+export type AttributeViolation = z.infer<typeof attributeViolationSchema>;
+
+/** Attribute schema check response */
+export const attributeSchemaCheckResponseSchema = z.object({
+  /** Entities of the type and its subtypes that were checked */
+  checked: z.number().int(),
+  /** Whether the check stopped before all entities were checked */
+  truncated: z.boolean(),
+  violations: z.array(attributeViolationSchema),
+});
+export type AttributeSchemaCheckResponse = z.infer<typeof attributeSchemaCheckResponseSchema>;
@@ -75,6 +75,15 @@ export const userResponseSchema = z.object({
 });
 export type UserResponse = z.infer<typeof userResponseSchema>;
 
+/** Tokens issued by a completed login */
+export const loginResponseSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  expiresIn: z.number(),
+  user: userResponseSchema,
+});
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+
 /** User list response */
 export const userListResponseSchema = z.object({
   data: z.array(userResponseSchema),
@@ -1,31 +1,477 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Key, Plus, Loader2, RefreshCw, RotateCw, Ban, Copy, Check } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Key } from 'lucide-react';
-
-export function OrganizationAPIAccessTab() {
-    return (
-        <div className="space-y-6">
-            <Card>
-                <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                        <Key className="h-5 w-5" />
-                        API Access
-                    </CardTitle>
-                    <CardDescription>
-                        Manage API keys and access tokens for this organization.
-                    </CardDescription>
-                </CardHeader>
-                <CardContent className="flex flex-col items-center justify-center py-8 text-center">
-                    <div className="rounded-full bg-muted p-4 mb-4">
-                        <Key className="h-8 w-8 text-muted-foreground" />
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { apiClient } from '@/lib/api-client';
+
+type PermissionAction = 'create' | 'read' | 'update' | 'delete';
+
+interface ApiKeyPermission {
+  resource: string;
+  actions: PermissionAction[];
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  description: string | null;
+  keyPrefix: string;
+  permissions: ApiKeyPermission[];
+  allowedIps: string[];
+  status: 'active' | 'expired' | 'revoked';
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+interface ApiKeyListResponse {
+  data: ApiKey[];
+  usage: {
+    active: number;
+    limit: number | null;
+  };
+}
+
+interface ApiKeySecretResponse {
+  apiKey: ApiKey;
+  key: string;
+}
+
+const RESOURCES = [
+  { value: 'devices', label: 'Devices' },
+  { value: 'assets', label: 'Assets' },
+  { value: 'spaces', label: 'Spaces' },
+  { value: 'persons', label: 'People' },
+  { value: 'activities', label: 'Activities' },
+  { value: 'types', label: 'Types' },
+  { value: 'telemetry', label: 'Telemetry' },
+  { value: 'threshold_rules', label: 'Threshold Rules' },
+];
+
+const ACTIONS: PermissionAction[] = ['read', 'create', 'update', 'delete'];
+
+interface OrganizationAPIAccessTabProps {
+  organizationId: string;
+}
+
+export function OrganizationAPIAccessTab({ organizationId }: OrganizationAPIAccessTabProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [usage, setUsage] = useState<ApiKeyListResponse['usage'] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create dialog state
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyPermissions, setNewKeyPermissions] = useState<Record<string, PermissionAction[]>>({});
+  const [newKeyAllowedIps, setNewKeyAllowedIps] = useState('');
+  const [newKeyExpiresAt, setNewKeyExpiresAt] = useState('');
+
+  // The key is only shown once, after create or rotate
+  const [revealedKey, setRevealedKey] = useState<ApiKeySecretResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchApiKeys = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await apiClient.get<ApiKeyListResponse>(
+        `/organizations/${organizationId}/api-keys`
+      );
+      setApiKeys(response.data);
+      setUsage(response.usage);
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (organizationId) {
+      fetchApiKeys();
+    }
+  }, [organizationId, fetchApiKeys]);
+
+  const resetCreateForm = () => {
+    setNewKeyName('');
+    setNewKeyPermissions({});
+    setNewKeyAllowedIps('');
+    setNewKeyExpiresAt('');
+    setCreateError(null);
+  };
+
+  const togglePermission = (resource: string, action: PermissionAction, checked: boolean) => {
+    setNewKeyPermissions((current) => {
+      const actions = current[resource] ?? [];
+      return {
+        ...current,
+        [resource]: checked ? [...actions, action] : actions.filter((a) => a !== action),
+      };
+    });
+  };
+
+  const selectedPermissions: ApiKeyPermission[] = Object.entries(newKeyPermissions)
+    .filter(([, actions]) => actions.length > 0)
+    .map(([resource, actions]) => ({ resource, actions }));
+
+  const handleCreateKey = async () => {
+    if (!organizationId || !newKeyName.trim() || selectedPermissions.length === 0) return;
+
+    try {
+      setIsCreating(true);
+      setCreateError(null);
+      const result = await apiClient.post<ApiKeySecretResponse>(
+        `/organizations/${organizationId}/api-keys`,
+        {
+          name: newKeyName.trim(),
+          permissions: selectedPermissions,
+          allowedIps: newKeyAllowedIps
+            .split(/[\s,]+/)
+            .map((ip) => ip.trim())
+            .filter(Boolean),
+          expiresAt: newKeyExpiresAt ? new Date(newKeyExpiresAt).toISOString() : null,
+        }
+      );
+
+      setIsCreateDialogOpen(false);
+      resetCreateForm();
+      setRevealedKey(result);
+      fetchApiKeys();
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRotateKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Rotate "${apiKey.name}"? The current key stops working immediately.`)) return;
+
+    try {
+      const result = await apiClient.post<ApiKeySecretResponse>(
+        `/organizations/${organizationId}/api-keys/${apiKey.id}/rotate`
+      );
+      setRevealedKey(result);
+      fetchApiKeys();
+    } catch (err) {
+      console.error('Failed to rotate API key:', err);
+    }
+  };
+
+  const handleRevokeKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Applications using it will lose access.`)) return;
+
+    try {
+      await apiClient.delete(`/organizations/${organizationId}/api-keys/${apiKey.id}`);
+      fetchApiKeys();
+    } catch (err) {
+      console.error('Failed to revoke API key:', err);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey.key);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '—';
+  };
+
+  const formatPermissions = (permissions: ApiKeyPermission[]) => {
+    return permissions.map((p) => `${p.resource}: ${p.actions.join(', ')}`).join('; ');
+  };
+
+  const limitReached = usage?.limit != null && usage.active >= usage.limit;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Key className="h-5 w-5" />
+                API Access
+              </CardTitle>
+              <CardDescription>
+                API keys give applications access to this organization via the X-API-Key header.
+                {usage && (
+                  <>
+                    {' '}
+                    {usage.limit === null
+                      ? `${usage.active} active keys.`
+                      : `${usage.active} of ${usage.limit} active keys used.`}
+                  </>
+                )}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={fetchApiKeys}
+                disabled={isLoading}
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+              <Button onClick={() => setIsCreateDialogOpen(true)} disabled={limitReached}>
+                <Plus className="mr-2 h-4 w-4" />
+                Generate Key
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading && apiKeys.length === 0 ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="text-center text-destructive py-8">{error}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apiKeys.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No API keys yet. Generate a key for programmatic access to the Argus IQ platform.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  apiKeys.map((apiKey) => (
+                    <TableRow key={apiKey.id}>
+                      <TableCell>
+                        <div className="font-medium">{apiKey.name}</div>
+                        {apiKey.allowedIps.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {apiKey.allowedIps.join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs">{apiKey.keyPrefix}…</code>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {formatPermissions(apiKey.permissions)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={apiKey.status === 'active' ? 'default' : 'secondary'}>
+                          {apiKey.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {apiKey.expiresAt ? formatDate(apiKey.expiresAt) : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {formatDate(apiKey.lastUsedAt)}
+                        {apiKey.lastUsedIp && (
+                          <div className="text-xs">{apiKey.lastUsedIp}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {apiKey.status !== 'revoked' && (
+                          <TooltipProvider delayDuration={0}>
+                            <div className="flex items-center justify-center gap-1">
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleRotateKey(apiKey)}
+                                  >
+                                    <RotateCw className="h-4 w-4 text-muted-foreground" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>Rotate</TooltipContent>
+                              </Tooltip>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleRevokeKey(apiKey)}
+                                  >
+                                    <Ban className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>Revoke</TooltipContent>
+                              </Tooltip>
+                            </div>
+                          </TooltipProvider>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Key Dialog */}
+      <Dialog
+        open={isCreateDialogOpen}
+        onOpenChange={(open) => {
+          setIsCreateDialogOpen(open);
+          if (!open) resetCreateForm();
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Generate API Key</DialogTitle>
+            <DialogDescription>
+              The key acts as you, limited to the permissions selected here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4 max-h-[60vh] overflow-y-auto">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="e.g., Billing integration"
+                value={newKeyName}
+                onChange={(e) => setNewKeyName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="rounded-md border divide-y">
+                {RESOURCES.map((resource) => (
+                  <div key={resource.value} className="flex items-center justify-between px-3 py-2">
+                    <span className="text-sm">{resource.label}</span>
+                    <div className="flex items-center gap-3">
+                      {ACTIONS.map((action) => (
+                        <label key={action} className="flex items-center gap-1 text-xs">
+                          <Checkbox
+                            checked={newKeyPermissions[resource.value]?.includes(action) ?? false}
+                            onCheckedChange={(checked) =>
+                              togglePermission(resource.value, action, checked === true)
+                            }
+                          />
+                          {action}
+                        </label>
+                      ))}
                     </div>
-                    <h3 className="text-lg font-medium mb-2">API Keys</h3>
-                    <p className="text-muted-foreground max-w-md mb-6">
-                        Generate and manage API keys for programmatic access to the Argus IQ platform.
-                    </p>
-                    <Button disabled>Generate Key (Coming Soon)</Button>
-                </CardContent>
-            </Card>
-        </div>
-    );
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-ips">Allowed IP Addresses</Label>
+              <Input
+                id="api-key-ips"
+                placeholder="e.g., 203.0.113.10, 198.51.100.0/24"
+                value={newKeyAllowedIps}
+                onChange={(e) => setNewKeyAllowedIps(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to allow requests from any address
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expires">Expires</Label>
+              <Input
+                id="api-key-expires"
+                type="date"
+                value={newKeyExpiresAt}
+                onChange={(e) => setNewKeyExpiresAt(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty for a key that does not expire</p>
+            </div>
+            {createError && <p className="text-sm text-destructive">{createError}</p>}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setIsCreateDialogOpen(false);
+                resetCreateForm();
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateKey}
+              disabled={!newKeyName.trim() || selectedPermissions.length === 0 || isCreating}
+            >
+              {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Generate Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Key Dialog */}
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>API Key for {revealedKey?.apiKey.name}</DialogTitle>
+            <DialogDescription>
+              Copy this key now. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2 py-4">
+            <Input readOnly value={revealedKey?.key ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={handleCopyKey}>
+              {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
 }
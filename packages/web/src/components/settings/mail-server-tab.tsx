@@ -83,6 +83,7 @@ export function MailServerTab() {
     success: boolean;
     message: string;
   } | null>(null);
+  const [testRecipient, setTestRecipient] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -157,24 +158,28 @@ export function MailServerTab() {
       setIsTesting(true);
       setTestResult(null);
 
-      // Simulate test - in real implementation, this would call the backend
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      // Sends through the saved settings, so unsaved changes are not tested
+      const result = await apiClient.post<{
+        success: boolean;
+        messageId: string | null;
+        error: string | null;
+      }>('/platform/email/test', { to: testRecipient });
 
-      if (settings.smtpHost && settings.smtpPort && settings.fromAddress) {
-        setTestResult({
-          success: true,
-          message: 'Connection test successful! SMTP server is reachable.',
-        });
-      } else {
-        setTestResult({
-          success: false,
-          message: 'Please fill in all required fields before testing.',
-        });
-      }
-    } catch (err) {
+      setTestResult(
+        result.success
+          ? {
+              success: true,
+              message: `Test email sent to ${testRecipient}.`,
+            }
+          : {
+              success: false,
+              message: `Test email failed: ${result.error}`,
+            }
+      );
+    } catch (err: any) {
       setTestResult({
         success: false,
-        message: 'Connection test failed. Please check your settings.',
+        message: err?.message || 'Test email failed. Please check your settings.',
       });
     } finally {
       setIsTesting(false);
@@ -355,6 +360,21 @@ export function MailServerTab() {
             </div>
           </div>
 
+          {/* Test Email */}
+          <div className="space-y-2">
+            <Label htmlFor="testRecipient">Test Recipient</Label>
+            <Input
+              id="testRecipient"
+              type="email"
+              placeholder="you@example.com"
+              value={testRecipient}
+              onChange={(e) => setTestRecipient(e.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Save your changes, then send a test email using the saved settings.
+            </p>
+          </div>
+
           {/* Test Result */}
           {testResult && (
             <div
@@ -380,14 +400,14 @@ export function MailServerTab() {
         <Button
           variant="outline"
           onClick={handleTestConnection}
-          disabled={isTesting || isSaving}
+          disabled={isTesting || isSaving || hasChanges || !testRecipient}
         >
           {isTesting ? (
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
           ) : (
             <Send className="mr-2 h-4 w-4" />
           )}
-          Test Connection
+          Send Test Email
         </Button>
         <Button variant="outline" onClick={fetchSettings} disabled={isSaving}>
           <RefreshCw className="mr-2 h-4 w-4" />
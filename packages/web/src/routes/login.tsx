@@ -85,9 +85,39 @@ function LoginPage() {
     }
   };
 
-  const handleSSOLogin = () => {
-    // Redirect to SSO discovery endpoint
-    window.location.href = '/api/v1/sso/discover';
+  const handleSSOLogin = async () => {
+    // Home-realm discovery: find the identity provider for the email's domain
+    const isEmailValid = await form.trigger('email');
+    if (!isEmailValid) {
+      return;
+    }
+    setFormError(null);
+
+    try {
+      const response = await fetch('/api/v1/sso/discover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: form.getValues('email') }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFormError(data.error?.message || 'Unable to find your organization');
+        return;
+      }
+
+      if (data.method !== 'sso' || data.providers.length === 0) {
+        setFormError('Single sign-on is not set up for this email. Please log in with your password.');
+        return;
+      }
+
+      window.location.href = data.providers[0].authorizeUrl;
+    } catch {
+      setFormError('Network error. Please try again.');
+    }
   };
 
   // Loading state
@@ -333,7 +333,7 @@ function OrganizationDetailsPage() {
               <OrganizationSSOTab organizationId={organization.id} />
             </TabsContent>
             <TabsContent value="api-access">
-              <OrganizationAPIAccessTab />
+              <OrganizationAPIAccessTab organizationId={organization.id} />
             </TabsContent>
           </>
         )}